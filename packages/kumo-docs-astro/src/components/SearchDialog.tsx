@@ -107,6 +107,8 @@ const COMPONENT_DESCRIPTIONS: Record<string, string> = {
   badge: "Displays a small label for status, categorization, or metadata.",
   "command-palette":
     "A keyboard-driven command menu for searching and navigating.",
+  "data-table":
+    "A table with declarative columns, sorting, filtering, selection and pagination.",
   meter: "A visual indicator showing a value within a known range.",
   pagination: "Navigation controls for paginated content.",
   banner:
@@ -135,6 +137,8 @@ const COMPONENT_DESCRIPTIONS: Record<string, string> = {
   "sensitive-input":
     "A masked input for sensitive values like API keys and passwords.",
   "skeleton-line": "A skeleton loading placeholder for text content.",
+  slider:
+    "A draggable control for picking a value or a range within min and max.",
   surface: "A container component that provides a styled surface for content.",
   switch: "A two-state toggle button that can be either on or off.",
   table:
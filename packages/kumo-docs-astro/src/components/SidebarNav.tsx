@@ -43,6 +43,7 @@ const componentItems: NavItem[] = [
   { label: "Collapsible", href: "/components/collapsible" },
   { label: "Combobox", href: "/components/combobox" },
   { label: "Command Palette", href: "/components/command-palette" },
+  { label: "Data Table", href: "/components/data-table" },
   { label: "Date Picker", href: "/components/date-picker" },
   { label: "Dialog", href: "/components/dialog" },
   { label: "Dropdown", href: "/components/dropdown" },
@@ -62,6 +63,7 @@ const componentItems: NavItem[] = [
   { label: "Select", href: "/components/select" },
   { label: "Sensitive Input", href: "/components/sensitive-input" },
   { label: "Skeleton Line", href: "/components/skeleton-line" },
+  { label: "Slider", href: "/components/slider" },
   { label: "Surface", href: "/components/surface" },
   { label: "Switch", href: "/components/switch" },
   { label: "Table", href: "/components/table" },
@@ -54,6 +54,98 @@ export function CodeJsonDemo() {
   );
 }
 
+export function CodeTomlDemo() {
+  return (
+    <CodeBlock
+      lang="toml"
+      code={`# wrangler.toml
+name = "my-worker"
+main = "src/index.ts"
+compatibility_date = "2025-01-01"
+
+[[kv_namespaces]]
+binding = "CACHE"
+id = "a1b2c3"`}
+    />
+  );
+}
+
+export function CodeDiffDemo() {
+  return (
+    <CodeBlock
+      lang="diff"
+      code={`--- a/src/index.ts
++++ b/src/index.ts
+@@ -1,3 +1,3 @@
+ export default {
+-  fetch: () => new Response("Hello"),
++  fetch: () => new Response("Hello, Kumo!"),
+ };`}
+    />
+  );
+}
+
+export function CodeBlockLineNumbersDemo() {
+  return (
+    <CodeBlock
+      lang="ts"
+      filename="src/index.ts"
+      lineNumbers
+      highlightLines="3-4"
+      copyable
+      code={`export default {
+  async fetch(request, env) {
+    const value = await env.CACHE.get("greeting");
+    return new Response(value ?? "Hello, World!");
+  },
+};`}
+    />
+  );
+}
+
+export function CodeBlockDiffDemo() {
+  return (
+    <CodeBlock
+      lang="ts"
+      diff
+      lineNumbers
+      code={`@@ -1,3 +1,3 @@
+ export default {
+-  fetch: () => new Response("Hello"),
++  fetch: () => new Response("Hello, Kumo!"),
+ };`}
+    />
+  );
+}
+
+export function CodeBlockFilesDemo() {
+  return (
+    <CodeBlock
+      lang="ts"
+      filename="src/index.ts"
+      copyable
+      wrap="toggle"
+      maxHeight={160}
+      code={`import { Hono } from "hono";
+
+const app = new Hono<{ Bindings: Env }>();
+
+app.get("/", (c) => c.text("Hello from a Worker with a deliberately long line to try the wrap toggle"));
+
+export default app;`}
+      files={[
+        {
+          filename: "wrangler.toml",
+          lang: "toml",
+          code: `name = "my-worker"
+main = "src/index.ts"
+compatibility_date = "2025-01-01"`,
+        },
+      ]}
+    />
+  );
+}
+
 export function CodeWithValuesDemo() {
   return (
     <Code
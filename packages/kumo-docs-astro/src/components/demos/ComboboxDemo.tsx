@@ -385,3 +385,34 @@ export function ComboboxErrorDemo() {
     </div>
   );
 }
+
+const workerRoutes = Array.from(
+  { length: 20_000 },
+  (_, index) => `example.com/api/v${index % 5}/route-${index}/*`,
+);
+
+// Virtualized list of 20,000 routes
+export function ComboboxVirtualizedDemo() {
+  const [value, setValue] = useState<string | null>(null);
+
+  return (
+    <Combobox
+      value={value}
+      onValueChange={(v) => setValue(v as string | null)}
+      items={workerRoutes}
+      virtualized
+    >
+      <Combobox.TriggerInput placeholder="Search routes" />
+      <Combobox.Content>
+        <Combobox.Empty />
+        <Combobox.List>
+          {(item: string) => (
+            <Combobox.Item key={item} value={item}>
+              {item}
+            </Combobox.Item>
+          )}
+        </Combobox.List>
+      </Combobox.Content>
+    </Combobox>
+  );
+}
@@ -1,6 +1,18 @@
-import { useState } from "react";
-import { CommandPalette, Button } from "@cloudflare/kumo";
+import { useMemo, useState } from "react";
 import {
+  CommandPalette,
+  CommandPaletteCommands,
+  CommandPaletteProvider,
+  Button,
+  useRegisterCommand,
+  type Command,
+  type CommandPaletteSource,
+  type CommandPaletteSourceGroup,
+} from "@cloudflare/kumo";
+import {
+  GlobeIcon,
+  KeyIcon,
+  LightningIcon,
   GearIcon,
   FileIcon,
   FolderIcon,
@@ -352,3 +364,314 @@ export function CommandPaletteResultItemDemo() {
     </div>
   );
 }
+
+interface DocsPage {
+  id: string;
+  title: string;
+  breadcrumbs: string[];
+  keywords?: string[];
+}
+
+const docsPages: DocsPage[] = [
+  { id: "dns-records", title: "Records", breadcrumbs: ["DNS"] },
+  {
+    id: "dns-settings",
+    title: "Settings",
+    breadcrumbs: ["DNS"],
+    keywords: ["dnssec", "nameservers"],
+  },
+  { id: "vpc", title: "VPC", breadcrumbs: ["Compute (Workers)"] },
+  { id: "routes", title: "Routes", breadcrumbs: ["Compute (Workers)"] },
+  {
+    id: "web-analytics",
+    title: "Web Analytics",
+    breadcrumbs: ["Analytics & Logs"],
+    keywords: ["traffic", "visitors"],
+  },
+  { id: "cache-rules", title: "Cache Rules", breadcrumbs: ["Caching"] },
+  { id: "cafe", title: "Café Menu", breadcrumbs: ["Examples"] },
+];
+
+// Built-in fuzzy filter with ranked results and highlights
+export function CommandPaletteFuzzyDemo() {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div>
+      <Button onClick={() => setOpen(true)}>Open Fuzzy Search</Button>
+
+      <CommandPalette.Root
+        open={open}
+        onOpenChange={setOpen}
+        items={docsPages}
+        itemToStringValue={(page) => page.title}
+        getSelectableItems={(pages) => pages}
+        filter="fuzzy"
+      >
+        <CommandPalette.Input placeholder="Try “workers vpc” or “traffic”..." />
+        <CommandPalette.List>
+          <CommandPalette.Results>
+            {(page: DocsPage) => (
+              <CommandPalette.ResultItem
+                key={page.id}
+                value={page}
+                title={page.title}
+                breadcrumbs={page.breadcrumbs}
+                onClick={() => setOpen(false)}
+              />
+            )}
+          </CommandPalette.Results>
+          <CommandPalette.Empty>No pages found</CommandPalette.Empty>
+        </CommandPalette.List>
+      </CommandPalette.Root>
+    </div>
+  );
+}
+
+// Stand-in for an API search: resolves after a delay, unless aborted
+function fakeSearch<T>(results: T[], delay: number, signal: AbortSignal) {
+  return new Promise<T[]>((resolve, reject) => {
+    const timeout = setTimeout(() => resolve(results), delay);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    });
+  });
+}
+
+const resourceSources: CommandPaletteSource<SimpleItem>[] = [
+  {
+    id: "zones",
+    label: "Zones",
+    search: (query, signal) =>
+      fakeSearch(
+        ["example.com", "example.dev", "cloudflare-demo.net"]
+          .filter((zone) => zone.includes(query.toLowerCase()))
+          .map((zone) => ({ id: zone, title: zone })),
+        400,
+        signal,
+      ),
+  },
+  {
+    id: "workers",
+    label: "Workers",
+    search: (query, signal) =>
+      fakeSearch(
+        ["api-gateway", "image-resizer", "auth-proxy"]
+          .filter((worker) => worker.includes(query.toLowerCase()))
+          .map((worker) => ({ id: worker, title: worker })),
+        900,
+        signal,
+      ),
+  },
+  {
+    id: "docs",
+    label: "Docs",
+    search: (_query, signal) =>
+      fakeSearch([], 600, signal).then(() => {
+        throw new Error("Docs search is unavailable");
+      }),
+  },
+];
+
+// Async sources with per-group loading and error states
+export function CommandPaletteSourcesDemo() {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div>
+      <Button onClick={() => setOpen(true)}>Open Resource Search</Button>
+
+      <CommandPalette.Root
+        open={open}
+        onOpenChange={setOpen}
+        sources={resourceSources}
+        itemToStringValue={(group: CommandPaletteSourceGroup<SimpleItem>) =>
+          group.label
+        }
+        getSelectableItems={(groups) => groups.flatMap((g) => g.items)}
+        filter="fuzzy"
+      >
+        <CommandPalette.Input placeholder="Try “api” or “example”..." />
+        <CommandPalette.List>
+          <CommandPalette.Results>
+            {(group: CommandPaletteSourceGroup<SimpleItem>) => (
+              <CommandPalette.Group key={group.id} items={group.items}>
+                <CommandPalette.GroupLabel>
+                  {group.label}
+                </CommandPalette.GroupLabel>
+                <CommandPalette.Items>
+                  {(item: SimpleItem) => (
+                    <CommandPalette.ResultItem
+                      key={item.id}
+                      value={item}
+                      title={item.title}
+                      onClick={() => setOpen(false)}
+                    />
+                  )}
+                </CommandPalette.Items>
+              </CommandPalette.Group>
+            )}
+          </CommandPalette.Results>
+          <CommandPalette.SourceStatus />
+          <CommandPalette.Empty>No resources found</CommandPalette.Empty>
+        </CommandPalette.List>
+      </CommandPalette.Root>
+    </div>
+  );
+}
+
+const zones = ["example.com", "example.dev", "cloudflare-demo.net"];
+
+function zoneActions(zone: string): Command[] {
+  return [
+    { id: `${zone}:dns`, title: "DNS records", run: () => {} },
+    { id: `${zone}:purge`, title: "Purge cache", run: () => {} },
+    {
+      id: `${zone}:pause`,
+      title: "Pause Cloudflare",
+      description: "Requires the Admin role",
+      enabled: () => false,
+    },
+  ];
+}
+
+// Commands contributed by a page while it is mounted
+function ZoneCommands() {
+  useRegisterCommand([
+    {
+      id: "go-to-zone",
+      title: "Go to zone",
+      group: "Zones",
+      keywords: ["domain", "site"],
+      icon: <GlobeIcon />,
+      page: {
+        title: "Zones",
+        placeholder: "Select a zone...",
+        commands: zones.map((zone) => ({
+          id: zone,
+          title: zone,
+          page: { title: zone, commands: zoneActions(zone) },
+        })),
+      },
+    },
+    {
+      id: "purge-everything",
+      title: "Purge everything",
+      group: "Zones",
+      keywords: ["cache", "clear"],
+      icon: <LightningIcon />,
+      run: () => {},
+    },
+  ]);
+  return null;
+}
+
+function AccountCommands() {
+  useRegisterCommand([
+    {
+      id: "create-token",
+      title: "Create API token",
+      group: "Account",
+      keywords: ["key", "credential"],
+      icon: <KeyIcon />,
+      argument: {
+        placeholder: "Token name",
+        description: "Press Enter to create the token",
+        validate: (value) =>
+          value.trim() ? undefined : "Enter a name for the token",
+      },
+      run: () => {},
+    },
+    {
+      id: "settings",
+      title: "Account settings",
+      group: "Account",
+      icon: <GearIcon />,
+      run: () => {},
+    },
+  ]);
+  return null;
+}
+
+// Registered commands with nested pages, an argument step and recents
+export function CommandPaletteCommandsDemo() {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <CommandPaletteProvider
+      groupOrder={["Zones", "Account"]}
+      recentsStorage={
+        typeof window === "undefined" ? undefined : window.localStorage
+      }
+      recentsStorageKey="kumo-docs-commands"
+    >
+      <ZoneCommands />
+      <AccountCommands />
+      <Button onClick={() => setOpen(true)}>Open Commands</Button>
+      <CommandPaletteCommands open={open} onOpenChange={setOpen} />
+    </CommandPaletteProvider>
+  );
+}
+
+interface ResourceGroup {
+  label: string;
+  items: SimpleItem[];
+}
+
+const resourceGroups: ResourceGroup[] = ["DNS records", "Workers routes"].map(
+  (label) => ({
+    label,
+    items: Array.from({ length: 5_000 }, (_, index) => ({
+      id: `${label}-${index}`,
+      title: `${label === "DNS records" ? "record" : "route"}-${index}.example.com`,
+    })),
+  }),
+);
+
+// Virtualized list of 10,000 grouped results
+export function CommandPaletteVirtualizedDemo() {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const results = useMemo(
+    () =>
+      resourceGroups
+        .map((group) => ({
+          ...group,
+          items: group.items.filter((item) => item.title.includes(search)),
+        }))
+        .filter((group) => group.items.length > 0),
+    [search],
+  );
+
+  return (
+    <div>
+      <Button onClick={() => setOpen(true)}>Open Resource Search</Button>
+
+      <CommandPalette.Root
+        open={open}
+        onOpenChange={setOpen}
+        items={results}
+        value={search}
+        onValueChange={setSearch}
+        itemToStringValue={(group) => group.label}
+        getSelectableItems={(groups) => groups.flatMap((group) => group.items)}
+        virtualized
+      >
+        <CommandPalette.Input placeholder="Search resources..." />
+        <CommandPalette.List>
+          <CommandPalette.Results
+            renderGroupLabel={(group: ResourceGroup) => group.label}
+            renderItem={(item: SimpleItem) => (
+              <CommandPalette.Item value={item} onClick={() => setOpen(false)}>
+                {item.title}
+              </CommandPalette.Item>
+            )}
+          />
+          <CommandPalette.Empty>No resources found</CommandPalette.Empty>
+        </CommandPalette.List>
+      </CommandPalette.Root>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+import { useEffect, useState } from "react";
+import {
+  Badge,
+  DataTable,
+  LayerCard,
+  type DataTableColumn,
+  type DataTableSort,
+} from "@cloudflare/kumo";
+
+interface Worker {
+  id: string;
+  name: string;
+  status: "active" | "paused";
+  requests: number;
+  region: string;
+}
+
+const workers: Worker[] = [
+  {
+    id: "1",
+    name: "api-gateway",
+    status: "active",
+    requests: 12840,
+    region: "WNAM",
+  },
+  { id: "2", name: "auth", status: "active", requests: 5210, region: "WEUR" },
+  {
+    id: "3",
+    name: "image-resizer",
+    status: "paused",
+    requests: 0,
+    region: "APAC",
+  },
+  {
+    id: "4",
+    name: "cron-cleanup",
+    status: "active",
+    requests: 96,
+    region: "ENAM",
+  },
+  {
+    id: "5",
+    name: "email-router",
+    status: "active",
+    requests: 734,
+    region: "WEUR",
+  },
+  {
+    id: "6",
+    name: "analytics-ingest",
+    status: "paused",
+    requests: 40211,
+    region: "WNAM",
+  },
+  {
+    id: "7",
+    name: "og-image",
+    status: "active",
+    requests: 2187,
+    region: "APAC",
+  },
+];
+
+const columns: DataTableColumn<Worker>[] = [
+  { id: "name", header: "Name", sortable: true, filterable: true },
+  {
+    id: "status",
+    header: "Status",
+    cell: (worker) => (
+      <Badge variant={worker.status === "active" ? "primary" : "secondary"}>
+        {worker.status === "active" ? "Active" : "Paused"}
+      </Badge>
+    ),
+  },
+  { id: "region", header: "Region", sortable: true, filterable: true },
+  {
+    id: "requests",
+    header: "Requests",
+    sortable: true,
+    align: "end",
+    cell: (worker) => worker.requests.toLocaleString(),
+  },
+];
+
+export function DataTableBasicDemo() {
+  return (
+    <LayerCard>
+      <LayerCard.Primary className="p-0">
+        <DataTable
+          columns={columns}
+          data={workers}
+          getRowId={(worker) => worker.id}
+        />
+      </LayerCard.Primary>
+    </LayerCard>
+  );
+}
+
+export function DataTableSelectionDemo() {
+  const [selected, setSelected] = useState<string[]>(["2"]);
+
+  return (
+    <div className="flex w-full flex-col gap-3">
+      <LayerCard>
+        <LayerCard.Primary className="p-0">
+          <DataTable
+            columns={columns}
+            data={workers}
+            getRowId={(worker) => worker.id}
+            selectable
+            selectedRowIds={selected}
+            onSelectedRowIdsChange={setSelected}
+            isRowSelectable={(worker) => worker.status === "active"}
+          />
+        </LayerCard.Primary>
+      </LayerCard>
+      <p className="text-sm text-kumo-subtle">{selected.length} selected</p>
+    </div>
+  );
+}
+
+export function DataTablePaginationDemo() {
+  return (
+    <DataTable
+      columns={columns}
+      data={workers}
+      getRowId={(worker) => worker.id}
+      pagination
+      defaultPerPage={5}
+      pageSizeOptions={[5, 10, 25]}
+    />
+  );
+}
+
+/** Pretend API that sorts and paginates on the server */
+function fetchWorkers(sort: DataTableSort, page: number, perPage: number) {
+  const sorted = [...workers].sort((a, b) => {
+    if (!sort) return 0;
+    const key = sort.columnId as keyof Worker;
+    const order = String(a[key]).localeCompare(String(b[key]), undefined, {
+      numeric: true,
+    });
+    return sort.direction === "asc" ? order : -order;
+  });
+  const start = (page - 1) * perPage;
+  return Promise.resolve({
+    rows: sorted.slice(start, start + perPage),
+    total: workers.length,
+  });
+}
+
+export function DataTableServerDemo() {
+  const [sort, setSort] = useState<DataTableSort>(null);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState({ rows: [] as Worker[], total: 0 });
+
+  useEffect(() => {
+    void fetchWorkers(sort, page, 3).then(setResult);
+  }, [sort, page]);
+
+  return (
+    <DataTable
+      columns={columns.map((column) => ({ ...column, filterable: false }))}
+      data={result.rows}
+      getRowId={(worker) => worker.id}
+      manual
+      totalCount={result.total}
+      sort={sort}
+      onSortChange={setSort}
+      pagination
+      page={page}
+      onPageChange={setPage}
+      perPage={3}
+    />
+  );
+}
+
+export function DataTableColumnLayoutDemo() {
+  return (
+    <DataTable
+      columns={columns.map((column) => ({
+        ...column,
+        filterable: false,
+        width: column.id === "name" ? 220 : 140,
+        pinned: column.id === "name" ? ("left" as const) : undefined,
+        hideable: column.id !== "name",
+      }))}
+      data={workers}
+      getRowId={(worker) => worker.id}
+      resizableColumns
+      reorderableColumns
+      columnVisibility
+      layoutStorage={
+        typeof window === "undefined" ? undefined : window.localStorage
+      }
+      layoutStorageKey="kumo-docs-data-table-layout"
+    />
+  );
+}
+
+const manyWorkers: Worker[] = Array.from({ length: 10_000 }, (_, index) => ({
+  id: String(index),
+  name: `worker-${index}`,
+  status: index % 7 === 0 ? "paused" : "active",
+  requests: (index * 7919) % 100_000,
+  region: ["WNAM", "ENAM", "WEUR", "APAC"][index % 4]!,
+}));
+
+export function DataTableVirtualizedDemo() {
+  return (
+    <DataTable
+      columns={columns}
+      data={manyWorkers}
+      getRowId={(worker) => worker.id}
+      selectable
+      virtualized
+      maxHeight={400}
+    />
+  );
+}
+
+interface DnsResource {
+  id: string;
+  name: string;
+  type: string;
+  content: string;
+  records?: DnsResource[];
+}
+
+const dnsZones: DnsResource[] = [
+  { id: "example.com", name: "example.com", type: "Zone", content: "Active" },
+  { id: "example.dev", name: "example.dev", type: "Zone", content: "Active" },
+  {
+    id: "example.org",
+    name: "example.org",
+    type: "Zone",
+    content: "Pending",
+    records: [],
+  },
+];
+
+function fetchRecords(zone: DnsResource): Promise<DnsResource[]> {
+  return new Promise((resolve) =>
+    setTimeout(
+      () =>
+        resolve([
+          {
+            id: `${zone.id}/a`,
+            name: zone.name,
+            type: "A",
+            content: "192.0.2.1",
+          },
+          {
+            id: `${zone.id}/www`,
+            name: `www.${zone.name}`,
+            type: "CNAME",
+            content: zone.name,
+          },
+          {
+            id: `${zone.id}/mx`,
+            name: zone.name,
+            type: "MX",
+            content: `mail.${zone.name}`,
+          },
+        ]),
+      600,
+    ),
+  );
+}
+
+export function DataTableTreeDemo() {
+  return (
+    <DataTable
+      columns={[
+        { id: "name", header: "Name" },
+        { id: "type", header: "Type" },
+        { id: "content", header: "Content" },
+      ]}
+      data={dnsZones}
+      getRowId={(row) => row.id}
+      getSubRows={(row) => row.records}
+      loadSubRows={fetchRecords}
+      label="Zones and DNS records"
+    />
+  );
+}
+
+export function DataTableDetailDemo() {
+  return (
+    <DataTable
+      columns={columns.filter((column) => column.id !== "region")}
+      data={workers.slice(0, 4)}
+      getRowId={(worker) => worker.id}
+      defaultExpandedRowIds={["1"]}
+      renderRowDetail={(worker) => (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-1 text-sm">
+          <dt className="text-kumo-subtle">Region</dt>
+          <dd>{worker.region}</dd>
+          <dt className="text-kumo-subtle">Route</dt>
+          <dd>{worker.name}.example.workers.dev</dd>
+        </dl>
+      )}
+    />
+  );
+}
+
+export function DataTableGroupingDemo() {
+  return (
+    <DataTable
+      columns={[
+        { id: "region", header: "Region" },
+        { id: "name", header: "Name", aggregate: "count" },
+        {
+          id: "requests",
+          header: "Requests",
+          align: "end",
+          aggregate: "sum",
+          cell: (worker) => worker.requests.toLocaleString(),
+        },
+      ]}
+      data={workers}
+      getRowId={(worker) => worker.id}
+      groupBy="region"
+      defaultSort={{ columnId: "region", direction: "asc" }}
+    />
+  );
+}
@@ -1,7 +1,14 @@
 "use client";
 
 import { useState } from "react";
-import { DatePicker, Popover, Button, type DateRange } from "@cloudflare/kumo";
+import {
+  DatePicker,
+  DateInput,
+  Popover,
+  Button,
+  type DatePickerPreset,
+  type DateRange,
+} from "@cloudflare/kumo";
 import { CalendarDotsIcon } from "@phosphor-icons/react";
 
 /**
@@ -12,11 +19,15 @@ export function DatePickerSingleDemo() {
 
   return (
     <div className="flex flex-col gap-4">
-      <DatePicker mode="single" selected={date} onChange={d => {
-        if (d) {
-          setDate(d);
-        }
-      }} />
+      <DatePicker
+        mode="single"
+        selected={date}
+        onChange={(d) => {
+          if (d) {
+            setDate(d);
+          }
+        }}
+      />
       <p className="text-sm text-kumo-subtle">
         Selected: {date ? date.toLocaleDateString() : "None"}
       </p>
@@ -234,10 +245,11 @@ export function DatePickerRangeWithPresetsDemo() {
                   key={preset.label}
                   type="button"
                   onClick={() => handlePresetClick(preset)}
-                  className={`rounded-md px-3 py-1.5 text-left whitespace-nowrap ${isActive
-                    ? "bg-kumo-bg-inverse text-kumo-text-inverse"
-                    : "text-kumo-strong hover:bg-kumo-control"
-                    }`}
+                  className={`rounded-md px-3 py-1.5 text-left whitespace-nowrap ${
+                    isActive
+                      ? "bg-kumo-bg-inverse text-kumo-text-inverse"
+                      : "text-kumo-strong hover:bg-kumo-control"
+                  }`}
                 >
                   {preset.label}
                 </button>
@@ -294,3 +306,119 @@ export function DatePickerDisabledWithFooterDemo() {
     />
   );
 }
+
+/**
+ * Single date with a time of day, in 12-hour format with 15 minute steps.
+ */
+export function DatePickerTimeDemo() {
+  const [date, setDate] = useState<Date | undefined>();
+
+  return (
+    <div className="flex flex-col gap-4">
+      <DatePicker
+        mode="single"
+        selected={date}
+        onChange={setDate}
+        showTime
+        hourCycle={12}
+        minuteStep={15}
+      />
+      <p className="text-sm text-kumo-subtle">
+        Selected: {date ? date.toLocaleString() : "None"}
+      </p>
+    </div>
+  );
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const analyticsPresets: DatePickerPreset[] = [
+  {
+    label: "Last 24 hours",
+    range: (now) => ({ from: new Date(now.getTime() - 24 * HOUR), to: now }),
+  },
+  {
+    label: "Last 7 days",
+    range: (now) => ({
+      from: new Date(now.getTime() - 7 * 24 * HOUR),
+      to: now,
+    }),
+  },
+  {
+    label: "Last 30 days",
+    range: (now) => ({
+      from: new Date(now.getTime() - 30 * 24 * HOUR),
+      to: now,
+    }),
+  },
+];
+
+/**
+ * Range with times and presets, shown and emitted in UTC.
+ */
+export function DatePickerPresetsTimeZoneDemo() {
+  const [range, setRange] = useState<DateRange | undefined>();
+
+  return (
+    <div className="flex flex-col gap-4">
+      <DatePicker
+        mode="range"
+        selected={range}
+        onChange={setRange}
+        presets={analyticsPresets}
+        showTime
+        timeZone="UTC"
+        maxDateTime={new Date()}
+      />
+      <p className="text-sm text-kumo-subtle">
+        Range:{" "}
+        {range?.from
+          ? `${range.from.toISOString()} – ${range.to?.toISOString() ?? "..."}`
+          : "None"}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Selection limited to the next two weeks, from one hour from now.
+ */
+export function DatePickerMinMaxDateTimeDemo() {
+  const [date, setDate] = useState<Date | undefined>();
+  const [now] = useState(() => Date.now());
+
+  return (
+    <DatePicker
+      mode="single"
+      selected={date}
+      onChange={setDate}
+      showTime
+      minuteStep={30}
+      minDateTime={new Date(now + HOUR)}
+      maxDateTime={new Date(now + 14 * 24 * HOUR)}
+    />
+  );
+}
+
+/**
+ * Typed date input with a calendar popover.
+ */
+export function DateInputDemo() {
+  const [date, setDate] = useState<Date | null>(null);
+
+  return (
+    <div className="flex w-72 flex-col gap-4">
+      <DateInput
+        label="Deploy at"
+        value={date}
+        onChange={setDate}
+        showTime
+        timeZone="UTC"
+        description="Type a date or pick one from the calendar."
+      />
+      <p className="text-sm text-kumo-subtle">
+        Value: {date ? date.toISOString() : "None"}
+      </p>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { Flow } from "@cloudflare/kumo";
+import { useRef, useState } from "react";
+import { Button, Flow, exportFlowDiagram } from "@cloudflare/kumo";
 
 /** Basic flow diagram with sequential nodes */
 export function FlowBasicDemo() {
@@ -183,3 +184,118 @@ export function FlowParallelNestedListDemo() {
     </Flow>
   );
 }
+
+/** Flow diagram laid out top to bottom */
+export function FlowVerticalDemo() {
+  return (
+    <Flow orientation="vertical" align="center">
+      <Flow.Node>Request</Flow.Node>
+      <Flow.Parallel>
+        <Flow.Node>WAF</Flow.Node>
+        <Flow.Node>Rate Limiting</Flow.Node>
+      </Flow.Parallel>
+      <Flow.Node>my-worker</Flow.Node>
+    </Flow>
+  );
+}
+
+/** Flow diagram rendered from workflow graph data */
+export function FlowGraphDemo() {
+  return (
+    <Flow orientation="vertical" align="center">
+      <Flow.Graph
+        nodes={[
+          { id: "fetch", label: "Fetch image" },
+          { id: "resize", label: "Resize" },
+          { id: "thumbnail", label: "Generate thumbnail" },
+          { id: "scan", label: "Scan for malware" },
+          { id: "store", label: "Store in R2" },
+          { id: "notify", label: "Notify user" },
+        ]}
+        edges={[
+          { source: "fetch", target: "resize" },
+          { source: "resize", target: "thumbnail" },
+          { source: "fetch", target: "scan" },
+          { source: "thumbnail", target: "store" },
+          { source: "scan", target: "store" },
+          { source: "store", target: "notify" },
+        ]}
+      />
+    </Flow>
+  );
+}
+
+/** Workflow run with node statuses, selection, zoom and a minimap */
+export function FlowRunDemo() {
+  const [selected, setSelected] = useState<string[]>(["resize"]);
+  return (
+    <div className="flex flex-col gap-3">
+      <Flow
+        className="h-72"
+        selectionMode="multiple"
+        selectedNodeIds={selected}
+        onSelectedNodeIdsChange={setSelected}
+        zoomable
+        minimap
+        aria-label="Workflow run steps"
+      >
+        <Flow.Node id="fetch" status="succeeded">
+          Fetch image
+        </Flow.Node>
+        <Flow.Parallel>
+          <Flow.Node id="resize" status="running">
+            Resize
+          </Flow.Node>
+          <Flow.Node id="scan" status="failed">
+            Scan for malware
+          </Flow.Node>
+          <Flow.Node id="tag" status="skipped">
+            Auto-tag
+          </Flow.Node>
+        </Flow.Parallel>
+        <Flow.Node id="store" status="pending">
+          Store in R2
+        </Flow.Node>
+      </Flow>
+      <p className="text-sm text-kumo-subtle">
+        Selected: {selected.length > 0 ? selected.join(", ") : "none"}
+      </p>
+    </div>
+  );
+}
+
+/** Flow diagram exported to SVG or PNG */
+export function FlowExportDemo() {
+  const flowRef = useRef<HTMLDivElement>(null);
+
+  const download = async (format: "svg" | "png") => {
+    const blob = await exportFlowDiagram(flowRef, { format, theme: "light" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `pipeline.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <Flow ref={flowRef}>
+        <Flow.Node status="succeeded">Build</Flow.Node>
+        <Flow.Parallel>
+          <Flow.Node status="succeeded">Unit tests</Flow.Node>
+          <Flow.Node status="failed">Integration tests</Flow.Node>
+        </Flow.Parallel>
+        <Flow.Node status="skipped">Deploy</Flow.Node>
+      </Flow>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => download("svg")}>
+          Export SVG
+        </Button>
+        <Button size="sm" onClick={() => download("png")}>
+          Export PNG
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -192,3 +192,24 @@ export function SelectComplexDemo() {
     </Select>
   );
 }
+
+const dnsRecords = Array.from({ length: 10_000 }, (_, index) => ({
+  value: `record-${index}`,
+  label: `record-${index}.example.com`,
+}));
+
+export function SelectVirtualizedDemo() {
+  const [value, setValue] = useState<string | null>(null);
+
+  return (
+    <Select
+      className="w-[260px]"
+      aria-label="DNS record"
+      placeholder="Select a record"
+      items={dnsRecords}
+      value={value}
+      onValueChange={(v) => setValue(v as string | null)}
+      virtualized
+    />
+  );
+}
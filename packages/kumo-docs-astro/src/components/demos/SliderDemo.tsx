@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { RangeSlider, Slider } from "@cloudflare/kumo";
+
+export function SliderBasicDemo() {
+  return <Slider label="Volume" defaultValue={40} />;
+}
+
+export function SliderFieldDemo() {
+  return (
+    <Slider
+      label="Sampling rate"
+      description="Share of requests to include in analytics"
+      defaultValue={0.25}
+      max={1}
+      step={0.05}
+      format={{ style: "percent" }}
+    />
+  );
+}
+
+export function SliderMarksDemo() {
+  return (
+    <Slider
+      label="Rate limit (requests per minute)"
+      defaultValue={500}
+      max={1000}
+      step={250}
+      marks={[
+        { value: 0, label: "0" },
+        { value: 250, label: "250" },
+        { value: 500, label: "500" },
+        { value: 750, label: "750" },
+        { value: 1000, label: "1,000" },
+      ]}
+    />
+  );
+}
+
+export function SliderControlledDemo() {
+  const [value, setValue] = useState(30);
+  return (
+    <div className="flex flex-col gap-2">
+      <Slider
+        label="Cache TTL (seconds)"
+        value={value}
+        onValueChange={setValue}
+      />
+      <p className="text-sm text-kumo-subtle">Current value: {value}</p>
+    </div>
+  );
+}
+
+export function SliderRangeDemo() {
+  const [range, setRange] = useState<[number, number]>([200, 800]);
+  return (
+    <div className="flex flex-col gap-2">
+      <RangeSlider
+        label="Response time (ms)"
+        value={range}
+        onValueChange={setRange}
+        max={1000}
+        step={10}
+        minStepsBetweenValues={10}
+      />
+      <p className="text-sm text-kumo-subtle">
+        {range[0]} ms – {range[1]} ms
+      </p>
+    </div>
+  );
+}
+
+export function SliderSizesDemo() {
+  return (
+    <div className="flex flex-col gap-4">
+      <Slider size="xs" label="Extra Small" defaultValue={20} />
+      <Slider size="sm" label="Small" defaultValue={40} />
+      <Slider label="Base" defaultValue={60} />
+      <Slider size="lg" label="Large" defaultValue={80} />
+    </div>
+  );
+}
+
+export function SliderErrorDemo() {
+  return (
+    <Slider
+      label="Monthly budget"
+      defaultValue={5}
+      variant="error"
+      error="Budget must be at least 10"
+    />
+  );
+}
+
+export function SliderDisabledDemo() {
+  return <Slider label="Replicas" defaultValue={3} max={10} disabled />;
+}
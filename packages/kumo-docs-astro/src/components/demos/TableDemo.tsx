@@ -5,6 +5,9 @@ import {
   DropdownMenu,
   LayerCard,
   Table,
+  useTableColumnLayout,
+  useTableRowTree,
+  type TableColumnDef,
 } from "@cloudflare/kumo";
 import {
   DotsThree,
@@ -352,3 +355,182 @@ export function TableFullDemo() {
     </LayerCard>
   );
 }
+
+const layoutColumns: TableColumnDef[] = [
+  { id: "subject", width: 260, minWidth: 160, pinned: "left" },
+  { id: "from", width: 180 },
+  { id: "date", width: 160 },
+];
+
+const columnLabels: Record<string, string> = {
+  subject: "Subject",
+  from: "From",
+  date: "Date",
+};
+
+export function TableColumnLayoutDemo() {
+  const columns = useTableColumnLayout(layoutColumns, {
+    storage: typeof window === "undefined" ? undefined : window.localStorage,
+    storageKey: "kumo-docs-table-layout",
+  });
+
+  return (
+    <div className="flex w-full flex-col gap-3">
+      <div className="flex justify-end gap-2">
+        <Table.ColumnVisibilityMenu
+          columns={layoutColumns.map(({ id }) => ({
+            id,
+            label: columnLabels[id],
+            disabled: id === "subject",
+          }))}
+          hidden={columns.layout.hidden}
+          onHiddenChange={(hidden) =>
+            columns.setLayout({ ...columns.layout, hidden })
+          }
+        />
+        <Button size="sm" variant="ghost" onClick={columns.resetLayout}>
+          Reset
+        </Button>
+      </div>
+      <LayerCard>
+        <LayerCard.Primary className="p-0">
+          <div
+            className="overflow-x-auto"
+            {...columns.getScrollContainerProps()}
+          >
+            <Table {...columns.getTableProps()}>
+              <colgroup>
+                {columns.visibleColumnIds.map((id) => (
+                  <col key={id} {...columns.getColumnProps(id)} />
+                ))}
+              </colgroup>
+              <Table.Header>
+                <Table.Row>
+                  {columns.visibleColumnIds.map((id) => (
+                    <Table.Head
+                      key={id}
+                      {...columns.getHeadProps(id, { reorderable: true })}
+                    >
+                      {columnLabels[id]}
+                      <Table.ResizeHandle
+                        {...columns.getResizeHandleProps(id)}
+                        aria-label={`Resize ${columnLabels[id]}`}
+                      />
+                    </Table.Head>
+                  ))}
+                </Table.Row>
+              </Table.Header>
+              <Table.Body>
+                {emailData.map((row) => (
+                  <Table.Row key={row.id}>
+                    {columns.visibleColumnIds.map((id) => (
+                      <Table.Cell key={id} {...columns.getCellProps(id)}>
+                        {row[id as "subject" | "from" | "date"]}
+                      </Table.Cell>
+                    ))}
+                  </Table.Row>
+                ))}
+              </Table.Body>
+            </Table>
+          </div>
+        </LayerCard.Primary>
+      </LayerCard>
+    </div>
+  );
+}
+
+const dnsRecords = Array.from({ length: 10_000 }, (_, index) => ({
+  id: String(index),
+  name: `record-${index}.example.com`,
+  type: ["A", "AAAA", "CNAME", "TXT"][index % 4],
+  content: `192.0.2.${index % 255}`,
+}));
+
+export function TableVirtualizedDemo() {
+  return (
+    <div className="h-96 w-full overflow-auto">
+      <Table>
+        <Table.Header className="sticky top-0 z-1">
+          <Table.Row>
+            <Table.Head>Name</Table.Head>
+            <Table.Head>Type</Table.Head>
+            <Table.Head>Content</Table.Head>
+          </Table.Row>
+        </Table.Header>
+        <Table.Body virtualized>
+          {dnsRecords.map((record) => (
+            <Table.Row key={record.id}>
+              <Table.Cell>{record.name}</Table.Cell>
+              <Table.Cell>{record.type}</Table.Cell>
+              <Table.Cell>{record.content}</Table.Cell>
+            </Table.Row>
+          ))}
+        </Table.Body>
+      </Table>
+    </div>
+  );
+}
+
+interface Resource {
+  id: string;
+  name: string;
+  role: string;
+  children?: Resource[];
+}
+
+const accounts: Resource[] = [
+  {
+    id: "acme",
+    name: "Acme Corp",
+    role: "Account",
+    children: [
+      { id: "acme/alice", name: "alice@acme.com", role: "Super Administrator" },
+      {
+        id: "acme/platform",
+        name: "Platform team",
+        role: "Group",
+        children: [
+          { id: "acme/bob", name: "bob@acme.com", role: "Administrator" },
+          { id: "acme/carol", name: "carol@acme.com", role: "Analytics" },
+        ],
+      },
+    ],
+  },
+  {
+    id: "globex",
+    name: "Globex",
+    role: "Account",
+    children: [
+      { id: "globex/dana", name: "dana@globex.com", role: "Administrator" },
+    ],
+  },
+];
+
+export function TableTreeDemo() {
+  const tree = useTableRowTree(accounts, {
+    getRowId: (row) => row.id,
+    getSubRows: (row) => row.children,
+    defaultExpandedRowIds: ["acme"],
+  });
+
+  return (
+    <Table {...tree.getTableProps()} aria-label="Accounts and members">
+      <Table.Header>
+        <Table.Row>
+          <Table.Head>Name</Table.Head>
+          <Table.Head>Role</Table.Head>
+        </Table.Row>
+      </Table.Header>
+      <Table.Body>
+        {tree.rows.map((treeRow) => (
+          <Table.Row key={treeRow.id} {...tree.getRowProps(treeRow)}>
+            <Table.ExpandCell {...tree.getExpandCellProps(treeRow)}>
+              {treeRow.row.name}
+            </Table.ExpandCell>
+            <Table.Cell>{treeRow.row.role}</Table.Cell>
+          </Table.Row>
+        ))}
+      </Table.Body>
+    </Table>
+  );
+}
@@ -1,4 +1,11 @@
-import { Button, Toasty, useKumoToastManager, Link } from "@cloudflare/kumo";
+import { useState } from "react";
+import {
+  Button,
+  Toasty,
+  useKumoToastManager,
+  Link,
+  type KumoToastPlacement,
+} from "@cloudflare/kumo";
 import { CheckCircleIcon } from "@phosphor-icons/react/dist/ssr";
 
 function ToastTriggerButton() {
@@ -304,3 +311,185 @@ export function ToastPromiseDemo() {
     </Toasty>
   );
 }
+
+const placements: KumoToastPlacement[] = [
+  "top-left",
+  "top-center",
+  "top-right",
+  "bottom-left",
+  "bottom-center",
+  "bottom-right",
+];
+
+function ToastPlacementButtons({
+  onPlacementChange,
+}: {
+  onPlacementChange: (placement: KumoToastPlacement) => void;
+}) {
+  const toastManager = useKumoToastManager();
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {placements.map((placement) => (
+        <Button
+          key={placement}
+          onClick={() => {
+            onPlacementChange(placement);
+            toastManager.add({
+              title: "Toast placed",
+              description: `Shown at ${placement}.`,
+            });
+          }}
+        >
+          {placement}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+export function ToastPlacementDemo() {
+  const [placement, setPlacement] = useState<KumoToastPlacement>("top-center");
+
+  return (
+    <Toasty placement={placement}>
+      <ToastPlacementButtons onPlacementChange={setPlacement} />
+    </Toasty>
+  );
+}
+
+function ToastDedupeButton() {
+  const toastManager = useKumoToastManager();
+
+  return (
+    <Button
+      onClick={() =>
+        toastManager.add({
+          title: "Request failed",
+          description: "Unable to reach the API.",
+          variant: "error",
+          dedupeKey: "api-error",
+        })
+      }
+    >
+      Fail request
+    </Button>
+  );
+}
+
+export function ToastDedupeDemo() {
+  return (
+    <Toasty>
+      <ToastDedupeButton />
+    </Toasty>
+  );
+}
+
+function ToastProgressButton() {
+  const toastManager = useKumoToastManager();
+
+  return (
+    <Button
+      onClick={() => {
+        const id = toastManager.add({
+          title: "Uploading assets",
+          description: "12 files",
+          progress: 0,
+        });
+        let progress = 0;
+        const interval = setInterval(() => {
+          progress = Math.min(progress + 0.2, 1);
+          toastManager.update(id, {
+            progress,
+            ...(progress === 1 && {
+              title: "Assets uploaded",
+              description: "12 files uploaded.",
+            }),
+          });
+          if (progress === 1) clearInterval(interval);
+        }, 600);
+      }}
+    >
+      Upload assets
+    </Button>
+  );
+}
+
+export function ToastProgressDemo() {
+  return (
+    <Toasty>
+      <ToastProgressButton />
+    </Toasty>
+  );
+}
+
+function ToastPersistentButtons({ onNavigate }: { onNavigate: () => void }) {
+  const toastManager = useKumoToastManager();
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button
+        onClick={() =>
+          toastManager.add({
+            title: "Scheduled maintenance",
+            description: "The dashboard will be read-only at 02:00 UTC.",
+            variant: "warning",
+            persistent: true,
+          })
+        }
+      >
+        Show persistent toast
+      </Button>
+      <Button
+        onClick={() =>
+          toastManager.add({
+            title: "Settings saved",
+            timeout: 0,
+          })
+        }
+      >
+        Show regular toast
+      </Button>
+      <Button variant="secondary" onClick={onNavigate}>
+        Change route
+      </Button>
+    </div>
+  );
+}
+
+export function ToastPersistentDemo() {
+  const [route, setRoute] = useState(0);
+
+  return (
+    <Toasty routeKey={route}>
+      <ToastPersistentButtons onNavigate={() => setRoute((r) => r + 1)} />
+    </Toasty>
+  );
+}
+
+function ToastQueueButton() {
+  const toastManager = useKumoToastManager();
+
+  return (
+    <Button
+      onClick={() => {
+        for (let i = 1; i <= 5; i++) {
+          toastManager.add({
+            title: `Zone ${i} activated`,
+            timeout: 2000,
+          });
+        }
+      }}
+    >
+      Activate 5 zones
+    </Button>
+  );
+}
+
+export function ToastQueueDemo() {
+  return (
+    <Toasty limit={2}>
+      <ToastQueueButton />
+    </Toasty>
+  );
+}
@@ -40,6 +40,7 @@ import {
 import { generateRefreshButtonComponents } from "./generators/refresh-button";
 import { generateSelectComponents } from "./generators/select";
 import { generateSensitiveInputComponents } from "./generators/sensitive-input";
+import { generateSliderComponents } from "./generators/slider";
 import { generateSurfaceComponents } from "./generators/surface";
 import {
   generateSwitchComponents,
@@ -374,6 +375,13 @@ figma.ui.onmessage = async (msg: { type: string }) => {
             return { nextY: result };
           },
         },
+        {
+          name: "Slider",
+          execute: async (_page, y) => {
+            const result = await generateSliderComponents(y);
+            return { nextY: result };
+          },
+        },
         {
           name: "Surface",
           execute: async (page, y) => {
@@ -14,6 +14,7 @@
 
 import { describe, it, expect } from "vitest";
 import { parseTailwindClasses } from "../parsers/tailwind-to-figma";
+import { getFeatureVariants } from "./code-block";
 
 // Import registry as source of truth
 import registry from "@cloudflare/kumo/ai/component-registry.json";
@@ -280,3 +281,31 @@ describe("CodeBlock Generator - Styling Metadata", () => {
     expect(typeof codeStyling.appearance).toBe("object");
   });
 });
+
+describe("CodeBlock Generator - Feature Variants", () => {
+  /**
+   * Feature variants preview opt-in Code.Block props. They must stay in
+   * sync with the Block props in the registry.
+   */
+
+  it("should start with the plain variant", () => {
+    expect(getFeatureVariants()[0].feature).toBe("none");
+  });
+
+  it("should only use props that exist on Code.Block", () => {
+    for (const entry of getFeatureVariants()) {
+      for (const prop of entry.props) {
+        expect(codeBlockSubComponent.props[prop]).toBeDefined();
+      }
+    }
+  });
+
+  it("should have unique feature names and descriptions", () => {
+    const features = getFeatureVariants();
+    const names = features.map((entry) => entry.feature);
+    expect(new Set(names).size).toBe(names.length);
+    for (const entry of features) {
+      expect(entry.description.length).toBeGreaterThan(0);
+    }
+  });
+});
@@ -5,9 +5,11 @@
  * Reads variant definitions from component-registry.json (the source of truth).
  *
  * CodeBlock is a Tier 2 component (wrapper around Code):
- * - Same lang variants as Code (ts, tsx, jsonc, bash, css)
+ * - Same lang variants as Code (ts, tsx, jsonc, bash, css, ...)
  * - Adds container styling: border, background, padding
  * - Wraps monospace text inside a frame
+ * - `features` variants for opt-in Code.Block props (line numbers,
+ *   filename header with copy button, diff), shown for the default lang
  */
 
 import {
@@ -29,6 +31,7 @@ import {
 // Note: Line height for code uses FALLBACK_VALUES.lineHeight.code (20px)
 import { parseTailwindClasses } from "../parsers/tailwind-to-figma";
 import { logComplete } from "../logger";
+import { createIconInstance, bindIconColor } from "./icon-utils";
 
 // Import variant data from the registry (generated by build:ai-metadata)
 // CodeBlock uses the same lang variants as Code
@@ -41,6 +44,38 @@ const langProp = codeProps.lang as unknown as {
   descriptions: Record<string, string>;
   default: string;
 };
+const blockProps = (registry.components.Code as any).subComponents.Block
+  .props as Record<string, unknown>;
+
+/**
+ * Feature variants and the Code.Block props they preview.
+ * A feature is only generated when all of its props exist in the registry.
+ */
+const FEATURES: { feature: string; props: string[]; description: string }[] = [
+  { feature: "none", props: [], description: "Plain code block" },
+  {
+    feature: "lineNumbers",
+    props: ["lineNumbers"],
+    description: "Line numbers in a gutter",
+  },
+  {
+    feature: "header",
+    props: ["filename", "copyable"],
+    description: "Filename header with copy button",
+  },
+  {
+    feature: "diff",
+    props: ["diff"],
+    description: "Unified diff with added/removed gutters",
+  },
+];
+
+/** Placeholder lines for the diff feature: [marker, code] */
+const DIFF_LINES: [" " | "+" | "-", string][] = [
+  [" ", "const a = 1;"],
+  ["-", "const b = 2;"],
+  ["+", "const b = 3;"],
+];
 
 /**
  * CodeBlock wrapper styles from code-block.tsx
@@ -123,9 +158,20 @@ export function getAllVariantData() {
       description: langProp.descriptions[lang] || "",
       placeholderText: getPlaceholderText(lang),
     })),
+    features: getFeatureVariants(),
   };
 }
 
+/**
+ * Get the feature variants backed by Code.Block props in the registry
+ * Returns "none" first, followed by each supported opt-in feature
+ */
+export function getFeatureVariants() {
+  return FEATURES.filter((entry) =>
+    entry.props.every((prop) => prop in blockProps),
+  );
+}
+
 /**
  * Get placeholder text based on lang variant
  */
@@ -142,33 +188,150 @@ function getPlaceholderText(lang: string): string {
   if (lang === "tsx") {
     return "<Button>Click</Button>";
   }
+  if (lang === "json") {
+    return '{ "key": "value" }';
+  }
+  if (lang === "yaml") {
+    return "name: kumo";
+  }
+  if (lang === "toml") {
+    return 'name = "my-worker"';
+  }
+  if (lang === "sql") {
+    return "SELECT * FROM users;";
+  }
+  if (lang === "python") {
+    return 'print("hello")';
+  }
+  if (lang === "go") {
+    return 'fmt.Println("hello")';
+  }
+  if (lang === "rust") {
+    return 'println!("hello");';
+  }
+  if (lang === "html") {
+    return "<div>Hello</div>";
+  }
+  if (lang === "graphql") {
+    return "query { user { name } }";
+  }
+  if (lang === "diff") {
+    return "+added line";
+  }
   return 'const hello = "world";';
 }
 
 /**
- * Create a single CodeBlock component with the specified lang variant
+ * Create a monospace text node bound to a text color variable
  */
-async function createCodeBlockComponent(lang: string): Promise<ComponentNode> {
-  const description = langProp.descriptions[lang] || "";
+async function createCodeText(
+  text: string,
+  colorVariable: string,
+  fontSize = 14,
+): Promise<TextNode> {
+  const textNode = await createTextNode(text, fontSize, 400);
+
+  // Load monospace font (Roboto Mono is reliably available in Figma)
+  await figma.loadFontAsync({ family: "Roboto Mono", style: "Regular" });
+  textNode.fontName = { family: "Roboto Mono", style: "Regular" };
+
+  const colorVar = getVariableByName(colorVariable);
+  if (colorVar) {
+    bindTextColorToVariable(textNode, colorVar.id);
+  }
+
+  // Set line height - uses FALLBACK_VALUES.lineHeight.code (20px from code.tsx leading-[20px])
+  textNode.lineHeight = {
+    value: FALLBACK_VALUES.lineHeight.code,
+    unit: "PIXELS",
+  };
+
+  return textNode;
+}
+
+/**
+ * Create a horizontal auto-layout frame that hugs its content
+ */
+function createRow(name: string, padding: number, gap: number): FrameNode {
+  const frame = figma.createFrame();
+  frame.name = name;
+  frame.layoutMode = "HORIZONTAL";
+  frame.primaryAxisSizingMode = "AUTO";
+  frame.counterAxisSizingMode = "AUTO";
+  frame.counterAxisAlignItems = "CENTER";
+  frame.paddingLeft = padding;
+  frame.paddingRight = padding;
+  frame.itemSpacing = gap;
+  frame.fills = [];
+  return frame;
+}
+
+/**
+ * Create the filename header with a copy button (border-b border-kumo-fill)
+ */
+async function createHeader(): Promise<FrameNode> {
+  const header = createRow("Header", CODE_INNER_PADDING, 8);
+  header.paddingRight = 4;
+  header.primaryAxisAlignItems = "SPACE_BETWEEN";
+  header.counterAxisSizingMode = "FIXED";
+  header.resize(header.width, 36);
+  header.layoutAlign = "STRETCH";
+
+  const strokeVar = getVariableByName(VAR_NAMES.color.fill);
+  if (strokeVar) {
+    bindStrokeToVariable(header, strokeVar.id, 1);
+    header.strokeTopWeight = 0;
+    header.strokeLeftWeight = 0;
+    header.strokeRightWeight = 0;
+    header.strokeBottomWeight = 1;
+  }
+
+  const filename = await createCodeText("index.ts", VAR_NAMES.text.subtle, 12);
+  filename.name = "Filename";
+  header.appendChild(filename);
+
+  const icon = createIconInstance("ph-copy", 16);
+  if (icon) {
+    icon.name = "Copy";
+    bindIconColor(icon, "text-kumo-default");
+    header.appendChild(icon);
+  }
+
+  return header;
+}
+
+/**
+ * Create a single CodeBlock component with the specified lang and feature variant
+ */
+async function createCodeBlockComponent(
+  lang: string,
+  feature: string,
+): Promise<ComponentNode> {
+  const description = [
+    langProp.descriptions[lang] || "",
+    feature === "none"
+      ? ""
+      : FEATURES.find((entry) => entry.feature === feature)?.description,
+  ]
+    .filter(Boolean)
+    .join(" — ");
 
   // Parse wrapper styles
   const wrapperStyles = parseTailwindClasses(CODE_BLOCK_WRAPPER_STYLES);
 
   // Create component with auto-layout
   const component = figma.createComponent();
-  component.name = "lang=" + lang;
+  component.name = "lang=" + lang + ", features=" + feature;
   component.description = description;
 
-  // Set up auto-layout for frame container
+  // Set up auto-layout for frame container; padding lives on the body so
+  // headers and diff line tints span the full width
   component.layoutMode = "VERTICAL";
   component.primaryAxisAlignItems = "MIN";
   component.counterAxisAlignItems = "MIN";
-  component.paddingLeft = CODE_INNER_PADDING;
-  component.paddingRight = CODE_INNER_PADDING;
-  component.paddingTop = CODE_INNER_PADDING;
-  component.paddingBottom = CODE_INNER_PADDING;
   component.primaryAxisSizingMode = "AUTO";
   component.counterAxisSizingMode = "AUTO";
+  component.clipsContent = true;
   component.cornerRadius =
     wrapperStyles.borderRadius || FALLBACK_VALUES.borderRadius.medium;
 
@@ -188,39 +351,82 @@ async function createCodeBlockComponent(lang: string): Promise<ComponentNode> {
     }
   }
 
-  // Create monospace text node
-  const textNode = await createTextNode(getPlaceholderText(lang), 14, 400);
-  textNode.name = "Code";
-
-  // Load monospace font (Roboto Mono is reliably available in Figma)
-  await figma.loadFontAsync({ family: "Roboto Mono", style: "Regular" });
-  textNode.fontName = { family: "Roboto Mono", style: "Regular" };
+  if (feature === "header") {
+    component.appendChild(await createHeader());
+  }
 
-  // Apply text color - text-kumo-strong with fallback to text-kumo-default
-  const labelVar = getVariableByName(VAR_NAMES.text.label);
-  if (labelVar) {
-    bindTextColorToVariable(textNode, labelVar.id);
-  } else {
-    // Fallback to text-kumo-default if text-kumo-strong doesn't exist
-    const surfaceVar = getVariableByName(VAR_NAMES.text.default);
-    if (surfaceVar) {
-      bindTextColorToVariable(textNode, surfaceVar.id);
+  const body = figma.createFrame();
+  body.name = "Body";
+  body.layoutMode = "VERTICAL";
+  body.primaryAxisSizingMode = "AUTO";
+  body.counterAxisSizingMode = "AUTO";
+  body.paddingTop = CODE_INNER_PADDING;
+  body.paddingBottom = CODE_INNER_PADDING;
+  body.layoutAlign = "STRETCH";
+  body.fills = [];
+  component.appendChild(body);
+
+  if (feature === "diff") {
+    // One row per line: marker gutter + code, tinted by diff role
+    for (const [marker, code] of DIFF_LINES) {
+      const row = createRow("Line", CODE_INNER_PADDING, 8);
+      row.layoutAlign = "STRETCH";
+      const tint =
+        marker === "+"
+          ? VAR_NAMES.color.successTint
+          : marker === "-"
+            ? VAR_NAMES.color.dangerTint
+            : undefined;
+      const tintVar = tint ? getVariableByName(tint) : undefined;
+      if (tintVar) {
+        bindFillToVariable(row, tintVar.id);
+      }
+
+      const markerNode = await createCodeText(
+        marker,
+        marker === "+"
+          ? VAR_NAMES.text.success
+          : marker === "-"
+            ? VAR_NAMES.text.danger
+            : VAR_NAMES.text.inactive,
+      );
+      markerNode.name = "Marker";
+      row.appendChild(markerNode);
+
+      const codeNode = await createCodeText(code, VAR_NAMES.text.label);
+      codeNode.name = "Code";
+      row.appendChild(codeNode);
+      body.appendChild(row);
     }
+    return component;
   }
 
-  // Set line height - uses FALLBACK_VALUES.lineHeight.code (20px from code.tsx leading-[20px])
-  textNode.lineHeight = {
-    value: FALLBACK_VALUES.lineHeight.code,
-    unit: "PIXELS",
-  };
+  const row = createRow("Content", CODE_INNER_PADDING, 16);
+  body.appendChild(row);
+  row.counterAxisAlignItems = "MIN";
+
+  const code =
+    feature === "lineNumbers"
+      ? [getPlaceholderText(lang), getPlaceholderText(lang)].join("\n")
+      : getPlaceholderText(lang);
 
-  component.appendChild(textNode);
+  if (feature === "lineNumbers") {
+    const gutter = await createCodeText("1\n2", VAR_NAMES.text.inactive);
+    gutter.name = "Line Numbers";
+    gutter.textAlignHorizontal = "RIGHT";
+    row.appendChild(gutter);
+  }
+
+  // Text color - text-kumo-strong
+  const textNode = await createCodeText(code, VAR_NAMES.text.label);
+  textNode.name = "Code";
+  row.appendChild(textNode);
 
   return component;
 }
 
 /**
- * Generate CodeBlock ComponentSet with lang property
+ * Generate CodeBlock ComponentSet with lang and features properties
  */
 export async function generateCodeBlockComponents(
   page: PageNode,
@@ -231,18 +437,33 @@ export async function generateCodeBlockComponents(
   figma.currentPage = page;
 
   const langs = langProp.values;
+  const features = getFeatureVariants();
   const components: ComponentNode[] = [];
   const rowLabels: { y: number; text: string }[] = [];
 
   const rowGap = 50;
-  const labelColumnWidth = 160;
+  const labelColumnWidth = 240;
   let currentY = 0;
 
-  for (let i = 0; i < langs.length; i++) {
-    const lang = langs[i];
-    const component = await createCodeBlockComponent(lang);
-
-    rowLabels.push({ y: currentY, text: "lang=" + lang });
+  // Every lang without features, then each feature for the default lang
+  const rows: [string, string][] = [
+    ...langs.map((lang): [string, string] => [lang, "none"]),
+    ...features
+      .filter((entry) => entry.feature !== "none")
+      .map((entry): [string, string] => [langProp.default, entry.feature]),
+  ];
+
+  for (let i = 0; i < rows.length; i++) {
+    const [lang, feature] = rows[i];
+    const component = await createCodeBlockComponent(lang, feature);
+
+    rowLabels.push({
+      y: currentY,
+      text:
+        feature === "none"
+          ? "lang=" + lang
+          : "lang=" + lang + ", features=" + feature,
+    });
 
     component.x = labelColumnWidth;
     component.y = currentY;
@@ -253,7 +474,8 @@ export async function generateCodeBlockComponents(
   // @ts-ignore - combineAsVariants works at runtime
   const componentSet = figma.combineAsVariants(components, page);
   componentSet.name = "CodeBlock";
-  componentSet.description = "CodeBlock component with lang variants";
+  componentSet.description =
+    "CodeBlock component with lang and features (line numbers, header, diff) variants";
   componentSet.layoutMode = "NONE";
 
   const contentWidth = componentSet.width + labelColumnWidth;
@@ -327,7 +549,7 @@ export async function generateCodeBlockComponents(
 
   logComplete(
     "Generated CodeBlock ComponentSet with " +
-      langs.length +
+      rows.length +
       " variants (light + dark)",
   );
 
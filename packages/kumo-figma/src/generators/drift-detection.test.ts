@@ -27,6 +27,7 @@ const __dirname = dirname(__filename);
 // Add components here that shouldn't be in Figma (e.g., layout-only, utility components)
 const EXCLUDED_COMPONENTS = new Set([
   // Permanently excluded - no visual representation needed in Figma
+  "DataTable", // Data-driven composite of Table, Pagination and Input - designed with their Figma components
   "Field", // Form wrapper utility - provides label/description/error layout, no standalone visual
   "Grid", // Layout utility - Figma has native grid/auto-layout tools
   "PageHeader", // Complex composite component - too layout-specific for Figma generation
@@ -42,6 +43,7 @@ const COMPONENT_NAME_MAPPING: Record<string, string> = {
   DropdownMenu: "dropdown", // Registry name differs from file name
   InputArea: "input-area", // Synthetic component - uses Input's props but has own styling
   LayerCard: "layer-card",
+  RangeSlider: "slider", // RangeSlider is the range=true variant in slider.ts
   SensitiveInput: "sensitive-input",
   Toasty: "toast", // Registry name differs from file name
 };
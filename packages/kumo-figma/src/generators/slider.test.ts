@@ -0,0 +1,105 @@
+/**
+ * Tests for slider.ts generator
+ *
+ * These tests ensure the Slider Figma component generation stays in sync
+ * with the source of truth (component-registry.json).
+ *
+ * CRITICAL: These tests act as a regression guard. If you change the slider
+ * generator, these tests will catch any unintended changes.
+ *
+ * Source of truth chain:
+ * slider.tsx → component-registry.json → slider.ts (generator) → Figma
+ *
+ * Note: RangeSlider has no generator of its own; it is the `range=true`
+ * variant of the Slider ComponentSet.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getSliderSizeConfig,
+  getSliderColorBindings,
+  getSliderIndicatorLayout,
+  getAllSliderVariantData,
+} from "./slider";
+
+// Import registry as source of truth
+import registry from "@cloudflare/kumo/ai/component-registry.json";
+
+const sliderComponent = registry.components.Slider;
+const sliderProps = sliderComponent.props;
+
+describe("Slider Generator - Registry Validation", () => {
+  it("should have Slider and RangeSlider components in registry", () => {
+    expect(sliderComponent).toBeDefined();
+    expect(sliderComponent.name).toBe("Slider");
+    expect(registry.components.RangeSlider).toBeDefined();
+  });
+
+  it("should have size and variant props in registry", () => {
+    expect(sliderProps.size.values).toEqual(["xs", "sm", "base", "lg"]);
+    expect(sliderProps.variant.values).toEqual(["default", "error"]);
+  });
+
+  it("should have styling dimensions for every size", () => {
+    for (const size of sliderProps.size.values) {
+      expect(
+        sliderComponent.styling.dimensions[
+          size as keyof typeof sliderComponent.styling.dimensions
+        ],
+      ).toBeDefined();
+    }
+  });
+});
+
+describe("Slider Generator - Size Configuration", () => {
+  it("should match Input heights", () => {
+    const heights = getSliderSizeConfig().map((config) => config.height);
+    expect(heights).toEqual([20, 26, 36, 40]);
+  });
+
+  it("should fit the thumb inside the component height", () => {
+    for (const config of getSliderSizeConfig()) {
+      expect(config.thumbSize).toBeLessThan(config.height);
+      expect(config.trackHeight).toBeLessThan(config.thumbSize);
+    }
+  });
+});
+
+describe("Slider Generator - Color Bindings", () => {
+  it("should use semantic color tokens", () => {
+    const bindings = getSliderColorBindings();
+    expect(bindings.track).toBe("color-kumo-fill");
+    expect(bindings.thumbRing).toBe("color-kumo-line");
+    expect(bindings.indicator.default).toBe("color-kumo-brand");
+    expect(bindings.indicator.error).toBe("color-kumo-danger");
+  });
+});
+
+describe("Slider Generator - Indicator Layout", () => {
+  it("should start a single slider's indicator at the track start", () => {
+    expect(getSliderIndicatorLayout(200, false)).toEqual({
+      indicatorX: 0,
+      indicatorWidth: 120,
+      thumbCenters: [120],
+    });
+  });
+
+  it("should place a thumb at each end of a range indicator", () => {
+    expect(getSliderIndicatorLayout(200, true)).toEqual({
+      indicatorX: 50,
+      indicatorWidth: 100,
+      thumbCenters: [50, 150],
+    });
+  });
+});
+
+describe("Slider Generator - Snapshot Tests", () => {
+  it("should generate one variant per size, variant and range", () => {
+    const data = getAllSliderVariantData();
+    expect(data.variants).toHaveLength(4 * 2 * 2);
+  });
+
+  it("should match variant data snapshot", () => {
+    expect(getAllSliderVariantData()).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,354 @@
+import { logComplete } from "../logger";
+/**
+ * Slider Component Generator
+ *
+ * Generates a Slider ComponentSet in Figma with size, variant and range
+ * properties. RangeSlider is represented by the `range=true` variants.
+ * Reads component definitions from component-registry.json.
+ *
+ * Uses the `styling` section for Figma-specific metadata (dimensions, tokens).
+ * The React component uses:
+ * - Track: "rounded-full bg-kumo-fill" (h-1 to h-2 by size)
+ * - Indicator: "rounded-full bg-kumo-brand" (bg-kumo-danger for error)
+ * - Thumb: "rounded-full bg-white shadow-sm ring ring-kumo-line" (size-3 to size-5 by size)
+ */
+
+import {
+  bindFillToVariable,
+  bindStrokeToVariable,
+  getVariableByName,
+  createModeSection,
+  createRowLabel,
+  createColumnHeaders,
+  SECTION_PADDING,
+  SECTION_GAP,
+  SECTION_TITLE,
+  GRID_LAYOUT,
+  SECTION_LAYOUT,
+  COLORS,
+  BORDER_RADIUS,
+} from "./shared";
+
+// Import registry as source of truth
+import registry from "@cloudflare/kumo/ai/component-registry.json";
+
+const sliderComponent = registry.components.Slider;
+const sliderProps = sliderComponent.props;
+const sliderStyling = sliderComponent.styling;
+
+type SliderSize = keyof typeof sliderStyling.dimensions;
+
+/**
+ * Indicator extent (start and end, as fractions of the track) for the single
+ * and range previews
+ */
+const SINGLE_INDICATOR = { start: 0, end: 0.6 };
+const RANGE_INDICATOR = { start: 0.25, end: 0.75 };
+
+/**
+ * ============================================================================
+ * TESTABLE EXPORTS - Pure functions for testing (no Figma API calls)
+ * ============================================================================
+ */
+
+/**
+ * Get size configuration from registry
+ * Returns dimensions for each size from styling.dimensions
+ */
+export function getSliderSizeConfig() {
+  const sizes = sliderProps.size.values as SliderSize[];
+  return sizes.map((size) => ({
+    size,
+    ...sliderStyling.dimensions[size],
+  }));
+}
+
+/**
+ * Get color bindings for each variant
+ *
+ * Sources from slider.tsx:
+ * - Track: bg-kumo-fill
+ * - Indicator: bg-kumo-brand (default), bg-kumo-danger (error)
+ * - Thumb ring: ring-kumo-line
+ */
+export function getSliderColorBindings() {
+  return {
+    track: sliderStyling.baseTokens.track,
+    thumbRing: sliderStyling.baseTokens.thumbRing,
+    indicator: {
+      default: sliderStyling.baseTokens.indicator,
+      error: sliderStyling.stateTokens.error.indicator,
+    } as Record<string, string>,
+    description: "Semantic color tokens bound to slider elements",
+    registryColors: sliderComponent.colors,
+  };
+}
+
+/**
+ * Get indicator and thumb positions for a slider preview
+ * @param width - Track width in pixels
+ * @param range - Whether to show a start and an end thumb
+ */
+export function getSliderIndicatorLayout(width: number, range: boolean) {
+  const extent = range ? RANGE_INDICATOR : SINGLE_INDICATOR;
+  const start = Math.round(width * extent.start);
+  const end = Math.round(width * extent.end);
+  return {
+    indicatorX: start,
+    indicatorWidth: end - start,
+    thumbCenters: range ? [start, end] : [end],
+  };
+}
+
+/**
+ * Get all slider variant data (for snapshot testing)
+ * Returns intermediate data before Figma API calls
+ */
+export function getAllSliderVariantData() {
+  const sizes = getSliderSizeConfig();
+  const variants = sliderProps.variant.values;
+  const colorBindings = getSliderColorBindings();
+
+  const data = [];
+  for (const sizeConfig of sizes) {
+    for (const variant of variants) {
+      for (const range of [false, true]) {
+        data.push({
+          size: sizeConfig.size,
+          variant,
+          range,
+          dimensions: {
+            width: sizeConfig.width,
+            height: sizeConfig.height,
+            trackHeight: sizeConfig.trackHeight,
+            thumbSize: sizeConfig.thumbSize,
+          },
+          layout: getSliderIndicatorLayout(sizeConfig.width, range),
+          colors: {
+            track: colorBindings.track,
+            indicator: colorBindings.indicator[variant],
+            thumbRing: colorBindings.thumbRing,
+          },
+        });
+      }
+    }
+  }
+
+  return {
+    registry: {
+      name: sliderComponent.name,
+      description: sliderComponent.description,
+      category: sliderComponent.category,
+      colors: sliderComponent.colors,
+    },
+    variants: data,
+    disabledOpacity: sliderStyling.stateTokens.disabled.opacity,
+    cornerRadius: BORDER_RADIUS.full, // rounded-full from slider.tsx
+  };
+}
+
+/**
+ * ============================================================================
+ * FIGMA COMPONENT GENERATION
+ * ============================================================================
+ */
+
+/**
+ * Create a single Slider component
+ */
+function createSliderComponent(
+  size: SliderSize,
+  variant: string,
+  range: boolean,
+): ComponentNode {
+  const dimensions = sliderStyling.dimensions[size];
+  const colors = getSliderColorBindings();
+  const layout = getSliderIndicatorLayout(dimensions.width, range);
+
+  const component = figma.createComponent();
+  component.name = "size=" + size + ", variant=" + variant + ", range=" + range;
+  component.description =
+    (range ? "RangeSlider" : "Slider") + " " + size + " " + variant;
+  component.layoutMode = "NONE";
+  component.resize(dimensions.width, dimensions.height);
+  component.fills = [];
+
+  const trackY = (dimensions.height - dimensions.trackHeight) / 2;
+
+  // Track: rounded-full bg-kumo-fill
+  const track = figma.createFrame();
+  track.name = "Track";
+  track.resize(dimensions.width, dimensions.trackHeight);
+  track.cornerRadius = BORDER_RADIUS.full;
+  track.x = 0;
+  track.y = trackY;
+  const trackVar = getVariableByName(colors.track);
+  if (trackVar) {
+    bindFillToVariable(track, trackVar.id);
+  } else {
+    track.fills = [{ type: "SOLID", color: COLORS.skeletonGray }];
+  }
+  component.appendChild(track);
+
+  // Indicator: rounded-full bg-kumo-brand / bg-kumo-danger
+  const indicator = figma.createFrame();
+  indicator.name = "Indicator";
+  indicator.resize(layout.indicatorWidth, dimensions.trackHeight);
+  indicator.cornerRadius = BORDER_RADIUS.full;
+  indicator.x = layout.indicatorX;
+  indicator.y = trackY;
+  const indicatorVar = getVariableByName(colors.indicator[variant]);
+  if (indicatorVar) {
+    bindFillToVariable(indicator, indicatorVar.id);
+  } else {
+    indicator.fills = [{ type: "SOLID", color: COLORS.fallbackPrimary }];
+  }
+  component.appendChild(indicator);
+
+  // Thumbs: rounded-full bg-white ring ring-kumo-line
+  const thumbRingVar = getVariableByName(colors.thumbRing);
+  for (let i = 0; i < layout.thumbCenters.length; i++) {
+    const thumb = figma.createEllipse();
+    thumb.name = range ? (i === 0 ? "Start Thumb" : "End Thumb") : "Thumb";
+    thumb.resize(dimensions.thumbSize, dimensions.thumbSize);
+    thumb.x = Math.min(
+      Math.max(layout.thumbCenters[i] - dimensions.thumbSize / 2, 0),
+      dimensions.width - dimensions.thumbSize,
+    );
+    thumb.y = (dimensions.height - dimensions.thumbSize) / 2;
+    thumb.fills = [{ type: "SOLID", color: COLORS.fallbackWhite }];
+    if (thumbRingVar) {
+      bindStrokeToVariable(thumb, thumbRingVar.id, 1, "OUTSIDE");
+    } else {
+      thumb.strokes = [{ type: "SOLID", color: COLORS.borderGray }];
+      thumb.strokeWeight = 1;
+    }
+    component.appendChild(thumb);
+  }
+
+  return component;
+}
+
+/**
+ * Generate Slider ComponentSet with all size, variant and range combinations
+ *
+ * Rows are sizes; columns are variant × range. Creates both light and dark
+ * mode sections.
+ *
+ * @param startY - Y position to start placing the section
+ * @returns The Y position after this section (for next section placement)
+ */
+export async function generateSliderComponents(
+  startY: number,
+): Promise<number> {
+  if (startY === undefined) startY = 100;
+
+  const sizes = getSliderSizeConfig();
+  const variants = sliderProps.variant.values;
+  const components: ComponentNode[] = [];
+
+  const rowLabels: { y: number; text: string }[] = [];
+  const columnHeaders: { x: number; text: string }[] = [];
+
+  const componentGap = 48;
+  const rowGap = GRID_LAYOUT.rowGap.compact;
+  const headerRowHeight = GRID_LAYOUT.headerRowHeight;
+  const labelColumnWidth = GRID_LAYOUT.labelColumnWidth.standard;
+
+  // Columns are as wide as the widest (lg) slider so rows line up
+  const columnWidth = Math.max(...sizes.map((size) => size.width));
+
+  let currentY = headerRowHeight;
+  for (let si = 0; si < sizes.length; si++) {
+    const sizeConfig = sizes[si];
+    rowLabels.push({ y: currentY, text: "size=" + sizeConfig.size });
+
+    let currentX = labelColumnWidth;
+    for (const variant of variants) {
+      for (const range of [false, true]) {
+        const component = createSliderComponent(
+          sizeConfig.size,
+          variant,
+          range,
+        );
+        component.x = currentX;
+        component.y = currentY;
+        if (si === 0) {
+          columnHeaders.push({
+            x: currentX + SECTION_PADDING,
+            text: "variant=" + variant + (range ? ", range" : ""),
+          });
+        }
+        currentX += columnWidth + componentGap;
+        components.push(component);
+      }
+    }
+    currentY += sizeConfig.height + rowGap;
+  }
+
+  // @ts-ignore - combineAsVariants works at runtime
+  const componentSet = figma.combineAsVariants(components, figma.currentPage);
+  componentSet.name = "Slider";
+  componentSet.description =
+    "Slider component with size (xs/sm/base/lg), variant (default/error) and range (RangeSlider) properties";
+  componentSet.layoutMode = "NONE";
+
+  const contentWidth = componentSet.width + labelColumnWidth;
+  const contentHeight = componentSet.height + headerRowHeight;
+  const contentYOffset = SECTION_TITLE.height;
+
+  const totalWidth = contentWidth + SECTION_PADDING * 2;
+  const totalHeight = contentHeight + SECTION_PADDING * 2 + contentYOffset;
+
+  const lightSection = createModeSection(figma.currentPage, "Slider", "light");
+  lightSection.frame.resize(totalWidth, totalHeight);
+  const darkSection = createModeSection(figma.currentPage, "Slider", "dark");
+  darkSection.frame.resize(totalWidth, totalHeight);
+
+  lightSection.frame.appendChild(componentSet);
+  componentSet.x = SECTION_PADDING + labelColumnWidth;
+  componentSet.y = SECTION_PADDING + headerRowHeight + contentYOffset;
+
+  // Note: component positions are relative to ComponentSet after combineAsVariants
+  for (const component of components) {
+    const instance = component.createInstance();
+    instance.x = component.x + SECTION_PADDING + labelColumnWidth;
+    instance.y =
+      component.y + SECTION_PADDING + headerRowHeight + contentYOffset;
+    darkSection.frame.appendChild(instance);
+  }
+
+  for (const section of [lightSection, darkSection]) {
+    await createColumnHeaders(
+      columnHeaders,
+      SECTION_PADDING + contentYOffset,
+      section.frame,
+    );
+    for (const label of rowLabels) {
+      const labelNode = await createRowLabel(
+        label.text,
+        SECTION_PADDING,
+        SECTION_PADDING +
+          contentYOffset +
+          label.y +
+          GRID_LAYOUT.labelVerticalOffset.sm,
+      );
+      section.frame.appendChild(labelNode);
+    }
+    section.section.resizeWithoutConstraints(totalWidth, totalHeight);
+  }
+
+  lightSection.frame.x = SECTION_LAYOUT.startX;
+  lightSection.frame.y = startY;
+  darkSection.frame.x =
+    lightSection.frame.x + totalWidth + SECTION_LAYOUT.modeGap;
+  darkSection.frame.y = startY;
+
+  logComplete(
+    "✅ Generated Slider ComponentSet with " +
+      components.length +
+      " variants (light + dark)",
+  );
+
+  return startY + totalHeight + SECTION_GAP;
+}
@@ -30,6 +30,16 @@ export const DynamicValueSchema = z.union([
 
 export type DynamicValue<T = unknown> = T | { path: string };
 
+/**
+ * Data model reference in place of a literal prop value.
+ * { path } reads a value; { bind } also writes form edits back to it.
+ * Example: { path: "/user/name" } or { bind: "/form/email" }
+ */
+export const DataReferenceSchema = z.union([
+  z.object({ path: z.string() }),
+  z.object({ bind: z.string() }),
+]);
+
 // =============================================================================
 // Visibility Condition Schemas
 // =============================================================================
@@ -39,19 +49,56 @@ export type DynamicValue<T = unknown> = T | { path: string };
  * Components can be shown/hidden based on data, auth, or logic expressions.
  */
 
+/**
+ * Comparison operand: a dynamic value, a list of literals (for `in`),
+ * the length of a dynamic value, or arithmetic on two operands.
+ * Example: ["active", "pending"] or { sub: [{ path: "/quota" }, { length: { path: "/items" } }] }
+ */
+export type Operand =
+  | DynamicValue
+  | (string | number | boolean | null)[]
+  | { length: DynamicValue }
+  | { add: [Operand, Operand] }
+  | { sub: [Operand, Operand] }
+  | { mul: [Operand, Operand] }
+  | { div: [Operand, Operand] }
+  | { mod: [Operand, Operand] };
+
+// Lazy schema for recursive arithmetic operands
+export const OperandSchema: z.ZodType<Operand> = z.lazy(() =>
+  z.union([
+    DynamicValueSchema,
+    z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])),
+    z.object({ length: DynamicValueSchema }),
+    z.object({ add: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ sub: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ mul: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ div: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ mod: z.tuple([OperandSchema, OperandSchema]) }),
+  ])
+);
+
 // Forward declaration for recursive types
-// Note: Numeric comparisons use DynamicValue (not DynamicValue<number>) for Zod compatibility
+// Note: Numeric comparisons use Operand (not DynamicValue<number>) for Zod compatibility
 export type LogicExpression =
   | { and: LogicExpression[] }
   | { or: LogicExpression[] }
   | { not: LogicExpression }
   | { path: string }
-  | { eq: [DynamicValue, DynamicValue] }
-  | { neq: [DynamicValue, DynamicValue] }
-  | { gt: [DynamicValue, DynamicValue] }
-  | { gte: [DynamicValue, DynamicValue] }
-  | { lt: [DynamicValue, DynamicValue] }
-  | { lte: [DynamicValue, DynamicValue] };
+  | { eq: [Operand, Operand] }
+  | { neq: [Operand, Operand] }
+  | { gt: [Operand, Operand] }
+  | { gte: [Operand, Operand] }
+  | { lt: [Operand, Operand] }
+  | { lte: [Operand, Operand] }
+  | { in: [Operand, Operand] }
+  | { contains: [Operand, Operand] }
+  | { startsWith: [Operand, Operand] }
+  | { matches: [Operand, string] }
+  | { isEmpty: string }
+  | { exists: string }
+  | { role: string | string[] }
+  | { permission: string | string[] };
 
 // Lazy schema for recursive logic expressions
 const LogicExpressionSchema: z.ZodType<LogicExpression> = z.lazy(() =>
@@ -60,12 +107,20 @@ const LogicExpressionSchema: z.ZodType<LogicExpression> = z.lazy(() =>
     z.object({ or: z.array(LogicExpressionSchema) }),
     z.object({ not: LogicExpressionSchema }),
     z.object({ path: z.string() }),
-    z.object({ eq: z.tuple([DynamicValueSchema, DynamicValueSchema]) }),
-    z.object({ neq: z.tuple([DynamicValueSchema, DynamicValueSchema]) }),
-    z.object({ gt: z.tuple([DynamicValueSchema, DynamicValueSchema]) }),
-    z.object({ gte: z.tuple([DynamicValueSchema, DynamicValueSchema]) }),
-    z.object({ lt: z.tuple([DynamicValueSchema, DynamicValueSchema]) }),
-    z.object({ lte: z.tuple([DynamicValueSchema, DynamicValueSchema]) }),
+    z.object({ eq: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ neq: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ gt: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ gte: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ lt: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ lte: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ in: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ contains: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ startsWith: z.tuple([OperandSchema, OperandSchema]) }),
+    z.object({ matches: z.tuple([OperandSchema, z.string()]) }),
+    z.object({ isEmpty: z.string() }),
+    z.object({ exists: z.string() }),
+    z.object({ role: z.union([z.string(), z.array(z.string())]) }),
+    z.object({ permission: z.union([z.string(), z.array(z.string())]) }),
   ])
 );
 
@@ -111,89 +166,89 @@ export type Action = z.infer<typeof ActionSchema>;
 // =============================================================================
 
 export const BadgePropsSchema = z.object({
-  variant: z.enum(["primary", "secondary", "destructive", "outline", "beta"]).optional(), // Visual style of the badge. - `"primary"` — High-emphasis badge for important labels - `"secondary"` — Subtle badge for secondary information - `"destructive"` — Error or danger state indicator - `"outline"` — Bordered badge with transparent background - `"beta"` — Dashed-border badge for beta/experimental features
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
+  variant: z.union([z.enum(["primary", "secondary", "destructive", "outline", "beta"]), DataReferenceSchema]).optional(), // Visual style of the badge. - `"primary"` — High-emphasis badge for important labels - `"secondary"` — Subtle badge for secondary information - `"destructive"` — Error or danger state indicator - `"outline"` — Bordered badge with transparent background - `"beta"` — Dashed-border badge for beta/experimental features
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Content rendered inside the badge.
 });
 
 export const BannerPropsSchema = z.object({
   icon: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Icon element rendered before the banner content (e.g. from `@phosphor-icons/react`).
-  title: z.string().optional(), // Primary heading text for the banner. Use for i18n string injection.
+  title: z.union([z.string(), DataReferenceSchema]).optional(), // Primary heading text for the banner. Use for i18n string injection.
   description: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Secondary description text displayed below the title. Use for i18n string injection.
-  text: z.string().optional(),
+  text: z.union([z.string(), DataReferenceSchema]).optional(),
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(),
-  variant: z.enum(["default", "alert", "error"]).optional(), // Visual style of the banner. - `"default"` — Informational blue banner for general messages - `"alert"` — Warning yellow banner for cautionary messages - `"error"` — Error red banner for critical issues
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
+  variant: z.union([z.enum(["default", "alert", "error"]), DataReferenceSchema]).optional(), // Visual style of the banner. - `"default"` — Informational blue banner for general messages - `"alert"` — Warning yellow banner for cautionary messages - `"error"` — Error red banner for critical issues
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
 });
 
 export const BreadcrumbsPropsSchema = z.object({
-  size: z.enum(["sm", "base"]).optional(), // Size of the breadcrumbs. - `"sm"` — Compact breadcrumbs for dense UIs - `"base"` — Default breadcrumbs size
+  size: z.union([z.enum(["sm", "base"]), DataReferenceSchema]).optional(), // Size of the breadcrumbs. - `"sm"` — Compact breadcrumbs for dense UIs - `"base"` — Default breadcrumbs size
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(),
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
 });
 
 export const ButtonPropsSchema = z.object({
-  shape: z.enum(["base", "square", "circle"]).optional(),
-  size: z.enum(["xs", "sm", "base", "lg"]).optional(),
-  variant: z.enum(["primary", "secondary", "ghost", "destructive", "secondary-destructive", "outline"]).optional(),
+  shape: z.union([z.enum(["base", "square", "circle"]), DataReferenceSchema]).optional(),
+  size: z.union([z.enum(["xs", "sm", "base", "lg"]), DataReferenceSchema]).optional(),
+  variant: z.union([z.enum(["primary", "secondary", "ghost", "destructive", "secondary-destructive", "outline"]), DataReferenceSchema]).optional(),
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(),
-  className: z.string().optional(),
+  className: z.union([z.string(), DataReferenceSchema]).optional(),
   icon: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Icon from `@phosphor-icons/react` or a React element. Rendered before children.
-  loading: z.boolean().optional(), // Shows a loading spinner and disables interaction.
-  id: z.string().optional(),
-  lang: z.string().optional(),
-  title: z.string().optional(),
-  disabled: z.boolean().optional(),
-  name: z.string().optional(),
-  type: z.enum(["submit", "reset", "button"]).optional(),
+  loading: z.union([z.boolean(), DataReferenceSchema]).optional(), // Shows a loading spinner and disables interaction.
+  id: z.union([z.string(), DataReferenceSchema]).optional(),
+  lang: z.union([z.string(), DataReferenceSchema]).optional(),
+  title: z.union([z.string(), DataReferenceSchema]).optional(),
+  disabled: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  name: z.union([z.string(), DataReferenceSchema]).optional(),
+  type: z.union([z.enum(["submit", "reset", "button"]), DataReferenceSchema]).optional(),
   value: z.unknown().optional(),
 });
 
 export const CheckboxPropsSchema = z.object({
-  variant: z.enum(["default", "error"]).optional(), // Visual variant: "default" or "error" for validation failures (visual only, no error text)
+  variant: z.union([z.enum(["default", "error"]), DataReferenceSchema]).optional(), // Visual variant: "default" or "error" for validation failures (visual only, no error text)
   label: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Label content for the checkbox (enables built-in Field wrapper) - can be a string or any React node
   labelTooltip: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Tooltip content to display next to the label via an info icon
-  controlFirst: z.boolean().optional(), // When true (default), checkbox appears before label. When false, label appears before checkbox.
-  checked: z.boolean().optional(), // Whether the checkbox is checked (controlled)
-  indeterminate: z.boolean().optional(), // Whether the checkbox is in indeterminate state
-  disabled: z.boolean().optional(), // Whether the checkbox is disabled
-  name: z.string().optional(), // Name for form submission
-  required: z.boolean().optional(), // Whether the field is required
-  className: z.string().optional(), // Additional class name
+  controlFirst: z.union([z.boolean(), DataReferenceSchema]).optional(), // When true (default), checkbox appears before label. When false, label appears before checkbox.
+  checked: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the checkbox is checked (controlled)
+  indeterminate: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the checkbox is in indeterminate state
+  disabled: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the checkbox is disabled
+  name: z.union([z.string(), DataReferenceSchema]).optional(), // Name for form submission
+  required: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the field is required
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional class name
   onValueChange: z.unknown().optional(), // Callback when checkbox value changes
 });
 
 export const ClipboardTextPropsSchema = z.object({
-  size: z.enum(["sm", "base", "lg"]).optional(), // Size of the clipboard text field. - `"sm"` — Small clipboard text for compact UIs - `"base"` — Default clipboard text size - `"lg"` — Large clipboard text for prominent display
-  text: z.string(), // The text to display and copy to clipboard.
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
+  size: z.union([z.enum(["sm", "base", "lg"]), DataReferenceSchema]).optional(), // Size of the clipboard text field. - `"sm"` — Small clipboard text for compact UIs - `"base"` — Default clipboard text size - `"lg"` — Large clipboard text for prominent display
+  text: z.union([z.string(), DataReferenceSchema]), // The text to display and copy to clipboard.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
   tooltip: z.unknown().optional(), // Tooltip config. Shows tooltip on hover, anchored toast on click.
   labels: z.unknown().optional(), // Accessible labels for i18n.
 });
 
 export const CloudflareLogoPropsSchema = z.object({
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(),
-  className: z.string().optional(),
+  className: z.union([z.string(), DataReferenceSchema]).optional(),
   height: z.unknown().optional(),
-  id: z.string().optional(),
-  lang: z.string().optional(),
-  media: z.string().optional(),
-  method: z.string().optional(),
-  name: z.string().optional(),
-  target: z.string().optional(),
-  type: z.string().optional(),
+  id: z.union([z.string(), DataReferenceSchema]).optional(),
+  lang: z.union([z.string(), DataReferenceSchema]).optional(),
+  media: z.union([z.string(), DataReferenceSchema]).optional(),
+  method: z.union([z.string(), DataReferenceSchema]).optional(),
+  name: z.union([z.string(), DataReferenceSchema]).optional(),
+  target: z.union([z.string(), DataReferenceSchema]).optional(),
+  type: z.union([z.string(), DataReferenceSchema]).optional(),
   width: z.unknown().optional(),
   accentHeight: z.unknown().optional(),
-  accumulate: z.enum(["none", "sum"]).optional(),
-  additive: z.enum(["replace", "sum"]).optional(),
-  alignmentBaseline: z.enum(["auto", "baseline", "before-edge", "text-before-edge", "middle", "central", "after-edge", "text-after-edge", "ideographic", "alphabetic", "hanging", "mathematical", "inherit"]).optional(),
-  allowReorder: z.enum(["no", "yes"]).optional(),
+  accumulate: z.union([z.enum(["none", "sum"]), DataReferenceSchema]).optional(),
+  additive: z.union([z.enum(["replace", "sum"]), DataReferenceSchema]).optional(),
+  alignmentBaseline: z.union([z.enum(["auto", "baseline", "before-edge", "text-before-edge", "middle", "central", "after-edge", "text-after-edge", "ideographic", "alphabetic", "hanging", "mathematical", "inherit"]), DataReferenceSchema]).optional(),
+  allowReorder: z.union([z.enum(["no", "yes"]), DataReferenceSchema]).optional(),
   alphabetic: z.unknown().optional(),
   amplitude: z.unknown().optional(),
-  arabicForm: z.enum(["initial", "medial", "terminal", "isolated"]).optional(),
+  arabicForm: z.union([z.enum(["initial", "medial", "terminal", "isolated"]), DataReferenceSchema]).optional(),
   ascent: z.unknown().optional(),
-  attributeName: z.string().optional(),
-  attributeType: z.string().optional(),
+  attributeName: z.union([z.string(), DataReferenceSchema]).optional(),
+  attributeType: z.union([z.string(), DataReferenceSchema]).optional(),
   autoReverse: z.unknown().optional(),
   azimuth: z.unknown().optional(),
   baseFrequency: z.unknown().optional(),
@@ -206,11 +261,11 @@ export const CloudflareLogoPropsSchema = z.object({
   calcMode: z.unknown().optional(),
   capHeight: z.unknown().optional(),
   clip: z.unknown().optional(),
-  clipPath: z.string().optional(),
+  clipPath: z.union([z.string(), DataReferenceSchema]).optional(),
   clipPathUnits: z.unknown().optional(),
   clipRule: z.unknown().optional(),
   colorInterpolation: z.unknown().optional(),
-  colorInterpolationFilters: z.enum(["auto", "sRGB", "linearRGB", "inherit"]).optional(),
+  colorInterpolationFilters: z.union([z.enum(["auto", "sRGB", "linearRGB", "inherit"]), DataReferenceSchema]).optional(),
   colorProfile: z.unknown().optional(),
   colorRendering: z.unknown().optional(),
   contentScriptType: z.unknown().optional(),
@@ -218,14 +273,14 @@ export const CloudflareLogoPropsSchema = z.object({
   cursor: z.unknown().optional(),
   cx: z.unknown().optional(),
   cy: z.unknown().optional(),
-  d: z.string().optional(),
+  d: z.union([z.string(), DataReferenceSchema]).optional(),
   decelerate: z.unknown().optional(),
   descent: z.unknown().optional(),
   diffuseConstant: z.unknown().optional(),
   direction: z.unknown().optional(),
   display: z.unknown().optional(),
   divisor: z.unknown().optional(),
-  dominantBaseline: z.enum(["auto", "use-script", "no-change", "reset-size", "ideographic", "alphabetic", "hanging", "mathematical", "central", "middle", "text-after-edge", "text-before-edge", "inherit"]).optional(),
+  dominantBaseline: z.union([z.enum(["auto", "use-script", "no-change", "reset-size", "ideographic", "alphabetic", "hanging", "mathematical", "central", "middle", "text-after-edge", "text-before-edge", "inherit"]), DataReferenceSchema]).optional(),
   dur: z.unknown().optional(),
   dx: z.unknown().optional(),
   dy: z.unknown().optional(),
@@ -235,16 +290,16 @@ export const CloudflareLogoPropsSchema = z.object({
   end: z.unknown().optional(),
   exponent: z.unknown().optional(),
   externalResourcesRequired: z.unknown().optional(),
-  fill: z.string().optional(),
+  fill: z.union([z.string(), DataReferenceSchema]).optional(),
   fillOpacity: z.unknown().optional(),
-  fillRule: z.enum(["nonzero", "evenodd", "inherit"]).optional(),
-  filter: z.string().optional(),
+  fillRule: z.union([z.enum(["nonzero", "evenodd", "inherit"]), DataReferenceSchema]).optional(),
+  filter: z.union([z.string(), DataReferenceSchema]).optional(),
   filterRes: z.unknown().optional(),
   filterUnits: z.unknown().optional(),
   floodColor: z.unknown().optional(),
   floodOpacity: z.unknown().optional(),
   focusable: z.unknown().optional(),
-  fontFamily: z.string().optional(),
+  fontFamily: z.union([z.string(), DataReferenceSchema]).optional(),
   fontSize: z.unknown().optional(),
   fontSizeAdjust: z.unknown().optional(),
   fontStretch: z.unknown().optional(),
@@ -262,16 +317,16 @@ export const CloudflareLogoPropsSchema = z.object({
   glyphOrientationHorizontal: z.unknown().optional(),
   glyphOrientationVertical: z.unknown().optional(),
   glyphRef: z.unknown().optional(),
-  gradientTransform: z.string().optional(),
-  gradientUnits: z.string().optional(),
+  gradientTransform: z.union([z.string(), DataReferenceSchema]).optional(),
+  gradientUnits: z.union([z.string(), DataReferenceSchema]).optional(),
   hanging: z.unknown().optional(),
   horizAdvX: z.unknown().optional(),
   horizOriginX: z.unknown().optional(),
-  href: z.string().optional(),
+  href: z.union([z.string(), DataReferenceSchema]).optional(),
   ideographic: z.unknown().optional(),
   imageRendering: z.unknown().optional(),
   in2: z.unknown().optional(),
-  in: z.string().optional(),
+  in: z.union([z.string(), DataReferenceSchema]).optional(),
   intercept: z.unknown().optional(),
   k1: z.unknown().optional(),
   k2: z.unknown().optional(),
@@ -289,13 +344,13 @@ export const CloudflareLogoPropsSchema = z.object({
   lightingColor: z.unknown().optional(),
   limitingConeAngle: z.unknown().optional(),
   local: z.unknown().optional(),
-  markerEnd: z.string().optional(),
+  markerEnd: z.union([z.string(), DataReferenceSchema]).optional(),
   markerHeight: z.unknown().optional(),
-  markerMid: z.string().optional(),
-  markerStart: z.string().optional(),
+  markerMid: z.union([z.string(), DataReferenceSchema]).optional(),
+  markerStart: z.union([z.string(), DataReferenceSchema]).optional(),
   markerUnits: z.unknown().optional(),
   markerWidth: z.unknown().optional(),
-  mask: z.string().optional(),
+  mask: z.union([z.string(), DataReferenceSchema]).optional(),
   maskContentUnits: z.unknown().optional(),
   maskUnits: z.unknown().optional(),
   mathematical: z.unknown().optional(),
@@ -313,18 +368,18 @@ export const CloudflareLogoPropsSchema = z.object({
   overlineThickness: z.unknown().optional(),
   paintOrder: z.unknown().optional(),
   panose1: z.unknown().optional(),
-  path: z.string().optional(),
+  path: z.union([z.string(), DataReferenceSchema]).optional(),
   pathLength: z.unknown().optional(),
-  patternContentUnits: z.string().optional(),
+  patternContentUnits: z.union([z.string(), DataReferenceSchema]).optional(),
   patternTransform: z.unknown().optional(),
-  patternUnits: z.string().optional(),
+  patternUnits: z.union([z.string(), DataReferenceSchema]).optional(),
   pointerEvents: z.unknown().optional(),
-  points: z.string().optional(),
+  points: z.union([z.string(), DataReferenceSchema]).optional(),
   pointsAtX: z.unknown().optional(),
   pointsAtY: z.unknown().optional(),
   pointsAtZ: z.unknown().optional(),
   preserveAlpha: z.unknown().optional(),
-  preserveAspectRatio: z.string().optional(),
+  preserveAspectRatio: z.union([z.string(), DataReferenceSchema]).optional(),
   primitiveUnits: z.unknown().optional(),
   r: z.unknown().optional(),
   radius: z.unknown().optional(),
@@ -336,7 +391,7 @@ export const CloudflareLogoPropsSchema = z.object({
   requiredExtensions: z.unknown().optional(),
   requiredFeatures: z.unknown().optional(),
   restart: z.unknown().optional(),
-  result: z.string().optional(),
+  result: z.union([z.string(), DataReferenceSchema]).optional(),
   rotate: z.unknown().optional(),
   rx: z.unknown().optional(),
   ry: z.unknown().optional(),
@@ -348,22 +403,22 @@ export const CloudflareLogoPropsSchema = z.object({
   specularConstant: z.unknown().optional(),
   specularExponent: z.unknown().optional(),
   speed: z.unknown().optional(),
-  spreadMethod: z.string().optional(),
+  spreadMethod: z.union([z.string(), DataReferenceSchema]).optional(),
   startOffset: z.unknown().optional(),
   stdDeviation: z.unknown().optional(),
   stemh: z.unknown().optional(),
   stemv: z.unknown().optional(),
   stitchTiles: z.unknown().optional(),
-  stopColor: z.string().optional(),
+  stopColor: z.union([z.string(), DataReferenceSchema]).optional(),
   stopOpacity: z.unknown().optional(),
   strikethroughPosition: z.unknown().optional(),
   strikethroughThickness: z.unknown().optional(),
   string: z.unknown().optional(),
-  stroke: z.string().optional(),
+  stroke: z.union([z.string(), DataReferenceSchema]).optional(),
   strokeDasharray: z.unknown().optional(),
   strokeDashoffset: z.unknown().optional(),
-  strokeLinecap: z.enum(["butt", "round", "square", "inherit"]).optional(),
-  strokeLinejoin: z.enum(["miter", "round", "bevel", "inherit"]).optional(),
+  strokeLinecap: z.union([z.enum(["butt", "round", "square", "inherit"]), DataReferenceSchema]).optional(),
+  strokeLinejoin: z.union([z.enum(["miter", "round", "bevel", "inherit"]), DataReferenceSchema]).optional(),
   strokeMiterlimit: z.unknown().optional(),
   strokeOpacity: z.unknown().optional(),
   strokeWidth: z.unknown().optional(),
@@ -372,12 +427,12 @@ export const CloudflareLogoPropsSchema = z.object({
   tableValues: z.unknown().optional(),
   targetX: z.unknown().optional(),
   targetY: z.unknown().optional(),
-  textAnchor: z.enum(["start", "middle", "end", "inherit"]).optional(),
+  textAnchor: z.union([z.enum(["start", "middle", "end", "inherit"]), DataReferenceSchema]).optional(),
   textDecoration: z.unknown().optional(),
   textLength: z.unknown().optional(),
   textRendering: z.unknown().optional(),
   to: z.unknown().optional(),
-  transform: z.string().optional(),
+  transform: z.union([z.string(), DataReferenceSchema]).optional(),
   u1: z.unknown().optional(),
   u2: z.unknown().optional(),
   underlinePosition: z.unknown().optional(),
@@ -387,15 +442,15 @@ export const CloudflareLogoPropsSchema = z.object({
   unicodeRange: z.unknown().optional(),
   unitsPerEm: z.unknown().optional(),
   vAlphabetic: z.unknown().optional(),
-  values: z.string().optional(),
+  values: z.union([z.string(), DataReferenceSchema]).optional(),
   vectorEffect: z.unknown().optional(),
-  version: z.string().optional(),
+  version: z.union([z.string(), DataReferenceSchema]).optional(),
   vertAdvY: z.unknown().optional(),
   vertOriginX: z.unknown().optional(),
   vertOriginY: z.unknown().optional(),
   vHanging: z.unknown().optional(),
   vIdeographic: z.unknown().optional(),
-  viewBox: z.string().optional(),
+  viewBox: z.union([z.string(), DataReferenceSchema]).optional(),
   viewTarget: z.unknown().optional(),
   visibility: z.unknown().optional(),
   vMathematical: z.unknown().optional(),
@@ -405,104 +460,153 @@ export const CloudflareLogoPropsSchema = z.object({
   x1: z.unknown().optional(),
   x2: z.unknown().optional(),
   x: z.unknown().optional(),
-  xChannelSelector: z.string().optional(),
+  xChannelSelector: z.union([z.string(), DataReferenceSchema]).optional(),
   xHeight: z.unknown().optional(),
-  xlinkActuate: z.string().optional(),
-  xlinkArcrole: z.string().optional(),
-  xlinkHref: z.string().optional(),
-  xlinkRole: z.string().optional(),
-  xlinkShow: z.string().optional(),
-  xlinkTitle: z.string().optional(),
-  xlinkType: z.string().optional(),
-  xmlBase: z.string().optional(),
-  xmlLang: z.string().optional(),
-  xmlns: z.string().optional(),
-  xmlnsXlink: z.string().optional(),
-  xmlSpace: z.string().optional(),
+  xlinkActuate: z.union([z.string(), DataReferenceSchema]).optional(),
+  xlinkArcrole: z.union([z.string(), DataReferenceSchema]).optional(),
+  xlinkHref: z.union([z.string(), DataReferenceSchema]).optional(),
+  xlinkRole: z.union([z.string(), DataReferenceSchema]).optional(),
+  xlinkShow: z.union([z.string(), DataReferenceSchema]).optional(),
+  xlinkTitle: z.union([z.string(), DataReferenceSchema]).optional(),
+  xlinkType: z.union([z.string(), DataReferenceSchema]).optional(),
+  xmlBase: z.union([z.string(), DataReferenceSchema]).optional(),
+  xmlLang: z.union([z.string(), DataReferenceSchema]).optional(),
+  xmlns: z.union([z.string(), DataReferenceSchema]).optional(),
+  xmlnsXlink: z.union([z.string(), DataReferenceSchema]).optional(),
+  xmlSpace: z.union([z.string(), DataReferenceSchema]).optional(),
   y1: z.unknown().optional(),
   y2: z.unknown().optional(),
   y: z.unknown().optional(),
-  yChannelSelector: z.string().optional(),
+  yChannelSelector: z.union([z.string(), DataReferenceSchema]).optional(),
   z: z.unknown().optional(),
-  zoomAndPan: z.string().optional(),
-  variant: z.enum(["glyph", "full"]).optional(), // Logo variant - `glyph`: Cloud icon only - `full`: Cloud icon with "CLOUDFLARE" wordmark below
+  zoomAndPan: z.union([z.string(), DataReferenceSchema]).optional(),
+  variant: z.union([z.enum(["glyph", "full"]), DataReferenceSchema]).optional(), // Logo variant - `glyph`: Cloud icon only - `full`: Cloud icon with "CLOUDFLARE" wordmark below
 });
 
 export const CodePropsSchema = z.object({
-  lang: z.enum(["ts", "tsx", "jsonc", "bash", "css"]).optional(), // Language hint for the code content. - `"ts"` — TypeScript code - `"tsx"` — TypeScript JSX code - `"jsonc"` — JSON with comments - `"bash"` — Shell/Bash commands - `"css"` — CSS styles
-  code: z.string(), // The code string to display.
+  lang: z.union([z.enum(["ts", "tsx", "jsonc", "bash", "css", "json", "yaml", "toml", "sql", "python", "go", "rust", "html", "graphql", "diff"]), DataReferenceSchema]).optional(), // Language hint for the code content. - `"ts"` — TypeScript code - `"tsx"` — TypeScript JSX code - `"jsonc"` — JSON with comments - `"bash"` — Shell/Bash commands - `"css"` — CSS styles - `"json"` — JSON data - `"yaml"` — YAML configuration - `"toml"` — TOML configuration (e.g. wrangler.toml) - `"sql"` — SQL queries - `"python"` — Python code - `"go"` — Go code - `"rust"` — Rust code - `"html"` — HTML markup - `"graphql"` — GraphQL queries and schemas - `"diff"` — Unified diffs
+  code: z.union([z.string(), DataReferenceSchema]), // The code string to display.
   values: z.unknown().optional(), // Template values for `{{key}}` interpolation. Values with `highlight: true` are visually emphasized.
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
 });
 
 export const CollapsiblePropsSchema = z.object({
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(),
-  label: z.string(), // Text label displayed in the trigger button
-  open: z.boolean().optional(), // Whether the collapsible content is visible
-  className: z.string().optional(), // Additional CSS classes for the content panel
+  label: z.union([z.string(), DataReferenceSchema]), // Text label displayed in the trigger button
+  open: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the collapsible content is visible
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes for the content panel
   onOpenChange: z.unknown().optional(), // Callback when collapsed state changes
 });
 
 export const ComboboxPropsSchema = z.object({
-  inputSide: z.enum(["right", "top"]).optional(), // Position of the text input relative to chips in multi-select mode. - `"right"` — Input inline to the right of chips - `"top"` — Input above chips
+  inputSide: z.union([z.enum(["right", "top"]), DataReferenceSchema]).optional(), // Position of the text input relative to chips in multi-select mode. - `"right"` — Input inline to the right of chips - `"top"` — Input above chips
   items: z.array(z.unknown()), // Array of items to display in the dropdown
   value: z.array(z.unknown()).optional(), // Currently selected value(s)
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Combobox content (trigger, content, items)
-  className: z.string().optional(), // Additional CSS classes
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes
   label: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Label content for the combobox (enables Field wrapper) - can be a string or any React node
-  required: z.boolean().optional(), // Whether the combobox is required
+  required: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the combobox is required
   labelTooltip: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Tooltip content to display next to the label via an info icon
   description: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Helper text displayed below the combobox
   error: z.unknown().optional(), // Error message or validation error object
   onValueChange: z.unknown().optional(), // Callback when selection changes
-  multiple: z.boolean().optional(), // Allow multiple selections
+  multiple: z.union([z.boolean(), DataReferenceSchema]).optional(), // Allow multiple selections
+  virtualized: z.union([z.boolean(), DataReferenceSchema]).optional(), // Only render the items in view, for long lists. `Combobox.List` must have a render function child.
   isItemEqualToValue: z.unknown().optional(), // Custom equality function for comparing items
 });
 
 export const CommandPalettePropsSchema = z.object({
-  open: z.boolean(), // Whether the dialog is open
+  open: z.union([z.boolean(), DataReferenceSchema]), // Whether the dialog is open
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Child content - typically one or more Panel components
 });
 
+export const DataTablePropsSchema = z.object({
+  columns: z.array(z.unknown()), // Column definitions
+  data: z.array(z.unknown()), // Rows to display
+  getRowId: z.unknown().optional(), // Stable id for a row, used for selection, expansion and React keys. Defaults to the row's index in `data`. Sub-rows get their index among their siblings and their parent's id, and default to `"<parentId>.<index>"`.
+  manual: z.union([z.boolean(), DataReferenceSchema]).optional(), // Server-side mode: `data` is already sorted, filtered and paginated, so DataTable only reports state changes. Set `totalCount` for pagination.
+  totalCount: z.union([z.number(), DataReferenceSchema]).optional(), // Total number of rows across all pages in manual mode
+  sort: z.unknown().optional(), // Controlled sort
+  defaultSort: z.unknown().optional(), // Initial sort when uncontrolled
+  onSortChange: z.unknown().optional(), // Callback when a sortable header is clicked (ascending, descending, then unsorted)
+  filters: z.unknown().optional(), // Controlled column filters
+  defaultFilters: z.unknown().optional(), // Initial column filters when uncontrolled
+  onFiltersChange: z.unknown().optional(), // Callback when a column filter changes
+  selectable: z.union([z.boolean(), DataReferenceSchema]).optional(), // Show a checkbox column for row selection.
+  selectedRowIds: z.array(z.string()).optional(), // Controlled selected row ids
+  defaultSelectedRowIds: z.array(z.string()).optional(), // Initial selected row ids when uncontrolled
+  onSelectedRowIdsChange: z.unknown().optional(), // Callback when the selection changes
+  isRowSelectable: z.unknown().optional(), // Return false to disable selection for a row
+  pagination: z.union([z.boolean(), DataReferenceSchema]).optional(), // Paginate rows and show `Pagination` controls below the table.
+  page: z.union([z.number(), DataReferenceSchema]).optional(), // Controlled current page (1-indexed)
+  defaultPage: z.union([z.number(), DataReferenceSchema]).optional(), // Initial page when uncontrolled.
+  onPageChange: z.unknown().optional(), // Callback when the page changes
+  perPage: z.union([z.number(), DataReferenceSchema]).optional(), // Controlled page size
+  defaultPerPage: z.union([z.number(), DataReferenceSchema]).optional(), // Initial page size when uncontrolled.
+  onPerPageChange: z.unknown().optional(), // Callback when the page size changes
+  pageSizeOptions: z.array(z.unknown()).optional(), // Page size options. Shows a page size selector when set.
+  layout: z.union([z.enum(["auto", "fixed"]), DataReferenceSchema]).optional(), // Table layout algorithm, passed to `Table`. Resizable columns always use the fixed layout.
+  resizableColumns: z.union([z.boolean(), DataReferenceSchema]).optional(), // Show resize handles on headers (drag, or arrow keys when focused).
+  reorderableColumns: z.union([z.boolean(), DataReferenceSchema]).optional(), // Let headers be dragged onto each other, or moved with Alt+Arrow keys, to reorder columns.
+  columnVisibility: z.union([z.boolean(), DataReferenceSchema]).optional(), // Show a column visibility menu above the table.
+  columnLayout: z.unknown().optional(), // Controlled column layout (widths, order, hidden and pinned columns)
+  defaultColumnLayout: z.unknown().optional(), // Initial column layout when uncontrolled. Defaults to the column definitions.
+  onColumnLayoutChange: z.unknown().optional(), // Callback when columns are resized, reordered, hidden or pinned
+  layoutStorage: z.unknown().optional(), // Storage to persist the column layout to, such as `localStorage`
+  layoutStorageKey: z.union([z.string(), DataReferenceSchema]).optional(), // Storage key for the column layout. Required with `layoutStorage`.
+  virtualized: z.union([z.boolean(), DataReferenceSchema]).optional(), // Only render the rows in view, for large unpaginated data sets. The table scrolls within `maxHeight` and the header stays visible.
+  maxHeight: z.union([z.number(), DataReferenceSchema]).optional(), // Maximum height in pixels of the scrolling table when `virtualized`.
+  getSubRows: z.unknown().optional(), // Children of a row, shown indented under it when it is expanded. Sub-rows are sorted along with their parents but not filtered or paginated; rows from `loadSubRows` keep the order they are loaded in.
+  loadSubRows: z.unknown().optional(), // Load the children of a row when it is first expanded, for rows where `getSubRows` returns `undefined`. A rejected load collapses the row.
+  renderRowDetail: z.unknown().optional(), // Detail panel shown under a row when it is expanded, spanning all columns
+  expandedRowIds: z.array(z.string()).optional(), // Controlled expanded row ids
+  defaultExpandedRowIds: z.array(z.string()).optional(), // Initial expanded row ids when uncontrolled
+  onExpandedRowIdsChange: z.unknown().optional(), // Callback when rows are expanded or collapsed
+  groupBy: z.union([z.string(), DataReferenceSchema]).optional(), // Group rows by a column's value, under collapsible header rows that show the group's row count and the columns' `aggregate`. Groups start expanded and are formed on each page when paginated.
+  empty: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Content shown when there are no rows. Defaults to "No results".
+  label: z.union([z.string(), DataReferenceSchema]).optional(), // Accessible label for the table
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes for the container
+});
+
 export const DatePickerPropsSchema = z.object({
-  className: z.string().optional(), // Additional CSS classes
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Child elements
 });
 
 export const DateRangePickerPropsSchema = z.object({
-  size: z.enum(["sm", "base", "lg"]).optional(), // Calendar size. - `"sm"` — Compact calendar for tight spaces - `"base"` — Default calendar size - `"lg"` — Large calendar for prominent date selection
-  variant: z.enum(["default", "subtle"]).optional(), // Visual variant. - `"default"` — Standard appearance with overlay background - `"subtle"` — Minimal background
-  timezone: z.string().optional(), // Display timezone string shown in the footer.
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
+  size: z.union([z.enum(["sm", "base", "lg"]), DataReferenceSchema]).optional(), // Calendar size. - `"sm"` — Compact calendar for tight spaces - `"base"` — Default calendar size - `"lg"` — Large calendar for prominent date selection
+  variant: z.union([z.enum(["default", "subtle"]), DataReferenceSchema]).optional(), // Visual variant. - `"default"` — Standard appearance with overlay background - `"subtle"` — Minimal background
+  timezone: z.union([z.string(), DataReferenceSchema]).optional(), // Display timezone string shown in the footer.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
   onStartDateChange: z.unknown().optional(), // Callback when start date changes
   onEndDateChange: z.unknown().optional(), // Callback when end date changes
 });
 
 export const DialogPropsSchema = z.object({
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Dialog content (typically Title, Description, Close, and action buttons).
-  size: z.enum(["base", "sm", "lg", "xl"]).optional(), // Dialog width. - `"sm"` — Small (min 288px) for simple confirmations - `"base"` — Default (min 384px) - `"lg"` — Large (min 512px) for complex content - `"xl"` — Extra large (min 768px) for detailed views
+  size: z.union([z.enum(["base", "sm", "lg", "xl"]), DataReferenceSchema]).optional(), // Dialog width. - `"sm"` — Small (min 288px) for simple confirmations - `"base"` — Default (min 384px) - `"lg"` — Large (min 512px) for complex content - `"xl"` — Extra large (min 768px) for detailed views
 });
 
 export const DropdownMenuPropsSchema = z.object({
-  variant: z.enum(["default", "danger"]).optional(), // Visual style of the dropdown item. - `"default"` — Standard item appearance - `"danger"` — Destructive action with red text
+  variant: z.union([z.enum(["default", "danger"]), DataReferenceSchema]).optional(), // Visual style of the dropdown item. - `"default"` — Standard item appearance - `"danger"` — Destructive action with red text
 });
 
 export const EmptyPropsSchema = z.object({
-  size: z.enum(["sm", "base", "lg"]).optional(), // Size of the empty state container. - `"sm"` — Compact empty state for smaller containers - `"base"` — Default empty state size - `"lg"` — Large empty state for prominent placement
+  size: z.union([z.enum(["sm", "base", "lg"]), DataReferenceSchema]).optional(), // Size of the empty state container. - `"sm"` — Compact empty state for smaller containers - `"base"` — Default empty state size - `"lg"` — Large empty state for prominent placement
   icon: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Decorative icon displayed above the title (e.g. from `@phosphor-icons/react`).
-  title: z.string(), // Primary heading text for the empty state.
-  description: z.string().optional(), // Secondary description text displayed below the title.
-  commandLine: z.string().optional(), // Shell command displayed in a copyable code block.
+  title: z.union([z.string(), DataReferenceSchema]), // Primary heading text for the empty state.
+  description: z.union([z.string(), DataReferenceSchema]).optional(), // Secondary description text displayed below the title.
+  commandLine: z.union([z.string(), DataReferenceSchema]).optional(), // Shell command displayed in a copyable code block.
   contents: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Additional content (buttons, links) rendered below the description.
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
 });
 
 export const FieldPropsSchema = z.object({
-  controlFirst: z.boolean().optional(), // When `true`, places the control before the label (for checkbox/switch layouts).
+  controlFirst: z.union([z.boolean(), DataReferenceSchema]).optional(), // When `true`, places the control before the label (for checkbox/switch layouts).
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // The form control element(s) to wrap (Input, Select, Checkbox, etc.).
   label: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // The label content — can be a string or any React node.
-  required: z.boolean().optional(), // When explicitly `false`, shows gray "(optional)" text after the label. When `true` or `undefined`, no indicator is shown.
+  required: z.union([z.boolean(), DataReferenceSchema]).optional(), // When explicitly `false`, shows gray "(optional)" text after the label. When `true` or `undefined`, no indicator is shown.
   labelTooltip: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Tooltip content displayed next to the label via an info icon.
   error: z.unknown().optional(), // Validation error with a message and a browser `ValidityState` match key.
   description: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Helper text displayed below the control (hidden when `error` is present).
@@ -510,13 +614,13 @@ export const FieldPropsSchema = z.object({
 
 export const GridPropsSchema = z.object({
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Grid items to render.
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
-  id: z.string().optional(),
-  lang: z.string().optional(),
-  title: z.string().optional(),
-  mobileDivider: z.boolean().optional(), // Show dividers between grid items on mobile (only works with `"4up"` variant).
-  gap: z.enum(["none", "sm", "base", "lg"]).optional(), // Gap size between grid items. - `"none"` — No gap - `"sm"` — 12px gap - `"base"` — Responsive gap (8px → 24px → 32px) - `"lg"` — 32px gap
-  variant: z.enum(["2up", "side-by-side", "2-1", "1-2", "1-3up", "3up", "4up", "6up", "1-2-4up"]).optional(), // Responsive column layout variant. - `"2up"` — 1 col → 2 cols at md - `"side-by-side"` — Always 2 cols - `"2-1"` — 66%/33% split at md - `"1-2"` — 33%/66% split at md - `"3up"` — 1 → 2 → 3 cols - `"4up"` — 1 → 2 → 3 → 4 cols - `"6up"` — 2 → 3 → 4 → 6 cols - `"1-2-4up"` — 1 → 2 → 4 cols
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
+  id: z.union([z.string(), DataReferenceSchema]).optional(),
+  lang: z.union([z.string(), DataReferenceSchema]).optional(),
+  title: z.union([z.string(), DataReferenceSchema]).optional(),
+  mobileDivider: z.union([z.boolean(), DataReferenceSchema]).optional(), // Show dividers between grid items on mobile (only works with `"4up"` variant).
+  gap: z.union([z.enum(["none", "sm", "base", "lg"]), DataReferenceSchema]).optional(), // Gap size between grid items. - `"none"` — No gap - `"sm"` — 12px gap - `"base"` — Responsive gap (8px → 24px → 32px) - `"lg"` — 32px gap
+  variant: z.union([z.enum(["2up", "side-by-side", "2-1", "1-2", "1-3up", "3up", "4up", "6up", "1-2-4up"]), DataReferenceSchema]).optional(), // Responsive column layout variant. - `"2up"` — 1 col → 2 cols at md - `"side-by-side"` — Always 2 cols - `"2-1"` — 66%/33% split at md - `"1-2"` — 33%/66% split at md - `"3up"` — 1 → 2 → 3 cols - `"4up"` — 1 → 2 → 3 → 4 cols - `"6up"` — 2 → 3 → 4 → 6 cols - `"1-2-4up"` — 1 → 2 → 4 cols
 });
 
 export const InputPropsSchema = z.object({
@@ -524,206 +628,446 @@ export const InputPropsSchema = z.object({
   labelTooltip: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Tooltip content to display next to the label via an info icon
   description: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Helper text displayed below the input
   error: z.unknown().optional(), // Error message or validation error object
-  size: z.enum(["xs", "sm", "base", "lg"]).optional(), // Input size. - `"xs"` — Extra small for compact UIs - `"sm"` — Small for secondary fields - `"base"` — Default size - `"lg"` — Large for prominent fields
-  variant: z.enum(["default", "error"]).optional(), // Visual variant. - `"default"` — Standard input - `"error"` — Error state for validation failures
+  size: z.union([z.enum(["xs", "sm", "base", "lg"]), DataReferenceSchema]).optional(), // Input size. - `"xs"` — Extra small for compact UIs - `"sm"` — Small for secondary fields - `"base"` — Default size - `"lg"` — Large for prominent fields
+  variant: z.union([z.enum(["default", "error"]), DataReferenceSchema]).optional(), // Visual variant. - `"default"` — Standard input - `"error"` — Error state for validation failures
 });
 
 export const InputAreaPropsSchema = z.object({});
 
 export const LabelPropsSchema = z.object({
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // The label content — can be a string or any React node.
-  showOptional: z.boolean().optional(), // When `true`, shows gray "(optional)" text after the label.
+  showOptional: z.union([z.boolean(), DataReferenceSchema]).optional(), // When `true`, shows gray "(optional)" text after the label.
   tooltip: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Tooltip content displayed next to the label via an info icon.
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
-  htmlFor: z.string().optional(), // The id of the form element this label is associated with
-  asContent: z.boolean().optional(), // When true, only renders the inline content (indicators, tooltip) without the outer label element with font styling. Useful when composed inside another label element that already provides the text styling.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
+  htmlFor: z.union([z.string(), DataReferenceSchema]).optional(), // The id of the form element this label is associated with
+  asContent: z.union([z.boolean(), DataReferenceSchema]).optional(), // When true, only renders the inline content (indicators, tooltip) without the outer label element with font styling. Useful when composed inside another label element that already provides the text styling.
 });
 
 export const LayerCardPropsSchema = z.object({
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(),
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
 });
 
 export const LinkPropsSchema = z.object({
-  variant: z.enum(["inline", "current", "plain"]).optional(), // Visual style of the link. - `"inline"` — Inline text link that flows with content - `"current"` — Link that inherits color from parent text - `"plain"` — Link without underline decoration
-  to: z.string().optional(),
+  variant: z.union([z.enum(["inline", "current", "plain"]), DataReferenceSchema]).optional(), // Visual style of the link. - `"inline"` — Inline text link that flows with content - `"current"` — Link that inherits color from parent text - `"plain"` — Link without underline decoration
+  to: z.union([z.string(), DataReferenceSchema]).optional(),
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(),
-  className: z.string().optional(),
-  id: z.string().optional(),
-  lang: z.string().optional(),
-  title: z.string().optional(),
+  className: z.union([z.string(), DataReferenceSchema]).optional(),
+  id: z.union([z.string(), DataReferenceSchema]).optional(),
+  lang: z.union([z.string(), DataReferenceSchema]).optional(),
+  title: z.union([z.string(), DataReferenceSchema]).optional(),
   download: z.unknown().optional(),
-  href: z.string().optional(),
-  hrefLang: z.string().optional(),
-  media: z.string().optional(),
-  ping: z.string().optional(),
+  href: z.union([z.string(), DataReferenceSchema]).optional(),
+  hrefLang: z.union([z.string(), DataReferenceSchema]).optional(),
+  media: z.union([z.string(), DataReferenceSchema]).optional(),
+  ping: z.union([z.string(), DataReferenceSchema]).optional(),
   target: z.unknown().optional(),
-  type: z.string().optional(),
-  referrerPolicy: z.enum(["", "no-referrer", "no-referrer-when-downgrade", "origin", "origin-when-cross-origin", "same-origin", "strict-origin", "strict-origin-when-cross-origin", "unsafe-url"]).optional(),
+  type: z.union([z.string(), DataReferenceSchema]).optional(),
+  referrerPolicy: z.union([z.enum(["", "no-referrer", "no-referrer-when-downgrade", "origin", "origin-when-cross-origin", "same-origin", "strict-origin", "strict-origin-when-cross-origin", "unsafe-url"]), DataReferenceSchema]).optional(),
   render: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Allows you to replace the component’s HTML element with a different tag, or compose it with another component. Accepts a `ReactElement` or a function that returns the element to render.
 });
 
 export const LoaderPropsSchema = z.object({
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
-  size: z.enum(["sm", "base", "lg"]).optional(), // Size of the spinner. Use a preset name or a custom pixel number. - `"sm"` — 16px, for inline use - `"base"` — 24px, default size - `"lg"` — 32px, for prominent loading states
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
+  size: z.union([z.enum(["sm", "base", "lg"]), DataReferenceSchema]).optional(), // Size of the spinner. Use a preset name or a custom pixel number. - `"sm"` — 16px, for inline use - `"base"` — 24px, default size - `"lg"` — 32px, for prominent loading states
 });
 
 export const MenuBarPropsSchema = z.object({
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
   isActive: z.unknown().optional(), // The currently active option value — matched against option index or `id`.
   options: z.array(z.unknown()), // Array of menu option configurations.
-  optionIds: z.boolean().optional(), // When true, each option's `id` field is used for matching instead of its array index.
+  optionIds: z.union([z.boolean(), DataReferenceSchema]).optional(), // When true, each option's `id` field is used for matching instead of its array index.
 });
 
 export const MeterPropsSchema = z.object({
-  customValue: z.string().optional(), // Custom formatted value text (e.g. "750 / 1,000") displayed instead of percentage.
-  label: z.string(), // Label text displayed above the meter track.
-  showValue: z.boolean().optional(), // Whether to display the percentage value next to the label.
-  trackClassName: z.string().optional(), // Additional CSS classes for the track (background bar).
-  indicatorClassName: z.string().optional(), // Additional CSS classes for the indicator (filled bar).
-  value: z.number().optional(), // Current value of the meter
-  max: z.number().optional(), // Maximum value of the meter (default: 100)
-  min: z.number().optional(), // Minimum value of the meter (default: 0)
+  customValue: z.union([z.string(), DataReferenceSchema]).optional(), // Custom formatted value text (e.g. "750 / 1,000") displayed instead of percentage.
+  label: z.union([z.string(), DataReferenceSchema]), // Label text displayed above the meter track.
+  showValue: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether to display the percentage value next to the label.
+  trackClassName: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes for the track (background bar).
+  indicatorClassName: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes for the indicator (filled bar).
+  value: z.union([z.number(), DataReferenceSchema]).optional(), // Current value of the meter
+  max: z.union([z.number(), DataReferenceSchema]).optional(), // Maximum value of the meter (default: 100)
+  min: z.union([z.number(), DataReferenceSchema]).optional(), // Minimum value of the meter (default: 0)
 });
 
 export const PaginationPropsSchema = z.object({
   setPage: z.unknown(), // Callback when page changes
-  page: z.number().optional(), // Current page number (1-indexed).
-  perPage: z.number().optional(), // Number of items displayed per page.
-  totalCount: z.number().optional(), // Total number of items across all pages.
-  className: z.string().optional(), // Additional CSS classes for the container
+  page: z.union([z.number(), DataReferenceSchema]).optional(), // Current page number (1-indexed).
+  perPage: z.union([z.number(), DataReferenceSchema]).optional(), // Number of items displayed per page.
+  totalCount: z.union([z.number(), DataReferenceSchema]).optional(), // Total number of items across all pages.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes for the container
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Compound component children for custom layouts. Use Pagination.Info, Pagination.PageSize, Pagination.Controls, and Pagination.Separator.
-  controls: z.enum(["full", "simple"]).optional(),
+  controls: z.union([z.enum(["full", "simple"]), DataReferenceSchema]).optional(),
   text: z.unknown().optional(),
 });
 
 export const PopoverPropsSchema = z.object({
-  side: z.enum(["top", "bottom", "left", "right"]).optional(), // Which side of the trigger the popover appears on. - `"top"` — Above the trigger - `"bottom"` — Below the trigger - `"left"` — Left of the trigger - `"right"` — Right of the trigger
+  side: z.union([z.enum(["top", "bottom", "left", "right"]), DataReferenceSchema]).optional(), // Which side of the trigger the popover appears on. - `"top"` — Above the trigger - `"bottom"` — Below the trigger - `"left"` — Left of the trigger - `"right"` — Right of the trigger
 });
 
 export const RadioPropsSchema = z.object({
-  legend: z.string(), // Legend text for the group (required for accessibility)
+  legend: z.union([z.string(), DataReferenceSchema]), // Legend text for the group (required for accessibility)
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Child Radio.Item components
-  orientation: z.enum(["vertical", "horizontal"]).optional(), // Layout direction of the radio items
-  error: z.string().optional(), // Error message for the group
+  orientation: z.union([z.enum(["vertical", "horizontal"]), DataReferenceSchema]).optional(), // Layout direction of the radio items
+  error: z.union([z.string(), DataReferenceSchema]).optional(), // Error message for the group
   description: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Helper text for the group
-  value: z.string().optional(), // Value of the radio that should be selected (controlled)
-  disabled: z.boolean().optional(), // Whether all radios in the group are disabled
-  controlPosition: z.enum(["start", "end"]).optional(), // Position of radio control relative to label: "start" (default) puts radio before label, "end" puts label before radio
-  name: z.string().optional(), // Form submission name for the radio group
-  className: z.string().optional(), // Additional CSS classes
+  value: z.union([z.string(), DataReferenceSchema]).optional(), // Value of the radio that should be selected (controlled)
+  disabled: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether all radios in the group are disabled
+  controlPosition: z.union([z.enum(["start", "end"]), DataReferenceSchema]).optional(), // Position of radio control relative to label: "start" (default) puts radio before label, "end" puts label before radio
+  name: z.union([z.string(), DataReferenceSchema]).optional(), // Form submission name for the radio group
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes
+});
+
+export const RangeSliderPropsSchema = z.object({
+  value: z.array(z.unknown()).optional(), // The start and end values of a controlled slider
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes for the slider root
+  marks: z.array(z.unknown()).optional(), // Points to mark on the track, as values or `{ value, label }` objects. Labels are shown below the track.
+  valueTooltip: z.union([z.boolean(), DataReferenceSchema]).optional(), // Show the value above a thumb while it is dragged or focused with the keyboard.
+  label: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Label content for the slider (enables Field wrapper) - can be a string or any React node
+  labelTooltip: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Tooltip content to display next to the label via an info icon
+  description: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Helper text displayed below the slider
+  error: z.unknown().optional(), // Error message or validation error object
+  required: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the slider is required. When explicitly false, shows "(optional)" text after the label.
+  size: z.union([z.enum(["xs", "sm", "base", "lg"]), DataReferenceSchema]).optional(), // Slider size, matching the height of `Input` at the same size. - `"xs"` — Extra small for compact UIs - `"sm"` — Small for secondary fields - `"base"` — Default size - `"lg"` — Large for prominent fields
+  variant: z.union([z.enum(["default", "error"]), DataReferenceSchema]).optional(), // Visual variant. - `"default"` — Standard slider - `"error"` — Error state for validation failures
+  defaultValue: z.unknown().optional(), // Initial start and end values for uncontrolled mode
+  onValueChange: z.unknown().optional(), // Callback when the start or end value changes
+  min: z.union([z.number(), DataReferenceSchema]).optional(), // Minimum value of the slider (default: 0)
+  max: z.union([z.number(), DataReferenceSchema]).optional(), // Maximum value of the slider (default: 100)
+  step: z.union([z.number(), DataReferenceSchema]).optional(), // Step between values (default: 1)
+  minStepsBetweenValues: z.union([z.number(), DataReferenceSchema]).optional(), // Minimum number of steps between the thumbs (default: 0)
+  disabled: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the slider ignores user interaction
 });
 
 export const SelectPropsSchema = z.object({
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
   label: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Label content for the select (enables Field wrapper) — can be a string or any React node.
-  hideLabel: z.boolean().optional(), // Visually hide the label while keeping it accessible to screen readers. Set to `false` to show a visible label above the select via the Field wrapper.
-  placeholder: z.string().optional(), // Placeholder text shown when no value is selected.
-  loading: z.boolean().optional(), // When `true`, shows a skeleton loader in place of the selected value.
-  disabled: z.boolean().optional(), // Whether the select is disabled.
-  required: z.boolean().optional(), // Whether the select is required. When `false`, shows "(optional)" text.
+  hideLabel: z.union([z.boolean(), DataReferenceSchema]).optional(), // Visually hide the label while keeping it accessible to screen readers. Set to `false` to show a visible label above the select via the Field wrapper.
+  placeholder: z.union([z.string(), DataReferenceSchema]).optional(), // Placeholder text shown when no value is selected.
+  loading: z.union([z.boolean(), DataReferenceSchema]).optional(), // When `true`, shows a skeleton loader in place of the selected value.
+  disabled: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the select is disabled.
+  required: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the select is required. When `false`, shows "(optional)" text.
   labelTooltip: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Tooltip content displayed next to the label via an info icon.
-  value: z.string().optional(), // Currently selected value (controlled mode).
+  value: z.union([z.string(), DataReferenceSchema]).optional(), // Currently selected value (controlled mode).
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // `Select.Option` elements to render in the dropdown.
   description: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Helper text displayed below the select.
   error: z.unknown().optional(), // Error message string or validation error object with `match` key.
+  virtualized: z.union([z.boolean(), DataReferenceSchema]).optional(), // Only render the options in view, for long lists. Options come from `Select.Option` children or `items`.
   onValueChange: z.unknown().optional(), // Callback when selection changes
-  defaultValue: z.string().optional(), // Initial value for uncontrolled mode
+  defaultValue: z.union([z.string(), DataReferenceSchema]).optional(), // Initial value for uncontrolled mode
 });
 
 export const SensitiveInputPropsSchema = z.object({
-  alt: z.string().optional(),
+  alt: z.union([z.string(), DataReferenceSchema]).optional(),
   autoComplete: z.unknown().optional(),
-  checked: z.boolean().optional(),
-  disabled: z.boolean().optional(),
+  checked: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  disabled: z.union([z.boolean(), DataReferenceSchema]).optional(),
   height: z.unknown().optional(),
-  list: z.string().optional(),
-  name: z.string().optional(),
-  placeholder: z.string().optional(),
-  readOnly: z.boolean().optional(),
-  required: z.boolean().optional(),
+  list: z.union([z.string(), DataReferenceSchema]).optional(),
+  name: z.union([z.string(), DataReferenceSchema]).optional(),
+  placeholder: z.union([z.string(), DataReferenceSchema]).optional(),
+  readOnly: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  required: z.union([z.boolean(), DataReferenceSchema]).optional(),
   width: z.unknown().optional(),
-  className: z.string().optional(),
-  id: z.string().optional(),
-  lang: z.string().optional(),
-  title: z.string().optional(),
+  className: z.union([z.string(), DataReferenceSchema]).optional(),
+  id: z.union([z.string(), DataReferenceSchema]).optional(),
+  lang: z.union([z.string(), DataReferenceSchema]).optional(),
+  title: z.union([z.string(), DataReferenceSchema]).optional(),
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(),
-  value: z.string().optional(), // Controlled value
-  size: z.enum(["xs", "sm", "base", "lg"]).optional(), // Size of the input. - `"xs"` — Extra small for compact UIs - `"sm"` — Small for secondary fields - `"base"` — Default input size - `"lg"` — Large for prominent fields
-  variant: z.enum(["default", "error"]).optional(), // Style variant of the input. - `"default"` — Default input appearance - `"error"` — Error state for validation failures
+  value: z.union([z.string(), DataReferenceSchema]).optional(), // Controlled value
+  size: z.union([z.enum(["xs", "sm", "base", "lg"]), DataReferenceSchema]).optional(), // Size of the input. - `"xs"` — Extra small for compact UIs - `"sm"` — Small for secondary fields - `"base"` — Default input size - `"lg"` — Large for prominent fields
+  variant: z.union([z.enum(["default", "error"]), DataReferenceSchema]).optional(), // Style variant of the input. - `"default"` — Default input appearance - `"error"` — Error state for validation failures
   label: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Label content for the input (enables Field wrapper and sets masked state label) - can be a string or any React node
   labelTooltip: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Tooltip content to display next to the label via an info icon
   description: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Helper text displayed below the input
   error: z.unknown().optional(), // Error message or validation error object
 });
 
+export const SliderPropsSchema = z.object({
+  value: z.union([z.number(), DataReferenceSchema]).optional(), // The value of a controlled slider
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes for the slider root
+  marks: z.array(z.unknown()).optional(), // Points to mark on the track, as values or `{ value, label }` objects. Labels are shown below the track.
+  valueTooltip: z.union([z.boolean(), DataReferenceSchema]).optional(), // Show the value above a thumb while it is dragged or focused with the keyboard.
+  label: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Label content for the slider (enables Field wrapper) - can be a string or any React node
+  labelTooltip: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Tooltip content to display next to the label via an info icon
+  description: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Helper text displayed below the slider
+  error: z.unknown().optional(), // Error message or validation error object
+  required: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the slider is required. When explicitly false, shows "(optional)" text after the label.
+  size: z.union([z.enum(["xs", "sm", "base", "lg"]), DataReferenceSchema]).optional(), // Slider size, matching the height of `Input` at the same size. - `"xs"` — Extra small for compact UIs - `"sm"` — Small for secondary fields - `"base"` — Default size - `"lg"` — Large for prominent fields
+  variant: z.union([z.enum(["default", "error"]), DataReferenceSchema]).optional(), // Visual variant. - `"default"` — Standard slider - `"error"` — Error state for validation failures
+  defaultValue: z.union([z.number(), DataReferenceSchema]).optional(), // Initial value for uncontrolled mode
+  onValueChange: z.unknown().optional(), // Callback when the value changes
+  min: z.union([z.number(), DataReferenceSchema]).optional(), // Minimum value of the slider (default: 0)
+  max: z.union([z.number(), DataReferenceSchema]).optional(), // Maximum value of the slider (default: 100)
+  step: z.union([z.number(), DataReferenceSchema]).optional(), // Step between values (default: 1)
+  disabled: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the slider ignores user interaction
+});
+
 export const SurfacePropsSchema = z.object({
   as: z.unknown().optional(), // The HTML element type to render as (e.g. `"div"`, `"section"`, `"article"`).
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Content rendered inside the surface.
 });
 
 export const SwitchPropsSchema = z.object({
-  variant: z.enum(["default", "error"]).optional(), // Visual variant: "default" or "error" for validation failures (visual only, no error text)
+  variant: z.union([z.enum(["default", "error"]), DataReferenceSchema]).optional(), // Visual variant: "default" or "error" for validation failures (visual only, no error text)
   label: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Label content for the switch (Field wrapper is built-in) - can be a string or any React node. Optional when used standalone for visual-only purposes.
   labelTooltip: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Tooltip content to display next to the label via an info icon
-  required: z.boolean().optional(), // Whether the switch is required. When explicitly false, shows "(optional)" text after the label.
-  controlFirst: z.boolean().optional(), // When true (default), switch appears before label. When false, label appears before switch.
-  size: z.enum(["sm", "base", "lg"]).optional(),
-  checked: z.boolean().optional(),
-  disabled: z.boolean().optional(),
-  transitioning: z.boolean().optional(),
-  name: z.string().optional(),
-  type: z.enum(["submit", "reset", "button"]).optional(),
+  required: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether the switch is required. When explicitly false, shows "(optional)" text after the label.
+  controlFirst: z.union([z.boolean(), DataReferenceSchema]).optional(), // When true (default), switch appears before label. When false, label appears before switch.
+  size: z.union([z.enum(["sm", "base", "lg"]), DataReferenceSchema]).optional(),
+  checked: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  disabled: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  transitioning: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  name: z.union([z.string(), DataReferenceSchema]).optional(),
+  type: z.union([z.enum(["submit", "reset", "button"]), DataReferenceSchema]).optional(),
   value: z.unknown().optional(),
-  className: z.string().optional(),
-  id: z.string().optional(),
-  lang: z.string().optional(),
-  title: z.string().optional(),
+  className: z.union([z.string(), DataReferenceSchema]).optional(),
+  id: z.union([z.string(), DataReferenceSchema]).optional(),
+  lang: z.union([z.string(), DataReferenceSchema]).optional(),
+  title: z.union([z.string(), DataReferenceSchema]).optional(),
   onClick: z.unknown(), // Callback when switch is clicked
 });
 
 export const TablePropsSchema = z.object({
-  layout: z.enum(["auto", "fixed"]).optional(),
-  variant: z.enum(["default", "selected"]).optional(),
-  className: z.string().optional(), // Additional CSS classes
+  layout: z.union([z.enum(["auto", "fixed"]), DataReferenceSchema]).optional(),
+  variant: z.union([z.enum(["default", "selected"]), DataReferenceSchema]).optional(),
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Child elements
 });
 
 export const TabsPropsSchema = z.object({
   tabs: z.array(z.unknown()).optional(), // Array of tab items to render.
-  value: z.string().optional(), // Controlled value. When set, component becomes controlled.
-  selectedValue: z.string().optional(), // Default selected value for uncontrolled mode. Ignored when `value` is set.
-  activateOnFocus: z.boolean().optional(), // When `true`, tabs are activated immediately upon receiving focus via arrow keys. When `false` (default), tabs receive focus but require Enter/Space to activate.
-  className: z.string().optional(), // Additional CSS classes for the root element.
-  listClassName: z.string().optional(), // Additional CSS classes for the tab list element.
-  indicatorClassName: z.string().optional(), // Additional CSS classes for the indicator element.
-  variant: z.enum(["segmented", "underline"]).optional(), // Tab style. - `"segmented"` — Pill-shaped indicator on a filled track - `"underline"` — Underline indicator below tab text
+  value: z.union([z.string(), DataReferenceSchema]).optional(), // Controlled value. When set, component becomes controlled.
+  selectedValue: z.union([z.string(), DataReferenceSchema]).optional(), // Default selected value for uncontrolled mode. Ignored when `value` is set.
+  activateOnFocus: z.union([z.boolean(), DataReferenceSchema]).optional(), // When `true`, tabs are activated immediately upon receiving focus via arrow keys. When `false` (default), tabs receive focus but require Enter/Space to activate.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes for the root element.
+  listClassName: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes for the tab list element.
+  indicatorClassName: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes for the indicator element.
+  variant: z.union([z.enum(["segmented", "underline"]), DataReferenceSchema]).optional(), // Tab style. - `"segmented"` — Pill-shaped indicator on a filled track - `"underline"` — Underline indicator below tab text
   onValueChange: z.unknown().optional(), // Callback when active tab changes
 });
 
 export const TextPropsSchema = z.object({
-  variant: z.enum(["heading1", "heading2", "heading3", "body", "secondary", "success", "error", "mono", "mono-secondary"]).optional(), // Text style variant. Determines color, font, and weight. - `"heading1"` — Large page title (30px, semibold) - `"heading2"` — Section title (24px, semibold) - `"heading3"` — Subsection title (18px, semibold) - `"body"` — Default body text - `"secondary"` — Muted text for secondary information - `"success"` — Success state text - `"error"` — Error state text - `"mono"` — Monospace text for code - `"mono-secondary"` — Muted monospace text
-  size: z.enum(["xs", "sm", "base", "lg"]).optional(), // Text size (only applies to body/secondary/success/error variants). - `"xs"` — 12px - `"sm"` — 14px - `"base"` — 16px - `"lg"` — 18px
-  bold: z.boolean().optional(), // Whether to use bold font weight (only applies to body variants).
+  variant: z.union([z.enum(["heading1", "heading2", "heading3", "body", "secondary", "success", "error", "mono", "mono-secondary"]), DataReferenceSchema]).optional(), // Text style variant. Determines color, font, and weight. - `"heading1"` — Large page title (30px, semibold) - `"heading2"` — Section title (24px, semibold) - `"heading3"` — Subsection title (18px, semibold) - `"body"` — Default body text - `"secondary"` — Muted text for secondary information - `"success"` — Success state text - `"error"` — Error state text - `"mono"` — Monospace text for code - `"mono-secondary"` — Muted monospace text
+  size: z.union([z.enum(["xs", "sm", "base", "lg"]), DataReferenceSchema]).optional(), // Text size (only applies to body/secondary/success/error variants). - `"xs"` — 12px - `"sm"` — 14px - `"base"` — 16px - `"lg"` — 18px
+  bold: z.union([z.boolean(), DataReferenceSchema]).optional(), // Whether to use bold font weight (only applies to body variants).
   as: z.unknown().optional(), // The HTML element type to render as (e.g. `"span"`, `"p"`, `"h1"`). Auto-selected based on variant if omitted.
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Text content.
 });
 
 export const ToastyPropsSchema = z.object({
-  variant: z.enum(["default", "error", "warning"]).optional(),
-  className: z.string().optional(), // Additional CSS classes
+  variant: z.union([z.enum(["default", "error", "warning"]), DataReferenceSchema]).optional(),
+  placement: z.union([z.enum(["top-left", "top-center", "top-right", "bottom-left", "bottom-center", "bottom-right"]), DataReferenceSchema]).optional(),
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes
   children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(), // Child elements
 });
 
 export const TooltipPropsSchema = z.object({
-  align: z.enum(["start", "center", "end"]).optional(), // Alignment on the axis perpendicular to `side`. - `"start"` — Align to the start edge - `"center"` — Center-aligned - `"end"` — Align to the end edge
-  asChild: z.boolean().optional(), // When `true`, the trigger wraps the child element instead of adding a wrapper.
-  className: z.string().optional(), // Additional CSS classes merged via `cn()`.
-  side: z.enum(["top", "bottom", "left", "right"]).optional(), // Preferred side of the trigger to render the tooltip. - `"top"` — Tooltip appears above the trigger - `"bottom"` — Tooltip appears below the trigger - `"left"` — Tooltip appears to the left of the trigger - `"right"` — Tooltip appears to the right of the trigger
+  align: z.union([z.enum(["start", "center", "end"]), DataReferenceSchema]).optional(), // Alignment on the axis perpendicular to `side`. - `"start"` — Align to the start edge - `"center"` — Center-aligned - `"end"` — Align to the end edge
+  asChild: z.union([z.boolean(), DataReferenceSchema]).optional(), // When `true`, the trigger wraps the child element instead of adding a wrapper.
+  className: z.union([z.string(), DataReferenceSchema]).optional(), // Additional CSS classes merged via `cn()`.
+  side: z.union([z.enum(["top", "bottom", "left", "right"]), DataReferenceSchema]).optional(), // Preferred side of the trigger to render the tooltip. - `"top"` — Tooltip appears above the trigger - `"bottom"` — Tooltip appears below the trigger - `"left"` — Tooltip appears to the left of the trigger - `"right"` — Tooltip appears to the right of the trigger
   content: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]), // Content to display in the tooltip
 });
 
+export const BreadcrumbsLinkPropsSchema = z.object({
+  href: z.union([z.string(), DataReferenceSchema]),
+  icon: z.unknown().optional(),
+});
+
+export const BreadcrumbsCurrentPropsSchema = z.object({
+  loading: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  icon: z.unknown().optional(),
+});
+
+export const BreadcrumbsSeparatorPropsSchema = z.object({});
+
+export const BreadcrumbsClipboardPropsSchema = z.object({
+  text: z.union([z.string(), DataReferenceSchema]),
+});
+
+export const CheckboxItemPropsSchema = z.object({});
+
+export const CheckboxGroupPropsSchema = z.object({
+  legend: z.union([z.string(), DataReferenceSchema]),
+  children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]),
+  error: z.union([z.string(), DataReferenceSchema]).optional(),
+  description: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(),
+  value: z.array(z.string()).optional(),
+  allValues: z.array(z.string()).optional(),
+  disabled: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  controlFirst: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  className: z.union([z.string(), DataReferenceSchema]).optional(),
+});
+
+export const CodeBlockPropsSchema = z.object({
+  code: z.union([z.string(), DataReferenceSchema]),
+  lang: z.unknown().optional(),
+  lineNumbers: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  highlightLines: z.union([z.string(), DataReferenceSchema]).optional(),
+  diff: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  copyable: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  filename: z.union([z.string(), DataReferenceSchema]).optional(),
+  files: z.array(z.unknown()).optional(),
+  wrap: z.unknown().optional(),
+  maxHeight: z.unknown().optional(),
+  className: z.union([z.string(), DataReferenceSchema]).optional(),
+});
+
+export const ComboboxContentPropsSchema = z.object({
+  className: z.union([z.string(), DataReferenceSchema]).optional(),
+  align: z.unknown().optional(),
+  alignOffset: z.unknown().optional(),
+  side: z.unknown().optional(),
+  sideOffset: z.unknown().optional(),
+});
+
+export const ComboboxTriggerValuePropsSchema = z.object({});
+
+export const ComboboxTriggerInputPropsSchema = z.object({});
+
+export const ComboboxTriggerMultipleWithInputPropsSchema = z.object({});
+
+export const ComboboxChipPropsSchema = z.object({});
+
+export const ComboboxItemPropsSchema = z.object({});
+
+export const ComboboxInputPropsSchema = z.object({});
+
+export const ComboboxEmptyPropsSchema = z.object({});
+
+export const ComboboxGroupLabelPropsSchema = z.object({});
+
+export const ComboboxGroupPropsSchema = z.object({});
+
+export const ComboboxListPropsSchema = z.object({});
+
+export const ComboboxCollectionPropsSchema = z.object({
+  children: z.unknown(), // Function that receives each filtered item and returns a node
+});
+
+export const DialogRootPropsSchema = z.object({});
+
+export const DialogTriggerPropsSchema = z.object({});
+
+export const DialogTitlePropsSchema = z.object({});
+
+export const DialogDescriptionPropsSchema = z.object({});
+
+export const DialogClosePropsSchema = z.object({});
+
+export const DropdownMenuTriggerPropsSchema = z.object({});
+
+export const DropdownMenuPortalPropsSchema = z.object({});
+
+export const DropdownMenuSubPropsSchema = z.object({});
+
+export const DropdownMenuSubTriggerPropsSchema = z.object({});
+
+export const DropdownMenuSubContentPropsSchema = z.object({});
+
+export const DropdownMenuContentPropsSchema = z.object({});
+
+export const DropdownMenuItemPropsSchema = z.object({});
+
+export const DropdownMenuLinkItemPropsSchema = z.object({});
+
+export const DropdownMenuCheckboxItemPropsSchema = z.object({});
+
+export const DropdownMenuRadioGroupPropsSchema = z.object({});
+
+export const DropdownMenuRadioItemPropsSchema = z.object({});
+
+export const DropdownMenuRadioItemIndicatorPropsSchema = z.object({});
+
+export const DropdownMenuLabelPropsSchema = z.object({});
+
+export const DropdownMenuSeparatorPropsSchema = z.object({});
+
+export const DropdownMenuShortcutPropsSchema = z.object({});
+
+export const DropdownMenuGroupPropsSchema = z.object({});
+
+export const LayerCardPrimaryPropsSchema = z.object({});
+
+export const LayerCardSecondaryPropsSchema = z.object({});
+
+export const LinkExternalIconPropsSchema = z.object({});
+
+export const PaginationInfoPropsSchema = z.object({
+  children: z.unknown().optional(),
+  page: z.union([z.number(), DataReferenceSchema]),
+  perPage: z.union([z.number(), DataReferenceSchema]).optional(),
+  totalCount: z.union([z.number(), DataReferenceSchema]).optional(),
+  pageShowingRange: z.union([z.string(), DataReferenceSchema]),
+});
+
+export const PaginationPageSizePropsSchema = z.object({
+  value: z.union([z.number(), DataReferenceSchema]),
+  options: z.array(z.unknown()).optional(),
+  label: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(),
+  className: z.union([z.string(), DataReferenceSchema]).optional(),
+});
+
+export const PaginationControlsPropsSchema = z.object({
+  className: z.union([z.string(), DataReferenceSchema]).optional(),
+});
+
+export const PaginationSeparatorPropsSchema = z.object({
+  className: z.union([z.string(), DataReferenceSchema]).optional(),
+});
+
+export const PopoverTriggerPropsSchema = z.object({});
+
+export const PopoverContentPropsSchema = z.object({});
+
+export const PopoverTitlePropsSchema = z.object({});
+
+export const PopoverDescriptionPropsSchema = z.object({});
+
+export const PopoverClosePropsSchema = z.object({});
+
+export const SelectOptionPropsSchema = z.object({});
+
+export const SwitchItemPropsSchema = z.object({});
+
+export const SwitchGroupPropsSchema = z.object({
+  legend: z.union([z.string(), DataReferenceSchema]),
+  children: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]),
+  error: z.union([z.string(), DataReferenceSchema]).optional(),
+  description: z.union([z.string(), z.number(), z.boolean(), z.null(), DynamicValueSchema]).optional(),
+  disabled: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  controlFirst: z.union([z.boolean(), DataReferenceSchema]).optional(),
+  className: z.union([z.string(), DataReferenceSchema]).optional(),
+});
+
+export const TableHeaderPropsSchema = z.object({});
+
+export const TableHeadPropsSchema = z.object({});
+
+export const TableRowPropsSchema = z.object({});
+
+export const TableBodyPropsSchema = z.object({});
+
+export const TableCellPropsSchema = z.object({});
+
+export const TableCheckCellPropsSchema = z.object({});
+
+export const TableCheckHeadPropsSchema = z.object({});
+
+export const TableExpandCellPropsSchema = z.object({});
+
+export const TableDetailRowPropsSchema = z.object({});
+
+export const TableGroupRowPropsSchema = z.object({});
+
+export const TableFooterPropsSchema = z.object({});
+
+export const TableResizeHandlePropsSchema = z.object({});
+
+export const TableColumnVisibilityMenuPropsSchema = z.object({});
+
 // =============================================================================
 // Component Type Union
 // =============================================================================
@@ -731,7 +1075,7 @@ export const TooltipPropsSchema = z.object({
 /**
  * All valid component type names
  */
-export type KumoComponentType = "Badge" | "Banner" | "Breadcrumbs" | "Button" | "Checkbox" | "ClipboardText" | "CloudflareLogo" | "Code" | "Collapsible" | "Combobox" | "CommandPalette" | "DatePicker" | "DateRangePicker" | "Dialog" | "DropdownMenu" | "Empty" | "Field" | "Grid" | "Input" | "InputArea" | "Label" | "LayerCard" | "Link" | "Loader" | "MenuBar" | "Meter" | "Pagination" | "Popover" | "Radio" | "Select" | "SensitiveInput" | "Surface" | "Switch" | "Table" | "Tabs" | "Text" | "Toasty" | "Tooltip";
+export type KumoComponentType = "Badge" | "Banner" | "Breadcrumbs" | "Button" | "Checkbox" | "ClipboardText" | "CloudflareLogo" | "Code" | "Collapsible" | "Combobox" | "CommandPalette" | "DataTable" | "DatePicker" | "DateRangePicker" | "Dialog" | "DropdownMenu" | "Empty" | "Field" | "Grid" | "Input" | "InputArea" | "Label" | "LayerCard" | "Link" | "Loader" | "MenuBar" | "Meter" | "Pagination" | "Popover" | "Radio" | "RangeSlider" | "Select" | "SensitiveInput" | "Slider" | "Surface" | "Switch" | "Table" | "Tabs" | "Text" | "Toasty" | "Tooltip" | "Breadcrumbs.Link" | "Breadcrumbs.Current" | "Breadcrumbs.Separator" | "Breadcrumbs.Clipboard" | "Checkbox.Item" | "Checkbox.Group" | "Code.Block" | "Combobox.Content" | "Combobox.TriggerValue" | "Combobox.TriggerInput" | "Combobox.TriggerMultipleWithInput" | "Combobox.Chip" | "Combobox.Item" | "Combobox.Input" | "Combobox.Empty" | "Combobox.GroupLabel" | "Combobox.Group" | "Combobox.List" | "Combobox.Collection" | "Dialog.Root" | "Dialog.Trigger" | "Dialog.Title" | "Dialog.Description" | "Dialog.Close" | "DropdownMenu.Trigger" | "DropdownMenu.Portal" | "DropdownMenu.Sub" | "DropdownMenu.SubTrigger" | "DropdownMenu.SubContent" | "DropdownMenu.Content" | "DropdownMenu.Item" | "DropdownMenu.LinkItem" | "DropdownMenu.CheckboxItem" | "DropdownMenu.RadioGroup" | "DropdownMenu.RadioItem" | "DropdownMenu.RadioItemIndicator" | "DropdownMenu.Label" | "DropdownMenu.Separator" | "DropdownMenu.Shortcut" | "DropdownMenu.Group" | "LayerCard.Primary" | "LayerCard.Secondary" | "Link.ExternalIcon" | "Pagination.Info" | "Pagination.PageSize" | "Pagination.Controls" | "Pagination.Separator" | "Popover.Trigger" | "Popover.Content" | "Popover.Title" | "Popover.Description" | "Popover.Close" | "Select.Option" | "Switch.Item" | "Switch.Group" | "Table.Header" | "Table.Head" | "Table.Row" | "Table.Body" | "Table.Cell" | "Table.CheckCell" | "Table.CheckHead" | "Table.ExpandCell" | "Table.DetailRow" | "Table.GroupRow" | "Table.Footer" | "Table.ResizeHandle" | "Table.ColumnVisibilityMenu";
 
 export const KumoComponentTypeSchema = z.enum([
   "Badge",
@@ -745,6 +1089,7 @@ export const KumoComponentTypeSchema = z.enum([
   "Collapsible",
   "Combobox",
   "CommandPalette",
+  "DataTable",
   "DatePicker",
   "DateRangePicker",
   "Dialog",
@@ -763,8 +1108,10 @@ export const KumoComponentTypeSchema = z.enum([
   "Pagination",
   "Popover",
   "Radio",
+  "RangeSlider",
   "Select",
   "SensitiveInput",
+  "Slider",
   "Surface",
   "Switch",
   "Table",
@@ -772,6 +1119,74 @@ export const KumoComponentTypeSchema = z.enum([
   "Text",
   "Toasty",
   "Tooltip",
+  "Breadcrumbs.Link",
+  "Breadcrumbs.Current",
+  "Breadcrumbs.Separator",
+  "Breadcrumbs.Clipboard",
+  "Checkbox.Item",
+  "Checkbox.Group",
+  "Code.Block",
+  "Combobox.Content",
+  "Combobox.TriggerValue",
+  "Combobox.TriggerInput",
+  "Combobox.TriggerMultipleWithInput",
+  "Combobox.Chip",
+  "Combobox.Item",
+  "Combobox.Input",
+  "Combobox.Empty",
+  "Combobox.GroupLabel",
+  "Combobox.Group",
+  "Combobox.List",
+  "Combobox.Collection",
+  "Dialog.Root",
+  "Dialog.Trigger",
+  "Dialog.Title",
+  "Dialog.Description",
+  "Dialog.Close",
+  "DropdownMenu.Trigger",
+  "DropdownMenu.Portal",
+  "DropdownMenu.Sub",
+  "DropdownMenu.SubTrigger",
+  "DropdownMenu.SubContent",
+  "DropdownMenu.Content",
+  "DropdownMenu.Item",
+  "DropdownMenu.LinkItem",
+  "DropdownMenu.CheckboxItem",
+  "DropdownMenu.RadioGroup",
+  "DropdownMenu.RadioItem",
+  "DropdownMenu.RadioItemIndicator",
+  "DropdownMenu.Label",
+  "DropdownMenu.Separator",
+  "DropdownMenu.Shortcut",
+  "DropdownMenu.Group",
+  "LayerCard.Primary",
+  "LayerCard.Secondary",
+  "Link.ExternalIcon",
+  "Pagination.Info",
+  "Pagination.PageSize",
+  "Pagination.Controls",
+  "Pagination.Separator",
+  "Popover.Trigger",
+  "Popover.Content",
+  "Popover.Title",
+  "Popover.Description",
+  "Popover.Close",
+  "Select.Option",
+  "Switch.Item",
+  "Switch.Group",
+  "Table.Header",
+  "Table.Head",
+  "Table.Row",
+  "Table.Body",
+  "Table.Cell",
+  "Table.CheckCell",
+  "Table.CheckHead",
+  "Table.ExpandCell",
+  "Table.DetailRow",
+  "Table.GroupRow",
+  "Table.Footer",
+  "Table.ResizeHandle",
+  "Table.ColumnVisibilityMenu",
 ]);
 
 /**
@@ -789,6 +1204,7 @@ export const ComponentPropsSchemas = {
   Collapsible: CollapsiblePropsSchema,
   Combobox: ComboboxPropsSchema,
   CommandPalette: CommandPalettePropsSchema,
+  DataTable: DataTablePropsSchema,
   DatePicker: DatePickerPropsSchema,
   DateRangePicker: DateRangePickerPropsSchema,
   Dialog: DialogPropsSchema,
@@ -807,8 +1223,10 @@ export const ComponentPropsSchemas = {
   Pagination: PaginationPropsSchema,
   Popover: PopoverPropsSchema,
   Radio: RadioPropsSchema,
+  RangeSlider: RangeSliderPropsSchema,
   Select: SelectPropsSchema,
   SensitiveInput: SensitiveInputPropsSchema,
+  Slider: SliderPropsSchema,
   Surface: SurfacePropsSchema,
   Switch: SwitchPropsSchema,
   Table: TablePropsSchema,
@@ -816,6 +1234,74 @@ export const ComponentPropsSchemas = {
   Text: TextPropsSchema,
   Toasty: ToastyPropsSchema,
   Tooltip: TooltipPropsSchema,
+  "Breadcrumbs.Link": BreadcrumbsLinkPropsSchema,
+  "Breadcrumbs.Current": BreadcrumbsCurrentPropsSchema,
+  "Breadcrumbs.Separator": BreadcrumbsSeparatorPropsSchema,
+  "Breadcrumbs.Clipboard": BreadcrumbsClipboardPropsSchema,
+  "Checkbox.Item": CheckboxItemPropsSchema,
+  "Checkbox.Group": CheckboxGroupPropsSchema,
+  "Code.Block": CodeBlockPropsSchema,
+  "Combobox.Content": ComboboxContentPropsSchema,
+  "Combobox.TriggerValue": ComboboxTriggerValuePropsSchema,
+  "Combobox.TriggerInput": ComboboxTriggerInputPropsSchema,
+  "Combobox.TriggerMultipleWithInput": ComboboxTriggerMultipleWithInputPropsSchema,
+  "Combobox.Chip": ComboboxChipPropsSchema,
+  "Combobox.Item": ComboboxItemPropsSchema,
+  "Combobox.Input": ComboboxInputPropsSchema,
+  "Combobox.Empty": ComboboxEmptyPropsSchema,
+  "Combobox.GroupLabel": ComboboxGroupLabelPropsSchema,
+  "Combobox.Group": ComboboxGroupPropsSchema,
+  "Combobox.List": ComboboxListPropsSchema,
+  "Combobox.Collection": ComboboxCollectionPropsSchema,
+  "Dialog.Root": DialogRootPropsSchema,
+  "Dialog.Trigger": DialogTriggerPropsSchema,
+  "Dialog.Title": DialogTitlePropsSchema,
+  "Dialog.Description": DialogDescriptionPropsSchema,
+  "Dialog.Close": DialogClosePropsSchema,
+  "DropdownMenu.Trigger": DropdownMenuTriggerPropsSchema,
+  "DropdownMenu.Portal": DropdownMenuPortalPropsSchema,
+  "DropdownMenu.Sub": DropdownMenuSubPropsSchema,
+  "DropdownMenu.SubTrigger": DropdownMenuSubTriggerPropsSchema,
+  "DropdownMenu.SubContent": DropdownMenuSubContentPropsSchema,
+  "DropdownMenu.Content": DropdownMenuContentPropsSchema,
+  "DropdownMenu.Item": DropdownMenuItemPropsSchema,
+  "DropdownMenu.LinkItem": DropdownMenuLinkItemPropsSchema,
+  "DropdownMenu.CheckboxItem": DropdownMenuCheckboxItemPropsSchema,
+  "DropdownMenu.RadioGroup": DropdownMenuRadioGroupPropsSchema,
+  "DropdownMenu.RadioItem": DropdownMenuRadioItemPropsSchema,
+  "DropdownMenu.RadioItemIndicator": DropdownMenuRadioItemIndicatorPropsSchema,
+  "DropdownMenu.Label": DropdownMenuLabelPropsSchema,
+  "DropdownMenu.Separator": DropdownMenuSeparatorPropsSchema,
+  "DropdownMenu.Shortcut": DropdownMenuShortcutPropsSchema,
+  "DropdownMenu.Group": DropdownMenuGroupPropsSchema,
+  "LayerCard.Primary": LayerCardPrimaryPropsSchema,
+  "LayerCard.Secondary": LayerCardSecondaryPropsSchema,
+  "Link.ExternalIcon": LinkExternalIconPropsSchema,
+  "Pagination.Info": PaginationInfoPropsSchema,
+  "Pagination.PageSize": PaginationPageSizePropsSchema,
+  "Pagination.Controls": PaginationControlsPropsSchema,
+  "Pagination.Separator": PaginationSeparatorPropsSchema,
+  "Popover.Trigger": PopoverTriggerPropsSchema,
+  "Popover.Content": PopoverContentPropsSchema,
+  "Popover.Title": PopoverTitlePropsSchema,
+  "Popover.Description": PopoverDescriptionPropsSchema,
+  "Popover.Close": PopoverClosePropsSchema,
+  "Select.Option": SelectOptionPropsSchema,
+  "Switch.Item": SwitchItemPropsSchema,
+  "Switch.Group": SwitchGroupPropsSchema,
+  "Table.Header": TableHeaderPropsSchema,
+  "Table.Head": TableHeadPropsSchema,
+  "Table.Row": TableRowPropsSchema,
+  "Table.Body": TableBodyPropsSchema,
+  "Table.Cell": TableCellPropsSchema,
+  "Table.CheckCell": TableCheckCellPropsSchema,
+  "Table.CheckHead": TableCheckHeadPropsSchema,
+  "Table.ExpandCell": TableExpandCellPropsSchema,
+  "Table.DetailRow": TableDetailRowPropsSchema,
+  "Table.GroupRow": TableGroupRowPropsSchema,
+  "Table.Footer": TableFooterPropsSchema,
+  "Table.ResizeHandle": TableResizeHandlePropsSchema,
+  "Table.ColumnVisibilityMenu": TableColumnVisibilityMenuPropsSchema,
 } as const;
 
 // =============================================================================
@@ -833,6 +1319,7 @@ export const UIElementBaseSchema = z.object({
   parentKey: z.string().nullable().optional(),
   visible: VisibilityConditionSchema.optional(),
   action: ActionSchema.optional(),
+  repeat: z.object({ path: z.string(), key: z.string().optional() }).optional(),
 });
 
 export type UIElement = z.infer<typeof UIElementBaseSchema>;
@@ -872,4 +1359,9 @@ export function validateUITree(tree: unknown): SafeParseResult<UITree> {
 /**
  * List of all component names (for catalog generation)
  */
-export const KUMO_COMPONENT_NAMES = ["Badge", "Banner", "Breadcrumbs", "Button", "Checkbox", "ClipboardText", "CloudflareLogo", "Code", "Collapsible", "Combobox", "CommandPalette", "DatePicker", "DateRangePicker", "Dialog", "DropdownMenu", "Empty", "Field", "Grid", "Input", "InputArea", "Label", "LayerCard", "Link", "Loader", "MenuBar", "Meter", "Pagination", "Popover", "Radio", "Select", "SensitiveInput", "Surface", "Switch", "Table", "Tabs", "Text", "Toasty", "Tooltip"] as const;
+export const KUMO_COMPONENT_NAMES = ["Badge", "Banner", "Breadcrumbs", "Button", "Checkbox", "ClipboardText", "CloudflareLogo", "Code", "Collapsible", "Combobox", "CommandPalette", "DataTable", "DatePicker", "DateRangePicker", "Dialog", "DropdownMenu", "Empty", "Field", "Grid", "Input", "InputArea", "Label", "LayerCard", "Link", "Loader", "MenuBar", "Meter", "Pagination", "Popover", "Radio", "RangeSlider", "Select", "SensitiveInput", "Slider", "Surface", "Switch", "Table", "Tabs", "Text", "Toasty", "Tooltip"] as const;
+
+/**
+ * List of all sub-component types (e.g. "Table.Row")
+ */
+export const KUMO_SUB_COMPONENT_NAMES = ["Breadcrumbs.Link", "Breadcrumbs.Current", "Breadcrumbs.Separator", "Breadcrumbs.Clipboard", "Checkbox.Item", "Checkbox.Group", "Code.Block", "Combobox.Content", "Combobox.TriggerValue", "Combobox.TriggerInput", "Combobox.TriggerMultipleWithInput", "Combobox.Chip", "Combobox.Item", "Combobox.Input", "Combobox.Empty", "Combobox.GroupLabel", "Combobox.Group", "Combobox.List", "Combobox.Collection", "Dialog.Root", "Dialog.Trigger", "Dialog.Title", "Dialog.Description", "Dialog.Close", "DropdownMenu.Trigger", "DropdownMenu.Portal", "DropdownMenu.Sub", "DropdownMenu.SubTrigger", "DropdownMenu.SubContent", "DropdownMenu.Content", "DropdownMenu.Item", "DropdownMenu.LinkItem", "DropdownMenu.CheckboxItem", "DropdownMenu.RadioGroup", "DropdownMenu.RadioItem", "DropdownMenu.RadioItemIndicator", "DropdownMenu.Label", "DropdownMenu.Separator", "DropdownMenu.Shortcut", "DropdownMenu.Group", "LayerCard.Primary", "LayerCard.Secondary", "Link.ExternalIcon", "Pagination.Info", "Pagination.PageSize", "Pagination.Controls", "Pagination.Separator", "Popover.Trigger", "Popover.Content", "Popover.Title", "Popover.Description", "Popover.Close", "Select.Option", "Switch.Item", "Switch.Group", "Table.Header", "Table.Head", "Table.Row", "Table.Body", "Table.Cell", "Table.CheckCell", "Table.CheckHead", "Table.ExpandCell", "Table.DetailRow", "Table.GroupRow", "Table.Footer", "Table.ResizeHandle", "Table.ColumnVisibilityMenu"] as const;
@@ -36,6 +36,7 @@ export const CATEGORY_MAP: Record<string, string> = {
   breadcrumbs: "Display",
   code: "Display",
   collapsible: "Display",
+  "data-table": "Display",
   empty: "Display",
   "layer-card": "Display",
   meter: "Display",
@@ -51,7 +52,9 @@ export const CATEGORY_MAP: Record<string, string> = {
   field: "Input",
   input: "Input",
   radio: "Input",
+  "range-slider": "Input",
   select: "Input",
+  slider: "Input",
   switch: "Input",
   // Layout
   grid: "Layout",
@@ -288,9 +291,9 @@ export function extractDescription(
     const content = readFileSync(filePath, "utf-8");
 
     // First, find the position of the component declaration
-    // Handles: export function X, export const X =, function X(
+    // Handles: export function X, export const X =, function X(, function X<T>(
     const componentDeclPattern = new RegExp(
-      `(?:export\\s+)?(?:function|const)\\s+${componentName}\\s*(?:=|\\()`,
+      `(?:export\\s+)?(?:function|const)\\s+${componentName}\\s*(?:<[^(]*>\\s*)?(?:=|\\()`,
     );
     const componentMatch = content.match(componentDeclPattern);
 
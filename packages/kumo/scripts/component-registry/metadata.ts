@@ -187,6 +187,62 @@ export const ADDITIONAL_COMPONENT_PROPS: Record<
       description: "Minimum value of the meter (default: 0)",
     },
   },
+  Slider: {
+    defaultValue: {
+      type: "number",
+      description: "Initial value for uncontrolled mode",
+    },
+    onValueChange: {
+      type: "(value: number) => void",
+      description: "Callback when the value changes",
+    },
+    min: {
+      type: "number",
+      description: "Minimum value of the slider (default: 0)",
+    },
+    max: {
+      type: "number",
+      description: "Maximum value of the slider (default: 100)",
+    },
+    step: {
+      type: "number",
+      description: "Step between values (default: 1)",
+    },
+    disabled: {
+      type: "boolean",
+      description: "Whether the slider ignores user interaction",
+    },
+  },
+  RangeSlider: {
+    defaultValue: {
+      type: "[number, number]",
+      description: "Initial start and end values for uncontrolled mode",
+    },
+    onValueChange: {
+      type: "(value: [number, number]) => void",
+      description: "Callback when the start or end value changes",
+    },
+    min: {
+      type: "number",
+      description: "Minimum value of the slider (default: 0)",
+    },
+    max: {
+      type: "number",
+      description: "Maximum value of the slider (default: 100)",
+    },
+    step: {
+      type: "number",
+      description: "Step between values (default: 1)",
+    },
+    minStepsBetweenValues: {
+      type: "number",
+      description: "Minimum number of steps between the thumbs (default: 0)",
+    },
+    disabled: {
+      type: "boolean",
+      description: "Whether the slider ignores user interaction",
+    },
+  },
   Tooltip: {
     content: {
       type: "ReactNode",
@@ -318,7 +374,12 @@ export const COMPONENT_STYLING_METADATA: Record<string, ComponentStyling> = {
     ],
   },
   ClipboardText: {
-    baseTokens: ["bg-kumo-base", "text-kumo-default", "ring-kumo-line", "border-kumo-fill"],
+    baseTokens: [
+      "bg-kumo-base",
+      "text-kumo-default",
+      "ring-kumo-line",
+      "border-kumo-fill",
+    ],
     states: {
       input: ["bg-kumo-control", "text-kumo-default", "ring-kumo-line"],
       text: ["bg-kumo-base", "font-mono"],
@@ -403,7 +464,12 @@ export const COMPONENT_STYLING_METADATA: Record<string, ComponentStyling> = {
     },
   },
   Input: {
-    baseTokens: ["bg-kumo-control", "text-kumo-default", "text-kumo-subtle", "ring-kumo-line"],
+    baseTokens: [
+      "bg-kumo-control",
+      "text-kumo-default",
+      "text-kumo-subtle",
+      "ring-kumo-line",
+    ],
     sizeVariants: {
       xs: {
         height: 20,
@@ -473,7 +539,12 @@ export const COMPONENT_STYLING_METADATA: Record<string, ComponentStyling> = {
     },
   },
   Dialog: {
-    baseTokens: ["bg-kumo-base", "text-kumo-default", "border-kumo-line", "shadow-m"],
+    baseTokens: [
+      "bg-kumo-base",
+      "text-kumo-default",
+      "border-kumo-line",
+      "shadow-m",
+    ],
     sizeVariants: {
       sm: {
         height: 0, // Dialog height is auto (content-driven)
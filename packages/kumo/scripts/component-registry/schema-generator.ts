@@ -50,6 +50,11 @@ function propTypeToZod(prop: PropSchema): string {
     zodType = "z.unknown()";
   }
 
+  // Literal props may also read ({ path }) or bind ({ bind }) data model values
+  if (["enum", "string", "number", "boolean"].includes(type)) {
+    zodType = `z.union([${zodType}, DataReferenceSchema])`;
+  }
+
   // Make optional if not required
   if (optional || !required) {
     zodType = `${zodType}.optional()`;
@@ -59,11 +64,11 @@ function propTypeToZod(prop: PropSchema): string {
 }
 
 /**
- * Generate Zod schema for a single component's props
+ * Generate Zod schema for a single component's (or sub-component's) props
  */
 function generateComponentPropsSchema(
   componentName: string,
-  schema: ComponentSchema,
+  schema: Pick<ComponentSchema, "props">,
 ): string {
   const propsEntries = Object.entries(schema.props);
 
@@ -92,6 +97,17 @@ ${propsLines.join("\n")}
 export function generateSchemasFile(registry: ComponentRegistry): string {
   const componentNames = Object.keys(registry.components).sort();
 
+  // Compound parts (e.g. "Table.Row") are valid element types too
+  const subComponents = componentNames.flatMap((name) =>
+    Object.values(registry.components[name].subComponents ?? {}).map((sub) => ({
+      type: `${name}.${sub.name}`,
+      schemaName: `${name}${sub.name}`,
+      schema: sub,
+    })),
+  );
+  const subComponentNames = subComponents.map((sub) => sub.type);
+  const typeNames = [...componentNames, ...subComponentNames];
+
   const lines: string[] = [
     "/**",
     " * Auto-generated Zod schemas for Kumo components",
@@ -125,6 +141,16 @@ export function generateSchemasFile(registry: ComponentRegistry): string {
     "",
     "export type DynamicValue<T = unknown> = T | { path: string };",
     "",
+    "/**",
+    " * Data model reference in place of a literal prop value.",
+    " * { path } reads a value; { bind } also writes form edits back to it.",
+    ' * Example: { path: "/user/name" } or { bind: "/form/email" }',
+    " */",
+    "export const DataReferenceSchema = z.union([",
+    "  z.object({ path: z.string() }),",
+    "  z.object({ bind: z.string() }),",
+    "]);",
+    "",
     "// =============================================================================",
     "// Visibility Condition Schemas",
     "// =============================================================================",
@@ -134,19 +160,56 @@ export function generateSchemasFile(registry: ComponentRegistry): string {
     " * Components can be shown/hidden based on data, auth, or logic expressions.",
     " */",
     "",
+    "/**",
+    " * Comparison operand: a dynamic value, a list of literals (for `in`),",
+    " * the length of a dynamic value, or arithmetic on two operands.",
+    ' * Example: ["active", "pending"] or { sub: [{ path: "/quota" }, { length: { path: "/items" } }] }',
+    " */",
+    "export type Operand =",
+    "  | DynamicValue",
+    "  | (string | number | boolean | null)[]",
+    "  | { length: DynamicValue }",
+    "  | { add: [Operand, Operand] }",
+    "  | { sub: [Operand, Operand] }",
+    "  | { mul: [Operand, Operand] }",
+    "  | { div: [Operand, Operand] }",
+    "  | { mod: [Operand, Operand] };",
+    "",
+    "// Lazy schema for recursive arithmetic operands",
+    "export const OperandSchema: z.ZodType<Operand> = z.lazy(() =>",
+    "  z.union([",
+    "    DynamicValueSchema,",
+    "    z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])),",
+    "    z.object({ length: DynamicValueSchema }),",
+    "    z.object({ add: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ sub: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ mul: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ div: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ mod: z.tuple([OperandSchema, OperandSchema]) }),",
+    "  ])",
+    ");",
+    "",
     "// Forward declaration for recursive types",
-    "// Note: Numeric comparisons use DynamicValue (not DynamicValue<number>) for Zod compatibility",
+    "// Note: Numeric comparisons use Operand (not DynamicValue<number>) for Zod compatibility",
     "export type LogicExpression =",
     "  | { and: LogicExpression[] }",
     "  | { or: LogicExpression[] }",
     "  | { not: LogicExpression }",
     "  | { path: string }",
-    "  | { eq: [DynamicValue, DynamicValue] }",
-    "  | { neq: [DynamicValue, DynamicValue] }",
-    "  | { gt: [DynamicValue, DynamicValue] }",
-    "  | { gte: [DynamicValue, DynamicValue] }",
-    "  | { lt: [DynamicValue, DynamicValue] }",
-    "  | { lte: [DynamicValue, DynamicValue] };",
+    "  | { eq: [Operand, Operand] }",
+    "  | { neq: [Operand, Operand] }",
+    "  | { gt: [Operand, Operand] }",
+    "  | { gte: [Operand, Operand] }",
+    "  | { lt: [Operand, Operand] }",
+    "  | { lte: [Operand, Operand] }",
+    "  | { in: [Operand, Operand] }",
+    "  | { contains: [Operand, Operand] }",
+    "  | { startsWith: [Operand, Operand] }",
+    "  | { matches: [Operand, string] }",
+    "  | { isEmpty: string }",
+    "  | { exists: string }",
+    "  | { role: string | string[] }",
+    "  | { permission: string | string[] };",
     "",
     "// Lazy schema for recursive logic expressions",
     "const LogicExpressionSchema: z.ZodType<LogicExpression> = z.lazy(() =>",
@@ -155,12 +218,20 @@ export function generateSchemasFile(registry: ComponentRegistry): string {
     "    z.object({ or: z.array(LogicExpressionSchema) }),",
     "    z.object({ not: LogicExpressionSchema }),",
     "    z.object({ path: z.string() }),",
-    "    z.object({ eq: z.tuple([DynamicValueSchema, DynamicValueSchema]) }),",
-    "    z.object({ neq: z.tuple([DynamicValueSchema, DynamicValueSchema]) }),",
-    "    z.object({ gt: z.tuple([DynamicValueSchema, DynamicValueSchema]) }),",
-    "    z.object({ gte: z.tuple([DynamicValueSchema, DynamicValueSchema]) }),",
-    "    z.object({ lt: z.tuple([DynamicValueSchema, DynamicValueSchema]) }),",
-    "    z.object({ lte: z.tuple([DynamicValueSchema, DynamicValueSchema]) }),",
+    "    z.object({ eq: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ neq: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ gt: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ gte: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ lt: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ lte: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ in: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ contains: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ startsWith: z.tuple([OperandSchema, OperandSchema]) }),",
+    "    z.object({ matches: z.tuple([OperandSchema, z.string()]) }),",
+    "    z.object({ isEmpty: z.string() }),",
+    "    z.object({ exists: z.string() }),",
+    "    z.object({ role: z.union([z.string(), z.array(z.string())]) }),",
+    "    z.object({ permission: z.union([z.string(), z.array(z.string())]) }),",
     "  ])",
     ");",
     "",
@@ -214,6 +285,12 @@ export function generateSchemasFile(registry: ComponentRegistry): string {
     lines.push("");
   }
 
+  // Generate schema for each sub-component
+  for (const sub of subComponents) {
+    lines.push(generateComponentPropsSchema(sub.schemaName, sub.schema));
+    lines.push("");
+  }
+
   // Generate the component type union
   lines.push(
     "// =============================================================================",
@@ -226,11 +303,11 @@ export function generateSchemasFile(registry: ComponentRegistry): string {
   lines.push("/**");
   lines.push(" * All valid component type names");
   lines.push(" */");
-  const typeUnion = componentNames.map((n) => `"${n}"`).join(" | ");
+  const typeUnion = typeNames.map((n) => `"${n}"`).join(" | ");
   lines.push(`export type KumoComponentType = ${typeUnion};`);
   lines.push("");
   lines.push("export const KumoComponentTypeSchema = z.enum([");
-  for (const name of componentNames) {
+  for (const name of typeNames) {
     lines.push(`  "${name}",`);
   }
   lines.push("]);");
@@ -244,6 +321,9 @@ export function generateSchemasFile(registry: ComponentRegistry): string {
   for (const name of componentNames) {
     lines.push(`  ${name}: ${name}PropsSchema,`);
   }
+  for (const sub of subComponents) {
+    lines.push(`  "${sub.type}": ${sub.schemaName}PropsSchema,`);
+  }
   lines.push("} as const;");
   lines.push("");
 
@@ -267,6 +347,9 @@ export function generateSchemasFile(registry: ComponentRegistry): string {
   lines.push("  parentKey: z.string().nullable().optional(),");
   lines.push("  visible: VisibilityConditionSchema.optional(),");
   lines.push("  action: ActionSchema.optional(),");
+  lines.push(
+    "  repeat: z.object({ path: z.string(), key: z.string().optional() }).optional(),",
+  );
   lines.push("});");
   lines.push("");
   lines.push("export type UIElement = z.infer<typeof UIElementBaseSchema>;");
@@ -326,6 +409,13 @@ export function generateSchemasFile(registry: ComponentRegistry): string {
     `export const KUMO_COMPONENT_NAMES = [${componentNames.map((n) => `"${n}"`).join(", ")}] as const;`,
   );
   lines.push("");
+  lines.push("/**");
+  lines.push(' * List of all sub-component types (e.g. "Table.Row")');
+  lines.push(" */");
+  lines.push(
+    `export const KUMO_SUB_COMPONENT_NAMES = [${subComponentNames.map((n) => `"${n}"`).join(", ")}] as const;`,
+  );
+  lines.push("");
 
   return lines.join("\n");
 }
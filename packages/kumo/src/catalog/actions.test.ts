@@ -0,0 +1,149 @@
+/**
+ * Tests for the action runtime
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  applyDataUpdates,
+  executeAction,
+  resolveActionParams,
+  validateActionParams,
+} from "./actions";
+import type { Action, ActionDefinition } from "./types";
+
+const definitions: Record<string, ActionDefinition> = {
+  delete_item: {
+    description: "Delete an item",
+    params: {
+      itemId: { type: "number", required: true },
+      reason: { type: "string" },
+    },
+  },
+};
+
+const deleteAction: Action = {
+  name: "delete_item",
+  params: { itemId: { path: "/selected/id" } },
+  onSuccess: { set: { "/selected": null, "/status": "Deleted" } },
+  onError: { set: { "/status": "Failed" } },
+};
+
+describe("resolveActionParams", () => {
+  it("resolves dynamic params against the data model", () => {
+    expect(
+      resolveActionParams(
+        { name: "x", params: { id: { path: "/item/id" }, source: "form" } },
+        { item: { id: 42 } },
+      ),
+    ).toEqual({ id: 42, source: "form" });
+  });
+});
+
+describe("validateActionParams", () => {
+  it("accepts params that match the definition", () => {
+    const result = validateActionParams(
+      { itemId: 1, reason: "spam" },
+      definitions.delete_item!,
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("reports unknown, mistyped and missing params", () => {
+    const result = validateActionParams(
+      { reason: 3, extra: true },
+      definitions.delete_item!,
+    );
+    expect(result.success).toBe(false);
+    expect(result.error?.map((issue) => issue.path)).toEqual([
+      ["reason"],
+      ["extra"],
+      ["itemId"],
+    ]);
+  });
+});
+
+describe("applyDataUpdates", () => {
+  it("returns a new data model without mutating the input", () => {
+    const data = { form: { name: "Ada", email: "a@b.c" }, other: { x: 1 } };
+    const next = applyDataUpdates(data, {
+      "/form/name": { path: "/form/email" },
+    });
+
+    expect(next).toEqual({
+      form: { name: "a@b.c", email: "a@b.c" },
+      other: { x: 1 },
+    });
+    expect(data.form.name).toBe("Ada");
+    expect(next.other).toBe(data.other);
+  });
+});
+
+describe("executeAction", () => {
+  const data = { selected: { id: 5 }, status: "" };
+
+  it("dispatches and applies onSuccess updates", async () => {
+    const handler = vi.fn();
+    const result = await executeAction(deleteAction, {
+      handlers: { delete_item: handler },
+      data,
+      definitions,
+    });
+
+    expect(handler).toHaveBeenCalledWith({ itemId: 5 });
+    expect(result.status).toBe("success");
+    expect(applyDataUpdates(data, result.updates!)).toEqual({
+      selected: null,
+      status: "Deleted",
+    });
+    expect(data.selected).toEqual({ id: 5 });
+  });
+
+  it("applies onError updates when the handler throws", async () => {
+    const error = new Error("boom");
+    const result = await executeAction(deleteAction, {
+      handlers: { delete_item: () => Promise.reject(error) },
+      data,
+    });
+
+    expect(result.status).toBe("error");
+    expect(result.error).toBe(error);
+    expect(applyDataUpdates(data, result.updates!)).toEqual({
+      selected: { id: 5 },
+      status: "Failed",
+    });
+  });
+
+  it("does not dispatch when the user cancels the confirmation", async () => {
+    const handler = vi.fn();
+    const confirm = vi.fn().mockResolvedValue(false);
+    const result = await executeAction(
+      { ...deleteAction, confirm: { title: "Delete", message: "Sure?" } },
+      { handlers: { delete_item: handler }, data, confirm },
+    );
+
+    expect(confirm).toHaveBeenCalledWith({ title: "Delete", message: "Sure?" });
+    expect(handler).not.toHaveBeenCalled();
+    expect(result.status).toBe("cancelled");
+    expect(result.updates).toBeUndefined();
+  });
+
+  it("does not dispatch invalid params or unknown actions", async () => {
+    const handler = vi.fn();
+    const invalid = await executeAction(deleteAction, {
+      handlers: { delete_item: handler },
+      data: { selected: { id: "5" } },
+      definitions,
+    });
+    const unknown = await executeAction(
+      { name: "missing" },
+      { handlers: {}, data },
+    );
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(invalid.status).toBe("invalid");
+    expect(invalid.error).toEqual([
+      { message: "Expected number, received string", path: ["itemId"] },
+    ]);
+    expect(unknown.status).toBe("invalid");
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Action runtime.
+ *
+ * Executes `Action` objects end to end: resolves params from the data model,
+ * validates them against the catalog's action definitions, asks for
+ * confirmation, awaits the handler and returns the `onSuccess`/`onError`
+ * data updates to apply.
+ */
+
+import type {
+  Action,
+  ActionConfirm,
+  ActionDefinition,
+  ActionHandlers,
+  DataModel,
+  DynamicValue,
+  ValidationResult,
+} from "./types";
+import { resolveDynamicValue, updateByPath } from "./data";
+
+/**
+ * Outcome of {@link executeAction}.
+ * - `"success"` — the handler resolved; `updates` are `onSuccess.set`
+ * - `"error"` — the handler threw; `updates` are `onError.set`
+ * - `"cancelled"` — the user declined the confirmation
+ * - `"invalid"` — no handler was registered or params failed validation
+ */
+export type ActionStatus = "success" | "error" | "cancelled" | "invalid";
+
+export interface ActionResult {
+  status: ActionStatus;
+  /**
+   * `onSuccess`/`onError` `set` map to apply with {@link applyDataUpdates},
+   * to the data model as it is when the action completes, so edits made
+   * while the handler ran are kept.
+   */
+  updates?: Record<string, DynamicValue>;
+  /** Resolved params passed to the handler. */
+  params: Record<string, unknown>;
+  /** Error thrown by the handler, or validation errors for `"invalid"`. */
+  error?: unknown;
+}
+
+/**
+ * Options for {@link executeAction}.
+ */
+export interface ExecuteActionOptions {
+  /** Handlers keyed by action name. */
+  handlers: ActionHandlers;
+  /** Data model used to resolve params. */
+  data: DataModel;
+  /** Action definitions used to validate params before dispatch. */
+  definitions?: Record<string, ActionDefinition>;
+  /**
+   * Ask the user to confirm. Called only for actions with `confirm`;
+   * resolve `false` to cancel. Without it, confirmation is skipped.
+   */
+  confirm?: (confirm: ActionConfirm) => Promise<boolean>;
+  /**
+   * Absolute pointer that relative pointers in params and updates resolve
+   * against, e.g. the item of a repeated element.
+   */
+  scope?: string;
+}
+
+/**
+ * Resolve an action's params against the data model.
+ *
+ * @example
+ * resolveActionParams({ name: "delete", params: { id: { path: "/item/id" } } }, data)
+ * // { id: 42 }
+ */
+export function resolveActionParams(
+  action: Action,
+  data: DataModel,
+  scope = "",
+): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(action.params ?? {})) {
+    params[name] = resolveDynamicValue(value, data, scope);
+  }
+  return params;
+}
+
+/**
+ * Get the parameter type name used by `ActionDefinition.params`.
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Validate resolved params against an action definition.
+ *
+ * Params must be declared in the definition, must match the declared `type`
+ * (`"string"`, `"number"`, `"boolean"`, `"object"` or `"array"`; any other
+ * type name is not checked) and params marked `required` must be present.
+ */
+export function validateActionParams(
+  params: Record<string, unknown>,
+  definition: ActionDefinition,
+): ValidationResult<Record<string, unknown>> {
+  const schema = definition.params;
+  if (!schema) return { success: true, data: params };
+
+  const errors: NonNullable<ValidationResult["error"]> = [];
+  const checkedTypes = ["string", "number", "boolean", "object", "array"];
+
+  for (const [name, value] of Object.entries(params)) {
+    const param = schema[name];
+    if (!param) {
+      errors.push({ message: `Unknown param "${name}"`, path: [name] });
+      continue;
+    }
+    if (value === undefined) continue;
+    if (checkedTypes.includes(param.type) && typeOf(value) !== param.type) {
+      errors.push({
+        message: `Expected ${param.type}, received ${typeOf(value)}`,
+        path: [name],
+      });
+    }
+  }
+
+  for (const [name, param] of Object.entries(schema)) {
+    if (param.required && params[name] === undefined) {
+      errors.push({
+        message: `Missing required param "${name}"`,
+        path: [name],
+      });
+    }
+  }
+
+  return errors.length > 0
+    ? { success: false, error: errors }
+    : { success: true, data: params };
+}
+
+/**
+ * Apply an `onSuccess`/`onError` `set` map to the data model.
+ * Values are resolved against the data model before the update, and a new
+ * data model is returned; the input is left untouched.
+ *
+ * @example
+ * applyDataUpdates({ selected: { id: 1 } }, { "/selected": null })
+ * // { selected: null }
+ */
+export function applyDataUpdates(
+  data: DataModel,
+  updates: Record<string, DynamicValue>,
+  scope = "",
+): DataModel {
+  let next = data;
+
+  for (const [path, value] of Object.entries(updates)) {
+    // `null` is a meaningful value here (e.g. clearing a selection)
+    next = updateByPath(
+      next,
+      path,
+      value === null ? null : resolveDynamicValue(value, data, scope),
+      scope,
+    );
+  }
+
+  return next;
+}
+
+/**
+ * Execute an action end to end.
+ *
+ * 1. Resolve `params` against the data model
+ * 2. Validate them against the action's definition (if provided)
+ * 3. Ask for confirmation when the action declares `confirm`
+ * 4. Await the handler
+ * 5. Return `onSuccess.set` or `onError.set` as the updates to apply
+ *
+ * Never throws: handler errors are reported via the result's `status`.
+ *
+ * @example
+ * const result = await executeAction(action, {
+ *   handlers: { delete_item: (params) => api.delete(params.itemId) },
+ *   data,
+ *   definitions: catalog.actions,
+ *   confirm: (c) => Promise.resolve(window.confirm(c.message)),
+ * });
+ * if (result.updates) {
+ *   setData((latest) => applyDataUpdates(latest, result.updates!));
+ * }
+ */
+export async function executeAction(
+  action: Action,
+  { handlers, data, definitions, confirm, scope = "" }: ExecuteActionOptions,
+): Promise<ActionResult> {
+  const params = resolveActionParams(action, data, scope);
+  const handler = handlers[action.name];
+
+  if (!handler) {
+    return {
+      status: "invalid",
+      params,
+      error: [{ message: `No handler for action "${action.name}"`, path: [] }],
+    };
+  }
+
+  const definition = definitions?.[action.name];
+  if (definition) {
+    const validation = validateActionParams(params, definition);
+    if (!validation.success) {
+      return { status: "invalid", params, error: validation.error };
+    }
+  }
+
+  if (action.confirm && confirm) {
+    const confirmed = await confirm(action.confirm);
+    if (!confirmed) {
+      return { status: "cancelled", params };
+    }
+  }
+
+  try {
+    await handler(params);
+    return { status: "success", updates: action.onSuccess?.set, params };
+  } catch (error) {
+    return { status: "error", updates: action.onError?.set, params, error };
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Two-way binding configuration for the catalog renderer.
+ *
+ * Describes, per component type, which prop receives a `{ bind }` value and
+ * which event reports edits, so the renderer can write them back to the
+ * data model.
+ */
+
+/**
+ * How a component type exposes its value for `{ bind }`.
+ */
+export interface BindingConfig {
+  /** Prop that receives the bound value (e.g. `"value"`, `"checked"`) */
+  valueProp: string;
+  /** Event prop called with the new value (e.g. `"onValueChange"`) */
+  eventProp: string;
+  /** Value passed while the bound path is unset, keeping the component controlled */
+  emptyValue?: unknown;
+  /** Convert the event's arguments to the value stored in the data model (default: first argument) */
+  fromEvent?: (...args: unknown[]) => unknown;
+  /** Convert the stored value to the prop value */
+  toProp?: (value: unknown) => unknown;
+}
+
+function targetValue(event: unknown): unknown {
+  return (event as { target: { value: unknown } }).target.value;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Convert `Date`s (alone, in arrays or in `{ from, to }` ranges) to local
+ * `"YYYY-MM-DD"` strings, so the data model stays JSON.
+ */
+function datesToJson(value: unknown): unknown {
+  if (value instanceof Date) {
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  if (Array.isArray(value)) return value.map(datesToJson);
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, datesToJson(item)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Inverse of `datesToJson`. `"YYYY-MM-DD"` strings become local dates;
+ * other date strings are parsed with `new Date`.
+ */
+function jsonToDates(value: unknown): unknown {
+  if (typeof value === "string") {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    const date = match
+      ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+      : new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+  if (Array.isArray(value)) return value.map(jsonToDates);
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, jsonToDates(item)]),
+    );
+  }
+  return value;
+}
+
+const TEXT_BINDING: BindingConfig = {
+  valueProp: "value",
+  eventProp: "onChange",
+  emptyValue: "",
+  fromEvent: targetValue,
+};
+
+const CHECKED_BINDING: BindingConfig = {
+  valueProp: "checked",
+  eventProp: "onCheckedChange",
+  emptyValue: false,
+};
+
+const VALUE_BINDING: BindingConfig = {
+  valueProp: "value",
+  eventProp: "onValueChange",
+  emptyValue: null,
+};
+
+const NUMBER_BINDING: BindingConfig = {
+  valueProp: "value",
+  eventProp: "onValueChange",
+};
+
+/**
+ * Components whose value can be bound with `{ bind: "/path" }`, keyed by
+ * element type. `DatePicker` stores dates as `"YYYY-MM-DD"` strings.
+ * `Slider` and `RangeSlider` start from their `defaultValue` while the
+ * bound path is unset.
+ *
+ * @example
+ * // Bound value on an element
+ * { type: "Checkbox", props: { label: "Subscribe", checked: { bind: "/form/subscribe" } } }
+ */
+export const BINDING_PROPS: Record<string, BindingConfig> = {
+  Input: TEXT_BINDING,
+  InputArea: TEXT_BINDING,
+  Select: VALUE_BINDING,
+  Checkbox: CHECKED_BINDING,
+  Switch: CHECKED_BINDING,
+  Radio: VALUE_BINDING,
+  "Radio.Group": VALUE_BINDING,
+  Combobox: VALUE_BINDING,
+  Slider: NUMBER_BINDING,
+  RangeSlider: NUMBER_BINDING,
+  DatePicker: {
+    valueProp: "selected",
+    eventProp: "onChange",
+    fromEvent: datesToJson,
+    toProp: jsonToDates,
+  },
+};
@@ -2,12 +2,17 @@
  * Tests for Kumo catalog module
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import {
   getByPath,
   setByPath,
+  updateByPath,
+  parsePointer,
+  formatPointer,
   isDynamicPath,
+  isDataBinding,
   resolveDynamicValue,
+  resolveTemplate,
   resolveProps,
 } from "./data";
 import { evaluateVisibility, createVisibilityContext } from "./visibility";
@@ -36,6 +41,43 @@ describe("data utilities", () => {
       const obj = { user: { name: "John" } };
       expect(getByPath(obj, "user/name")).toBe("John");
     });
+
+    it("unescapes ~0 and ~1 and indexes arrays", () => {
+      const obj = { "a/b": { "c~d": 1 }, items: [{ title: "First" }] };
+      expect(getByPath(obj, "/a~1b/c~0d")).toBe(1);
+      expect(getByPath(obj, "/items/0/title")).toBe("First");
+      expect(getByPath(obj, "/items/-")).toBeUndefined();
+      expect(getByPath(obj, "/items/01")).toBeUndefined();
+    });
+
+    it("resolves relative pointers against a scope", () => {
+      const obj = { list: { title: "Todo", items: [{ name: "A" }] } };
+      const scope = "/list/items/0";
+      expect(getByPath(obj, "0/name", scope)).toBe("A");
+      expect(getByPath(obj, "2/title", scope)).toBe("Todo");
+      expect(getByPath(obj, "0#", scope)).toBe(0);
+      expect(getByPath(obj, "1#", scope)).toBe("items");
+      expect(getByPath(obj, "4/title", scope)).toBeUndefined();
+    });
+
+    it("treats paths starting with digits as plain keys without a scope", () => {
+      const obj = { "0": "zero", "1": { name: "one" }, "2#": "hash" };
+      expect(getByPath(obj, "0")).toBe("zero");
+      expect(getByPath(obj, "1/name")).toBe("one");
+      expect(getByPath(obj, "2#")).toBe("hash");
+
+      const target: Record<string, unknown> = {};
+      setByPath(target, "1/name", "one");
+      expect(target).toEqual({ "1": { name: "one" } });
+    });
+  });
+
+  describe("parsePointer / formatPointer", () => {
+    it("round-trips escaped tokens", () => {
+      expect(parsePointer("/a~1b/c~0d/0")).toEqual(["a/b", "c~d", "0"]);
+      expect(formatPointer(["a/b", "c~d", 0])).toBe("/a~1b/c~0d/0");
+      expect(parsePointer("")).toEqual([]);
+    });
   });
 
   describe("setByPath", () => {
@@ -50,6 +92,74 @@ describe("data utilities", () => {
       setByPath(obj, "/user/name", "Jane");
       expect(obj).toEqual({ user: { name: "Jane" } });
     });
+
+    it("creates arrays for index segments and appends with -", () => {
+      const obj: Record<string, unknown> = {};
+      setByPath(obj, "/items/0/name", "A");
+      setByPath(obj, "/items/-", { name: "B" });
+      setByPath(obj, "/a~1b", 1);
+      expect(obj).toEqual({ items: [{ name: "A" }, { name: "B" }], "a/b": 1 });
+    });
+
+    it("resolves relative pointers against a scope", () => {
+      const obj: Record<string, unknown> = { items: [{ done: false }] };
+      setByPath(obj, "0/done", true, "/items/0");
+      expect(obj).toEqual({ items: [{ done: true }] });
+    });
+  });
+
+  describe("unsafe paths", () => {
+    it("never reads or writes through prototype tokens", () => {
+      const obj: Record<string, unknown> = { user: {} };
+      setByPath(obj, "/__proto__/polluted", true);
+      setByPath(obj, "/user/constructor/prototype/polluted", true);
+      setByPath(obj, "0/__proto__/polluted", true, "/user");
+
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect(obj).toEqual({ user: {} });
+      expect(getByPath(obj, "/user/constructor")).toBeUndefined();
+      expect(getByPath(obj, "/__proto__")).toBeUndefined();
+    });
+
+    it("returns the input unchanged from updateByPath", () => {
+      const data = { form: { email: "" } };
+      expect(updateByPath(data, "/form/__proto__/polluted", true)).toBe(data);
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+  });
+
+  describe("updateByPath", () => {
+    it("copies containers along the path without mutating the input", () => {
+      const data = { form: { email: "", name: "Ada" }, items: [1, 2] };
+      const next = updateByPath(data, "/form/email", "ada@example.com");
+
+      expect(next).toEqual({
+        form: { email: "ada@example.com", name: "Ada" },
+        items: [1, 2],
+      });
+      expect(data.form.email).toBe("");
+      expect(next.items).toBe(data.items);
+    });
+  });
+
+  describe("resolveTemplate", () => {
+    it("renders missing values as empty strings and objects as JSON", () => {
+      const data = { tags: ["a"] };
+      expect(resolveTemplate("[{{/missing}}] {{/tags}}", data)).toBe(
+        '[] ["a"]',
+      );
+      expect(resolveTemplate("No {{placeholders}}", data)).toBe(
+        "No {{placeholders}}",
+      );
+    });
+  });
+
+  describe("isDataBinding", () => {
+    it("detects bind objects", () => {
+      expect(isDataBinding({ bind: "/form/email" })).toBe(true);
+      expect(isDataBinding({ path: "/form/email" })).toBe(false);
+      expect(isDataBinding({ bind: 1 })).toBe(false);
+    });
   });
 
   describe("isDynamicPath", () => {
@@ -100,6 +210,42 @@ describe("data utilities", () => {
         theme: "dark",
       });
     });
+
+    it("interpolates templates, including inside arrays", () => {
+      const data = { user: { name: "Ada" }, count: 3 };
+      expect(
+        resolveProps(
+          {
+            children: "Hello {{/user/name}}, you have {{ /count }} items",
+            count: "{{/count}}",
+            tabs: [{ label: "{{/user/name}}" }, { label: { path: "/count" } }],
+          },
+          data,
+        ),
+      ).toEqual({
+        children: "Hello Ada, you have 3 items",
+        count: 3,
+        tabs: [{ label: "Ada" }, { label: 3 }],
+      });
+    });
+
+    it("resolves relative pointers in a nested scope", () => {
+      const data = { items: [{ name: "A" }, { name: "B" }] };
+      expect(
+        resolveProps(
+          { children: "{{0#}}: {{0/name}}", title: { path: "0/name" } },
+          data,
+          "/items/1",
+        ),
+      ).toEqual({ children: "1: B", title: "B" });
+    });
+
+    it("resolves bindings to their current value", () => {
+      const data = { form: { email: "ada@example.com" } };
+      expect(resolveProps({ value: { bind: "/form/email" } }, data)).toEqual({
+        value: "ada@example.com",
+      });
+    });
   });
 });
 
@@ -253,5 +399,179 @@ describe("visibility evaluation", () => {
       };
       expect(evaluateVisibility(condition, ctx)).toBe(true);
     });
+
+    it("IN checks list membership and substrings", () => {
+      const ctx = createCtx({ status: "pending", allowed: ["active"] });
+      expect(
+        evaluateVisibility(
+          { in: [{ path: "/status" }, ["active", "pending"]] },
+          ctx,
+        ),
+      ).toBe(true);
+      expect(
+        evaluateVisibility(
+          { in: [{ path: "/status" }, { path: "/allowed" }] },
+          ctx,
+        ),
+      ).toBe(false);
+      expect(
+        evaluateVisibility({ in: ["end", { path: "/status" }] }, ctx),
+      ).toBe(true);
+    });
+
+    it("CONTAINS, STARTSWITH and MATCHES check strings and arrays", () => {
+      const ctx = createCtx({ tags: ["beta", "new"], name: "worker-prod" });
+      expect(
+        evaluateVisibility({ contains: [{ path: "/tags" }, "beta"] }, ctx),
+      ).toBe(true);
+      expect(
+        evaluateVisibility({ contains: [{ path: "/name" }, "staging"] }, ctx),
+      ).toBe(false);
+      expect(
+        evaluateVisibility({ startsWith: [{ path: "/name" }, "worker-"] }, ctx),
+      ).toBe(true);
+      expect(
+        evaluateVisibility(
+          { matches: [{ path: "/name" }, "-(prod|staging)$"] },
+          ctx,
+        ),
+      ).toBe(true);
+    });
+
+    it("MATCHES is false for invalid patterns", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const ctx = createCtx({ name: "worker" });
+      expect(
+        evaluateVisibility({ matches: [{ path: "/name" }, "("] }, ctx),
+      ).toBe(false);
+      warn.mockRestore();
+    });
+
+    it("MATCHES warns once per rejected pattern and bounds its length", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const ctx = createCtx({ name: "a".repeat(300) });
+      const invalid = { matches: [{ path: "/name" }, "[a-"] } as const;
+      const long = { matches: [{ path: "/name" }, "a".repeat(300)] } as const;
+
+      expect(evaluateVisibility(invalid, ctx)).toBe(false);
+      expect(evaluateVisibility(invalid, ctx)).toBe(false);
+      expect(evaluateVisibility(long, ctx)).toBe(false);
+      expect(evaluateVisibility(long, ctx)).toBe(false);
+      expect(warn).toHaveBeenCalledTimes(2);
+      warn.mockRestore();
+    });
+
+    it("MATCHES rejects patterns that backtrack excessively", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const ctx = createCtx({ name: "aaaa" });
+      for (const pattern of [
+        "(a+)+$",
+        "(a|aa)*$",
+        "(?:a{1,3})+$",
+        "(a)\\1",
+        "a*a*a*$",
+      ]) {
+        expect(
+          evaluateVisibility({ matches: [{ path: "/name" }, pattern] }, ctx),
+        ).toBe(false);
+      }
+      expect(warn).toHaveBeenCalledTimes(5);
+      expect(
+        evaluateVisibility(
+          { matches: [{ path: "/name" }, "^(a)+[b-z]*$"] },
+          ctx,
+        ),
+      ).toBe(true);
+      warn.mockRestore();
+    });
+
+    it("MATCHES is false for values longer than 256 characters", () => {
+      const ctx = createCtx({ name: "a".repeat(257) });
+      expect(
+        evaluateVisibility({ matches: [{ path: "/name" }, "^a"] }, ctx),
+      ).toBe(false);
+    });
+
+    it("compares lengths", () => {
+      const ctx = createCtx({ items: [1, 2, 3], name: "" });
+      expect(
+        evaluateVisibility({ gte: [{ length: { path: "/items" } }, 3] }, ctx),
+      ).toBe(true);
+      expect(
+        evaluateVisibility({ gt: [{ length: { path: "/name" } }, 0] }, ctx),
+      ).toBe(false);
+    });
+
+    it("compares arithmetic on operands", () => {
+      const ctx = createCtx({ quota: 100, used: 95, items: [1, 2, 3] });
+      const remaining = { sub: [{ path: "/quota" }, { path: "/used" }] };
+      expect(evaluateVisibility({ lt: [remaining, 10] }, ctx)).toBe(true);
+      expect(
+        evaluateVisibility(
+          { eq: [{ mod: [{ length: { path: "/items" } }, 2] }, 1] },
+          ctx,
+        ),
+      ).toBe(true);
+      expect(
+        evaluateVisibility(
+          { eq: [{ mul: [{ add: [{ path: "/used" }, 5] }, 2] }, 200] },
+          ctx,
+        ),
+      ).toBe(true);
+    });
+
+    it("resolves arithmetic on non-numbers and division by zero to undefined", () => {
+      const ctx = createCtx({ count: 3, name: "a" });
+      expect(
+        evaluateVisibility(
+          { eq: [{ div: [{ path: "/count" }, 0] }, { path: "/missing" }] },
+          ctx,
+        ),
+      ).toBe(true);
+      expect(
+        evaluateVisibility({ gte: [{ add: [{ path: "/name" }, 1] }, 0] }, ctx),
+      ).toBe(false);
+    });
+
+    it("ISEMPTY and EXISTS check values at paths", () => {
+      const ctx = createCtx({ items: [], filter: {}, count: 0, name: null });
+      expect(evaluateVisibility({ isEmpty: "/items" }, ctx)).toBe(true);
+      expect(evaluateVisibility({ isEmpty: "/filter" }, ctx)).toBe(true);
+      expect(evaluateVisibility({ isEmpty: "/count" }, ctx)).toBe(false);
+      expect(evaluateVisibility({ exists: "/count" }, ctx)).toBe(true);
+      expect(evaluateVisibility({ exists: "/name" }, ctx)).toBe(false);
+      expect(evaluateVisibility({ exists: "/missing" }, ctx)).toBe(false);
+    });
+
+    it("ROLE and PERMISSION check the signed-in user", () => {
+      const ctx = createVisibilityContext(
+        {},
+        {
+          isSignedIn: true,
+          user: {
+            role: "member",
+            roles: ["billing"],
+            permissions: ["read", "write"],
+          },
+        },
+      );
+      expect(evaluateVisibility({ role: "member" }, ctx)).toBe(true);
+      expect(evaluateVisibility({ role: ["admin", "billing"] }, ctx)).toBe(
+        true,
+      );
+      expect(evaluateVisibility({ role: "admin" }, ctx)).toBe(false);
+      expect(evaluateVisibility({ permission: ["read", "write"] }, ctx)).toBe(
+        true,
+      );
+      expect(evaluateVisibility({ permission: ["read", "delete"] }, ctx)).toBe(
+        false,
+      );
+
+      const signedOut = createVisibilityContext(
+        {},
+        { isSignedIn: false, user: { role: "member" } },
+      );
+      expect(evaluateVisibility({ role: "member" }, signedOut)).toBe(false);
+    });
   });
 });
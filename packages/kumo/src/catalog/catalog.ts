@@ -10,15 +10,23 @@
 import type {
   KumoCatalog,
   CatalogConfig,
+  CatalogToolDefinition,
   ActionDefinition,
+  ComponentRegistry,
+  PromptOptions,
+  RepairResult,
   ValidationResult,
   UITree,
   UIElement,
 } from "./types";
+import { generateCatalogPrompt, generateToolDefinition } from "./prompt";
+import { KUMO_NESTING_RULES, validateTreeStructure } from "./structure";
+import { repairTree } from "./repair";
 
 // Schema types - will be populated from generated schemas
 interface SchemasModule {
   KUMO_COMPONENT_NAMES: readonly string[];
+  KUMO_SUB_COMPONENT_NAMES: readonly string[];
   UIElementBaseSchema: {
     safeParse: (data: unknown) => {
       success: boolean;
@@ -57,13 +65,46 @@ export async function loadSchemas(): Promise<SchemasModule> {
   return schemasLoadPromise;
 }
 
+// Component registry reference - loaded asynchronously (used for prompts)
+let registry: ComponentRegistry | null = null;
+let registryLoadPromise: Promise<ComponentRegistry> | null = null;
+
+/**
+ * Load the component registry that prompts are generated from.
+ * This is called automatically by `initCatalog`.
+ */
+export async function loadRegistry(): Promise<ComponentRegistry> {
+  if (registry) return registry;
+  if (registryLoadPromise) return registryLoadPromise;
+
+  registryLoadPromise = import("../../ai/component-registry.json").then(
+    (mod: unknown) => {
+      const json = mod as { default?: unknown };
+      registry = (json.default ?? json) as ComponentRegistry;
+      return registry;
+    },
+  );
+
+  return registryLoadPromise;
+}
+
+/**
+ * Get the registry synchronously (throws if not loaded).
+ */
+function getRegistry(): ComponentRegistry {
+  if (!registry) {
+    throw new Error("Component registry not loaded. Call initCatalog() first.");
+  }
+  return registry;
+}
+
 /**
  * Get schemas synchronously (throws if not loaded).
  */
 function getSchemas(): SchemasModule {
   if (!schemasModule) {
     throw new Error(
-      "Schemas not loaded. Call initCatalog(catalog) first or use async validation.",
+      "Schemas not loaded. Call initCatalog() first or use async validation.",
     );
   }
   return schemasModule;
@@ -88,7 +129,7 @@ function getSchemas(): SchemasModule {
  * });
  *
  * // Initialize schemas (required before sync validation)
- * await initCatalog(catalog);
+ * await initCatalog();
  *
  * // Validate AI-generated tree
  * const result = catalog.validateTree(aiGeneratedJson);
@@ -97,10 +138,13 @@ function getSchemas(): SchemasModule {
  * }
  */
 export function createKumoCatalog(config: CatalogConfig = {}): KumoCatalog {
-  const { actions = {} } = config;
+  const { actions = {}, nestingRules } = config;
   const actionNames = Object.keys(actions);
+  const rules = nestingRules
+    ? { ...KUMO_NESTING_RULES, ...nestingRules }
+    : KUMO_NESTING_RULES;
 
-  return {
+  const catalog: KumoCatalog = {
     get componentNames(): readonly string[] {
       const schemas = getSchemas();
       return schemas.KUMO_COMPONENT_NAMES;
@@ -110,10 +154,17 @@ export function createKumoCatalog(config: CatalogConfig = {}): KumoCatalog {
       return actionNames;
     },
 
+    get actions(): Readonly<Record<string, ActionDefinition>> {
+      return actions;
+    },
+
     hasComponent(type: string): boolean {
       try {
         const schemas = getSchemas();
-        return schemas.KUMO_COMPONENT_NAMES.includes(type as never);
+        return (
+          schemas.KUMO_COMPONENT_NAMES.includes(type) ||
+          schemas.KUMO_SUB_COMPONENT_NAMES.includes(type)
+        );
       } catch {
         return false;
       }
@@ -175,7 +226,8 @@ export function createKumoCatalog(config: CatalogConfig = {}): KumoCatalog {
         const result = schemas.validateUITree(tree);
 
         if (result.success) {
-          return { success: true, data: result.data as UITree };
+          // Shape is valid; check references, cycles and nesting
+          return validateTreeStructure(result.data as UITree, rules);
         }
 
         return {
@@ -202,81 +254,63 @@ export function createKumoCatalog(config: CatalogConfig = {}): KumoCatalog {
       }
     },
 
-    generatePrompt(): string {
-      const schemas = getSchemas();
-      const lines: string[] = [
-        "# Kumo Component Catalog",
-        "",
-        "You are generating UI using Kumo components. Output must be valid JSON matching the UITree schema.",
-        "",
-        "## Available Components",
-        "",
-      ];
-
-      // List all components
-      for (const name of schemas.KUMO_COMPONENT_NAMES) {
-        lines.push(`- \`${name}\``);
-      }
-
-      // Actions section
-      if (actionNames.length > 0) {
-        lines.push("");
-        lines.push("## Available Actions");
-        lines.push("");
-        for (const [name, def] of Object.entries(actions)) {
-          lines.push(`- \`${name}\`: ${(def as ActionDefinition).description}`);
-        }
-      }
-
-      // Output format
-      lines.push("");
-      lines.push("## Output Format");
-      lines.push("");
-      lines.push("```json");
-      lines.push("{");
-      lines.push('  "root": "element-1",');
-      lines.push('  "elements": {');
-      lines.push('    "element-1": {');
-      lines.push('      "key": "element-1",');
-      lines.push('      "type": "ComponentName",');
-      lines.push('      "props": { ... },');
-      lines.push('      "children": ["element-2"],');
-      lines.push(
-        '      "visible": true | { "path": "/data/path" } | { "auth": "signedIn" }',
-      );
-      lines.push("    }");
-      lines.push("  }");
-      lines.push("}");
-      lines.push("```");
-      lines.push("");
+    repairTree(tree: unknown): RepairResult {
+      return repairTree(tree, getRegistry(), (repaired) => [
+        ...(catalog.validateTree(repaired).error ?? []),
+        ...validateTreeProps(catalog, repaired),
+      ]);
+    },
 
-      // Dynamic values
-      lines.push("## Dynamic Values");
-      lines.push("");
-      lines.push(
-        'Props can reference data model values using `{ path: "/data/path" }`:',
-      );
-      lines.push("");
-      lines.push("```json");
-      lines.push("{");
-      lines.push('  "type": "Text",');
-      lines.push('  "props": {');
-      lines.push('    "children": { "path": "/user/name" }');
-      lines.push("  }");
-      lines.push("}");
-      lines.push("```");
-      lines.push("");
+    generatePrompt(options?: PromptOptions): string {
+      return generateCatalogPrompt(getRegistry(), actions, options);
+    },
 
-      return lines.join("\n");
+    generateToolDefinition(
+      options?: Omit<PromptOptions, "format" | "examples">,
+    ): CatalogToolDefinition {
+      return generateToolDefinition(getRegistry(), actions, options);
     },
   };
+
+  return catalog;
 }
 
 /**
- * Initialize the catalog by loading schemas.
- * Call this before using synchronous validation methods.
+ * Validate the props of every element in a tree against its component
+ * schema. `validateTree` only checks the element shape, so this reports the
+ * per-component prop errors, with paths from the tree root.
+ *
+ * @example
+ * const errors = [
+ *   ...(catalog.validateTree(tree).error ?? []),
+ *   ...validateTreeProps(catalog, tree),
+ * ];
+ */
+export function validateTreeProps(
+  catalog: KumoCatalog,
+  tree: UITree,
+): NonNullable<ValidationResult["error"]> {
+  const errors: NonNullable<ValidationResult["error"]> = [];
+  for (const [key, element] of Object.entries(tree.elements)) {
+    for (const issue of catalog.validateElement(element).error ?? []) {
+      if (issue.path[0] !== "props") continue;
+      errors.push({ ...issue, path: ["elements", key, ...issue.path] });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Initialize the catalog by loading schemas and the component registry.
+ * Call this before using synchronous validation or prompt methods.
+ */
+export function initCatalog(): Promise<void>;
+/**
+ * @deprecated Schemas and the registry are shared by every catalog, so the
+ * argument is unused. Call `initCatalog()` instead.
  */
-export async function initCatalog(catalog: KumoCatalog): Promise<void> {
-  // Trigger a validation to load schemas
-  catalog.validateTree({});
+export function initCatalog(catalog: KumoCatalog): Promise<void>;
+export async function initCatalog(_catalog?: KumoCatalog): Promise<void> {
+  // Schemas and registry are shared by every catalog instance
+  await Promise.all([loadSchemas(), loadRegistry()]);
 }
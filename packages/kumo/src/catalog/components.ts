@@ -0,0 +1,148 @@
+/**
+ * Component map for the catalog renderer.
+ *
+ * Maps every `UIElement.type` in the catalog to the Kumo component that
+ * renders it. Compound sub-components (e.g. `Table.Row`, `Dialog.Title`)
+ * are resolved from the static members of their root component.
+ */
+
+import type { ElementType } from "react";
+import { Badge } from "../components/badge";
+import { Banner } from "../components/banner";
+import { Breadcrumbs } from "../components/breadcrumbs";
+import { Button } from "../components/button";
+import { Checkbox } from "../components/checkbox";
+import { ClipboardText } from "../components/clipboard-text";
+import { CloudflareLogo } from "../components/cloudflare-logo";
+import { Code } from "../components/code";
+import { Collapsible } from "../components/collapsible";
+import { Combobox } from "../components/combobox";
+import { CommandPalette } from "../components/command-palette";
+import { DataTable } from "../components/data-table";
+import { DatePicker } from "../components/date-picker";
+import { DateRangePicker } from "../components/date-range-picker";
+import { Dialog } from "../components/dialog";
+import { DropdownMenu } from "../components/dropdown";
+import { Empty } from "../components/empty";
+import { Field } from "../components/field";
+import { Grid } from "../components/grid";
+import { Input, InputArea } from "../components/input";
+import { Label } from "../components/label";
+import { LayerCard } from "../components/layer-card";
+import { Link } from "../components/link";
+import { Loader } from "../components/loader";
+import { MenuBar } from "../components/menubar";
+import { Meter } from "../components/meter";
+import { Pagination } from "../components/pagination";
+import { Popover } from "../components/popover";
+import { Radio } from "../components/radio";
+import { RangeSlider } from "../components/range-slider";
+import { Select } from "../components/select";
+import { SensitiveInput } from "../components/sensitive-input";
+import { Slider } from "../components/slider";
+import { Surface } from "../components/surface";
+import { Switch } from "../components/switch";
+import { Table } from "../components/table";
+import { Tabs } from "../components/tabs";
+import { Text } from "../components/text";
+import { Toasty } from "../components/toast";
+import { Tooltip } from "../components/tooltip";
+
+/**
+ * Map of component type names to renderable components.
+ * Pass a partial map to `KumoRenderer`'s `components` prop to override or extend it.
+ */
+export type CatalogComponentMap = Record<string, ElementType>;
+
+/**
+ * Default component map covering every component in the catalog.
+ *
+ * `Radio` has no root component, so the bare type renders `Radio.Group`
+ * while `Radio.Item` is listed explicitly.
+ */
+export const KUMO_CATALOG_COMPONENTS: CatalogComponentMap = {
+  Badge,
+  Banner,
+  Breadcrumbs,
+  Button,
+  Checkbox,
+  ClipboardText,
+  CloudflareLogo,
+  Code,
+  Collapsible,
+  Combobox,
+  CommandPalette: CommandPalette.Root,
+  DataTable,
+  DatePicker,
+  DateRangePicker,
+  Dialog,
+  DropdownMenu,
+  Empty,
+  Field,
+  Grid,
+  Input,
+  InputArea,
+  Label,
+  LayerCard,
+  Link,
+  Loader,
+  MenuBar,
+  Meter,
+  Pagination,
+  Popover,
+  Radio: Radio.Group,
+  "Radio.Group": Radio.Group,
+  "Radio.Item": Radio.Item,
+  RangeSlider,
+  Select,
+  SensitiveInput,
+  Slider,
+  Surface,
+  Switch,
+  Table,
+  Tabs,
+  Text,
+  Toasty,
+  Tooltip,
+};
+
+/**
+ * Check whether a value can be passed to `createElement`.
+ * Covers function components and `forwardRef`/`memo` exotic components.
+ */
+function isRenderable(value: unknown): value is ElementType {
+  if (typeof value === "function") return true;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "$$typeof" in (value as Record<string, unknown>)
+  );
+}
+
+/**
+ * Resolve a component type (e.g. `"Button"` or `"Table.Row"`) to a component.
+ *
+ * Exact matches in the map win; otherwise dotted types are resolved by
+ * walking the static members of the root component.
+ *
+ * @example
+ * resolveComponent("Table.Row") // Table.Row
+ * resolveComponent("Unknown") // undefined
+ */
+export function resolveComponent(
+  type: string,
+  components: CatalogComponentMap = KUMO_CATALOG_COMPONENTS,
+): ElementType | undefined {
+  const exact = components[type];
+  if (exact) return exact;
+
+  const [rootName, ...members] = type.split(".");
+  let current: unknown = components[rootName!];
+
+  for (const member of members) {
+    if (current === null || current === undefined) return undefined;
+    current = (current as Record<string, unknown>)[member];
+  }
+
+  return members.length > 0 && isRenderable(current) ? current : undefined;
+}
@@ -0,0 +1,65 @@
+/**
+ * Confirmation dialog for catalog actions that declare `confirm`.
+ */
+
+import { Button } from "../components/button";
+import { Dialog } from "../components/dialog";
+import type { ActionConfirm } from "./types";
+
+export interface ActionConfirmDialogProps {
+  /** Confirmation to show, or `null` when the dialog is closed. */
+  confirm: ActionConfirm | null;
+  /** Called with `true` when confirmed, `false` when cancelled or dismissed. */
+  onResolve: (confirmed: boolean) => void;
+}
+
+/**
+ * Kumo `Dialog` asking the user to confirm an action.
+ * The `"danger"` variant uses a destructive confirm button.
+ *
+ * @example
+ * <ActionConfirmDialog
+ *   confirm={{ title: "Delete item", message: "Are you sure?", variant: "danger" }}
+ *   onResolve={(confirmed) => resolve(confirmed)}
+ * />
+ */
+export function ActionConfirmDialog({
+  confirm,
+  onResolve,
+}: ActionConfirmDialogProps) {
+  const isDanger = confirm?.variant === "danger";
+
+  return (
+    <Dialog.Root
+      open={confirm !== null}
+      onOpenChange={(open) => {
+        if (!open) onResolve(false);
+      }}
+      disablePointerDismissal={isDanger}
+    >
+      {confirm && (
+        <Dialog className="p-8" size="sm">
+          <Dialog.Title className="mb-4 text-xl font-semibold">
+            {confirm.title}
+          </Dialog.Title>
+          <Dialog.Description className="text-kumo-subtle">
+            {confirm.message}
+          </Dialog.Description>
+          <div className="mt-8 flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => onResolve(false)}>
+              {confirm.cancelLabel ?? "Cancel"}
+            </Button>
+            <Button
+              variant={isDanger ? "destructive" : "primary"}
+              onClick={() => onResolve(true)}
+            >
+              {confirm.confirmLabel ?? "Confirm"}
+            </Button>
+          </div>
+        </Dialog>
+      )}
+    </Dialog.Root>
+  );
+}
+
+ActionConfirmDialog.displayName = "ActionConfirmDialog";
@@ -1,38 +1,155 @@
 /**
  * Data model utilities for dynamic value resolution.
  *
- * Provides JSON Pointer path resolution for data binding.
+ * Provides JSON Pointer (RFC 6901) path resolution for data binding,
+ * relative JSON Pointers for nested scopes and `{{/path}}` string templates.
  */
 
-import type { DataModel, DynamicValue } from "./types";
+import type { DataBinding, DataModel, DynamicValue } from "./types";
+
+/** A relative JSON Pointer: levels up, then `#` or a pointer (e.g. `"1/name"`). */
+const RELATIVE_POINTER = /^(\d+)(#|\/.*)?$/;
+
+/** `{{/user/name}}` or `{{0/name}}` inside a string. */
+const TEMPLATE = /\{\{\s*(\/[^{}]*?|\d+(?:#|\/[^{}]*?)?)\s*\}\}/g;
+
+/** Object or array along a pointer. */
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * Tokens that reach `Object.prototype` or a constructor. Paths come from
+ * AI-generated trees and form input, so pointers containing them never
+ * resolve.
+ */
+const UNSAFE_TOKENS = new Set(["__proto__", "constructor", "prototype"]);
+
+/** Array index segment: `"0"` or a number without leading zeros. */
+const ARRAY_INDEX = /^(0|[1-9]\d*)$/;
+
+/**
+ * Split a JSON Pointer into unescaped reference tokens.
+ * `~1` decodes to `/` and `~0` to `~`. A missing leading `/` is tolerated.
+ *
+ * @example
+ * parsePointer("/user/name") // ["user", "name"]
+ * parsePointer("/a~1b/c~0d") // ["a/b", "c~d"]
+ * parsePointer("") // []
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  const body = pointer.startsWith("/") ? pointer.slice(1) : pointer;
+  return body
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Build a JSON Pointer from reference tokens, escaping `~` and `/`.
+ *
+ * @example
+ * formatPointer(["items", 0, "a/b"]) // "/items/0/a~1b"
+ */
+export function formatPointer(tokens: readonly (string | number)[]): string {
+  return tokens
+    .map(
+      (token) => `/${String(token).replace(/~/g, "~0").replace(/\//g, "~1")}`,
+    )
+    .join("");
+}
+
+/**
+ * Match a relative JSON Pointer. Paths are only relative inside a scope:
+ * without one, `"0/name"` is the plain path `/0/name`.
+ */
+function matchRelative(path: string, scope: string): RegExpExecArray | null {
+  return scope === "" ? null : RELATIVE_POINTER.exec(path);
+}
+
+/**
+ * Resolve a pointer to reference tokens. Relative JSON Pointers
+ * (e.g. `"0/name"`, `"1/title"`) are resolved against `scope`, the absolute
+ * pointer of the current nested scope. Returns `undefined` when a relative
+ * pointer climbs above the root, or when a token is unsafe (`__proto__`,
+ * `constructor` or `prototype`).
+ */
+function resolveTokens(path: string, scope: string): string[] | undefined {
+  const tokens = resolveRawTokens(path, scope);
+  return tokens?.some((token) => UNSAFE_TOKENS.has(token)) ? undefined : tokens;
+}
+
+function resolveRawTokens(path: string, scope: string): string[] | undefined {
+  const relative = matchRelative(path, scope);
+  if (!relative) {
+    // "/" refers to the whole data model, like ""
+    return path === "/" ? [] : parsePointer(path);
+  }
+
+  const base = parsePointer(scope);
+  const up = Number(relative[1]);
+  if (up > base.length) return undefined;
+  const rest = relative[2] ?? "";
+  return [
+    ...base.slice(0, base.length - up),
+    ...(rest === "#" ? [] : parsePointer(rest)),
+  ];
+}
+
+/**
+ * Resolve a pointer, relative to `scope` or absolute, to an absolute pointer.
+ * Returns `undefined` when a relative pointer climbs above the root or a
+ * token is unsafe.
+ *
+ * @example
+ * resolvePointer("1/title", "/lists/0/items/2") // "/lists/0/items/title"
+ * resolvePointer("/user/name", "/items/0") // "/user/name"
+ */
+export function resolvePointer(path: string, scope = ""): string | undefined {
+  const tokens = resolveTokens(path, scope);
+  return tokens && formatPointer(tokens);
+}
 
 /**
  * Get a value from an object by JSON Pointer path.
  *
+ * `scope` is the absolute pointer that relative pointers resolve against;
+ * without a scope every path is absolute. The relative pointer `"N#"`
+ * returns the key (or array index) of the value N levels above `scope`.
+ *
  * @example
- * const data = { user: { name: "John", profile: { age: 30 } } };
+ * const data = { user: { name: "John" }, items: [{ title: "First" }] };
  * getByPath(data, "/user/name") // "John"
- * getByPath(data, "/user/profile/age") // 30
+ * getByPath(data, "/items/0/title") // "First"
  * getByPath(data, "/missing") // undefined
+ *
+ * // Relative to the scope "/items/0"
+ * getByPath(data, "0/title", "/items/0") // "First"
+ * getByPath(data, "0#", "/items/0") // 0
  */
-export function getByPath(obj: unknown, path: string): unknown {
-  if (!path || path === "/") {
-    return obj;
+export function getByPath(obj: unknown, path: string, scope = ""): unknown {
+  const relative = matchRelative(path, scope);
+  if (relative?.[2] === "#") {
+    const tokens = resolveTokens(path, scope);
+    if (!tokens || tokens.length === 0) return undefined;
+    const parent = getByPath(obj, formatPointer(tokens.slice(0, -1)));
+    const key = tokens[tokens.length - 1]!;
+    return Array.isArray(parent) ? Number(key) : key;
   }
 
-  const segments = path.startsWith("/")
-    ? path.slice(1).split("/")
-    : path.split("/");
+  const tokens = resolveTokens(path, scope);
+  if (!tokens) return undefined;
 
   let current: unknown = obj;
 
-  for (const segment of segments) {
+  for (const token of tokens) {
     if (current === null || current === undefined) {
       return undefined;
     }
 
-    if (typeof current === "object") {
-      current = (current as Record<string, unknown>)[segment];
+    if (Array.isArray(current)) {
+      // "-" (past the end) and non-index tokens never match an element
+      current = ARRAY_INDEX.test(token) ? current[Number(token)] : undefined;
+    } else if (typeof current === "object") {
+      current = (current as Record<string, unknown>)[token];
     } else {
       return undefined;
     }
@@ -43,36 +160,88 @@ export function getByPath(obj: unknown, path: string): unknown {
 
 /**
  * Set a value in an object by JSON Pointer path.
- * Creates intermediate objects as needed.
+ * Creates intermediate containers as needed: arrays when the next token is
+ * an array index or `-`, objects otherwise. On arrays, `-` appends.
+ * Paths through `__proto__`, `constructor` or `prototype` are ignored.
  *
  * @example
  * const data = {};
  * setByPath(data, "/user/name", "John");
  * // data is now { user: { name: "John" } }
+ *
+ * setByPath(data, "/user/tags/-", "admin");
+ * // data is now { user: { name: "John", tags: ["admin"] } }
  */
 export function setByPath(
   obj: Record<string, unknown>,
   path: string,
   value: unknown,
+  scope = "",
 ): void {
-  const segments = path.startsWith("/")
-    ? path.slice(1).split("/")
-    : path.split("/");
+  const tokens = resolveTokens(path, scope);
+  if (!tokens || tokens.length === 0) return;
 
-  if (segments.length === 0) return;
+  let current: Container = obj;
 
-  let current: Record<string, unknown> = obj;
+  for (let i = 0; i < tokens.length - 1; i++) {
+    const token = tokens[i]!;
+    const next = tokens[i + 1]!;
+    const key = containerKey(current, token);
+    const child = (current as Record<string | number, unknown>)[key];
 
-  for (let i = 0; i < segments.length - 1; i++) {
-    const segment = segments[i]!;
-    if (!(segment in current) || typeof current[segment] !== "object") {
-      current[segment] = {};
+    if (typeof child === "object" && child !== null) {
+      current = child as Container;
+    } else {
+      const created: Container =
+        next === "-" || ARRAY_INDEX.test(next) ? [] : {};
+      (current as Record<string | number, unknown>)[key] = created;
+      current = created;
     }
-    current = current[segment] as Record<string, unknown>;
   }
 
-  const lastSegment = segments[segments.length - 1]!;
-  current[lastSegment] = value;
+  const last = containerKey(current, tokens[tokens.length - 1]!);
+  (current as Record<string | number, unknown>)[last] = value;
+}
+
+/** Key for `token` in `container`; `-` on an array is the next free index. */
+function containerKey(container: Container, token: string): string | number {
+  if (!Array.isArray(container)) return token;
+  return token === "-" ? container.length : token;
+}
+
+/**
+ * Set a value by JSON Pointer path without mutating `obj`.
+ * Containers along the path are copied; everything else is shared. Returns
+ * `obj` itself when the path cannot be written.
+ *
+ * @example
+ * const data = { form: { email: "" }, items: [] };
+ * const next = updateByPath(data, "/form/email", "ada@example.com");
+ * // next.form !== data.form, next.items === data.items
+ */
+export function updateByPath(
+  obj: DataModel,
+  path: string,
+  value: unknown,
+  scope = "",
+): DataModel {
+  const tokens = resolveTokens(path, scope);
+  if (!tokens || tokens.length === 0) return obj;
+
+  const next: DataModel = { ...obj };
+  let current: Container = next;
+
+  for (const token of tokens.slice(0, -1)) {
+    const key = containerKey(current, token);
+    const child: unknown = (current as Record<string | number, unknown>)[key];
+    if (typeof child !== "object" || child === null) break;
+    const copy: Container = Array.isArray(child) ? [...child] : { ...child };
+    (current as Record<string | number, unknown>)[key] = copy;
+    current = copy;
+  }
+
+  setByPath(next, path, value, scope);
+  return next;
 }
 
 /**
@@ -87,10 +256,22 @@ export function isDynamicPath(value: unknown): value is { path: string } {
   );
 }
 
+/**
+ * Check if a value is a two-way data binding (`{ bind: "/form/email" }`).
+ */
+export function isDataBinding(value: unknown): value is DataBinding {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "bind" in value &&
+    typeof (value as { bind: unknown }).bind === "string"
+  );
+}
+
 /**
  * Resolve a dynamic value against a data model.
- * If the value is a path reference, look it up in the data model.
- * Otherwise, return the literal value.
+ * If the value is a path reference or data binding, look it up in the data
+ * model. Otherwise, return the literal value.
  *
  * @example
  * const data = { user: { name: "John" } };
@@ -100,41 +281,98 @@ export function isDynamicPath(value: unknown): value is { path: string } {
 export function resolveDynamicValue<T>(
   value: DynamicValue<T>,
   dataModel: DataModel,
+  scope = "",
 ): T | undefined {
   if (value === null || value === undefined) {
     return undefined;
   }
 
   if (isDynamicPath(value)) {
-    return getByPath(dataModel, value.path) as T | undefined;
+    return getByPath(dataModel, value.path, scope) as T | undefined;
+  }
+
+  if (isDataBinding(value)) {
+    return getByPath(dataModel, value.bind, scope) as T | undefined;
   }
 
   return value as T;
 }
 
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value as string | number | boolean | bigint | symbol);
+}
+
+/**
+ * Interpolate `{{pointer}}` placeholders in a string.
+ *
+ * A string that is exactly one placeholder resolves to the raw value (so
+ * `"{{/count}}"` stays a number); otherwise values are stringified, with
+ * missing values rendered as `""` and objects as JSON.
+ *
+ * @example
+ * const data = { user: { name: "Ada" }, count: 3 };
+ * resolveTemplate("Hello {{/user/name}}!", data) // "Hello Ada!"
+ * resolveTemplate("{{/count}}", data) // 3
+ */
+export function resolveTemplate(
+  template: string,
+  dataModel: DataModel,
+  scope = "",
+): unknown {
+  const exact = new RegExp(`^${TEMPLATE.source}$`).exec(template);
+  if (exact) return getByPath(dataModel, exact[1]!, scope);
+
+  return template.replace(TEMPLATE, (_, pointer: string) =>
+    stringify(getByPath(dataModel, pointer, scope)),
+  );
+}
+
+function resolveValue(
+  value: unknown,
+  dataModel: DataModel,
+  scope: string,
+): unknown {
+  if (isDynamicPath(value)) return getByPath(dataModel, value.path, scope);
+  if (isDataBinding(value)) return getByPath(dataModel, value.bind, scope);
+  if (typeof value === "string") {
+    return value.includes("{{")
+      ? resolveTemplate(value, dataModel, scope)
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveValue(item, dataModel, scope));
+  }
+  if (typeof value === "object" && value !== null) {
+    // Recursively resolve nested objects
+    return resolveProps(value as Record<string, unknown>, dataModel, scope);
+  }
+  return value;
+}
+
 /**
  * Resolve all dynamic values in an object.
- * Recursively resolves any { path: string } references.
+ * Recursively resolves `{ path }` references and `{ bind }` bindings to
+ * their current value, and interpolates `{{pointer}}` string templates,
+ * including inside arrays. Relative pointers resolve against `scope`.
+ *
+ * @example
+ * resolveProps(
+ *   { children: "Hello {{/user/name}}", title: { path: "0/title" } },
+ *   data,
+ *   "/items/0",
+ * );
  */
 export function resolveProps(
   props: Record<string, unknown>,
   dataModel: DataModel,
+  scope = "",
 ): Record<string, unknown> {
   const resolved: Record<string, unknown> = {};
 
   for (const [key, value] of Object.entries(props)) {
-    if (isDynamicPath(value)) {
-      resolved[key] = getByPath(dataModel, value.path);
-    } else if (
-      typeof value === "object" &&
-      value !== null &&
-      !Array.isArray(value)
-    ) {
-      // Recursively resolve nested objects
-      resolved[key] = resolveProps(value as Record<string, unknown>, dataModel);
-    } else {
-      resolved[key] = value;
-    }
+    resolved[key] = resolveValue(value, dataModel, scope);
   }
 
   return resolved;
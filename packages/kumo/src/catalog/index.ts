@@ -6,10 +6,14 @@
  *
  * Features:
  * - Catalog creation with auto-generated Zod schemas
- * - UI tree validation
- * - Dynamic value resolution (data binding)
+ * - UI tree validation (shape, references, cycles and nesting rules)
+ * - Auto-repair of almost-valid AI-generated trees
+ * - Dynamic value resolution and two-way data binding
  * - Visibility condition evaluation
- * - Action handling
+ * - Action execution (param validation, confirmation, data updates)
+ * - Rendering UI trees into Kumo components
+ * - Incremental tree assembly from streamed patches
+ * - Schema-aware AI prompts and tool definitions
  *
  * @example
  * import {
@@ -27,10 +31,13 @@
  * });
  *
  * // Initialize (loads schemas)
- * await initCatalog(catalog);
+ * await initCatalog();
  *
  * // Validate AI-generated tree
  * const result = catalog.validateTree(aiGeneratedJson);
+ *
+ * // Render the validated tree
+ * <KumoRenderer tree={result.data} data={data} actions={handlers} />
  */
 
 // Types
@@ -42,9 +49,12 @@ export type {
   DynamicString,
   DynamicNumber,
   DynamicBoolean,
+  DataBinding,
+  ElementRepeat,
   // Visibility
   VisibilityCondition,
   LogicExpression,
+  Operand,
   // Actions
   Action,
   ActionConfirm,
@@ -57,6 +67,11 @@ export type {
   // Catalog
   KumoCatalog,
   CatalogConfig,
+  CatalogToolDefinition,
+  NestingRule,
+  RepairFix,
+  RepairResult,
+  PromptOptions,
   ValidationResult,
   // Registry (re-exported)
   ComponentRegistry,
@@ -66,16 +81,34 @@ export type {
 } from "./types";
 
 // Catalog
-export { createKumoCatalog, initCatalog, loadSchemas } from "./catalog";
+export {
+  createKumoCatalog,
+  initCatalog,
+  loadSchemas,
+  loadRegistry,
+} from "./catalog";
+
+// Structural validation
+export { validateTreeStructure, KUMO_NESTING_RULES } from "./structure";
+
+// Prompt generation
+export { estimateTokens } from "./prompt";
 
 // Data utilities
 export {
   getByPath,
   setByPath,
+  updateByPath,
+  parsePointer,
+  formatPointer,
+  resolvePointer,
   isDynamicPath,
+  isDataBinding,
   resolveDynamicValue,
+  resolveTemplate,
   resolveProps,
 } from "./data";
+export { createDataStore, type DataStore } from "./store";
 
 // Visibility
 export {
@@ -83,3 +116,38 @@ export {
   createVisibilityContext,
   type VisibilityContext,
 } from "./visibility";
+
+// Actions
+export {
+  executeAction,
+  resolveActionParams,
+  validateActionParams,
+  applyDataUpdates,
+  type ActionResult,
+  type ActionStatus,
+  type ExecuteActionOptions,
+} from "./actions";
+export {
+  ActionConfirmDialog,
+  type ActionConfirmDialogProps,
+} from "./confirm-dialog";
+
+// Renderer
+export {
+  KumoRenderer,
+  ACTION_EVENT_PROPS,
+  type KumoRendererProps,
+} from "./renderer";
+export { BINDING_PROPS, type BindingConfig } from "./bindings";
+export {
+  KUMO_CATALOG_COMPONENTS,
+  resolveComponent,
+  type CatalogComponentMap,
+} from "./components";
+
+// Streaming
+export {
+  createUITreeBuilder,
+  type UITreeBuilder,
+  type UITreePatch,
+} from "./stream";
@@ -0,0 +1,158 @@
+/**
+ * Tests for catalog prompt generation
+ */
+
+import { beforeAll, describe, it, expect, vi } from "vitest";
+import { createKumoCatalog, initCatalog } from "./catalog";
+import { estimateTokens } from "./prompt";
+
+const catalog = createKumoCatalog({
+  actions: {
+    delete_item: {
+      description: "Delete an item by ID",
+      params: { itemId: { type: "string", required: true } },
+    },
+  },
+});
+
+beforeAll(async () => {
+  await initCatalog();
+});
+
+describe("generatePrompt", () => {
+  it("describes props, variants, sub-components and examples", () => {
+    const prompt = catalog.generatePrompt({ components: ["Badge", "Table"] });
+
+    expect(prompt).toContain("### Badge");
+    expect(prompt).toContain(
+      '| `variant` | `"primary" \\| "secondary" \\| "destructive" \\| "outline" \\| "beta"` | `primary` |',
+    );
+    expect(prompt).toContain(
+      "- `beta`: Indicates beta or experimental features",
+    );
+    expect(prompt).toContain("- `Table.Row`: Row sub-component");
+    expect(prompt).toContain("```tsx");
+    expect(prompt).toContain(
+      "- `delete_item`: Delete an item by ID (params: `itemId`: string, required)",
+    );
+    expect(prompt).toContain("## Output Format");
+    expect(prompt).toContain("## Visibility Conditions");
+    expect(prompt).toContain(
+      '- `{ "exists": "/p" }`: value at path is defined',
+    );
+  });
+
+  it("only describes the requested components", () => {
+    const prompt = catalog.generatePrompt({ components: ["Badge"] });
+
+    expect(prompt).toContain("### Badge");
+    expect(prompt).not.toContain("### Button");
+  });
+
+  it("omits callback props", () => {
+    const prompt = catalog.generatePrompt({ components: ["Select"] });
+
+    expect(prompt).not.toContain("`onValueChange`");
+  });
+
+  it("reduces detail to fit the token budget", () => {
+    const full = catalog.generatePrompt();
+    const budget = 4000;
+    const budgeted = catalog.generatePrompt({ maxTokens: budget });
+
+    expect(estimateTokens(full)).toBeGreaterThan(budget);
+    expect(estimateTokens(budgeted)).toBeLessThanOrEqual(budget);
+    expect(budgeted).toContain("`Badge`");
+  });
+
+  it("warns when even the smallest prompt exceeds the budget", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const prompt = catalog.generatePrompt({ maxTokens: 10 });
+
+    expect(prompt).toContain("- `Badge`");
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("skips examples when disabled", () => {
+    const prompt = catalog.generatePrompt({
+      components: ["Badge"],
+      examples: false,
+    });
+
+    expect(prompt).toContain("### Badge");
+    expect(prompt).not.toContain("```tsx");
+  });
+
+  it("emits a serialized tool definition for the json-schema format", () => {
+    const prompt = catalog.generatePrompt({
+      components: ["Badge"],
+      format: "json-schema",
+    });
+
+    expect(JSON.parse(prompt)).toEqual(
+      catalog.generateToolDefinition({ components: ["Badge"] }),
+    );
+  });
+});
+
+describe("generateToolDefinition", () => {
+  it("describes each component's props as JSON Schema", () => {
+    const tool = catalog.generateToolDefinition({ components: ["Badge"] });
+    const schema = tool.input_schema as {
+      properties: {
+        elements: { additionalProperties: { anyOf: unknown[] } };
+      };
+      $defs: Record<string, unknown>;
+    };
+    const [badge] = schema.properties.elements.additionalProperties.anyOf as {
+      properties: {
+        type: unknown;
+        props: { properties: Record<string, unknown> };
+      };
+    }[];
+
+    expect(tool.name).toBe("render_ui");
+    expect(badge!.properties.type).toEqual({ const: "Badge" });
+    expect(badge!.properties.props.properties.variant).toMatchObject({
+      type: "string",
+      enum: ["primary", "secondary", "destructive", "outline", "beta"],
+      default: "primary",
+    });
+    expect(schema.$defs.Action).toMatchObject({
+      properties: { name: { enum: ["delete_item"] } },
+    });
+  });
+
+  it("accepts bindings on bindable value props", () => {
+    const tool = catalog.generateToolDefinition({ components: ["Checkbox"] });
+    const schema = tool.input_schema as {
+      properties: {
+        elements: { additionalProperties: { anyOf: unknown[] } };
+      };
+      $defs: Record<string, unknown>;
+    };
+    const [checkbox] = schema.properties.elements.additionalProperties
+      .anyOf as {
+      properties: { props: { properties: Record<string, unknown> } };
+    }[];
+
+    expect(checkbox!.properties.props.properties.checked).toMatchObject({
+      anyOf: [{ type: "boolean" }, { $ref: "#/$defs/DataBinding" }],
+    });
+    expect(schema.$defs.DataBinding).toMatchObject({ required: ["bind"] });
+  });
+
+  it("drops descriptions to fit the token budget", () => {
+    const full = catalog.generateToolDefinition();
+    const compact = catalog.generateToolDefinition({
+      maxTokens: estimateTokens(JSON.stringify(full)) - 1,
+    });
+
+    expect(JSON.stringify(compact).length).toBeLessThan(
+      JSON.stringify(full).length,
+    );
+    expect(JSON.stringify(compact)).not.toContain("Visual style of the badge.");
+  });
+});
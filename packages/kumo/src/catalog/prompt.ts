@@ -0,0 +1,619 @@
+/**
+ * Catalog prompt generation.
+ *
+ * Builds LLM-facing descriptions of the catalog from the component registry:
+ * per-component prop tables, allowed variant values, sub-components and
+ * examples as Markdown, or a JSON Schema tool definition for function-calling
+ * APIs.
+ */
+
+import type {
+  ActionDefinition,
+  CatalogToolDefinition,
+  ComponentRegistry,
+  ComponentSchema,
+  PromptOptions,
+  PropSchema,
+} from "./types";
+import { BINDING_PROPS } from "./bindings";
+
+/**
+ * Levels of detail, from richest to smallest. When a token budget is set the
+ * first level that fits is used.
+ * - `"full"` — prop tables, variant descriptions, sub-components and an example
+ * - `"no-examples"` — prop tables and sub-component names
+ * - `"compact"` — one line per component listing its props
+ * - `"names"` — component names only
+ */
+type DetailLevel = "full" | "no-examples" | "compact" | "names";
+
+const DETAIL_LEVELS: readonly DetailLevel[] = [
+  "full",
+  "no-examples",
+  "compact",
+  "names",
+];
+
+/** Prop types an LLM can produce as plain JSON. */
+const SIMPLE_PROP_TYPES = ["enum", "string", "number", "boolean", "ReactNode"];
+
+/** Logic expression operators, as described to the LLM. */
+const VISIBILITY_OPERATORS: readonly (readonly [string, string])[] = [
+  ['{ "path": "/p" }', "value at path is truthy"],
+  ['{ "and": [...] }, { "or": [...] }, { "not": expr }', "boolean logic"],
+  ['{ "eq" | "neq" | "gt" | "gte" | "lt" | "lte": [a, b] }', "comparisons"],
+  [
+    '{ "in": [value, list] }',
+    "value is in a list (or a substring of a string)",
+  ],
+  ['{ "contains": [list, value] }', "list (or string) contains value"],
+  ['{ "startsWith": [text, prefix] }', "string prefix check"],
+  [
+    '{ "matches": [text, "regex"] }',
+    "regular expression match (no backreferences or nested repeats)",
+  ],
+  ['{ "isEmpty": "/p" }', 'value at path is null, "", [] or {}'],
+  ['{ "exists": "/p" }', "value at path is defined"],
+  ['{ "role": "admin" | ["admin", "owner"] }', "user has any of the roles"],
+  [
+    '{ "permission": "billing:write" | [...] }',
+    "user has all of the permissions",
+  ],
+];
+
+/** Longest registry example (in characters) shown in the prompt. */
+const MAX_EXAMPLE_LENGTH = 240;
+
+/**
+ * Rough token count for a prompt (about four characters per token).
+ * Good enough to budget prompts without shipping a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Pick the components to describe, in registry order.
+ * Unknown names in `names` are ignored.
+ */
+function selectComponents(
+  registry: ComponentRegistry,
+  names?: readonly string[],
+): ComponentSchema[] {
+  const all = Object.values(registry.components);
+  if (!names) return all;
+  return all.filter((component) => names.includes(component.name));
+}
+
+/**
+ * Props worth describing to an LLM. Callbacks can't be expressed in JSON, and
+ * undocumented props with complex types (e.g. the many SVG attributes on
+ * `CloudflareLogo`) would only spend tokens.
+ */
+function describableProps(
+  component: Pick<ComponentSchema, "props">,
+): [string, PropSchema][] {
+  return Object.entries(component.props).filter(
+    ([, prop]) =>
+      !prop.type.includes("=>") &&
+      (Boolean(prop.description) ||
+        prop.required === true ||
+        SIMPLE_PROP_TYPES.includes(prop.type)),
+  );
+}
+
+/** First line of a (possibly multi-line) description. */
+function summary(text: string | undefined): string {
+  return (text ?? "").split("\n")[0]!.trim();
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|");
+}
+
+function formatPropType(prop: PropSchema): string {
+  if (prop.type === "enum" && prop.values?.length) {
+    return prop.values.map((value) => `"${value}"`).join(" \\| ");
+  }
+  return escapeCell(prop.type);
+}
+
+/** Shortest registry example, if one is short enough to be worth including. */
+function pickExample(component: ComponentSchema): string | undefined {
+  const [shortest] = component.examples.toSorted((a, b) => a.length - b.length);
+  return shortest && shortest.length <= MAX_EXAMPLE_LENGTH
+    ? shortest
+    : undefined;
+}
+
+function describeComponent(
+  component: ComponentSchema,
+  level: DetailLevel,
+): string[] {
+  const props = describableProps(component);
+  const subComponents = Object.values(component.subComponents ?? {});
+
+  if (level === "names") {
+    return [`- \`${component.name}\``];
+  }
+
+  if (level === "compact") {
+    const propList = props
+      .map(([name, prop]) =>
+        prop.type === "enum" && prop.values?.length
+          ? `${name} (${prop.values.join("|")})`
+          : name,
+      )
+      .join(", ");
+    return [
+      `- \`${component.name}\`: ${summary(component.description)}` +
+        (propList ? ` Props: ${propList}` : ""),
+    ];
+  }
+
+  const lines = [`### ${component.name}`, "", component.description, ""];
+
+  if (props.length > 0) {
+    lines.push("| Prop | Type | Default | Description |");
+    lines.push("| --- | --- | --- | --- |");
+    for (const [name, prop] of props) {
+      const label = prop.required ? `\`${name}\` (required)` : `\`${name}\``;
+      const defaultValue = prop.default ? `\`${prop.default}\`` : "";
+      lines.push(
+        `| ${label} | \`${formatPropType(prop)}\` | ${defaultValue} | ${escapeCell(summary(prop.description))} |`,
+      );
+    }
+    lines.push("");
+  }
+
+  if (level === "full") {
+    for (const [name, prop] of props) {
+      if (!prop.descriptions) continue;
+      lines.push(`\`${name}\` values:`);
+      for (const [value, description] of Object.entries(prop.descriptions)) {
+        lines.push(`- \`${value}\`: ${summary(description)}`);
+      }
+      lines.push("");
+    }
+  }
+
+  if (subComponents.length > 0) {
+    if (level === "full") {
+      lines.push("Sub-components:");
+      for (const sub of subComponents) {
+        lines.push(
+          `- \`${component.name}.${sub.name}\`: ${summary(sub.description)}`,
+        );
+      }
+    } else {
+      lines.push(
+        `Sub-components: ${subComponents
+          .map((sub) => `\`${component.name}.${sub.name}\``)
+          .join(", ")}`,
+      );
+    }
+    lines.push("");
+  }
+
+  const example = level === "full" ? pickExample(component) : undefined;
+  if (example) {
+    lines.push("Example:", "", "```tsx", example, "```", "");
+  }
+
+  return lines;
+}
+
+function describeAction(name: string, definition: ActionDefinition): string {
+  const params = Object.entries(definition.params ?? {}).map(
+    ([param, schema]) =>
+      `\`${param}\`: ${schema.type}${schema.required ? ", required" : ""}`,
+  );
+  return (
+    `- \`${name}\`: ${definition.description}` +
+    (params.length > 0 ? ` (params: ${params.join("; ")})` : "")
+  );
+}
+
+function renderMarkdown(
+  components: ComponentSchema[],
+  actions: Record<string, ActionDefinition>,
+  level: DetailLevel,
+): string {
+  const lines: string[] = [
+    "# Kumo Component Catalog",
+    "",
+    "You are generating UI using Kumo components. Output must be valid JSON matching the UITree schema.",
+    "",
+    "## Available Components",
+    "",
+  ];
+
+  for (const component of components) {
+    lines.push(...describeComponent(component, level));
+  }
+
+  // Actions section
+  const actionEntries = Object.entries(actions);
+  if (actionEntries.length > 0) {
+    lines.push("");
+    lines.push("## Available Actions");
+    lines.push("");
+    for (const [name, definition] of actionEntries) {
+      lines.push(describeAction(name, definition));
+    }
+  }
+
+  // Output format
+  lines.push("");
+  lines.push("## Output Format");
+  lines.push("");
+  lines.push("```json");
+  lines.push("{");
+  lines.push('  "root": "element-1",');
+  lines.push('  "elements": {');
+  lines.push('    "element-1": {');
+  lines.push('      "key": "element-1",');
+  lines.push('      "type": "ComponentName",');
+  lines.push('      "props": { ... },');
+  lines.push('      "children": ["element-2"],');
+  lines.push(
+    '      "visible": true | { "path": "/data/path" } | { "auth": "signedIn" }',
+  );
+  lines.push("    }");
+  lines.push("  }");
+  lines.push("}");
+  lines.push("```");
+  lines.push("");
+
+  // Dynamic values
+  lines.push("## Dynamic Values");
+  lines.push("");
+  lines.push(
+    'Props can reference data model values using `{ path: "/data/path" }`:',
+  );
+  lines.push("");
+  lines.push("```json");
+  lines.push("{");
+  lines.push('  "type": "Text",');
+  lines.push('  "props": {');
+  lines.push('    "children": { "path": "/user/name" }');
+  lines.push("  }");
+  lines.push("}");
+  lines.push("```");
+  lines.push("");
+  lines.push(
+    'String props can interpolate values with `{{/data/path}}`, e.g. `"Hello {{/user/name}}"`. Paths are JSON Pointers: array items are `/items/0`, and `~1`/`~0` escape `/`/`~` in keys.',
+  );
+  lines.push("");
+  lines.push(
+    `Form values bind to the data model with \`{ bind: "/data/path" }\`: the value is read from the path and user edits are written back. Supported on ${Object.entries(
+      BINDING_PROPS,
+    )
+      .map(([type, { valueProp }]) => `\`${type}.${valueProp}\``)
+      .join(", ")}.`,
+  );
+  lines.push("");
+  lines.push("```json");
+  lines.push("{");
+  lines.push('  "type": "Input",');
+  lines.push('  "props": {');
+  lines.push('    "label": "Email",');
+  lines.push('    "value": { "bind": "/form/email" }');
+  lines.push("  }");
+  lines.push("}");
+  lines.push("```");
+  lines.push("");
+
+  // Lists
+  lines.push("## Lists");
+  lines.push("");
+  lines.push(
+    'An element with `"repeat": { "path": "/users", "key": "/id" }` renders once per item of the array. Inside it and its children, relative paths point into the item: `"0/name"` is the item\'s `name`, `"0#"` its index and `"1/title"` a sibling of the array.',
+  );
+  lines.push("");
+  lines.push("```json");
+  lines.push("{");
+  lines.push('  "key": "user-row",');
+  lines.push('  "type": "Table.Row",');
+  lines.push('  "props": {},');
+  lines.push('  "repeat": { "path": "/users", "key": "/id" },');
+  lines.push('  "children": ["user-name"]');
+  lines.push("}");
+  lines.push("```");
+  lines.push("");
+
+  // Visibility conditions
+  lines.push("## Visibility Conditions");
+  lines.push("");
+  lines.push(
+    '`visible` is `true`/`false`, `{ "auth": "signedIn" | "signedOut" }` or a logic expression:',
+  );
+  lines.push("");
+  for (const [operator, description] of VISIBILITY_OPERATORS) {
+    lines.push(`- \`${operator}\`: ${description}`);
+  }
+  lines.push("");
+  lines.push(
+    'Operands are literals, `{ "path": "/data/path" }`, `{ "length": <operand> }` or arithmetic `{ "add" | "sub" | "mul" | "div" | "mod": [a, b] }`.',
+  );
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+/**
+ * JSON Schema for a single prop, mirroring the generated Zod prop schemas.
+ */
+function propToJsonSchema(
+  prop: PropSchema,
+  withDescription: boolean,
+): Record<string, unknown> {
+  let schema: Record<string, unknown>;
+
+  if (prop.type === "enum" && prop.values?.length) {
+    schema = { type: "string", enum: [...prop.values] };
+  } else if (["string", "number", "boolean"].includes(prop.type)) {
+    schema = { type: prop.type };
+  } else if (prop.type === "ReactNode") {
+    schema = {
+      anyOf: [
+        { type: ["string", "number", "boolean", "null"] },
+        { $ref: "#/$defs/DynamicPath" },
+      ],
+    };
+  } else if (prop.type.endsWith("[]")) {
+    schema = {
+      type: "array",
+      items: prop.type === "string[]" ? { type: "string" } : {},
+    };
+  } else {
+    schema = {};
+  }
+
+  const description = summary(prop.description);
+  if (withDescription && description) schema.description = description;
+  if (prop.default !== undefined && prop.type === "enum") {
+    schema.default = prop.default;
+  }
+  return schema;
+}
+
+/**
+ * JSON Schema for an element of the given type. `component` may be a
+ * sub-component, in which case `type` is its dotted name (e.g. `Table.Row`).
+ */
+function componentToJsonSchema(
+  type: string,
+  component: Pick<ComponentSchema, "description" | "props">,
+  withDescriptions: boolean,
+  hasActions: boolean,
+): Record<string, unknown> {
+  const props = describableProps(component);
+  const required = props
+    .filter(([, prop]) => prop.required && !prop.optional)
+    .map(([name]) => name);
+  const properties: Record<string, unknown> = Object.fromEntries(
+    props.map(([name, prop]) => [
+      name,
+      propToJsonSchema(prop, withDescriptions),
+    ]),
+  );
+
+  // The bindable value prop also accepts { bind }
+  const binding = BINDING_PROPS[type];
+  if (binding) {
+    const literal = properties[binding.valueProp];
+    properties[binding.valueProp] = literal
+      ? { anyOf: [literal, { $ref: "#/$defs/DataBinding" }] }
+      : { $ref: "#/$defs/DataBinding" };
+  }
+
+  return {
+    type: "object",
+    ...(withDescriptions ? { description: component.description } : {}),
+    properties: {
+      key: { type: "string" },
+      type: { const: type },
+      props: {
+        type: "object",
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+      },
+      children: { type: "array", items: { type: "string" } },
+      parentKey: { type: ["string", "null"] },
+      visible: { $ref: "#/$defs/Visibility" },
+      repeat: { $ref: "#/$defs/Repeat" },
+      ...(hasActions ? { action: { $ref: "#/$defs/Action" } } : {}),
+    },
+    required: ["key", "type", "props"],
+  };
+}
+
+function renderToolDefinition(
+  components: ComponentSchema[],
+  actions: Record<string, ActionDefinition>,
+  withDescriptions: boolean,
+): CatalogToolDefinition {
+  const actionNames = Object.keys(actions);
+  const hasActions = actionNames.length > 0;
+
+  return {
+    name: "render_ui",
+    description:
+      "Render a UI built from Kumo components. Elements are stored flat in `elements`, keyed by `key`, and reference their children by key.",
+    input_schema: {
+      type: "object",
+      properties: {
+        root: { type: "string", description: "Key of the root element" },
+        elements: {
+          type: "object",
+          additionalProperties: {
+            anyOf: components.flatMap((component) => [
+              componentToJsonSchema(
+                component.name,
+                component,
+                withDescriptions,
+                hasActions,
+              ),
+              ...Object.values(component.subComponents ?? {}).map((sub) =>
+                componentToJsonSchema(
+                  `${component.name}.${sub.name}`,
+                  sub,
+                  withDescriptions,
+                  hasActions,
+                ),
+              ),
+            ]),
+          },
+        },
+      },
+      required: ["root", "elements"],
+      $defs: {
+        DynamicPath: {
+          type: "object",
+          description: "Reference to a value in the data model",
+          properties: { path: { type: "string" } },
+          required: ["path"],
+        },
+        DataBinding: {
+          type: "object",
+          description:
+            "Two-way binding: reads the value from the data model and writes user edits back",
+          properties: { bind: { type: "string" } },
+          required: ["bind"],
+        },
+        Repeat: {
+          type: "object",
+          description:
+            'Render the element once per item of the array at `path`. Inside it, relative paths like "0/name" point into the item',
+          properties: { path: { type: "string" }, key: { type: "string" } },
+          required: ["path"],
+        },
+        Visibility: {
+          description:
+            'true/false, { "path": "/data/path" }, { "auth": "signedIn" | "signedOut" } or a logic expression ({ "and" | "or" | "not" | "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "in" | "contains" | "startsWith" | "matches" | "isEmpty" | "exists" | "role" | "permission" }). Comparison operands may be { "length": operand } or { "add" | "sub" | "mul" | "div" | "mod": [a, b] }.',
+        },
+        ...(hasActions
+          ? {
+              Action: {
+                type: "object",
+                properties: {
+                  name: {
+                    type: "string",
+                    enum: actionNames,
+                    ...(withDescriptions
+                      ? {
+                          description: Object.entries(actions)
+                            .map(([name, def]) => `${name}: ${def.description}`)
+                            .join("; "),
+                        }
+                      : {}),
+                  },
+                  params: { type: "object" },
+                  confirm: {
+                    type: "object",
+                    properties: {
+                      title: { type: "string" },
+                      message: { type: "string" },
+                      variant: { type: "string", enum: ["default", "danger"] },
+                      confirmLabel: { type: "string" },
+                      cancelLabel: { type: "string" },
+                    },
+                    required: ["title", "message"],
+                  },
+                  onSuccess: {
+                    type: "object",
+                    properties: { set: { type: "object" } },
+                  },
+                  onError: {
+                    type: "object",
+                    properties: { set: { type: "object" } },
+                  },
+                },
+                required: ["name"],
+              },
+            }
+          : {}),
+      },
+    },
+  };
+}
+
+function warnOverBudget(tokens: number, maxTokens: number): void {
+  if (process.env.NODE_ENV !== "production") {
+    console.warn(
+      `[Kumo Catalog]: Prompt needs ~${tokens} tokens even at its smallest, over the ${maxTokens} token budget. Pass fewer components.`,
+    );
+  }
+}
+
+/**
+ * Generate a JSON Schema tool definition describing the UITree output.
+ *
+ * With `maxTokens`, descriptions are dropped if the full definition does not
+ * fit.
+ */
+export function generateToolDefinition(
+  registry: ComponentRegistry,
+  actions: Record<string, ActionDefinition>,
+  options: PromptOptions = {},
+): CatalogToolDefinition {
+  const components = selectComponents(registry, options.components);
+  const full = renderToolDefinition(components, actions, true);
+  const { maxTokens } = options;
+
+  if (
+    maxTokens === undefined ||
+    estimateTokens(JSON.stringify(full)) <= maxTokens
+  ) {
+    return full;
+  }
+
+  const compact = renderToolDefinition(components, actions, false);
+  const tokens = estimateTokens(JSON.stringify(compact));
+  if (tokens > maxTokens) warnOverBudget(tokens, maxTokens);
+  return compact;
+}
+
+/**
+ * Generate a prompt describing the catalog.
+ *
+ * Markdown output (the default) lists each component with its props,
+ * allowed variant values, sub-components and an example, followed by the
+ * actions, output format and dynamic value syntax. `format: "json-schema"`
+ * returns the serialized {@link generateToolDefinition} instead.
+ *
+ * With `maxTokens`, detail is reduced (examples first, then prop tables,
+ * then descriptions) until the prompt fits the budget.
+ */
+export function generateCatalogPrompt(
+  registry: ComponentRegistry,
+  actions: Record<string, ActionDefinition>,
+  options: PromptOptions = {},
+): string {
+  if (options.format === "json-schema") {
+    return JSON.stringify(
+      generateToolDefinition(registry, actions, options),
+      null,
+      2,
+    );
+  }
+
+  const components = selectComponents(registry, options.components);
+  const levels =
+    options.examples === false
+      ? DETAIL_LEVELS.filter((level) => level !== "full")
+      : DETAIL_LEVELS;
+  const { maxTokens } = options;
+
+  let prompt = "";
+  for (const level of levels) {
+    prompt = renderMarkdown(components, actions, level);
+    if (maxTokens === undefined || estimateTokens(prompt) <= maxTokens) {
+      return prompt;
+    }
+  }
+
+  warnOverBudget(estimateTokens(prompt), maxTokens!);
+  return prompt;
+}
@@ -0,0 +1,469 @@
+/**
+ * Tests for the catalog renderer
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { KumoRenderer } from "./renderer";
+import { createDataStore } from "./store";
+import { resolveComponent } from "./components";
+import { Table } from "../components/table";
+import type { UITree } from "./types";
+
+describe("resolveComponent", () => {
+  it("resolves root components", () => {
+    expect(resolveComponent("Table")).toBe(Table);
+  });
+
+  it("resolves compound sub-components", () => {
+    expect(resolveComponent("Table.Row")).toBe(Table.Row);
+    expect(resolveComponent("Table.Cell")).toBe(Table.Cell);
+  });
+
+  it("returns undefined for unknown types", () => {
+    expect(resolveComponent("Unknown")).toBeUndefined();
+    expect(resolveComponent("Table.Unknown")).toBeUndefined();
+  });
+});
+
+const removeAction = (id: number) => ({
+  name: "remove",
+  params: { id },
+  confirm: { title: "Remove item", message: `Remove item ${id}?` },
+});
+
+describe("KumoRenderer", () => {
+  it("renders nested elements with resolved dynamic props", () => {
+    const tree: UITree = {
+      root: "card",
+      elements: {
+        card: {
+          key: "card",
+          type: "Surface",
+          props: {},
+          children: ["title"],
+        },
+        title: {
+          key: "title",
+          type: "Text",
+          props: { children: { path: "/user/name" } },
+          parentKey: "card",
+        },
+      },
+    };
+
+    render(<KumoRenderer tree={tree} data={{ user: { name: "Ada" } }} />);
+    expect(screen.getByText("Ada")).toBeTruthy();
+  });
+
+  it("renders compound sub-components", () => {
+    const tree: UITree = {
+      root: "table",
+      elements: {
+        table: {
+          key: "table",
+          type: "Table",
+          props: {},
+          children: ["body"],
+        },
+        body: { key: "body", type: "Table.Body", props: {}, children: ["row"] },
+        row: { key: "row", type: "Table.Row", props: {}, children: ["cell"] },
+        cell: { key: "cell", type: "Table.Cell", props: { children: "A1" } },
+      },
+    };
+
+    render(<KumoRenderer tree={tree} />);
+    expect(screen.getByRole("cell").textContent).toBe("A1");
+  });
+
+  it("hides elements whose visibility evaluates to false", () => {
+    const tree: UITree = {
+      root: "root",
+      elements: {
+        root: {
+          key: "root",
+          type: "Surface",
+          props: {},
+          children: ["admin", "guest"],
+        },
+        admin: {
+          key: "admin",
+          type: "Text",
+          props: { children: "Admin panel" },
+          visible: { auth: "signedIn" },
+        },
+        guest: {
+          key: "guest",
+          type: "Text",
+          props: { children: "Please sign in" },
+          visible: { auth: "signedOut" },
+        },
+      },
+    };
+
+    render(<KumoRenderer tree={tree} auth={{ isSignedIn: true }} />);
+    expect(screen.getByText("Admin panel")).toBeTruthy();
+    expect(screen.queryByText("Please sign in")).toBeNull();
+  });
+
+  it("skips children that are not in the tree yet", () => {
+    const tree: UITree = {
+      root: "root",
+      elements: {
+        root: {
+          key: "root",
+          type: "Surface",
+          props: {},
+          children: ["text", "pending"],
+        },
+        text: { key: "text", type: "Text", props: { children: "Loaded" } },
+      },
+    };
+
+    render(<KumoRenderer tree={tree} />);
+    expect(screen.getByText("Loaded")).toBeTruthy();
+  });
+
+  it("renders the fallback for unknown component types", () => {
+    const tree: UITree = {
+      root: "root",
+      elements: {
+        root: { key: "root", type: "Chart", props: {} },
+      },
+    };
+
+    render(
+      <KumoRenderer
+        tree={tree}
+        fallback={(element) => <span>Unsupported: {element.type}</span>}
+      />,
+    );
+    expect(screen.getByText("Unsupported: Chart")).toBeTruthy();
+  });
+
+  it("dispatches actions with resolved params", async () => {
+    const user = userEvent.setup();
+    const submit = vi.fn();
+    const tree: UITree = {
+      root: "button",
+      elements: {
+        button: {
+          key: "button",
+          type: "Button",
+          props: { children: "Save" },
+          action: {
+            name: "submit",
+            params: { id: { path: "/item/id" }, source: "form" },
+          },
+        },
+      },
+    };
+
+    render(
+      <KumoRenderer
+        tree={tree}
+        data={{ item: { id: 42 } }}
+        actions={{ submit }}
+      />,
+    );
+    await user.click(screen.getByRole("button", { name: "Save" }));
+    expect(submit).toHaveBeenCalledWith({ id: 42, source: "form" });
+  });
+
+  it("confirms actions in a dialog and applies onSuccess updates", async () => {
+    const user = userEvent.setup();
+    const remove = vi.fn();
+    const onDataChange = vi.fn();
+    const tree: UITree = {
+      root: "card",
+      elements: {
+        card: {
+          key: "card",
+          type: "Surface",
+          props: {},
+          children: ["label", "button"],
+        },
+        label: {
+          key: "label",
+          type: "Text",
+          props: { children: { path: "/selected/name" } },
+        },
+        button: {
+          key: "button",
+          type: "Button",
+          props: { children: "Remove" },
+          action: {
+            name: "remove",
+            params: { id: { path: "/selected/id" } },
+            confirm: {
+              title: "Remove item",
+              message: "Are you sure?",
+              variant: "danger",
+              confirmLabel: "Yes, remove",
+            },
+            onSuccess: { set: { "/selected/name": "Removed" } },
+          },
+        },
+      },
+    };
+
+    render(
+      <KumoRenderer
+        tree={tree}
+        data={{ selected: { id: 7, name: "Item 7" } }}
+        actions={{ remove }}
+        onDataChange={onDataChange}
+      />,
+    );
+    await user.click(screen.getByRole("button", { name: "Remove" }));
+    expect(await screen.findByText("Are you sure?")).toBeTruthy();
+    expect(remove).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole("button", { name: "Yes, remove" }));
+    expect(remove).toHaveBeenCalledWith({ id: 7 });
+    expect(await screen.findByText("Removed")).toBeTruthy();
+    expect(onDataChange).toHaveBeenCalledWith({
+      selected: { id: 7, name: "Removed" },
+    });
+  });
+
+  it("cancels a pending confirmation when another action asks", async () => {
+    const user = userEvent.setup();
+    const remove = vi.fn();
+    const onActionComplete = vi.fn();
+    const tree: UITree = {
+      root: "card",
+      elements: {
+        card: {
+          key: "card",
+          type: "Surface",
+          props: {},
+          children: ["first", "second"],
+        },
+        first: {
+          key: "first",
+          type: "Button",
+          props: { children: "Remove 1" },
+          action: removeAction(1),
+        },
+        second: {
+          key: "second",
+          type: "Button",
+          props: { children: "Remove 2" },
+          action: removeAction(2),
+        },
+      },
+    };
+
+    render(
+      <KumoRenderer
+        tree={tree}
+        actions={{ remove }}
+        onActionComplete={onActionComplete}
+      />,
+    );
+    await user.click(screen.getByRole("button", { name: "Remove 1" }));
+    expect(await screen.findByText("Remove item 1?")).toBeTruthy();
+
+    // The open dialog blocks pointer events, so dispatch the click directly
+    fireEvent.click(
+      screen.getByRole("button", { name: "Remove 2", hidden: true }),
+    );
+    expect(await screen.findByText("Remove item 2?")).toBeTruthy();
+    await waitFor(() => {
+      expect(onActionComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "cancelled", params: { id: 1 } }),
+        removeAction(1),
+      );
+    });
+
+    await user.click(screen.getByRole("button", { name: "Confirm" }));
+    expect(remove).toHaveBeenCalledTimes(1);
+    expect(remove).toHaveBeenCalledWith({ id: 2 });
+  });
+
+  it("writes bound input values back to the data model", async () => {
+    const user = userEvent.setup();
+    const onDataChange = vi.fn();
+    const tree: UITree = {
+      root: "form",
+      elements: {
+        form: {
+          key: "form",
+          type: "Surface",
+          props: {},
+          children: ["email", "preview", "hint"],
+        },
+        email: {
+          key: "email",
+          type: "Input",
+          props: { label: "Email", value: { bind: "/form/email" } },
+        },
+        preview: {
+          key: "preview",
+          type: "Text",
+          props: { children: { path: "/form/email" } },
+        },
+        hint: {
+          key: "hint",
+          type: "Text",
+          props: { children: "Email is required" },
+          visible: { isEmpty: "/form/email" },
+        },
+      },
+    };
+
+    render(
+      <KumoRenderer
+        tree={tree}
+        data={{ form: { email: "" } }}
+        onDataChange={onDataChange}
+      />,
+    );
+    expect(screen.getByText("Email is required")).toBeTruthy();
+
+    await user.type(screen.getByLabelText("Email"), "ada");
+    expect(screen.getByText("ada")).toBeTruthy();
+    expect(screen.queryByText("Email is required")).toBeNull();
+    expect(onDataChange).toHaveBeenLastCalledWith({ form: { email: "ada" } });
+  });
+
+  it("binds checked state and runs the action with the updated data", async () => {
+    const user = userEvent.setup();
+    const toggle = vi.fn();
+    const store = createDataStore({ settings: { notify: false } });
+    const tree: UITree = {
+      root: "switch",
+      elements: {
+        switch: {
+          key: "switch",
+          type: "Switch",
+          props: { label: "Notify", checked: { bind: "/settings/notify" } },
+          action: {
+            name: "toggle",
+            params: { notify: { path: "/settings/notify" } },
+          },
+        },
+      },
+    };
+
+    render(<KumoRenderer tree={tree} store={store} actions={{ toggle }} />);
+    await user.click(screen.getByRole("switch"));
+
+    expect(store.get("/settings/notify")).toBe(true);
+    expect(toggle).toHaveBeenCalledWith({ notify: true });
+  });
+
+  it("keeps edits made while an action is pending", async () => {
+    const user = userEvent.setup();
+    let finishSave: (() => void) | undefined;
+    const save = () =>
+      new Promise<void>((resolve) => {
+        finishSave = resolve;
+      });
+    const store = createDataStore({ form: { name: "" }, status: "" });
+    const tree: UITree = {
+      root: "form",
+      elements: {
+        form: {
+          key: "form",
+          type: "Surface",
+          props: {},
+          children: ["name", "save"],
+        },
+        name: {
+          key: "name",
+          type: "Input",
+          props: { label: "Name", value: { bind: "/form/name" } },
+        },
+        save: {
+          key: "save",
+          type: "Button",
+          props: { children: "Save" },
+          action: { name: "save", onSuccess: { set: { "/status": "Saved" } } },
+        },
+      },
+    };
+
+    render(<KumoRenderer tree={tree} store={store} actions={{ save }} />);
+    await user.click(screen.getByRole("button", { name: "Save" }));
+    await user.type(screen.getByLabelText("Name"), "Ada");
+    finishSave?.();
+
+    await waitFor(() => expect(store.get("/status")).toBe("Saved"));
+    expect(store.get("/form/name")).toBe("Ada");
+  });
+
+  it("repeats elements per item with relative pointers in nested scopes", () => {
+    const tree: UITree = {
+      root: "lists",
+      elements: {
+        lists: {
+          key: "lists",
+          type: "Surface",
+          props: {},
+          repeat: { path: "/lists", key: "/id" },
+          children: ["item"],
+        },
+        item: {
+          key: "item",
+          type: "Text",
+          props: { children: "{{2/name}} #{{0#}}: {{0/title}}" },
+          repeat: { path: "0/items" },
+          visible: { not: { path: "0/hidden" } },
+        },
+      },
+    };
+
+    render(
+      <KumoRenderer
+        tree={tree}
+        data={{
+          lists: [
+            { id: "a", name: "Todo", items: [{ title: "Write" }] },
+            {
+              id: "b",
+              name: "Done",
+              items: [{ title: "Hidden", hidden: true }, { title: "Ship" }],
+            },
+          ],
+        }}
+      />,
+    );
+
+    expect(screen.getByText("Todo #0: Write")).toBeTruthy();
+    expect(screen.getByText("Done #1: Ship")).toBeTruthy();
+    expect(screen.queryByText(/Hidden/)).toBeNull();
+  });
+
+  it("binds values and resolves action params within a repeated item", async () => {
+    const user = userEvent.setup();
+    const toggle = vi.fn();
+    const store = createDataStore({
+      tasks: [
+        { id: 1, title: "Write", done: false },
+        { id: 2, title: "Ship", done: false },
+      ],
+    });
+    const tree: UITree = {
+      root: "task",
+      elements: {
+        task: {
+          key: "task",
+          type: "Switch",
+          props: { label: { path: "0/title" }, checked: { bind: "0/done" } },
+          repeat: { path: "/tasks", key: "/id" },
+          action: { name: "toggle", params: { id: { path: "0/id" } } },
+        },
+      },
+    };
+
+    render(<KumoRenderer tree={tree} store={store} actions={{ toggle }} />);
+    await user.click(screen.getByRole("switch", { name: "Ship" }));
+
+    expect(store.get("/tasks/1/done")).toBe(true);
+    expect(store.get("/tasks/0/done")).toBe(false);
+    expect(toggle).toHaveBeenCalledWith({ id: 2 });
+  });
+});
@@ -0,0 +1,409 @@
+/**
+ * Catalog renderer.
+ *
+ * Turns a validated `UITree` into live Kumo components: resolves dynamic
+ * props against the data model, writes `{ bind }` form values back to it,
+ * hides elements whose visibility condition evaluates to false, and wires
+ * element actions to action handlers.
+ */
+
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react";
+import type {
+  Action,
+  ActionConfirm,
+  ActionHandlers,
+  AuthState,
+  DataModel,
+  KumoCatalog,
+  UIElement,
+  UITree,
+} from "./types";
+import { getByPath, isDataBinding, resolvePointer, resolveProps } from "./data";
+import { applyDataUpdates, executeAction, type ActionResult } from "./actions";
+import { BINDING_PROPS } from "./bindings";
+import { createDataStore, type DataStore } from "./store";
+import { ActionConfirmDialog } from "./confirm-dialog";
+import {
+  createVisibilityContext,
+  evaluateVisibility,
+  type VisibilityContext,
+} from "./visibility";
+import {
+  KUMO_CATALOG_COMPONENTS,
+  resolveComponent,
+  type CatalogComponentMap,
+} from "./components";
+
+/**
+ * Event prop that triggers an element's action, per component type.
+ * Components not listed here trigger their action via `onClick`.
+ */
+export const ACTION_EVENT_PROPS: Record<string, string> = {
+  Checkbox: "onCheckedChange",
+  Switch: "onCheckedChange",
+  Select: "onValueChange",
+  Combobox: "onValueChange",
+  Tabs: "onValueChange",
+  Radio: "onValueChange",
+  "Radio.Group": "onValueChange",
+};
+
+/**
+ * Props for {@link KumoRenderer}.
+ */
+export interface KumoRendererProps {
+  /** The UI tree to render (usually the output of `catalog.validateTree`). */
+  tree: UITree;
+  /** Data model that backs `{ path }` dynamic values and visibility conditions. */
+  data?: DataModel;
+  /**
+   * External data store, for reading or writing form data outside the
+   * renderer. When set, `data` is ignored.
+   */
+  store?: DataStore;
+  /** Authentication state for `{ auth }` visibility conditions. */
+  auth?: Partial<AuthState>;
+  /** Handlers invoked when an element's action fires, keyed by action name. */
+  actions?: ActionHandlers;
+  /** Additional or overriding components, merged over the default Kumo map. */
+  components?: CatalogComponentMap;
+  /** Rendered in place of elements whose type has no matching component. */
+  fallback?: (element: UIElement) => ReactNode;
+  /** Catalog whose action definitions are used to validate params before dispatch. */
+  catalog?: KumoCatalog;
+  /** Called with the new data model after a bound value changes or an action's `onSuccess`/`onError` updates. */
+  onDataChange?: (data: DataModel) => void;
+  /** Called after every action attempt, including cancelled and invalid ones. */
+  onActionComplete?: (result: ActionResult, action: Action) => void;
+}
+
+interface PendingConfirm {
+  confirm: ActionConfirm;
+  resolve: (confirmed: boolean) => void;
+}
+
+interface RendererContextValue {
+  tree: UITree;
+  components: CatalogComponentMap;
+  visibility: VisibilityContext;
+  runAction: (action: Action, scope: string) => Promise<void>;
+  bindValue: (path: string, value: unknown, scope: string) => void;
+  fallback?: (element: UIElement) => ReactNode;
+}
+
+const EMPTY_DATA: DataModel = {};
+const EMPTY_AUTH: Partial<AuthState> = {};
+const EMPTY_ACTIONS: ActionHandlers = {};
+
+const RendererContext = createContext<RendererContextValue | null>(null);
+
+function useRendererContext(): RendererContextValue {
+  const ctx = useContext(RendererContext);
+  if (!ctx) {
+    throw new Error("Catalog elements must be rendered inside <KumoRenderer>");
+  }
+  return ctx;
+}
+
+/**
+ * Render a single element (and, recursively, its children) by key, once per
+ * item when the element has a `repeat`.
+ * `ancestors` guards against cycles in malformed trees, and `scope` is the
+ * absolute pointer of the enclosing repeated item (`""` outside repeats).
+ */
+function CatalogElement({
+  elementKey,
+  ancestors,
+  scope,
+}: {
+  elementKey: string;
+  ancestors: ReadonlySet<string>;
+  scope: string;
+}) {
+  const { tree, visibility } = useRendererContext();
+  const element = tree.elements[elementKey];
+
+  // Children may reference keys that have not streamed in yet
+  if (!element || ancestors.has(elementKey)) return null;
+  if (!element.repeat) {
+    return (
+      <CatalogElementContent
+        element={element}
+        ancestors={ancestors}
+        scope={scope}
+      />
+    );
+  }
+
+  const { path, key } = element.repeat;
+  const listPointer = resolvePointer(path, scope);
+  const items =
+    listPointer === undefined
+      ? undefined
+      : getByPath(visibility.data, listPointer);
+  if (!Array.isArray(items)) return null;
+
+  return (
+    <>
+      {items.map((item: unknown, index) => {
+        const id = key === undefined ? undefined : getByPath(item, key);
+        return (
+          <CatalogElementContent
+            key={typeof id === "string" || typeof id === "number" ? id : index}
+            element={element}
+            ancestors={ancestors}
+            scope={`${listPointer}/${index}`}
+          />
+        );
+      })}
+    </>
+  );
+}
+
+function CatalogElementContent({
+  element,
+  ancestors,
+  scope,
+}: {
+  element: UIElement;
+  ancestors: ReadonlySet<string>;
+  scope: string;
+}) {
+  const { components, visibility, runAction, bindValue, fallback } =
+    useRendererContext();
+
+  if (!evaluateVisibility(element.visible, { ...visibility, scope })) {
+    return null;
+  }
+
+  const Component = resolveComponent(element.type, components);
+  if (!Component) return fallback ? <>{fallback(element)}</> : null;
+
+  const props = resolveProps(element.props ?? {}, visibility.data, scope);
+
+  const binding = BINDING_PROPS[element.type];
+  const bound = binding ? element.props?.[binding.valueProp] : undefined;
+  if (binding && isDataBinding(bound)) {
+    const value = props[binding.valueProp] ?? binding.emptyValue;
+    props[binding.valueProp] = binding.toProp ? binding.toProp(value) : value;
+    props[binding.eventProp] = (...args: unknown[]) => {
+      bindValue(
+        bound.bind,
+        binding.fromEvent ? binding.fromEvent(...args) : args[0],
+        scope,
+      );
+    };
+  }
+
+  if (element.action) {
+    const action = element.action;
+    const eventProp = ACTION_EVENT_PROPS[element.type] ?? "onClick";
+    // Bound components update the data model before the action runs
+    const onBind = props[eventProp] as
+      | ((...args: unknown[]) => void)
+      | undefined;
+    props[eventProp] = (...args: unknown[]) => {
+      onBind?.(...args);
+      void runAction(action, scope);
+    };
+  }
+
+  const childKeys = element.children ?? [];
+  if (childKeys.length === 0) {
+    return createElement(Component, props);
+  }
+
+  const path = new Set(ancestors).add(element.key);
+  return createElement(
+    Component,
+    props,
+    childKeys.map((childKey) => (
+      <CatalogElement
+        key={childKey}
+        elementKey={childKey}
+        ancestors={path}
+        scope={scope}
+      />
+    )),
+  );
+}
+
+/**
+ * Render an AI-generated `UITree` into live Kumo components.
+ *
+ * - Each `UIElement.type` is mapped to its Kumo component, including
+ *   compound sub-components like `Table.Row` or `Dialog.Title`
+ * - `{ path }` props are resolved against `data`
+ * - `{ bind }` values on form components (see `BINDING_PROPS`) are read from
+ *   and written back to the data model; dependent props and visibility
+ *   conditions update as the user types
+ * - Elements whose `visible` condition evaluates to false are not rendered
+ * - Elements with a `repeat` render once per item of an array; relative
+ *   pointers (`"0/name"`) inside them resolve against the item
+ * - Element `action`s are dispatched to the matching handler in `actions`:
+ *   params are resolved (and validated against `catalog` definitions),
+ *   `confirm` shows a Kumo `Dialog`, and `onSuccess`/`onError` updates are
+ *   applied to the renderer's copy of the data model
+ *
+ * @example
+ * const result = catalog.validateTree(aiGeneratedJson);
+ * if (result.success) {
+ *   return (
+ *     <KumoRenderer
+ *       tree={result.data}
+ *       data={{ user: { name: "Ada" } }}
+ *       auth={{ isSignedIn: true }}
+ *       actions={{ submit: (params) => save(params) }}
+ *     />
+ *   );
+ * }
+ */
+export function KumoRenderer({
+  tree,
+  data = EMPTY_DATA,
+  store,
+  auth = EMPTY_AUTH,
+  actions = EMPTY_ACTIONS,
+  components,
+  fallback,
+  catalog,
+  onDataChange,
+  onActionComplete,
+}: KumoRendererProps) {
+  // Local store so bound values and action updates re-render the tree.
+  // Recreated whenever the `data` prop changes.
+  const [localStore, setLocalStore] = useState(() => createDataStore(data));
+  const [prevData, setPrevData] = useState(data);
+  if (data !== prevData) {
+    setPrevData(data);
+    setLocalStore(createDataStore(data));
+  }
+  const dataStore = store ?? localStore;
+  const dataModel = useSyncExternalStore(
+    dataStore.subscribe,
+    dataStore.getSnapshot,
+    dataStore.getSnapshot,
+  );
+
+  const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm | null>(
+    null,
+  );
+  // Read by `requestConfirm` without re-creating it on every confirmation
+  const pendingConfirmRef = useRef<PendingConfirm | null>(null);
+
+  const componentMap = useMemo(
+    () => ({ ...KUMO_CATALOG_COMPONENTS, ...components }),
+    [components],
+  );
+
+  const visibility = useMemo(
+    () => createVisibilityContext(dataModel, auth),
+    [dataModel, auth],
+  );
+
+  const requestConfirm = useCallback(
+    (confirm: ActionConfirm) =>
+      new Promise<boolean>((resolve) => {
+        // A newer confirmation cancels the one still waiting
+        pendingConfirmRef.current?.resolve(false);
+        const pending = { confirm, resolve };
+        pendingConfirmRef.current = pending;
+        setPendingConfirm(pending);
+      }),
+    [],
+  );
+
+  const resolveConfirm = useCallback((confirmed: boolean) => {
+    pendingConfirmRef.current?.resolve(confirmed);
+    pendingConfirmRef.current = null;
+    setPendingConfirm(null);
+  }, []);
+
+  const bindValue = useCallback(
+    (path: string, value: unknown, scope: string) => {
+      const pointer = resolvePointer(path, scope);
+      if (pointer === undefined) return;
+      const previous = dataStore.getSnapshot();
+      dataStore.set(pointer, value);
+      const next = dataStore.getSnapshot();
+      if (next !== previous) onDataChange?.(next);
+    },
+    [dataStore, onDataChange],
+  );
+
+  const runAction = useCallback(
+    async (action: Action, scope: string) => {
+      const result = await executeAction(action, {
+        handlers: actions,
+        data: dataStore.getSnapshot(),
+        definitions: catalog?.actions,
+        confirm: requestConfirm,
+        scope,
+      });
+
+      // Applied to the latest data, keeping edits made while the handler ran
+      if (result.updates) {
+        const previous = dataStore.getSnapshot();
+        const next = applyDataUpdates(previous, result.updates, scope);
+        if (next !== previous) {
+          dataStore.replace(next);
+          onDataChange?.(next);
+        }
+      }
+
+      if (
+        result.status === "invalid" &&
+        process.env.NODE_ENV !== "production"
+      ) {
+        console.warn(
+          `[Kumo Catalog]: Action "${action.name}" was not dispatched`,
+          result.error,
+        );
+      }
+
+      onActionComplete?.(result, action);
+    },
+    [
+      actions,
+      catalog,
+      dataStore,
+      requestConfirm,
+      onDataChange,
+      onActionComplete,
+    ],
+  );
+
+  const value = useMemo<RendererContextValue>(
+    () => ({
+      tree,
+      components: componentMap,
+      visibility,
+      runAction,
+      bindValue,
+      fallback,
+    }),
+    [tree, componentMap, visibility, runAction, bindValue, fallback],
+  );
+
+  return (
+    <RendererContext.Provider value={value}>
+      <CatalogElement elementKey={tree.root} ancestors={new Set()} scope="" />
+      <ActionConfirmDialog
+        confirm={pendingConfirm?.confirm ?? null}
+        onResolve={resolveConfirm}
+      />
+    </RendererContext.Provider>
+  );
+}
+
+KumoRenderer.displayName = "KumoRenderer";
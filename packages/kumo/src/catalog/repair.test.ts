@@ -0,0 +1,182 @@
+/**
+ * Tests for UI tree repair
+ */
+
+import { beforeAll, describe, it, expect } from "vitest";
+import { createKumoCatalog, initCatalog } from "./catalog";
+
+const catalog = createKumoCatalog();
+
+beforeAll(async () => {
+  await initCatalog();
+});
+
+describe("catalog.repairTree", () => {
+  it("returns valid trees unchanged", () => {
+    const tree = {
+      root: "button",
+      elements: {
+        button: {
+          key: "button",
+          type: "Button",
+          props: { variant: "primary", children: "Save" },
+        },
+      },
+    };
+
+    const result = catalog.repairTree(tree);
+
+    expect(result).toEqual({ success: true, tree, fixes: [], errors: [] });
+  });
+
+  it("repairs component names, variants, booleans and keys", () => {
+    const input = {
+      root: "card",
+      elements: {
+        card: { type: "surface", props: {}, children: ["button"] },
+        button: {
+          key: "btn",
+          type: "Buton",
+          props: {
+            variant: "Primery",
+            loading: "true",
+            onHover: "highlight",
+            children: "Save",
+          },
+        },
+      },
+    };
+
+    const result = catalog.repairTree(input);
+
+    expect(result.success).toBe(true);
+    expect(result.tree.elements.card).toMatchObject({
+      key: "card",
+      type: "Surface",
+    });
+    expect(result.tree.elements.button).toEqual({
+      key: "button",
+      type: "Button",
+      props: { variant: "primary", loading: true, children: "Save" },
+    });
+    expect(result.fixes).toEqual([
+      {
+        message: 'Added missing key "card"',
+        path: ["elements", "card", "key"],
+      },
+      {
+        message: 'Replaced unknown component "surface" with "Surface"',
+        path: ["elements", "card", "type"],
+      },
+      {
+        message: 'Changed key "btn" to match its entry "button"',
+        path: ["elements", "button", "key"],
+      },
+      {
+        message: 'Replaced unknown component "Buton" with "Button"',
+        path: ["elements", "button", "type"],
+      },
+      {
+        message: 'Changed "Primery" to "primary"',
+        path: ["elements", "button", "props", "variant"],
+      },
+      {
+        message: 'Changed "true" to true',
+        path: ["elements", "button", "props", "loading"],
+      },
+      {
+        message: 'Removed unknown prop "onHover"',
+        path: ["elements", "button", "props", "onHover"],
+      },
+    ]);
+    expect(input.elements.button.type).toBe("Buton");
+  });
+
+  it("falls back to the default for unrecognizable variants", () => {
+    const result = catalog.repairTree({
+      root: "badge",
+      elements: {
+        badge: { key: "badge", type: "Badge", props: { variant: "rainbow" } },
+      },
+    });
+
+    expect(result.tree.elements.badge!.props.variant).toBe("primary");
+  });
+
+  it("keeps bound values and the pass-through props of form components", () => {
+    const tree = {
+      root: "form",
+      elements: {
+        form: {
+          key: "form",
+          type: "Surface",
+          props: {},
+          children: ["email", "date"],
+        },
+        email: {
+          key: "email",
+          type: "Input",
+          props: {
+            label: "Email",
+            placeholder: "you@example.com",
+            value: { bind: "/form/email" },
+          },
+        },
+        date: {
+          key: "date",
+          type: "DatePicker",
+          props: { mode: "single", selected: { bind: "/form/date" } },
+        },
+      },
+    };
+
+    const result = catalog.repairTree(structuredClone(tree));
+
+    expect(result.fixes).toEqual([]);
+    expect(result.tree).toEqual(tree);
+  });
+
+  it("fixes references and sets a missing root", () => {
+    const result = catalog.repairTree({
+      elements: [
+        { key: "card", type: "Surface", props: {}, children: ["text", "gone"] },
+        { key: "text", type: "Text", props: {}, parentKey: "other" },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.tree.root).toBe("card");
+    expect(result.tree.elements.card!.children).toEqual(["text"]);
+    expect(result.tree.elements.text!.parentKey).toBe("card");
+    expect(result.fixes.map((fix) => fix.path)).toEqual([
+      ["elements"],
+      ["elements", "card", "children"],
+      ["elements", "text", "parentKey"],
+      ["root"],
+    ]);
+  });
+
+  it("reports errors it cannot repair", () => {
+    const unknownType = catalog.repairTree({
+      root: "a",
+      elements: { a: { key: "a", type: "Zzzzzz", props: {} } },
+    });
+    const cycle = catalog.repairTree({
+      root: "a",
+      elements: {
+        a: { key: "a", type: "Surface", props: {}, children: ["b"] },
+        b: { key: "b", type: "Empty", props: {}, children: ["a"] },
+      },
+    });
+
+    expect(unknownType.success).toBe(false);
+    expect(unknownType.errors.map((error) => error.path)).toEqual([
+      ["elements", "a", "type"],
+    ]);
+    expect(cycle.success).toBe(false);
+    expect(cycle.errors.map((error) => error.path)).toEqual([
+      ["elements", "b", "children", 0],
+      ["elements", "b", "props", "title"],
+    ]);
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * UI tree repair.
+ *
+ * LLMs often emit trees that are almost valid: a misspelled component name,
+ * a variant in the wrong case, `"true"` instead of `true`, a missing `key`.
+ * `repairTree` applies safe, metadata-driven fixes for these mistakes and
+ * reports what it changed alongside whatever it could not fix.
+ */
+
+import type {
+  ComponentRegistry,
+  PropSchema,
+  RepairFix,
+  RepairResult,
+  UIElement,
+  UITree,
+  ValidationResult,
+} from "./types";
+import { BINDING_PROPS } from "./bindings";
+import { isDataBinding, isDynamicPath } from "./data";
+
+type ValidationIssue = NonNullable<ValidationResult["error"]>[number];
+
+/**
+ * Components whose registry schema documents only Kumo's own props, not the
+ * native input or `DayPicker` props they pass through, so unknown props are
+ * kept rather than removed.
+ */
+const PARTIAL_PROP_SCHEMAS = new Set(["Input", "InputArea", "DatePicker"]);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Lowercase and strip punctuation, so `"tableRow"` matches `"Table.Row"`. */
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Find the closest candidate to `value`, allowing roughly one edit per three
+ * characters. Returns `undefined` when nothing is close enough.
+ */
+function findNearest(
+  value: string,
+  candidates: readonly string[],
+): string | undefined {
+  const target = normalize(value);
+  const threshold = Math.max(1, Math.floor(target.length / 3));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = levenshtein(target, normalize(candidate));
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= threshold ? best : undefined;
+}
+
+/** Prop schemas for every component and sub-component type, keyed by type. */
+function collectPropSchemas(
+  registry: ComponentRegistry,
+): Map<string, Record<string, PropSchema>> {
+  const schemas = new Map<string, Record<string, PropSchema>>();
+  for (const component of Object.values(registry.components)) {
+    schemas.set(component.name, component.props);
+    for (const sub of Object.values(component.subComponents ?? {})) {
+      schemas.set(`${component.name}.${sub.name}`, sub.props);
+    }
+  }
+  return schemas;
+}
+
+/**
+ * Coerce a prop value to its schema type when the intent is unambiguous.
+ * Returns `undefined` when no safe coercion exists.
+ */
+function coerceProp(
+  value: unknown,
+  schema: PropSchema,
+): { value: unknown } | undefined {
+  switch (schema.type) {
+    case "boolean":
+      if (value === "true" || value === "false") {
+        return { value: value === "true" };
+      }
+      return undefined;
+    case "number":
+      if (typeof value === "string" && /^-?\d+(\.\d+)?$/.test(value.trim())) {
+        return { value: Number(value) };
+      }
+      return undefined;
+    case "string":
+      if (typeof value === "number" || typeof value === "boolean") {
+        return { value: String(value) };
+      }
+      return undefined;
+    case "enum": {
+      const values = schema.values ?? [];
+      const match =
+        typeof value === "string" || typeof value === "number"
+          ? findNearest(String(value), values)
+          : undefined;
+      if (match !== undefined) return { value: match };
+      if (schema.default !== undefined && values.includes(schema.default)) {
+        return { value: schema.default };
+      }
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** Registry defaults are strings; convert them to the prop's type. */
+function parseDefault(schema: PropSchema): unknown {
+  const { default: value, type } = schema;
+  if (value === undefined) return undefined;
+  if (type === "boolean") return value === "true";
+  if (type === "number") return Number(value);
+  if (type === "enum" && !(schema.values ?? []).includes(value)) {
+    return undefined;
+  }
+  return value;
+}
+
+function isValidProp(value: unknown, schema: PropSchema): boolean {
+  switch (schema.type) {
+    case "boolean":
+    case "number":
+    case "string":
+      return typeof value === schema.type;
+    case "enum":
+      return (schema.values ?? []).includes(value as string);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Repair a UI tree using component registry metadata.
+ *
+ * Fixes applied (each one is reported in `fixes`):
+ * - `elements` given as an array is converted to a map keyed by `key`
+ * - a missing `root` is set to the only element that is nobody's child
+ * - a missing or mismatched element `key` is set from its map entry
+ * - unknown component types are replaced by the nearest known type
+ * - unknown props are dropped (`children` is always kept)
+ * - `"true"`/`"false"`, numeric strings and numbers are coerced to the prop type
+ * - invalid variant values are replaced by the nearest allowed value,
+ *   or the prop's default
+ * - missing required props with a default are filled in
+ * - children that are not a string array, or reference missing keys, are cleaned up
+ * - `parentKey` is corrected to the actual parent
+ *
+ * `validate` is then run on the repaired tree; anything it still reports
+ * is returned in `errors`. The input is not modified.
+ */
+export function repairTree(
+  input: unknown,
+  registry: ComponentRegistry,
+  validate: (tree: UITree) => NonNullable<ValidationResult["error"]>,
+): RepairResult {
+  const fixes: RepairFix[] = [];
+  const fix = (message: string, path: (string | number)[]) => {
+    fixes.push({ message, path });
+  };
+
+  if (!isRecord(input)) {
+    return {
+      success: false,
+      tree: { root: "", elements: {} },
+      fixes,
+      errors: [{ message: "Tree must be an object", path: [] }],
+    };
+  }
+
+  const source = structuredClone(input);
+
+  // Elements
+  let rawElements: Record<string, unknown>;
+  if (Array.isArray(source.elements)) {
+    rawElements = {};
+    source.elements.forEach((element, index) => {
+      const key =
+        isRecord(element) && typeof element.key === "string"
+          ? element.key
+          : `element-${index}`;
+      rawElements[key] = element;
+    });
+    fix("Converted elements array to a map keyed by element key", ["elements"]);
+  } else if (isRecord(source.elements)) {
+    rawElements = source.elements;
+  } else {
+    rawElements = {};
+    fix("Replaced invalid elements with an empty map", ["elements"]);
+  }
+
+  const propSchemas = collectPropSchemas(registry);
+  const knownTypes = [...propSchemas.keys()];
+  const elements: Record<string, UIElement> = {};
+
+  for (const [key, raw] of Object.entries(rawElements)) {
+    const path = ["elements", key];
+    if (!isRecord(raw)) {
+      // Not repairable; validation reports it
+      elements[key] = raw as unknown as UIElement;
+      continue;
+    }
+    const element = raw as Record<string, unknown>;
+
+    if (element.key !== key) {
+      fix(
+        typeof element.key === "string"
+          ? `Changed key "${element.key}" to match its entry "${key}"`
+          : `Added missing key "${key}"`,
+        [...path, "key"],
+      );
+      element.key = key;
+    }
+
+    if (typeof element.type === "string" && !propSchemas.has(element.type)) {
+      const match = findNearest(element.type, knownTypes);
+      if (match) {
+        fix(`Replaced unknown component "${element.type}" with "${match}"`, [
+          ...path,
+          "type",
+        ]);
+        element.type = match;
+      }
+    }
+
+    if (!isRecord(element.props)) {
+      if (element.props !== undefined) {
+        fix("Replaced invalid props with an empty object", [...path, "props"]);
+      }
+      element.props = {};
+    }
+
+    const schema =
+      typeof element.type === "string"
+        ? propSchemas.get(element.type)
+        : undefined;
+    if (schema) {
+      repairProps(
+        element.type as string,
+        element.props as Record<string, unknown>,
+        schema,
+        [...path, "props"],
+        fix,
+      );
+    }
+
+    if (typeof element.children === "string") {
+      fix("Wrapped children in an array", [...path, "children"]);
+      element.children = [element.children];
+    } else if (element.children !== undefined) {
+      if (!Array.isArray(element.children)) {
+        fix("Removed invalid children", [...path, "children"]);
+        delete element.children;
+      } else if (element.children.some((child) => typeof child !== "string")) {
+        fix("Removed non-string child keys", [...path, "children"]);
+        element.children = element.children.filter(
+          (child) => typeof child === "string",
+        );
+      }
+    }
+
+    elements[key] = element as unknown as UIElement;
+  }
+
+  // References between elements
+  const parents = new Map<string, string>();
+  for (const [key, element] of Object.entries(elements)) {
+    if (!isRecord(element) || !Array.isArray(element.children)) continue;
+    const missing = element.children.filter((child) => !(child in elements));
+    if (missing.length > 0) {
+      fix(
+        `Removed missing children ${missing.map((c) => `"${c}"`).join(", ")}`,
+        ["elements", key, "children"],
+      );
+      element.children = element.children.filter((child) => child in elements);
+    }
+    for (const child of element.children) {
+      if (!parents.has(child)) parents.set(child, key);
+    }
+  }
+
+  for (const [key, element] of Object.entries(elements)) {
+    if (!isRecord(element) || element.parentKey == null) continue;
+    const actual = parents.get(key);
+    if (element.parentKey === actual) continue;
+    if (actual === undefined) {
+      fix(`Removed parentKey "${element.parentKey}"`, [
+        "elements",
+        key,
+        "parentKey",
+      ]);
+      delete element.parentKey;
+    } else {
+      fix(`Changed parentKey "${element.parentKey}" to "${actual}"`, [
+        "elements",
+        key,
+        "parentKey",
+      ]);
+      element.parentKey = actual;
+    }
+  }
+
+  // Root
+  let root = typeof source.root === "string" ? source.root : "";
+  if (!(root in elements)) {
+    const candidates = Object.keys(elements).filter((key) => !parents.has(key));
+    if (candidates.length === 1) {
+      fix(
+        root
+          ? `Changed missing root "${root}" to "${candidates[0]}"`
+          : `Set missing root to "${candidates[0]}"`,
+        ["root"],
+      );
+      root = candidates[0]!;
+    }
+  }
+
+  const tree: UITree = { root, elements };
+  const errors: ValidationIssue[] = validate(tree);
+  return { success: errors.length === 0, tree, fixes, errors };
+}
+
+/**
+ * Repair an element's props in place against its prop schemas.
+ */
+function repairProps(
+  type: string,
+  props: Record<string, unknown>,
+  schema: Record<string, PropSchema>,
+  path: (string | number)[],
+  fix: (message: string, path: (string | number)[]) => void,
+): void {
+  // Sub-components without documented props accept anything
+  if (Object.keys(schema).length === 0) return;
+
+  for (const [name, value] of Object.entries(props)) {
+    const propSchema = schema[name];
+
+    if (!propSchema) {
+      if (
+        name === "children" ||
+        name === BINDING_PROPS[type]?.valueProp ||
+        PARTIAL_PROP_SCHEMAS.has(type) ||
+        isDynamicPath(value) ||
+        isDataBinding(value)
+      ) {
+        continue;
+      }
+      fix(`Removed unknown prop "${name}"`, [...path, name]);
+      delete props[name];
+      continue;
+    }
+
+    if (
+      isDynamicPath(value) ||
+      isDataBinding(value) ||
+      isValidProp(value, propSchema)
+    ) {
+      continue;
+    }
+
+    const coerced = coerceProp(value, propSchema);
+    if (coerced) {
+      fix(
+        `Changed ${JSON.stringify(value)} to ${JSON.stringify(coerced.value)}`,
+        [...path, name],
+      );
+      props[name] = coerced.value;
+    }
+  }
+
+  for (const [name, propSchema] of Object.entries(schema)) {
+    if (
+      propSchema.required &&
+      props[name] === undefined &&
+      propSchema.default !== undefined
+    ) {
+      const value = parseDefault(propSchema);
+      if (value === undefined) continue;
+      fix(`Filled missing prop with default ${JSON.stringify(value)}`, [
+        ...path,
+        name,
+      ]);
+      props[name] = value;
+    }
+  }
+}
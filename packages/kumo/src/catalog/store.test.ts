@@ -0,0 +1,37 @@
+/**
+ * Tests for the data model store
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { createDataStore } from "./store";
+
+describe("createDataStore", () => {
+  it("writes by path without mutating previous snapshots", () => {
+    const store = createDataStore({ form: { email: "" } });
+    const before = store.getSnapshot();
+
+    store.set("/form/email", "ada@example.com");
+
+    expect(store.get("/form/email")).toBe("ada@example.com");
+    expect(before).toEqual({ form: { email: "" } });
+    expect(store.getSnapshot()).not.toBe(before);
+  });
+
+  it("notifies subscribers only when data changes", () => {
+    const store = createDataStore({ count: 1 });
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.set("/count", 1);
+    store.set("/__proto__/polluted", true);
+    expect(listener).not.toHaveBeenCalled();
+
+    store.set("/count", 2);
+    store.replace({ count: 3 });
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    store.set("/count", 4);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
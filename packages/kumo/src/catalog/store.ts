@@ -0,0 +1,85 @@
+/**
+ * Data model store.
+ *
+ * Holds the data model behind a rendered UI tree. Two-way bindings and
+ * action data updates write to the store, and subscribers (the renderer,
+ * or your own components) are notified so dependent values and visibility
+ * conditions re-evaluate.
+ */
+
+import type { DataModel } from "./types";
+import { getByPath, updateByPath } from "./data";
+
+/**
+ * Subscribable data model returned by {@link createDataStore}.
+ * `getSnapshot` and `subscribe` can be passed around unbound.
+ */
+export interface DataStore {
+  /** Current data model. The reference only changes when data is written. */
+  getSnapshot: () => DataModel;
+  /** Read a value by JSON Pointer path. */
+  get(path: string): unknown;
+  /** Write a value by JSON Pointer path. No-op when the value is unchanged. */
+  set(path: string, value: unknown): void;
+  /** Replace the whole data model. */
+  replace(data: DataModel): void;
+  /** Subscribe to data changes (compatible with `useSyncExternalStore`). */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Create a data model store.
+ *
+ * Writes never mutate the current snapshot: containers along the written
+ * path are copied, so snapshots can be compared by reference.
+ *
+ * @example
+ * const store = createDataStore({ form: { email: "" } });
+ *
+ * store.set("/form/email", "ada@example.com");
+ * store.get("/form/email"); // "ada@example.com"
+ *
+ * // Share the store with the renderer to read and write form data
+ * <KumoRenderer tree={tree} store={store} />
+ *
+ * // Or subscribe in your own components
+ * const data = useSyncExternalStore(store.subscribe, store.getSnapshot);
+ */
+export function createDataStore(initial: DataModel = {}): DataStore {
+  let data = initial;
+  const listeners = new Set<() => void>();
+
+  const notify = () => {
+    for (const listener of listeners) listener();
+  };
+
+  return {
+    getSnapshot: () => data,
+
+    get(path: string) {
+      return getByPath(data, path);
+    },
+
+    set(path: string, value: unknown) {
+      if (Object.is(getByPath(data, path), value)) return;
+      const next = updateByPath(data, path, value);
+      // Unwritable paths leave the data model as is
+      if (next === data) return;
+      data = next;
+      notify();
+    },
+
+    replace(next: DataModel) {
+      if (next === data) return;
+      data = next;
+      notify();
+    },
+
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Tests for streaming UI tree assembly
+ */
+
+import { beforeAll, describe, it, expect, vi } from "vitest";
+import { createKumoCatalog, initCatalog } from "./catalog";
+import { createUITreeBuilder } from "./stream";
+
+const catalog = createKumoCatalog();
+
+beforeAll(async () => {
+  await initCatalog();
+});
+
+const lines = (...patches: unknown[]) =>
+  patches.map((patch) => JSON.stringify(patch)).join("\n") + "\n";
+
+describe("createUITreeBuilder", () => {
+  it("assembles a tree from patches", () => {
+    const builder = createUITreeBuilder(catalog);
+
+    builder.apply({ op: "root", key: "card" });
+    builder.apply({
+      op: "add",
+      element: { key: "card", type: "Surface", props: {} },
+    });
+    builder.apply({ op: "append", key: "card", child: "title" });
+    builder.apply({
+      op: "add",
+      element: { key: "title", type: "Text", props: {} },
+    });
+    const result = builder.apply({
+      op: "set",
+      key: "title",
+      prop: "children",
+      value: "Hello",
+    });
+
+    expect(result.success).toBe(true);
+    expect(builder.getTree()).toEqual({
+      root: "card",
+      elements: {
+        card: { key: "card", type: "Surface", props: {}, children: ["title"] },
+        title: {
+          key: "title",
+          type: "Text",
+          props: { children: "Hello" },
+          parentKey: "card",
+        },
+      },
+    });
+    expect(builder.isComplete()).toBe(true);
+  });
+
+  it("sets the parent key of children added before their parent", () => {
+    const builder = createUITreeBuilder(catalog);
+
+    builder.apply({
+      op: "add",
+      element: { key: "title", type: "Text", props: {} },
+    });
+    builder.apply({
+      op: "add",
+      element: {
+        key: "card",
+        type: "Surface",
+        props: {},
+        children: ["title"],
+      },
+    });
+
+    expect(builder.getTree().elements.title?.parentKey).toBe("card");
+  });
+
+  it("reports pending child and root keys", () => {
+    const builder = createUITreeBuilder(catalog);
+
+    builder.apply({ op: "root", key: "card" });
+    expect(builder.getPendingKeys()).toEqual(["card"]);
+
+    builder.apply({
+      op: "add",
+      element: {
+        key: "card",
+        type: "Surface",
+        props: {},
+        children: ["a", "b"],
+      },
+    });
+    expect(builder.getPendingKeys()).toEqual(["a", "b"]);
+    expect(builder.isComplete()).toBe(false);
+  });
+
+  it("rejects patches that fail component schemas", () => {
+    const builder = createUITreeBuilder(catalog);
+    builder.apply({
+      op: "add",
+      element: { key: "badge", type: "Badge", props: {} },
+    });
+
+    const result = builder.apply({
+      op: "set",
+      key: "badge",
+      prop: "variant",
+      value: "not-a-variant",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.[0]?.path).toEqual([
+      "elements",
+      "badge",
+      "props",
+      "variant",
+    ]);
+    expect(builder.getTree().elements.badge?.props).toEqual({});
+    expect(builder.getErrors()).toHaveLength(1);
+  });
+
+  it("rejects unknown component types and malformed patches", () => {
+    const builder = createUITreeBuilder(catalog);
+
+    expect(
+      builder.apply({
+        op: "add",
+        element: { key: "x", type: "NotAComponent", props: {} },
+      }).success,
+    ).toBe(false);
+    expect(builder.apply({ op: "remove", key: "x" }).error?.[0]?.path).toEqual([
+      "op",
+    ]);
+    expect(builder.apply({ op: "append", key: "missing", child: "y" })).toEqual(
+      {
+        success: false,
+        error: [{ message: 'Element "missing" does not exist', path: ["key"] }],
+      },
+    );
+    expect(builder.getTree().elements).toEqual({});
+  });
+
+  it("buffers JSONL chunks split across lines", () => {
+    const builder = createUITreeBuilder(catalog);
+    const text = lines(
+      { op: "root", key: "t" },
+      { op: "add", element: { key: "t", type: "Text", props: {} } },
+    );
+
+    const splitAt = text.indexOf("Text");
+    expect(builder.push(text.slice(0, splitAt))).toHaveLength(1);
+    expect(builder.getTree().elements).toEqual({});
+
+    expect(builder.push(text.slice(splitAt))).toHaveLength(1);
+    expect(builder.getTree().elements.t?.type).toBe("Text");
+  });
+
+  it("applies a trailing line on flush and records invalid JSON", () => {
+    const builder = createUITreeBuilder(catalog);
+
+    builder.push('{"op":"root","key":"a"}');
+    expect(builder.getTree().root).toBe("");
+    builder.flush();
+    expect(builder.getTree().root).toBe("a");
+
+    const [result] = builder.push("{not json\n");
+    expect(result?.success).toBe(false);
+  });
+
+  it("notifies subscribers only when the tree changes", () => {
+    const builder = createUITreeBuilder(catalog);
+    const listener = vi.fn();
+    const unsubscribe = builder.subscribe(listener);
+
+    const before = builder.getTree();
+    builder.apply({ op: "set", key: "missing", prop: "a", value: 1 });
+    expect(listener).not.toHaveBeenCalled();
+    expect(builder.getTree()).toBe(before);
+
+    builder.apply({ op: "root", key: "a" });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(builder.getTree()).not.toBe(before);
+
+    unsubscribe();
+    builder.reset();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Streaming UI tree assembly.
+ *
+ * Builds a `UITree` incrementally from patch operations as they arrive from
+ * an LLM (typically one JSON patch per line). Every patch is validated before
+ * it is applied, so the tree exposed by the builder is always renderable,
+ * even while children it references are still streaming in.
+ */
+
+import type { KumoCatalog, UIElement, UITree, ValidationResult } from "./types";
+
+/**
+ * A single streaming patch operation.
+ *
+ * @example
+ * { "op": "root", "key": "card" }
+ * { "op": "add", "element": { "key": "card", "type": "Surface", "props": {} } }
+ * { "op": "append", "key": "card", "child": "title" }
+ * { "op": "set", "key": "title", "prop": "children", "value": "Hello" }
+ */
+export type UITreePatch =
+  /** Add (or replace) an element */
+  | { op: "add"; element: UIElement }
+  /** Set a single prop on an existing element */
+  | { op: "set"; key: string; prop: string; value: unknown }
+  /** Append a child key to an existing element */
+  | { op: "append"; key: string; child: string }
+  /** Set the root element key */
+  | { op: "root"; key: string };
+
+/**
+ * Incremental UI tree builder returned by {@link createUITreeBuilder}.
+ */
+export interface UITreeBuilder {
+  /** Validate and apply a single patch. Rejected patches leave the tree untouched. */
+  apply(patch: unknown): ValidationResult<UITree>;
+  /**
+   * Feed raw JSONL text. Chunks may split lines anywhere; incomplete trailing
+   * lines are buffered until the next chunk or `flush()`.
+   */
+  push(chunk: string): ValidationResult<UITree>[];
+  /** Apply any buffered partial line (call when the stream ends). */
+  flush(): ValidationResult<UITree>[];
+  /** Current partially-valid tree. The reference only changes when a patch is applied. */
+  getTree(): UITree;
+  /** Child (or root) keys that are referenced but have not been added yet. */
+  getPendingKeys(): string[];
+  /** Errors from every rejected patch so far. */
+  getErrors(): NonNullable<ValidationResult["error"]>;
+  /** Whether the root is set and every referenced key has arrived. */
+  isComplete(): boolean;
+  /** Subscribe to tree changes (compatible with `useSyncExternalStore`). */
+  subscribe(listener: () => void): () => void;
+  /** Clear the tree, buffer and errors. */
+  reset(): void;
+}
+
+const PATCH_OPS = ["add", "set", "append", "root"] as const;
+
+type ValidationError = NonNullable<ValidationResult["error"]>[number];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function fail(
+  message: string,
+  path: (string | number)[] = [],
+): ValidationResult<never> {
+  return { success: false, error: [{ message, path }] };
+}
+
+/**
+ * Check the patch envelope (op and required fields) before touching elements.
+ */
+function validatePatchShape(patch: unknown): ValidationResult<UITreePatch> {
+  if (!isRecord(patch)) {
+    return fail("Patch must be an object");
+  }
+
+  const { op } = patch;
+  if (!PATCH_OPS.includes(op as (typeof PATCH_OPS)[number])) {
+    return fail(`Unknown patch op: ${String(op)}`, ["op"]);
+  }
+
+  const requireString = (field: string) =>
+    typeof patch[field] === "string" && patch[field] !== ""
+      ? null
+      : fail(`"${field}" must be a non-empty string`, [field]);
+
+  switch (op) {
+    case "add":
+      if (!isRecord(patch.element)) {
+        return fail('"element" must be an object', ["element"]);
+      }
+      break;
+    case "set":
+      if (!("value" in patch)) {
+        return fail('"value" is required', ["value"]);
+      }
+      return (
+        requireString("key") ??
+        requireString("prop") ?? { success: true, data: patch as UITreePatch }
+      );
+    case "append":
+      return (
+        requireString("key") ??
+        requireString("child") ?? { success: true, data: patch as UITreePatch }
+      );
+    case "root":
+      return (
+        requireString("key") ?? { success: true, data: patch as UITreePatch }
+      );
+  }
+
+  return { success: true, data: patch as UITreePatch };
+}
+
+/**
+ * Create a builder that assembles a `UITree` from streamed patches.
+ *
+ * Each patch is validated against the per-component schemas (via
+ * `catalog.validateElement`) before it is applied. Invalid patches are
+ * rejected and recorded, so the exposed tree stays renderable with
+ * `KumoRenderer` at every step; children that have not arrived yet are
+ * reported by `getPendingKeys()` and simply skipped when rendering.
+ *
+ * The catalog must be initialized with `initCatalog` first.
+ *
+ * @example
+ * const builder = createUITreeBuilder(catalog);
+ *
+ * for await (const chunk of llmStream) {
+ *   builder.push(chunk);
+ * }
+ * builder.flush();
+ *
+ * // In React, re-render as patches arrive
+ * const tree = useSyncExternalStore(builder.subscribe, builder.getTree);
+ * return <KumoRenderer tree={tree} />;
+ */
+export function createUITreeBuilder(catalog: KumoCatalog): UITreeBuilder {
+  let tree: UITree = { root: "", elements: {} };
+  let buffer = "";
+  let errors: ValidationError[] = [];
+  const listeners = new Set<() => void>();
+
+  const notify = () => {
+    for (const listener of listeners) listener();
+  };
+
+  const reject = (
+    result: ValidationResult,
+    prefix: (string | number)[] = [],
+  ): ValidationResult<UITree> => {
+    const issues = (result.error ?? []).map((issue) => ({
+      message: issue.message,
+      path: [...prefix, ...issue.path],
+    }));
+    errors = [...errors, ...issues];
+    return { success: false, error: issues };
+  };
+
+  /** Validate an element and, if valid, commit it to the tree. */
+  const commitElement = (
+    element: UIElement,
+    prefix: (string | number)[],
+  ): ValidationResult<UITree> => {
+    const result = catalog.validateElement(element);
+    if (!result.success) {
+      return reject(result, prefix);
+    }
+
+    const elements = { ...tree.elements, [element.key]: element };
+    // Children added before their parent get its key
+    for (const childKey of element.children ?? []) {
+      const child = elements[childKey];
+      if (child && child.parentKey == null && childKey !== element.key) {
+        elements[childKey] = { ...child, parentKey: element.key };
+      }
+    }
+    tree = { ...tree, elements };
+    notify();
+    return { success: true, data: tree };
+  };
+
+  /** Find the element whose children reference `key`. */
+  const findParentKey = (key: string): string | undefined =>
+    Object.values(tree.elements).find((el) => el.children?.includes(key))?.key;
+
+  const apply = (input: unknown): ValidationResult<UITree> => {
+    const shape = validatePatchShape(input);
+    if (!shape.success || !shape.data) {
+      return reject(shape);
+    }
+
+    const patch = shape.data;
+
+    switch (patch.op) {
+      case "add": {
+        const element = { ...patch.element };
+        if (
+          element.parentKey === undefined &&
+          typeof element.key === "string"
+        ) {
+          const parentKey = findParentKey(element.key);
+          if (parentKey) element.parentKey = parentKey;
+        }
+        return commitElement(element, ["element"]);
+      }
+
+      case "set": {
+        const existing = tree.elements[patch.key];
+        if (!existing) {
+          return reject(fail(`Element "${patch.key}" does not exist`, ["key"]));
+        }
+        return commitElement(
+          {
+            ...existing,
+            props: { ...existing.props, [patch.prop]: patch.value },
+          },
+          ["elements", patch.key],
+        );
+      }
+
+      case "append": {
+        const existing = tree.elements[patch.key];
+        if (!existing) {
+          return reject(fail(`Element "${patch.key}" does not exist`, ["key"]));
+        }
+        if (patch.child === patch.key) {
+          return reject(fail("An element cannot be its own child", ["child"]));
+        }
+
+        const children = existing.children ?? [];
+        const parent: UIElement = children.includes(patch.child)
+          ? existing
+          : { ...existing, children: [...children, patch.child] };
+        const child = tree.elements[patch.child];
+
+        tree = {
+          ...tree,
+          elements: {
+            ...tree.elements,
+            [patch.key]: parent,
+            ...(child && child.parentKey == null
+              ? { [patch.child]: { ...child, parentKey: patch.key } }
+              : {}),
+          },
+        };
+        notify();
+        return { success: true, data: tree };
+      }
+
+      case "root": {
+        tree = { ...tree, root: patch.key };
+        notify();
+        return { success: true, data: tree };
+      }
+    }
+  };
+
+  const getPendingKeys = (): string[] => {
+    const pending = new Set<string>();
+    if (tree.root && !(tree.root in tree.elements)) {
+      pending.add(tree.root);
+    }
+    for (const element of Object.values(tree.elements)) {
+      for (const childKey of element.children ?? []) {
+        if (!(childKey in tree.elements)) pending.add(childKey);
+      }
+    }
+    return [...pending];
+  };
+
+  const applyLine = (line: string): ValidationResult<UITree> | null => {
+    const trimmed = line.trim();
+    if (!trimmed) return null;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return reject(fail(`Invalid JSON: ${trimmed}`));
+    }
+    return apply(parsed);
+  };
+
+  return {
+    apply,
+
+    push(chunk: string) {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      const results: ValidationResult<UITree>[] = [];
+      for (const line of lines) {
+        const result = applyLine(line);
+        if (result) results.push(result);
+      }
+      return results;
+    },
+
+    flush() {
+      const line = buffer;
+      buffer = "";
+      const result = applyLine(line);
+      return result ? [result] : [];
+    },
+
+    getTree() {
+      return tree;
+    },
+
+    getPendingKeys,
+
+    getErrors() {
+      return errors;
+    },
+
+    isComplete() {
+      return tree.root !== "" && getPendingKeys().length === 0;
+    },
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    reset() {
+      tree = { root: "", elements: {} };
+      buffer = "";
+      errors = [];
+      notify();
+    },
+  };
+}
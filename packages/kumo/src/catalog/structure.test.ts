@@ -0,0 +1,211 @@
+/**
+ * Tests for structural UI tree validation
+ */
+
+import { beforeAll, describe, it, expect } from "vitest";
+import { createKumoCatalog, initCatalog } from "./catalog";
+import { validateTreeStructure } from "./structure";
+import type { UIElement, UITree } from "./types";
+
+const el = (
+  key: string,
+  type: string,
+  children?: string[],
+  extra: Partial<UIElement> = {},
+): UIElement => ({ key, type, props: {}, children, ...extra });
+
+const tree = (root: string, ...elements: UIElement[]): UITree => ({
+  root,
+  elements: Object.fromEntries(
+    elements.map((element) => [element.key, element]),
+  ),
+});
+
+const table = (rowParent: UIElement) =>
+  tree(
+    "table",
+    el("table", "Table", [rowParent.key]),
+    rowParent,
+    el("row", "Table.Row", ["cell"]),
+    el("cell", "Table.Cell"),
+  );
+
+describe("validateTreeStructure", () => {
+  it("accepts a well-formed tree", () => {
+    const result = validateTreeStructure(
+      table(el("body", "Table.Body", ["row"])),
+    );
+
+    expect(result.success).toBe(true);
+  });
+
+  it("reports keys that do not match their entry", () => {
+    const result = validateTreeStructure({
+      root: "card",
+      elements: { card: el("other", "Surface") },
+    });
+
+    expect(result.error).toEqual([
+      {
+        message: 'Element key "other" does not match its entry "card"',
+        path: ["elements", "card", "key"],
+      },
+    ]);
+  });
+
+  it("reports missing root and child keys", () => {
+    const result = validateTreeStructure(
+      tree("missing", el("card", "Surface", ["title"])),
+    );
+
+    expect(result.error).toEqual(
+      expect.arrayContaining([
+        {
+          message: 'Child "title" does not exist',
+          path: ["elements", "card", "children", 0],
+        },
+        { message: 'Root element "missing" does not exist', path: ["root"] },
+      ]),
+    );
+  });
+
+  it("reports cycles", () => {
+    const result = validateTreeStructure(
+      tree("a", el("a", "Surface", ["b"]), el("b", "Surface", ["a"])),
+    );
+
+    expect(result.error).toContainEqual({
+      message: "Cycle detected: a -> b -> a",
+      path: ["elements", "b", "children", 0],
+    });
+  });
+
+  it("reports orphans and elements with several parents", () => {
+    const result = validateTreeStructure(
+      tree(
+        "root",
+        el("root", "Surface", ["a", "b"]),
+        el("a", "Surface", ["shared"]),
+        el("b", "Surface", ["shared"]),
+        el("shared", "Text"),
+        el("orphan", "Text"),
+      ),
+    );
+
+    expect(result.error).toEqual([
+      {
+        message: 'Element "shared" is already a child of "a"',
+        path: ["elements", "b", "children", 0],
+      },
+      {
+        message: 'Element "orphan" is not reachable from root "root"',
+        path: ["elements", "orphan"],
+      },
+    ]);
+  });
+
+  it("reports parentKey mismatches", () => {
+    const result = validateTreeStructure(
+      tree(
+        "root",
+        el("root", "Surface", ["a", "b"]),
+        el("a", "Text", undefined, { parentKey: "b" }),
+        el("b", "Surface", undefined, { parentKey: "root" }),
+      ),
+    );
+
+    expect(result.error).toEqual([
+      {
+        message: 'parentKey "b" does not match actual parent "root"',
+        path: ["elements", "a", "parentKey"],
+      },
+    ]);
+  });
+
+  it("enforces table nesting rules", () => {
+    const result = validateTreeStructure(table(el("body", "Surface", ["row"])));
+
+    expect(result.error).toEqual([
+      {
+        message:
+          '"Table" children must be "Table.Header", "Table.Body", "Table.Footer", not "Surface".',
+        path: ["elements", "table", "children", 0],
+      },
+      {
+        message:
+          '"Table.Row" must be a direct child of "Table.Header", "Table.Body", "Table.Footer", not "Surface".',
+        path: ["elements", "row"],
+      },
+    ]);
+  });
+
+  it("rejects children on Tabs", () => {
+    const result = validateTreeStructure(
+      tree("tabs", el("tabs", "Tabs", ["tab"]), el("tab", "Text")),
+    );
+
+    expect(result.error).toEqual([
+      {
+        message:
+          '"Tabs" cannot have children. Define tab items with the "tabs" prop instead.',
+        path: ["elements", "tabs", "children", 0],
+      },
+    ]);
+  });
+
+  it("checks ancestors for `within` rules", () => {
+    const valid = validateTreeStructure(
+      tree(
+        "dialog",
+        el("dialog", "Dialog", ["body"]),
+        el("body", "Surface", ["title"]),
+        el("title", "Dialog.Title"),
+      ),
+    );
+    const invalid = validateTreeStructure(
+      tree(
+        "body",
+        el("body", "Surface", ["title"]),
+        el("title", "Dialog.Title"),
+      ),
+    );
+
+    expect(valid.success).toBe(true);
+    expect(invalid.error).toEqual([
+      {
+        message: '"Dialog.Title" must be inside "Dialog".',
+        path: ["elements", "title"],
+      },
+    ]);
+  });
+});
+
+describe("catalog.validateTree", () => {
+  const catalog = createKumoCatalog({
+    nestingRules: { Badge: { parents: ["Surface"] } },
+  });
+
+  beforeAll(async () => {
+    await initCatalog();
+  });
+
+  it("accepts sub-component types", () => {
+    expect(catalog.hasComponent("Table.Row")).toBe(true);
+    expect(
+      catalog.validateTree(table(el("body", "Table.Body", ["row"]))).success,
+    ).toBe(true);
+  });
+
+  it("reports structural issues after the shape check", () => {
+    const result = catalog.validateTree(
+      tree("root", el("root", "Grid", ["badge"]), el("badge", "Badge")),
+    );
+
+    expect(result.error).toEqual([
+      {
+        message: '"Badge" must be a direct child of "Surface", not "Grid".',
+        path: ["elements", "badge"],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Structural UI tree validation.
+ *
+ * The generated Zod schemas check the shape of each element. This module
+ * checks the tree as a graph: keys, references, reachability, cycles,
+ * `parentKey` consistency and which component types may nest inside which.
+ */
+
+import type { NestingRule, UIElement, UITree, ValidationResult } from "./types";
+
+type ValidationIssue = NonNullable<ValidationResult["error"]>[number];
+
+const TABLE_SECTIONS = ["Table.Header", "Table.Body", "Table.Footer"];
+const TABLE_ROWS = ["Table.Row", "Table.GroupRow"];
+const TABLE_CELLS = [
+  "Table.Head",
+  "Table.Cell",
+  "Table.CheckHead",
+  "Table.CheckCell",
+  "Table.ExpandCell",
+];
+
+/**
+ * Nesting rules for compound components, keyed by element type.
+ * Extend or override them with `CatalogConfig.nestingRules`.
+ */
+export const KUMO_NESTING_RULES: Readonly<Record<string, NestingRule>> = {
+  Table: { children: TABLE_SECTIONS },
+  "Table.Header": { parents: ["Table"], children: ["Table.Row"] },
+  "Table.Body": {
+    parents: ["Table"],
+    children: [...TABLE_ROWS, "Table.DetailRow"],
+  },
+  "Table.Footer": { parents: ["Table"], children: ["Table.Row"] },
+  "Table.Row": { parents: TABLE_SECTIONS, children: TABLE_CELLS },
+  "Table.GroupRow": { parents: ["Table.Body"], children: TABLE_CELLS },
+  "Table.DetailRow": { parents: ["Table.Body"] },
+  "Table.Head": { parents: TABLE_ROWS },
+  "Table.Cell": { parents: TABLE_ROWS },
+  "Table.CheckHead": { parents: TABLE_ROWS },
+  "Table.CheckCell": { parents: TABLE_ROWS },
+  "Table.ExpandCell": { parents: TABLE_ROWS },
+  Tabs: {
+    children: [],
+    hint: 'Define tab items with the "tabs" prop instead.',
+  },
+  "Select.Option": { parents: ["Select"] },
+  "Checkbox.Item": { parents: ["Checkbox.Group"] },
+  "Switch.Item": { parents: ["Switch.Group"] },
+  "LayerCard.Primary": { parents: ["LayerCard"] },
+  "LayerCard.Secondary": { parents: ["LayerCard"] },
+  "Breadcrumbs.Link": { parents: ["Breadcrumbs"] },
+  "Breadcrumbs.Current": { parents: ["Breadcrumbs"] },
+  "Breadcrumbs.Separator": { parents: ["Breadcrumbs"] },
+  "Breadcrumbs.Clipboard": { parents: ["Breadcrumbs"] },
+  "Dialog.Title": { within: ["Dialog"] },
+  "Dialog.Description": { within: ["Dialog"] },
+  "Dialog.Close": { within: ["Dialog"] },
+  "Popover.Title": { within: ["Popover", "Popover.Content"] },
+  "Popover.Description": { within: ["Popover", "Popover.Content"] },
+  "Popover.Close": { within: ["Popover", "Popover.Content"] },
+  "Pagination.Info": { within: ["Pagination"] },
+  "Pagination.PageSize": { within: ["Pagination"] },
+  "Pagination.Controls": { within: ["Pagination"] },
+  "Pagination.Separator": { within: ["Pagination"] },
+};
+
+function quoteList(types: readonly string[]): string {
+  return types.map((type) => `"${type}"`).join(", ");
+}
+
+/**
+ * Validate the structure of a UI tree.
+ *
+ * Reports, with `ValidationResult.error` paths into the tree:
+ * - elements whose `key` does not match their entry in `elements`
+ * - a `root` or `children` key that is missing from `elements`
+ * - cycles in `children`
+ * - elements listed as a child of more than one parent
+ * - elements unreachable from `root`
+ * - `parentKey` values that disagree with the actual parent
+ * - violations of the component nesting `rules`
+ *
+ * The tree must already match the UITree shape (see `catalog.validateTree`,
+ * which runs both checks).
+ *
+ * @example
+ * const result = validateTreeStructure(tree);
+ * // [{ message: 'Child "row-2" does not exist', path: ["elements", "body", "children", 1] }]
+ */
+export function validateTreeStructure(
+  tree: UITree,
+  rules: Readonly<Record<string, NestingRule>> = KUMO_NESTING_RULES,
+): ValidationResult<UITree> {
+  const issues: ValidationIssue[] = [];
+  const { elements } = tree;
+
+  for (const [key, element] of Object.entries(elements)) {
+    if (element.key !== key) {
+      issues.push({
+        message: `Element key "${element.key}" does not match its entry "${key}"`,
+        path: ["elements", key, "key"],
+      });
+    }
+  }
+
+  // Each element's actual parent, from the first `children` list it appears in
+  const parents = new Map<string, string>();
+
+  for (const [key, element] of Object.entries(elements)) {
+    (element.children ?? []).forEach((childKey, index) => {
+      const path = ["elements", key, "children", index];
+
+      if (!(childKey in elements)) {
+        issues.push({ message: `Child "${childKey}" does not exist`, path });
+        return;
+      }
+
+      const existingParent = parents.get(childKey);
+      if (existingParent !== undefined && existingParent !== key) {
+        issues.push({
+          message: `Element "${childKey}" is already a child of "${existingParent}"`,
+          path,
+        });
+        return;
+      }
+      parents.set(childKey, key);
+    });
+  }
+
+  if (!(tree.root in elements)) {
+    issues.push({
+      message: `Root element "${tree.root}" does not exist`,
+      path: ["root"],
+    });
+  }
+
+  // Walk from the root, reporting cycles and recording reachable keys
+  const reachable = new Set<string>();
+  const visit = (key: string, ancestors: string[]) => {
+    const element = elements[key];
+    if (!element || reachable.has(key)) return;
+    reachable.add(key);
+
+    const path = [...ancestors, key];
+    (element.children ?? []).forEach((childKey, index) => {
+      if (path.includes(childKey)) {
+        issues.push({
+          message: `Cycle detected: ${[...path.slice(path.indexOf(childKey)), childKey].join(" -> ")}`,
+          path: ["elements", key, "children", index],
+        });
+        return;
+      }
+      visit(childKey, path);
+    });
+  };
+  visit(tree.root, []);
+
+  for (const [key, element] of Object.entries(elements)) {
+    if (!reachable.has(key)) {
+      issues.push({
+        message: `Element "${key}" is not reachable from root "${tree.root}"`,
+        path: ["elements", key],
+      });
+    }
+
+    const actualParent = parents.get(key) ?? null;
+    if (element.parentKey != null && element.parentKey !== actualParent) {
+      issues.push({
+        message:
+          actualParent === null
+            ? `parentKey "${element.parentKey}" is set, but no element lists "${key}" as a child`
+            : `parentKey "${element.parentKey}" does not match actual parent "${actualParent}"`,
+        path: ["elements", key, "parentKey"],
+      });
+    }
+  }
+
+  issues.push(...validateNesting(tree, parents, rules));
+
+  return issues.length > 0
+    ? { success: false, error: issues }
+    : { success: true, data: tree };
+}
+
+/**
+ * Check every element against the nesting rules for its type and its parent's type.
+ */
+function validateNesting(
+  tree: UITree,
+  parents: ReadonlyMap<string, string>,
+  rules: Readonly<Record<string, NestingRule>>,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { elements } = tree;
+
+  const ancestorTypes = (key: string): string[] => {
+    const types: string[] = [];
+    const seen = new Set<string>([key]);
+    let parentKey = parents.get(key);
+    // `seen` guards against cycles, which are reported separately
+    while (parentKey !== undefined && !seen.has(parentKey)) {
+      seen.add(parentKey);
+      const parent: UIElement | undefined = elements[parentKey];
+      if (parent) types.push(parent.type);
+      parentKey = parents.get(parentKey);
+    }
+    return types;
+  };
+
+  for (const [key, element] of Object.entries(elements)) {
+    const rule = rules[element.type];
+    if (!rule) continue;
+    const hint = rule.hint ? ` ${rule.hint}` : "";
+    const parentKey = parents.get(key);
+    const parentType =
+      parentKey !== undefined ? elements[parentKey]?.type : undefined;
+
+    if (rule.parents && !rule.parents.includes(parentType ?? "")) {
+      issues.push({
+        message: `"${element.type}" must be a direct child of ${quoteList(rule.parents)}${parentType ? `, not "${parentType}"` : ""}.${hint}`,
+        path: ["elements", key],
+      });
+    }
+
+    if (
+      rule.within &&
+      !ancestorTypes(key).some((type) => rule.within!.includes(type))
+    ) {
+      issues.push({
+        message: `"${element.type}" must be inside ${quoteList(rule.within)}.${hint}`,
+        path: ["elements", key],
+      });
+    }
+
+    if (rule.children) {
+      const allowed = rule.children;
+      (element.children ?? []).forEach((childKey, index) => {
+        const child = elements[childKey];
+        if (!child || allowed.includes(child.type)) return;
+        issues.push({
+          message:
+            allowed.length === 0
+              ? `"${element.type}" cannot have children.${hint}`
+              : `"${element.type}" children must be ${quoteList(allowed)}, not "${child.type}".${hint}`,
+          path: ["elements", key, "children", index],
+        });
+      });
+    }
+  }
+
+  return issues;
+}
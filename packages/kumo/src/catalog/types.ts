@@ -34,25 +34,81 @@ export type DynamicString = DynamicValue<string>;
 export type DynamicNumber = DynamicValue<number>;
 export type DynamicBoolean = DynamicValue<boolean>;
 
+/**
+ * Two-way binding between a form component's value and the data model.
+ * The value is read from `bind` like a `{ path }`, and user edits are
+ * written back to it, re-rendering every element that depends on it.
+ *
+ * Supported on the value of `Input`, `InputArea`, `Select`, `Checkbox`,
+ * `Switch`, `Radio`, `Combobox`, `Slider`, `RangeSlider` and `DatePicker`
+ * (see `BINDING_PROPS`).
+ *
+ * @example
+ * { type: "Input", props: { label: "Email", value: { bind: "/form/email" } } }
+ * { type: "Switch", props: { label: "Notify", checked: { bind: "/form/notify" } } }
+ */
+export interface DataBinding {
+  bind: string;
+}
+
 // =============================================================================
 // Visibility Conditions
 // =============================================================================
 
+/**
+ * Operand for comparisons: a dynamic value, a list of literals (for `in`),
+ * the length of a dynamic value (string length, array length or number
+ * of object keys), or arithmetic on two operands. Arithmetic on anything
+ * but numbers, and division by zero, yields `undefined`.
+ *
+ * @example
+ * { gt: [{ length: { path: "/items" } }, 0] }
+ * { in: [{ path: "/status" }, ["active", "pending"]] }
+ * { gte: [{ sub: [{ path: "/quota" }, { path: "/used" }] }, 10] }
+ */
+export type Operand =
+  | DynamicValue<string | number | boolean | null>
+  | (string | number | boolean | null)[]
+  | { length: DynamicValue<string | unknown[] | object> }
+  | { add: [Operand, Operand] }
+  | { sub: [Operand, Operand] }
+  | { mul: [Operand, Operand] }
+  | { div: [Operand, Operand] }
+  /** Remainder of dividing the first operand by the second */
+  | { mod: [Operand, Operand] };
+
 /**
  * Logic expression for complex visibility conditions.
- * Supports boolean logic (and, or, not) and comparisons.
+ * Supports boolean logic (and, or, not), comparisons, string and collection
+ * checks, and role/permission checks against `AuthState.user`.
  */
 export type LogicExpression =
   | { and: LogicExpression[] }
   | { or: LogicExpression[] }
   | { not: LogicExpression }
   | { path: string }
-  | { eq: [DynamicValue, DynamicValue] }
-  | { neq: [DynamicValue, DynamicValue] }
-  | { gt: [DynamicValue<number>, DynamicValue<number>] }
-  | { gte: [DynamicValue<number>, DynamicValue<number>] }
-  | { lt: [DynamicValue<number>, DynamicValue<number>] }
-  | { lte: [DynamicValue<number>, DynamicValue<number>] };
+  | { eq: [Operand, Operand] }
+  | { neq: [Operand, Operand] }
+  | { gt: [Operand, Operand] }
+  | { gte: [Operand, Operand] }
+  | { lt: [Operand, Operand] }
+  | { lte: [Operand, Operand] }
+  /** First value is an element of the second (array), or a substring of it (string) */
+  | { in: [Operand, Operand] }
+  /** First value (array or string) contains the second */
+  | { contains: [Operand, Operand] }
+  /** First value (string) starts with the second */
+  | { startsWith: [Operand, Operand] }
+  /** First value (string) matches the regular expression source in the second */
+  | { matches: [Operand, string] }
+  /** Value at path is null, undefined, "", [] or {} */
+  | { isEmpty: string }
+  /** Value at path is defined (not undefined or null) */
+  | { exists: string }
+  /** User has the role (or any of the roles) */
+  | { role: string | string[] }
+  /** User has the permission (or all of the permissions) */
+  | { permission: string | string[] };
 
 /**
  * Visibility condition for conditional rendering.
@@ -125,6 +181,31 @@ export interface Action {
 // UI Elements & Trees
 // =============================================================================
 
+/**
+ * Renders an element once per item of an array in the data model.
+ *
+ * Inside each copy, and its children, relative JSON Pointers resolve against
+ * the item: `"0/name"` is the item's `name`, `"0#"` its index and
+ * `"1/title"` a sibling of the array. Repeats nest, and a relative `path`
+ * iterates an array of the enclosing item.
+ *
+ * @example
+ * {
+ *   key: "row",
+ *   type: "Table.Row",
+ *   props: {},
+ *   repeat: { path: "/users", key: "/id" },
+ *   children: ["name-cell"]
+ * }
+ * // "name-cell": { type: "Table.Cell", props: { children: { path: "0/name" } } }
+ */
+export interface ElementRepeat {
+  /** Pointer to the array to iterate, absolute or relative to the enclosing item */
+  path: string;
+  /** Pointer within each item to a unique id, used to keep items stable (default: the index) */
+  key?: string;
+}
+
 /**
  * A single UI element in the tree.
  * Represents one component with its props and relationships.
@@ -147,6 +228,8 @@ export interface UIElement<
   visible?: VisibilityCondition;
   /** Action to trigger on interaction */
   action?: Action;
+  /** Render the element once per item of an array */
+  repeat?: ElementRepeat;
 }
 
 /**
@@ -182,7 +265,16 @@ export interface UITree {
  */
 export interface AuthState {
   isSignedIn: boolean;
-  user?: Record<string, unknown>;
+  /**
+   * Signed-in user. `role`/`roles` and `permissions` back the `role` and
+   * `permission` visibility checks.
+   */
+  user?: {
+    role?: string;
+    roles?: string[];
+    permissions?: string[];
+    [key: string]: unknown;
+  };
 }
 
 // =============================================================================
@@ -222,7 +314,24 @@ export interface ActionDefinition {
   /** Description for AI generation */
   description: string;
   /** Parameter schema (optional, for validation) */
-  params?: Record<string, { type: string; description?: string }>;
+  params?: Record<
+    string,
+    { type: string; description?: string; required?: boolean }
+  >;
+}
+
+/**
+ * Nesting rule for a component type.
+ * - `parents` — the element's direct parent must be one of these types
+ * - `within` — some ancestor must be one of these types
+ * - `children` — direct children must be of these types (`[]` forbids children)
+ */
+export interface NestingRule {
+  parents?: readonly string[];
+  within?: readonly string[];
+  children?: readonly string[];
+  /** Extra hint appended to the issue message */
+  hint?: string;
 }
 
 /**
@@ -231,6 +340,60 @@ export interface ActionDefinition {
 export interface CatalogConfig {
   /** Action definitions (optional) */
   actions?: Record<string, ActionDefinition>;
+  /** Nesting rules merged over the built-in rules, keyed by element type (optional) */
+  nestingRules?: Record<string, NestingRule>;
+}
+
+/**
+ * Options for `KumoCatalog.generatePrompt`.
+ */
+export interface PromptOptions {
+  /** Only describe these components (default: all) */
+  components?: readonly string[];
+  /**
+   * Output format:
+   * - `"markdown"` — prompt text with prop tables (default)
+   * - `"json-schema"` — serialized tool definition for function-calling APIs
+   */
+  format?: "markdown" | "json-schema";
+  /** Approximate token budget; detail is reduced until the prompt fits */
+  maxTokens?: number;
+  /** Include component examples (default: true) */
+  examples?: boolean;
+}
+
+/**
+ * Function-calling tool definition describing the `UITree` output.
+ * `input_schema` is a JSON Schema object.
+ */
+export interface CatalogToolDefinition {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+/**
+ * A fix applied by `KumoCatalog.repairTree`.
+ */
+export interface RepairFix {
+  /** What was changed */
+  message: string;
+  /** Path to the repaired value, in `ValidationResult.error` format */
+  path: (string | number)[];
+}
+
+/**
+ * Result of `KumoCatalog.repairTree`.
+ */
+export interface RepairResult {
+  /** Whether the repaired tree is valid */
+  success: boolean;
+  /** Repaired tree (best effort when `success` is false) */
+  tree: UITree;
+  /** Fixes that were applied */
+  fixes: RepairFix[];
+  /** Issues that could not be repaired */
+  errors: NonNullable<ValidationResult["error"]>;
 }
 
 /**
@@ -241,6 +404,8 @@ export interface KumoCatalog {
   readonly componentNames: readonly string[];
   /** Action names in the catalog */
   readonly actionNames: readonly string[];
+  /** Action definitions in the catalog, keyed by name */
+  readonly actions: Readonly<Record<string, ActionDefinition>>;
   /** Check if component type exists */
   hasComponent(type: string): boolean;
   /** Check if action exists */
@@ -249,8 +414,14 @@ export interface KumoCatalog {
   validateElement(element: unknown): ValidationResult;
   /** Validate a complete UI tree */
   validateTree(tree: unknown): ValidationResult<UITree>;
+  /** Apply safe fixes to an invalid UI tree and report what remains invalid */
+  repairTree(tree: unknown): RepairResult;
   /** Generate a prompt describing the catalog for AI */
-  generatePrompt(): string;
+  generatePrompt(options?: PromptOptions): string;
+  /** Generate a JSON Schema tool definition for function-calling APIs */
+  generateToolDefinition(
+    options?: Omit<PromptOptions, "format" | "examples">,
+  ): CatalogToolDefinition;
 }
 
 /**
@@ -9,6 +9,7 @@ import type {
   LogicExpression,
   DataModel,
   AuthState,
+  Operand,
 } from "./types";
 import { getByPath, resolveDynamicValue } from "./data";
 
@@ -20,6 +21,8 @@ export interface VisibilityContext {
   data: DataModel;
   /** Authentication state */
   auth: AuthState;
+  /** Absolute pointer that relative pointers resolve against (e.g. `"/items/0"`) */
+  scope?: string;
 }
 
 /**
@@ -35,6 +38,218 @@ function isTruthy(value: unknown): boolean {
   return Boolean(value);
 }
 
+/**
+ * Arithmetic operand operators. Results that are not finite numbers, such
+ * as division by zero, resolve to `undefined`.
+ */
+const ARITHMETIC_OPERATORS = {
+  add: (a: number, b: number) => a + b,
+  sub: (a: number, b: number) => a - b,
+  mul: (a: number, b: number) => a * b,
+  div: (a: number, b: number) => a / b,
+  mod: (a: number, b: number) => a % b,
+};
+
+type ArithmeticOperator = keyof typeof ARITHMETIC_OPERATORS;
+
+const isArithmeticOperator = (key: string): key is ArithmeticOperator =>
+  key in ARITHMETIC_OPERATORS;
+
+/**
+ * Resolve a comparison operand: a dynamic value, `{ length: value }` or
+ * arithmetic such as `{ sub: [a, b] }`.
+ */
+function resolveOperand(
+  operand: Operand,
+  data: DataModel,
+  scope?: string,
+): unknown {
+  // Arrays have a `length` too, so only plain objects count
+  if (
+    typeof operand !== "object" ||
+    operand === null ||
+    Array.isArray(operand)
+  ) {
+    return resolveDynamicValue(operand, data, scope);
+  }
+
+  if ("length" in operand) {
+    const value = resolveDynamicValue(operand.length, data, scope);
+    if (typeof value === "string" || Array.isArray(value)) return value.length;
+    if (typeof value === "object" && value !== null) {
+      return Object.keys(value).length;
+    }
+    return 0;
+  }
+
+  const operator = Object.keys(operand).find(isArithmeticOperator);
+  if (operator) {
+    const [a, b] = (operand as Record<ArithmeticOperator, [Operand, Operand]>)[
+      operator
+    ];
+    const valueA = resolveOperand(a, data, scope);
+    const valueB = resolveOperand(b, data, scope);
+    if (typeof valueA !== "number" || typeof valueB !== "number") {
+      return undefined;
+    }
+    const result = ARITHMETIC_OPERATORS[operator](valueA, valueB);
+    return Number.isFinite(result) ? result : undefined;
+  }
+
+  return resolveDynamicValue(operand, data, scope);
+}
+
+/**
+ * Check if a value is empty (null, undefined, "", [] or {}).
+ */
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === "string" || Array.isArray(value)) {
+    return value.length === 0;
+  }
+  if (typeof value === "object") return Object.keys(value).length === 0;
+  return false;
+}
+
+/**
+ * Roles of the signed-in user, from `user.role` and `user.roles`.
+ */
+function getUserRoles(auth: AuthState): string[] {
+  if (!auth.isSignedIn || !auth.user) return [];
+  const { role, roles } = auth.user;
+  return [
+    ...(typeof role === "string" ? [role] : []),
+    ...(Array.isArray(roles) ? roles : []),
+  ];
+}
+
+/** Longest `matches` pattern that is compiled; longer ones are rejected. */
+const MAX_PATTERN_LENGTH = 256;
+
+/** Longest value tested against a `matches` pattern; longer ones don't match. */
+const MAX_MATCH_INPUT_LENGTH = 256;
+
+/** Most unbounded quantifiers (`*`, `+`, `{n,}`) in a `matches` pattern. */
+const MAX_REPEATS = 2;
+
+/** Most compiled patterns kept before the cache is cleared. */
+const MAX_CACHED_PATTERNS = 500;
+
+/**
+ * Compiled `matches` patterns, `null` for rejected ones. Visibility is
+ * evaluated on every render, so each pattern is compiled (and warned
+ * about) once.
+ */
+const patternCache = new Map<string, RegExp | null>();
+
+function warnPattern(message: string) {
+  if (process.env.NODE_ENV !== "production") {
+    console.warn(`[Kumo Catalog]: ${message}`);
+  }
+}
+
+interface PatternGroup {
+  /** Contains a quantifier */
+  quantified: boolean;
+  /** Contains an alternation */
+  alternation: boolean;
+}
+
+/**
+ * Whether a pattern is in the subset `matches` compiles. Patterns come from
+ * AI-generated trees and run on the render thread, so the constructs that
+ * backtrack catastrophically are rejected: backreferences, repeated groups
+ * that contain a quantifier or an alternation (`(a+)+`, `(a|b)*`), and more
+ * than `MAX_REPEATS` unbounded quantifiers.
+ */
+function isSafePattern(pattern: string): boolean {
+  const groups: PatternGroup[] = [{ quantified: false, alternation: false }];
+  let closed: PatternGroup | undefined;
+  let repeats = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    const group = groups[groups.length - 1]!;
+    const previous = closed;
+    closed = undefined;
+
+    if (char === "\\") {
+      // Numbered and named backreferences
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) return false;
+      i++;
+    } else if (char === "[") {
+      // Skip the character class
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (char === "(") {
+      groups.push({ quantified: false, alternation: false });
+      // Skip the `?` of `(?:`, `(?=`, `(?<name>` and the like
+      if (pattern[i + 1] === "?") i++;
+    } else if (char === ")") {
+      if (groups.length === 1) continue;
+      closed = groups.pop()!;
+      groups[groups.length - 1]!.quantified ||= closed.quantified;
+      groups[groups.length - 1]!.alternation ||= closed.alternation;
+    } else if (char === "|") {
+      group.alternation = true;
+    } else if (char === "?") {
+      group.quantified = true;
+    } else if (
+      char === "*" ||
+      char === "+" ||
+      (char === "{" && /^\{\d+,\d*\}/.test(pattern.slice(i)))
+    ) {
+      // A lazy `+?` or `*?` was counted with its quantifier
+      const unbounded = char !== "{" || /^\{\d+,\}/.test(pattern.slice(i));
+      if (previous && (previous.quantified || previous.alternation)) {
+        return false;
+      }
+      if (unbounded && ++repeats > MAX_REPEATS) return false;
+      group.quantified = true;
+    } else if (char === "{" && /^\{\d+\}/.test(pattern.slice(i))) {
+      group.quantified = true;
+    }
+  }
+  return true;
+}
+
+function compilePattern(pattern: string): RegExp | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    warnPattern(
+      `"matches" pattern is longer than ${MAX_PATTERN_LENGTH} characters`,
+    );
+    return null;
+  }
+  if (!isSafePattern(pattern)) {
+    warnPattern(
+      `"matches" pattern may backtrack excessively and was rejected: ${pattern}`,
+    );
+    return null;
+  }
+  try {
+    return new RegExp(pattern);
+  } catch {
+    warnPattern(`Invalid "matches" pattern: ${pattern}`);
+    return null;
+  }
+}
+
+/**
+ * Compile a regular expression, returning `null` for invalid, overly long
+ * or unsafe patterns.
+ */
+function toRegExp(pattern: unknown): RegExp | null {
+  if (typeof pattern !== "string") return null;
+  const cached = patternCache.get(pattern);
+  if (cached !== undefined) return cached;
+
+  const regex = compilePattern(pattern);
+  if (patternCache.size >= MAX_CACHED_PATTERNS) patternCache.clear();
+  patternCache.set(pattern, regex);
+  return regex;
+}
+
 /**
  * Evaluate a logic expression.
  */
@@ -44,7 +259,7 @@ function evaluateLogicExpression(
 ): boolean {
   // Path check - truthy test
   if ("path" in expr && !("eq" in expr) && !("neq" in expr)) {
-    const value = getByPath(ctx.data, expr.path);
+    const value = getByPath(ctx.data, expr.path, ctx.scope);
     return isTruthy(value);
   }
 
@@ -63,52 +278,117 @@ function evaluateLogicExpression(
     return !evaluateLogicExpression(expr.not, ctx);
   }
 
+  const resolve = ([a, b]: [Operand, Operand]) =>
+    [
+      resolveOperand(a, ctx.data, ctx.scope),
+      resolveOperand(b, ctx.data, ctx.scope),
+    ] as const;
+
   // Equality check
   if ("eq" in expr) {
-    const eqExpr = expr as { eq: [unknown, unknown] };
-    const valueA = resolveDynamicValue(eqExpr.eq[0], ctx.data);
-    const valueB = resolveDynamicValue(eqExpr.eq[1], ctx.data);
+    // `{ path, eq }` objects survive the path check above, so narrow explicitly
+    const [valueA, valueB] = resolve((expr as { eq: [Operand, Operand] }).eq);
     return valueA === valueB;
   }
 
   // Inequality check
   if ("neq" in expr) {
-    const neqExpr = expr as { neq: [unknown, unknown] };
-    const valueA = resolveDynamicValue(neqExpr.neq[0], ctx.data);
-    const valueB = resolveDynamicValue(neqExpr.neq[1], ctx.data);
+    const [valueA, valueB] = resolve((expr as { neq: [Operand, Operand] }).neq);
     return valueA !== valueB;
   }
 
   // Greater than
   if ("gt" in expr) {
-    const gtExpr = expr as { gt: [unknown, unknown] };
-    const valueA = resolveDynamicValue(gtExpr.gt[0], ctx.data) as number;
-    const valueB = resolveDynamicValue(gtExpr.gt[1], ctx.data) as number;
-    return valueA > valueB;
+    const [valueA, valueB] = resolve(expr.gt);
+    return (valueA as number) > (valueB as number);
   }
 
   // Greater than or equal
   if ("gte" in expr) {
-    const gteExpr = expr as { gte: [unknown, unknown] };
-    const valueA = resolveDynamicValue(gteExpr.gte[0], ctx.data) as number;
-    const valueB = resolveDynamicValue(gteExpr.gte[1], ctx.data) as number;
-    return valueA >= valueB;
+    const [valueA, valueB] = resolve(expr.gte);
+    return (valueA as number) >= (valueB as number);
   }
 
   // Less than
   if ("lt" in expr) {
-    const ltExpr = expr as { lt: [unknown, unknown] };
-    const valueA = resolveDynamicValue(ltExpr.lt[0], ctx.data) as number;
-    const valueB = resolveDynamicValue(ltExpr.lt[1], ctx.data) as number;
-    return valueA < valueB;
+    const [valueA, valueB] = resolve(expr.lt);
+    return (valueA as number) < (valueB as number);
   }
 
   // Less than or equal
   if ("lte" in expr) {
-    const lteExpr = expr as { lte: [unknown, unknown] };
-    const valueA = resolveDynamicValue(lteExpr.lte[0], ctx.data) as number;
-    const valueB = resolveDynamicValue(lteExpr.lte[1], ctx.data) as number;
-    return valueA <= valueB;
+    const [valueA, valueB] = resolve(expr.lte);
+    return (valueA as number) <= (valueB as number);
+  }
+
+  // Membership: element of an array, or substring of a string
+  if ("in" in expr) {
+    const [value, collection] = resolve(expr.in);
+    if (Array.isArray(collection)) return collection.includes(value);
+    return typeof collection === "string" && typeof value === "string"
+      ? collection.includes(value)
+      : false;
+  }
+
+  // Containment: array contains element, or string contains substring
+  if ("contains" in expr) {
+    const [collection, value] = resolve(expr.contains);
+    if (Array.isArray(collection)) return collection.includes(value);
+    return typeof collection === "string" && typeof value === "string"
+      ? collection.includes(value)
+      : false;
+  }
+
+  // String prefix
+  if ("startsWith" in expr) {
+    const [value, prefix] = resolve(expr.startsWith);
+    return (
+      typeof value === "string" &&
+      typeof prefix === "string" &&
+      value.startsWith(prefix)
+    );
+  }
+
+  // Regular expression
+  if ("matches" in expr) {
+    const value = resolveOperand(expr.matches[0], ctx.data, ctx.scope);
+    const regex = toRegExp(expr.matches[1]);
+    return (
+      typeof value === "string" &&
+      value.length <= MAX_MATCH_INPUT_LENGTH &&
+      regex !== null &&
+      regex.test(value)
+    );
+  }
+
+  // Empty check
+  if ("isEmpty" in expr) {
+    return isEmpty(getByPath(ctx.data, expr.isEmpty, ctx.scope));
+  }
+
+  // Existence check
+  if ("exists" in expr) {
+    const value = getByPath(ctx.data, expr.exists, ctx.scope);
+    return value !== undefined && value !== null;
+  }
+
+  // Role check - any of the given roles
+  if ("role" in expr) {
+    const roles = getUserRoles(ctx.auth);
+    const required = Array.isArray(expr.role) ? expr.role : [expr.role];
+    return required.some((role) => roles.includes(role));
+  }
+
+  // Permission check - all of the given permissions
+  if ("permission" in expr) {
+    const permissions =
+      ctx.auth.isSignedIn && Array.isArray(ctx.auth.user?.permissions)
+        ? ctx.auth.user.permissions
+        : [];
+    const required = Array.isArray(expr.permission)
+      ? expr.permission
+      : [expr.permission];
+    return required.every((permission) => permissions.includes(permission));
   }
 
   // Unknown expression type - default to visible
@@ -135,6 +415,12 @@ function evaluateLogicExpression(
  *     { auth: "signedIn" }
  *   ]
  * }, ctx)
+ *
+ * // Collections, strings, arithmetic and roles
+ * evaluateVisibility({ gt: [{ length: { path: "/items" } }, 0] }, ctx)
+ * evaluateVisibility({ lt: [{ sub: [{ path: "/quota" }, { path: "/used" }] }, 10] }, ctx)
+ * evaluateVisibility({ in: [{ path: "/status" }, ["active", "pending"]] }, ctx)
+ * evaluateVisibility({ role: ["admin", "owner"] }, ctx)
  */
 export function evaluateVisibility(
   condition: VisibilityCondition | undefined,
@@ -163,7 +449,7 @@ export function evaluateVisibility(
 
   // Path check (simple truthy test)
   if ("path" in condition && !("and" in condition) && !("or" in condition)) {
-    const value = getByPath(ctx.data, condition.path);
+    const value = getByPath(ctx.data, condition.path, ctx.scope);
     return isTruthy(value);
   }
 
@@ -19,8 +19,10 @@ mkdirSync(join(distCliDir, "commands"), { recursive: true });
 mkdirSync(join(distCliDir, "utils"), { recursive: true });
 
 // Compile CLI files using esbuild API
+const CLI_ENTRY = "src/command-line/cli.ts";
+
 const cliFiles = [
-  { src: "src/command-line/cli.ts", dest: "dist/command-line/cli.js" },
+  { src: CLI_ENTRY, dest: "dist/command-line/cli.js" },
   {
     src: "src/command-line/commands/ls.ts",
     dest: "dist/command-line/commands/ls.js",
@@ -45,6 +47,10 @@ const cliFiles = [
     src: "src/command-line/commands/ai.ts",
     dest: "dist/command-line/commands/ai.js",
   },
+  {
+    src: "src/command-line/commands/catalog.ts",
+    dest: "dist/command-line/commands/catalog.js",
+  },
 ];
 
 console.log("Building Kumo CLI...");
@@ -62,6 +68,8 @@ for (const file of cliFiles) {
     target: "node18",
     bundle: true,
     packages: "external",
+    // Commands loaded on demand stay in their own files
+    external: file.src === CLI_ENTRY ? ["./commands/catalog.js"] : [],
   });
 
   // Read the compiled file and ensure shebang is at the top
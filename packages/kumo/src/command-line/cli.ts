@@ -7,6 +7,7 @@
  *   kumo ls                   List all components
  *   kumo doc <name>           Get documentation for a component
  *   kumo docs                 Get documentation for all components
+ *   kumo catalog <command>    Validate, prompt and render AI-generated UI trees
  *   kumo help                 Show this help message
  */
 
@@ -38,6 +39,9 @@ MIGRATION:
 
 AI:
   kumo ai              Print the AI usage guide (component API reference)
+  kumo catalog validate <file.json>  Validate (or --repair) an AI-generated UI tree
+  kumo catalog prompt  Print the catalog prompt (--components, --format, --max-tokens)
+  kumo catalog render <file.json>    Server-render a UI tree to HTML (--out page.html)
 
 GENERAL:
   kumo help            Show this help message
@@ -50,6 +54,7 @@ Examples:
   kumo doc Button
   kumo docs
   kumo migrate --json > rename-map.json
+  kumo catalog render ui.json --out page.html
 `;
 
 async function main(): Promise<void> {
@@ -93,6 +98,12 @@ async function main(): Promise<void> {
       ai();
       break;
 
+    case "catalog":
+      // Validate, prompt and render AI-generated UI trees. Loaded on demand,
+      // as it needs React and the catalog's peer dependencies
+      await (await import("./commands/catalog.js")).catalog(args.slice(1));
+      break;
+
     case "help":
     case "--help":
     case "-h":
@@ -0,0 +1,158 @@
+/**
+ * Tests for catalog command
+ * Tests exit codes, issue formatting and static HTML rendering of UI trees
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { UITree } from "../../catalog/types.js";
+
+// Render with the two components the tree uses instead of every Kumo
+// component, and without the action confirm dialog (the tree has no actions)
+vi.mock("../../catalog/confirm-dialog.js", () => ({
+  ActionConfirmDialog: () => null,
+}));
+vi.mock("../../catalog/components.js", async () => {
+  const [{ Surface }, { Text }] = await Promise.all([
+    import("../../components/surface/surface.js"),
+    import("../../components/text/text.js"),
+  ]);
+  const components: Record<string, unknown> = { Surface, Text };
+  return {
+    KUMO_CATALOG_COMPONENTS: components,
+    resolveComponent: (type: string, map = components) => map[type],
+  };
+});
+
+describe("catalog command", () => {
+  describe("module structure", () => {
+    it("exports catalog function", async () => {
+      const { catalog } = await import("./catalog.js");
+      expect(typeof catalog).toBe("function");
+    });
+  });
+
+  describe("formatIssues", () => {
+    it("prefixes each issue with its JSON Pointer path", async () => {
+      const { formatIssues } = await import("./catalog.js");
+      expect(
+        formatIssues([
+          { message: "Invalid variant", path: ["elements", "btn/1", "props"] },
+          { message: "Tree must be an object", path: [] },
+        ]),
+      ).toBe(
+        "  /elements/btn~11/props  Invalid variant\n  /  Tree must be an object",
+      );
+    });
+  });
+
+  describe("renderTreeToHtml", () => {
+    const tree: UITree = {
+      root: "card",
+      elements: {
+        card: {
+          key: "card",
+          type: "Surface",
+          props: {},
+          children: ["title"],
+        },
+        title: {
+          key: "title",
+          type: "Text",
+          props: { children: "Hello {{/user/name}}" },
+        },
+      },
+    };
+
+    it("renders a standalone document with resolved data", async () => {
+      const { renderTreeToHtml } = await import("./catalog.js");
+      const html = await renderTreeToHtml(tree, {
+        data: { user: { name: "Ada" } },
+        css: ".p-8{padding:2rem}",
+        mode: "dark",
+      });
+
+      expect(html.startsWith("<!doctype html>")).toBe(true);
+      expect(html).toContain('data-mode="dark"');
+      expect(html).toContain("<style>\n.p-8{padding:2rem}\n</style>");
+      expect(html).toContain("Hello Ada");
+    });
+  });
+
+  describe("exit codes", () => {
+    let tempDir: string;
+    let logSpy: ReturnType<typeof vi.spyOn>;
+    let exitSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), "kumo-catalog-test-"));
+      logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      exitSpy = vi.spyOn(process, "exit").mockImplementation(() => {
+        throw new Error("process.exit called");
+      });
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+      vi.restoreAllMocks();
+    });
+
+    const writeTree = (tree: unknown) => {
+      const file = join(tempDir, "ui.json");
+      writeFileSync(file, JSON.stringify(tree));
+      return file;
+    };
+
+    it("validate exits with 0 for a valid tree", async () => {
+      const { catalog } = await import("./catalog.js");
+      const file = writeTree({
+        root: "title",
+        elements: {
+          title: { key: "title", type: "Text", props: { children: "Hi" } },
+        },
+      });
+
+      await catalog(["validate", file]);
+      expect(exitSpy).not.toHaveBeenCalled();
+      expect(logSpy).toHaveBeenCalledWith(`${file}: valid`);
+    });
+
+    it("validate exits with 1 for an invalid tree", async () => {
+      const { catalog } = await import("./catalog.js");
+      const file = writeTree({
+        root: "title",
+        elements: {
+          title: { key: "title", type: "Text", props: { variant: "huge" } },
+        },
+      });
+
+      await expect(catalog(["validate", file])).rejects.toThrow(
+        "process.exit called",
+      );
+      expect(exitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it("prompt exits with 0 and prints the prompt", async () => {
+      const { catalog } = await import("./catalog.js");
+
+      await catalog(["prompt", "--components", "Text"]);
+      expect(exitSpy).not.toHaveBeenCalled();
+      expect(logSpy).toHaveBeenCalledWith(expect.stringContaining("Text"));
+    });
+
+    it("prompt exits with 1 for unknown components or formats", async () => {
+      const { catalog } = await import("./catalog.js");
+
+      await expect(catalog(["prompt", "--components", "Nope"])).rejects.toThrow(
+        "process.exit called",
+      );
+      await expect(catalog(["prompt", "--format", "yaml"])).rejects.toThrow(
+        "process.exit called",
+      );
+      expect(exitSpy.mock.calls).toEqual([[1], [1]]);
+    });
+  });
+});
@@ -0,0 +1,319 @@
+#!/usr/bin/env node
+/**
+ * Work with AI-generated UI trees from the command line
+ * Usage:
+ *   kumo catalog validate <file.json> [--repair] [--out <file>]
+ *   kumo catalog prompt [--components <names>] [--format <format>] [--max-tokens <n>]
+ *   kumo catalog render <file.json> [--data <file>] [--out <file>] [--mode <mode>]
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  createKumoCatalog,
+  initCatalog,
+  validateTreeProps,
+} from "../../catalog/catalog.js";
+import { formatPointer } from "../../catalog/data.js";
+import type {
+  DataModel,
+  KumoCatalog,
+  PromptOptions,
+  UITree,
+  ValidationResult,
+} from "../../catalog/types.js";
+
+const CATALOG_HELP = `
+kumo catalog - Validate, prompt and preview AI-generated UI trees
+
+Usage:
+  kumo catalog validate <file.json>  Validate a UITree JSON file (exit code 1 if invalid)
+    --repair                         Apply safe fixes before reporting errors
+    --out <file>                     Write the repaired tree (with --repair)
+
+  kumo catalog prompt                Print the catalog prompt for an LLM
+    --components <a,b,...>           Only describe these components
+    --format <markdown|json-schema>  Output format (default: markdown)
+    --max-tokens <n>                 Reduce detail to fit a token budget
+
+  kumo catalog render <file.json>    Server-render a UITree to static HTML
+    --data <file.json>               Data model for dynamic values
+    --out <file>                     Output file (default: stdout)
+    --mode <light|dark>              Color mode (default: light)
+
+Examples:
+  kumo catalog validate ui.json
+  kumo catalog validate ui.json --repair --out ui.fixed.json
+  kumo catalog prompt --components Button,Input,Surface
+  kumo catalog render ui.json --data data.json --out page.html
+`;
+
+type Issues = NonNullable<ValidationResult["error"]>;
+
+/**
+ * Split arguments into positionals and `--flag value` / `--flag` options
+ */
+function parseArgs(args: string[]): {
+  positionals: string[];
+  options: Map<string, string | true>;
+} {
+  const positionals: string[] = [];
+  const options = new Map<string, string | true>();
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (!arg.startsWith("--")) {
+      positionals.push(arg);
+      continue;
+    }
+    const [name, inline] = arg.slice(2).split("=", 2) as [string, string?];
+    const next = args[i + 1];
+    if (inline !== undefined) {
+      options.set(name, inline);
+    } else if (next !== undefined && !next.startsWith("--")) {
+      options.set(name, next);
+      i++;
+    } else {
+      options.set(name, true);
+    }
+  }
+
+  return { positionals, options };
+}
+
+function stringOption(
+  options: Map<string, string | true>,
+  name: string,
+): string | undefined {
+  const value = options.get(name);
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Read and parse a JSON file, exiting with a readable error on failure
+ */
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(readFileSync(file, "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: Could not read ${file}: ${message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Format validation issues as `  /json/pointer  message` lines
+ */
+export function formatIssues(issues: Issues): string {
+  return issues
+    .map((issue) => `  ${formatPointer(issue.path) || "/"}  ${issue.message}`)
+    .join("\n");
+}
+
+/**
+ * Get the path to the precompiled Kumo stylesheet
+ */
+function getStylesheetPath(): string {
+  const __dirname = dirname(fileURLToPath(import.meta.url));
+  // When bundled and running from dist/command-line/, go up 2 levels to package root
+  return join(__dirname, "..", "..", "dist", "styles", "kumo-standalone.css");
+}
+
+/**
+ * Server-render a UI tree to a standalone HTML document with Kumo styles inlined
+ */
+export async function renderTreeToHtml(
+  tree: UITree,
+  options: { data?: DataModel; css?: string; mode?: "light" | "dark" } = {},
+): Promise<string> {
+  const [{ createElement }, { renderToStaticMarkup }, { KumoRenderer }] =
+    await Promise.all([
+      import("react"),
+      import("react-dom/server"),
+      import("../../catalog/renderer.js"),
+    ]);
+
+  const markup = renderToStaticMarkup(
+    createElement(KumoRenderer, { tree, data: options.data }),
+  );
+
+  return `<!doctype html>
+<html lang="en" data-mode="${options.mode ?? "light"}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Kumo UI preview</title>
+${options.css ? `<style>\n${options.css}\n</style>` : ""}
+</head>
+<body class="bg-kumo-base text-kumo-default p-8">
+${markup}
+</body>
+</html>
+`;
+}
+
+async function loadCatalog(): Promise<KumoCatalog> {
+  const catalog = createKumoCatalog();
+  await initCatalog();
+  return catalog;
+}
+
+async function validateCommand(
+  positionals: string[],
+  options: Map<string, string | true>,
+): Promise<void> {
+  const file = positionals[0];
+  if (!file) {
+    console.error("Error: A UITree JSON file is required.");
+    console.log("Usage: kumo catalog validate <file.json> [--repair]");
+    process.exit(1);
+  }
+
+  const input = readJson(file);
+  const catalog = await loadCatalog();
+
+  if (options.has("repair")) {
+    const result = catalog.repairTree(input);
+    if (result.fixes.length > 0) {
+      console.log(`Applied ${result.fixes.length} fix(es):`);
+      console.log(formatIssues(result.fixes));
+    }
+
+    const out = stringOption(options, "out");
+    if (out) {
+      writeFileSync(out, `${JSON.stringify(result.tree, null, 2)}\n`);
+      console.log(`Wrote repaired tree to ${out}`);
+    }
+
+    if (!result.success) {
+      console.error(`${file}: ${result.errors.length} error(s)`);
+      console.error(formatIssues(result.errors));
+      process.exit(1);
+    }
+    console.log(`${file}: valid after repair`);
+    return;
+  }
+
+  const result = catalog.validateTree(input);
+  const errors: Issues = [
+    ...(result.error ?? []),
+    ...(result.success && result.data
+      ? validateTreeProps(catalog, result.data)
+      : []),
+  ];
+
+  if (errors.length > 0) {
+    console.error(`${file}: ${errors.length} error(s)`);
+    console.error(formatIssues(errors));
+    process.exit(1);
+  }
+  console.log(`${file}: valid`);
+}
+
+async function promptCommand(
+  options: Map<string, string | true>,
+): Promise<void> {
+  const components = stringOption(options, "components")
+    ?.split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const format = stringOption(options, "format");
+  if (format && format !== "markdown" && format !== "json-schema") {
+    console.error(`Error: Unknown format "${format}".`);
+    process.exit(1);
+  }
+  const maxTokens = stringOption(options, "max-tokens");
+
+  const catalog = await loadCatalog();
+  const unknown = components?.filter((name) => !catalog.hasComponent(name));
+  if (unknown?.length) {
+    console.error(`Error: Unknown component(s): ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+
+  console.log(
+    catalog.generatePrompt({
+      components,
+      format: format as PromptOptions["format"],
+      maxTokens: maxTokens ? Number(maxTokens) : undefined,
+    }),
+  );
+}
+
+async function renderCommand(
+  positionals: string[],
+  options: Map<string, string | true>,
+): Promise<void> {
+  const file = positionals[0];
+  if (!file) {
+    console.error("Error: A UITree JSON file is required.");
+    console.log("Usage: kumo catalog render <file.json> [--out page.html]");
+    process.exit(1);
+  }
+
+  const catalog = await loadCatalog();
+  const result = catalog.validateTree(readJson(file));
+  if (!result.success || !result.data) {
+    console.error(`${file}: ${result.error?.length ?? 0} error(s)`);
+    console.error(formatIssues(result.error ?? []));
+    process.exit(1);
+  }
+
+  const dataFile = stringOption(options, "data");
+  const mode = stringOption(options, "mode") === "dark" ? "dark" : "light";
+  const stylesheet = getStylesheetPath();
+  if (!existsSync(stylesheet)) {
+    console.warn(
+      "Warning: Kumo styles not found; rendering without them. Run `pnpm build` first.",
+    );
+  }
+
+  const html = await renderTreeToHtml(result.data, {
+    data: dataFile ? (readJson(dataFile) as DataModel) : undefined,
+    css: existsSync(stylesheet) ? readFileSync(stylesheet, "utf-8") : undefined,
+    mode,
+  });
+
+  const out = stringOption(options, "out");
+  if (out) {
+    writeFileSync(out, html);
+    console.log(`Wrote ${out}`);
+  } else {
+    process.stdout.write(html);
+  }
+}
+
+/**
+ * Run a `kumo catalog` subcommand
+ */
+export async function catalog(args: string[]): Promise<void> {
+  const [subcommand, ...rest] = args;
+  const { positionals, options } = parseArgs(rest);
+
+  switch (subcommand) {
+    case "validate":
+      await validateCommand(positionals, options);
+      break;
+
+    case "prompt":
+      await promptCommand(options);
+      break;
+
+    case "render":
+      await renderCommand(positionals, options);
+      break;
+
+    case "help":
+    case "--help":
+    case undefined:
+      console.log(CATALOG_HELP.trim());
+      break;
+
+    default:
+      console.error(`Unknown catalog command: ${subcommand}`);
+      console.log(CATALOG_HELP.trim());
+      process.exit(1);
+  }
+}
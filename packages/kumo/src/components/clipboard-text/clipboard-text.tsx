@@ -3,6 +3,7 @@ import { forwardRef, useCallback, useRef, useState } from "react";
 import { Toast } from "@base-ui/react/toast";
 import { Tooltip } from "@base-ui/react/tooltip";
 import { Button } from "../button";
+import type { KumoButtonSize } from "../button/button";
 import { inputVariants } from "../input";
 import { cn } from "../../utils/cn";
 
@@ -151,6 +152,181 @@ function TooltipWrapper({ children }: { children: React.ReactNode }) {
   );
 }
 
+/**
+ * Props for {@link ClipboardCopyButton}.
+ * @internal Shared by ClipboardText and Code.Block.
+ */
+export interface ClipboardCopyButtonProps {
+  /** The text to copy to clipboard. */
+  text: string;
+  /** Button size. */
+  size?: KumoButtonSize;
+  /** Additional CSS classes for the button. */
+  className?: string;
+  /** Callback fired after text is copied to clipboard. */
+  onCopy?: () => void;
+  /** Tooltip config, see {@link ClipboardTextProps.tooltip}. */
+  tooltip?: ClipboardTextProps["tooltip"];
+  /** Accessible label for the button. */
+  label: string;
+}
+
+/**
+ * Copy button with check-mark feedback, an optional hover tooltip and an
+ * anchored "Copied" toast.
+ *
+ * @internal Shared by ClipboardText and Code.Block.
+ */
+export function ClipboardCopyButton({
+  text,
+  size,
+  className,
+  onCopy,
+  tooltip,
+  label,
+}: ClipboardCopyButtonProps) {
+  const [copied, setCopied] = useState(false);
+  const buttonRef = useRef<HTMLButtonElement | null>(null);
+
+  // Destructure tooltip config with defaults
+  const {
+    text: tooltipText = "Copy",
+    copiedText = "Copied",
+    side: tooltipSide = "top",
+  } = tooltip ?? {};
+
+  const copyToClipboard = useCallback(async () => {
+    try {
+      if (
+        typeof navigator !== "undefined" &&
+        navigator.clipboard &&
+        typeof navigator.clipboard.writeText === "function"
+      ) {
+        await navigator.clipboard.writeText(text);
+      } else if (typeof document !== "undefined") {
+        // Fallback for older browsers
+        const textarea = document.createElement("textarea");
+        textarea.value = text;
+        textarea.setAttribute("readonly", "");
+        textarea.style.position = "absolute";
+        textarea.style.left = "-9999px";
+        document.body.appendChild(textarea);
+        const selection = document.getSelection();
+        const previousRange = selection?.rangeCount
+          ? selection.getRangeAt(0)
+          : null;
+        textarea.select();
+        try {
+          document.execCommand("copy");
+        } finally {
+          document.body.removeChild(textarea);
+          if (previousRange) {
+            selection?.removeAllRanges();
+            selection?.addRange(previousRange);
+          }
+        }
+      }
+
+      setCopied(true);
+
+      // Show anchored toast if tooltip mode is enabled
+      if (tooltip) {
+        clipboardToastManager.add({
+          description: copiedText,
+          positionerProps: {
+            anchor: buttonRef.current,
+            side: tooltipSide,
+            sideOffset: 8,
+          },
+          timeout: 1500,
+          onClose() {
+            setCopied(false);
+          },
+        });
+      } else {
+        // Reset copied state after delay when no tooltip
+        setTimeout(() => setCopied(false), 1500);
+      }
+
+      onCopy?.();
+    } catch (error) {
+      console.warn("Clipboard copy failed", error);
+    }
+  }, [text, onCopy, tooltip, copiedText, tooltipSide]);
+
+  const copyButton = (
+    <Button
+      ref={buttonRef}
+      size={size}
+      variant="ghost"
+      className={cn(
+        "relative overflow-hidden transition-all duration-200",
+        className,
+      )}
+      onClick={copyToClipboard}
+      aria-label={label}
+    >
+      <span
+        className={cn(
+          "flex items-center gap-1 transition-all duration-200",
+          copied
+            ? clipboardTextAnimations.slide.animate
+            : clipboardTextAnimations.slide.initial,
+        )}
+      >
+        <CheckIcon />
+      </span>
+      <span
+        className={cn(
+          "flex items-center justify-center transition-all duration-200",
+          copied
+            ? clipboardTextAnimations.slide.end
+            : clipboardTextAnimations.slide.animate,
+        )}
+      >
+        <CopyIcon />
+      </span>
+    </Button>
+  );
+
+  return (
+    <>
+      {tooltip ? (
+        <TooltipWrapper>
+          <Tooltip.Root
+            disabled={copied}
+            onOpenChange={(open, eventDetails) => {
+              // Prevent tooltip from closing when button is clicked
+              if (eventDetails.reason === "trigger-press") {
+                eventDetails.cancel();
+              }
+            }}
+          >
+            <Tooltip.Trigger render={copyButton} />
+            <Tooltip.Portal>
+              <Tooltip.Positioner side={tooltipSide} sideOffset={8}>
+                <Tooltip.Popup
+                  className={cn(
+                    "flex origin-[var(--transform-origin)] flex-col rounded-md bg-kumo-base px-3 py-1.5 text-xs text-kumo-default",
+                    "shadow-lg shadow-kumo-tip-shadow outline outline-kumo-fill",
+                  )}
+                >
+                  {tooltipText}
+                </Tooltip.Popup>
+              </Tooltip.Positioner>
+            </Tooltip.Portal>
+          </Tooltip.Root>
+        </TooltipWrapper>
+      ) : (
+        copyButton
+      )}
+      <span className="sr-only" aria-live="polite">
+        {copied ? copiedText : ""}
+      </span>
+    </>
+  );
+}
+
 /**
  * Read-only text field with a one-click copy-to-clipboard button.
  *
@@ -171,108 +347,8 @@ export const ClipboardText = forwardRef<HTMLDivElement, ClipboardTextProps>(
     },
     ref,
   ) => {
-    const [copied, setCopied] = useState(false);
-    const buttonRef = useRef<HTMLButtonElement | null>(null);
     const sizeConfig = KUMO_CLIPBOARD_TEXT_VARIANTS.size[size];
 
-    // Destructure tooltip config with defaults
-    const {
-      text: tooltipText = "Copy",
-      copiedText = "Copied",
-      side: tooltipSide = "top",
-    } = tooltip ?? {};
-
-    const copyToClipboard = useCallback(async () => {
-      try {
-        if (
-          typeof navigator !== "undefined" &&
-          navigator.clipboard &&
-          typeof navigator.clipboard.writeText === "function"
-        ) {
-          await navigator.clipboard.writeText(text);
-        } else if (typeof document !== "undefined") {
-          // Fallback for older browsers
-          const textarea = document.createElement("textarea");
-          textarea.value = text;
-          textarea.setAttribute("readonly", "");
-          textarea.style.position = "absolute";
-          textarea.style.left = "-9999px";
-          document.body.appendChild(textarea);
-          const selection = document.getSelection();
-          const previousRange = selection?.rangeCount
-            ? selection.getRangeAt(0)
-            : null;
-          textarea.select();
-          try {
-            document.execCommand("copy");
-          } finally {
-            document.body.removeChild(textarea);
-            if (previousRange) {
-              selection?.removeAllRanges();
-              selection?.addRange(previousRange);
-            }
-          }
-        }
-
-        setCopied(true);
-
-        // Show anchored toast if tooltip mode is enabled
-        if (tooltip) {
-          clipboardToastManager.add({
-            description: copiedText,
-            positionerProps: {
-              anchor: buttonRef.current,
-              side: tooltipSide,
-              sideOffset: 8,
-            },
-            timeout: 1500,
-            onClose() {
-              setCopied(false);
-            },
-          });
-        } else {
-          // Reset copied state after delay when no tooltip
-          setTimeout(() => setCopied(false), 1500);
-        }
-
-        onCopy?.();
-      } catch (error) {
-        console.warn("Clipboard copy failed", error);
-      }
-    }, [text, onCopy, tooltip, copiedText, tooltipSide]);
-
-    const copyButton = (
-      <Button
-        ref={buttonRef}
-        size={sizeConfig.buttonSize}
-        variant="ghost"
-        className="rounded-none border-l! border-kumo-line! px-3 relative overflow-hidden transition-all duration-200"
-        onClick={copyToClipboard}
-        aria-label={copyAction}
-      >
-        <span
-          className={cn(
-            "flex items-center gap-1 transition-all duration-200",
-            copied
-              ? clipboardTextAnimations.slide.animate
-              : clipboardTextAnimations.slide.initial,
-          )}
-        >
-          <CheckIcon />
-        </span>
-        <span
-          className={cn(
-            "flex items-center justify-center transition-all duration-200",
-            copied
-              ? clipboardTextAnimations.slide.end
-              : clipboardTextAnimations.slide.animate,
-          )}
-        >
-          <CopyIcon />
-        </span>
-      </Button>
-    );
-
     return (
       <div
         ref={ref}
@@ -283,38 +359,14 @@ export const ClipboardText = forwardRef<HTMLDivElement, ClipboardTextProps>(
         )}
       >
         <span className="grow truncate ps-4 pe-2">{text}</span>
-        {tooltip ? (
-          <TooltipWrapper>
-            <Tooltip.Root
-              disabled={copied}
-              onOpenChange={(open, eventDetails) => {
-                // Prevent tooltip from closing when button is clicked
-                if (eventDetails.reason === "trigger-press") {
-                  eventDetails.cancel();
-                }
-              }}
-            >
-              <Tooltip.Trigger render={copyButton} />
-              <Tooltip.Portal>
-                <Tooltip.Positioner side={tooltipSide} sideOffset={8}>
-                  <Tooltip.Popup
-                    className={cn(
-                      "flex origin-[var(--transform-origin)] flex-col rounded-md bg-kumo-base px-3 py-1.5 text-xs text-kumo-default",
-                      "shadow-lg shadow-kumo-tip-shadow outline outline-kumo-fill",
-                    )}
-                  >
-                    {tooltipText}
-                  </Tooltip.Popup>
-                </Tooltip.Positioner>
-              </Tooltip.Portal>
-            </Tooltip.Root>
-          </TooltipWrapper>
-        ) : (
-          copyButton
-        )}
-        <span className="sr-only" aria-live="polite">
-          {copied ? copiedText : ""}
-        </span>
+        <ClipboardCopyButton
+          text={text}
+          size={sizeConfig.buttonSize}
+          className="rounded-none border-l! border-kumo-line! px-3"
+          onCopy={onCopy}
+          tooltip={tooltip}
+          label={copyAction}
+        />
       </div>
     );
   },
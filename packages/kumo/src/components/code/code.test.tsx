@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { Code } from "./code";
+import { tokenizeCode } from "./highlight";
+import { buildCodeLines, parseLineRanges } from "./lines";
+
+function typed(code: string, lang: string) {
+  return tokenizeCode(code, lang)
+    .filter((token) => token.type)
+    .map((token) => [token.type, token.content]);
+}
+
+describe("tokenizeCode", () => {
+  it("round-trips the input for every language", () => {
+    const code = `const x = "a"; // {{b}}\n<div class="c">1</div>`;
+    for (const lang of ["ts", "tsx", "json", "bash", "css", "sql", "diff"]) {
+      const tokens = tokenizeCode(code, lang);
+      expect(tokens.map((token) => token.content).join("")).toBe(code);
+    }
+  });
+
+  it("tokenizes TypeScript", () => {
+    expect(typed(`const n: number = 1; // done`, "ts")).toEqual([
+      ["keyword", "const"],
+      ["punctuation", ":"],
+      ["type", "number"],
+      ["operator", "="],
+      ["number", "1"],
+      ["punctuation", ";"],
+      ["comment", "// done"],
+    ]);
+  });
+
+  it("does not start keywords inside identifiers", () => {
+    expect(typed("format", "ts")).toEqual([]);
+  });
+
+  it("distinguishes JSX tags from generics", () => {
+    expect(typed(`<Button variant="primary" />`, "tsx")).toContainEqual([
+      "tag",
+      "Button",
+    ]);
+    expect(typed(`useState<string>()`, "tsx")).not.toContainEqual([
+      "tag",
+      "string",
+    ]);
+  });
+
+  it("tokenizes JSON property names and values", () => {
+    expect(typed(`{"a": true, "b": "c"} // x`, "jsonc")).toEqual([
+      ["punctuation", "{"],
+      ["property", `"a"`],
+      ["punctuation", ":"],
+      ["constant", "true"],
+      ["punctuation", ","],
+      ["property", `"b"`],
+      ["punctuation", ":"],
+      ["string", `"c"`],
+      ["punctuation", "}"],
+      ["comment", "// x"],
+    ]);
+  });
+
+  it("tokenizes diffs by line", () => {
+    expect(typed("@@ -1 +1 @@\n-old\n+new\n same", "diff")).toEqual([
+      ["meta", "@@ -1 +1 @@"],
+      ["deleted", "-old"],
+      ["inserted", "+new"],
+    ]);
+  });
+
+  it("returns plain text for unknown languages", () => {
+    expect(tokenizeCode("a b", "cobol")).toEqual([{ content: "a b" }]);
+  });
+});
+
+describe("Code", () => {
+  it("renders highlighted tokens with semantic classes", () => {
+    const { container } = render(<Code lang="ts" code="const x = 1;" />);
+    expect(container.textContent).toBe("const x = 1;");
+    expect(container.querySelector(".text-kumo-danger")?.textContent).toBe(
+      "const",
+    );
+  });
+
+  it("interpolates values and highlights them", () => {
+    const { container } = render(
+      <Code
+        lang="bash"
+        code="export API_KEY={{apiKey}} REGION={{region}} {{missing}}"
+        values={{
+          apiKey: { value: "sk_live_123", highlight: true },
+          region: { value: "eu" },
+        }}
+      />,
+    );
+    expect(container.textContent).toBe(
+      "export API_KEY=sk_live_123 REGION=eu {{missing}}",
+    );
+    const highlighted = container.querySelectorAll(".bg-kumo-warning-tint");
+    expect(Array.from(highlighted, (node) => node.textContent).join("")).toBe(
+      "sk_live_123",
+    );
+  });
+});
+
+describe("parseLineRanges", () => {
+  it("expands lines and ranges, ignoring invalid parts", () => {
+    expect([...parseLineRanges("3-5, 9,x,7-6")]).toEqual([3, 4, 5, 9]);
+  });
+});
+
+describe("buildCodeLines", () => {
+  it("splits multi-line tokens into lines", () => {
+    const lines = buildCodeLines("/* a\nb */ x", [], "ts");
+    expect(lines.map((line) => line.tokens)).toEqual([
+      [{ type: "comment", content: "/* a" }],
+      [{ type: "comment", content: "b */" }, { content: " x" }],
+    ]);
+    expect(lines.map((line) => line.number)).toEqual([1, 2]);
+  });
+
+  it("parses unified diffs and numbers lines in the new file", () => {
+    const code = [
+      "--- a/index.ts",
+      "+++ b/index.ts",
+      "@@ -10,2 +10,2 @@",
+      " const a = 1;",
+      "-const b = 2;",
+      "+const b = 3;",
+    ].join("\n");
+    const lines = buildCodeLines(code, [], "ts", { diff: true });
+
+    expect(lines.map((line) => [line.kind, line.number])).toEqual([
+      ["meta", undefined],
+      ["meta", undefined],
+      ["meta", undefined],
+      ["context", 10],
+      ["removed", undefined],
+      ["added", 11],
+    ]);
+    expect(lines[5]!.tokens[0]).toEqual({ type: "keyword", content: "const" });
+  });
+
+  it("maps highlighted ranges to marker-stripped line content", () => {
+    const lines = buildCodeLines("x\n+key = abc", [[9, 12]], "toml", {
+      diff: true,
+    });
+    expect(lines[1]!.highlights).toEqual([[6, 9]]);
+  });
+});
+
+describe("Code.Block", () => {
+  it("renders line numbers, highlighted lines and diff markers", () => {
+    const { container } = render(
+      <Code.Block
+        lang="ts"
+        diff
+        lineNumbers
+        highlightLines="1"
+        code={"@@ -1 +1 @@\n-a;\n+b;"}
+      />,
+    );
+    const lines = container.querySelectorAll("pre > span");
+    expect(lines).toHaveLength(3);
+    // Line 1 of the new file, not the first rendered line
+    expect(lines[0]!.className).not.toContain("bg-kumo-tint");
+    expect(lines[1]!.className).toContain("bg-kumo-danger-tint");
+    expect(lines[2]!.className).toContain("bg-kumo-tint");
+    expect(lines[2]!.textContent).toBe("1+b;");
+  });
+
+  it("keeps line breaks in the text of the block", () => {
+    const { container } = render(
+      <Code.Block
+        lang="ts"
+        lineNumbers
+        code={"const a = 1;\n\nconst b = 2;"}
+      />,
+    );
+    const code = Array.from(
+      container.querySelectorAll("pre > span > span:last-child"),
+      (line) => line.textContent,
+    ).join("");
+    expect(code).toBe("const a = 1;\n\nconst b = 2;");
+  });
+
+  it("switches files with tabs", () => {
+    const { container } = render(
+      <Code.Block
+        filename="index.ts"
+        code="export {};"
+        files={[
+          { filename: "wrangler.toml", code: 'name = "app"', lang: "toml" },
+        ]}
+      />,
+    );
+    expect(container.querySelector("pre")!.textContent).toBe("export {};");
+    fireEvent.click(screen.getByRole("tab", { name: "wrangler.toml" }));
+    expect(container.querySelector("pre")!.textContent).toBe('name = "app"');
+  });
+
+  it("toggles line wrapping", () => {
+    const { container } = render(<Code.Block code="x" wrap="toggle" />);
+    const toggle = screen.getByRole("button", { name: "Wrap lines" });
+    expect(container.querySelector("pre")!.className).toContain("min-w-max");
+    fireEvent.click(toggle);
+    expect(container.querySelector("pre")!.className).toContain(
+      "whitespace-pre-wrap",
+    );
+  });
+
+  it("shows a copy button", () => {
+    render(<Code.Block code="x" copyable />);
+    expect(screen.getByRole("button", { name: "Copy code" })).toBeTruthy();
+  });
+});
@@ -1,5 +1,18 @@
-import { type CSSProperties } from "react";
+import { type CSSProperties, type ReactNode, useMemo, useState } from "react";
 import { cn } from "../../utils/cn";
+import { ArrowUDownLeftIcon } from "@phosphor-icons/react";
+import { Button } from "../button";
+import { ClipboardCopyButton } from "../clipboard-text/clipboard-text";
+import { Tabs } from "../tabs";
+import { type CodeToken, type CodeTokenType, tokenizeCode } from "./highlight";
+import {
+  type CodeLineKind,
+  type CodeRange,
+  type CodeValues,
+  buildCodeLines,
+  interpolateValues,
+  parseLineRanges,
+} from "./lines";
 
 /** Code language variant definitions. */
 export const KUMO_CODE_VARIANTS = {
@@ -24,6 +37,46 @@ export const KUMO_CODE_VARIANTS = {
       classes: "",
       description: "CSS styles",
     },
+    json: {
+      classes: "",
+      description: "JSON data",
+    },
+    yaml: {
+      classes: "",
+      description: "YAML configuration",
+    },
+    toml: {
+      classes: "",
+      description: "TOML configuration (e.g. wrangler.toml)",
+    },
+    sql: {
+      classes: "",
+      description: "SQL queries",
+    },
+    python: {
+      classes: "",
+      description: "Python code",
+    },
+    go: {
+      classes: "",
+      description: "Go code",
+    },
+    rust: {
+      classes: "",
+      description: "Rust code",
+    },
+    html: {
+      classes: "",
+      description: "HTML markup",
+    },
+    graphql: {
+      classes: "",
+      description: "GraphQL queries and schemas",
+    },
+    diff: {
+      classes: "",
+      description: "Unified diffs",
+    },
   },
 } as const;
 
@@ -55,6 +108,27 @@ export const KUMO_CODE_STYLING = {
     border: "border-none",
     background: "bg-transparent",
   },
+  /** Text classes per syntax token type */
+  syntax: {
+    keyword: "text-kumo-danger",
+    string: "text-kumo-success",
+    number: "text-kumo-link",
+    constant: "text-kumo-link",
+    comment: "text-kumo-inactive italic",
+    function: "text-kumo-brand",
+    type: "text-kumo-warning",
+    tag: "text-kumo-danger",
+    attribute: "text-kumo-brand",
+    property: "text-kumo-link",
+    variable: "text-kumo-warning",
+    operator: "text-kumo-default",
+    punctuation: "text-kumo-subtle",
+    meta: "text-kumo-link",
+    inserted: "text-kumo-success",
+    deleted: "text-kumo-danger",
+  } satisfies Record<CodeTokenType, string>,
+  /** Classes for `values` entries with `highlight: true` */
+  highlightedValue: "rounded-sm bg-kumo-warning-tint text-kumo-default",
 } as const;
 
 /**
@@ -77,6 +151,23 @@ export const KUMO_CODEBLOCK_STYLING = {
     borderRadius: 6, // md = 6px
     padding: 10, // p-2.5 = 10px
   },
+  /** Filename / tabs header */
+  header:
+    "flex h-9 items-center justify-between gap-2 border-b border-kumo-fill ps-2.5 pe-1",
+  /** Line backgrounds per diff role, and for `highlightLines` */
+  lines: {
+    context: "",
+    added: "bg-kumo-success-tint",
+    removed: "bg-kumo-danger-tint",
+    meta: "bg-kumo-info-tint",
+    highlighted: "bg-kumo-tint",
+  } satisfies Record<CodeLineKind | "highlighted", string>,
+  /** Gutter text colors (line numbers and diff markers) */
+  gutter: {
+    number: "text-kumo-inactive",
+    added: "text-kumo-success",
+    removed: "text-kumo-danger",
+  },
 } as const;
 
 // Derived types from KUMO_CODE_VARIANTS
@@ -90,6 +181,16 @@ export interface KumoCodeVariantsProps {
    * - `"jsonc"` — JSON with comments
    * - `"bash"` — Shell/Bash commands
    * - `"css"` — CSS styles
+   * - `"json"` — JSON data
+   * - `"yaml"` — YAML configuration
+   * - `"toml"` — TOML configuration (e.g. wrangler.toml)
+   * - `"sql"` — SQL queries
+   * - `"python"` — Python code
+   * - `"go"` — Go code
+   * - `"rust"` — Rust code
+   * - `"html"` — HTML markup
+   * - `"graphql"` — GraphQL queries and schemas
+   * - `"diff"` — Unified diffs
    * @default "ts"
    */
   lang?: KumoCodeLang;
@@ -127,13 +228,7 @@ export interface CodeProps extends KumoCodeVariantsProps {
   /** The code string to display. */
   code: string;
   /** Template values for `{{key}}` interpolation. Values with `highlight: true` are visually emphasized. */
-  values?: Record<
-    string,
-    {
-      value: string;
-      highlight?: boolean;
-    }
-  >;
+  values?: CodeValues;
   /** Additional CSS classes merged via `cn()`. */
   className?: string;
   /** Inline styles. */
@@ -141,38 +236,110 @@ export interface CodeProps extends KumoCodeVariantsProps {
 }
 
 /**
- * Simple code component without syntax highlighting.
+ * Render syntax tokens, splitting them where highlighted values start or end.
+ */
+function renderTokens(
+  tokens: CodeToken[],
+  highlights: CodeRange[],
+): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let offset = 0;
+
+  for (const token of tokens) {
+    const end = offset + token.content.length;
+    // Cut points inside this token
+    const cuts = [offset, end];
+    for (const [from, to] of highlights) {
+      if (from > offset && from < end) cuts.push(from);
+      if (to > offset && to < end) cuts.push(to);
+    }
+    cuts.sort((a, b) => a - b);
+
+    for (let i = 0; i < cuts.length - 1; i++) {
+      const from = cuts[i]!;
+      const to = cuts[i + 1]!;
+      if (from === to) continue;
+      const content = token.content.slice(from - offset, to - offset);
+      const highlighted = highlights.some(
+        ([start, stop]) => from >= start && to <= stop,
+      );
+      if (!token.type && !highlighted) {
+        nodes.push(content);
+        continue;
+      }
+      nodes.push(
+        <span
+          key={from}
+          className={cn(
+            token.type && KUMO_CODE_STYLING.syntax[token.type],
+            highlighted && KUMO_CODE_STYLING.highlightedValue,
+          )}
+        >
+          {content}
+        </span>,
+      );
+    }
+    offset = end;
+  }
+
+  return nodes;
+}
+
+/**
+ * Code component with syntax highlighting.
  *
- * Renders code in a monospace font with customizable language metadata.
+ * Renders code in a monospace font, tokenized for the given `lang`.
+ * Highlighting runs synchronously during render, so it works with SSR and
+ * needs no WASM. Token colors use Kumo semantic text tokens and adapt to the
+ * active theme and color mode.
  * For a bordered container version, use `Code.Block` or `CodeBlock`.
  *
  * **Styling:**
  * - Typography: `font-mono text-sm leading-[20px]`
- * - Colors: `text-kumo-strong` with `bg-transparent`
+ * - Colors: `text-kumo-strong` with `bg-transparent`; syntax tokens per `KUMO_CODE_STYLING.syntax`
  * - No borders or padding (use CodeBlock for styled container)
  * - Supports all semantic tokens via className prop
  */
 function CodeComponent({
   code,
+  values,
   lang = KUMO_CODE_DEFAULT_VARIANTS.lang,
   className,
   style,
 }: CodeProps) {
+  const content = useMemo(() => {
+    const { text, highlights } = interpolateValues(code, values);
+    return renderTokens(tokenizeCode(text, lang), highlights);
+  }, [code, values, lang]);
+
   return (
     <pre className={cn(codeVariants({ lang }), className)} style={style}>
-      {code}
+      {content}
     </pre>
   );
 }
 
 CodeComponent.displayName = "Code";
 
+/** A file shown as a tab in a multi-file `Code.Block`. */
+export interface CodeBlockFile {
+  /** File name shown in the tab. Must be unique within `files`. */
+  filename: string;
+  /** The code string to display. */
+  code: string;
+  /** Language of this file. Defaults to the block's `lang`. */
+  lang?: CodeLang;
+}
+
 /**
  * CodeBlock component props — code inside a bordered container.
  *
  * @example
  * ```tsx
  * <CodeBlock lang="tsx" code={`const greeting = "Hello!";`} />
+ * <CodeBlock lang="toml" filename="wrangler.toml" code={config} lineNumbers copyable />
+ * <CodeBlock lang="ts" diff code={patch} />
+ * <CodeBlock filename="index.ts" code={worker} files={[{ filename: "wrangler.toml", code: config, lang: "toml" }]} />
  * ```
  */
 export interface CodeBlockProps {
@@ -183,6 +350,45 @@ export interface CodeBlockProps {
    * @default "ts"
    */
   lang?: CodeLang;
+  /** Show line numbers in a gutter. */
+  lineNumbers?: boolean;
+  /** Lines to emphasize, by their number in the gutter, as a comma-separated list of lines and ranges (e.g. `"3-5,9"`). */
+  highlightLines?: string;
+  /**
+   * Render `code` as a unified diff. `+`/`-` markers move to a gutter, added
+   * and removed lines are tinted, and the rest of each line is highlighted
+   * as `lang`.
+   */
+  diff?: boolean;
+  /** Show a copy-to-clipboard button. */
+  copyable?: boolean;
+  /** Callback fired after the code is copied. */
+  onCopy?: () => void;
+  /** File name shown in a header above the code. */
+  filename?: string;
+  /** More files, shown as tabs after the main `filename` tab. */
+  files?: CodeBlockFile[];
+  /**
+   * Wrap long lines instead of scrolling horizontally.
+   * `"toggle"` shows a button that lets users switch wrapping on.
+   * @default false
+   */
+  wrap?: boolean | "toggle";
+  /** Maximum height before the code scrolls (e.g. `320` or `"20rem"`). */
+  maxHeight?: number | string;
+  /** Additional CSS classes merged via `cn()`. */
+  className?: string;
+  /** Template values for `{{key}}` interpolation. Values with `highlight: true` are visually emphasized. */
+  values?: CodeValues;
+  /** Accessible labels for i18n. */
+  labels?: {
+    /** @default "Copy code" */
+    copyAction?: string;
+    /** @default "Copied" */
+    copied?: string;
+    /** @default "Wrap lines" */
+    wrapLines?: string;
+  };
 }
 
 /**
@@ -190,16 +396,189 @@ export interface CodeBlockProps {
  *
  * A styled wrapper around Code that adds a bordered container with surface background.
  * Useful for displaying code snippets with visual separation from surrounding content.
+ * Opt-in features: line numbers, highlighted lines, unified-diff rendering,
+ * a copy button, a filename or tab header, line wrapping and a max height.
  *
  * **Styling:**
  * - Container: `min-w-0 rounded-md border border-kumo-fill bg-kumo-base`
  * - Inner padding: `p-2.5` (10px)
- * - Uses semantic tokens: `bg-kumo-base`, `border-kumo-fill`
+ * - Uses semantic tokens: `bg-kumo-base`, `border-kumo-fill`; line tints per `KUMO_CODEBLOCK_STYLING.lines`
  */
-function CodeBlockComponent({ code, lang }: CodeBlockProps) {
+function CodeBlockComponent({
+  code,
+  lang = KUMO_CODE_DEFAULT_VARIANTS.lang,
+  values,
+  lineNumbers = false,
+  highlightLines,
+  diff = false,
+  copyable = false,
+  onCopy,
+  filename,
+  files,
+  wrap = false,
+  maxHeight,
+  className,
+  labels,
+}: CodeBlockProps) {
+  const {
+    copyAction = "Copy code",
+    copied = "Copied",
+    wrapLines = "Wrap lines",
+  } = labels ?? {};
+  const tabs = files?.length
+    ? [{ filename: filename ?? lang, code, lang }, ...files]
+    : undefined;
+  const [activeFilename, setActiveFilename] = useState(tabs?.[0]?.filename);
+  const [wrapToggled, setWrapToggled] = useState(false);
+
+  const file =
+    tabs?.find((item) => item.filename === activeFilename) ?? tabs?.[0];
+  const source = file?.code ?? code;
+  const language = file?.lang ?? lang;
+
+  const { text, lines } = useMemo(() => {
+    const interpolated = interpolateValues(source, values);
+    return {
+      text: interpolated.text,
+      lines: buildCodeLines(
+        interpolated.text,
+        interpolated.highlights,
+        language,
+        { diff },
+      ),
+    };
+  }, [source, values, language, diff]);
+
+  const emphasized = useMemo(
+    () => parseLineRanges(highlightLines ?? ""),
+    [highlightLines],
+  );
+
+  const wrapped = wrap === true || (wrap === "toggle" && wrapToggled);
+  const gutterWidth = `${String(lines.length).length}ch`;
+
+  const actions =
+    copyable || wrap === "toggle" ? (
+      <div className="flex items-center gap-0.5">
+        {wrap === "toggle" && (
+          <Button
+            size="sm"
+            shape="square"
+            variant="ghost"
+            icon={ArrowUDownLeftIcon}
+            aria-label={wrapLines}
+            aria-pressed={wrapToggled}
+            className={cn(wrapToggled && "bg-kumo-tint")}
+            onClick={() => setWrapToggled((value) => !value)}
+          />
+        )}
+        {copyable && (
+          <ClipboardCopyButton
+            text={text}
+            size="sm"
+            className="w-6.5 px-0"
+            onCopy={onCopy}
+            tooltip={{ text: copyAction, copiedText: copied }}
+            label={copyAction}
+          />
+        )}
+      </div>
+    ) : null;
+
+  const header = tabs ? (
+    <Tabs
+      variant="underline"
+      tabs={tabs.map((item) => ({
+        value: item.filename,
+        label: item.filename,
+        className: "mb-0 font-mono text-xs",
+      }))}
+      value={file?.filename}
+      onValueChange={setActiveFilename}
+      className="min-w-0 self-stretch"
+      listClassName="h-full gap-3 border-0 pb-0"
+    />
+  ) : filename ? (
+    <span className="truncate font-mono text-xs text-kumo-subtle">
+      {filename}
+    </span>
+  ) : null;
+
   return (
-    <div className="min-w-0 rounded-md border border-kumo-fill bg-kumo-base [&>pre]:p-2.5!">
-      <CodeComponent lang={lang} code={code} />
+    <div
+      className={cn(
+        "relative min-w-0 rounded-md border border-kumo-fill bg-kumo-base",
+        className,
+      )}
+    >
+      {header ? (
+        <div className={KUMO_CODEBLOCK_STYLING.header}>
+          {header}
+          {actions}
+        </div>
+      ) : (
+        actions && (
+          <div className="absolute top-1.5 right-1.5 z-10">{actions}</div>
+        )
+      )}
+      <div className="overflow-auto" style={{ maxHeight }}>
+        <pre
+          className={cn(
+            codeVariants({ lang: language }),
+            "py-2.5",
+            wrapped ? "break-words whitespace-pre-wrap" : "min-w-max",
+          )}
+        >
+          {lines.map((line, index) => (
+            <span
+              key={index}
+              className={cn(
+                "flex min-h-5 px-2.5",
+                KUMO_CODEBLOCK_STYLING.lines[line.kind],
+                line.number !== undefined &&
+                  emphasized.has(line.number) &&
+                  KUMO_CODEBLOCK_STYLING.lines.highlighted,
+              )}
+            >
+              {lineNumbers && (
+                <span
+                  aria-hidden
+                  className={cn(
+                    "shrink-0 pe-4 text-right select-none",
+                    KUMO_CODEBLOCK_STYLING.gutter.number,
+                  )}
+                  style={{ width: `calc(${gutterWidth} + 1rem)` }}
+                >
+                  {line.number}
+                </span>
+              )}
+              {diff && (
+                <span
+                  aria-hidden
+                  className={cn(
+                    "w-4 shrink-0 select-none",
+                    line.kind === "added" &&
+                      KUMO_CODEBLOCK_STYLING.gutter.added,
+                    line.kind === "removed" &&
+                      KUMO_CODEBLOCK_STYLING.gutter.removed,
+                  )}
+                >
+                  {line.kind === "added"
+                    ? "+"
+                    : line.kind === "removed"
+                      ? "-"
+                      : ""}
+                </span>
+              )}
+              <span className="min-w-0 flex-1">
+                {renderTokens(line.tokens, line.highlights)}
+                {/* Keeps line breaks in copied text and `textContent` */}
+                {index < lines.length - 1 && "\n"}
+              </span>
+            </span>
+          ))}
+        </pre>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,406 @@
+/**
+ * Lightweight syntax highlighter for `Code`.
+ *
+ * Grammars are small ordered lists of regular expressions, so tokenizing is
+ * synchronous, runs during SSR and needs no WASM or network fetch. The goal
+ * is readable highlighting for docs and config snippets, not a full parser.
+ */
+
+/** Semantic token types produced by {@link tokenizeCode}. */
+export type CodeTokenType =
+  | "keyword"
+  | "string"
+  | "number"
+  | "constant"
+  | "comment"
+  | "function"
+  | "type"
+  | "tag"
+  | "attribute"
+  | "property"
+  | "variable"
+  | "operator"
+  | "punctuation"
+  | "meta"
+  | "inserted"
+  | "deleted";
+
+/** A run of source text; `type` is unset for plain text. */
+export interface CodeToken {
+  type?: CodeTokenType;
+  content: string;
+}
+
+/** Ordered grammar rules; the first rule matching at a position wins. */
+type Grammar = readonly (readonly [CodeTokenType, RegExp])[];
+
+/** Languages with a grammar. */
+export type HighlightLanguage =
+  | "ts"
+  | "tsx"
+  | "json"
+  | "jsonc"
+  | "bash"
+  | "css"
+  | "yaml"
+  | "toml"
+  | "sql"
+  | "python"
+  | "go"
+  | "rust"
+  | "html"
+  | "graphql"
+  | "diff";
+
+function words(list: string, flags = ""): RegExp {
+  return new RegExp(`\\b(?:${list.trim().split(/\s+/).join("|")})\\b`, flags);
+}
+
+const C_COMMENT = /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/;
+const HASH_COMMENT = /(?<![^\s])#[^\n]*/;
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"/;
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\.)*'/;
+const NUMBER =
+  /\b(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?)\b/;
+const FUNCTION_CALL = /[A-Za-z_$][\w$]*(?=\s*\()/;
+const PASCAL_CASE = /\b[A-Z][\w$]*/;
+const OPERATOR = /[+\-*/%=!<>&|^~?]+/;
+const PUNCTUATION = /[{}[\]();,.:]/;
+
+const TS_KEYWORDS = words(`
+  abstract as async await break case catch class const continue debugger declare
+  default delete do else enum export extends finally for from function get if
+  implements import in infer instanceof interface is keyof let namespace new of
+  private protected public readonly return satisfies set static switch throw try
+  type typeof var void while with yield
+`);
+
+const TS: Grammar = [
+  ["comment", C_COMMENT],
+  ["string", /`(?:[^`\\]|\\[\s\S])*`/],
+  ["string", DOUBLE_QUOTED],
+  ["string", SINGLE_QUOTED],
+  ["meta", /@[\w$.]+/],
+  ["keyword", TS_KEYWORDS],
+  ["constant", words("true false null undefined NaN Infinity this super")],
+  [
+    "type",
+    words("any boolean never number object string symbol unknown bigint"),
+  ],
+  ["number", NUMBER],
+  ["function", FUNCTION_CALL],
+  ["type", PASCAL_CASE],
+  ["property", /(?<=\.)[A-Za-z_$][\w$]*/],
+  ["operator", OPERATOR],
+  ["punctuation", PUNCTUATION],
+];
+
+const TSX: Grammar = [
+  ["comment", C_COMMENT],
+  // Tag names directly after `</`, or after `<` unless it opens generics like `useState<T>`
+  ["tag", /(?<=<\/|(?:^|[^\w$)\]])\s*<)[A-Za-z][\w.:-]*/],
+  ["attribute", /[A-Za-z_][\w-]*(?==)/],
+  ...TS.slice(1),
+];
+
+const JSON_GRAMMAR: Grammar = [
+  ["property", /"(?:[^"\\\n]|\\.)*"(?=\s*:)/],
+  ["string", DOUBLE_QUOTED],
+  ["number", /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/],
+  ["constant", words("true false null")],
+  ["punctuation", /[{}[\],:]/],
+];
+
+const JSONC: Grammar = [["comment", C_COMMENT], ...JSON_GRAMMAR];
+
+const BASH: Grammar = [
+  ["meta", /^#![^\n]*/],
+  ["comment", HASH_COMMENT],
+  ["string", DOUBLE_QUOTED],
+  ["string", SINGLE_QUOTED],
+  ["variable", /\$(?:\{[^}\n]*\}|[A-Za-z_]\w*|[@#?$!*\d-])/],
+  [
+    "keyword",
+    words(
+      "if then else elif fi for while until do done case esac in function return export local readonly unset select",
+    ),
+  ],
+  ["attribute", /(?<=\s)--?[A-Za-z][\w-]*/],
+  // First word of a command: at line start, or after a pipe, `;`, `&&` or `||`
+  ["function", /(?<=^[ \t]*|[|;&][ \t]*)[A-Za-z_./][\w./-]*/m],
+  ["number", /(?<![\w.-])\d+(?![\w.])/],
+  ["operator", /[|&;<>]+|=/],
+];
+
+const CSS: Grammar = [
+  ["comment", /\/\*[\s\S]*?(?:\*\/|$)/],
+  ["string", DOUBLE_QUOTED],
+  ["string", SINGLE_QUOTED],
+  ["keyword", /@[\w-]+|!important\b/],
+  ["variable", /--[\w-]+/],
+  ["property", /(?<=[{;]\s*|^\s+)[\w-]+(?=\s*:)/m],
+  ["number", /#[\da-fA-F]{3,8}\b/],
+  ["number", /-?(?:\d+\.?\d*|\.\d+)(?:px|r?em|%|vh|vw|ch|s|ms|deg|fr)?\b/],
+  ["function", /[\w-]+(?=\()/],
+  ["type", /(?<![\w-])[.#][A-Za-z_-][\w-]*/],
+  ["attribute", /::?[\w-]+/],
+  ["punctuation", /[{}();,:]/],
+];
+
+const YAML: Grammar = [
+  ["comment", HASH_COMMENT],
+  ["meta", /^(?:---|\.\.\.)\s*$/m],
+  ["property", /(?<=^[ \t]*(?:-[ \t]+)?)[^\s#:"'-][^\n:]*?(?=:(?:\s|$))/m],
+  ["string", DOUBLE_QUOTED],
+  ["string", SINGLE_QUOTED],
+  ["variable", /[&*][\w-]+/],
+  ["type", /!!?[\w-]+/],
+  ["constant", /\b(?:true|false|null|yes|no|on|off)\b|~/],
+  ["number", /(?<![\w.-])-?\d+(?:\.\d+)?(?![\w.-])/],
+  ["punctuation", /[-:[\]{},|>]/],
+];
+
+const TOML: Grammar = [
+  ["comment", HASH_COMMENT],
+  ["type", /^[ \t]*\[\[?[^\]\n]+\]\]?/m],
+  ["property", /[\w.-]+(?=\s*=)/],
+  ["string", /"""[\s\S]*?"""|'''[\s\S]*?'''/],
+  ["string", DOUBLE_QUOTED],
+  ["string", SINGLE_QUOTED],
+  ["constant", words("true false inf nan")],
+  [
+    "number",
+    /\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})?)?/,
+  ],
+  ["number", /[+-]?\b\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?\b/],
+  ["punctuation", /[[\]{},=]/],
+];
+
+const SQL: Grammar = [
+  ["comment", /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/],
+  ["string", /'(?:[^']|'')*'/],
+  ["property", /"(?:[^"]|"")*"|`[^`]*`/],
+  [
+    "keyword",
+    words(
+      `select from where and or not insert into values update set delete create
+      table view index drop alter add column primary key foreign references join
+      inner left right outer full cross on as group by order having limit offset
+      distinct union all case when then else end is null like in between exists
+      returning with default unique check constraint if begin commit rollback asc desc`,
+      "i",
+    ),
+  ],
+  [
+    "type",
+    words(
+      "int integer bigint smallint real float double decimal numeric text varchar char boolean date time timestamp blob json",
+      "i",
+    ),
+  ],
+  ["constant", words("true false", "i")],
+  ["function", FUNCTION_CALL],
+  ["number", NUMBER],
+  ["variable", /[?:@$]\w+|\?/],
+  ["operator", /[<>=!|*+\-/%]+/],
+  ["punctuation", /[(),;.]/],
+];
+
+const PYTHON: Grammar = [
+  ["comment", /#[^\n]*/],
+  [
+    "string",
+    /(?:\b[rRbBuUfF]{1,2})?(?:"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')/,
+  ],
+  ["meta", /@[\w.]+/],
+  [
+    "keyword",
+    words(`
+      and as assert async await break class continue def del elif else except
+      finally for from global if import in is lambda match case nonlocal not or
+      pass raise return try while with yield
+    `),
+  ],
+  ["constant", words("True False None self cls")],
+  ["number", NUMBER],
+  ["function", /[A-Za-z_]\w*(?=\s*\()/],
+  ["type", PASCAL_CASE],
+  ["operator", OPERATOR],
+  ["punctuation", PUNCTUATION],
+];
+
+const GO: Grammar = [
+  ["comment", C_COMMENT],
+  ["string", /`[^`]*`/],
+  ["string", DOUBLE_QUOTED],
+  ["string", /'(?:[^'\\\n]|\\.)'/],
+  [
+    "keyword",
+    words(`
+      break case chan const continue default defer else fallthrough for func go
+      goto if import interface map package range return select struct switch type var
+    `),
+  ],
+  ["constant", words("true false nil iota")],
+  [
+    "type",
+    words(
+      "bool byte complex64 complex128 error float32 float64 int int8 int16 int32 int64 rune string uint uint8 uint16 uint32 uint64 uintptr any",
+    ),
+  ],
+  ["number", NUMBER],
+  ["function", /[A-Za-z_]\w*(?=\s*\()/],
+  ["type", PASCAL_CASE],
+  ["operator", /:=|[+\-*/%=!<>&|^]+/],
+  ["punctuation", PUNCTUATION],
+];
+
+const RUST: Grammar = [
+  ["comment", C_COMMENT],
+  ["meta", /#!?\[[^\]\n]*\]/],
+  ["string", /b?r(#*)"[\s\S]*?"\1/],
+  ["string", /b?"(?:[^"\\]|\\[\s\S])*"/],
+  ["string", /b?'(?:[^'\\\n]|\\.)'/],
+  ["variable", /'[a-z_]\w*\b(?!')/],
+  [
+    "keyword",
+    words(`
+      as async await break const continue crate dyn else enum extern fn for if
+      impl in let loop match mod move mut pub ref return self Self static struct
+      super trait type unsafe use where while
+    `),
+  ],
+  ["constant", words("true false None Some Ok Err")],
+  [
+    "type",
+    words(
+      "bool char str String u8 u16 u32 u64 u128 usize i8 i16 i32 i64 i128 isize f32 f64 Vec Option Result Box",
+    ),
+  ],
+  ["function", /[a-z_]\w*!(?=\s*[([{])/],
+  [
+    "number",
+    /\b\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?(?:[iu](?:8|16|32|64|128|size)|f32|f64)?\b/,
+  ],
+  ["function", /[a-z_]\w*(?=\s*(?:::<[^>]*>)?\()/],
+  ["type", PASCAL_CASE],
+  ["operator", /[+\-*/%=!<>&|^?]+/],
+  ["punctuation", /[{}[\]();,.:]/],
+];
+
+const HTML: Grammar = [
+  ["comment", /<!--[\s\S]*?(?:-->|$)/],
+  ["meta", /<!DOCTYPE[^>]*>/i],
+  ["tag", /(?<=<\/?)[A-Za-z][\w:-]*/],
+  ["attribute", /(?<=\s)[A-Za-z_:@][\w:.-]*(?=\s*=)/],
+  ["string", DOUBLE_QUOTED],
+  ["string", SINGLE_QUOTED],
+  ["constant", /&(?:#\d+|#x[\da-fA-F]+|\w+);/],
+  ["punctuation", /<\/?|\/?>|=/],
+];
+
+const GRAPHQL: Grammar = [
+  ["comment", /#[^\n]*/],
+  ["string", /"""[\s\S]*?"""/],
+  ["string", DOUBLE_QUOTED],
+  ["variable", /\$\w+/],
+  ["meta", /@\w+/],
+  [
+    "keyword",
+    words(`
+      query mutation subscription fragment on type interface union enum input
+      scalar schema extend directive implements repeatable
+    `),
+  ],
+  ["constant", words("true false null")],
+  ["number", /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/],
+  ["type", PASCAL_CASE],
+  ["property", /\b[A-Za-z_]\w*(?=\s*[(:])/],
+  ["punctuation", /[{}[\]():=!|,.]+/],
+];
+
+const DIFF: Grammar = [
+  ["meta", /^(?:diff |index |\+\+\+ |--- |@@)[^\n]*/m],
+  ["inserted", /^[+>][^\n]*/m],
+  ["deleted", /^[-<][^\n]*/m],
+];
+
+function compile(grammar: Grammar): Grammar {
+  return grammar.map(
+    ([type, pattern]) =>
+      [type, new RegExp(pattern.source, `${pattern.flags}y`)] as const,
+  );
+}
+
+const GRAMMARS: Record<HighlightLanguage, Grammar> = {
+  ts: compile(TS),
+  tsx: compile(TSX),
+  json: compile(JSON_GRAMMAR),
+  jsonc: compile(JSONC),
+  bash: compile(BASH),
+  css: compile(CSS),
+  yaml: compile(YAML),
+  toml: compile(TOML),
+  sql: compile(SQL),
+  python: compile(PYTHON),
+  go: compile(GO),
+  rust: compile(RUST),
+  html: compile(HTML),
+  graphql: compile(GRAPHQL),
+  diff: compile(DIFF),
+};
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+
+/**
+ * Split source code into semantic tokens.
+ *
+ * Adjacent plain text is merged into a single token with no `type`.
+ * Concatenating every token's `content` always yields the input. Unknown
+ * languages return the whole input as one plain token.
+ *
+ * @example
+ * tokenizeCode("const x = 1;", "ts")
+ * // [{ type: "keyword", content: "const" }, { content: " x " },
+ * //  { type: "operator", content: "=" }, { content: " " },
+ * //  { type: "number", content: "1" }, { type: "punctuation", content: ";" }]
+ */
+export function tokenizeCode(code: string, lang: string): CodeToken[] {
+  const grammar = GRAMMARS[lang as HighlightLanguage];
+  if (!grammar) return code ? [{ content: code }] : [];
+
+  const tokens: CodeToken[] = [];
+  let plain = "";
+  let position = 0;
+
+  const pushPlain = (text: string) => {
+    plain += text;
+  };
+  const flushPlain = () => {
+    if (plain) tokens.push({ content: plain });
+    plain = "";
+  };
+
+  outer: while (position < code.length) {
+    for (const [type, pattern] of grammar) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        flushPlain();
+        tokens.push({ type, content: match[0] });
+        position += match[0].length;
+        continue outer;
+      }
+    }
+
+    // Consume unmatched identifiers whole so rules never start mid-word
+    IDENTIFIER.lastIndex = position;
+    const identifier = IDENTIFIER.exec(code);
+    const text = identifier ? identifier[0] : code[position]!;
+    pushPlain(text);
+    position += text.length;
+  }
+
+  flushPlain();
+  return tokens;
+}
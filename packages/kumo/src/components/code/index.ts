@@ -3,7 +3,9 @@ export {
   CodeBlock,
   type CodeProps,
   type CodeBlockProps,
+  type CodeBlockFile,
   type CodeLang,
   /** @deprecated Use CodeLang instead */
   type BundledLanguage,
 } from "./code";
+export { tokenizeCode, type CodeToken, type CodeTokenType } from "./highlight";
@@ -0,0 +1,168 @@
+/**
+ * Line model for `Code.Block`: values interpolation, unified-diff parsing
+ * and splitting syntax tokens into lines.
+ */
+
+import { type CodeToken, tokenizeCode } from "./highlight";
+
+/** Template values for `{{key}}` interpolation. */
+export type CodeValues = Record<string, { value: string; highlight?: boolean }>;
+
+/** Character range `[start, end)` of a highlighted value. */
+export type CodeRange = [start: number, end: number];
+
+/** Diff role of a line. `"meta"` covers file and hunk headers. */
+export type CodeLineKind = "context" | "added" | "removed" | "meta";
+
+export interface CodeLine {
+  tokens: CodeToken[];
+  /** Highlighted value ranges, relative to the line content. */
+  highlights: CodeRange[];
+  kind: CodeLineKind;
+  /** Line number shown in the gutter. Unset for removed lines and headers in diff mode. */
+  number?: number;
+}
+
+/** `{{key}}` placeholder in code. */
+const VALUE_PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/** `@@ -1,4 +10,6 @@` hunk header; captures the new-file start line. */
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Substitute `{{key}}` placeholders, recording the character ranges of
+ * values with `highlight: true`. Unknown keys are left as written.
+ */
+export function interpolateValues(
+  code: string,
+  values: CodeValues | undefined,
+): { text: string; highlights: CodeRange[] } {
+  if (!values) return { text: code, highlights: [] };
+
+  const highlights: CodeRange[] = [];
+  let text = "";
+  let last = 0;
+
+  for (const match of code.matchAll(VALUE_PLACEHOLDER)) {
+    const entry = values[match[1]!];
+    if (!entry) continue;
+    text += code.slice(last, match.index);
+    if (entry.highlight) {
+      highlights.push([text.length, text.length + entry.value.length]);
+    }
+    text += entry.value;
+    last = match.index + match[0].length;
+  }
+
+  return { text: text + code.slice(last), highlights };
+}
+
+/**
+ * Parse a line range list such as `"3-5,9"` into line numbers.
+ * Invalid parts are ignored.
+ *
+ * @example
+ * parseLineRanges("3-5,9") // Set { 3, 4, 5, 9 }
+ */
+export function parseLineRanges(spec: string): Set<number> {
+  const lines = new Set<number>();
+
+  for (const part of spec.split(",")) {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+    if (!match) continue;
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : Number(match[2]);
+    for (let line = start; line <= end; line++) lines.add(line);
+  }
+
+  return lines;
+}
+
+/** Split tokens at newlines, returning one token list per line. */
+function splitTokenLines(tokens: CodeToken[]): CodeToken[][] {
+  const lines: CodeToken[][] = [[]];
+
+  for (const token of tokens) {
+    const parts = token.content.split("\n");
+    parts.forEach((content, index) => {
+      if (index > 0) lines.push([]);
+      if (content) lines[lines.length - 1]!.push({ ...token, content });
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Build highlighted lines from interpolated code.
+ *
+ * With `diff`, each line's `+`, `-` or space marker is removed from the
+ * content and reported as `kind`, so the rest of the line is highlighted in
+ * `lang`. `---`/`+++` file headers before the first hunk and `@@` hunk
+ * headers become `"meta"` lines, and line numbers follow the new file.
+ */
+export function buildCodeLines(
+  text: string,
+  highlights: CodeRange[],
+  lang: string,
+  { diff = false }: { diff?: boolean } = {},
+): CodeLine[] {
+  const rawLines = text.split("\n");
+  const lines: Omit<CodeLine, "tokens">[] = [];
+  const contents: string[] = [];
+  let offset = 0;
+  let number = 1;
+  let inHunk = false;
+
+  for (const raw of rawLines) {
+    const start = offset;
+    offset += raw.length + 1;
+
+    let kind: CodeLineKind = "context";
+    let content = raw;
+
+    if (diff) {
+      const hunk = HUNK_HEADER.exec(raw);
+      if (hunk) {
+        kind = "meta";
+        inHunk = true;
+        number = Number(hunk[1]);
+      } else if (!inHunk && /^(?:---|\+\+\+) |^diff |^index /.test(raw)) {
+        kind = "meta";
+      } else if (raw.startsWith("+") || raw.startsWith("-")) {
+        kind = raw.startsWith("+") ? "added" : "removed";
+        content = raw.slice(1);
+      } else if (raw.startsWith(" ")) {
+        content = raw.slice(1);
+      }
+    }
+
+    // Highlighted ranges relative to the (marker-stripped) content
+    const shift = raw.length - content.length;
+    const local: CodeRange[] = [];
+    for (const [from, to] of highlights) {
+      const lineFrom = Math.max(from - start - shift, 0);
+      const lineTo = Math.min(to - start - shift, content.length);
+      if (lineTo > lineFrom) local.push([lineFrom, lineTo]);
+    }
+
+    const showNumber = !diff || kind === "context" || kind === "added";
+    lines.push({
+      kind,
+      highlights: kind === "meta" ? [] : local,
+      number: showNumber ? number++ : undefined,
+    });
+    // Headers are not code; keep them out of the tokenizer
+    contents.push(kind === "meta" ? "" : content);
+  }
+
+  const tokenLines = splitTokenLines(tokenizeCode(contents.join("\n"), lang));
+
+  return lines.map((line, index) => ({
+    ...line,
+    tokens:
+      line.kind === "meta"
+        ? [{ type: "meta", content: rawLines[index]! }]
+        : (tokenLines[index] ?? []),
+  }));
+}
@@ -1,8 +1,23 @@
 import { Combobox as ComboboxBase } from "@base-ui/react/combobox";
 import { CaretDownIcon, CheckIcon, XIcon } from "@phosphor-icons/react";
-import { Fragment, type PropsWithChildren, type ReactNode } from "react";
+import {
+  createContext,
+  Fragment,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  type PropsWithChildren,
+  type ReactNode,
+} from "react";
 import { inputVariants } from "../input/input";
 import { cn } from "../../utils/cn";
+import {
+  useVirtualList,
+  useVirtualListItem,
+  VirtualListItem,
+} from "../../utils/virtual-list";
 import { Field, type FieldErrorMatch } from "../field/field";
 
 /** Combobox input position variant definitions. */
@@ -93,6 +108,12 @@ export interface ComboboxProps extends KumoComboboxVariantsProps {
   onValueChange?: (value: unknown) => void;
   /** Enable multi-select mode */
   multiple?: boolean;
+  /**
+   * Only render the items in view, for long lists. `Combobox.List` must have
+   * a render function child.
+   * @default false
+   */
+  virtualized?: boolean;
   /** Combobox content (trigger, content, items) */
   children: ReactNode;
   /** Additional CSS classes */
@@ -109,6 +130,14 @@ export interface ComboboxProps extends KumoComboboxVariantsProps {
   error?: string | { message: ReactNode; match: FieldErrorMatch };
 }
 
+/** Estimated height of a `Combobox.Item`, before it is measured. */
+const ESTIMATED_ITEM_HEIGHT = 36;
+
+/** Lets a virtualized list scroll keyboard-highlighted items into view. */
+const ComboboxVirtualContext = createContext<{
+  scrollToIndex: React.MutableRefObject<(index: number) => void>;
+} | null>(null);
+
 function Root<Value, Multiple extends boolean | undefined = false>({
   label,
   required,
@@ -116,6 +145,8 @@ function Root<Value, Multiple extends boolean | undefined = false>({
   description,
   error,
   children,
+  virtualized = false,
+  onItemHighlighted,
   ...props
 }: ComboboxBase.Root.Props<Value, Multiple> & {
   label?: ReactNode;
@@ -124,8 +155,28 @@ function Root<Value, Multiple extends boolean | undefined = false>({
   description?: ReactNode;
   error?: string | { message: ReactNode; match: FieldErrorMatch };
 }) {
+  const scrollToIndex = useRef<(index: number) => void>(() => {});
+  const virtualContext = useMemo(
+    () => (virtualized ? { scrollToIndex } : null),
+    [virtualized],
+  );
+
   const comboboxControl = (
-    <ComboboxBase.Root {...props}>{children}</ComboboxBase.Root>
+    <ComboboxBase.Root
+      {...props}
+      virtualized={virtualized}
+      onItemHighlighted={(item, details) => {
+        // Only rendered items can scroll themselves into view
+        if (virtualized && details.reason === "keyboard") {
+          scrollToIndex.current(details.index);
+        }
+        onItemHighlighted?.(item, details);
+      }}
+    >
+      <ComboboxVirtualContext.Provider value={virtualContext}>
+        {children}
+      </ComboboxVirtualContext.Provider>
+    </ComboboxBase.Root>
   );
 
   // Render with Field wrapper if label, description, or error are provided
@@ -236,8 +287,14 @@ function TriggerInput(props: ComboboxBase.Input.Props) {
 }
 
 function Item({ children, ...props }: ComboboxBase.Item.Props) {
+  const virtualItem = useVirtualListItem();
   return (
     <ComboboxBase.Item
+      {...(virtualItem && {
+        index: virtualItem.index,
+        "aria-posinset": virtualItem.index + 1,
+        "aria-setsize": virtualItem.count,
+      })}
       {...props}
       className="group mx-1.5 grid cursor-pointer grid-cols-[1fr_16px] gap-2 rounded px-2 py-1.5 text-base data-highlighted:bg-kumo-overlay"
     >
@@ -274,7 +331,30 @@ function Input(props: ComboboxBase.Input.Props) {
   );
 }
 
-function List({
+type ListProps = ComboboxBase.List.Props & {
+  className?: string;
+  /**
+   * Estimated item height in pixels for virtualized lists, used until items
+   * are measured.
+   * @default 36
+   */
+  estimateItemHeight?: number;
+};
+
+function List({ estimateItemHeight, ...props }: ListProps) {
+  const virtual = useContext(ComboboxVirtualContext);
+  if (virtual && typeof props.children === "function") {
+    return (
+      <VirtualList
+        {...props}
+        estimateItemHeight={estimateItemHeight ?? ESTIMATED_ITEM_HEIGHT}
+      />
+    );
+  }
+  return <StyledList {...props} />;
+}
+
+function StyledList({
   className,
   ...props
 }: ComboboxBase.List.Props & { className?: string }) {
@@ -289,6 +369,42 @@ function List({
   );
 }
 
+/** Renders only the filtered items in view; used for `virtualized` roots. */
+function VirtualList({
+  children,
+  estimateItemHeight,
+  ...props
+}: ListProps & { estimateItemHeight: number }) {
+  const items = ComboboxBase.useFilteredItems<unknown>();
+  const virtual = useContext(ComboboxVirtualContext);
+  const listRef = useRef<HTMLDivElement>(null);
+  const getScrollElement = useCallback(() => listRef.current, []);
+  const getItemKey = useCallback((index: number) => items[index], [items]);
+  const { indexes, paddingStart, paddingEnd, scrollToIndex } = useVirtualList({
+    count: items.length,
+    getScrollElement,
+    estimateSize: estimateItemHeight,
+    getItemKey,
+  });
+
+  useEffect(() => {
+    if (virtual) virtual.scrollToIndex.current = scrollToIndex;
+  }, [virtual, scrollToIndex]);
+
+  const renderItem = children as (item: unknown, index: number) => ReactNode;
+  return (
+    <StyledList ref={listRef} {...props}>
+      <div role="presentation" style={{ height: paddingStart }} />
+      {indexes.map((index) => (
+        <VirtualListItem key={index} index={index} count={items.length}>
+          {renderItem(items[index], index)}
+        </VirtualListItem>
+      ))}
+      <div role="presentation" style={{ height: paddingEnd }} />
+    </StyledList>
+  );
+}
+
 function GroupLabel(props: ComboboxBase.GroupLabel.Props) {
   return (
     <ComboboxBase.GroupLabel
@@ -2,6 +2,7 @@ import { describe, expect, it, vi } from "vitest";
 import { render, screen, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { CommandPalette } from "./command-palette";
+import type { CommandPaletteSource, CommandPaletteSourceGroup } from "./types";
 import { Autocomplete } from "@base-ui/react/autocomplete";
 
 /**
@@ -320,4 +321,311 @@ describe("CommandPalette", () => {
       });
     });
   });
+
+  describe("Fuzzy filter", () => {
+    it("filters and ranks items within groups and highlights matches", async () => {
+      const user = userEvent.setup();
+      render(
+        <CommandPalette.Root
+          open
+          onOpenChange={vi.fn()}
+          items={mockGroups}
+          itemToStringValue={(group: TestGroup) => group.label}
+          filter="fuzzy"
+        >
+          <CommandPalette.Input placeholder="Search commands..." />
+          <CommandPalette.List>
+            <CommandPalette.Results>
+              {(group: TestGroup) => (
+                <CommandPalette.Group key={group.id} items={group.items}>
+                  <CommandPalette.GroupLabel>
+                    {group.label}
+                  </CommandPalette.GroupLabel>
+                  <CommandPalette.Items>
+                    {(item: TestItem) => (
+                      <CommandPalette.ResultItem
+                        key={item.id}
+                        value={item}
+                        title={item.title}
+                        onClick={vi.fn()}
+                      />
+                    )}
+                  </CommandPalette.Items>
+                </CommandPalette.Group>
+              )}
+            </CommandPalette.Results>
+            <CommandPalette.Empty>No results found</CommandPalette.Empty>
+          </CommandPalette.List>
+        </CommandPalette.Root>,
+      );
+
+      expect(screen.getAllByRole("option")).toHaveLength(4);
+
+      await user.type(screen.getByPlaceholderText("Search commands..."), "o");
+
+      await waitFor(() => {
+        const options = screen.getAllByRole("option");
+        expect(options.map((option) => option.textContent)).toEqual([
+          "Open Settings",
+          "Create New Project",
+          "Dashboard",
+        ]);
+      });
+      const marks = screen.getAllByRole("option")[0]!.querySelectorAll("mark");
+      expect(Array.from(marks, (mark) => mark.textContent)).toEqual(["O"]);
+
+      await user.type(screen.getByPlaceholderText("Search commands..."), "pen");
+
+      await waitFor(() => {
+        expect(screen.getAllByRole("option")).toHaveLength(1);
+      });
+      expect(screen.queryByText("Pages")).toBeNull();
+    });
+  });
+
+  describe("Async sources", () => {
+    const renderWithSources = (
+      sources: CommandPaletteSource<TestItem>[],
+      filter?: "fuzzy",
+    ) =>
+      render(
+        <CommandPalette.Root
+          open
+          onOpenChange={vi.fn()}
+          sources={sources}
+          itemToStringValue={(group: CommandPaletteSourceGroup<TestItem>) =>
+            group.label
+          }
+          filter={filter}
+        >
+          <CommandPalette.Input placeholder="Search resources..." />
+          <CommandPalette.List>
+            <CommandPalette.Results>
+              {(group: CommandPaletteSourceGroup<TestItem>) => (
+                <CommandPalette.Group key={group.id} items={group.items}>
+                  <CommandPalette.GroupLabel>
+                    {group.label}
+                  </CommandPalette.GroupLabel>
+                  <CommandPalette.Items>
+                    {(item: TestItem) => (
+                      <CommandPalette.ResultItem
+                        key={item.id}
+                        value={item}
+                        title={item.title}
+                        onClick={vi.fn()}
+                      />
+                    )}
+                  </CommandPalette.Items>
+                </CommandPalette.Group>
+              )}
+            </CommandPalette.Results>
+            <CommandPalette.SourceStatus />
+            <CommandPalette.Empty>No results found</CommandPalette.Empty>
+          </CommandPalette.List>
+        </CommandPalette.Root>,
+      );
+
+    const getTitles = () =>
+      screen.queryAllByRole("option").map((option) => option.textContent);
+
+    it("lists the results of each source as a group", async () => {
+      const user = userEvent.setup();
+      renderWithSources([
+        {
+          id: "zones",
+          label: "Zones",
+          debounce: 0,
+          search: async (query) => [{ id: "z1", title: `${query}.com` }],
+        },
+        {
+          id: "workers",
+          label: "Workers",
+          debounce: 0,
+          search: async (query) => [{ id: "w1", title: `${query}-worker` }],
+        },
+      ]);
+      expect(getTitles()).toEqual([]);
+
+      await user.type(
+        screen.getByPlaceholderText("Search resources..."),
+        "api",
+      );
+
+      await waitFor(() => {
+        expect(getTitles()).toEqual(["api.com", "api-worker"]);
+      });
+      expect(screen.getByText("Zones")).toBeTruthy();
+      expect(screen.getByText("Workers")).toBeTruthy();
+    });
+
+    it("debounces searches and aborts the search of a stale query", async () => {
+      const user = userEvent.setup();
+      const pending: {
+        query: string;
+        signal: AbortSignal;
+        resolve: (items: TestItem[]) => void;
+      }[] = [];
+      renderWithSources([
+        {
+          id: "zones",
+          debounce: 20,
+          search: (query, signal) =>
+            new Promise((resolve) => pending.push({ query, signal, resolve })),
+        },
+      ]);
+      const input = screen.getByPlaceholderText("Search resources...");
+
+      await user.type(input, "ex");
+      await waitFor(() => expect(pending).toHaveLength(1));
+      expect(pending[0]!.query).toBe("ex");
+
+      await user.type(input, "a");
+      await waitFor(() => expect(pending).toHaveLength(2));
+      expect(pending[0]!.signal.aborted).toBe(true);
+
+      pending[0]!.resolve([{ id: "stale", title: "stale.com" }]);
+      pending[1]!.resolve([{ id: "fresh", title: "exa.com" }]);
+      await waitFor(() => expect(getTitles()).toEqual(["exa.com"]));
+    });
+
+    it("reuses the results of a query searched before", async () => {
+      const user = userEvent.setup();
+      const search = vi.fn(async (query: string) => [
+        { id: query, title: `${query}.com` },
+      ]);
+      renderWithSources([{ id: "zones", debounce: 0, search }]);
+      const input = screen.getByPlaceholderText("Search resources...");
+
+      await user.type(input, "a");
+      await waitFor(() => expect(getTitles()).toEqual(["a.com"]));
+      await user.type(input, "b");
+      await waitFor(() => expect(getTitles()).toEqual(["ab.com"]));
+      await user.type(input, "{Backspace}");
+
+      expect(getTitles()).toEqual(["a.com"]);
+      expect(search).toHaveBeenCalledTimes(2);
+    });
+
+    it("shows loading and error states per group", async () => {
+      const user = userEvent.setup();
+      renderWithSources([
+        {
+          id: "zones",
+          label: "Zones",
+          debounce: 0,
+          search: () => new Promise(() => {}),
+        },
+        {
+          id: "docs",
+          label: "Docs",
+          debounce: 0,
+          search: () => Promise.reject(new Error("Offline")),
+        },
+      ]);
+
+      await user.type(screen.getByPlaceholderText("Search resources..."), "a");
+
+      await waitFor(() => {
+        expect(screen.getByRole("alert").textContent).toBe(
+          "Failed to load results",
+        );
+      });
+      expect(screen.getByText("Searching...").getAttribute("role")).toBe(
+        "status",
+      );
+      expect(screen.getByText("Zones")).toBeTruthy();
+      expect(screen.getByText("Docs")).toBeTruthy();
+      // Results may still arrive
+      expect(screen.queryByText("No results found")).toBeNull();
+    });
+
+    it("merges sources of a shared group and ranks them with the fuzzy filter", async () => {
+      const user = userEvent.setup();
+      renderWithSources(
+        [
+          {
+            id: "zones",
+            group: "Resources",
+            debounce: 0,
+            search: async () => [
+              { id: "z1", title: "Analytics zone" },
+              { id: "z2", title: "Billing" },
+            ],
+          },
+          {
+            id: "workers",
+            group: "Resources",
+            debounce: 0,
+            search: async () => [{ id: "w1", title: "Billing worker" }],
+          },
+        ],
+        "fuzzy",
+      );
+
+      await user.type(
+        screen.getByPlaceholderText("Search resources..."),
+        "billing",
+      );
+
+      // Results the fuzzy search misses are kept, after the ranked ones
+      await waitFor(() => {
+        expect(getTitles()).toEqual([
+          "Billing",
+          "Billing worker",
+          "Analytics zone",
+        ]);
+      });
+      expect(screen.getAllByText("Resources")).toHaveLength(1);
+    });
+  });
+
+  describe("Virtualization", () => {
+    const largeGroups: TestGroup[] = ["Zones", "Workers"].map((label) => ({
+      id: label,
+      label,
+      items: Array.from({ length: 500 }, (_, index) => ({
+        id: `${label}-${index}`,
+        title: `${label} ${index}`,
+      })),
+    }));
+
+    it("renders the results in view and scrolls the highlighted item into view", async () => {
+      const user = userEvent.setup();
+      render(
+        <CommandPalette.Root
+          open
+          onOpenChange={vi.fn()}
+          items={largeGroups}
+          itemToStringValue={(group: TestGroup) => group.label}
+          virtualized
+        >
+          <CommandPalette.Input placeholder="Search commands..." />
+          <CommandPalette.List className="h-96">
+            <CommandPalette.Results
+              renderGroupLabel={(group: TestGroup) => group.label}
+              renderItem={(item: TestItem) => (
+                <CommandPalette.Item value={item}>
+                  {item.title}
+                </CommandPalette.Item>
+              )}
+            />
+          </CommandPalette.List>
+        </CommandPalette.Root>,
+      );
+
+      const options = screen.getAllByRole("option");
+      expect(options.length).toBeLessThan(50);
+      expect(options[0]!.getAttribute("aria-setsize")).toBe("1000");
+      expect(options[0]!.getAttribute("aria-posinset")).toBe("1");
+      expect(screen.queryByText("Workers 499")).toBeNull();
+
+      await user.click(screen.getByPlaceholderText("Search commands..."));
+      for (let step = 0; step < 30; step++) await user.keyboard("{ArrowDown}");
+
+      await waitFor(() => {
+        const highlighted = document.querySelector("[data-highlighted]");
+        expect(highlighted?.textContent).toBe("Zones 30");
+      });
+    });
+  });
 });
@@ -1,10 +1,13 @@
 import {
   useRef,
   useCallback,
+  useMemo,
   createContext,
   useContext,
+  useLayoutEffect,
   forwardRef,
   type CSSProperties,
+  type MutableRefObject,
 } from "react";
 import { Autocomplete } from "@base-ui/react/autocomplete";
 import { Dialog as DialogBase } from "@base-ui/react/dialog";
@@ -18,6 +21,13 @@ import {
 import { Surface } from "../surface";
 import { Loader } from "../loader";
 import { cn } from "../../utils";
+import { useControllableState } from "../../utils/use-controllable-state";
+import {
+  getScrollParent,
+  useVirtualList,
+  useVirtualListItem,
+  VirtualListItem,
+} from "../../utils/virtual-list";
 import type {
   HighlightRange,
   CommandPaletteRootProps,
@@ -29,7 +39,16 @@ import type {
   CommandPaletteLoadingProps,
   CommandPaletteFooterProps,
   CommandPaletteResultItemProps,
+  CommandPaletteSource,
+  CommandPaletteSourceGroup,
+  CommandPaletteSourceStatusProps,
 } from "./types";
+import {
+  fuzzySearch,
+  type FuzzySearchOptions,
+  type FuzzySearchResult,
+} from "./fuzzy";
+import { useSources } from "./sources";
 
 /**
  * CommandPalette - A composable command palette component for Kumo
@@ -196,8 +215,11 @@ function Root<TGroup, TItem = TGroup>({
   onItemHighlighted,
   itemToStringValue,
   filter,
+  fuzzyOptions,
+  sources,
   onSelect,
   getSelectableItems,
+  virtualized,
 }: CommandPaletteRootProps<TGroup, TItem>) {
   return (
     <Dialog
@@ -212,9 +234,12 @@ function Root<TGroup, TItem = TGroup>({
         onItemHighlighted={onItemHighlighted}
         itemToStringValue={itemToStringValue}
         filter={filter}
+        fuzzyOptions={fuzzyOptions}
+        sources={sources}
         open={open}
         onSelect={onSelect}
         getSelectableItems={getSelectableItems}
+        virtualized={virtualized}
       >
         {children}
       </Panel>
@@ -329,8 +354,10 @@ function Item<T>({
 }: CommandPaletteItemProps<T> & {
   className?: string;
 }) {
+  const virtualItem = useVirtualListItem();
   return (
     <Autocomplete.Item
+      {...getVirtualItemProps(virtualItem)}
       value={value}
       disabled={disabled}
       onClick={onClick}
@@ -347,12 +374,29 @@ function Item<T>({
   );
 }
 
+/**
+ * Position props for an item rendered by virtualized Results.
+ */
+function getVirtualItemProps(
+  virtualItem: ReturnType<typeof useVirtualListItem>,
+) {
+  if (!virtualItem) return undefined;
+  return {
+    index: virtualItem.index,
+    "aria-posinset": virtualItem.index + 1,
+    "aria-setsize": virtualItem.count,
+  };
+}
+
 /**
  * Empty component - Empty state when no results
  *
  * Re-export of Autocomplete.Empty with default styling.
  */
 function Empty({ children }: CommandPaletteEmptyProps) {
+  const { sourcesPending } = useContext(PanelContext);
+  // Results may still arrive
+  if (sourcesPending) return null;
   return (
     <Autocomplete.Empty>
       <div className="p-8 text-center">
@@ -375,6 +419,53 @@ function Loading({ children }: CommandPaletteLoadingProps) {
   );
 }
 
+/**
+ * SourceStatus component - Loading and error rows of async sources
+ *
+ * Lists each source group that has no results yet, under its label, with a
+ * spinner while it searches or an error when it failed. Place it after
+ * Results; groups with results are listed by Results.
+ */
+function SourceStatus({
+  loadingMessage = "Searching...",
+  errorMessage = "Failed to load results",
+}: CommandPaletteSourceStatusProps) {
+  const { sourceGroups } = useContext(PanelContext);
+  const hasResults = Autocomplete.useFilteredItems<unknown>().length > 0;
+  const groups = sourceGroups?.filter(
+    (group) =>
+      group.items.length === 0 && (group.loading || group.error !== undefined),
+  );
+  if (!groups || groups.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-3", hasResults && "pt-3")}>
+      {groups.map((group) => (
+        <div key={group.id}>
+          <div className="mb-2 px-2 pt-1 text-xs font-semibold text-kumo-strong">
+            {group.label}
+          </div>
+          {group.loading ? (
+            <div
+              role="status"
+              className="flex items-center gap-2 px-2 py-1.5 text-sm text-kumo-subtle"
+            >
+              <Loader size={14} />
+              {loadingMessage}
+            </div>
+          ) : (
+            <div role="alert" className="px-2 py-1.5 text-sm text-kumo-danger">
+              {typeof errorMessage === "function"
+                ? errorMessage(group.error)
+                : errorMessage}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 /**
  * Footer component - Styled container for keyboard hints or other footer content.
  *
@@ -470,16 +561,22 @@ function ResultItem<T>({
   showArrow = true,
   external = false,
   nonInteractive = false,
+  disabled = false,
 }: CommandPaletteResultItemProps<T>) {
+  const virtualItem = useVirtualListItem();
+  const match = useContext(PanelContext).matches?.get(value);
   return (
     <Autocomplete.Item
+      {...getVirtualItemProps(virtualItem)}
       value={value}
+      disabled={disabled}
       onClick={nonInteractive ? undefined : (e: React.MouseEvent) => onClick(e)}
       className={cn(
         "group flex w-full items-center gap-3 rounded-lg px-2 py-1.5 text-left transition-colors",
         nonInteractive
           ? "cursor-default"
           : "cursor-pointer data-[highlighted]:bg-kumo-overlay",
+        disabled && "cursor-default opacity-50",
       )}
     >
       {icon && (
@@ -493,7 +590,9 @@ function ResultItem<T>({
             <span key={index} className="flex items-center gap-2">
               <HighlightedText
                 text={crumb}
-                highlights={breadcrumbHighlights?.[index]}
+                highlights={
+                  (breadcrumbHighlights ?? match?.breadcrumbHighlights)?.[index]
+                }
                 className="text-base text-kumo-default"
               />
               <CaretRightIcon
@@ -504,7 +603,7 @@ function ResultItem<T>({
           ))}
           <HighlightedText
             text={title}
-            highlights={titleHighlights}
+            highlights={titleHighlights ?? match?.titleHighlights}
             className="text-base text-kumo-default"
           />
           {external && (
@@ -554,6 +653,16 @@ function Container({
  */
 interface PanelContextValue {
   onInputKeyDown?: (e: React.KeyboardEvent) => void;
+  /** Whether Results renders only the rows in view */
+  virtualized?: boolean;
+  /** Scrolls a (flat) item index into view; set by virtualized Results */
+  scrollToItemRef?: MutableRefObject<(index: number) => void>;
+  /** Matches of the `"fuzzy"` filter, by item */
+  matches?: Map<unknown, FuzzySearchResult<unknown>>;
+  /** Result groups of the async `sources` */
+  sourceGroups?: CommandPaletteSourceGroup[];
+  /** Whether a source is still searching */
+  sourcesPending?: boolean;
 }
 
 const PanelContext = createContext<PanelContextValue>({});
@@ -564,8 +673,8 @@ const PanelContext = createContext<PanelContextValue>({});
 interface PanelProps<TGroup, TItem = TGroup> {
   /** Child components (Input, List, Footer, etc.) */
   children: React.ReactNode;
-  /** Items for the autocomplete */
-  items: TGroup[];
+  /** Items for the autocomplete; must be groups when `sources` are set */
+  items?: TGroup[];
   /** Controlled input value */
   value?: string;
   /** Callback when input value changes */
@@ -577,8 +686,12 @@ interface PanelProps<TGroup, TItem = TGroup> {
   ) => void;
   /** Convert item to string for accessibility */
   itemToStringValue?: (item: TGroup) => string;
-  /** Custom filter function */
-  filter?: (item: TGroup, query: string) => boolean;
+  /** Custom filter function, or `"fuzzy"` for the built-in fuzzy search */
+  filter?: ((item: TGroup, query: string) => boolean) | "fuzzy";
+  /** Fields, weights and threshold of the `"fuzzy"` filter */
+  fuzzyOptions?: FuzzySearchOptions<TItem>;
+  /** Async search sources, listed as groups after `items` */
+  sources?: CommandPaletteSource<TItem>[];
   /** Whether the panel is active/open (for autocomplete state) */
   open?: boolean;
   /** Optional className for the container */
@@ -593,6 +706,11 @@ interface PanelProps<TGroup, TItem = TGroup> {
    * Required when items are grouped and onSelect is used.
    */
   getSelectableItems?: (items: TGroup[]) => TItem[];
+  /**
+   * Only render the results in view. Results are then rendered with
+   * `renderItem` and `renderGroupLabel` on `CommandPalette.Results`.
+   */
+  virtualized?: boolean;
 }
 
 /**
@@ -635,20 +753,121 @@ interface PanelProps<TGroup, TItem = TGroup> {
  */
 const defaultFilter = () => true;
 
+/**
+ * Filters and ranks items for the `"fuzzy"` filter. Grouped items are
+ * ranked within their group and empty groups are dropped. Also returns the
+ * match of every item shown, for ResultItem highlights.
+ */
+function fuzzyFilterItems<TGroup, TItem>(
+  items: TGroup[],
+  query: string,
+  options?: FuzzySearchOptions<TItem>,
+) {
+  const matches = new Map<unknown, FuzzySearchResult<unknown>>();
+  const search = (list: readonly unknown[]) =>
+    fuzzySearch(list as TItem[], query, options).map((result): unknown => {
+      matches.set(result.item, result);
+      return result.item;
+    });
+
+  if (!items.some(isGroup)) {
+    return { items: search(items) as TGroup[], matches };
+  }
+  const groups: TGroup[] = [];
+  for (const entry of items) {
+    if (!isGroup(entry)) {
+      groups.push(...(search([entry]) as TGroup[]));
+      continue;
+    }
+    const groupItems = search(entry.items);
+    if (groupItems.length > 0) groups.push({ ...entry, items: groupItems });
+  }
+  return { items: groups, matches };
+}
+
+/**
+ * Ranks source results for the `"fuzzy"` filter without dropping any: the
+ * sources matched them already, so results the fuzzy search misses follow
+ * the ranked ones in source order.
+ */
+function fuzzyRankSourceGroups<TItem>(
+  groups: CommandPaletteSourceGroup<TItem>[],
+  query: string,
+  matches: Map<unknown, FuzzySearchResult<unknown>>,
+  options?: FuzzySearchOptions<TItem>,
+) {
+  return groups.map((group) => {
+    const ranked = new Set<TItem>();
+    for (const result of fuzzySearch(group.items, query, options)) {
+      matches.set(result.item, result);
+      ranked.add(result.item);
+    }
+    return {
+      ...group,
+      items: [...ranked, ...group.items.filter((item) => !ranked.has(item))],
+    };
+  });
+}
+
+const NO_ITEMS: never[] = [];
+
 function Panel<TGroup, TItem = TGroup>({
   children,
-  items,
+  items = NO_ITEMS,
   value,
   onValueChange,
   onItemHighlighted,
   itemToStringValue,
   filter = defaultFilter,
+  fuzzyOptions,
+  sources,
   open = true,
   className,
   onSelect,
   getSelectableItems,
+  virtualized = false,
 }: PanelProps<TGroup, TItem>) {
+  const fuzzy = filter === "fuzzy";
+  const trackQuery = fuzzy || sources !== undefined;
+  const [query, setQuery] = useControllableState(value, "", onValueChange);
+  const { groups: sourceGroups, pending: sourcesPending } = useSources(
+    sources,
+    query,
+  );
+  const fuzzyResults = useMemo(() => {
+    if (!fuzzy) return undefined;
+    const results = fuzzyFilterItems(items, query, fuzzyOptions);
+    return {
+      ...results,
+      sourceGroups: fuzzyRankSourceGroups(
+        sourceGroups,
+        query,
+        results.matches,
+        fuzzyOptions,
+      ),
+    };
+  }, [fuzzy, items, query, fuzzyOptions, sourceGroups]);
+
+  const shownItems = useMemo(() => {
+    const shown = fuzzyResults?.items ?? items;
+    if (!sources) return shown;
+    const groups: unknown[] = fuzzyResults?.sourceGroups ?? sourceGroups;
+    return [...shown, ...(groups as TGroup[])];
+  }, [fuzzyResults, items, sources, sourceGroups]);
+
+  // Sources have matched their results already
+  const autocompleteFilter = useMemo(() => {
+    if (fuzzy) return defaultFilter;
+    if (!sources) return filter;
+    const sourceItems = new Set<unknown>(
+      sourceGroups.flatMap((group) => group.items),
+    );
+    return (item: TGroup, search: string) =>
+      sourceItems.has(item) || filter(item, search);
+  }, [fuzzy, filter, sources, sourceGroups]);
+
   const highlightedIndexRef = useRef<number>(-1);
+  const scrollToItemRef = useRef<(index: number) => void>(() => {});
 
   const handleItemHighlighted = useCallback(
     (
@@ -656,9 +875,13 @@ function Panel<TGroup, TItem = TGroup>({
       details: { reason: string; event: Event; index: number },
     ) => {
       highlightedIndexRef.current = details.index;
+      // Unrendered items can't scroll themselves into view
+      if (virtualized && details.reason === "keyboard") {
+        scrollToItemRef.current(details.index);
+      }
       onItemHighlighted?.(item, details);
     },
-    [onItemHighlighted],
+    [onItemHighlighted, virtualized],
   );
 
   // Handle Cmd/Ctrl+Enter for new tab selection
@@ -668,7 +891,7 @@ function Panel<TGroup, TItem = TGroup>({
       const withModifier = e.metaKey || e.ctrlKey;
 
       if (isEnter && withModifier && onSelect && getSelectableItems) {
-        const selectableItems = getSelectableItems(items);
+        const selectableItems = getSelectableItems(shownItems);
         const highlightedItem = selectableItems[highlightedIndexRef.current];
 
         if (highlightedItem !== undefined) {
@@ -677,23 +900,33 @@ function Panel<TGroup, TItem = TGroup>({
         }
       }
     },
-    [items, onSelect, getSelectableItems],
+    [shownItems, onSelect, getSelectableItems],
   );
 
   return (
     <Container className={className}>
       <Autocomplete.Root
-        items={items}
-        value={value}
-        onValueChange={onValueChange}
+        items={shownItems}
+        value={trackQuery ? query : value}
+        onValueChange={trackQuery ? setQuery : onValueChange}
         onItemHighlighted={handleItemHighlighted}
         itemToStringValue={itemToStringValue}
-        filter={filter}
+        filter={autocompleteFilter}
         autoHighlight="always"
         keepHighlight
         open={open}
+        virtualized={virtualized}
       >
-        <PanelContext.Provider value={{ onInputKeyDown: handleInputKeyDown }}>
+        <PanelContext.Provider
+          value={{
+            onInputKeyDown: handleInputKeyDown,
+            virtualized,
+            scrollToItemRef,
+            matches: fuzzyResults?.matches,
+            sourceGroups: sources ? sourceGroups : undefined,
+            sourcesPending,
+          }}
+        >
           {children}
         </PanelContext.Provider>
       </Autocomplete.Root>
@@ -767,15 +1000,49 @@ function PanelInput({
  * Render prop iterators - wrap base-ui primitives with cleaner names.
  */
 
+type ResultsProps<TItem = unknown, TGroup = unknown> = Partial<
+  React.ComponentProps<typeof Autocomplete.List>
+> & {
+  className?: string;
+  /** Renders an item in a `virtualized` panel, by its index among all items */
+  renderItem?: (item: TItem, index: number) => React.ReactNode;
+  /** Renders a group's label in a `virtualized` panel. Groups are items with an `items` array. */
+  renderGroupLabel?: (group: TGroup) => React.ReactNode;
+  /**
+   * Estimated item height in pixels in a `virtualized` panel, used until
+   * items are measured.
+   * @default 36
+   */
+  estimateItemHeight?: number;
+};
+
 /**
  * Results component - Render prop iterator for groups.
  *
- * Wraps Autocomplete.List with default spacing between groups.
+ * Wraps Autocomplete.List with default spacing between groups. In a
+ * `virtualized` panel, renders only the rows in view with `renderItem` and
+ * `renderGroupLabel` instead of `children`.
  */
-function Results({
+function Results<TItem = unknown, TGroup = unknown>({
   children,
   className,
-}: React.ComponentProps<typeof Autocomplete.List> & { className?: string }) {
+  renderItem,
+  renderGroupLabel,
+  estimateItemHeight = 36,
+}: ResultsProps<TItem, TGroup>) {
+  const { virtualized } = useContext(PanelContext);
+  if (virtualized && renderItem) {
+    // Rows come from the filtered items, which are the caller's items and groups
+    return (
+      <VirtualResults
+        className={className}
+        renderItem={renderItem as NonNullable<ResultsProps["renderItem"]>}
+        renderGroupLabel={renderGroupLabel as ResultsProps["renderGroupLabel"]}
+        estimateItemHeight={estimateItemHeight}
+      />
+    );
+  }
+
   return (
     <Autocomplete.List className={cn("space-y-3", className)}>
       {children}
@@ -785,6 +1052,139 @@ function Results({
 
 const Items = Autocomplete.Collection;
 
+const GROUP_LABEL_CLASSES =
+  "px-2 pt-1 pb-2 text-xs font-semibold text-kumo-strong";
+
+/** Space kept for the sticky group label when scrolling items into view. */
+const GROUP_LABEL_HEIGHT = 28;
+
+type VirtualRow =
+  | { type: "label"; group: unknown }
+  | { type: "item"; item: unknown; index: number; group?: unknown };
+
+function isGroup(item: unknown): item is { items: unknown[] } {
+  return (
+    typeof item === "object" &&
+    item !== null &&
+    Array.isArray((item as { items?: unknown }).items)
+  );
+}
+
+/**
+ * VirtualResults - Windowed Results: groups are flattened into label and
+ * item rows, and the label of the group at the top stays pinned.
+ */
+function VirtualResults({
+  className,
+  renderItem,
+  renderGroupLabel,
+  estimateItemHeight,
+}: {
+  className?: string;
+  renderItem: NonNullable<ResultsProps["renderItem"]>;
+  renderGroupLabel?: ResultsProps["renderGroupLabel"];
+  estimateItemHeight: number;
+}) {
+  const { scrollToItemRef } = useContext(PanelContext);
+  const filteredItems = Autocomplete.useFilteredItems<unknown>();
+  const hasLabels = renderGroupLabel !== undefined;
+
+  const { rows, itemRows } = useMemo(() => {
+    const rows: VirtualRow[] = [];
+    // Row index of each item, by item index
+    const itemRows: number[] = [];
+    const addItem = (item: unknown, group?: unknown) => {
+      itemRows.push(rows.length);
+      rows.push({ type: "item", item, index: itemRows.length - 1, group });
+    };
+    for (const entry of filteredItems) {
+      if (!isGroup(entry)) {
+        addItem(entry);
+        continue;
+      }
+      if (hasLabels) rows.push({ type: "label", group: entry });
+      for (const item of entry.items) addItem(item, entry);
+    }
+    return { rows, itemRows };
+  }, [filteredItems, hasLabels]);
+
+  const listRef = useRef<HTMLDivElement>(null);
+  const getScrollElement = useCallback(
+    () => getScrollParent(listRef.current),
+    [],
+  );
+  const getListElement = useCallback(() => listRef.current, []);
+  // Label rows are keyed by their group, item rows by their item
+  const getItemKey = useCallback(
+    (index: number) => {
+      const row = rows[index];
+      return row?.type === "item" ? row.item : row?.group;
+    },
+    [rows],
+  );
+  const list = useVirtualList({
+    count: rows.length,
+    getScrollElement,
+    getListElement,
+    estimateSize: estimateItemHeight,
+    scrollPaddingStart: hasLabels ? GROUP_LABEL_HEIGHT : 0,
+    getItemKey,
+  });
+
+  useLayoutEffect(() => {
+    if (!scrollToItemRef) return;
+    scrollToItemRef.current = (index) => {
+      const row = itemRows[index];
+      if (row === undefined) return;
+      list.scrollToIndex(row);
+      // Reveal the label above the first item of a group
+      if (rows[row - 1]?.type === "label") list.scrollToIndex(row - 1);
+    };
+  });
+
+  const top = rows[list.visibleStart];
+  const currentGroup = top?.type === "label" ? top.group : top?.group;
+
+  return (
+    <Autocomplete.List ref={listRef} className={className}>
+      {hasLabels && currentGroup !== undefined && (
+        <div aria-hidden className="sticky top-0 z-1 h-0">
+          <div className={cn(GROUP_LABEL_CLASSES, "bg-kumo-base")}>
+            {renderGroupLabel(currentGroup)}
+          </div>
+        </div>
+      )}
+      <div role="presentation" style={{ height: list.paddingStart }} />
+      {list.indexes.map((rowIndex) => {
+        const row = rows[rowIndex]!;
+        if (row.type === "label") {
+          return (
+            <div
+              key={`label-${rowIndex}`}
+              role="presentation"
+              data-virtual-index={rowIndex}
+              className={cn(GROUP_LABEL_CLASSES, rowIndex > 0 && "pt-4")}
+            >
+              {renderGroupLabel?.(row.group)}
+            </div>
+          );
+        }
+        return (
+          <VirtualListItem
+            key={rowIndex}
+            index={row.index}
+            count={itemRows.length}
+            rowIndex={rowIndex}
+          >
+            {renderItem(row.item, row.index)}
+          </VirtualListItem>
+        );
+      })}
+      <div role="presentation" style={{ height: list.paddingEnd }} />
+    </Autocomplete.List>
+  );
+}
+
 /** CommandPalette variant definitions (no user-facing variants; structure reserved for future use). */
 export const KUMO_COMMAND_PALETTE_VARIANTS = {} as const;
 
@@ -795,7 +1195,8 @@ export const KUMO_COMMAND_PALETTE_DEFAULT_VARIANTS = {} as const;
  *
  * Compound component: `CommandPalette.Root` (or `.Dialog` + `.Panel`),
  * `.Input`, `.List`, `.Results`, `.Items`, `.Group`, `.GroupLabel`,
- * `.Item`, `.ResultItem`, `.HighlightedText`, `.Empty`, `.Loading`, `.Footer`.
+ * `.Item`, `.ResultItem`, `.HighlightedText`, `.Empty`, `.Loading`,
+ * `.SourceStatus`, `.Footer`.
  *
  * Built on `@base-ui/react/autocomplete` + `@base-ui/react/dialog`.
  *
@@ -856,6 +1257,8 @@ export const CommandPalette = {
   Empty,
   /** Loading state */
   Loading,
+  /** Loading and error rows of async sources */
+  SourceStatus,
   /** Footer for keyboard hints */
   Footer,
   /** Render prop iterator for groups */
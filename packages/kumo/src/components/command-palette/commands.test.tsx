@@ -0,0 +1,303 @@
+import { describe, expect, it, vi } from "vitest";
+import { act, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { useState } from "react";
+import {
+  CommandPaletteCommands,
+  CommandPaletteProvider,
+  useRegisterCommand,
+} from "./commands";
+import type { Command, CommandPaletteProviderProps } from "./types";
+
+function Register({ commands }: { commands: Command[] }) {
+  useRegisterCommand(commands);
+  return null;
+}
+
+function Palette({ onOpenChange }: { onOpenChange?: (open: boolean) => void }) {
+  const [open, setOpen] = useState(true);
+  return (
+    <CommandPaletteCommands
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        onOpenChange?.(next);
+      }}
+    />
+  );
+}
+
+const renderCommands = (
+  commands: Command[],
+  providerProps: Omit<CommandPaletteProviderProps, "children"> = {},
+) =>
+  render(
+    <CommandPaletteProvider {...providerProps}>
+      <Register commands={commands} />
+      <Palette />
+    </CommandPaletteProvider>,
+  );
+
+const getTitles = () =>
+  screen.getAllByRole("option").map((option) => option.textContent);
+
+describe("CommandPaletteCommands", () => {
+  describe("Registration", () => {
+    it("lists registered commands by group", () => {
+      renderCommands(
+        [
+          { id: "dns", title: "DNS", group: "Navigation" },
+          { id: "purge", title: "Purge cache", group: "Actions" },
+        ],
+        { groupOrder: ["Actions"] },
+      );
+
+      expect(getTitles()).toEqual(["Purge cache", "DNS"]);
+      expect(screen.getByText("Actions")).toBeTruthy();
+      expect(screen.getByText("Navigation")).toBeTruthy();
+    });
+
+    it("removes commands when the registering component unmounts", () => {
+      const { rerender } = render(
+        <CommandPaletteProvider>
+          <Register commands={[{ id: "dns", title: "DNS" }]} />
+          <Register commands={[{ id: "page", title: "Page command" }]} />
+          <Palette />
+        </CommandPaletteProvider>,
+      );
+      expect(getTitles()).toEqual(["DNS", "Page command"]);
+
+      rerender(
+        <CommandPaletteProvider>
+          <Register commands={[{ id: "dns", title: "DNS" }]} />
+          <Palette />
+        </CommandPaletteProvider>,
+      );
+      expect(getTitles()).toEqual(["DNS"]);
+    });
+
+    it("throws outside a provider", () => {
+      const consoleError = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      expect(() =>
+        render(<Register commands={[{ id: "dns", title: "DNS" }]} />),
+      ).toThrow(
+        "useRegisterCommand must be used within a CommandPaletteProvider",
+      );
+      consoleError.mockRestore();
+    });
+  });
+
+  describe("Predicates", () => {
+    it("hides commands that are not visible", () => {
+      renderCommands([
+        { id: "dns", title: "DNS" },
+        { id: "admin", title: "Admin", visible: () => false },
+      ]);
+
+      expect(getTitles()).toEqual(["DNS"]);
+    });
+
+    it("does not run disabled commands", async () => {
+      const user = userEvent.setup();
+      const run = vi.fn();
+      renderCommands([
+        { id: "purge", title: "Purge cache", enabled: () => false, run },
+      ]);
+
+      const option = screen.getByRole("option");
+      expect(option.getAttribute("aria-disabled")).toBe("true");
+      await user.click(option);
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Running", () => {
+    it("runs the selected command and closes", async () => {
+      const user = userEvent.setup();
+      const run = vi.fn();
+      const onOpenChange = vi.fn();
+      render(
+        <CommandPaletteProvider>
+          <Register commands={[{ id: "dns", title: "DNS", run }]} />
+          <Palette onOpenChange={onOpenChange} />
+        </CommandPaletteProvider>,
+      );
+
+      await user.click(screen.getByText("DNS"));
+
+      expect(run).toHaveBeenCalledWith({ newTab: false });
+      expect(onOpenChange).toHaveBeenCalledWith(false);
+    });
+  });
+
+  describe("Pages", () => {
+    const run = vi.fn();
+    const commands: Command[] = [
+      {
+        id: "zones",
+        title: "Go to zone",
+        page: {
+          title: "Zones",
+          placeholder: "Select a zone...",
+          commands: [
+            {
+              id: "example.com",
+              title: "example.com",
+              page: () => ({
+                title: "example.com",
+                commands: [{ id: "purge", title: "Purge cache", run }],
+              }),
+            },
+          ],
+        },
+      },
+    ];
+
+    it("opens nested pages with a breadcrumb", async () => {
+      const user = userEvent.setup();
+      renderCommands(commands);
+
+      await user.click(screen.getByText("Go to zone"));
+      expect(screen.getByPlaceholderText("Select a zone...")).toBeTruthy();
+      expect(getTitles()).toEqual(["example.com"]);
+
+      await user.click(screen.getByRole("option"));
+      expect(getTitles()).toEqual(["Purge cache"]);
+      expect(screen.getByText("Zones")).toBeTruthy();
+
+      await user.click(screen.getByText("Purge cache"));
+      expect(run).toHaveBeenCalledWith({ newTab: false });
+    });
+
+    it("goes back with the back button and Backspace", async () => {
+      const user = userEvent.setup();
+      renderCommands(commands);
+
+      await user.click(screen.getByText("Go to zone"));
+      await user.click(screen.getByRole("option"));
+      expect(getTitles()).toEqual(["Purge cache"]);
+
+      await user.click(screen.getByRole("button", { name: "Back" }));
+      expect(getTitles()).toEqual(["example.com"]);
+
+      await user.click(screen.getByRole("combobox"));
+      await user.keyboard("{Backspace}");
+      expect(getTitles()).toEqual(["Go to zone"]);
+      expect(screen.queryByRole("button", { name: "Back" })).toBeNull();
+    });
+  });
+
+  describe("Arguments", () => {
+    it("collects an argument before running", async () => {
+      const user = userEvent.setup();
+      const run = vi.fn();
+      renderCommands([
+        {
+          id: "create-token",
+          title: "Create API token",
+          argument: {
+            placeholder: "Token name",
+            validate: (value) => (value ? undefined : "Enter a name"),
+          },
+          run,
+        },
+      ]);
+
+      await user.click(screen.getByText("Create API token"));
+      const input = screen.getByPlaceholderText("Token name");
+
+      await user.type(input, "{Enter}");
+      expect(screen.getByRole("alert").textContent).toBe("Enter a name");
+      expect(run).not.toHaveBeenCalled();
+
+      await user.type(input, "deploy{Enter}");
+      expect(run).toHaveBeenCalledWith({ newTab: false, argument: "deploy" });
+    });
+  });
+
+  describe("Recents", () => {
+    it("persists used commands to storage", async () => {
+      const user = userEvent.setup();
+      const storage = {
+        getItem: vi.fn(() => null),
+        setItem: vi.fn(),
+      };
+      renderCommands(
+        [
+          { id: "dns", title: "DNS", run: () => {} },
+          { id: "ssl", title: "SSL", run: () => {} },
+        ],
+        { recentsStorage: storage, recentsStorageKey: "commands" },
+      );
+      expect(screen.queryByText("Recent")).toBeNull();
+
+      await user.click(screen.getByText("SSL"));
+
+      expect(storage.setItem).toHaveBeenCalledWith(
+        "commands",
+        expect.stringContaining('"ssl":{"count":1'),
+      );
+    });
+
+    it("loads recents from async storage", async () => {
+      const now = Date.now();
+      const storage = {
+        getItem: vi.fn(() =>
+          Promise.resolve(
+            JSON.stringify({
+              ssl: { count: 3, lastUsed: now },
+              dns: { count: 1, lastUsed: now },
+            }),
+          ),
+        ),
+        setItem: vi.fn(),
+      };
+      renderCommands(
+        [
+          { id: "dns", title: "DNS" },
+          { id: "ssl", title: "SSL" },
+          { id: "waf", title: "WAF" },
+        ],
+        { recentsStorage: storage, recentsStorageKey: "commands" },
+      );
+
+      await waitFor(() => expect(screen.getByText("Recent")).toBeTruthy());
+      expect(storage.getItem).toHaveBeenCalledWith("commands");
+      expect(getTitles()).toEqual(["SSL", "DNS", "DNS", "SSL", "WAF"]);
+    });
+
+    it("keeps commands used while recents load", async () => {
+      const user = userEvent.setup();
+      let resolve: ((value: string) => void) | undefined;
+      const storage = {
+        getItem: vi.fn(
+          () =>
+            new Promise<string>((next) => {
+              resolve = next;
+            }),
+        ),
+        setItem: vi.fn(),
+      };
+      renderCommands(
+        [
+          { id: "dns", title: "DNS", run: () => {} },
+          { id: "ssl", title: "SSL", run: () => {} },
+        ],
+        { recentsStorage: storage, recentsStorageKey: "commands" },
+      );
+
+      await user.click(screen.getByText("SSL"));
+      await act(async () => {
+        resolve?.(JSON.stringify({ ssl: { count: 2, lastUsed: Date.now() } }));
+        await Promise.resolve();
+      });
+
+      expect(storage.setItem).toHaveBeenLastCalledWith(
+        "commands",
+        expect.stringContaining('"ssl":{"count":3'),
+      );
+    });
+  });
+});
@@ -0,0 +1,583 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type DependencyList,
+  type KeyboardEvent,
+  type ReactNode,
+} from "react";
+import { ArrowLeftIcon, CaretRightIcon } from "@phosphor-icons/react";
+
+import { parseStoredObject } from "../../utils/storage";
+import { Button } from "../button";
+import { CommandPalette } from "./command-palette";
+import type {
+  Command,
+  CommandPage,
+  CommandPaletteCommandsProps,
+  CommandPaletteProviderProps,
+  CommandRunContext,
+} from "./types";
+
+/**
+ * Command registry for `CommandPaletteCommands`: components register
+ * commands while they are mounted, so a page contributes its own commands
+ * and removes them when it unmounts.
+ */
+
+interface CommandStore {
+  register: (commands: Command[]) => () => void;
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => Command[];
+}
+
+/**
+ * Registered commands by id, in registration order. A later registration
+ * with the same id replaces the command in place.
+ */
+function createCommandStore(): CommandStore {
+  let registrations: { commands: Command[] }[] = [];
+  let snapshot: Command[] = [];
+  const listeners = new Set<() => void>();
+
+  const update = () => {
+    const byId = new Map<string, Command>();
+    for (const registration of registrations) {
+      for (const command of registration.commands) {
+        byId.set(command.id, command);
+      }
+    }
+    snapshot = Array.from(byId.values());
+    for (const listener of listeners) listener();
+  };
+
+  return {
+    register: (commands) => {
+      const registration = { commands };
+      registrations = [...registrations, registration];
+      update();
+      return () => {
+        registrations = registrations.filter((r) => r !== registration);
+        update();
+      };
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    getSnapshot: () => snapshot,
+  };
+}
+
+/** Uses of a command, by command id */
+type CommandUses = Record<string, { count: number; lastUsed: number }>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Most used commands first, with uses decaying by age in days
+ * ("frecency"), so a command used often last month ranks below one used a
+ * few times today.
+ */
+function getRecentIds(uses: CommandUses, limit: number) {
+  const now = Date.now();
+  const score = (id: string) => {
+    const use = uses[id]!;
+    return use.count / (1 + Math.max(now - use.lastUsed, 0) / DAY);
+  };
+  return Object.keys(uses)
+    .toSorted((a, b) => score(b) - score(a))
+    .slice(0, limit);
+}
+
+interface CommandRegistryContextValue {
+  store: CommandStore;
+  groupOrder?: string[];
+  recentIds: string[];
+  recordUse: (id: string) => void;
+}
+
+const CommandRegistryContext =
+  createContext<CommandRegistryContextValue | null>(null);
+
+function useCommandRegistry(name: string) {
+  const registry = useContext(CommandRegistryContext);
+  if (!registry) {
+    throw new Error(`${name} must be used within a CommandPaletteProvider`);
+  }
+  return registry;
+}
+
+/**
+ * CommandPaletteProvider - Registry of commands for `CommandPaletteCommands`.
+ *
+ * Wrap the app once; register commands anywhere below it with
+ * `useRegisterCommand`. Recently used commands are tracked here and
+ * persisted to `recentsStorage`.
+ *
+ * @example
+ * ```tsx
+ * <CommandPaletteProvider
+ *   groupOrder={["This page", "Navigation"]}
+ *   recentsStorage={localStorage}
+ *   recentsStorageKey="dash-commands"
+ * >
+ *   <App />
+ * </CommandPaletteProvider>
+ * ```
+ */
+export function CommandPaletteProvider({
+  children,
+  groupOrder,
+  recentsStorage,
+  recentsStorageKey,
+  recentsLimit = 5,
+}: CommandPaletteProviderProps) {
+  const [store] = useState(createCommandStore);
+  const [uses, setUses] = useState<CommandUses>({});
+  const usesRef = useRef(uses);
+  usesRef.current = uses;
+  // Uses recorded since the stored ones were requested
+  const recorded = useRef<CommandUses>({});
+
+  // Load the persisted uses once per key; adapters may be async
+  useEffect(() => {
+    if (!recentsStorage || !recentsStorageKey) return;
+    let cancelled = false;
+    recorded.current = {};
+    void Promise.resolve(recentsStorage.getItem(recentsStorageKey)).then(
+      (value) => {
+        const stored = parseStoredObject<CommandUses>(value);
+        if (cancelled || !stored) return;
+        // Add the uses recorded while it loaded to the stored ones
+        const next = { ...stored };
+        for (const [id, use] of Object.entries(recorded.current)) {
+          next[id] = {
+            count: (stored[id]?.count ?? 0) + use.count,
+            lastUsed: use.lastUsed,
+          };
+        }
+        usesRef.current = next;
+        setUses(next);
+        if (Object.keys(recorded.current).length > 0) {
+          void recentsStorage.setItem(recentsStorageKey, JSON.stringify(next));
+        }
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [recentsStorage, recentsStorageKey]);
+
+  const recordUse = useCallback(
+    (id: string) => {
+      const lastUsed = Date.now();
+      const next = {
+        ...usesRef.current,
+        [id]: { count: (usesRef.current[id]?.count ?? 0) + 1, lastUsed },
+      };
+      recorded.current = {
+        ...recorded.current,
+        [id]: { count: (recorded.current[id]?.count ?? 0) + 1, lastUsed },
+      };
+      usesRef.current = next;
+      setUses(next);
+      if (recentsStorage && recentsStorageKey) {
+        void recentsStorage.setItem(recentsStorageKey, JSON.stringify(next));
+      }
+    },
+    [recentsStorage, recentsStorageKey],
+  );
+
+  const recentIds = useMemo(
+    () => (recentsLimit > 0 ? getRecentIds(uses, recentsLimit) : []),
+    [uses, recentsLimit],
+  );
+
+  const value = useMemo(
+    () => ({ store, groupOrder, recentIds, recordUse }),
+    [store, groupOrder, recentIds, recordUse],
+  );
+
+  return (
+    <CommandRegistryContext.Provider value={value}>
+      {children}
+    </CommandRegistryContext.Provider>
+  );
+}
+
+/**
+ * Register commands while the calling component is mounted. Commands are
+ * registered again when `deps` change, like an effect, so list the values
+ * their titles, predicates and `run` read.
+ *
+ * Commands registered by a page are contextual: they are listed while the
+ * page is mounted. Put their group first with the provider's `groupOrder`.
+ *
+ * @example
+ * ```tsx
+ * useRegisterCommand(
+ *   {
+ *     id: "purge-cache",
+ *     title: "Purge cache",
+ *     group: "This zone",
+ *     keywords: ["clear"],
+ *     enabled: () => canPurge,
+ *     run: () => purgeCache(zone.id),
+ *   },
+ *   [zone.id, canPurge],
+ * );
+ * ```
+ */
+export function useRegisterCommand(
+  commands: Command | Command[],
+  deps: DependencyList = [],
+) {
+  const { store } = useCommandRegistry("useRegisterCommand");
+  useEffect(
+    () => store.register(Array.isArray(commands) ? commands : [commands]),
+    // Commands are re-created each render; deps decide when they change
+    [store, ...deps],
+  );
+}
+
+/** An item of the palette list. Recent commands get their own entries. */
+interface CommandEntry {
+  key: string;
+  command: Command;
+  title: string;
+  breadcrumbs?: string[];
+  keywords?: string[];
+}
+
+interface CommandGroup {
+  label?: string;
+  items: CommandEntry[];
+}
+
+function toEntry(command: Command, keyPrefix = ""): CommandEntry {
+  return {
+    key: keyPrefix + command.id,
+    command,
+    title: command.title,
+    breadcrumbs: command.breadcrumbs,
+    keywords: command.keywords,
+  };
+}
+
+const isVisible = (command: Command) => command.visible?.() ?? true;
+const isEnabled = (command: Command) => command.enabled?.() ?? true;
+
+/** Group commands by label, in `groupOrder` and then first-seen order. */
+function groupCommands(commands: Command[], groupOrder: string[] = []) {
+  const groups = new Map<string | undefined, CommandGroup>();
+  for (const command of commands) {
+    let group = groups.get(command.group);
+    if (!group) {
+      group = { label: command.group, items: [] };
+      groups.set(command.group, group);
+    }
+    group.items.push(toEntry(command));
+  }
+  const rank = (group: CommandGroup) => {
+    const index =
+      group.label === undefined ? -1 : groupOrder.indexOf(group.label);
+    return index === -1 ? groupOrder.length : index;
+  };
+  // Sorting is stable, so unordered groups keep their first-seen order
+  return Array.from(groups.values()).toSorted((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * CommandPaletteCommands - Command palette listing the registered commands.
+ *
+ * Commands are fuzzy-searched by title, breadcrumbs and keywords and listed
+ * by group, with recently used commands first while the query is empty.
+ * Selecting a command runs it, opens its nested `page`, or first asks for
+ * its `argument` in the input. On nested pages the breadcrumb shows the
+ * path; Backspace in the empty input or Escape goes back a step.
+ *
+ * @example
+ * ```tsx
+ * const [open, setOpen] = useState(false);
+ *
+ * useRegisterCommand({
+ *   id: "zones",
+ *   title: "Go to zone",
+ *   page: () => ({
+ *     title: "Zones",
+ *     placeholder: "Select a zone...",
+ *     commands: zones.map((zone) => ({
+ *       id: zone.id,
+ *       title: zone.name,
+ *       page: { title: zone.name, commands: zoneActions(zone) },
+ *     })),
+ *   }),
+ * }, [zones]);
+ *
+ * <CommandPaletteCommands open={open} onOpenChange={setOpen} />
+ * ```
+ */
+export function CommandPaletteCommands({
+  open,
+  onOpenChange,
+  placeholder = "Search commands...",
+  emptyMessage,
+  recentLabel = "Recent",
+  backLabel = "Back",
+  footer,
+}: CommandPaletteCommandsProps) {
+  const { store, groupOrder, recentIds, recordUse } = useCommandRegistry(
+    "CommandPaletteCommands",
+  );
+  const commands = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    store.getSnapshot,
+  );
+
+  const [query, setQuery] = useState("");
+  const [pages, setPages] = useState<{ command: Command; page: CommandPage }[]>(
+    [],
+  );
+  const [argumentCommand, setArgumentCommand] = useState<Command | null>(null);
+  const [argumentError, setArgumentError] = useState<string>();
+
+  // Start from the top-level list each time the palette opens
+  useEffect(() => {
+    if (!open) return;
+    setQuery("");
+    setPages([]);
+    setArgumentCommand(null);
+    setArgumentError(undefined);
+  }, [open]);
+
+  const currentPage = pages[pages.length - 1]?.page;
+  const listed = (currentPage ? currentPage.commands : commands).filter(
+    isVisible,
+  );
+  const groups = groupCommands(listed, groupOrder);
+  if (!currentPage && query === "") {
+    const byId = new Map(listed.map((command) => [command.id, command]));
+    const recent = recentIds.flatMap((id) => {
+      const command = byId.get(id);
+      return command ? [toEntry(command, "recent:")] : [];
+    });
+    if (recent.length > 0)
+      groups.unshift({ label: recentLabel, items: recent });
+  }
+
+  const resetInput = () => {
+    setQuery("");
+    setArgumentError(undefined);
+  };
+
+  const goBack = () => {
+    if (argumentCommand) {
+      setArgumentCommand(null);
+    } else {
+      setPages((previous) => previous.slice(0, -1));
+    }
+    resetInput();
+  };
+
+  const run = (command: Command, context: CommandRunContext) => {
+    // Nested commands count as uses of the top-level command they came from
+    recordUse(pages[0]?.command.id ?? command.id);
+    if (!command.keepOpen) onOpenChange(false);
+    void command.run?.(context);
+  };
+
+  const select = (command: Command, newTab: boolean) => {
+    if (!isEnabled(command)) return;
+    if (command.page) {
+      const page =
+        typeof command.page === "function" ? command.page() : command.page;
+      setPages((previous) => [...previous, { command, page }]);
+      resetInput();
+    } else if (command.argument) {
+      setArgumentCommand(command);
+      resetInput();
+    } else {
+      run(command, { newTab });
+    }
+  };
+
+  const depth = pages.length + (argumentCommand ? 1 : 0);
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (argumentCommand && e.key === "Enter") {
+      e.preventDefault();
+      const error = argumentCommand.argument?.validate?.(query);
+      if (error) {
+        setArgumentError(error);
+      } else {
+        run(argumentCommand, {
+          newTab: e.metaKey || e.ctrlKey,
+          argument: query,
+        });
+      }
+      return;
+    }
+    if (
+      depth > 0 &&
+      (e.key === "Escape" || (e.key === "Backspace" && query === ""))
+    ) {
+      e.preventDefault();
+      goBack();
+    }
+  };
+
+  const crumbs = [
+    ...pages.map(({ page }) => page.title),
+    ...(argumentCommand ? [argumentCommand.title] : []),
+  ];
+
+  return (
+    <CommandPalette.Dialog open={open} onOpenChange={onOpenChange}>
+      <CommandPalette.Panel
+        items={argumentCommand ? [] : groups}
+        value={query}
+        onValueChange={(value) => {
+          setQuery(value);
+          setArgumentError(undefined);
+        }}
+        itemToStringValue={(group: CommandGroup) => group.label ?? ""}
+        filter="fuzzy"
+        onSelect={(entry: CommandEntry, { newTab }) =>
+          select(entry.command, newTab)
+        }
+        getSelectableItems={(list: CommandGroup[]) =>
+          list.flatMap((group) => group.items)
+        }
+      >
+        <CommandPalette.Input
+          placeholder={
+            argumentCommand?.argument?.placeholder ??
+            currentPage?.placeholder ??
+            placeholder
+          }
+          onKeyDown={handleKeyDown}
+          leading={
+            depth > 0 ? (
+              <CommandBreadcrumbs
+                crumbs={crumbs}
+                backLabel={backLabel}
+                onBack={goBack}
+              />
+            ) : undefined
+          }
+        />
+        <CommandPalette.List>
+          {argumentCommand ? (
+            <ArgumentStep
+              description={argumentCommand.argument?.description}
+              error={argumentError}
+            />
+          ) : (
+            <>
+              <CommandPalette.Results>
+                {(group: CommandGroup) => (
+                  <CommandPalette.Group
+                    key={group.label ?? ""}
+                    items={group.items}
+                  >
+                    {group.label && (
+                      <CommandPalette.GroupLabel>
+                        {group.label}
+                      </CommandPalette.GroupLabel>
+                    )}
+                    <CommandPalette.Items>
+                      {(entry: CommandEntry) => (
+                        <CommandPalette.ResultItem
+                          key={entry.key}
+                          value={entry}
+                          title={entry.title}
+                          breadcrumbs={entry.breadcrumbs}
+                          description={entry.command.description}
+                          icon={entry.command.icon}
+                          disabled={!isEnabled(entry.command)}
+                          showArrow={Boolean(entry.command.page)}
+                          onClick={(e) =>
+                            select(entry.command, e.metaKey || e.ctrlKey)
+                          }
+                        />
+                      )}
+                    </CommandPalette.Items>
+                  </CommandPalette.Group>
+                )}
+              </CommandPalette.Results>
+              <CommandPalette.Empty>{emptyMessage}</CommandPalette.Empty>
+            </>
+          )}
+        </CommandPalette.List>
+        {footer && <CommandPalette.Footer>{footer}</CommandPalette.Footer>}
+      </CommandPalette.Panel>
+    </CommandPalette.Dialog>
+  );
+}
+
+/**
+ * CommandBreadcrumbs - Back button and path of the open pages, before the input.
+ */
+function CommandBreadcrumbs({
+  crumbs,
+  backLabel,
+  onBack,
+}: {
+  crumbs: string[];
+  backLabel: string;
+  onBack: () => void;
+}) {
+  return (
+    <div className="flex shrink-0 items-center gap-2">
+      <Button
+        variant="ghost"
+        shape="square"
+        size="sm"
+        icon={ArrowLeftIcon}
+        aria-label={backLabel}
+        onClick={onBack}
+      />
+      {crumbs.map((crumb, index) => (
+        <span
+          key={index}
+          className="flex items-center gap-2 text-base text-kumo-strong"
+        >
+          {crumb}
+          <CaretRightIcon
+            className="h-3 w-3 flex-shrink-0 text-kumo-subtle"
+            weight="bold"
+          />
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * ArgumentStep - Hint and validation error below the input while a command
+ * collects its argument.
+ */
+function ArgumentStep({
+  description,
+  error,
+}: {
+  description?: ReactNode;
+  error?: string;
+}) {
+  if (!description && !error) return null;
+  return (
+    <div className="space-y-1 px-2 py-1.5 text-sm">
+      {description && <p className="text-kumo-strong">{description}</p>}
+      <p role="alert" className="text-kumo-danger">
+        {error}
+      </p>
+    </div>
+  );
+}
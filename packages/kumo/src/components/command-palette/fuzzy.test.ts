@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { fuzzyMatch, fuzzySearch } from "./fuzzy";
+
+describe("fuzzyMatch", () => {
+  it("matches characters in order and returns their ranges", () => {
+    expect(fuzzyMatch("cfg", "Config")?.highlights).toEqual([
+      [0, 0],
+      [3, 3],
+      [5, 5],
+    ]);
+    expect(fuzzyMatch("gfc", "Config")).toBeNull();
+  });
+
+  it("ignores case and diacritics", () => {
+    expect(fuzzyMatch("CAFE", "Le Café")?.highlights).toEqual([[3, 6]]);
+    expect(fuzzyMatch("zurich", "Zürich")).not.toBeNull();
+  });
+
+  it("requires every word of the query", () => {
+    expect(fuzzyMatch("dns rec", "DNS Records")?.highlights).toEqual([
+      [0, 2],
+      [4, 6],
+    ]);
+    expect(fuzzyMatch("dns zone", "DNS Records")).toBeNull();
+  });
+
+  it("scores word starts and consecutive runs above scattered matches", () => {
+    const wordStart = fuzzyMatch("wr", "Workers Routes")!.score;
+    const scattered = fuzzyMatch("wr", "Browser")!.score;
+    expect(wordStart).toBeGreaterThan(scattered);
+    expect(fuzzyMatch("set", "Settings")!.score).toBe(1);
+  });
+});
+
+describe("fuzzySearch", () => {
+  const pages = [
+    { title: "Overview" },
+    { title: "Browser Rendering" },
+    { title: "Workers Routes" },
+    { title: "VPC", breadcrumbs: ["Compute (Workers)"] },
+    { title: "Web Analytics", keywords: ["stats", "traffic"] },
+  ];
+
+  it("ranks matches and drops items that do not match", () => {
+    expect(fuzzySearch(pages, "wr").map(({ item }) => item.title)).toEqual([
+      "Workers Routes",
+      "VPC",
+      "Browser Rendering",
+    ]);
+  });
+
+  it("matches words across the title and breadcrumbs", () => {
+    const [result] = fuzzySearch(pages, "workers vpc");
+    expect(result?.item.title).toBe("VPC");
+    expect(result?.titleHighlights).toEqual([[0, 2]]);
+    expect(result?.breadcrumbHighlights).toEqual([[[9, 15]]]);
+  });
+
+  it("finds items by keyword without highlighting the title", () => {
+    const results = fuzzySearch(pages, "traffic");
+    expect(results.map(({ item }) => item.title)).toEqual(["Web Analytics"]);
+    expect(results[0]?.titleHighlights).toEqual([]);
+    expect(results[0]?.keywordHighlights).toEqual([[], [[0, 6]]]);
+  });
+
+  it("weights fields and applies the threshold and limit", () => {
+    const items = [
+      { title: "Logs", keywords: ["analytics"] },
+      { title: "Analytics" },
+    ];
+    expect(fuzzySearch(items, "analytics")[0]?.item.title).toBe("Analytics");
+    expect(
+      fuzzySearch(items, "analytics", { weights: { keywords: 2 } })[0]?.item
+        .title,
+    ).toBe("Logs");
+    expect(fuzzySearch(pages, "wr", { threshold: 0.5 })).toHaveLength(1);
+    expect(fuzzySearch(pages, "", { limit: 2 })).toHaveLength(2);
+  });
+
+  it("reads fields with custom getters", () => {
+    const results = fuzzySearch(["alpha", "beta"], "bt", {
+      getTitle: (item) => item,
+    });
+    expect(results.map(({ item }) => item)).toEqual(["beta"]);
+  });
+});
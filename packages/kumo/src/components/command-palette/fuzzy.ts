@@ -0,0 +1,390 @@
+import type { HighlightRange } from "./types";
+
+/**
+ * Fuzzy matching for command palettes: a query matches a string when its
+ * characters appear in order, ignoring case and diacritics ("cfg" matches
+ * "Config", "cafe" matches "Café"). Matches that start words, run
+ * consecutively or start the string score higher.
+ */
+
+/** Result of matching a query against a single string */
+export interface FuzzyMatch {
+  /** Match quality from 0 to 1, where 1 is the whole string */
+  score: number;
+  /** Matched characters of the original string, ready for `HighlightedText` */
+  highlights: HighlightRange[];
+}
+
+/** Relative weight of each field when ranking items */
+export interface FuzzySearchWeights {
+  /** @default 1 */
+  title?: number;
+  /** @default 0.8 */
+  keywords?: number;
+  /** @default 0.6 */
+  breadcrumbs?: number;
+}
+
+export interface FuzzySearchOptions<T> {
+  /**
+   * Text shown as the item's title.
+   * @default item.title, then item.label, then String(item)
+   */
+  getTitle?: (item: T) => string;
+  /**
+   * Breadcrumb path parts shown before the title.
+   * @default item.breadcrumbs
+   */
+  getBreadcrumbs?: (item: T) => readonly string[] | undefined;
+  /**
+   * Extra terms the item can be found by, which are not displayed (aliases,
+   * synonyms).
+   * @default item.keywords
+   */
+  getKeywords?: (item: T) => readonly string[] | undefined;
+  /** Relative weight of each field */
+  weights?: FuzzySearchWeights;
+  /**
+   * Minimum score (0 to 1) for an item to be included.
+   * @default 0
+   */
+  threshold?: number;
+  /** Maximum number of results */
+  limit?: number;
+}
+
+/** A ranked item with highlight ranges for `CommandPalette.ResultItem` */
+export interface FuzzySearchResult<T> {
+  item: T;
+  /** Weighted score from 0 to 1, averaged over the words of the query */
+  score: number;
+  /** Pass to `ResultItem`'s `titleHighlights` */
+  titleHighlights: HighlightRange[];
+  /** Pass to `ResultItem`'s `breadcrumbHighlights` (parallel to the breadcrumbs) */
+  breadcrumbHighlights: HighlightRange[][];
+  /** Highlight ranges for each keyword (parallel to the keywords) */
+  keywordHighlights: HighlightRange[][];
+}
+
+const SCORE_MATCH = 1;
+const SCORE_CONSECUTIVE = 2;
+const SCORE_WORD_START = 3;
+const SCORE_STRING_START = 2;
+const PENALTY_GAP = 0.2;
+const PENALTY_GAP_MAX = 3;
+const PENALTY_LEADING = 0.05;
+const PENALTY_LEADING_MAX = 1;
+
+const DEFAULT_WEIGHTS: Required<FuzzySearchWeights> = {
+  title: 1,
+  keywords: 0.8,
+  breadcrumbs: 0.6,
+};
+
+/**
+ * Folded form of a string: one entry per lowercase, diacritic-free
+ * character, with the UTF-16 range it came from in the original string.
+ */
+interface FoldedText {
+  chars: string[];
+  starts: number[];
+  ends: number[];
+  wordStarts: boolean[];
+}
+
+const COMBINING_MARKS = /\p{M}/gu;
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+const UPPERCASE = /\p{Lu}/u;
+const LOWERCASE = /\p{Ll}/u;
+
+function foldText(text: string): FoldedText {
+  const folded: FoldedText = {
+    chars: [],
+    starts: [],
+    ends: [],
+    wordStarts: [],
+  };
+  let offset = 0;
+  let previous = "";
+  for (const char of text) {
+    const wordStart =
+      WORD_CHARACTER.test(char) &&
+      (!WORD_CHARACTER.test(previous) ||
+        (UPPERCASE.test(char) && LOWERCASE.test(previous)));
+    const replacement = char
+      .normalize("NFD")
+      .replace(COMBINING_MARKS, "")
+      .toLowerCase();
+    let first = true;
+    for (const foldedChar of replacement) {
+      folded.chars.push(foldedChar);
+      folded.starts.push(offset);
+      folded.ends.push(offset + char.length - 1);
+      folded.wordStarts.push(wordStart && first);
+      first = false;
+    }
+    offset += char.length;
+    previous = char;
+  }
+  return folded;
+}
+
+function foldQuery(query: string): string[][] {
+  return query
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => foldText(word).chars);
+}
+
+function scorePositions(positions: number[], target: FoldedText) {
+  let score = 0;
+  for (let i = 0; i < positions.length; i++) {
+    const position = positions[i]!;
+    const previous = positions[i - 1];
+    score += SCORE_MATCH;
+    if (previous !== undefined && position === previous + 1) {
+      score += SCORE_CONSECUTIVE;
+    } else {
+      if (target.wordStarts[position]) score += SCORE_WORD_START;
+      if (previous !== undefined) {
+        score -= Math.min(
+          (position - previous - 1) * PENALTY_GAP,
+          PENALTY_GAP_MAX,
+        );
+      }
+    }
+  }
+  const first = positions[0]!;
+  if (first === 0) score += SCORE_STRING_START;
+  score -= Math.min(first * PENALTY_LEADING, PENALTY_LEADING_MAX);
+
+  // Best case: every character consecutive from the start of the string
+  const maxScore =
+    positions.length * SCORE_MATCH +
+    (positions.length - 1) * SCORE_CONSECUTIVE +
+    SCORE_WORD_START +
+    SCORE_STRING_START;
+  return Math.min(Math.max(score / maxScore, 0), 1);
+}
+
+function toHighlights(positions: number[], target: FoldedText) {
+  const highlights: HighlightRange[] = [];
+  for (const position of positions) {
+    const start = target.starts[position]!;
+    const end = target.ends[position]!;
+    const last = highlights[highlights.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      highlights.push([start, end]);
+    }
+  }
+  return highlights;
+}
+
+/**
+ * Best match of one folded query word in a folded string. Tries every
+ * occurrence of the word's first character as a starting point and keeps
+ * the highest scoring one.
+ */
+function matchWord(word: string[], target: FoldedText) {
+  let best: { score: number; positions: number[] } | null = null;
+  for (let start = 0; start < target.chars.length; start++) {
+    if (target.chars[start] !== word[0]) continue;
+    const positions = [start];
+    let cursor = start + 1;
+    for (let i = 1; i < word.length; i++) {
+      while (cursor < target.chars.length && target.chars[cursor] !== word[i]) {
+        cursor++;
+      }
+      if (cursor === target.chars.length) return best;
+      positions.push(cursor++);
+    }
+    const score = scorePositions(positions, target);
+    if (!best || score > best.score) best = { score, positions };
+    if (score === 1) break;
+  }
+  return best;
+}
+
+/**
+ * Match a query against a single string. Every word of the query must
+ * match; the score is averaged over the words.
+ *
+ * @returns `null` when the query does not match
+ *
+ * @example
+ * ```ts
+ * fuzzyMatch("dns rec", "DNS Records");
+ * // { score: 0.9…, highlights: [[0, 2], [4, 6]] }
+ * ```
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const words = foldQuery(query);
+  if (words.length === 0) return { score: 1, highlights: [] };
+  const target = foldText(text);
+  const positions: number[] = [];
+  let total = 0;
+  for (const word of words) {
+    const match = matchWord(word, target);
+    if (!match) return null;
+    total += match.score;
+    positions.push(...match.positions);
+  }
+  positions.sort((a, b) => a - b);
+  return {
+    score: total / words.length,
+    highlights: toHighlights(positions, target),
+  };
+}
+
+const byStart = (a: HighlightRange, b: HighlightRange) => a[0] - b[0];
+
+function getField(item: unknown, key: string): unknown {
+  return typeof item === "object" && item !== null
+    ? (item as Record<string, unknown>)[key]
+    : undefined;
+}
+
+function defaultGetTitle(item: unknown) {
+  const title = getField(item, "title") ?? getField(item, "label");
+  return typeof title === "string" ? title : String(item);
+}
+
+function defaultGetList(key: string) {
+  return (item: unknown) => {
+    const value = getField(item, key);
+    return Array.isArray(value) ? (value as string[]) : undefined;
+  };
+}
+
+const defaultGetBreadcrumbs = defaultGetList("breadcrumbs");
+const defaultGetKeywords = defaultGetList("keywords");
+
+type FieldKind = "title" | "breadcrumbs" | "keywords";
+
+interface SearchField {
+  kind: FieldKind;
+  /** Position within the breadcrumbs or keywords */
+  index: number;
+  text: FoldedText;
+  weight: number;
+}
+
+/**
+ * Rank items against a query over their title, breadcrumbs and keywords.
+ * Every word of the query must match one of the fields; each word counts
+ * its best weighted match, so "workers vpc" finds "VPC" under the
+ * "Compute (Workers)" breadcrumb. Results are sorted by score, keeping the
+ * original order for ties; an empty query returns every item unranked.
+ *
+ * @example
+ * ```tsx
+ * const results = fuzzySearch(pages, query);
+ *
+ * {results.map(({ item, titleHighlights, breadcrumbHighlights }) => (
+ *   <CommandPalette.ResultItem
+ *     key={item.id}
+ *     value={item}
+ *     title={item.title}
+ *     breadcrumbs={item.breadcrumbs}
+ *     titleHighlights={titleHighlights}
+ *     breadcrumbHighlights={breadcrumbHighlights}
+ *     onClick={() => navigate(item.href)}
+ *   />
+ * ))}
+ * ```
+ */
+export function fuzzySearch<T>(
+  items: readonly T[],
+  query: string,
+  options: FuzzySearchOptions<T> = {},
+): FuzzySearchResult<T>[] {
+  const {
+    getTitle = defaultGetTitle,
+    getBreadcrumbs = defaultGetBreadcrumbs,
+    getKeywords = defaultGetKeywords,
+    threshold = 0,
+    limit,
+  } = options;
+  const weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+  const words = foldQuery(query);
+
+  const results: FuzzySearchResult<T>[] = [];
+  for (const item of items) {
+    const breadcrumbs = getBreadcrumbs(item) ?? [];
+    const keywords = getKeywords(item) ?? [];
+    const result: FuzzySearchResult<T> = {
+      item,
+      score: 1,
+      titleHighlights: [],
+      breadcrumbHighlights: breadcrumbs.map(() => []),
+      keywordHighlights: keywords.map(() => []),
+    };
+    if (words.length === 0) {
+      results.push(result);
+      continue;
+    }
+
+    const fields: SearchField[] = [
+      {
+        kind: "title",
+        index: 0,
+        text: foldText(getTitle(item)),
+        weight: weights.title,
+      },
+      ...breadcrumbs.map((crumb, index) => ({
+        kind: "breadcrumbs" as const,
+        index,
+        text: foldText(crumb),
+        weight: weights.breadcrumbs,
+      })),
+      ...keywords.map((keyword, index) => ({
+        kind: "keywords" as const,
+        index,
+        text: foldText(keyword),
+        weight: weights.keywords,
+      })),
+    ];
+
+    let total = 0;
+    let matched = true;
+    for (const word of words) {
+      let best: { score: number; positions: number[] } | null = null;
+      let bestField: SearchField | null = null;
+      for (const field of fields) {
+        const match = matchWord(word, field.text);
+        if (!match) continue;
+        const score = match.score * field.weight;
+        if (!best || score > best.score) {
+          best = { score, positions: match.positions };
+          bestField = field;
+        }
+      }
+      if (!best || !bestField) {
+        matched = false;
+        break;
+      }
+      total += best.score;
+      const highlights = toHighlights(best.positions, bestField.text);
+      if (bestField.kind === "title") {
+        result.titleHighlights.push(...highlights);
+      } else if (bestField.kind === "breadcrumbs") {
+        result.breadcrumbHighlights[bestField.index]!.push(...highlights);
+      } else {
+        result.keywordHighlights[bestField.index]!.push(...highlights);
+      }
+    }
+    if (!matched) continue;
+
+    result.titleHighlights.sort(byStart);
+    for (const ranges of result.breadcrumbHighlights) ranges.sort(byStart);
+    for (const ranges of result.keywordHighlights) ranges.sort(byStart);
+    result.score = total / words.length;
+    if (result.score >= threshold) results.push(result);
+  }
+
+  // Array#sort is stable, so ties keep their original order
+  if (words.length > 0) results.sort((a, b) => b.score - a.score);
+  return limit === undefined ? results : results.slice(0, limit);
+}
@@ -3,6 +3,19 @@ export {
   KUMO_COMMAND_PALETTE_VARIANTS,
   KUMO_COMMAND_PALETTE_DEFAULT_VARIANTS,
 } from "./command-palette";
+export {
+  CommandPaletteProvider,
+  CommandPaletteCommands,
+  useRegisterCommand,
+} from "./commands";
+export {
+  fuzzyMatch,
+  fuzzySearch,
+  type FuzzyMatch,
+  type FuzzySearchOptions,
+  type FuzzySearchResult,
+  type FuzzySearchWeights,
+} from "./fuzzy";
 export type {
   HighlightRange,
   CommandPaletteRootProps,
@@ -14,4 +27,14 @@ export type {
   CommandPaletteEmptyProps,
   CommandPaletteLoadingProps,
   CommandPaletteResultItemProps,
+  CommandPaletteSource,
+  CommandPaletteSourceGroup,
+  CommandPaletteSourceStatusProps,
+  Command,
+  CommandArgument,
+  CommandPage,
+  CommandRunContext,
+  CommandStorage,
+  CommandPaletteProviderProps,
+  CommandPaletteCommandsProps,
 } from "./types";
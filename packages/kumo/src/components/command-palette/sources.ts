@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { CommandPaletteSource, CommandPaletteSourceGroup } from "./types";
+
+/**
+ * Async search sources for command palettes: each source is searched as the
+ * query changes, after a debounce, cancelling the search of a stale query
+ * through its `AbortSignal`. Results are cached by source and query, so
+ * typing back to an earlier query shows its results at once.
+ */
+
+/** Search state of one source */
+interface SourceState<TItem> {
+  /** Query the items were found for */
+  query: string;
+  items: TItem[];
+  loading: boolean;
+  error?: unknown;
+}
+
+const DEFAULT_DEBOUNCE = 150;
+const DEFAULT_MIN_QUERY_LENGTH = 1;
+/** Cached result lists kept per palette, oldest evicted first */
+const CACHE_SIZE = 100;
+
+const IDLE: SourceState<never> = { query: "", items: [], loading: false };
+
+const cacheKey = (sourceId: string, query: string) => `${sourceId}\n${query}`;
+
+/**
+ * Search state of each source, by source id, for the current query.
+ *
+ * Sources are read from the latest render, so they can be declared inline;
+ * searches restart when the query or the source ids change. While a source
+ * searches, the results of its previous query stay listed.
+ */
+function useSourceSearch<TItem>(
+  sourcesRef: { current: CommandPaletteSource<TItem>[] | undefined },
+  sourceIds: string,
+  query: string,
+) {
+  const [states, setStates] = useState<Record<string, SourceState<TItem>>>({});
+  const cacheRef = useRef(new Map<string, TItem[]>());
+
+  useEffect(() => {
+    const cache = cacheRef.current;
+    const controllers: AbortController[] = [];
+    const timeouts: ReturnType<typeof setTimeout>[] = [];
+    const next: Record<string, SourceState<TItem>> = {};
+
+    const update = (id: string, state: SourceState<TItem>) =>
+      setStates((previous) => ({ ...previous, [id]: state }));
+
+    const search = async (source: CommandPaletteSource<TItem>) => {
+      const controller = new AbortController();
+      controllers.push(controller);
+      try {
+        const items = await source.search(query, controller.signal);
+        if (controller.signal.aborted) return;
+        if (source.cache !== false) {
+          cache.set(cacheKey(source.id, query), items);
+          if (cache.size > CACHE_SIZE) {
+            cache.delete(cache.keys().next().value!);
+          }
+        }
+        update(source.id, { query, items, loading: false });
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        update(source.id, { query, items: [], loading: false, error });
+      }
+    };
+
+    for (const source of sourcesRef.current ?? []) {
+      if (query.length < (source.minQueryLength ?? DEFAULT_MIN_QUERY_LENGTH)) {
+        next[source.id] = IDLE;
+        continue;
+      }
+      const cached =
+        source.cache === false
+          ? undefined
+          : cache.get(cacheKey(source.id, query));
+      if (cached) {
+        next[source.id] = { query, items: cached, loading: false };
+        continue;
+      }
+      next[source.id] = { query, items: [], loading: true };
+      timeouts.push(
+        setTimeout(
+          () => void search(source),
+          source.debounce ?? DEFAULT_DEBOUNCE,
+        ),
+      );
+    }
+
+    setStates((previous) => {
+      const merged: Record<string, SourceState<TItem>> = {};
+      for (const [id, state] of Object.entries(next)) {
+        // Keep the previous results listed until the new ones arrive
+        merged[id] = state.loading
+          ? { ...state, items: previous[id]?.items ?? [] }
+          : state;
+      }
+      return merged;
+    });
+
+    return () => {
+      for (const timeout of timeouts) clearTimeout(timeout);
+      for (const controller of controllers) controller.abort();
+    };
+  }, [sourcesRef, sourceIds, query]);
+
+  return states;
+}
+
+/**
+ * Search `sources` for `query` and group their results, in source order.
+ * Sources with the same `group` are merged into one group, with their items
+ * in source order.
+ *
+ * @returns the groups, and whether any source is still searching
+ */
+export function useSources<TItem>(
+  sources: CommandPaletteSource<TItem>[] | undefined,
+  query: string,
+) {
+  const sourcesRef = useRef(sources);
+  sourcesRef.current = sources;
+  const sourceIds = sources?.map((source) => source.id).join("\n") ?? "";
+  const groupKey =
+    sources
+      ?.map((source) => [source.id, source.group, source.label].join("\t"))
+      .join("\n") ?? "";
+
+  const states = useSourceSearch(sourcesRef, sourceIds, query.trim());
+
+  return useMemo(() => {
+    const groups = new Map<string, CommandPaletteSourceGroup<TItem>>();
+    for (const source of sourcesRef.current ?? []) {
+      const state = states[source.id];
+      if (!state) continue;
+      const id = source.group ?? source.id;
+      let group = groups.get(id);
+      if (!group) {
+        group = {
+          id,
+          label: source.group ?? source.label ?? source.id,
+          items: [],
+          sources: [],
+          loading: false,
+        };
+        groups.set(id, group);
+      }
+      group.items.push(...state.items);
+      group.sources.push(source.id);
+      group.loading ||= state.loading;
+      if (state.error !== undefined && group.error === undefined) {
+        group.error = state.error;
+      }
+    }
+    const list = Array.from(groups.values());
+    return { groups: list, pending: list.some((group) => group.loading) };
+    // groupKey stands in for the sources, which may be declared inline
+  }, [groupKey, states]);
+}
@@ -1,4 +1,5 @@
 import type { ReactNode } from "react";
+import type { FuzzySearchOptions } from "./fuzzy";
 
 /** A single highlight range within a string [startIndex, endIndex] (inclusive) */
 export type HighlightRange = [number, number];
@@ -28,8 +29,10 @@ export interface CommandPaletteRootProps<TGroup, TItem = TGroup> {
   /**
    * Items for the command palette. Enables keyboard navigation (arrow keys, Enter).
    * Can be a flat array or grouped items - use with Autocomplete.List render function.
+   * May be omitted when every result comes from `sources`; items listed
+   * alongside `sources` must be groups.
    */
-  items: TGroup[];
+  items?: TGroup[];
   /** Controlled input value for the search */
   value?: string;
   /** Callback when input value changes */
@@ -47,8 +50,27 @@ export interface CommandPaletteRootProps<TGroup, TItem = TGroup> {
   /**
    * Custom filter function. Return true to include item in results.
    * Defaults to showing all items (consumer handles filtering).
+   *
+   * Pass `"fuzzy"` to filter and rank items with the built-in `fuzzySearch`
+   * over their title, breadcrumbs and keywords. Items in groups (objects with
+   * an `items` array) are ranked within their group, and groups left empty
+   * are hidden. `ResultItem`s highlight the matched characters unless given
+   * their own highlights.
    */
-  filter?: (item: TGroup, query: string) => boolean;
+  filter?: ((item: TGroup, query: string) => boolean) | "fuzzy";
+  /**
+   * Fields, weights and threshold of the `"fuzzy"` filter. By default the
+   * `title` (or `label`), `breadcrumbs` and `keywords` of each item are searched.
+   */
+  fuzzyOptions?: FuzzySearchOptions<TItem>;
+  /**
+   * Async search sources, searched as the query changes. Their results are
+   * listed after `items` as `CommandPaletteSourceGroup`s, one per source or
+   * per shared `group`, and are not filtered again; with `filter="fuzzy"`
+   * they are ranked, best matches first. Render loading and error states
+   * with `CommandPalette.SourceStatus`.
+   */
+  sources?: CommandPaletteSource<TItem>[];
   /**
    * Callback when an item is selected via Cmd/Ctrl+Enter keyboard shortcut.
    * Receives the selectable item (TItem type when using getSelectableItems).
@@ -61,6 +83,82 @@ export interface CommandPaletteRootProps<TGroup, TItem = TGroup> {
    * If not provided, assumes items is a flat array of selectable items.
    */
   getSelectableItems?: (items: TGroup[]) => TItem[];
+  /**
+   * Only render the results in view, for long result lists. Render results
+   * with `renderItem` (and `renderGroupLabel`) on `CommandPalette.Results`.
+   * @default false
+   */
+  virtualized?: boolean;
+}
+
+/**
+ * Async search source of a command palette, e.g. an API search endpoint
+ */
+export interface CommandPaletteSource<TItem = unknown> {
+  /** Unique id; also the group label when neither `group` nor `label` is set */
+  id: string;
+  /** Label of the source's group */
+  label?: string;
+  /**
+   * Group label shared with other sources. Sources with the same `group`
+   * are listed, and ranked, as one group.
+   */
+  group?: string;
+  /**
+   * Search for the trimmed query. `signal` aborts when the query changes or
+   * the palette closes; pass it to `fetch` to cancel the request.
+   */
+  search: (query: string, signal: AbortSignal) => Promise<TItem[]>;
+  /**
+   * Milliseconds to wait after typing stops before searching
+   * @default 150
+   */
+  debounce?: number;
+  /**
+   * Shortest query to search for. Shorter queries list no results.
+   * @default 1
+   */
+  minQueryLength?: number;
+  /**
+   * Reuse the results of a query searched before
+   * @default true
+   */
+  cache?: boolean;
+}
+
+/**
+ * Group of source results, as listed in the command palette's items
+ */
+export interface CommandPaletteSourceGroup<TItem = unknown> {
+  /** The `group` of the sources, or the id of the single source */
+  id: string;
+  /** Label to show with `CommandPalette.GroupLabel` */
+  label: string;
+  /** Results of the group's sources, in source order */
+  items: TItem[];
+  /** Ids of the sources in the group */
+  sources: string[];
+  /** Whether a source of the group is searching; `items` are then from the previous query */
+  loading: boolean;
+  /** Error thrown by the first failed source of the group */
+  error?: unknown;
+}
+
+/**
+ * Props for the CommandPalette.SourceStatus component - loading and error
+ * rows of sources without results
+ */
+export interface CommandPaletteSourceStatusProps {
+  /**
+   * Shown next to the label of a searching group
+   * @default "Searching..."
+   */
+  loadingMessage?: ReactNode;
+  /**
+   * Shown for a failed group
+   * @default "Failed to load results"
+   */
+  errorMessage?: ReactNode | ((error: unknown) => ReactNode);
 }
 
 /**
@@ -134,9 +232,15 @@ export interface CommandPaletteResultItemProps<T = unknown> {
   title: string;
   /** Optional breadcrumb path parts displayed before the title (e.g., ["Compute (Workers)"] for "Compute (Workers) > VPC") */
   breadcrumbs?: string[];
-  /** Highlight ranges for the title, from Fuse.js match indices */
+  /**
+   * Highlight ranges for the title, e.g. from `fuzzySearch` or Fuse.js match
+   * indices. Defaults to the match of a `"fuzzy"` filter.
+   */
   titleHighlights?: HighlightRange[];
-  /** Highlight ranges for each breadcrumb, parallel array to breadcrumbs */
+  /**
+   * Highlight ranges for each breadcrumb, parallel array to breadcrumbs.
+   * Defaults to the match of a `"fuzzy"` filter.
+   */
   breadcrumbHighlights?: HighlightRange[][];
   /** Optional description displayed after the title (for non-navigation items like search tips) */
   description?: string;
@@ -152,4 +256,136 @@ export interface CommandPaletteResultItemProps<T = unknown> {
   external?: boolean;
   /** Whether this item is non-interactive (no hover/highlight) */
   nonInteractive?: boolean;
+  /** Whether the item is disabled: it stays visible but can't be selected */
+  disabled?: boolean;
+}
+
+/**
+ * Context passed to a command's `run`
+ */
+export interface CommandRunContext {
+  /** Whether the command was selected with Cmd/Ctrl held (open in a new tab) */
+  newTab: boolean;
+  /** Value entered in the command's `argument` step */
+  argument?: string;
+}
+
+/**
+ * Input step shown before a command runs, e.g. a name for "Create API token"
+ */
+export interface CommandArgument {
+  /** Placeholder of the palette input during the step */
+  placeholder?: string;
+  /** Hint shown below the input */
+  description?: ReactNode;
+  /** Return an error message to keep the step open, or undefined to run */
+  validate?: (value: string) => string | undefined;
+}
+
+/**
+ * Nested page of commands, shown in place of the current list when its
+ * command is selected (e.g. select a zone, then choose an action)
+ */
+export interface CommandPage {
+  /** Title shown in the breadcrumb while the page is open */
+  title: string;
+  /** Placeholder of the palette input on this page */
+  placeholder?: string;
+  /** Commands listed on the page */
+  commands: Command[];
+}
+
+/**
+ * A command registered with `useRegisterCommand` or listed on a `CommandPage`
+ */
+export interface Command {
+  /** Unique id; also identifies the command in the recent section */
+  id: string;
+  /** Title shown in the palette */
+  title: string;
+  /** Group label the command is listed under */
+  group?: string;
+  /** Breadcrumb path parts shown before the title */
+  breadcrumbs?: string[];
+  /** Description shown after the title */
+  description?: string;
+  /** Extra terms the command can be found by */
+  keywords?: string[];
+  /** Icon shown before the title */
+  icon?: ReactNode;
+  /** Whether the command is listed. Checked each time the palette renders. */
+  visible?: () => boolean;
+  /** Whether the command can be selected. Disabled commands stay listed. */
+  enabled?: () => boolean;
+  /** Runs the command. The palette closes unless `keepOpen` is set. */
+  run?: (context: CommandRunContext) => void | Promise<void>;
+  /** Opens a nested page of commands instead of running */
+  page?: CommandPage | (() => CommandPage);
+  /** Collects a value with the palette input before `run` */
+  argument?: CommandArgument;
+  /** Keep the palette open after running */
+  keepOpen?: boolean;
+}
+
+/**
+ * Storage for recently used commands. `localStorage` and `sessionStorage`
+ * fit, and adapters may return promises.
+ */
+export interface CommandStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+}
+
+/**
+ * Props for the CommandPaletteProvider component - registry of commands
+ */
+export interface CommandPaletteProviderProps {
+  children: ReactNode;
+  /**
+   * Group labels in display order. Other groups follow in the order their
+   * first command was registered, e.g. put a group of commands contributed
+   * by the current page first.
+   */
+  groupOrder?: string[];
+  /** Storage to persist recently used commands to, such as `localStorage` */
+  recentsStorage?: CommandStorage;
+  /** Storage key for recently used commands. Required with `recentsStorage`. */
+  recentsStorageKey?: string;
+  /**
+   * Maximum number of commands in the recent section. `0` hides it.
+   * @default 5
+   */
+  recentsLimit?: number;
+}
+
+/**
+ * Props for the CommandPaletteCommands component - palette of registered commands
+ */
+export interface CommandPaletteCommandsProps {
+  /** Whether the dialog is open */
+  open: boolean;
+  /** Callback when the open state changes */
+  onOpenChange: (open: boolean) => void;
+  /**
+   * Input placeholder on the top-level page
+   * @default "Search commands..."
+   */
+  placeholder?: string;
+  /**
+   * Content shown when no command matches
+   * @default "No results found"
+   */
+  emptyMessage?: ReactNode;
+  /**
+   * Label of the recent section, shown while the query is empty
+   * @default "Recent"
+   */
+  recentLabel?: string;
+  /**
+   * Accessible label of the back button on nested pages
+   * @default "Back"
+   */
+  backLabel?: string;
+  /** Footer content, e.g. keyboard hints */
+  footer?: ReactNode;
 }
@@ -0,0 +1,298 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { DataTable } from "./data-table";
+import {
+  aggregateRows,
+  compareValues,
+  filterRows,
+  groupRows,
+  nextSort,
+  sortRows,
+} from "./row-model";
+import type { DataTableColumn } from "./types";
+
+interface Worker {
+  id: string;
+  name: string;
+  requests: number;
+}
+
+const workers: Worker[] = [
+  { id: "a", name: "api-gateway", requests: 1200 },
+  { id: "b", name: "image-resizer", requests: 80 },
+  { id: "c", name: "auth", requests: 300 },
+];
+
+const columns: DataTableColumn<Worker>[] = [
+  { id: "name", header: "Name", sortable: true, filterable: true },
+  { id: "requests", header: "Requests", sortable: true, align: "end" },
+];
+
+/** Text of each body row, skipping the header and filter rows. */
+function bodyRows() {
+  return screen
+    .getAllByRole("row")
+    .slice(2)
+    .map((row) => row.textContent);
+}
+
+describe("row model", () => {
+  it("compares numbers, strings and empty values", () => {
+    expect(compareValues(2, 10)).toBeLessThan(0);
+    expect(compareValues("item 2", "item 10")).toBeLessThan(0);
+    expect(compareValues(null, "a")).toBeGreaterThan(0);
+  });
+
+  it("sorts by the active column and filters case-insensitively", () => {
+    const sorted = sortRows(workers, columns, {
+      columnId: "requests",
+      direction: "desc",
+    });
+    expect(sorted.map((w) => w.id)).toEqual(["a", "c", "b"]);
+    expect(filterRows(workers, columns, { name: "AU" })).toEqual([workers[2]]);
+  });
+
+  it("groups rows and aggregates column values", () => {
+    const rows = [...workers, { id: "d", name: "auth", requests: 20 }];
+    const nameColumn = columns[0]!;
+    const groups = groupRows(rows, nameColumn);
+    expect(groups.map((group) => [group.key, group.rows.length])).toEqual([
+      ["api-gateway", 1],
+      ["image-resizer", 1],
+      ["auth", 2],
+    ]);
+
+    const requests = (aggregate: DataTableColumn<Worker>["aggregate"]) =>
+      aggregateRows(rows, { ...columns[1]!, aggregate });
+    expect(requests("sum")).toBe((1600).toLocaleString());
+    expect(requests("avg")).toBe((400).toLocaleString());
+    expect(requests("min")).toBe("20");
+    expect(requests("count")).toBe("4");
+    expect(requests((group) => `${group.length} workers`)).toBe("4 workers");
+  });
+
+  it("cycles sort direction", () => {
+    expect(nextSort(null, "name")).toEqual({
+      columnId: "name",
+      direction: "asc",
+    });
+    expect(nextSort({ columnId: "name", direction: "asc" }, "name")).toEqual({
+      columnId: "name",
+      direction: "desc",
+    });
+    expect(
+      nextSort({ columnId: "name", direction: "desc" }, "name"),
+    ).toBeNull();
+  });
+});
+
+describe("DataTable", () => {
+  it("sorts from the header and sets aria-sort", () => {
+    render(<DataTable columns={columns} data={workers} />);
+    const header = screen.getByRole("columnheader", { name: "Requests" });
+    expect(header.getAttribute("aria-sort")).toBe("none");
+
+    fireEvent.click(screen.getByRole("button", { name: "Requests" }));
+    expect(header.getAttribute("aria-sort")).toBe("ascending");
+    expect(bodyRows()).toEqual([
+      "image-resizer80",
+      "auth300",
+      "api-gateway1200",
+    ]);
+
+    fireEvent.click(screen.getByRole("button", { name: "Requests" }));
+    expect(header.getAttribute("aria-sort")).toBe("descending");
+  });
+
+  it("leaves sorting to the server in manual mode", () => {
+    const onSortChange = vi.fn();
+    render(
+      <DataTable
+        columns={columns}
+        data={workers}
+        manual
+        onSortChange={onSortChange}
+      />,
+    );
+    fireEvent.click(screen.getByRole("button", { name: "Name" }));
+    expect(onSortChange).toHaveBeenCalledWith({
+      columnId: "name",
+      direction: "asc",
+    });
+    expect(bodyRows()[0]).toBe("api-gateway1200");
+  });
+
+  it("filters rows by column", () => {
+    render(<DataTable columns={columns} data={workers} />);
+    fireEvent.change(screen.getByRole("textbox", { name: "Filter Name" }), {
+      target: { value: "image" },
+    });
+    expect(bodyRows()).toEqual(["image-resizer80"]);
+  });
+
+  it("selects rows with tri-state select all", () => {
+    const onChange = vi.fn();
+    render(
+      <DataTable
+        columns={columns}
+        data={workers}
+        getRowId={(worker) => worker.id}
+        selectable
+        onSelectedRowIdsChange={onChange}
+      />,
+    );
+    const selectAll = screen.getByRole("checkbox", { name: "Select all rows" });
+    const [first] = screen.getAllByRole("checkbox", { name: "Select row" });
+
+    fireEvent.click(first!);
+    expect(onChange).toHaveBeenLastCalledWith(["a"]);
+    expect(selectAll.getAttribute("aria-checked")).toBe("mixed");
+
+    fireEvent.click(selectAll);
+    expect(onChange).toHaveBeenLastCalledWith(["a", "b", "c"]);
+    expect(selectAll.getAttribute("aria-checked")).toBe("true");
+  });
+
+  it("paginates rows with controlled page state", () => {
+    const onPageChange = vi.fn();
+    const { rerender } = render(
+      <DataTable
+        columns={columns}
+        data={workers}
+        pagination
+        perPage={2}
+        page={1}
+        onPageChange={onPageChange}
+      />,
+    );
+    expect(bodyRows()).toHaveLength(2);
+    expect(screen.getByText("Showing 1-2 of 3")).toBeTruthy();
+
+    fireEvent.click(screen.getByRole("button", { name: "Next page" }));
+    expect(onPageChange).toHaveBeenCalledWith(2);
+
+    rerender(
+      <DataTable
+        columns={columns}
+        data={workers}
+        pagination
+        perPage={2}
+        page={2}
+        onPageChange={onPageChange}
+      />,
+    );
+    expect(bodyRows()).toEqual(["auth300"]);
+  });
+
+  it("shows the empty state", () => {
+    render(<DataTable columns={columns} data={[]} empty="No workers" />);
+    expect(screen.getByRole("cell", { name: "No workers" })).toBeTruthy();
+  });
+
+  it("hides, resizes and pins columns from the column layout", () => {
+    const onColumnLayoutChange = vi.fn();
+    render(
+      <DataTable
+        columns={[
+          { id: "name", header: "Name", pinned: "left", width: 200 },
+          { id: "requests", header: "Requests", minWidth: 80 },
+        ]}
+        data={workers}
+        selectable
+        resizableColumns
+        defaultColumnLayout={{ hidden: [] }}
+        onColumnLayoutChange={onColumnLayoutChange}
+      />,
+    );
+
+    const name = screen.getByRole("columnheader", { name: /Name/ });
+    expect(name.classList.contains("sticky")).toBe(true);
+    // Offset past the sticky selection column
+    expect(name.style.left).toBe("40px");
+    expect(screen.getByRole("table").style.width).toBe("390px");
+
+    fireEvent.keyDown(
+      screen.getByRole("separator", { name: "Resize Requests" }),
+      { key: "Home" },
+    );
+    expect(onColumnLayoutChange).toHaveBeenCalledWith(
+      expect.objectContaining({ widths: { name: 200, requests: 80 } }),
+    );
+    expect(screen.getByRole("table").style.width).toBe("320px");
+  });
+
+  it("groups rows under collapsible headers with aggregates", () => {
+    render(
+      <DataTable
+        columns={[
+          { id: "name", header: "Name" },
+          { id: "plan", header: "Plan" },
+          { id: "requests", header: "Requests", aggregate: "sum" },
+        ]}
+        data={[
+          { id: "a", name: "api", plan: "Pro", requests: 10 },
+          { id: "b", name: "auth", plan: "Free", requests: 5 },
+          { id: "c", name: "cdn", plan: "Pro", requests: 20 },
+        ]}
+        getRowId={(row) => row.id}
+        groupBy="plan"
+      />,
+    );
+
+    const rows = () => screen.getAllByRole("row").slice(1);
+    expect(rows().map((row) => row.textContent)).toEqual([
+      "Pro(2)30",
+      "apiPro10",
+      "cdnPro20",
+      "Free(1)5",
+      "authFree5",
+    ]);
+    expect(rows()[1]!.getAttribute("aria-level")).toBe("2");
+
+    fireEvent.click(screen.getByRole("button", { name: "Collapse group Pro" }));
+    expect(rows().map((row) => row.textContent)).toEqual([
+      "Pro(2)30",
+      "Free(1)5",
+      "authFree5",
+    ]);
+  });
+
+  it("shows sub-rows and detail panels for expanded rows", () => {
+    const onExpandedRowIdsChange = vi.fn();
+    render(
+      <DataTable
+        columns={columns}
+        data={workers}
+        getRowId={(worker) => worker.id}
+        getSubRows={(worker) =>
+          worker.id === "a"
+            ? [
+                { id: "a2", name: "api-gateway-v2", requests: 40 },
+                { id: "a1", name: "api-gateway-v1", requests: 10 },
+              ]
+            : undefined
+        }
+        renderRowDetail={(worker) => `Details for ${worker.name}`}
+        defaultSort={{ columnId: "requests", direction: "asc" }}
+        onExpandedRowIdsChange={onExpandedRowIdsChange}
+      />,
+    );
+
+    expect(screen.getByRole("treegrid")).toBeTruthy();
+    const row = screen.getByRole("row", { name: /api-gateway 1200/ });
+    fireEvent.keyDown(row, { key: "ArrowRight" });
+    expect(onExpandedRowIdsChange).toHaveBeenCalledWith(["a"]);
+
+    // Sub-rows follow the sort; the detail panel spans every column
+    expect(bodyRows().slice(-4)).toEqual([
+      "api-gateway1200",
+      "Details for api-gateway",
+      "api-gateway-v110",
+      "api-gateway-v240",
+    ]);
+    const detail = screen.getByRole("cell", {
+      name: "Details for api-gateway",
+    });
+    expect(detail.getAttribute("colspan")).toBe("2");
+  });
+});
@@ -0,0 +1,627 @@
+import { useMemo, useState } from "react";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  CaretUpDownIcon,
+} from "@phosphor-icons/react";
+import { cn } from "../../utils";
+import { useControllableState } from "../../utils/use-controllable-state";
+import { Input } from "../input";
+import { Pagination } from "../pagination";
+import {
+  Table,
+  useTableColumnLayout,
+  useTableRowTree,
+  type TableColumnDef,
+} from "../table";
+import {
+  aggregateRows,
+  filterRows,
+  formatValue,
+  getColumnValue,
+  groupRows,
+  nextSort,
+  paginateRows,
+  sortRows,
+  type DataTableRowGroup,
+} from "./row-model";
+import type {
+  DataTableColumn,
+  DataTableFilters,
+  DataTableProps,
+  DataTableSort,
+} from "./types";
+
+/** DataTable variant definitions (no user-facing variants; structure reserved for future use). */
+export const KUMO_DATA_TABLE_VARIANTS = {} as const;
+
+export const KUMO_DATA_TABLE_DEFAULT_VARIANTS = {} as const;
+
+const DEFAULT_PER_PAGE = 25;
+
+/** Width of the selection checkbox column in pixels (`w-10`). */
+const SELECTION_COLUMN_WIDTH = 40;
+const DEFAULT_MAX_HEIGHT = 480;
+
+/** Prefix of group header row ids, which share the tree with row ids. */
+const GROUP_ID_PREFIX = "group:";
+
+const ALIGN_CLASSES = {
+  start: "text-left",
+  center: "text-center",
+  end: "text-right",
+} as const;
+
+const ARIA_SORT = { asc: "ascending", desc: "descending" } as const;
+
+/**
+ * Row id from the row's position: its index, or `parentId.index` for
+ * sub-rows. Module-level so memoized row ids survive re-renders.
+ */
+function getDefaultRowId(_row: unknown, index: number, parentId?: string) {
+  return parentId === undefined ? String(index) : `${parentId}.${index}`;
+}
+
+/** Plain-text label for a column, used in accessible names. */
+function columnLabel<TRow>(column: DataTableColumn<TRow>): string {
+  return typeof column.header === "string" ? column.header : column.id;
+}
+
+/**
+ * DataTable — `Table` driven by column definitions, with sorting, column
+ * filters, row selection and pagination.
+ *
+ * Rows are filtered, sorted and paginated on the client unless `manual` is
+ * set, in which case `data` is the current page from the server and the
+ * change callbacks drive the next request. All state can be controlled.
+ *
+ * Rows can expand to show sub-rows (tree data, optionally loaded lazily) or
+ * a detail panel, and can be grouped by a column. The table then follows
+ * the ARIA treegrid pattern: arrow keys move between rows, and expand or
+ * collapse them.
+ *
+ * @example
+ * ```tsx
+ * <DataTable
+ *   columns={[
+ *     { id: "name", header: "Name", sortable: true, filterable: true },
+ *     { id: "requests", header: "Requests", sortable: true, align: "end" },
+ *   ]}
+ *   data={workers}
+ *   getRowId={(worker) => worker.id}
+ *   selectable
+ *   pagination
+ *   pageSizeOptions={[10, 25, 50]}
+ * />
+ * ```
+ */
+export function DataTable<TRow>({
+  columns,
+  data,
+  getRowId = getDefaultRowId,
+  manual = false,
+  totalCount,
+  sort: sortProp,
+  defaultSort = null,
+  onSortChange,
+  filters: filtersProp,
+  defaultFilters = {},
+  onFiltersChange,
+  selectable = false,
+  selectedRowIds: selectedProp,
+  defaultSelectedRowIds = [],
+  onSelectedRowIdsChange,
+  isRowSelectable,
+  pagination = false,
+  page: pageProp,
+  defaultPage = 1,
+  onPageChange,
+  perPage: perPageProp,
+  defaultPerPage = DEFAULT_PER_PAGE,
+  onPerPageChange,
+  pageSizeOptions,
+  layout,
+  resizableColumns = false,
+  reorderableColumns = false,
+  columnVisibility = false,
+  columnLayout: columnLayoutProp,
+  defaultColumnLayout,
+  onColumnLayoutChange,
+  layoutStorage,
+  layoutStorageKey,
+  virtualized = false,
+  maxHeight = DEFAULT_MAX_HEIGHT,
+  getSubRows,
+  loadSubRows,
+  renderRowDetail,
+  expandedRowIds: expandedProp,
+  defaultExpandedRowIds = [],
+  onExpandedRowIdsChange,
+  groupBy,
+  empty = "No results",
+  label,
+  className,
+}: DataTableProps<TRow>) {
+  const [sort, setSort] = useControllableState<DataTableSort>(
+    sortProp,
+    defaultSort,
+    onSortChange,
+  );
+  const [filters, setFilters] = useControllableState<DataTableFilters>(
+    filtersProp,
+    defaultFilters,
+    onFiltersChange,
+  );
+  const [selectedIds, setSelectedIds] = useControllableState<string[]>(
+    selectedProp,
+    defaultSelectedRowIds,
+    onSelectedRowIdsChange,
+  );
+  const [page, setPage] = useControllableState<number>(
+    pageProp,
+    defaultPage,
+    onPageChange,
+  );
+  const [perPage, setPerPage] = useControllableState<number>(
+    perPageProp,
+    defaultPerPage,
+    onPerPageChange,
+  );
+
+  const layoutColumns = useMemo(
+    () =>
+      columns.map(
+        (column): TableColumnDef => ({
+          id: column.id,
+          width: typeof column.width === "number" ? column.width : undefined,
+          minWidth: column.minWidth,
+          maxWidth: column.maxWidth,
+          pinned: column.pinned,
+          hidden: column.hidden,
+        }),
+      ),
+    [columns],
+  );
+  const columnLayout = useTableColumnLayout(layoutColumns, {
+    layout: columnLayoutProp,
+    defaultLayout: defaultColumnLayout,
+    onLayoutChange: onColumnLayoutChange,
+    storage: layoutStorage,
+    storageKey: layoutStorageKey,
+    startOffset: selectable ? SELECTION_COLUMN_WIDTH : 0,
+  });
+  const columnsById = new Map(columns.map((column) => [column.id, column]));
+  const visibleColumns = columnLayout.visibleColumnIds.map(
+    (id) => columnsById.get(id)!,
+  );
+  // The selection column sticks along with left-pinned columns
+  const selectionPinned = visibleColumns.some(
+    (column) => columnLayout.layout.pinned[column.id] === "left",
+  );
+  const selectionCellProps = selectionPinned
+    ? { style: { left: 0 }, className: "sticky z-1 bg-kumo-base" }
+    : {};
+
+  const rowIds = useMemo(
+    () => new Map(data.map((row, index) => [row, getRowId(row, index)])),
+    [data, getRowId],
+  );
+
+  const sortedRows = useMemo(() => {
+    if (manual) return data;
+    return sortRows(filterRows(data, columns, filters), columns, sort);
+  }, [manual, data, columns, filters, sort]);
+
+  const rowCount = manual ? (totalCount ?? data.length) : sortedRows.length;
+  const maxPage = Math.max(1, Math.ceil(rowCount / perPage));
+  const currentPage = Math.min(Math.max(page, 1), maxPage);
+
+  const rows =
+    pagination && !manual
+      ? paginateRows(sortedRows, currentPage, perPage)
+      : sortedRows;
+
+  const [expandedIds, setExpandedIds] = useControllableState<string[]>(
+    expandedProp,
+    defaultExpandedRowIds,
+    onExpandedRowIdsChange,
+  );
+  // Groups start expanded, so their state is kept apart from the rows'
+  const [collapsedGroupIds, setCollapsedGroupIds] = useState<string[]>([]);
+
+  const groupColumn = groupBy ? columnsById.get(groupBy) : undefined;
+  const groups = groupColumn ? groupRows(rows, groupColumn) : [];
+  const groupIds = new Map(
+    groups.map((group) => [group, `${GROUP_ID_PREFIX}${group.key}`]),
+  );
+  const isGroup = (
+    node: TRow | DataTableRowGroup<TRow>,
+  ): node is DataTableRowGroup<TRow> =>
+    groupIds.has(node as DataTableRowGroup<TRow>);
+  const expandable =
+    groupColumn !== undefined ||
+    getSubRows !== undefined ||
+    loadSubRows !== undefined ||
+    renderRowDetail !== undefined;
+
+  const handleExpandedChange = (ids: string[]) => {
+    const currentGroupIds = [...groupIds.values()];
+    setCollapsedGroupIds([
+      ...collapsedGroupIds.filter((id) => !currentGroupIds.includes(id)),
+      ...currentGroupIds.filter((id) => !ids.includes(id)),
+    ]);
+    const rowExpandedIds = ids.filter((id) => !currentGroupIds.includes(id));
+    if (
+      rowExpandedIds.length !== expandedIds.length ||
+      rowExpandedIds.some((id, index) => id !== expandedIds[index])
+    ) {
+      setExpandedIds(rowExpandedIds);
+    }
+  };
+
+  const tree = useTableRowTree<TRow | DataTableRowGroup<TRow>>(
+    groupColumn ? groups : rows,
+    {
+      getRowId: (node, index, parentId) =>
+        isGroup(node)
+          ? groupIds.get(node)!
+          : (rowIds.get(node) ?? getRowId(node, index, parentId ?? undefined)),
+      getSubRows: (node) => {
+        if (isGroup(node)) return node.rows;
+        const subRows = getSubRows?.(node);
+        return subRows && !manual ? sortRows(subRows, columns, sort) : subRows;
+      },
+      // Groups always have their rows, so only rows are loaded
+      loadSubRows: loadSubRows && ((node) => loadSubRows(node as TRow)),
+      isRowExpandable: renderRowDetail ? () => true : undefined,
+      expandedRowIds: [
+        ...expandedIds,
+        ...[...groupIds.values()].filter(
+          (id) => !collapsedGroupIds.includes(id),
+        ),
+      ],
+      onExpandedRowIdsChange: handleExpandedChange,
+    },
+  );
+  const dataRows = tree.rows.filter((treeRow) => !isGroup(treeRow.row));
+
+  const selected = new Set(selectedIds);
+  const selectableIds = dataRows
+    .filter((treeRow) => isRowSelectable?.(treeRow.row as TRow) ?? true)
+    .map((treeRow) => treeRow.id);
+  const selectedCount = selectableIds.filter((id) => selected.has(id)).length;
+  const allSelected =
+    selectableIds.length > 0 && selectedCount === selectableIds.length;
+
+  const handleFilterChange = (columnId: string, value: string) => {
+    setFilters({ ...filters, [columnId]: value });
+    // The current page may no longer exist in the filtered rows
+    if (pagination && currentPage !== 1) setPage(1);
+  };
+
+  const handlePerPageChange = (size: number) => {
+    setPerPage(size);
+    if (currentPage !== 1) setPage(1);
+  };
+
+  // Select or clear the visible rows, keeping the selection on other pages
+  const handleSelectAll = (checked: boolean) => {
+    const next = new Set(selected);
+    for (const id of selectableIds) {
+      if (checked) next.add(id);
+      else next.delete(id);
+    }
+    setSelectedIds([...next]);
+  };
+
+  const handleSelectRow = (id: string, checked: boolean) => {
+    setSelectedIds(
+      checked
+        ? [...selectedIds, id]
+        : selectedIds.filter((selectedId) => selectedId !== id),
+    );
+  };
+
+  const hasFilters = visibleColumns.some((column) => column.filterable);
+  const columnCount = visibleColumns.length + (selectable ? 1 : 0);
+  const tableProps = resizableColumns
+    ? columnLayout.getTableProps()
+    : { layout };
+
+  return (
+    <div
+      data-slot="data-table"
+      className={cn("flex w-full flex-col gap-3", className)}
+    >
+      {columnVisibility && (
+        <div className="flex justify-end">
+          <Table.ColumnVisibilityMenu
+            columns={columns.map((column) => ({
+              id: column.id,
+              label: column.header,
+              disabled: column.hideable === false,
+            }))}
+            hidden={columnLayout.layout.hidden}
+            onHiddenChange={(hidden) =>
+              columnLayout.setLayout({ ...columnLayout.layout, hidden })
+            }
+          />
+        </div>
+      )}
+      <div
+        className={cn(
+          "w-full",
+          virtualized ? "overflow-auto" : "overflow-x-auto",
+        )}
+        style={virtualized ? { maxHeight } : undefined}
+        {...columnLayout.getScrollContainerProps()}
+      >
+        <Table
+          {...tableProps}
+          {...(expandable && tree.getTableProps())}
+          aria-label={label}
+        >
+          <colgroup>
+            {selectable && <col style={{ width: SELECTION_COLUMN_WIDTH }} />}
+            {visibleColumns.map((column) => (
+              <col
+                key={column.id}
+                style={{
+                  width: resizableColumns
+                    ? columnLayout.layout.widths[column.id]
+                    : column.width,
+                }}
+              />
+            ))}
+          </colgroup>
+          <Table.Header className={cn(virtualized && "sticky top-0 z-2")}>
+            <Table.Row>
+              {selectable && (
+                <Table.CheckHead
+                  {...selectionCellProps}
+                  checked={allSelected}
+                  indeterminate={selectedCount > 0 && !allSelected}
+                  disabled={selectableIds.length === 0}
+                  onValueChange={handleSelectAll}
+                />
+              )}
+              {visibleColumns.map((column) => {
+                const headProps = columnLayout.getHeadProps(column.id, {
+                  reorderable: reorderableColumns,
+                });
+                const direction =
+                  sort?.columnId === column.id ? sort.direction : undefined;
+                const SortIcon =
+                  direction === "asc"
+                    ? ArrowUpIcon
+                    : direction === "desc"
+                      ? ArrowDownIcon
+                      : CaretUpDownIcon;
+
+                return (
+                  <Table.Head
+                    key={column.id}
+                    {...headProps}
+                    aria-sort={
+                      column.sortable
+                        ? direction
+                          ? ARIA_SORT[direction]
+                          : "none"
+                        : undefined
+                    }
+                    className={cn(
+                      headProps.className,
+                      ALIGN_CLASSES[column.align ?? "start"],
+                    )}
+                  >
+                    {column.sortable ? (
+                      <button
+                        type="button"
+                        onClick={() => setSort(nextSort(sort, column.id))}
+                        className={cn(
+                          "inline-flex cursor-pointer items-center gap-1 font-semibold",
+                          "rounded-sm outline-none focus-visible:ring-2 focus-visible:ring-kumo-ring",
+                        )}
+                      >
+                        {column.header}
+                        <SortIcon
+                          size={14}
+                          aria-hidden
+                          className={
+                            direction ? "text-kumo-default" : "text-kumo-subtle"
+                          }
+                        />
+                      </button>
+                    ) : (
+                      column.header
+                    )}
+                    {resizableColumns && (
+                      <Table.ResizeHandle
+                        {...columnLayout.getResizeHandleProps(column.id)}
+                        aria-label={`Resize ${columnLabel(column)}`}
+                      />
+                    )}
+                  </Table.Head>
+                );
+              })}
+            </Table.Row>
+            {hasFilters && (
+              <Table.Row data-slot="data-table-filters">
+                {selectable && <Table.Head {...selectionCellProps} />}
+                {visibleColumns.map((column) => {
+                  const cellProps = columnLayout.getCellProps(column.id);
+                  return (
+                    <Table.Head
+                      key={column.id}
+                      {...cellProps}
+                      className={cn(cellProps.className, "font-normal")}
+                    >
+                      {column.filterable && (
+                        <Input
+                          size="sm"
+                          className="w-full"
+                          aria-label={`Filter ${columnLabel(column)}`}
+                          placeholder={column.filterPlaceholder ?? "Filter"}
+                          value={filters[column.id] ?? ""}
+                          onValueChange={(value: string) =>
+                            handleFilterChange(column.id, value)
+                          }
+                        />
+                      )}
+                    </Table.Head>
+                  );
+                })}
+              </Table.Row>
+            )}
+          </Table.Header>
+          <Table.Body virtualized={virtualized && rows.length > 0}>
+            {rows.length === 0 ? (
+              <Table.Row>
+                <Table.Cell
+                  colSpan={columnCount}
+                  className="text-center text-kumo-subtle"
+                >
+                  {empty}
+                </Table.Cell>
+              </Table.Row>
+            ) : (
+              tree.rows.map((treeRow) => {
+                const { id, row: node } = treeRow;
+                const rowProps = expandable ? tree.getRowProps(treeRow) : {};
+                const expandCellProps = tree.getExpandCellProps(treeRow);
+
+                if (isGroup(node)) {
+                  return (
+                    <Table.GroupRow key={id} {...rowProps}>
+                      {selectable && <Table.Cell {...selectionCellProps} />}
+                      {visibleColumns.map((column, index) => {
+                        const cellProps = columnLayout.getCellProps(column.id);
+                        if (index === 0) {
+                          return (
+                            <Table.ExpandCell
+                              key={column.id}
+                              {...cellProps}
+                              {...expandCellProps}
+                              label={`${treeRow.expanded ? "Collapse" : "Expand"} group ${node.key}`}
+                            >
+                              {groupColumn!.cell
+                                ? groupColumn!.cell(node.rows[0]!, node.value)
+                                : node.key}
+                              <span className="font-normal text-kumo-subtle">
+                                ({node.rows.length})
+                              </span>
+                            </Table.ExpandCell>
+                          );
+                        }
+                        return (
+                          <Table.Cell
+                            key={column.id}
+                            {...cellProps}
+                            className={cn(
+                              cellProps.className,
+                              ALIGN_CLASSES[column.align ?? "start"],
+                            )}
+                          >
+                            {aggregateRows(node.rows, column)}
+                          </Table.Cell>
+                        );
+                      })}
+                    </Table.GroupRow>
+                  );
+                }
+
+                const row = node;
+                const isSelected = selected.has(id);
+
+                const rowElement = (
+                  <Table.Row
+                    key={id}
+                    {...rowProps}
+                    variant={isSelected ? "selected" : "default"}
+                  >
+                    {selectable && (
+                      <Table.CheckCell
+                        {...selectionCellProps}
+                        checked={isSelected}
+                        disabled={!(isRowSelectable?.(row) ?? true)}
+                        onValueChange={(checked) =>
+                          handleSelectRow(id, checked)
+                        }
+                      />
+                    )}
+                    {visibleColumns.map((column, index) => {
+                      const value = getColumnValue(row, column);
+                      const cellProps = columnLayout.getCellProps(column.id);
+                      const className = cn(
+                        cellProps.className,
+                        ALIGN_CLASSES[column.align ?? "start"],
+                      );
+                      const content = column.cell
+                        ? column.cell(row, value)
+                        : formatValue(value);
+
+                      // The first column holds the disclosure button
+                      return expandable && index === 0 ? (
+                        <Table.ExpandCell
+                          key={column.id}
+                          {...cellProps}
+                          {...expandCellProps}
+                          className={className}
+                        >
+                          {content}
+                        </Table.ExpandCell>
+                      ) : (
+                        <Table.Cell
+                          key={column.id}
+                          {...cellProps}
+                          className={className}
+                        >
+                          {content}
+                        </Table.Cell>
+                      );
+                    })}
+                  </Table.Row>
+                );
+                // Flat siblings rather than a fragment, so virtualized bodies see rows
+                return renderRowDetail && treeRow.expanded
+                  ? [
+                      rowElement,
+                      <Table.DetailRow
+                        key={`${id}:detail`}
+                        colSpan={columnCount}
+                      >
+                        {renderRowDetail(row)}
+                      </Table.DetailRow>,
+                    ]
+                  : rowElement;
+              })
+            )}
+          </Table.Body>
+        </Table>
+      </div>
+      {pagination && (
+        <Pagination
+          page={currentPage}
+          setPage={setPage}
+          perPage={perPage}
+          totalCount={rowCount}
+        >
+          <Pagination.Info />
+          {pageSizeOptions && (
+            <>
+              <Pagination.Separator />
+              <Pagination.PageSize
+                value={perPage}
+                onChange={handlePerPageChange}
+                options={pageSizeOptions}
+              />
+            </>
+          )}
+          <Pagination.Controls />
+        </Pagination>
+      )}
+    </div>
+  );
+}
+
+DataTable.displayName = "DataTable";
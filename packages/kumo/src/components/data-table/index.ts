@@ -0,0 +1,13 @@
+export {
+  DataTable,
+  KUMO_DATA_TABLE_VARIANTS,
+  KUMO_DATA_TABLE_DEFAULT_VARIANTS,
+} from "./data-table";
+export type {
+  DataTableAggregate,
+  DataTableColumn,
+  DataTableFilters,
+  DataTableProps,
+  DataTableSort,
+  DataTableSortDirection,
+} from "./types";
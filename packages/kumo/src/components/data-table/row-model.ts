@@ -0,0 +1,161 @@
+/**
+ * Client-side row model for DataTable: reading column values, filtering,
+ * sorting, pagination, grouping and aggregates. Pure functions, shared by
+ * the component and tests.
+ */
+
+import type { ReactNode } from "react";
+import type { DataTableColumn, DataTableFilters, DataTableSort } from "./types";
+
+/** Read a column's value from a row. */
+export function getColumnValue<TRow>(
+  row: TRow,
+  column: DataTableColumn<TRow>,
+): unknown {
+  const { accessor = column.id as keyof TRow } = column;
+  return typeof accessor === "function"
+    ? accessor(row)
+    : (row as Record<keyof TRow, unknown>)[accessor];
+}
+
+/** Text for a column value, as rendered in cells and matched by filters. */
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toLocaleDateString();
+  return String(value as string | number | boolean);
+}
+
+/**
+ * Compare two values in ascending order. Numbers and dates compare
+ * numerically, everything else as locale-aware strings. Empty values sort
+ * after all others.
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const aEmpty = a === null || a === undefined || a === "";
+  const bEmpty = b === null || b === undefined || b === "";
+  if (aEmpty || bEmpty) return Number(aEmpty) - Number(bEmpty);
+
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  return formatValue(a).localeCompare(formatValue(b), undefined, {
+    numeric: true,
+  });
+}
+
+/** Keep rows matching every non-empty column filter. */
+export function filterRows<TRow>(
+  rows: TRow[],
+  columns: DataTableColumn<TRow>[],
+  filters: DataTableFilters,
+): TRow[] {
+  const active = columns.filter((column) => filters[column.id]?.trim());
+  if (active.length === 0) return rows;
+
+  return rows.filter((row) =>
+    active.every((column) => {
+      const filter = filters[column.id]!.trim();
+      if (column.filterFn) return column.filterFn(row, filter);
+      return formatValue(getColumnValue(row, column))
+        .toLowerCase()
+        .includes(filter.toLowerCase());
+    }),
+  );
+}
+
+/** Sort rows by the active column. Returns `rows` unchanged when unsorted. */
+export function sortRows<TRow>(
+  rows: TRow[],
+  columns: DataTableColumn<TRow>[],
+  sort: DataTableSort,
+): TRow[] {
+  const column = sort && columns.find((c) => c.id === sort.columnId);
+  if (!sort || !column) return rows;
+
+  const compare =
+    column.sortFn ??
+    ((a: TRow, b: TRow) =>
+      compareValues(getColumnValue(a, column), getColumnValue(b, column)));
+  const sign = sort.direction === "asc" ? 1 : -1;
+
+  // Sorting is stable, so equal rows keep their order
+  return rows.toSorted((a, b) => sign * compare(a, b));
+}
+
+/** Rows on a 1-indexed page. */
+export function paginateRows<TRow>(
+  rows: TRow[],
+  page: number,
+  perPage: number,
+): TRow[] {
+  const start = (page - 1) * perPage;
+  return rows.slice(start, start + perPage);
+}
+
+/**
+ * Next sort after clicking a column header: ascending, descending,
+ * then unsorted. Another column starts at ascending.
+ */
+export function nextSort(sort: DataTableSort, columnId: string): DataTableSort {
+  if (sort?.columnId !== columnId) return { columnId, direction: "asc" };
+  return sort.direction === "asc" ? { columnId, direction: "desc" } : null;
+}
+
+/** Rows sharing a value of the grouping column. */
+export interface DataTableRowGroup<TRow> {
+  /** The value as text, which identifies the group */
+  key: string;
+  /** The value of the first row in the group */
+  value: unknown;
+  rows: TRow[];
+}
+
+/** Group rows by a column's value, in order of each group's first row. */
+export function groupRows<TRow>(
+  rows: TRow[],
+  column: DataTableColumn<TRow>,
+): DataTableRowGroup<TRow>[] {
+  const groups = new Map<string, DataTableRowGroup<TRow>>();
+  for (const row of rows) {
+    const value = getColumnValue(row, column);
+    const key = formatValue(value);
+    const group = groups.get(key);
+    if (group) group.rows.push(row);
+    else groups.set(key, { key, value, rows: [row] });
+  }
+  return [...groups.values()];
+}
+
+/**
+ * A column's `aggregate` over some rows. Sums and averages skip
+ * non-numeric values; minimums and maximums skip empty ones.
+ */
+export function aggregateRows<TRow>(
+  rows: TRow[],
+  column: DataTableColumn<TRow>,
+): ReactNode {
+  const { aggregate } = column;
+  if (!aggregate) return null;
+  if (typeof aggregate === "function") return aggregate(rows);
+  if (aggregate === "count") return rows.length.toLocaleString();
+
+  const values = rows.map((row) => getColumnValue(row, column));
+  if (aggregate === "sum" || aggregate === "avg") {
+    const numbers = values.filter(
+      (value): value is number => typeof value === "number",
+    );
+    if (numbers.length === 0) return null;
+    const sum = numbers.reduce((total, value) => total + value, 0);
+    const result = aggregate === "sum" ? sum : sum / numbers.length;
+    return result.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+
+  const sorted = values
+    .filter((value) => value !== null && value !== undefined && value !== "")
+    .toSorted(compareValues);
+  const result = aggregate === "min" ? sorted[0] : sorted[sorted.length - 1];
+  return typeof result === "number"
+    ? result.toLocaleString()
+    : formatValue(result);
+}
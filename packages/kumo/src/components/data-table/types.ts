@@ -0,0 +1,242 @@
+import type { ReactNode } from "react";
+import type {
+  KumoTableLayout,
+  TableColumnLayout,
+  TableColumnPin,
+  TableLayoutStorage,
+} from "../table";
+
+/** Sort direction of a column. */
+export type DataTableSortDirection = "asc" | "desc";
+
+/** Active sort: the column and its direction. `null` means unsorted. */
+export type DataTableSort = {
+  columnId: string;
+  direction: DataTableSortDirection;
+} | null;
+
+/** Column filter values keyed by column id. Empty values are ignored. */
+export type DataTableFilters = Record<string, string>;
+
+/**
+ * Summary of a column's values shown in group header rows: a built-in
+ * aggregate, or a function of the group's rows.
+ */
+export type DataTableAggregate<TRow> =
+  | "count"
+  | "sum"
+  | "avg"
+  | "min"
+  | "max"
+  | ((rows: TRow[]) => ReactNode);
+
+/**
+ * Column definition for DataTable.
+ *
+ * @template TRow - The type of rows in `data`
+ */
+export interface DataTableColumn<TRow> {
+  /** Unique column id, used for sort and filter state */
+  id: string;
+  /** Header content */
+  header: ReactNode;
+  /**
+   * How to read the column value from a row: a property key or a function.
+   * Defaults to the property named by `id`.
+   */
+  accessor?: keyof TRow | ((row: TRow) => unknown);
+  /** Custom cell renderer. Defaults to the value as text. */
+  cell?: (row: TRow, value: unknown) => ReactNode;
+  /** Whether the header toggles sorting by this column */
+  sortable?: boolean;
+  /**
+   * Compare two rows for client-side sorting (ascending order).
+   * Defaults to comparing values as numbers, dates or strings.
+   */
+  sortFn?: (a: TRow, b: TRow) => number;
+  /** Whether a filter input is shown under the header */
+  filterable?: boolean;
+  /**
+   * Return true to keep a row for the given filter value during client-side filtering.
+   * Defaults to a case-insensitive substring match on the value.
+   */
+  filterFn?: (row: TRow, filter: string) => boolean;
+  /** Placeholder for the filter input. Defaults to "Filter". */
+  filterPlaceholder?: string;
+  /**
+   * Column width, applied to the `<col>` element. With `resizableColumns`,
+   * the initial width in pixels (strings fall back to 150).
+   */
+  width?: number | string;
+  /** Minimum width in pixels when resizing. Defaults to 48. */
+  minWidth?: number;
+  /** Maximum width in pixels when resizing */
+  maxWidth?: number;
+  /** Initially pin the column to the left or right edge while scrolling */
+  pinned?: TableColumnPin;
+  /** Initially hide the column */
+  hidden?: boolean;
+  /**
+   * Whether the column can be hidden from the column visibility menu.
+   * @default true
+   */
+  hideable?: boolean;
+  /** Text alignment of the header and cells */
+  align?: "start" | "center" | "end";
+  /** Aggregate of the column's values, shown in group header rows with `groupBy` */
+  aggregate?: DataTableAggregate<TRow>;
+}
+
+/**
+ * Props for the DataTable component.
+ *
+ * Every piece of state (sort, filters, selection, page and page size) can be
+ * controlled with the value prop and its change callback, or left to
+ * DataTable with the matching `default*` prop.
+ *
+ * @template TRow - The type of rows in `data`
+ */
+export interface DataTableProps<TRow> {
+  /** Column definitions */
+  columns: DataTableColumn<TRow>[];
+  /** Rows to display */
+  data: TRow[];
+  /**
+   * Stable id for a row, used for selection, expansion and React keys.
+   * Defaults to the row's index in `data`. Sub-rows get their index among
+   * their siblings and their parent's id, and default to `"<parentId>.<index>"`.
+   */
+  getRowId?: (row: TRow, index: number, parentId?: string) => string;
+  /**
+   * Server-side mode: `data` is already sorted, filtered and paginated,
+   * so DataTable only reports state changes. Set `totalCount` for pagination.
+   * @default false
+   */
+  manual?: boolean;
+  /** Total number of rows across all pages in manual mode */
+  totalCount?: number;
+  /** Controlled sort */
+  sort?: DataTableSort;
+  /** Initial sort when uncontrolled */
+  defaultSort?: DataTableSort;
+  /** Callback when a sortable header is clicked (ascending, descending, then unsorted) */
+  onSortChange?: (sort: DataTableSort) => void;
+  /** Controlled column filters */
+  filters?: DataTableFilters;
+  /** Initial column filters when uncontrolled */
+  defaultFilters?: DataTableFilters;
+  /** Callback when a column filter changes */
+  onFiltersChange?: (filters: DataTableFilters) => void;
+  /**
+   * Show a checkbox column for row selection.
+   * @default false
+   */
+  selectable?: boolean;
+  /** Controlled selected row ids */
+  selectedRowIds?: string[];
+  /** Initial selected row ids when uncontrolled */
+  defaultSelectedRowIds?: string[];
+  /** Callback when the selection changes */
+  onSelectedRowIdsChange?: (ids: string[]) => void;
+  /** Return false to disable selection for a row */
+  isRowSelectable?: (row: TRow) => boolean;
+  /**
+   * Paginate rows and show `Pagination` controls below the table.
+   * @default false
+   */
+  pagination?: boolean;
+  /** Controlled current page (1-indexed) */
+  page?: number;
+  /**
+   * Initial page when uncontrolled.
+   * @default 1
+   */
+  defaultPage?: number;
+  /** Callback when the page changes */
+  onPageChange?: (page: number) => void;
+  /** Controlled page size */
+  perPage?: number;
+  /**
+   * Initial page size when uncontrolled.
+   * @default 25
+   */
+  defaultPerPage?: number;
+  /** Callback when the page size changes */
+  onPerPageChange?: (perPage: number) => void;
+  /** Page size options. Shows a page size selector when set. */
+  pageSizeOptions?: number[];
+  /**
+   * Table layout algorithm, passed to `Table`. Resizable columns always use
+   * the fixed layout.
+   * @default "auto"
+   */
+  layout?: KumoTableLayout;
+  /**
+   * Show resize handles on headers (drag, or arrow keys when focused).
+   * @default false
+   */
+  resizableColumns?: boolean;
+  /**
+   * Let headers be dragged onto each other, or moved with Alt+Arrow keys,
+   * to reorder columns.
+   * @default false
+   */
+  reorderableColumns?: boolean;
+  /**
+   * Show a column visibility menu above the table.
+   * @default false
+   */
+  columnVisibility?: boolean;
+  /** Controlled column layout (widths, order, hidden and pinned columns) */
+  columnLayout?: TableColumnLayout;
+  /** Initial column layout when uncontrolled. Defaults to the column definitions. */
+  defaultColumnLayout?: Partial<TableColumnLayout>;
+  /** Callback when columns are resized, reordered, hidden or pinned */
+  onColumnLayoutChange?: (layout: TableColumnLayout) => void;
+  /** Storage to persist the column layout to, such as `localStorage` */
+  layoutStorage?: TableLayoutStorage;
+  /** Storage key for the column layout. Required with `layoutStorage`. */
+  layoutStorageKey?: string;
+  /**
+   * Only render the rows in view, for large unpaginated data sets. The table
+   * scrolls within `maxHeight` and the header stays visible.
+   * @default false
+   */
+  virtualized?: boolean;
+  /**
+   * Maximum height in pixels of the scrolling table when `virtualized`.
+   * @default 480
+   */
+  maxHeight?: number;
+  /**
+   * Children of a row, shown indented under it when it is expanded. Sub-rows
+   * are sorted along with their parents but not filtered or paginated;
+   * rows from `loadSubRows` keep the order they are loaded in.
+   */
+  getSubRows?: (row: TRow) => TRow[] | undefined;
+  /**
+   * Load the children of a row when it is first expanded, for rows where
+   * `getSubRows` returns `undefined`. A rejected load collapses the row.
+   */
+  loadSubRows?: (row: TRow) => Promise<TRow[]>;
+  /** Detail panel shown under a row when it is expanded, spanning all columns */
+  renderRowDetail?: (row: TRow) => ReactNode;
+  /** Controlled expanded row ids */
+  expandedRowIds?: string[];
+  /** Initial expanded row ids when uncontrolled */
+  defaultExpandedRowIds?: string[];
+  /** Callback when rows are expanded or collapsed */
+  onExpandedRowIdsChange?: (ids: string[]) => void;
+  /**
+   * Group rows by a column's value, under collapsible header rows that show
+   * the group's row count and the columns' `aggregate`. Groups start
+   * expanded and are formed on each page when paginated.
+   */
+  groupBy?: string;
+  /** Content shown when there are no rows. Defaults to "No results". */
+  empty?: ReactNode;
+  /** Accessible label for the table */
+  label?: string;
+  /** Additional CSS classes for the container */
+  className?: string;
+}
@@ -0,0 +1,233 @@
+import { CalendarDotsIcon } from "@phosphor-icons/react";
+import { useState, type KeyboardEvent, type ReactNode } from "react";
+import { useControllableState } from "../../utils/use-controllable-state";
+import { Field } from "../field/field";
+import { InputGroup } from "../input";
+import { Popover } from "../popover";
+import { DatePicker } from "./date-picker";
+import {
+  formatDateTime,
+  getDateTimePlaceholder,
+  parseDateTime,
+  type HourCycle,
+} from "./date-time";
+
+/**
+ * DateInput component props.
+ *
+ * @example
+ * ```tsx
+ * <DateInput label="Start" value={start} onChange={setStart} showTime />
+ * ```
+ */
+export interface DateInputProps {
+  /** Selected date. `null` for none. Pass with `onChange` to control the input. */
+  value?: Date | null;
+  /**
+   * Initially selected date when uncontrolled.
+   * @default null
+   */
+  defaultValue?: Date | null;
+  /** Called with a typed or picked date, or `null` when the input is cleared. */
+  onChange?: (date: Date | null) => void;
+  /** Label content for the input (enables Field wrapper) - can be a string or any React node */
+  label?: ReactNode;
+  /** Helper text displayed below the input */
+  description?: ReactNode;
+  /** Error message, shown instead of the invalid date message */
+  error?: string;
+  /**
+   * Message shown when the typed text is not a date between `minDateTime`
+   * and `maxDateTime`.
+   * @default "Enter a valid date"
+   */
+  invalidMessage?: string;
+  /** Accessible name when there is no visible `label`. */
+  "aria-label"?: string;
+  /** Placeholder text. Defaults to the expected format, e.g. `MM/DD/YYYY`. */
+  placeholder?: string;
+  /**
+   * Input size.
+   * @default "base"
+   */
+  size?: "xs" | "sm" | "base" | "lg";
+  /** Whether the input is disabled. */
+  disabled?: boolean;
+  /** Additional CSS classes merged via `cn()`. */
+  className?: string;
+  /**
+   * BCP 47 locale setting the order of typed and shown date fields.
+   * Defaults to the user's locale.
+   */
+  locale?: string;
+  /** IANA time zone the date is typed, shown and emitted in, e.g. `"UTC"`. */
+  timeZone?: string;
+  /**
+   * Include a time of day.
+   * @default false
+   */
+  showTime?: boolean;
+  /**
+   * Show times with 12 hours and AM/PM, or with 24 hours.
+   * @default 24
+   */
+  hourCycle?: HourCycle;
+  /**
+   * Minutes between the times of the calendar's time input.
+   * @default 1
+   */
+  minuteStep?: number;
+  /** Earliest accepted date and time. */
+  minDateTime?: Date;
+  /** Latest accepted date and time. */
+  maxDateTime?: Date;
+}
+
+/**
+ * DateInput — a text input for dates, with a calendar in a popover.
+ *
+ * Typed dates are parsed when committed with Enter or on blur, with the
+ * fields in the order of `locale` or as `YYYY-MM-DD`, and with an optional
+ * time in either hour cycle. Text that is not a valid date is kept and
+ * flagged instead of changing the value.
+ *
+ * @example
+ * ```tsx
+ * const [date, setDate] = useState<Date | null>(null);
+ * <DateInput label="Deploy at" value={date} onChange={setDate} showTime timeZone="UTC" />
+ * ```
+ */
+export function DateInput({
+  value: valueProp,
+  defaultValue = null,
+  onChange,
+  label,
+  description,
+  error,
+  invalidMessage = "Enter a valid date",
+  "aria-label": ariaLabel,
+  placeholder,
+  size = "base",
+  disabled,
+  className,
+  locale,
+  timeZone,
+  showTime = false,
+  hourCycle = 24,
+  minuteStep = 1,
+  minDateTime,
+  maxDateTime,
+}: DateInputProps) {
+  const [value, setValue] = useControllableState(
+    valueProp,
+    defaultValue,
+    onChange,
+  );
+  const [open, setOpen] = useState(false);
+  // Text being typed, until committed
+  const [draft, setDraft] = useState<string>();
+  const [invalid, setInvalid] = useState(false);
+
+  const formatOptions = { locale, timeZone, showTime, hourCycle };
+  const text = draft ?? (value ? formatDateTime(value, formatOptions) : "");
+
+  const commit = () => {
+    if (draft === undefined) return;
+    if (draft.trim() === "") {
+      setDraft(undefined);
+      setInvalid(false);
+      setValue(null);
+      return;
+    }
+    const date = parseDateTime(draft, { locale, timeZone });
+    if (
+      !date ||
+      (minDateTime && date < minDateTime) ||
+      (maxDateTime && date > maxDateTime)
+    ) {
+      setInvalid(true);
+      return;
+    }
+    setDraft(undefined);
+    setInvalid(false);
+    setValue(date);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      commit();
+    } else if (event.key === "ArrowDown" && event.altKey) {
+      event.preventDefault();
+      setOpen(true);
+    }
+  };
+
+  const errorMessage = error ?? (invalid ? invalidMessage : undefined);
+
+  const input = (
+    <InputGroup size={size} className={className}>
+      <InputGroup.Input
+        value={text}
+        placeholder={
+          placeholder ?? getDateTimePlaceholder({ locale, showTime, hourCycle })
+        }
+        aria-label={
+          ariaLabel ?? (typeof label === "string" ? label : undefined)
+        }
+        aria-invalid={!!errorMessage || undefined}
+        disabled={disabled}
+        onChange={(event) => {
+          setDraft(event.currentTarget.value);
+          setInvalid(false);
+        }}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+      />
+      <Popover open={open} onOpenChange={setOpen}>
+        <Popover.Trigger asChild>
+          <InputGroup.Button
+            variant="ghost"
+            shape="square"
+            icon={CalendarDotsIcon}
+            aria-label="Choose date"
+            disabled={disabled}
+          />
+        </Popover.Trigger>
+        <Popover.Content align="end" className="p-3">
+          <DatePicker
+            mode="single"
+            selected={value ?? undefined}
+            defaultMonth={value ?? undefined}
+            onChange={(date) => {
+              setDraft(undefined);
+              setInvalid(false);
+              setValue(date ?? null);
+              if (!showTime) setOpen(false);
+            }}
+            timeZone={timeZone}
+            showTime={showTime}
+            hourCycle={hourCycle}
+            minuteStep={minuteStep}
+            minDateTime={minDateTime}
+            maxDateTime={maxDateTime}
+          />
+        </Popover.Content>
+      </Popover>
+    </InputGroup>
+  );
+
+  if (!label) return input;
+
+  return (
+    <Field
+      label={label}
+      description={description}
+      error={errorMessage ? { message: errorMessage, match: true } : undefined}
+    >
+      {input}
+    </Field>
+  );
+}
+
+DateInput.displayName = "DateInput";
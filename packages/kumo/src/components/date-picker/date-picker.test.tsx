@@ -0,0 +1,222 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import type { DateRange } from "react-day-picker";
+import { DateInput } from "./date-input";
+import { DatePicker } from "./date-picker";
+
+/** UTC timestamp of a date, which `TZDate#toISOString` shows in its zone */
+const iso = (date: Date | undefined) => date && new Date(date).toISOString();
+
+const MARCH_2025 = new Date("2025-03-01T12:00:00Z");
+
+const getDay = (name: RegExp) => screen.getByRole("button", { name });
+
+describe("DatePicker", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("Time", () => {
+    it("keeps the selected time when picking another day", async () => {
+      const user = userEvent.setup();
+      const onChange = vi.fn();
+      render(
+        <DatePicker
+          mode="single"
+          timeZone="UTC"
+          defaultMonth={MARCH_2025}
+          selected={new Date("2025-03-09T10:30:00Z")}
+          onChange={onChange}
+          showTime
+        />,
+      );
+
+      await user.click(getDay(/March 12th/));
+
+      expect(iso(onChange.mock.calls[0][0])).toBe("2025-03-12T10:30:00.000Z");
+    });
+
+    it("sets the typed time, rounded to the minute step", async () => {
+      const user = userEvent.setup();
+      const onChange = vi.fn();
+      render(
+        <DatePicker
+          mode="single"
+          timeZone="America/New_York"
+          defaultMonth={MARCH_2025}
+          selected={new Date("2025-03-10T14:00:00Z")}
+          onChange={onChange}
+          showTime
+          hourCycle={12}
+          minuteStep={15}
+        />,
+      );
+
+      const input = screen.getByLabelText("Time");
+      expect(input.getAttribute("value")).toBe("10:00 AM");
+      expect(screen.getByText("GMT-4")).toBeTruthy();
+
+      await user.clear(input);
+      await user.type(input, "2:20 pm{Enter}");
+
+      expect(iso(onChange.mock.calls[0][0])).toBe("2025-03-10T18:15:00.000Z");
+    });
+
+    it("defaults range ends to the end of their day", async () => {
+      const user = userEvent.setup();
+      const onChange = vi.fn();
+      render(
+        <DatePicker
+          mode="range"
+          timeZone="UTC"
+          defaultMonth={MARCH_2025}
+          selected={{ from: new Date("2025-03-03T08:00:00Z") }}
+          onChange={onChange}
+          showTime
+        />,
+      );
+
+      await user.click(getDay(/March 5th/));
+
+      const range = onChange.mock.calls[0][0] as DateRange;
+      expect(iso(range.from)).toBe("2025-03-03T08:00:00.000Z");
+      expect(iso(range.to)).toBe("2025-03-05T23:59:00.000Z");
+    });
+  });
+
+  describe("Constraints", () => {
+    it("disables days outside the range and clamps times to it", async () => {
+      const user = userEvent.setup();
+      const onChange = vi.fn();
+      render(
+        <DatePicker
+          mode="single"
+          timeZone="UTC"
+          defaultMonth={MARCH_2025}
+          onChange={onChange}
+          minDateTime={new Date("2025-03-10T09:00:00Z")}
+          maxDateTime={new Date("2025-03-20T17:00:00Z")}
+        />,
+      );
+
+      expect(getDay(/March 9th/).hasAttribute("disabled")).toBe(true);
+      expect(getDay(/March 21st/).hasAttribute("disabled")).toBe(true);
+
+      await user.click(getDay(/March 10th/));
+      expect(iso(onChange.mock.calls[0][0])).toBe("2025-03-10T09:00:00.000Z");
+    });
+  });
+
+  describe("Presets", () => {
+    it("selects the preset range from the current time", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-03-15T12:00:00Z"));
+      const user = userEvent.setup();
+      const onChange = vi.fn();
+      const presets = [
+        {
+          label: "Last 24 hours",
+          range: (now: Date) => ({
+            from: new Date(now.getTime() - 24 * 60 * 60 * 1000),
+            to: now,
+          }),
+        },
+      ];
+      const { rerender } = render(
+        <DatePicker
+          mode="range"
+          timeZone="UTC"
+          onChange={onChange}
+          presets={presets}
+        />,
+      );
+
+      const preset = screen.getByRole("button", { name: "Last 24 hours" });
+      await user.click(preset);
+
+      const range = onChange.mock.calls[0][0] as DateRange;
+      expect(iso(range.from)).toBe("2025-03-14T12:00:00.000Z");
+      expect(iso(range.to)).toBe("2025-03-15T12:00:00.000Z");
+
+      rerender(
+        <DatePicker
+          mode="range"
+          timeZone="UTC"
+          selected={range}
+          onChange={onChange}
+          presets={presets}
+        />,
+      );
+      expect(preset.getAttribute("aria-pressed")).toBe("true");
+      expect(getDay(/March 14th/)).toBeTruthy();
+    });
+  });
+});
+
+describe("DateInput", () => {
+  it("parses typed dates in the time zone", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(
+      <DateInput
+        label="Deploy at"
+        locale="en-US"
+        timeZone="America/New_York"
+        showTime
+        onChange={onChange}
+      />,
+    );
+
+    const input = screen.getByRole("textbox", { name: "Deploy at" });
+    expect(input.getAttribute("placeholder")).toBe("MM/DD/YYYY HH:mm");
+
+    await user.type(input, "03/10/2025 14:30{Enter}");
+
+    expect(iso(onChange.mock.calls[0][0])).toBe("2025-03-10T18:30:00.000Z");
+    expect(input.getAttribute("value")).toBe("03/10/2025 14:30");
+  });
+
+  it("flags text that is not a valid date", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(
+      <DateInput
+        label="Start"
+        locale="en-US"
+        minDateTime={new Date("2025-01-01T00:00:00")}
+        onChange={onChange}
+      />,
+    );
+
+    const input = screen.getByRole("textbox", { name: "Start" });
+    await user.type(input, "12/31/2024");
+    await user.tab();
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(input.getAttribute("aria-invalid")).toBe("true");
+    expect(screen.getByText("Enter a valid date")).toBeTruthy();
+  });
+
+  it("picks a date from the calendar", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(
+      <DateInput
+        aria-label="Start"
+        locale="en-US"
+        timeZone="UTC"
+        defaultValue={new Date("2025-03-09T00:00:00Z")}
+        onChange={onChange}
+      />,
+    );
+
+    await user.click(screen.getByRole("button", { name: "Choose date" }));
+    await user.click(await screen.findByRole("button", { name: /March 12th/ }));
+
+    expect(iso(onChange.mock.calls[0][0])).toBe("2025-03-12T00:00:00.000Z");
+    expect(screen.getByRole("textbox").getAttribute("value")).toBe(
+      "03/12/2025",
+    );
+  });
+});
@@ -1,7 +1,10 @@
 import { CaretLeftIcon, CaretRightIcon } from "@phosphor-icons/react";
+import { useState, type SyntheticEvent } from "react";
 import {
   DayPicker,
   type CustomComponents,
+  type DateRange,
+  type Matcher,
   type PropsBase,
   type PropsSingle,
   type PropsSingleRequired,
@@ -11,6 +14,18 @@ import {
   type PropsRangeRequired,
 } from "react-day-picker";
 import { cn } from "../../utils/cn";
+import {
+  clampDate,
+  END_OF_DAY,
+  formatTimeZone,
+  getTimeOfDay,
+  START_OF_DAY,
+  toZoned,
+  withTimeOfDay,
+  type HourCycle,
+  type TimeOfDay,
+} from "./date-time";
+import { TimeField } from "./time-field";
 
 /**
  * Custom Chevron component using Phosphor icons
@@ -26,40 +41,99 @@ type BaseProps = Omit<PropsBase, "classNames"> & {
   className?: string;
   /** Custom class names for internal elements */
   classNames?: PropsBase["classNames"];
+  /**
+   * Earliest selectable date and time. Earlier days are disabled, and
+   * selected times before it are moved to it.
+   */
+  minDateTime?: Date;
+  /**
+   * Latest selectable date and time. Later days are disabled, and selected
+   * times after it are moved to it.
+   */
+  maxDateTime?: Date;
+};
+
+/** Time of day selection, for single dates and ranges */
+type TimeProps = {
+  /**
+   * Show time of day inputs under the calendar. Selected dates keep the
+   * chosen time; range ends default to the end of their day.
+   * @default false
+   */
+  showTime?: boolean;
+  /**
+   * Show times with 12 hours and AM/PM, or with 24 hours.
+   * @default 24
+   */
+  hourCycle?: HourCycle;
+  /**
+   * Minutes between times: typed times are rounded to it and the arrow keys
+   * step by it.
+   * @default 1
+   */
+  minuteStep?: number;
+};
+
+type NoTimeProps = { [K in keyof TimeProps]?: never };
+
+/** Range preset listed next to the calendar, e.g. "Last 7 days" */
+export interface DatePickerPreset {
+  label: string;
+  /** Range to select, or a function returning it from the current time */
+  range: DateRange | ((now: Date) => DateRange);
+}
+
+type PresetProps = {
+  /** Ranges listed in a sidebar next to the calendar */
+  presets?: DatePickerPreset[];
 };
 
+type NoPresetProps = { presets?: never };
+
 /** Single date selection (optional) */
 type SingleProps = BaseProps &
+  TimeProps &
+  NoPresetProps &
   Omit<PropsSingle, "onSelect" | "classNames"> & {
     onChange?: PropsSingle["onSelect"];
   };
 
 /** Single date selection (required) */
 type SingleRequiredProps = BaseProps &
+  TimeProps &
+  NoPresetProps &
   Omit<PropsSingleRequired, "onSelect" | "classNames"> & {
     onChange?: PropsSingleRequired["onSelect"];
   };
 
 /** Multiple date selection (optional) */
 type MultipleProps = BaseProps &
+  NoTimeProps &
+  NoPresetProps &
   Omit<PropsMulti, "onSelect" | "classNames"> & {
     onChange?: PropsMulti["onSelect"];
   };
 
 /** Multiple date selection (required) */
 type MultipleRequiredProps = BaseProps &
+  NoTimeProps &
+  NoPresetProps &
   Omit<PropsMultiRequired, "onSelect" | "classNames"> & {
     onChange?: PropsMultiRequired["onSelect"];
   };
 
 /** Date range selection (optional) */
 type RangeProps = BaseProps &
+  TimeProps &
+  PresetProps &
   Omit<PropsRange, "onSelect" | "classNames"> & {
     onChange?: PropsRange["onSelect"];
   };
 
 /** Date range selection (required) */
 type RangeRequiredProps = BaseProps &
+  TimeProps &
+  PresetProps &
   Omit<PropsRangeRequired, "onSelect" | "classNames"> & {
     onChange?: PropsRangeRequired["onSelect"];
   };
@@ -77,11 +151,25 @@ export type DatePickerProps =
   | RangeProps
   | RangeRequiredProps;
 
+/** `onChange` of any mode, called with the selection and DayPicker's arguments */
+type ChangeHandler = (selected: unknown, ...rest: unknown[]) => void;
+
+const toMatchers = (disabled: Matcher | Matcher[] | undefined) =>
+  disabled === undefined ? [] : Array.isArray(disabled) ? disabled : [disabled];
+
+const isSameRange = (a: DateRange | undefined, b: DateRange | undefined) =>
+  a?.from?.getTime() === b?.from?.getTime() &&
+  a?.to?.getTime() === b?.to?.getTime();
+
 /**
  * DatePicker — a date selection calendar.
  *
  * Built on [react-day-picker](https://daypicker.dev) with Kumo styling.
- * Supports three selection modes: single, multiple, and range.
+ * Supports three selection modes: single, multiple, and range. Single dates
+ * and ranges can include a time of day, and ranges can offer presets.
+ *
+ * With an IANA `timeZone`, days and times are shown in that zone and
+ * selected dates are `TZDate`s in it, whatever the user's local zone.
  *
  * @example
  * ```tsx
@@ -96,26 +184,121 @@ export type DatePickerProps =
  * // Date range selection
  * const [range, setRange] = useState<DateRange>();
  * <DatePicker mode="range" selected={range} onChange={setRange} numberOfMonths={2} />
+ *
+ * // Range with times and presets, in UTC
+ * <DatePicker
+ *   mode="range"
+ *   selected={range}
+ *   onChange={setRange}
+ *   showTime
+ *   timeZone="UTC"
+ *   presets={[{ label: "Last 24 hours", range: (now) => ({ from: subHours(now, 24), to: now }) }]}
+ * />
  * ```
  */
 export function DatePicker({
   className,
   classNames,
   onChange,
+  showTime = false,
+  hourCycle = 24,
+  minuteStep = 1,
+  minDateTime,
+  maxDateTime,
+  presets,
   ...props
 }: DatePickerProps) {
-  return (
+  const { timeZone } = props;
+  const emit = onChange as ChangeHandler | undefined;
+  // Month shown after picking a preset, unless `month` is controlled
+  const [presetMonth, setPresetMonth] = useState<Date>();
+  const [activePreset, setActivePreset] = useState<{
+    label: string;
+    range: DateRange;
+  }>();
+
+  const clamp = (date: Date) =>
+    clampDate(date, { min: minDateTime, max: maxDateTime, timeZone });
+  const setTime = (date: Date, time: TimeOfDay) =>
+    clamp(withTimeOfDay(date, time, timeZone));
+  const timeOf = (date: Date | undefined) =>
+    date && getTimeOfDay(date, timeZone);
+
+  const selectedDate = props.mode === "single" ? props.selected : undefined;
+  const selectedRange = props.mode === "range" ? props.selected : undefined;
+
+  const handleSelect: ChangeHandler = (selected, ...rest) => {
+    if (props.mode === "single" && selected) {
+      const date = selected as Date;
+      emit?.(
+        showTime
+          ? setTime(date, timeOf(selectedDate) ?? START_OF_DAY)
+          : clamp(date),
+        ...rest,
+      );
+    } else if (props.mode === "range" && selected) {
+      const { from, to } = selected as DateRange;
+      emit?.(
+        {
+          from:
+            from &&
+            (showTime
+              ? setTime(from, timeOf(selectedRange?.from) ?? START_OF_DAY)
+              : clamp(from)),
+          to:
+            to &&
+            (showTime
+              ? setTime(to, timeOf(selectedRange?.to) ?? END_OF_DAY)
+              : clamp(to)),
+        },
+        ...rest,
+      );
+    } else {
+      emit?.(selected, ...rest);
+    }
+  };
+
+  const handlePreset = (preset: DatePickerPreset, event: SyntheticEvent) => {
+    const { from, to } =
+      typeof preset.range === "function"
+        ? preset.range(new Date())
+        : preset.range;
+    const range = {
+      from: from && clamp(toZoned(from, timeZone)),
+      to: to && clamp(toZoned(to, timeZone)),
+    };
+    setActivePreset({ label: preset.label, range });
+    emit?.(range, range.from, {}, event);
+    if (range.from) {
+      setPresetMonth(range.from);
+      props.onMonthChange?.(range.from);
+    }
+  };
+
+  const calendar = (
     <DayPicker
       showOutsideDays
       animate
+      startMonth={minDateTime}
+      endMonth={maxDateTime}
       {...props}
-      onSelect={onChange as never}
+      month={props.month ?? presetMonth}
+      onMonthChange={(month) => {
+        setPresetMonth(month);
+        props.onMonthChange?.(month);
+      }}
+      disabled={[
+        ...toMatchers(props.disabled),
+        ...(minDateTime ? [{ before: toZoned(minDateTime, timeZone) }] : []),
+        ...(maxDateTime ? [{ after: toZoned(maxDateTime, timeZone) }] : []),
+      ]}
+      onSelect={handleSelect as never}
       classNames={{
         ...classNames,
         root: cn(
           "rdp-root select-none rounded-xl bg-kumo-base",
           classNames?.root,
-          className,
+          !showTime && !presets?.length && className,
         ),
       }}
       components={{
@@ -124,6 +307,87 @@ export function DatePicker({
       }}
     />
   );
+
+  if (!showTime && !presets?.length) return calendar;
+
+  const timeFieldProps = { hourCycle, minuteStep };
+
+  return (
+    <div className={cn("flex w-fit gap-3 rounded-xl bg-kumo-base", className)}>
+      {!!presets?.length && (
+        <div className="flex flex-col gap-1 border-r border-kumo-line pr-3 text-sm">
+          {presets.map((preset) => {
+            const active =
+              activePreset?.label === preset.label &&
+              isSameRange(activePreset.range, selectedRange);
+            return (
+              <button
+                key={preset.label}
+                type="button"
+                aria-pressed={active}
+                onClick={(event) => handlePreset(preset, event)}
+                className={cn(
+                  "rounded-md px-3 py-1.5 text-left whitespace-nowrap",
+                  active
+                    ? "bg-kumo-contrast text-kumo-inverse"
+                    : "text-kumo-strong hover:bg-kumo-control",
+                )}
+              >
+                {preset.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      <div className="flex flex-col gap-3">
+        {calendar}
+        {showTime && (
+          <div className="flex flex-wrap items-end gap-3 border-t border-kumo-line pt-3">
+            {props.mode === "range" ? (
+              <>
+                <TimeField
+                  label="Start time"
+                  value={timeOf(selectedRange?.from)}
+                  disabled={!selectedRange?.from}
+                  onChange={(time, event) => {
+                    const from = setTime(selectedRange!.from!, time);
+                    emit?.({ ...selectedRange, from }, from, {}, event);
+                  }}
+                  {...timeFieldProps}
+                />
+                <TimeField
+                  label="End time"
+                  value={timeOf(selectedRange?.to)}
+                  disabled={!selectedRange?.to}
+                  onChange={(time, event) => {
+                    const to = setTime(selectedRange!.to!, time);
+                    emit?.({ ...selectedRange, to }, to, {}, event);
+                  }}
+                  {...timeFieldProps}
+                />
+              </>
+            ) : (
+              <TimeField
+                label="Time"
+                value={timeOf(selectedDate)}
+                disabled={!selectedDate}
+                onChange={(time, event) => {
+                  const date = setTime(selectedDate!, time);
+                  emit?.(date, date, {}, event);
+                }}
+                {...timeFieldProps}
+              />
+            )}
+            {timeZone && (
+              <span className="pb-1.5 text-xs text-kumo-subtle">
+                {formatTimeZone(timeZone, selectedDate ?? selectedRange?.from)}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
 }
 
 DatePicker.displayName = "DatePicker";
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatDateTime,
+  getDateTimePlaceholder,
+  parseDateTime,
+  parseTimeOfDay,
+  stepTimeOfDay,
+  withTimeOfDay,
+} from "./date-time";
+
+/** UTC timestamp of a date, which `TZDate#toISOString` shows in its zone */
+const iso = (date: Date | undefined) => date && new Date(date).toISOString();
+
+describe("parseTimeOfDay", () => {
+  it("parses times in either hour cycle", () => {
+    expect(parseTimeOfDay("14:30")).toEqual({ hours: 14, minutes: 30 });
+    expect(parseTimeOfDay("2:30 pm")).toEqual({ hours: 14, minutes: 30 });
+    expect(parseTimeOfDay("12 AM")).toEqual({ hours: 0, minutes: 0 });
+    expect(parseTimeOfDay("930")).toEqual({ hours: 9, minutes: 30 });
+  });
+
+  it("rejects invalid times", () => {
+    expect(parseTimeOfDay("24:00")).toBeUndefined();
+    expect(parseTimeOfDay("13:00 pm")).toBeUndefined();
+    expect(parseTimeOfDay("noon")).toBeUndefined();
+  });
+});
+
+describe("stepTimeOfDay", () => {
+  it("rounds to the step and steps across midnight", () => {
+    expect(stepTimeOfDay({ hours: 9, minutes: 7 }, 15)).toEqual({
+      hours: 9,
+      minutes: 0,
+    });
+    expect(stepTimeOfDay({ hours: 23, minutes: 45 }, 15, 1)).toEqual({
+      hours: 0,
+      minutes: 0,
+    });
+    expect(stepTimeOfDay({ hours: 0, minutes: 0 }, 30, -1)).toEqual({
+      hours: 23,
+      minutes: 30,
+    });
+  });
+});
+
+describe("time zones", () => {
+  it("sets times in the time zone", () => {
+    const date = withTimeOfDay(
+      new Date("2025-03-09T12:00:00Z"),
+      { hours: 9, minutes: 15 },
+      "Asia/Tokyo",
+    );
+    expect(iso(date)).toBe("2025-03-09T00:15:00.000Z");
+  });
+
+  it("formats dates in the time zone", () => {
+    expect(
+      formatDateTime(new Date("2025-03-09T23:30:00Z"), {
+        locale: "en-US",
+        timeZone: "Asia/Tokyo",
+        showTime: true,
+        hourCycle: 12,
+      }),
+    ).toBe("03/10/2025 8:30 AM");
+  });
+});
+
+describe("parseDateTime", () => {
+  it("parses dates in the locale's field order", () => {
+    const options = { timeZone: "UTC" };
+    expect(
+      iso(parseDateTime("03/09/2025", { ...options, locale: "en-US" })),
+    ).toBe("2025-03-09T00:00:00.000Z");
+    expect(
+      iso(parseDateTime("09/03/2025", { ...options, locale: "en-GB" })),
+    ).toBe("2025-03-09T00:00:00.000Z");
+    expect(
+      iso(parseDateTime("2025-03-09T14:30", { ...options, locale: "en-GB" })),
+    ).toBe("2025-03-09T14:30:00.000Z");
+  });
+
+  it("parses dates in the time zone", () => {
+    expect(
+      iso(
+        parseDateTime("2025-03-09 2:30 pm", {
+          timeZone: "America/New_York",
+        }),
+      ),
+    ).toBe("2025-03-09T18:30:00.000Z");
+  });
+
+  it("rejects invalid dates", () => {
+    expect(parseDateTime("02/30/2025", { locale: "en-US" })).toBeUndefined();
+    expect(parseDateTime("13/01/2025", { locale: "en-US" })).toBeUndefined();
+    expect(parseDateTime("2025-03-09 25:00", {})).toBeUndefined();
+    expect(parseDateTime("tomorrow", {})).toBeUndefined();
+  });
+});
+
+describe("getDateTimePlaceholder", () => {
+  it("follows the locale", () => {
+    expect(getDateTimePlaceholder({ locale: "en-US" })).toBe("MM/DD/YYYY");
+    expect(getDateTimePlaceholder({ locale: "de-DE", showTime: true })).toBe(
+      "DD.MM.YYYY HH:mm",
+    );
+  });
+});
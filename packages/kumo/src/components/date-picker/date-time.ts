@@ -0,0 +1,199 @@
+import { TZDate } from "react-day-picker";
+
+/**
+ * Date and time helpers for pickers with times and time zones. Dates in a
+ * `timeZone` are `TZDate`s, whose getters and setters work in that zone, so
+ * times are read and set as shown to the user whatever the local zone is.
+ */
+
+/** Time of day, in the picker's time zone */
+export interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+export type HourCycle = 12 | 24;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const START_OF_DAY: TimeOfDay = { hours: 0, minutes: 0 };
+export const END_OF_DAY: TimeOfDay = { hours: 23, minutes: 59 };
+
+/** Copy of `date` that reads and sets its fields in `timeZone`, or locally */
+export function toZoned(date: Date, timeZone?: string): Date {
+  return timeZone ? new TZDate(date, timeZone) : new Date(date);
+}
+
+export function getTimeOfDay(date: Date, timeZone?: string): TimeOfDay {
+  const zoned = toZoned(date, timeZone);
+  return { hours: zoned.getHours(), minutes: zoned.getMinutes() };
+}
+
+/** `date` on the same day, in `timeZone`, at `time` */
+export function withTimeOfDay(
+  date: Date,
+  time: TimeOfDay,
+  timeZone?: string,
+): Date {
+  const zoned = toZoned(date, timeZone);
+  zoned.setHours(time.hours, time.minutes, 0, 0);
+  return zoned;
+}
+
+/** `date` moved within `min` and `max` */
+export function clampDate(
+  date: Date,
+  { min, max, timeZone }: { min?: Date; max?: Date; timeZone?: string },
+): Date {
+  if (min && date < min) return toZoned(min, timeZone);
+  if (max && date > max) return toZoned(max, timeZone);
+  return date;
+}
+
+export function formatTimeOfDay(
+  { hours, minutes }: TimeOfDay,
+  hourCycle: HourCycle,
+) {
+  const paddedMinutes = String(minutes).padStart(2, "0");
+  if (hourCycle === 24) {
+    return `${String(hours).padStart(2, "0")}:${paddedMinutes}`;
+  }
+  return `${hours % 12 || 12}:${paddedMinutes} ${hours < 12 ? "AM" : "PM"}`;
+}
+
+/** Hours with optional minutes and AM/PM, e.g. `14:30`, `2:30 pm` or `930` */
+const TIME_PATTERN = /^(\d{1,2})(?::?(\d{2}))?\s*(?:([ap])\.?(?:m\.?)?)?$/i;
+
+/** Parses a typed time in either hour cycle */
+export function parseTimeOfDay(text: string): TimeOfDay | undefined {
+  const match = TIME_PATTERN.exec(text.trim());
+  if (!match) return undefined;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const period = match[3]?.toLowerCase();
+  if (period) {
+    if (hours < 1 || hours > 12) return undefined;
+    hours = (hours % 12) + (period === "p" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return undefined;
+  return { hours, minutes };
+}
+
+/** `time` moved to the nearest multiple of `step` minutes, then by `delta` steps */
+export function stepTimeOfDay(
+  { hours, minutes }: TimeOfDay,
+  step: number,
+  delta = 0,
+): TimeOfDay {
+  const rounded = Math.round((hours * 60 + minutes) / step) * step;
+  const total =
+    (((rounded + delta * step) % MINUTES_PER_DAY) + MINUTES_PER_DAY) %
+    MINUTES_PER_DAY;
+  return { hours: Math.floor(total / 60), minutes: total % 60 };
+}
+
+/** Short name of `timeZone` at `date`, e.g. `GMT-4` */
+export function formatTimeZone(timeZone: string, date = new Date()) {
+  return (
+    new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "shortOffset" })
+      .formatToParts(date)
+      .find((part) => part.type === "timeZoneName")?.value ?? timeZone
+  );
+}
+
+export interface DateFormatOptions {
+  locale?: string;
+  timeZone?: string;
+  /** Include the time of day */
+  showTime?: boolean;
+  hourCycle?: HourCycle;
+}
+
+/** `date` as numeric date fields in the order of `locale`, e.g. `03/09/2025 14:30` */
+export function formatDateTime(
+  date: Date,
+  { locale, timeZone, showTime = false, hourCycle = 24 }: DateFormatOptions,
+) {
+  const day = new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    timeZone,
+  }).format(date);
+  if (!showTime) return day;
+  return `${day} ${formatTimeOfDay(getTimeOfDay(date, timeZone), hourCycle)}`;
+}
+
+/** Parts of a numeric date in `locale`, e.g. month, `/`, day, `/`, year */
+const getNumericDateParts = (locale?: string) =>
+  new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(new Date(2000, 10, 22));
+
+const DATE_FIELD_TOKENS = { day: "DD", month: "MM", year: "YYYY" };
+
+const isDateField = (type: string): type is keyof typeof DATE_FIELD_TOKENS =>
+  type in DATE_FIELD_TOKENS;
+
+/** Format hint for typed dates in `locale`, e.g. `MM/DD/YYYY HH:mm` */
+export function getDateTimePlaceholder({
+  locale,
+  showTime = false,
+  hourCycle = 24,
+}: Omit<DateFormatOptions, "timeZone">) {
+  const day = getNumericDateParts(locale)
+    .map((part) =>
+      isDateField(part.type) ? DATE_FIELD_TOKENS[part.type] : part.value,
+    )
+    .join("");
+  if (!showTime) return day;
+  return `${day} ${hourCycle === 12 ? "h:mm AM" : "HH:mm"}`;
+}
+
+/** Three numeric date fields, then an optional time */
+const DATE_PATTERN =
+  /^(\d{1,4})[^\d\s]+(\d{1,2})[^\d\s]+(\d{1,4})(?:[\sT,]+(.+))?$/;
+
+/**
+ * Parses a typed date, with the fields in the order of `locale` or as
+ * `YYYY-MM-DD`, and an optional time in either hour cycle.
+ *
+ * @returns the date, in `timeZone`, or `undefined` if the text is not a date
+ */
+export function parseDateTime(
+  text: string,
+  { locale, timeZone }: Pick<DateFormatOptions, "locale" | "timeZone">,
+): Date | undefined {
+  const match = DATE_PATTERN.exec(text.trim());
+  if (!match) return undefined;
+  const [, first, second, third, timeText] = match;
+  const order =
+    first.length === 4
+      ? (["year", "month", "day"] as const)
+      : getNumericDateParts(locale)
+          .map((part) => part.type)
+          .filter(isDateField);
+  const fields = { year: 0, month: 0, day: 0 };
+  [first, second, third].forEach((value, index) => {
+    fields[order[index]] = Number(value);
+  });
+
+  const year = fields.year < 100 ? 2000 + fields.year : fields.year;
+  const daysInMonth = new Date(Date.UTC(year, fields.month, 0)).getUTCDate();
+  if (fields.month < 1 || fields.month > 12) return undefined;
+  if (fields.day < 1 || fields.day > daysInMonth) return undefined;
+
+  const time = timeText === undefined ? START_OF_DAY : parseTimeOfDay(timeText);
+  if (!time) return undefined;
+
+  const args = [
+    year,
+    fields.month - 1,
+    fields.day,
+    time.hours,
+    time.minutes,
+  ] as const;
+  return timeZone ? new TZDate(...args, timeZone) : new Date(...args);
+}
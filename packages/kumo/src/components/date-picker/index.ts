@@ -1,5 +1,8 @@
 export { DatePicker } from "./date-picker";
-export type { DatePickerProps } from "./date-picker";
+export type { DatePickerPreset, DatePickerProps } from "./date-picker";
+export { DateInput } from "./date-input";
+export type { DateInputProps } from "./date-input";
 
 // Re-export useful types from react-day-picker for convenience
 export type { DateRange, DayPickerProps } from "react-day-picker";
+export { TZDate } from "react-day-picker";
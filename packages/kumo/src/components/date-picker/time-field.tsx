@@ -0,0 +1,81 @@
+import { useState, type KeyboardEvent, type SyntheticEvent } from "react";
+import { Input } from "../input";
+import {
+  formatTimeOfDay,
+  parseTimeOfDay,
+  stepTimeOfDay,
+  type HourCycle,
+  type TimeOfDay,
+} from "./date-time";
+
+interface TimeFieldProps {
+  label: string;
+  value: TimeOfDay | undefined;
+  hourCycle: HourCycle;
+  minuteStep: number;
+  disabled?: boolean;
+  onChange: (time: TimeOfDay, event: SyntheticEvent) => void;
+}
+
+/**
+ * Time of day input. Typed times in either hour cycle are rounded to
+ * `minuteStep` when committed with Enter or on blur, and the arrow keys step
+ * the time by `minuteStep` minutes.
+ */
+export function TimeField({
+  label,
+  value,
+  hourCycle,
+  minuteStep,
+  disabled,
+  onChange,
+}: TimeFieldProps) {
+  const formatted = value ? formatTimeOfDay(value, hourCycle) : "";
+  // Text being typed, until committed
+  const [draft, setDraft] = useState<string>();
+  const invalid = draft !== undefined && parseTimeOfDay(draft) === undefined;
+
+  const commit = (event: SyntheticEvent) => {
+    if (draft === undefined) return;
+    const time = parseTimeOfDay(draft);
+    if (!time) return;
+    setDraft(undefined);
+    onChange(stepTimeOfDay(time, minuteStep), event);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      commit(event);
+    } else if (
+      value &&
+      (event.key === "ArrowUp" || event.key === "ArrowDown")
+    ) {
+      event.preventDefault();
+      setDraft(undefined);
+      onChange(
+        stepTimeOfDay(value, minuteStep, event.key === "ArrowUp" ? 1 : -1),
+        event,
+      );
+    } else if (event.key === "Escape" && draft !== undefined) {
+      event.stopPropagation();
+      setDraft(undefined);
+    }
+  };
+
+  return (
+    <Input
+      size="sm"
+      label={label}
+      value={draft ?? formatted}
+      placeholder={hourCycle === 12 ? "h:mm AM" : "HH:mm"}
+      disabled={disabled}
+      variant={invalid ? "error" : "default"}
+      aria-invalid={invalid || undefined}
+      className="w-24 tabular-nums"
+      onChange={(event) => setDraft(event.currentTarget.value)}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+    />
+  );
+}
@@ -1,4 +1,5 @@
 import { forwardRef, useId, type ReactNode } from "react";
+import { cn } from "../../utils/cn";
 
 export interface Connector {
   x1: number;
@@ -7,6 +8,8 @@ export interface Connector {
   y2: number;
   isBottom?: boolean;
   disabled?: boolean;
+  /** Animate the connector, e.g. into a running step */
+  running?: boolean;
   single?: boolean;
 }
 
@@ -105,7 +108,8 @@ export function createRoundedPath(
     return `M ${x1} ${y1} L ${x2} ${y2 - arrowheadOffset}`;
 
   // Vertical orientation: vertical → horizontal → vertical
-  // When single=true: horizontal segment near endpoint for smooth S-curve
+  // When single=true: horizontal segment near endpoint for smooth S-curve,
+  // with both corners rounded
   // When single=false (junction exists):
   //   - isBottom=false (incoming): junction at start, turn near y1
   //   - isBottom=true (outgoing): junction at end, turn near y2
@@ -115,25 +119,29 @@ export function createRoundedPath(
   const isGoingDown = y2 > y1;
   const verticalSign = isGoingDown ? 1 : -1;
 
-  // First vertical segment stops before the first corner (going down)
-  const firstVerticalEnd = horizontalY - cornerRadius;
+  // First vertical segment stops before the first corner
+  const firstVerticalEnd = horizontalY - verticalSign * cornerRadius;
   // Horizontal segment starts after the first corner
   const horizontalStart = x1 + horizontalSign * cornerRadius;
   // Horizontal segment stops before the second corner
   const horizontalEnd = x2 - horizontalSign * cornerRadius;
-  // Second vertical segment starts after the second corner (going down)
-  const secondVerticalStart = horizontalY + cornerRadius;
+  // Second vertical segment starts after the second corner
+  const secondVerticalStart = horizontalY + verticalSign * cornerRadius;
   // Path ends before the arrowhead
   const pathEndY = y2 - verticalSign * arrowheadOffset;
 
   const bottomCurveCommands = [
     `L ${x1} ${firstVerticalEnd}`,
     `Q ${x1} ${horizontalY} ${horizontalStart} ${horizontalY}`,
-    `L ${x2} ${horizontalY}`,
+    single
+      ? `L ${horizontalEnd} ${horizontalY} Q ${x2} ${horizontalY} ${x2} ${secondVerticalStart}`
+      : `L ${x2} ${horizontalY}`,
   ];
 
   const topCurveCommands = [
-    `L ${x1} ${horizontalY}`,
+    single
+      ? `L ${x1} ${firstVerticalEnd} Q ${x1} ${horizontalY} ${horizontalStart} ${horizontalY}`
+      : `L ${x1} ${horizontalY}`,
     `L ${horizontalEnd} ${horizontalY}`,
     `Q ${x2} ${horizontalY} ${x2} ${secondVerticalStart}`,
   ];
@@ -147,41 +155,48 @@ export function createRoundedPath(
   return commands.join(" ");
 }
 
+const ARROWHEAD_PATH =
+  "M 0,1.5 Q 0,0 1.5,0 Q 3.5,1 5.8,3.2 Q 6.5,4 5.8,4.8 Q 3.5,7 1.5,8 Q 0,8 0,6.5 Z";
+
+/** Disabled connectors render first (below active ones), running ones last */
+function connectorLayer(connector: Connector) {
+  if (connector.disabled) return 0;
+  return connector.running ? 2 : 1;
+}
+
 export const Connectors = forwardRef<SVGSVGElement, ConnectorsProps>(
   function Connectors({ connectors, children, ...pathProps }, svgRef) {
     const id = useId();
+    const runningId = `${id}-running`;
     return (
       <svg
         width="100%"
         height="100%"
         aria-hidden="true"
+        data-flow-connectors=""
         className="text-kumo-inactive overflow-visible"
         ref={svgRef}
       >
         <defs>
-          <marker
-            id={id}
-            markerWidth="8"
-            markerHeight="8"
-            refX="0"
-            refY="4"
-            orient="auto"
-            markerUnits="userSpaceOnUse"
-          >
-            <path
-              d="M 0,1.5 Q 0,0 1.5,0 Q 3.5,1 5.8,3.2 Q 6.5,4 5.8,4.8 Q 3.5,7 1.5,8 Q 0,8 0,6.5 Z"
-              fill="currentColor"
-              stroke="none"
-            />
-          </marker>
+          {/* Markers take their color from where they are defined */}
+          {[id, runningId].map((markerId) => (
+            <marker
+              key={markerId}
+              id={markerId}
+              markerWidth="8"
+              markerHeight="8"
+              refX="0"
+              refY="4"
+              orient="auto"
+              markerUnits="userSpaceOnUse"
+              className={markerId === runningId ? "text-kumo-brand" : undefined}
+            >
+              <path d={ARROWHEAD_PATH} fill="currentColor" stroke="none" />
+            </marker>
+          ))}
         </defs>
-        {[...connectors]
-          .sort((a, b) => {
-            // Disabled connectors render first (below active ones)
-            if (a.disabled && !b.disabled) return -1;
-            if (!a.disabled && b.disabled) return 1;
-            return 0;
-          })
+        {connectors
+          .toSorted((a, b) => connectorLayer(a) - connectorLayer(b))
           .map((connector, index) => {
             const path = createRoundedPath(connector, {
               isBottom: connector.isBottom,
@@ -191,15 +206,26 @@ export const Connectors = forwardRef<SVGSVGElement, ConnectorsProps>(
             return (
               <g
                 key={index}
-                className={connector.disabled ? "opacity-40" : undefined}
+                className={cn(
+                  connector.disabled && "opacity-40",
+                  connector.running && "text-kumo-brand",
+                )}
               >
                 <path
                   d={path}
                   fill="none"
                   stroke="currentColor"
                   strokeWidth="2"
-                  markerEnd={`url(#${id})`}
+                  strokeDasharray={connector.running ? "6 4" : undefined}
+                  className={
+                    connector.running
+                      ? "animate-flow-dash motion-reduce:animate-none"
+                      : undefined
+                  }
+                  markerEnd={`url(#${connector.running ? runningId : id})`}
                   data-index={index}
+                  data-running={connector.running || undefined}
+                  data-disabled={connector.disabled || undefined}
                 />
               </g>
             );
@@ -0,0 +1,59 @@
+import {
+  CornersOutIcon,
+  MagnifyingGlassMinusIcon,
+  MagnifyingGlassPlusIcon,
+} from "@phosphor-icons/react";
+import { Button } from "../button";
+
+interface FlowControlsProps {
+  canZoomIn: boolean;
+  canZoomOut: boolean;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onFitView: () => void;
+  labels: { zoomIn: string; zoomOut: string; fitView: string };
+}
+
+/** Zoom in, zoom out and fit to view buttons, overlaid on a Flow diagram. */
+export function FlowControls({
+  canZoomIn,
+  canZoomOut,
+  onZoomIn,
+  onZoomOut,
+  onFitView,
+  labels,
+}: FlowControlsProps) {
+  return (
+    <div
+      data-flow-overlay=""
+      className="absolute bottom-3 left-3 z-20 flex flex-col gap-0.5 rounded-lg bg-kumo-base p-0.5 shadow ring ring-kumo-line"
+    >
+      <Button
+        size="sm"
+        shape="square"
+        variant="ghost"
+        icon={MagnifyingGlassPlusIcon}
+        aria-label={labels.zoomIn}
+        disabled={!canZoomIn}
+        onClick={onZoomIn}
+      />
+      <Button
+        size="sm"
+        shape="square"
+        variant="ghost"
+        icon={MagnifyingGlassMinusIcon}
+        aria-label={labels.zoomOut}
+        disabled={!canZoomOut}
+        onClick={onZoomOut}
+      />
+      <Button
+        size="sm"
+        shape="square"
+        variant="ghost"
+        icon={CornersOutIcon}
+        aria-label={labels.fitView}
+        onClick={onFitView}
+      />
+    </div>
+  );
+}
@@ -1,11 +1,17 @@
 import {
   createContext,
+  forwardRef,
+  useCallback,
   useContext,
   useEffect,
   useId,
+  useImperativeHandle,
   useMemo,
   useRef,
   useState,
+  type KeyboardEvent,
+  type MouseEvent,
+  type PointerEvent as ReactPointerEvent,
   type ReactNode,
 } from "react";
 import {
@@ -17,7 +23,11 @@ import {
   type PanInfo,
 } from "motion/react";
 import { cn } from "../../utils/cn";
+import { useControllableState } from "../../utils/use-controllable-state";
 import { Connectors, type Connector } from "./connectors";
+import { FlowControls } from "./controls";
+import { FlowMinimap } from "./minimap";
+import { getFlowNavigationTarget } from "./navigation";
 import {
   DescendantsProvider,
   useDescendantIndex,
@@ -25,6 +35,17 @@ import {
   useOptionalDescendantsContext,
   type DescendantInfo,
 } from "./use-children";
+import {
+  centerOn,
+  clampPan,
+  clampZoom,
+  getFitZoom,
+  getPanBounds,
+  getVisibleRect,
+  zoomAtPoint,
+  type FlowPoint,
+  type FlowViewportSize,
+} from "./viewport";
 
 const PAN_SPACING = {
   y: 64,
@@ -34,9 +55,23 @@ const PAN_SPACING = {
 /** Minimum scrollbar thumb size in percentage to ensure visibility */
 const MIN_SCROLLBAR_THUMB_SIZE = 10;
 
-// Vertical orientation is currently a no-op
+/** Zoom change per pixel of Ctrl+wheel, or of a trackpad pinch */
+const WHEEL_ZOOM_SPEED = 0.01;
+
+/** Zoom factor of the zoom in and zoom out controls and keys */
+const ZOOM_STEP = 1.25;
+
 type Orientation = "horizontal" | "vertical";
 type Align = "start" | "center";
+type SelectionMode = "none" | "single" | "multiple";
+
+/** Run state of a node, e.g. a step of a workflow run. */
+export type FlowNodeStatus =
+  | "pending"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "skipped";
 
 interface DiagramContextValue {
   orientation: Orientation;
@@ -45,6 +80,11 @@ interface DiagramContextValue {
   y: MotionValue<number>;
   /** Ref to the canvas viewport wrapper element */
   wrapperRef: React.RefObject<HTMLDivElement | null>;
+  /**
+   * Convert a measured client rect to content coordinates, which do not
+   * change when the diagram is panned or zoomed.
+   */
+  toContentRect: (rect: DOMRect) => RectLike;
 }
 
 const DiagramContext = createContext<DiagramContextValue | null>(null);
@@ -57,243 +97,696 @@ export function useDiagramContext(): DiagramContextValue {
   return context;
 }
 
-interface FlowDiagramProps {
+interface NodeInteractionContextValue {
+  /** Whether nodes are focusable and selectable */
+  interactive: boolean;
+  selectedIds: ReadonlySet<string>;
+  /** Id of the node in the tab order */
+  tabStopId: string | null;
+  /** Accessible names of node statuses */
+  statusLabels: Record<FlowNodeStatus, string>;
+}
+
+const NodeInteractionContext =
+  createContext<NodeInteractionContextValue | null>(null);
+
+export function useNodeInteraction() {
+  return useContext(NodeInteractionContext);
+}
+
+export interface FlowDiagramProps {
+  /**
+   * Direction the diagram flows in.
+   * - `horizontal`: Left to right, with parallel branches stacked (default)
+   * - `vertical`: Top to bottom, with parallel branches side by side
+   */
   orientation?: Orientation;
   /**
-   * Controls vertical alignment of nodes in horizontal orientation.
-   * - `start`: Nodes align to the top (default)
-   * - `center`: Nodes are vertically centered
+   * Controls alignment of nodes across the flow direction.
+   * - `start`: Nodes align to the top, or the left when vertical (default)
+   * - `center`: Nodes are centered
    */
   align?: Align;
+  /**
+   * Whether nodes can be selected, by their `id`. Selectable nodes share a
+   * single tab stop, and the arrow keys move focus to the nearest node in
+   * their direction.
+   * - `none`: Nodes are static (default)
+   * - `single`: Click, Enter or Space selects a node
+   * - `multiple`: Ctrl/Cmd-click and Space toggle a node, Shift+arrow keys
+   *   extend the selection and Ctrl/Cmd+A selects all nodes
+   *
+   * Escape clears the selection.
+   */
+  selectionMode?: SelectionMode;
+  /** Controlled ids of the selected nodes */
+  selectedNodeIds?: string[];
+  /** Initial ids of the selected nodes when uncontrolled */
+  defaultSelectedNodeIds?: string[];
+  /** Callback when the selection changes */
+  onSelectedNodeIdsChange?: (ids: string[]) => void;
+  /**
+   * Zoom with Ctrl/Cmd+wheel, trackpad or touch pinch, and the `+`, `-`
+   * and `0` (fit to view) keys.
+   */
+  zoomable?: boolean;
+  /** Controlled zoom level, where 1 is actual size */
+  zoom?: number;
+  /** Initial zoom level when uncontrolled. @default 1 */
+  defaultZoom?: number;
+  /** Callback when the zoom level changes */
+  onZoomChange?: (zoom: number) => void;
+  /** @default 0.25 */
+  minZoom?: number;
+  /** @default 2 */
+  maxZoom?: number;
+  /** Show zoom in, zoom out and fit to view buttons. Defaults to `zoomable`. */
+  controls?: boolean;
+  /**
+   * Show an overview of the whole diagram with the part in view outlined.
+   * Click or drag in it to pan.
+   */
+  minimap?: boolean;
+  /** Accessible name of the diagram when nodes are selectable */
+  "aria-label"?: string;
+  /** Accessible labels for i18n. */
+  labels?: {
+    /** @default "Zoom in" */
+    zoomIn?: string;
+    /** @default "Zoom out" */
+    zoomOut?: string;
+    /** @default "Fit to view" */
+    fitView?: string;
+    /** @default "Pending" */
+    pending?: string;
+    /** @default "Running" */
+    running?: string;
+    /** @default "Succeeded" */
+    succeeded?: string;
+    /** @default "Failed" */
+    failed?: string;
+    /** @default "Skipped" */
+    skipped?: string;
+  };
   className?: string;
   children?: ReactNode;
 }
 
-export function FlowDiagram({
-  orientation = "horizontal",
-  align = "start",
-  className,
-  children,
-}: FlowDiagramProps) {
-  const wrapperRef = useRef<HTMLDivElement>(null);
-  const contentRef = useRef<HTMLDivElement>(null);
-
-  const x = useMotionValue(0);
-  const y = useMotionValue(0);
-  const [bounds, setBounds] = useState<{ x: number; y: number } | null>(null);
-  const [dimensions, setDimensions] = useState<{
-    viewportWidth: number;
-    viewportHeight: number;
-    contentWidth: number;
-    contentHeight: number;
-  } | null>(null);
-
-  const [isPanning, setIsPanning] = useState(false);
-  const [canPan, setCanPan] = useState(false);
-
-  useEffect(() => {
-    if (!wrapperRef.current || !contentRef.current) return;
+function isEditableElement(target: EventTarget) {
+  return (
+    target instanceof HTMLElement &&
+    target.closest("input, textarea, select, [contenteditable]") !== null
+  );
+}
 
-    const measureBounds = () => {
+export const FlowDiagram = forwardRef<HTMLDivElement, FlowDiagramProps>(
+  function FlowDiagram(
+    {
+      orientation = "horizontal",
+      align = "start",
+      selectionMode = "none",
+      selectedNodeIds,
+      defaultSelectedNodeIds = [],
+      onSelectedNodeIdsChange,
+      zoomable = false,
+      zoom: zoomProp,
+      defaultZoom = 1,
+      onZoomChange,
+      minZoom = 0.25,
+      maxZoom = 2,
+      controls = zoomable,
+      minimap = false,
+      "aria-label": ariaLabel,
+      labels,
+      className,
+      children,
+    },
+    ref,
+  ) {
+    const {
+      zoomIn: zoomInLabel = "Zoom in",
+      zoomOut: zoomOutLabel = "Zoom out",
+      fitView: fitViewLabel = "Fit to view",
+      pending = "Pending",
+      running = "Running",
+      succeeded = "Succeeded",
+      failed = "Failed",
+      skipped = "Skipped",
+    } = labels ?? {};
+    const wrapperRef = useRef<HTMLDivElement>(null);
+    const contentRef = useRef<HTMLDivElement>(null);
+    useImperativeHandle(ref, () => wrapperRef.current as HTMLDivElement, []);
+
+    const x = useMotionValue(0);
+    const y = useMotionValue(0);
+    const [zoom, setZoom] = useControllableState(
+      zoomProp,
+      defaultZoom,
+      onZoomChange,
+    );
+    // Gestures zoom several times between renders, from the latest zoom
+    const zoomRef = useRef(zoom);
+    zoomRef.current = zoom;
+
+    const [dimensions, setDimensions] = useState<FlowViewportSize | null>(null);
+    const bounds = useMemo(
+      () => (dimensions ? getPanBounds(dimensions, zoom) : null),
+      [dimensions, zoom],
+    );
+
+    const [isPanning, setIsPanning] = useState(false);
+    const canScrollX = bounds && bounds.x.min < bounds.x.max;
+    const canScrollY = bounds && bounds.y.min < bounds.y.max;
+    const canPan = canScrollX || canScrollY;
+
+    useEffect(() => {
       if (!wrapperRef.current || !contentRef.current) return;
 
-      const wrapper = wrapperRef.current.getBoundingClientRect();
-      const content = contentRef.current.getBoundingClientRect();
-
-      const availableWidth = wrapper.width - PAN_SPACING.x * 2;
-      const availableHeight = wrapper.height - PAN_SPACING.y * 2;
-
-      setBounds({
-        x: Math.min(0, availableWidth - content.width),
-        y: Math.min(0, availableHeight - content.height),
-      });
+      const measureBounds = () => {
+        const wrapper = wrapperRef.current;
+        const content = contentRef.current;
+        if (!wrapper || !content) return;
+
+        const wrapperRect = wrapper.getBoundingClientRect();
+
+        // Layout sizes and offsets, which zooming does not change
+        const next: FlowViewportSize = {
+          viewportWidth: wrapperRect.width - PAN_SPACING.x * 2,
+          viewportHeight: wrapperRect.height - PAN_SPACING.y * 2,
+          contentWidth: content.offsetWidth,
+          contentHeight: content.offsetHeight,
+          contentLeft: content.offsetLeft - PAN_SPACING.x,
+          contentTop: content.offsetTop - PAN_SPACING.y,
+        };
+        setDimensions((previous) =>
+          JSON.stringify(previous) === JSON.stringify(next) ? previous : next,
+        );
+      };
+
+      measureBounds();
+
+      const resizeObserver = new ResizeObserver(measureBounds);
+      resizeObserver.observe(wrapperRef.current);
+      resizeObserver.observe(contentRef.current);
+
+      return () => resizeObserver.disconnect();
+    }, []);
+
+    useEffect(() => {
+      if (!bounds) return;
 
-      setDimensions({
-        viewportWidth: availableWidth,
-        viewportHeight: availableHeight,
-        contentWidth: content.width,
-        contentHeight: content.height,
+      /**
+       * It's possible for the content to resize, or zoom, after the user
+       * panned. If we're at the edge of the pan and the content gets smaller,
+       * then we've "panned too far". In this case, we transition the pan back
+       * to the new bounds.
+       */
+      x.set(clampPan(x.get(), bounds.x));
+      y.set(clampPan(y.get(), bounds.y));
+    }, [bounds, x, y]);
+
+    useEffect(() => {
+      return () => {
+        document.body.style.cursor = "";
+        document.body.style.userSelect = "";
+      };
+    }, []);
+
+    const toContentRect = useCallback(
+      (rect: DOMRect) => getContentRect(contentRef.current, rect),
+      [],
+    );
+
+    /** Zoom to a level, keeping `point` (in viewport coordinates) in place */
+    const zoomTo = useCallback(
+      (next: number, point?: FlowPoint) => {
+        const previous = zoomRef.current;
+        const nextZoom = clampZoom(next, minZoom, maxZoom);
+        if (nextZoom === previous) return;
+        zoomRef.current = nextZoom;
+
+        if (dimensions) {
+          const origin = point ?? {
+            x: dimensions.viewportWidth / 2,
+            y: dimensions.viewportHeight / 2,
+          };
+          const pan = zoomAtPoint(
+            { x: x.get(), y: y.get(), zoom: previous },
+            nextZoom,
+            origin,
+            dimensions,
+          );
+          const nextBounds = getPanBounds(dimensions, nextZoom);
+          x.set(clampPan(pan.x, nextBounds.x));
+          y.set(clampPan(pan.y, nextBounds.y));
+        }
+        setZoom(nextZoom);
+      },
+      [dimensions, minZoom, maxZoom, setZoom, x, y],
+    );
+
+    /** Pan so that `point` (in content coordinates) is centered, within bounds */
+    const panTo = useCallback(
+      (point: FlowPoint) => {
+        if (!dimensions) return;
+        const pan = centerOn(point, dimensions, zoomRef.current);
+        const currentBounds = getPanBounds(dimensions, zoomRef.current);
+        x.set(clampPan(pan.x, currentBounds.x));
+        y.set(clampPan(pan.y, currentBounds.y));
+      },
+      [dimensions, x, y],
+    );
+
+    const fitView = () => {
+      if (!dimensions) return;
+      const nextZoom = getFitZoom(dimensions, minZoom, maxZoom);
+      zoomRef.current = nextZoom;
+      panTo({
+        x: dimensions.contentWidth / 2,
+        y: dimensions.contentHeight / 2,
       });
+      setZoom(nextZoom);
+    };
 
-      setCanPan(
-        content.width > availableWidth || content.height > availableHeight,
-      );
+    const toViewportPoint = (clientX: number, clientY: number): FlowPoint => {
+      const rect = wrapperRef.current?.getBoundingClientRect();
+      return {
+        x: clientX - (rect?.left ?? 0) - PAN_SPACING.x,
+        y: clientY - (rect?.top ?? 0) - PAN_SPACING.y,
+      };
     };
 
-    measureBounds();
+    // Handle wheel/scroll events for panning, and Ctrl+wheel for zooming
+    useEffect(() => {
+      const wrapper = wrapperRef.current;
+      if (!wrapper) return;
 
-    const resizeObserver = new ResizeObserver(measureBounds);
-    resizeObserver.observe(wrapperRef.current);
-    resizeObserver.observe(contentRef.current);
+      const handleWheel = (e: WheelEvent) => {
+        if (!bounds) return;
 
-    return () => resizeObserver.disconnect();
-  }, []);
+        // Browsers report trackpad pinches as wheel events with ctrlKey set
+        if (zoomable && (e.ctrlKey || e.metaKey)) {
+          e.preventDefault();
+          zoomTo(
+            zoomRef.current * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED),
+            toViewportPoint(e.clientX, e.clientY),
+          );
+          return;
+        }
 
-  useEffect(() => {
-    if (!bounds) return;
+        const canScrollX = bounds.x.min < bounds.x.max;
+        const canScrollY = bounds.y.min < bounds.y.max;
 
-    /**
-     * It's possible for the content to resize after the user panned. If we're
-     * at the edge of the pan and the content gets smaller, then we've "panned
-     * too far". In this case, we transition the pan back to the new bounds.
-     */
-    if (x.get() < bounds.x) {
-      x.set(bounds.x);
-    }
-    if (y.get() < bounds.y) {
-      y.set(bounds.y);
-    }
-  }, [bounds, x, y]);
+        if (!canScrollX && !canScrollY) return;
 
-  useEffect(() => {
-    return () => {
-      document.body.style.cursor = "";
-      document.body.style.userSelect = "";
-    };
-  }, []);
+        e.preventDefault();
 
-  // Handle wheel/scroll events for panning
-  useEffect(() => {
-    const wrapper = wrapperRef.current;
-    if (!wrapper) return;
+        if (canScrollY) {
+          y.set(clampPan(y.get() - e.deltaY, bounds.y));
+        }
 
-    const handleWheel = (e: WheelEvent) => {
-      if (!bounds) return;
+        if (canScrollX) {
+          x.set(clampPan(x.get() - e.deltaX, bounds.x));
+        }
+      };
 
-      const canScrollX = bounds.x < 0;
-      const canScrollY = bounds.y < 0;
+      wrapper.addEventListener("wheel", handleWheel, { passive: false });
+      return () => wrapper.removeEventListener("wheel", handleWheel);
+    }, [bounds, x, y, zoomable, zoomTo]);
 
-      if (!canScrollX && !canScrollY) return;
+    // Touch pinch: two pointers down zoom around their midpoint
+    const pointers = useRef(new Map<number, FlowPoint>());
+    const pinch = useRef<{ distance: number; zoom: number } | null>(null);
 
-      e.preventDefault();
+    const getPinchDistance = () => {
+      const [a, b] = [...pointers.current.values()];
+      return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+    };
 
-      if (canScrollY) {
-        const newY = Math.max(bounds.y, Math.min(0, y.get() - e.deltaY));
-        y.set(newY);
+    const handlePointerDown = (e: ReactPointerEvent) => {
+      if (!zoomable || e.pointerType !== "touch") return;
+      pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pointers.current.size === 2) {
+        pinch.current = { distance: getPinchDistance(), zoom: zoomRef.current };
+        handlePanEnd();
       }
+    };
 
-      if (canScrollX) {
-        const newX = Math.max(bounds.x, Math.min(0, x.get() - e.deltaX));
-        x.set(newX);
-      }
+    const handlePointerMove = (e: ReactPointerEvent) => {
+      if (!pointers.current.has(e.pointerId)) return;
+      pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (!pinch.current || pinch.current.distance === 0) return;
+
+      const [a, b] = [...pointers.current.values()];
+      if (!a || !b) return;
+      zoomTo(
+        pinch.current.zoom * (getPinchDistance() / pinch.current.distance),
+        toViewportPoint((a.x + b.x) / 2, (a.y + b.y) / 2),
+      );
     };
 
-    wrapper.addEventListener("wheel", handleWheel, { passive: false });
-    return () => wrapper.removeEventListener("wheel", handleWheel);
-  }, [bounds, x, y]);
+    const handlePointerUp = (e: ReactPointerEvent) => {
+      pointers.current.delete(e.pointerId);
+      if (pointers.current.size < 2) pinch.current = null;
+    };
 
-  const isEventFromNode = (e: PointerEvent) => {
-    const target = e.target as HTMLElement;
-    return target.closest("[data-node-id]") !== null;
-  };
+    const isEventFromNode = (e: PointerEvent) => {
+      const target = e.target as HTMLElement;
+      // Nodes, and overlays such as the minimap, handle their own pointer events
+      return target.closest("[data-node-id], [data-flow-overlay]") !== null;
+    };
 
-  const handlePanStart = (e: PointerEvent) => {
-    if (isEventFromNode(e)) return;
-    setIsPanning(true);
-    document.body.style.cursor = "grabbing";
-    document.body.style.userSelect = "none";
-  };
+    const handlePanStart = (e: PointerEvent) => {
+      if (isEventFromNode(e) || pinch.current) return;
+      setIsPanning(true);
+      document.body.style.cursor = "grabbing";
+      document.body.style.userSelect = "none";
+    };
 
-  const handlePan = (_: PointerEvent, info: PanInfo) => {
-    if (!bounds || !isPanning) return;
-    x.set(Math.max(bounds.x, Math.min(0, x.get() + info.delta.x)));
-    y.set(Math.max(bounds.y, Math.min(0, y.get() + info.delta.y)));
-  };
+    const handlePan = (_: PointerEvent, info: PanInfo) => {
+      if (!bounds || !isPanning || pinch.current) return;
+      x.set(clampPan(x.get() + info.delta.x, bounds.x));
+      y.set(clampPan(y.get() + info.delta.y, bounds.y));
+    };
 
-  const handlePanEnd = () => {
-    if (!isPanning) return;
-    setIsPanning(false);
-    document.body.style.cursor = "";
-    document.body.style.userSelect = "";
-  };
+    const handlePanEnd = () => {
+      if (!isPanning) return;
+      setIsPanning(false);
+      document.body.style.cursor = "";
+      document.body.style.userSelect = "";
+    };
 
-  // Calculate scrollbar dimensions
-  const canScrollX = bounds && bounds.x < 0;
-  const canScrollY = bounds && bounds.y < 0;
-
-  const scrollThumbWidth =
-    dimensions && dimensions.contentWidth > 0 && dimensions.viewportWidth > 0
-      ? Math.max(
-          MIN_SCROLLBAR_THUMB_SIZE,
-          (dimensions.viewportWidth / dimensions.contentWidth) * 100,
-        )
-      : 0;
-  const scrollThumbHeight =
-    dimensions && dimensions.contentHeight > 0 && dimensions.viewportHeight > 0
-      ? Math.max(
-          MIN_SCROLLBAR_THUMB_SIZE,
-          (dimensions.viewportHeight / dimensions.contentHeight) * 100,
-        )
-      : 0;
-
-  // Transform pan position to scrollbar thumb position (as percentage)
-  const scrollbarXPercent = useTransform(
-    x,
-    [0, bounds?.x ?? 0],
-    [0, 100 - scrollThumbWidth],
-  );
-  const scrollbarYPercent = useTransform(
-    y,
-    [0, bounds?.y ?? 0],
-    [0, 100 - scrollThumbHeight],
-  );
+    // Selection and roving focus
+    const interactive = selectionMode !== "none";
+    const [selected, setSelected] = useControllableState(
+      selectedNodeIds,
+      defaultSelectedNodeIds,
+      onSelectedNodeIdsChange,
+    );
+    const [tabStopId, setTabStopId] = useState<string | null>(null);
+
+    const getNodeElements = () =>
+      Array.from(
+        contentRef.current?.querySelectorAll<HTMLElement>("[data-node-id]") ??
+          [],
+      );
 
-  const scrollTop = useMotionTemplate`${scrollbarYPercent}%`;
-  const scrollLeft = useMotionTemplate`${scrollbarXPercent}%`;
+    const getEventNode = (target: EventTarget) => {
+      if (!(target instanceof HTMLElement)) return null;
+      const node = target.closest<HTMLElement>("[data-node-id]");
+      return node && contentRef.current?.contains(node) ? node : null;
+    };
 
-  const contextValue = useMemo(
-    () => ({ orientation, align, x, y, wrapperRef }),
-    [orientation, align, x, y],
-  );
+    /**
+     * This effect intentionally has no dependencies: nodes mount and unmount
+     * with the children, and the tab stop must move off a removed node.
+     */
+    useEffect(() => {
+      if (!interactive) return;
+      const ids = getNodeElements().map((element) => element.dataset.nodeId!);
+      setTabStopId((previous) =>
+        previous !== null && ids.includes(previous)
+          ? previous
+          : (ids[0] ?? null),
+      );
+    });
+
+    const selectNode = (id: string, mode: "replace" | "toggle" | "add") => {
+      if (mode === "replace") {
+        if (selected.length !== 1 || selected[0] !== id) setSelected([id]);
+      } else if (!selected.includes(id)) {
+        setSelected(selectionMode === "multiple" ? [...selected, id] : [id]);
+      } else if (mode === "toggle") {
+        setSelected(selected.filter((selectedId) => selectedId !== id));
+      }
+    };
 
-  return (
-    <DiagramContext.Provider value={contextValue}>
-      <motion.div
-        ref={wrapperRef}
-        className={cn(
-          "relative overflow-hidden py-16 px-4 grow isolate group",
-          className,
-        )}
-        style={{
-          cursor: canPan && !isPanning ? "grab" : undefined,
-        }}
-        onPanStart={handlePanStart}
-        onPan={handlePan}
-        onPanEnd={handlePanEnd}
-      >
-        <motion.div ref={contentRef} className="w-max mx-auto" style={{ x, y }}>
-          <FlowNodeList>{children}</FlowNodeList>
-        </motion.div>
-
-        {/* Vertical scrollbar */}
-        {canScrollY && (
-          <div className="absolute right-1 top-4 bottom-4 w-1.5 rounded-full bg-kumo-line/50 opacity-0 group-hover:opacity-100">
-            <motion.div
-              className="absolute w-full rounded-full bg-kumo-fill"
-              style={{
-                height: `${scrollThumbHeight}%`,
-                top: scrollTop,
-              }}
-            />
-          </div>
-        )}
-
-        {/* Horizontal scrollbar */}
-        {canScrollX && (
-          <div className="absolute bottom-1 left-4 right-4 h-1.5 rounded-full bg-kumo-line/50 opacity-0 group-hover:opacity-100">
+    /** Pan a node into view when it is outside the viewport */
+    const revealNode = (element: HTMLElement) => {
+      if (!dimensions) return;
+      const rect = toContentRect(element.getBoundingClientRect());
+      const visible = getVisibleRect(dimensions, {
+        x: x.get(),
+        y: y.get(),
+        zoom: zoomRef.current,
+      });
+      const inView =
+        rect.left >= visible.x &&
+        rect.top >= visible.y &&
+        rect.right <= visible.x + visible.width &&
+        rect.bottom <= visible.y + visible.height;
+      if (!inView) {
+        panTo({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
+      }
+    };
+
+    const handleNodeKeyDown = (
+      event: KeyboardEvent<HTMLDivElement>,
+      node: HTMLElement,
+    ) => {
+      const id = node.dataset.nodeId!;
+      const multiple = selectionMode === "multiple";
+
+      if (event.key === "Escape") {
+        if (selected.length === 0) return;
+        event.preventDefault();
+        setSelected([]);
+        return;
+      }
+      if (event.key === " " || event.key === "Enter") {
+        event.preventDefault();
+        selectNode(id, multiple ? "toggle" : "replace");
+        return;
+      }
+      if (multiple && (event.ctrlKey || event.metaKey) && event.key === "a") {
+        event.preventDefault();
+        setSelected(
+          getNodeElements().map((element) => element.dataset.nodeId!),
+        );
+        return;
+      }
+
+      const elements = getNodeElements();
+      const target = getFlowNavigationTarget(
+        elements.map((element) => ({
+          id: element.dataset.nodeId!,
+          rect: element.getBoundingClientRect(),
+        })),
+        id,
+        event.key,
+      );
+      if (!target) return;
+      event.preventDefault();
+      elements
+        .find((element) => element.dataset.nodeId === target)
+        ?.focus({ preventScroll: true });
+      if (multiple && event.shiftKey) selectNode(target, "add");
+    };
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+      const node = interactive ? getEventNode(event.target) : null;
+      // Keys typed into controls inside a node are theirs
+      if (node && node === event.target) {
+        handleNodeKeyDown(event, node);
+        if (event.defaultPrevented) return;
+      }
+
+      if (
+        !zoomable ||
+        event.ctrlKey ||
+        event.metaKey ||
+        event.altKey ||
+        isEditableElement(event.target)
+      ) {
+        return;
+      }
+      if (event.key === "+" || event.key === "=") {
+        event.preventDefault();
+        zoomTo(zoomRef.current * ZOOM_STEP);
+      } else if (event.key === "-") {
+        event.preventDefault();
+        zoomTo(zoomRef.current / ZOOM_STEP);
+      } else if (event.key === "0") {
+        event.preventDefault();
+        fitView();
+      }
+    };
+
+    const handleClick = (event: MouseEvent<HTMLDivElement>) => {
+      const node = interactive ? getEventNode(event.target) : null;
+      if (!node) return;
+      const additive =
+        selectionMode === "multiple" &&
+        (event.ctrlKey || event.metaKey || event.shiftKey);
+      selectNode(node.dataset.nodeId!, additive ? "toggle" : "replace");
+    };
+
+    const handleFocus = (event: React.FocusEvent<HTMLDivElement>) => {
+      const node = interactive ? getEventNode(event.target) : null;
+      if (!node || node !== event.target) return;
+      // Focus scrolls the clipped viewport; panning keeps the node in view
+      if (wrapperRef.current) {
+        wrapperRef.current.scrollTop = 0;
+        wrapperRef.current.scrollLeft = 0;
+      }
+      setTabStopId(node.dataset.nodeId!);
+      revealNode(node);
+    };
+
+    // Calculate scrollbar dimensions
+    const scrollThumbWidth =
+      dimensions && dimensions.contentWidth > 0 && dimensions.viewportWidth > 0
+        ? Math.max(
+            MIN_SCROLLBAR_THUMB_SIZE,
+            (dimensions.viewportWidth / (dimensions.contentWidth * zoom)) * 100,
+          )
+        : 0;
+    const scrollThumbHeight =
+      dimensions &&
+      dimensions.contentHeight > 0 &&
+      dimensions.viewportHeight > 0
+        ? Math.max(
+            MIN_SCROLLBAR_THUMB_SIZE,
+            (dimensions.viewportHeight / (dimensions.contentHeight * zoom)) *
+              100,
+          )
+        : 0;
+
+    // Transform pan position to scrollbar thumb position (as percentage)
+    const scrollbarXPercent = useTransform(
+      x,
+      [bounds?.x.max ?? 0, bounds?.x.min ?? 0],
+      [0, 100 - scrollThumbWidth],
+    );
+    const scrollbarYPercent = useTransform(
+      y,
+      [bounds?.y.max ?? 0, bounds?.y.min ?? 0],
+      [0, 100 - scrollThumbHeight],
+    );
+
+    const scrollTop = useMotionTemplate`${scrollbarYPercent}%`;
+    const scrollLeft = useMotionTemplate`${scrollbarXPercent}%`;
+
+    const contextValue = useMemo(
+      () => ({ orientation, align, x, y, wrapperRef, toContentRect }),
+      [orientation, align, x, y, toContentRect],
+    );
+
+    const interactionValue = useMemo(
+      () => ({
+        interactive,
+        selectedIds: new Set(selected),
+        tabStopId,
+        statusLabels: { pending, running, succeeded, failed, skipped },
+      }),
+      [
+        interactive,
+        selected,
+        tabStopId,
+        pending,
+        running,
+        succeeded,
+        failed,
+        skipped,
+      ],
+    );
+
+    return (
+      <DiagramContext.Provider value={contextValue}>
+        <NodeInteractionContext.Provider value={interactionValue}>
+          <motion.div
+            ref={wrapperRef}
+            className={cn(
+              "relative overflow-hidden py-16 px-4 grow isolate group",
+              className,
+            )}
+            style={{
+              cursor: canPan && !isPanning ? "grab" : undefined,
+              touchAction: zoomable ? "none" : undefined,
+            }}
+            onPanStart={handlePanStart}
+            onPan={handlePan}
+            onPanEnd={handlePanEnd}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onKeyDown={handleKeyDown}
+          >
             <motion.div
-              className="absolute h-full rounded-full bg-kumo-fill"
-              style={{
-                width: `${scrollThumbWidth}%`,
-                left: scrollLeft,
-              }}
-            />
-          </div>
-        )}
-      </motion.div>
-    </DiagramContext.Provider>
-  );
-}
+              ref={contentRef}
+              data-flow-content=""
+              className="w-max mx-auto"
+              style={{ x, y, scale: zoom, originX: 0, originY: 0 }}
+              role={interactive ? "listbox" : undefined}
+              aria-label={interactive ? ariaLabel : undefined}
+              aria-multiselectable={selectionMode === "multiple" || undefined}
+              onClick={handleClick}
+              onFocus={handleFocus}
+            >
+              <FlowNodeList>{children}</FlowNodeList>
+            </motion.div>
+
+            {/* Vertical scrollbar */}
+            {canScrollY && (
+              <div className="absolute right-1 top-4 bottom-4 w-1.5 rounded-full bg-kumo-line/50 opacity-0 group-hover:opacity-100">
+                <motion.div
+                  className="absolute w-full rounded-full bg-kumo-fill"
+                  style={{
+                    height: `${scrollThumbHeight}%`,
+                    top: scrollTop,
+                  }}
+                />
+              </div>
+            )}
+
+            {/* Horizontal scrollbar */}
+            {canScrollX && (
+              <div className="absolute bottom-1 left-4 right-4 h-1.5 rounded-full bg-kumo-line/50 opacity-0 group-hover:opacity-100">
+                <motion.div
+                  className="absolute h-full rounded-full bg-kumo-fill"
+                  style={{
+                    width: `${scrollThumbWidth}%`,
+                    left: scrollLeft,
+                  }}
+                />
+              </div>
+            )}
+
+            {controls && (
+              <FlowControls
+                canZoomIn={zoom < maxZoom}
+                canZoomOut={zoom > minZoom}
+                onZoomIn={() => zoomTo(zoomRef.current * ZOOM_STEP)}
+                onZoomOut={() => zoomTo(zoomRef.current / ZOOM_STEP)}
+                onFitView={fitView}
+                labels={{
+                  zoomIn: zoomInLabel,
+                  zoomOut: zoomOutLabel,
+                  fitView: fitViewLabel,
+                }}
+              />
+            )}
+
+            {minimap && dimensions && (
+              <FlowMinimap
+                size={dimensions}
+                zoom={zoom}
+                x={x}
+                y={y}
+                contentRef={contentRef}
+                toContentRect={toContentRect}
+                onPan={panTo}
+              />
+            )}
+          </motion.div>
+        </NodeInteractionContext.Provider>
+      </DiagramContext.Provider>
+    );
+  },
+);
+
+FlowDiagram.displayName = "Flow";
 
 // ---
 
@@ -311,6 +804,8 @@ export type RectLike = {
 export type NodeData = {
   parallel?: boolean;
   disabled?: boolean;
+  /** Status of the node that incoming connectors lead to */
+  status?: FlowNodeStatus;
   start?: RectLike | null;
   end?: RectLike | null;
 };
@@ -355,6 +850,37 @@ export const useOptionalNode = (props: NodeData) => {
   return { index, id };
 };
 
+/**
+ * Convert a client rect to the coordinates of the diagram content (its
+ * `data-flow-content` element), which do not change when the diagram is
+ * panned or zoomed.
+ */
+export function getContentRect(
+  content: HTMLElement | null,
+  rect: DOMRect,
+): RectLike {
+  const origin = content?.getBoundingClientRect();
+  // The scale as rendered, which can trail the zoom state by a frame
+  const scale =
+    content && origin && content.offsetWidth > 0
+      ? origin.width / content.offsetWidth
+      : 1;
+  const left = (rect.left - (origin?.left ?? 0)) / scale;
+  const top = (rect.top - (origin?.top ?? 0)) / scale;
+  const width = rect.width / scale;
+  const height = rect.height / scale;
+  return {
+    x: left,
+    y: top,
+    left,
+    top,
+    right: left + width,
+    bottom: top + height,
+    width,
+    height,
+  };
+}
+
 export const getNodeRect = (
   node: DescendantInfo<NodeData> | undefined,
   { type = "start" }: { type?: "start" | "end" },
@@ -364,14 +890,17 @@ export const getNodeRect = (
 };
 
 export function FlowNodeList({ children }: { children: ReactNode }) {
-  const { orientation, align } = useDiagramContext();
+  const { orientation, align, toContentRect } = useDiagramContext();
+  const interactive = useNodeInteraction()?.interactive ?? false;
   const descendants = useNodeGroup();
   const containerRef = useRef<HTMLDivElement>(null);
 
   const connectors = useMemo(() => {
     const edges: Connector[] = [];
     const nodes = descendants.descendants;
-    const containerRect = containerRef.current?.getBoundingClientRect();
+    const containerRect = containerRef.current
+      ? toContentRect(containerRef.current.getBoundingClientRect())
+      : undefined;
 
     const offsetX = containerRect?.left ?? 0;
     const offsetY = containerRect?.top ?? 0;
@@ -388,19 +917,34 @@ export function FlowNodeList({ children }: { children: ReactNode }) {
       if (currentRect && nextRect) {
         const isDisabled =
           currentNode.props.disabled || nextNode.props.disabled;
-        edges.push({
-          x1: currentRect.left - offsetX + currentRect.width,
-          y1: currentRect.top - offsetY + currentRect.height / 2,
-          x2: nextRect.left - offsetX,
-          y2: nextRect.top - offsetY + nextRect.height / 2,
-          disabled: isDisabled,
-          single: true,
-        });
+        const isRunning = nextNode.props.status === "running";
+        // Connect the trailing edge of one node to the leading edge of the next
+        edges.push(
+          orientation === "vertical"
+            ? {
+                x1: currentRect.left - offsetX + currentRect.width / 2,
+                y1: currentRect.top - offsetY + currentRect.height,
+                x2: nextRect.left - offsetX + nextRect.width / 2,
+                y2: nextRect.top - offsetY,
+                disabled: isDisabled,
+                running: isRunning,
+                single: true,
+              }
+            : {
+                x1: currentRect.left - offsetX + currentRect.width,
+                y1: currentRect.top - offsetY + currentRect.height / 2,
+                x2: nextRect.left - offsetX,
+                y2: nextRect.top - offsetY + nextRect.height / 2,
+                disabled: isDisabled,
+                running: isRunning,
+                single: true,
+              },
+        );
       }
     }
 
     return edges;
-  }, [descendants.descendants]);
+  }, [descendants.descendants, orientation, toContentRect]);
 
   // Get the first and last node's anchor points for parent registration
   const firstNode = descendants.descendants[0];
@@ -410,15 +954,18 @@ export function FlowNodeList({ children }: { children: ReactNode }) {
   // Use the last node's "start" anchor as our "start" (outgoing connector point)
   const endAnchor = firstNode?.props?.end ?? null;
   const startAnchor = lastNode?.props?.start ?? null;
+  // Connectors into the list lead to its first node
+  const status = firstNode?.props?.status;
 
   const nodeProps = useMemo(
     () => ({
       parallel: false,
       disabled: false,
+      status,
       start: startAnchor,
       end: endAnchor,
     }),
-    [startAnchor, endAnchor],
+    [startAnchor, endAnchor, status],
   );
 
   // Register with parent context if we're nested (e.g., inside Flow.Parallel)
@@ -428,6 +975,7 @@ export function FlowNodeList({ children }: { children: ReactNode }) {
     <DescendantsProvider value={descendants}>
       <div className="relative" ref={containerRef}>
         <ul
+          role={interactive ? "none" : undefined}
           className={cn(
             "ml-0 list-none",
             orientation === "vertical"
@@ -435,6 +983,10 @@ export function FlowNodeList({ children }: { children: ReactNode }) {
               : "flex gap-16",
             orientation === "horizontal" &&
               (align === "center" ? "items-center" : "items-start"),
+            orientation === "vertical" &&
+              (align === "center"
+                ? "justify-items-center"
+                : "justify-items-start"),
           )}
         >
           {children}
@@ -0,0 +1,332 @@
+import type { RefObject } from "react";
+import { getContentRect, type FlowNodeStatus } from "./diagram";
+
+/**
+ * Export of a rendered Flow diagram to a standalone SVG or PNG: nodes are
+ * drawn as Kumo's default node card with their text, and connectors reuse
+ * the paths `createRoundedPath` drew. Colors are resolved from the Kumo
+ * theme where the diagram is rendered and inlined, so the file looks the same
+ * wherever it is opened.
+ */
+
+export type FlowExportTheme = "light" | "dark";
+
+export interface FlowExportOptions {
+  /** File format */
+  format: "svg" | "png";
+  /** Kumo color theme to draw with. @default "light" */
+  theme?: FlowExportTheme;
+  /** Space around the diagram, in pixels. @default 16 */
+  padding?: number;
+  /** Pixel ratio of the PNG. @default 2 */
+  scale?: number;
+}
+
+/** Kumo theme token that each export color is drawn with */
+const PALETTE_TOKENS = {
+  background: "--color-kumo-elevated",
+  node: "--color-kumo-base",
+  line: "--color-kumo-line",
+  text: "--text-color-kumo-default",
+  subtle: "--text-color-kumo-subtle",
+  connector: "--text-color-kumo-inactive",
+  brand: "--text-color-kumo-brand",
+  success: "--color-kumo-success",
+  danger: "--color-kumo-danger",
+} as const;
+
+type FlowExportPalette = Record<keyof typeof PALETTE_TOKENS, string>;
+
+const toHex = (value: number) => value.toString(16).padStart(2, "0");
+
+/**
+ * `color` in sRGB, as not every SVG viewer supports `oklch()` and the other
+ * CSS color spaces. Colors are converted by painting them on a canvas, when
+ * there is one.
+ */
+function toSrgb(
+  color: string,
+  getContext: () => CanvasRenderingContext2D | null,
+) {
+  if (/^(#|rgba?\()/.test(color)) return color;
+  const context = getContext();
+  if (!context) return color;
+  context.clearRect(0, 0, 1, 1);
+  context.fillStyle = color;
+  context.fillRect(0, 0, 1, 1);
+  const [red, green, blue, alpha] = context.getImageData(0, 0, 1, 1).data;
+  return alpha === 255
+    ? `#${toHex(red!)}${toHex(green!)}${toHex(blue!)}`
+    : `rgba(${red}, ${green}, ${blue}, ${round(alpha! / 255)})`;
+}
+
+/**
+ * Colors of the Kumo tokens in `theme`, read from the computed style of an
+ * element placed in the diagram, so theme overrides around it apply.
+ */
+function resolvePalette(
+  content: HTMLElement,
+  theme: FlowExportTheme,
+): FlowExportPalette {
+  const probe = content.ownerDocument.createElement("div");
+  probe.hidden = true;
+  probe.dataset.mode = theme;
+  probe.style.colorScheme = theme;
+  content.append(probe);
+
+  let context: CanvasRenderingContext2D | null | undefined;
+  const getContext = () => {
+    context ??=
+      content.ownerDocument
+        .createElement("canvas")
+        .getContext("2d", { willReadFrequently: true }) ?? null;
+    return context;
+  };
+  try {
+    const palette = {} as FlowExportPalette;
+    for (const [name, token] of Object.entries(PALETTE_TOKENS)) {
+      probe.style.color = `var(${token})`;
+      // Unresolved tokens (e.g. without Kumo's styles) keep SVG's default
+      const color = getComputedStyle(probe).color;
+      palette[name as keyof FlowExportPalette] = color
+        ? toSrgb(color, getContext)
+        : "currentColor";
+    }
+    return palette;
+  } finally {
+    probe.remove();
+  }
+}
+
+/** Matches the arrowhead marker of `Connectors`. */
+const ARROWHEAD_PATH =
+  "M 0,1.5 Q 0,0 1.5,0 Q 3.5,1 5.8,3.2 Q 6.5,4 5.8,4.8 Q 3.5,7 1.5,8 Q 0,8 0,6.5 Z";
+
+/** Node card styling (`py-2 px-3 rounded-md text-base`) */
+const NODE_PADDING_X = 12;
+const NODE_RADIUS = 6;
+const FONT_SIZE = 14;
+const FONT_FAMILY = "ui-sans-serif, system-ui, sans-serif";
+
+function escapeXml(value: string) {
+  return value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[
+        char
+      ]!,
+  );
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Visible text of a node, without its screen-reader-only status */
+function getNodeText(element: HTMLElement) {
+  let text = "";
+  const walker = element.ownerDocument.createTreeWalker(
+    element,
+    NodeFilter.SHOW_TEXT,
+  );
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.parentElement?.closest(".sr-only")) continue;
+    text += node.textContent ?? "";
+  }
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function nodeStyle(
+  status: FlowNodeStatus | undefined,
+  palette: FlowExportPalette,
+) {
+  switch (status) {
+    case "running":
+      return { stroke: palette.brand, strokeWidth: 2, text: palette.text };
+    case "succeeded":
+      return { stroke: palette.success, strokeWidth: 1, text: palette.text };
+    case "failed":
+      return { stroke: palette.danger, strokeWidth: 2, text: palette.text };
+    case "pending":
+      return { stroke: palette.line, strokeWidth: 1, text: palette.subtle };
+    default:
+      return { stroke: palette.line, strokeWidth: 1, text: palette.text };
+  }
+}
+
+function getFlowContent(target: RefObject<HTMLElement | null> | HTMLElement) {
+  const element = "current" in target ? target.current : target;
+  const content = element?.matches("[data-flow-content]")
+    ? element
+    : element?.querySelector<HTMLElement>("[data-flow-content]");
+  if (!content) {
+    throw new Error("exportFlowDiagram: no rendered Flow diagram found");
+  }
+  return content;
+}
+
+/** Serialize a rendered Flow diagram to a standalone SVG document. */
+export function serializeFlowDiagram(
+  target: RefObject<HTMLElement | null> | HTMLElement,
+  {
+    theme = "light",
+    padding = 16,
+  }: Pick<FlowExportOptions, "theme" | "padding"> = {},
+): { svg: string; width: number; height: number } {
+  const content = getFlowContent(target);
+  const palette = resolvePalette(content, theme);
+  const toRect = (element: Element) =>
+    getContentRect(content, element.getBoundingClientRect());
+
+  const connectors: string[] = [];
+  for (const svg of content.querySelectorAll("svg[data-flow-connectors]")) {
+    const origin = toRect(svg);
+    const parts: string[] = [];
+    for (const path of svg.querySelectorAll("path[data-index]")) {
+      const running = path.hasAttribute("data-running");
+      parts.push(
+        `<path d="${escapeXml(path.getAttribute("d") ?? "")}" fill="none" stroke="${
+          running ? palette.brand : palette.connector
+        }" stroke-width="2"${running ? ' stroke-dasharray="6 4"' : ""}${
+          path.hasAttribute("data-disabled") ? ' opacity="0.4"' : ""
+        } marker-end="url(#${running ? "flow-arrow-running" : "flow-arrow"})"/>`,
+      );
+    }
+    for (const junction of svg.querySelectorAll("rect[data-flow-junction]")) {
+      const transform = junction.parentElement?.getAttribute("transform");
+      parts.push(
+        `<g${transform ? ` transform="${escapeXml(transform)}"` : ""}><rect x="${junction.getAttribute("x")}" y="${junction.getAttribute("y")}" width="${junction.getAttribute("width")}" height="${junction.getAttribute("height")}" rx="1" fill="${palette.connector}"/></g>`,
+      );
+    }
+    if (parts.length > 0) {
+      connectors.push(
+        `<g transform="translate(${round(origin.left)} ${round(origin.top)})">${parts.join("")}</g>`,
+      );
+    }
+  }
+
+  const nodes: string[] = [];
+  for (const element of content.querySelectorAll<HTMLElement>(
+    "[data-node-id]",
+  )) {
+    const rect = toRect(element);
+    const status = element.dataset.status as FlowNodeStatus | undefined;
+    const style = nodeStyle(status, palette);
+    const text = getNodeText(element);
+    nodes.push(
+      `<g${status === "skipped" ? ' opacity="0.5"' : ""}><rect x="${round(rect.left)}" y="${round(rect.top)}" width="${round(rect.width)}" height="${round(rect.height)}" rx="${NODE_RADIUS}" fill="${palette.node}" stroke="${style.stroke}" stroke-width="${style.strokeWidth}"/>${
+        text
+          ? `<text x="${round(rect.left + NODE_PADDING_X)}" y="${round(rect.top + rect.height / 2)}" dominant-baseline="central" fill="${style.text}">${escapeXml(text)}</text>`
+          : ""
+      }</g>`,
+    );
+  }
+
+  const width = Math.ceil(content.offsetWidth + padding * 2);
+  const height = Math.ceil(content.offsetHeight + padding * 2);
+  const markers = [
+    ["flow-arrow", palette.connector],
+    ["flow-arrow-running", palette.brand],
+  ]
+    .map(
+      ([id, color]) =>
+        `<marker id="${id}" markerWidth="8" markerHeight="8" refX="0" refY="4" orient="auto" markerUnits="userSpaceOnUse"><path d="${ARROWHEAD_PATH}" fill="${color}"/></marker>`,
+    )
+    .join("");
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}">`,
+    `<defs>${markers}</defs>`,
+    `<rect width="100%" height="100%" fill="${palette.background}"/>`,
+    `<g transform="translate(${padding} ${padding})">`,
+    ...connectors,
+    ...nodes,
+    "</g>",
+    "</svg>",
+  ].join("");
+
+  return { svg, width, height };
+}
+
+/**
+ * Rasterize an SVG document to a PNG. Needs a DOM canvas, so it is not
+ * available in server environments.
+ */
+async function rasterize(
+  svg: string,
+  width: number,
+  height: number,
+  scale: number,
+): Promise<Blob> {
+  const canvas =
+    typeof document === "undefined" ? null : document.createElement("canvas");
+  const context = canvas?.getContext("2d");
+  if (!canvas || !context) {
+    throw new Error("exportFlowDiagram: PNG export needs a canvas");
+  }
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.addEventListener("load", () => resolve(), { once: true });
+      image.addEventListener(
+        "error",
+        () => reject(new Error("exportFlowDiagram: could not render the SVG")),
+        { once: true },
+      );
+      image.src = url;
+    });
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob
+          ? resolve(blob)
+          : reject(new Error("exportFlowDiagram: could not encode the PNG")),
+      "image/png",
+    ),
+  );
+}
+
+/**
+ * Export a rendered Flow diagram, given a ref to `Flow` (or its element), as
+ * an SVG or PNG file for documents and incident reports. Nodes, their text
+ * and status, and connectors are drawn with the chosen theme's Kumo colors;
+ * custom node content is reduced to its text.
+ *
+ * PNG export rasterizes the SVG on a canvas, so it needs a browser.
+ *
+ * @example
+ * ```tsx
+ * const flowRef = useRef<HTMLDivElement>(null);
+ *
+ * <Flow ref={flowRef}>...</Flow>
+ * <Button
+ *   onClick={async () => {
+ *     const blob = await exportFlowDiagram(flowRef, { format: "png", theme: "dark" });
+ *     download(blob, "pipeline.png");
+ *   }}
+ * >
+ *   Export
+ * </Button>
+ * ```
+ */
+export async function exportFlowDiagram(
+  target: RefObject<HTMLElement | null> | HTMLElement,
+  { format, theme, padding, scale = 2 }: FlowExportOptions,
+): Promise<Blob> {
+  const { svg, width, height } = serializeFlowDiagram(target, {
+    theme,
+    padding,
+  });
+  if (format === "svg") {
+    return new Blob([svg], { type: "image/svg+xml" });
+  }
+  return rasterize(svg, width, height, scale);
+}
@@ -0,0 +1,386 @@
+import { createRef } from "react";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { Flow, exportFlowDiagram } from "./index";
+import { createRoundedPath } from "./connectors";
+import { serializeFlowDiagram } from "./export";
+import { getFlowNavigationTarget } from "./navigation";
+import {
+  getFitZoom,
+  getPanBounds,
+  zoomAtPoint,
+  type FlowViewportSize,
+} from "./viewport";
+import {
+  layoutFlowGraph,
+  type FlowGraphEdge,
+  type FlowGraphLayoutItem,
+} from "./graph-layout";
+
+const node = (id: string) => ({ id });
+const edge = (source: string, target: string): FlowGraphEdge => ({
+  source,
+  target,
+});
+
+/** Layout as nested arrays of ids, with parallel groups as arrays of branches. */
+function shape(items: FlowGraphLayoutItem[]): unknown[] {
+  return items.map((item) =>
+    item.type === "node" ? item.node.id : item.branches.map(shape),
+  );
+}
+
+describe("layoutFlowGraph", () => {
+  it("lays out sequences and joins parallel branches", () => {
+    const items = layoutFlowGraph(["start", "a1", "a2", "b", "end"].map(node), [
+      edge("start", "a1"),
+      edge("a1", "a2"),
+      edge("start", "b"),
+      edge("a2", "end"),
+      edge("b", "end"),
+    ]);
+    expect(shape(items)).toEqual(["start", [["a1", "a2"], ["b"]], "end"]);
+  });
+
+  it("nests branches and starts with parallel roots", () => {
+    const items = layoutFlowGraph(
+      ["x", "y", "fork", "p", "q", "merge", "done"].map(node),
+      [
+        edge("x", "fork"),
+        edge("y", "fork"),
+        edge("fork", "p"),
+        edge("fork", "q"),
+        edge("p", "merge"),
+        edge("q", "merge"),
+        edge("merge", "done"),
+      ],
+    );
+    expect(shape(items)).toEqual([
+      [["x"], ["y"]],
+      "fork",
+      [["p"], ["q"]],
+      "merge",
+      "done",
+    ]);
+  });
+
+  it("leaves branches without a join open and skips bypass edges", () => {
+    expect(
+      shape(
+        layoutFlowGraph(["a", "b", "c"].map(node), [
+          edge("a", "b"),
+          edge("a", "c"),
+        ]),
+      ),
+    ).toEqual(["a", [["b"], ["c"]]]);
+    expect(
+      shape(
+        layoutFlowGraph(["a", "b", "c"].map(node), [
+          edge("a", "b"),
+          edge("b", "c"),
+          edge("a", "c"),
+        ]),
+      ),
+    ).toEqual(["a", "b", "c"]);
+  });
+
+  it("rejects unknown nodes, cycles and crossing branches", () => {
+    expect(() => layoutFlowGraph([node("a")], [edge("a", "b")])).toThrow(
+      'unknown node "b"',
+    );
+    expect(() =>
+      layoutFlowGraph(["a", "b"].map(node), [edge("a", "b"), edge("b", "a")]),
+    ).toThrow("cycle");
+    expect(() =>
+      layoutFlowGraph(["a", "b", "c", "d", "e"].map(node), [
+        edge("a", "b"),
+        edge("a", "c"),
+        edge("b", "d"),
+        edge("c", "d"),
+        edge("c", "e"),
+        edge("d", "e"),
+      ]),
+    ).toThrow('node "d"');
+  });
+});
+
+describe("createRoundedPath", () => {
+  it("rounds both corners of a vertical S-curve", () => {
+    const path = createRoundedPath(
+      { x1: 0, y1: 0, x2: 100, y2: 100 },
+      { orientation: "vertical", single: true },
+    );
+    expect(path.match(/Q/g)).toHaveLength(2);
+    expect(path.endsWith("L 100 92")).toBe(true);
+  });
+});
+
+describe("Flow.Graph", () => {
+  const nodes = [
+    { id: "fetch", label: "Fetch image" },
+    { id: "resize" },
+    { id: "scan", disabled: true },
+    { id: "store" },
+  ];
+  const edges = [
+    edge("fetch", "resize"),
+    edge("fetch", "scan"),
+    edge("resize", "store"),
+    edge("scan", "store"),
+  ];
+
+  it("renders node labels, falling back to ids", () => {
+    render(
+      <Flow orientation="vertical">
+        <Flow.Graph nodes={nodes} edges={edges} />
+      </Flow>,
+    );
+
+    expect(
+      screen.getAllByRole("listitem").map((item) => item.textContent),
+    ).toEqual(["Fetch image", "resize", "scan", "store"]);
+  });
+
+  it("renders nodes with renderNode", () => {
+    render(
+      <Flow>
+        <Flow.Graph
+          nodes={nodes}
+          edges={edges}
+          renderNode={(graphNode) => graphNode.id.toUpperCase()}
+        />
+      </Flow>,
+    );
+
+    expect(
+      screen.getAllByRole("listitem").map((item) => item.textContent),
+    ).toEqual(["FETCH", "RESIZE", "SCAN", "STORE"]);
+  });
+});
+
+describe("viewport", () => {
+  const size: FlowViewportSize = {
+    viewportWidth: 400,
+    viewportHeight: 300,
+    contentWidth: 200,
+    contentHeight: 600,
+    contentLeft: 100,
+    contentTop: 0,
+  };
+
+  it("centers content that fits and bounds content that overflows", () => {
+    const bounds = getPanBounds(size, 1);
+    expect(bounds.x).toEqual({ min: 0, max: 0 });
+    expect(bounds.y.min).toBe(-300);
+    // At 4x the content is 800px wide, from its layout offset of 100px
+    expect(getPanBounds(size, 4).x).toEqual({ min: -500, max: -100 });
+  });
+
+  it("zooms around a point and fits content into view", () => {
+    const pan = zoomAtPoint(
+      { x: 0, y: 0, zoom: 1 },
+      2,
+      { x: 150, y: 50 },
+      size,
+    );
+    // The content point under (150, 50) is (50, 50); at 2x it stays put
+    expect(pan).toEqual({ x: -50, y: -50 });
+    expect(getFitZoom(size, 0.25, 2)).toBe(0.5);
+    expect(getFitZoom(size, 0.75, 2)).toBe(0.75);
+  });
+});
+
+describe("getFlowNavigationTarget", () => {
+  // start -> (a above b) -> end, left to right
+  const nodes = [
+    { id: "start", rect: { left: 0, top: 50, width: 40, height: 20 } },
+    { id: "a", rect: { left: 100, top: 20, width: 40, height: 20 } },
+    { id: "b", rect: { left: 100, top: 80, width: 40, height: 20 } },
+    { id: "end", rect: { left: 200, top: 50, width: 40, height: 20 } },
+  ];
+
+  it("moves to the nearest node in the arrow's direction", () => {
+    expect(getFlowNavigationTarget(nodes, "a", "ArrowDown")).toBe("b");
+    expect(getFlowNavigationTarget(nodes, "b", "ArrowRight")).toBe("end");
+    // Equally near nodes resolve in document order
+    expect(getFlowNavigationTarget(nodes, "end", "ArrowLeft")).toBe("a");
+    expect(getFlowNavigationTarget(nodes, "start", "ArrowLeft")).toBe(
+      undefined,
+    );
+  });
+
+  it("moves to the first and last node with Home and End", () => {
+    expect(getFlowNavigationTarget(nodes, "b", "Home")).toBe("start");
+    expect(getFlowNavigationTarget(nodes, "b", "End")).toBe("end");
+    expect(getFlowNavigationTarget(nodes, "b", "Tab")).toBe(undefined);
+  });
+});
+
+describe("Flow interaction", () => {
+  const steps = (
+    <>
+      <Flow.Node id="fetch" status="succeeded">
+        Fetch
+      </Flow.Node>
+      <Flow.Node id="resize" status="running">
+        Resize
+      </Flow.Node>
+      <Flow.Node id="store" status="pending">
+        Store
+      </Flow.Node>
+    </>
+  );
+
+  it("keeps nodes static by default", () => {
+    render(<Flow>{steps}</Flow>);
+
+    expect(screen.queryByRole("listbox")).toBe(null);
+    expect(screen.getAllByRole("listitem")[0]!.getAttribute("tabindex")).toBe(
+      null,
+    );
+  });
+
+  it("selects a node on click, with one tab stop", () => {
+    const onSelectedNodeIdsChange = vi.fn();
+    render(
+      <Flow
+        selectionMode="single"
+        aria-label="Run steps"
+        onSelectedNodeIdsChange={onSelectedNodeIdsChange}
+      >
+        {steps}
+      </Flow>,
+    );
+
+    const options = screen.getAllByRole("option");
+    expect(screen.getByRole("listbox").getAttribute("aria-label")).toBe(
+      "Run steps",
+    );
+    expect(options.map((option) => option.tabIndex)).toEqual([0, -1, -1]);
+
+    fireEvent.click(options[1]!);
+    expect(onSelectedNodeIdsChange).toHaveBeenLastCalledWith(["resize"]);
+    expect(options[1]!.getAttribute("aria-selected")).toBe("true");
+
+    fireEvent.click(options[2]!);
+    expect(onSelectedNodeIdsChange).toHaveBeenLastCalledWith(["store"]);
+  });
+
+  it("toggles nodes in multiple mode and clears with Escape", () => {
+    const onSelectedNodeIdsChange = vi.fn();
+    render(
+      <Flow
+        selectionMode="multiple"
+        defaultSelectedNodeIds={["fetch"]}
+        onSelectedNodeIdsChange={onSelectedNodeIdsChange}
+      >
+        {steps}
+      </Flow>,
+    );
+
+    const options = screen.getAllByRole("option");
+    expect(
+      screen.getByRole("listbox").getAttribute("aria-multiselectable"),
+    ).toBe("true");
+
+    fireEvent.click(options[2]!, { metaKey: true });
+    expect(onSelectedNodeIdsChange).toHaveBeenLastCalledWith([
+      "fetch",
+      "store",
+    ]);
+
+    fireEvent.keyDown(options[0]!, { key: " " });
+    expect(onSelectedNodeIdsChange).toHaveBeenLastCalledWith(["store"]);
+
+    fireEvent.keyDown(options[0]!, { key: "a", ctrlKey: true });
+    expect(onSelectedNodeIdsChange).toHaveBeenLastCalledWith([
+      "fetch",
+      "resize",
+      "store",
+    ]);
+
+    fireEvent.keyDown(options[0]!, { key: "Escape" });
+    expect(onSelectedNodeIdsChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it("shows statuses and animates connectors into running nodes", () => {
+    const { container } = render(<Flow>{steps}</Flow>);
+
+    const [fetch, resize] = screen.getAllByRole("listitem");
+    expect(fetch!.getAttribute("data-status")).toBe("succeeded");
+    expect(resize!.textContent).toBe("Resize (Running)");
+    expect(container.querySelectorAll("path[data-running]")).toHaveLength(1);
+  });
+
+  it("zooms with the controls and keys", () => {
+    const onZoomChange = vi.fn();
+    render(
+      <Flow selectionMode="single" zoomable onZoomChange={onZoomChange}>
+        {steps}
+      </Flow>,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Zoom in" }));
+    expect(onZoomChange).toHaveBeenLastCalledWith(1.25);
+
+    fireEvent.keyDown(screen.getAllByRole("option")[0]!, { key: "-" });
+    expect(onZoomChange).toHaveBeenLastCalledWith(1);
+    expect(screen.getByRole("button", { name: "Fit to view" })).toBeTruthy();
+  });
+});
+
+describe("exportFlowDiagram", () => {
+  // Kumo's theme isn't loaded in tests, so tokens are set per mode here
+  beforeAll(() => {
+    const style = document.createElement("style");
+    style.textContent = `
+      :root { --color-kumo-elevated: #fcfcfc; --color-kumo-success: #00c950; }
+      [data-mode="dark"] { --color-kumo-elevated: #0a0a0a; --color-kumo-success: #008236; }
+    `;
+    document.head.append(style);
+    return () => style.remove();
+  });
+
+  const renderRun = () => {
+    const ref = createRef<HTMLDivElement>();
+    render(
+      <Flow ref={ref}>
+        <Flow.Node status="succeeded">Fetch &amp; store</Flow.Node>
+        <Flow.Node status="running">Resize</Flow.Node>
+      </Flow>,
+    );
+    return ref;
+  };
+
+  it("serializes nodes, labels and connectors with theme colors", () => {
+    const ref = renderRun();
+    const { svg } = serializeFlowDiagram(ref, { theme: "dark" });
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(
+      true,
+    );
+    expect(svg).toContain('<rect width="100%" height="100%" fill="#0a0a0a"/>');
+    expect(svg).toContain(">Fetch &amp; store</text>");
+    // The status is only read out to screen readers, not drawn as text
+    expect(svg).toContain(">Resize</text>");
+    expect(svg).not.toContain("Running");
+    expect(svg).toContain('stroke="#008236"');
+    expect(svg).toContain('marker-end="url(#flow-arrow-running)"');
+    expect(svg).not.toContain("class=");
+  });
+
+  it("exports SVG files and needs a canvas for PNG", async () => {
+    const ref = renderRun();
+
+    const blob = await exportFlowDiagram(ref, { format: "svg" });
+    expect(blob.type).toBe("image/svg+xml");
+    expect(await blob.text()).toContain('fill="#fcfcfc"');
+
+    await expect(exportFlowDiagram(ref, { format: "png" })).rejects.toThrow(
+      "PNG export needs a canvas",
+    );
+    await expect(
+      exportFlowDiagram(createRef<HTMLDivElement>(), { format: "svg" }),
+    ).rejects.toThrow("no rendered Flow diagram");
+  });
+});
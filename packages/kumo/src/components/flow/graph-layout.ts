@@ -0,0 +1,151 @@
+import type { ReactNode } from "react";
+import type { FlowNodeStatus } from "./diagram";
+
+/**
+ * Layout for `Flow.Graph`: turns `{ nodes, edges }` data into the sequences
+ * and parallel branches that `Flow.Node`, `Flow.Parallel` and `Flow.List`
+ * render. Pure functions, shared by the component and tests.
+ */
+
+/** A node of a flow graph. */
+export interface FlowGraphNode<TData = unknown> {
+  /** Unique node id, referenced by edges */
+  id: string;
+  /** Content of the node. Defaults to the id. */
+  label?: ReactNode;
+  /** Grey out the connectors to and from the node */
+  disabled?: boolean;
+  /** Run state of the node */
+  status?: FlowNodeStatus;
+  /** Extra data for `renderNode` */
+  data?: TData;
+}
+
+/** A directed edge between two nodes of a flow graph. */
+export interface FlowGraphEdge {
+  /** Id of the node the edge leaves */
+  source: string;
+  /** Id of the node the edge enters */
+  target: string;
+}
+
+/** A node, or parallel branches that each hold a sequence of items. */
+export type FlowGraphLayoutItem<TData = unknown> =
+  | { type: "node"; node: FlowGraphNode<TData> }
+  | { type: "parallel"; branches: FlowGraphLayoutItem<TData>[][] };
+
+/**
+ * Lay out a directed acyclic graph as a sequence of nodes and parallel
+ * branches. A node with several outgoing edges starts parallel branches,
+ * which end at their join: the first node every branch leads to. Several
+ * nodes without incoming edges start parallel branches at the top level.
+ *
+ * Edges that skip straight to a join (bypassing the other branches) are
+ * not drawn. Throws for unknown node ids, cycles, and graphs that cannot
+ * be drawn as nested sequences and branches (e.g. an edge from inside one
+ * branch into another).
+ */
+export function layoutFlowGraph<TData>(
+  nodes: FlowGraphNode<TData>[],
+  edges: FlowGraphEdge[],
+): FlowGraphLayoutItem<TData>[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const successors = new Map<string, string[]>(
+    nodes.map((node) => [node.id, []]),
+  );
+  const inDegree = new Map(nodes.map((node) => [node.id, 0]));
+
+  for (const { source, target } of edges) {
+    for (const id of [source, target]) {
+      if (!byId.has(id)) {
+        throw new Error(`Flow.Graph: edge references unknown node "${id}"`);
+      }
+    }
+    // Repeated edges add nothing to the drawing
+    const targets = successors.get(source)!;
+    if (targets.includes(target)) continue;
+    targets.push(target);
+    inDegree.set(target, inDegree.get(target)! + 1);
+  }
+
+  // Topological order (Kahn's algorithm), to find joins and detect cycles
+  const order = new Map<string, number>();
+  const remaining = new Map(inDegree);
+  const queue = nodes.filter((node) => inDegree.get(node.id) === 0);
+  const roots = queue.map((node) => node.id);
+  for (let index = 0; index < queue.length; index++) {
+    const { id } = queue[index]!;
+    order.set(id, index);
+    for (const target of successors.get(id)!) {
+      remaining.set(target, remaining.get(target)! - 1);
+      if (remaining.get(target) === 0) queue.push(byId.get(target)!);
+    }
+  }
+  if (order.size !== nodes.length) {
+    throw new Error("Flow.Graph: edges must not form a cycle");
+  }
+
+  // Nodes reachable from each node, including itself
+  const reachable = new Map<string, Set<string>>();
+  const reach = (id: string): Set<string> => {
+    let result = reachable.get(id);
+    if (!result) {
+      result = new Set([id]);
+      for (const target of successors.get(id)!) {
+        for (const reached of reach(target)) result.add(reached);
+      }
+      reachable.set(id, result);
+    }
+    return result;
+  };
+
+  // The earliest node that every branch reaches
+  const findJoin = (starts: string[]): string | undefined => {
+    let join: string | undefined;
+    for (const id of reach(starts[0]!)) {
+      if (!starts.every((start) => reach(start).has(id))) continue;
+      if (join === undefined || order.get(id)! < order.get(join)!) join = id;
+    }
+    return join;
+  };
+
+  const placed = new Set<string>();
+  const sequence = (
+    starts: string[],
+    stop: string | undefined,
+  ): FlowGraphLayoutItem<TData>[] => {
+    const items: FlowGraphLayoutItem<TData>[] = [];
+    let current = starts;
+
+    while (current.length > 0) {
+      if (current.length === 1) {
+        const id = current[0]!;
+        if (id === stop) break;
+        if (placed.has(id)) {
+          throw new Error(
+            `Flow.Graph: node "${id}" is reached from more than one branch without a shared join`,
+          );
+        }
+        placed.add(id);
+        items.push({ type: "node", node: byId.get(id)! });
+        current = successors.get(id)!;
+        continue;
+      }
+
+      // Branches without a join of their own still end at the enclosing one
+      const join = findJoin(current);
+      const branches = current
+        .map((start) => sequence([start], join ?? stop))
+        .filter((branch) => branch.length > 0);
+      if (branches.length === 1) items.push(...branches[0]!);
+      else if (branches.length > 1) items.push({ type: "parallel", branches });
+
+      if (join === undefined) break;
+      current = [join];
+    }
+
+    return items;
+  };
+
+  return sequence(roots, undefined);
+}
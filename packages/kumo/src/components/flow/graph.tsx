@@ -0,0 +1,100 @@
+import { useMemo, type ReactNode } from "react";
+import { FlowNodeList } from "./diagram";
+import {
+  layoutFlowGraph,
+  type FlowGraphEdge,
+  type FlowGraphLayoutItem,
+  type FlowGraphNode,
+} from "./graph-layout";
+import { FlowNode } from "./node";
+import { FlowParallelNode } from "./parallel";
+
+export type FlowGraphProps<TData = unknown> = {
+  /** Nodes of the graph */
+  nodes: FlowGraphNode<TData>[];
+  /**
+   * Directed edges between nodes. A node with several outgoing edges starts
+   * parallel branches, which join at the first node they all lead to.
+   */
+  edges: FlowGraphEdge[];
+  /** Content of each node. Defaults to the node's `label`, or its id. */
+  renderNode?: (node: FlowGraphNode<TData>) => ReactNode;
+};
+
+/** React key for a layout item: its first node's id. */
+function itemKey<TData>(item: FlowGraphLayoutItem<TData>): string {
+  return item.type === "node"
+    ? item.node.id
+    : `parallel:${itemKey(item.branches[0]![0]!)}`;
+}
+
+function renderItems<TData>(
+  items: FlowGraphLayoutItem<TData>[],
+  renderNode: FlowGraphProps<TData>["renderNode"],
+): ReactNode[] {
+  return items.map((item) => {
+    if (item.type === "node") {
+      const { node } = item;
+      return (
+        <FlowNode
+          key={node.id}
+          id={node.id}
+          disabled={node.disabled}
+          status={node.status}
+        >
+          {renderNode ? renderNode(node) : (node.label ?? node.id)}
+        </FlowNode>
+      );
+    }
+    return (
+      <FlowParallelNode key={itemKey(item)}>
+        {item.branches.map((branch) =>
+          // Single-node branches sit directly in the parallel group
+          branch.length === 1 && branch[0]!.type === "node" ? (
+            renderItems(branch, renderNode)
+          ) : (
+            <FlowNodeList key={itemKey(branch[0]!)}>
+              {renderItems(branch, renderNode)}
+            </FlowNodeList>
+          ),
+        )}
+      </FlowParallelNode>
+    );
+  });
+}
+
+/**
+ * FlowGraph — renders a diagram from `{ nodes, edges }` data, such as a
+ * workflow definition fetched from an API, as `Flow.Node`, `Flow.Parallel`
+ * and `Flow.List` elements. Place it inside `Flow`.
+ *
+ * @example
+ * ```tsx
+ * <Flow orientation="vertical">
+ *   <Flow.Graph
+ *     nodes={[
+ *       { id: "fetch", label: "Fetch" },
+ *       { id: "resize", label: "Resize" },
+ *       { id: "scan", label: "Scan" },
+ *       { id: "store", label: "Store" },
+ *     ]}
+ *     edges={[
+ *       { source: "fetch", target: "resize" },
+ *       { source: "fetch", target: "scan" },
+ *       { source: "resize", target: "store" },
+ *       { source: "scan", target: "store" },
+ *     ]}
+ *   />
+ * </Flow>
+ * ```
+ */
+export function FlowGraph<TData = unknown>({
+  nodes,
+  edges,
+  renderNode,
+}: FlowGraphProps<TData>) {
+  const items = useMemo(() => layoutFlowGraph(nodes, edges), [nodes, edges]);
+  return <>{renderItems(items, renderNode)}</>;
+}
+
+FlowGraph.displayName = "Flow.Graph";
@@ -1,4 +1,5 @@
 import { FlowDiagram, FlowNodeList } from "./diagram";
+import { FlowGraph } from "./graph";
 import { FlowNode, FlowAnchor } from "./node";
 import { FlowParallelNode } from "./parallel";
 
@@ -17,12 +18,41 @@ import { FlowParallelNode } from "./parallel";
  *   <Flow.Node>Step 3</Flow.Node>
  * </Flow>
  * ```
+ *
+ * @example Data-driven, top to bottom
+ * ```tsx
+ * <Flow orientation="vertical">
+ *   <Flow.Graph nodes={steps} edges={transitions} />
+ * </Flow>
+ * ```
+ *
+ * @example Workflow run: selectable nodes with statuses, zoom and a minimap
+ * ```tsx
+ * <Flow selectionMode="single" zoomable minimap aria-label="Run steps">
+ *   <Flow.Node id="fetch" status="succeeded">Fetch</Flow.Node>
+ *   <Flow.Node id="resize" status="running">Resize</Flow.Node>
+ *   <Flow.Node id="store" status="pending">Store</Flow.Node>
+ * </Flow>
+ * ```
  */
 const Flow = Object.assign(FlowDiagram, {
   Node: FlowNode,
   Parallel: FlowParallelNode,
   List: FlowNodeList,
   Anchor: FlowAnchor,
+  Graph: FlowGraph,
 });
 
 export { Flow };
+export {
+  exportFlowDiagram,
+  type FlowExportOptions,
+  type FlowExportTheme,
+} from "./export";
+export type { FlowDiagramProps, FlowNodeStatus } from "./diagram";
+export type { FlowGraphProps } from "./graph";
+export type {
+  FlowGraphEdge,
+  FlowGraphLayoutItem,
+  FlowGraphNode,
+} from "./graph-layout";
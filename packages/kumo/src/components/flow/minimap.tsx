@@ -0,0 +1,174 @@
+import {
+  useEffect,
+  useRef,
+  useState,
+  type PointerEvent,
+  type RefObject,
+} from "react";
+import type { MotionValue } from "motion/react";
+import { cn } from "../../utils/cn";
+import type { FlowNodeStatus, RectLike } from "./diagram";
+import {
+  getVisibleRect,
+  type FlowPoint,
+  type FlowViewportSize,
+} from "./viewport";
+
+const MINIMAP_WIDTH = 160;
+const MINIMAP_HEIGHT = 112;
+
+const STATUS_FILL: Partial<Record<FlowNodeStatus, string>> = {
+  running: "fill-kumo-brand",
+  succeeded: "fill-kumo-success",
+  failed: "fill-kumo-danger",
+};
+
+interface MinimapNode {
+  id: string;
+  rect: { left: number; top: number; width: number; height: number };
+  status?: FlowNodeStatus;
+  selected: boolean;
+}
+
+interface FlowMinimapProps {
+  size: FlowViewportSize;
+  zoom: number;
+  x: MotionValue<number>;
+  y: MotionValue<number>;
+  /** The diagram content, whose nodes the minimap draws */
+  contentRef: RefObject<HTMLDivElement | null>;
+  toContentRect: (rect: DOMRect) => RectLike;
+  /** Center the viewport on a point in content coordinates */
+  onPan: (point: FlowPoint) => void;
+}
+
+/**
+ * Overview of a Flow diagram, overlaid on it: node outlines colored by
+ * status, with the part in view outlined. Pointer-only, as keyboard users
+ * move between nodes and zoom with keys.
+ */
+export function FlowMinimap({
+  size,
+  zoom,
+  x,
+  y,
+  contentRef,
+  toContentRect,
+  onPan,
+}: FlowMinimapProps) {
+  const [nodes, setNodes] = useState<MinimapNode[]>([]);
+  const viewportRef = useRef<SVGRectElement>(null);
+
+  /**
+   * This effect intentionally has no dependencies: node positions, statuses
+   * and selection are read from the diagram after every render.
+   */
+  useEffect(() => {
+    const elements =
+      contentRef.current?.querySelectorAll<HTMLElement>("[data-node-id]") ?? [];
+    const next = Array.from(elements, (element) => {
+      const { left, top, width, height } = toContentRect(
+        element.getBoundingClientRect(),
+      );
+      return {
+        id: element.dataset.nodeId!,
+        rect: { left, top, width, height },
+        status: element.dataset.status as FlowNodeStatus | undefined,
+        selected: element.dataset.selected !== undefined,
+      };
+    });
+    setNodes((previous) =>
+      JSON.stringify(previous) === JSON.stringify(next) ? previous : next,
+    );
+  });
+
+  // Follow panning without re-rendering
+  useEffect(() => {
+    const update = () => {
+      const visible = getVisibleRect(size, { x: x.get(), y: y.get(), zoom });
+      viewportRef.current?.setAttribute("x", String(visible.x));
+      viewportRef.current?.setAttribute("y", String(visible.y));
+      viewportRef.current?.setAttribute("width", String(visible.width));
+      viewportRef.current?.setAttribute("height", String(visible.height));
+    };
+    update();
+    const unsubscribeX = x.on("change", update);
+    const unsubscribeY = y.on("change", update);
+    return () => {
+      unsubscribeX();
+      unsubscribeY();
+    };
+  }, [size, zoom, x, y]);
+
+  if (size.contentWidth <= 0 || size.contentHeight <= 0) return null;
+
+  const toContentPoint = (event: PointerEvent<SVGSVGElement>): FlowPoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const scale = Math.min(
+      rect.width / size.contentWidth,
+      rect.height / size.contentHeight,
+    );
+    // The content is letterboxed in the middle of the minimap
+    return {
+      x:
+        (event.clientX -
+          rect.left -
+          (rect.width - size.contentWidth * scale) / 2) /
+        scale,
+      y:
+        (event.clientY -
+          rect.top -
+          (rect.height - size.contentHeight * scale) / 2) /
+        scale,
+    };
+  };
+
+  return (
+    <div
+      data-flow-overlay=""
+      aria-hidden="true"
+      className="absolute right-3 bottom-3 z-20 overflow-hidden rounded-lg bg-kumo-base shadow ring ring-kumo-line"
+    >
+      <svg
+        width={MINIMAP_WIDTH}
+        height={MINIMAP_HEIGHT}
+        viewBox={`0 0 ${size.contentWidth} ${size.contentHeight}`}
+        className="block cursor-pointer touch-none"
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          onPan(toContentPoint(event));
+        }}
+        onPointerMove={(event) => {
+          if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+            onPan(toContentPoint(event));
+          }
+        }}
+      >
+        {nodes.map((node) => (
+          <rect
+            key={node.id}
+            x={node.rect.left}
+            y={node.rect.top}
+            width={node.rect.width}
+            height={node.rect.height}
+            rx={4}
+            className={cn(
+              "fill-kumo-fill",
+              node.status && STATUS_FILL[node.status],
+              node.selected && "stroke-kumo-brand",
+            )}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        <rect
+          ref={viewportRef}
+          rx={4}
+          className="fill-kumo-brand/10 stroke-kumo-brand"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+/**
+ * Keyboard navigation between Flow nodes. Arrow keys move to the nearest
+ * node in their direction, so the same keys follow the flow in both
+ * orientations and move across parallel branches. Pure functions, used by
+ * `FlowDiagram`.
+ */
+
+export interface FlowNavigationNode {
+  id: string;
+  rect: { left: number; top: number; width: number; height: number };
+}
+
+const DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowRight: { x: 1, y: 0 },
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowDown: { x: 0, y: 1 },
+  ArrowUp: { x: 0, y: -1 },
+};
+
+/** Minimum distance, in pixels, for a node to count as being in a direction. */
+const DIRECTION_THRESHOLD = 1;
+
+/** Weight of the distance across a direction, so nodes in line win. */
+const CROSS_AXIS_WEIGHT = 2;
+
+function center({ rect }: FlowNavigationNode) {
+  return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+}
+
+/**
+ * Id of the node to focus for a navigation key, given the nodes in document
+ * order. Home and End move to the first and last node. Returns `undefined`
+ * for other keys, or when there is no node in that direction.
+ */
+export function getFlowNavigationTarget(
+  nodes: FlowNavigationNode[],
+  id: string,
+  key: string,
+): string | undefined {
+  if (key === "Home") return nodes[0]?.id;
+  if (key === "End") return nodes[nodes.length - 1]?.id;
+
+  const direction = DIRECTIONS[key];
+  const current = nodes.find((node) => node.id === id);
+  if (!direction || !current) return undefined;
+
+  const origin = center(current);
+  let target: string | undefined;
+  let bestScore = Infinity;
+  for (const node of nodes) {
+    if (node.id === id) continue;
+    const point = center(node);
+    const dx = point.x - origin.x;
+    const dy = point.y - origin.y;
+    const along = dx * direction.x + dy * direction.y;
+    if (along < DIRECTION_THRESHOLD) continue;
+    const across = Math.abs(dx * direction.y - dy * direction.x);
+    const score = along + across * CROSS_AXIS_WEIGHT;
+    if (score < bestScore) {
+      bestScore = score;
+      target = node.id;
+    }
+  }
+  return target;
+}
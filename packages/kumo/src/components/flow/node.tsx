@@ -9,17 +9,32 @@ import {
   useRef,
   useState,
   type ReactElement,
-  type ReactNode
-} from 'react';
-import { useNode, type RectLike } from './diagram';
+  type ReactNode,
+} from "react";
+import { cn } from "../../utils/cn";
+import {
+  useDiagramContext,
+  useNode,
+  useNodeInteraction,
+  type FlowNodeStatus,
+  type RectLike,
+} from "./diagram";
+
+const STATUS_CLASSES: Record<FlowNodeStatus, string> = {
+  pending: "text-kumo-subtle",
+  running: "ring-2 ring-kumo-brand",
+  succeeded: "ring-kumo-success",
+  failed: "ring-2 ring-kumo-danger",
+  skipped: "opacity-50",
+};
 
 // Utility to merge refs
 function mergeRefs<T>(
   ...refs: (React.Ref<T> | undefined)[]
 ): React.RefCallback<T> {
-  return value => {
-    refs.forEach(ref => {
-      if (typeof ref === 'function') {
+  return (value) => {
+    refs.forEach((ref) => {
+      if (typeof ref === "function") {
         ref(value);
       } else if (ref != null) {
         (ref as React.MutableRefObject<T | null>).current = value;
@@ -40,6 +55,14 @@ function mergeRefs<T>(
  * ```tsx
  * <Flow.Node render={<div className="custom-node">Custom content</div>} />
  * ```
+ *
+ * @example Selectable, with a run status
+ * ```tsx
+ * <Flow selectionMode="single">
+ *   <Flow.Node id="fetch" status="succeeded">Fetch</Flow.Node>
+ *   <Flow.Node id="resize" status="running">Resize</Flow.Node>
+ * </Flow>
+ * ```
  */
 export type FlowNodeProps = {
   /**
@@ -52,10 +75,25 @@ export type FlowNodeProps = {
    * When true, any connector linking to this node will be greyed out.
    */
   disabled?: boolean;
+  /**
+   * Id of the node in the diagram's selection. Give nodes an id when the
+   * diagram is selectable.
+   */
+  id?: string;
+  /**
+   * Run state of the node. Connectors into a running node are animated, and
+   * connectors to a skipped node are greyed out like disabled ones.
+   */
+  status?: FlowNodeStatus;
 };
 
 export const FlowNode = forwardRef<HTMLElement, FlowNodeProps>(
-  function FlowNode({ render, children, disabled = false }, ref) {
+  function FlowNode(
+    { render, children, disabled = false, id: idProp, status },
+    ref,
+  ) {
+    const { toContentRect } = useDiagramContext();
+    const interaction = useNodeInteraction();
     const nodeRef = useRef<HTMLElement>(null);
     const startAnchorRef = useRef<HTMLElement | null>(null);
     const endAnchorRef = useRef<HTMLElement | null>(null);
@@ -67,13 +105,15 @@ export const FlowNode = forwardRef<HTMLElement, FlowNodeProps>(
     const nodeProps = useMemo(
       () => ({
         parallel: false,
-        disabled,
-        ...measurements
+        disabled: disabled || status === "skipped",
+        status,
+        ...measurements,
       }),
-      [measurements, disabled]
+      [measurements, disabled, status],
     );
 
     const { index, id } = useNode(nodeProps);
+    const nodeId = idProp ?? id;
 
     /**
      * This effect intentionally has no dependencies because we want it to run on
@@ -83,20 +123,22 @@ export const FlowNode = forwardRef<HTMLElement, FlowNodeProps>(
       if (!nodeRef.current) return;
 
       const rect = nodeRef.current.getBoundingClientRect();
-      const nodeRect = rect;
+      const nodeRect = toContentRect(rect);
 
       let startRect: RectLike = nodeRect;
       let endRect: RectLike = nodeRect;
 
       if (startAnchorRef.current) {
-        startRect = startAnchorRef.current.getBoundingClientRect();
+        startRect = toContentRect(
+          startAnchorRef.current.getBoundingClientRect(),
+        );
       }
 
       if (endAnchorRef.current) {
-        endRect = endAnchorRef.current.getBoundingClientRect();
+        endRect = toContentRect(endAnchorRef.current.getBoundingClientRect());
       }
 
-      setMeasurements(m => {
+      setMeasurements((m) => {
         const newVal = { start: startRect, end: endRect };
         if (JSON.stringify(m) === JSON.stringify(newVal)) return m;
         return newVal;
@@ -105,31 +147,73 @@ export const FlowNode = forwardRef<HTMLElement, FlowNodeProps>(
 
     const mergedRef = mergeRefs(ref, nodeRef);
 
+    const interactive = interaction?.interactive ?? false;
+    const selected = interaction?.selectedIds.has(nodeId) ?? false;
+    const interactiveProps: React.HTMLAttributes<HTMLElement> = interactive
+      ? {
+          role: "option",
+          "aria-selected": selected,
+          tabIndex: nodeId === interaction?.tabStopId ? 0 : -1,
+        }
+      : {};
+    const interactiveClassName =
+      interactive &&
+      cn(
+        "focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-kumo-ring",
+        selected
+          ? "outline-2 outline-offset-2 outline-kumo-brand"
+          : "outline-none",
+      );
+    // Status is only shown visually, so it is also part of the node's text
+    const statusLabel = status && interaction && (
+      <span className="sr-only"> ({interaction.statusLabels[status]})</span>
+    );
+
     let element: ReactElement;
     if (render && isValidElement(render)) {
       // When render prop is provided, clone it with ref and data attributes
       const renderProps = render.props as {
         children?: ReactNode;
+        className?: string;
         style?: React.CSSProperties;
       };
       element = cloneElement(render, {
         ref: mergedRef,
-        'data-node-index': index,
-        'data-node-id': id,
-        style: { cursor: 'default', ...renderProps.style },
-        children: renderProps.children ?? children
+        "data-node-index": index,
+        "data-node-id": nodeId,
+        "data-status": status,
+        "data-selected": selected || undefined,
+        ...interactiveProps,
+        className: cn(renderProps.className, interactiveClassName) || undefined,
+        style: { cursor: "default", ...renderProps.style },
+        children: statusLabel ? (
+          <>
+            {renderProps.children ?? children}
+            {statusLabel}
+          </>
+        ) : (
+          (renderProps.children ?? children)
+        ),
       } as React.HTMLAttributes<HTMLElement> & { ref: React.Ref<HTMLElement> });
     } else {
       // Default element
       element = (
         <li
           ref={mergedRef}
-          className="py-2 px-3 rounded-md shadow bg-kumo-base ring ring-kumo-line"
-          style={{ cursor: 'default' }}
+          className={cn(
+            "py-2 px-3 rounded-md shadow bg-kumo-base ring ring-kumo-line",
+            status && STATUS_CLASSES[status],
+            interactiveClassName,
+          )}
+          style={{ cursor: "default" }}
           data-node-index={index}
-          data-node-id={id}
+          data-node-id={nodeId}
+          data-status={status}
+          data-selected={selected || undefined}
+          {...interactiveProps}
         >
           {children}
+          {statusLabel}
         </li>
       );
     }
@@ -138,23 +222,23 @@ export const FlowNode = forwardRef<HTMLElement, FlowNodeProps>(
       <FlowNodeAnchorContext.Provider
         value={useMemo(
           () => ({
-            registerStartAnchor: anchorRef => {
+            registerStartAnchor: (anchorRef) => {
               startAnchorRef.current = anchorRef;
             },
-            registerEndAnchor: anchorRef => {
+            registerEndAnchor: (anchorRef) => {
               endAnchorRef.current = anchorRef;
-            }
+            },
           }),
-          []
+          [],
         )}
       >
         {element}
       </FlowNodeAnchorContext.Provider>
     );
-  }
+  },
 );
 
-FlowNode.displayName = 'Flow.Node';
+FlowNode.displayName = "Flow.Node";
 
 type FlowNodeAnchorContextType = {
   registerStartAnchor: (ref: HTMLElement | null) => void;
@@ -162,7 +246,7 @@ type FlowNodeAnchorContextType = {
 };
 
 const FlowNodeAnchorContext = createContext<FlowNodeAnchorContextType | null>(
-  null
+  null,
 );
 
 /**
@@ -184,7 +268,7 @@ export type FlowAnchorProps = {
    * _next_ connector or the "end" point for the _previous_ connector.
    * When omitted, it serves as both the start and end points.
    */
-  type?: 'start' | 'end';
+  type?: "start" | "end";
   /**
    * Custom element to render instead of the default div.
    * When provided, completely replaces the default element.
@@ -199,7 +283,7 @@ export const FlowAnchor = forwardRef<HTMLElement, FlowAnchorProps>(
     const anchorRef = useRef<HTMLElement>(null);
 
     if (!context) {
-      throw new Error('Flow.Anchor must be used within Flow.Node');
+      throw new Error("Flow.Anchor must be used within Flow.Node");
     }
 
     useEffect(() => {
@@ -207,18 +291,18 @@ export const FlowAnchor = forwardRef<HTMLElement, FlowAnchorProps>(
         return;
       }
 
-      if (type === 'start' || type === undefined) {
+      if (type === "start" || type === undefined) {
         context.registerStartAnchor(anchorRef.current);
       }
-      if (type === 'end' || type === undefined) {
+      if (type === "end" || type === undefined) {
         context.registerEndAnchor(anchorRef.current);
       }
 
       return () => {
-        if (type === 'start' || type === undefined) {
+        if (type === "start" || type === undefined) {
           context.registerStartAnchor(null);
         }
-        if (type === 'end' || type === undefined) {
+        if (type === "end" || type === undefined) {
           context.registerEndAnchor(null);
         }
       };
@@ -231,13 +315,13 @@ export const FlowAnchor = forwardRef<HTMLElement, FlowAnchorProps>(
       const renderProps = render.props as { children?: ReactNode };
       return cloneElement(render, {
         ref: mergedRef,
-        children: renderProps.children ?? children
+        children: renderProps.children ?? children,
       } as React.HTMLAttributes<HTMLElement> & { ref: React.Ref<HTMLElement> });
     }
 
     // Default element
     return <div ref={mergedRef}>{children}</div>;
-  }
+  },
 );
 
-FlowAnchor.displayName = 'Flow.Anchor';
+FlowAnchor.displayName = "Flow.Anchor";
@@ -6,6 +6,7 @@ import {
   useDiagramContext,
   useNode,
   useNodeGroup,
+  useNodeInteraction,
   type RectLike,
 } from "./diagram";
 import { DescendantsProvider } from "./use-children";
@@ -25,17 +26,16 @@ function getStartAndEndPoints({
   end: { x: number; y: number };
 } {
   if (orientation === "vertical") {
-    // we ignore previous/next calculations for vertical orientations for now
-    return {
-      start: {
-        x: container.width / 2,
-        y: 0,
-      },
-      end: {
-        x: container.width / 2,
-        y: container.height,
-      },
-    };
+    // Default to midpoints, lined up with the previous/next nodes' centers
+    const start = { x: container.width / 2, y: 0 };
+    const end = { x: container.width / 2, y: container.height };
+    if (previous) {
+      start.x = previous.left - container.left + previous.width / 2;
+    }
+    if (next) {
+      end.x = next.left - container.left + next.width / 2;
+    }
+    return { start, end };
   }
   // Default to midpoints
   let start = {
@@ -69,12 +69,13 @@ export function FlowParallelNode({
   children,
   align = "start",
 }: FlowParallelNodeProps) {
-  const { orientation } = useDiagramContext();
+  const { orientation, toContentRect } = useDiagramContext();
+  const interactive = useNodeInteraction()?.interactive ?? false;
   const descendants = useNodeGroup();
 
   const containerRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLUListElement>(null);
-  const [measurements, setMeasurements] = useState<DOMRect | null>(null);
+  const [measurements, setMeasurements] = useState<RectLike | null>(null);
 
   const { index, getPrevious, getNext } = useNode(
     useMemo(
@@ -89,7 +90,7 @@ export function FlowParallelNode({
    */
   useEffect(() => {
     if (!contentRef.current) return;
-    const rect = contentRef.current.getBoundingClientRect();
+    const rect = toContentRect(contentRef.current.getBoundingClientRect());
     setMeasurements((m) => {
       if (JSON.stringify(m) === JSON.stringify(rect)) return m;
       return rect;
@@ -100,7 +101,7 @@ export function FlowParallelNode({
     const container = containerRef.current;
     if (!container) return;
 
-    const containerRect = container.getBoundingClientRect();
+    const containerRect = toContentRect(container.getBoundingClientRect());
 
     const [prevNode, nextNode] = [getPrevious(), getNext()];
     const previousNodeRect = getNodeRect(prevNode, { type: "start" });
@@ -113,9 +114,12 @@ export function FlowParallelNode({
       orientation,
     });
 
-    // First pass: collect all branch points to determine directions
+    // First pass: collect all branch points to determine directions. Points
+    // are offsets across the flow: y when horizontal, x when vertical.
     const incomingBranchPoints: { y: number }[] = [];
     const outgoingBranchPoints: { y: number }[] = [];
+    const startOffset = orientation === "horizontal" ? start.y : start.x;
+    const endOffset = orientation === "horizontal" ? end.y : end.x;
 
     for (const descendant of descendants.descendants) {
       const { props } = descendant;
@@ -150,13 +154,13 @@ export function FlowParallelNode({
     const hasIncomingJunction = (() => {
       if (incomingBranchPoints.length <= 1) return false;
       const hasAbove = incomingBranchPoints.some(
-        (p) => p.y < start.y - FLAT_THRESHOLD,
+        (p) => p.y < startOffset - FLAT_THRESHOLD,
       );
       const hasBelow = incomingBranchPoints.some(
-        (p) => p.y > start.y + FLAT_THRESHOLD,
+        (p) => p.y > startOffset + FLAT_THRESHOLD,
       );
       const hasInline = incomingBranchPoints.some(
-        (p) => Math.abs(p.y - start.y) <= FLAT_THRESHOLD,
+        (p) => Math.abs(p.y - startOffset) <= FLAT_THRESHOLD,
       );
       // Junction needed if connections go in different directions
       const directions = [hasAbove, hasBelow, hasInline].filter(Boolean).length;
@@ -166,13 +170,13 @@ export function FlowParallelNode({
     const hasOutgoingJunction = (() => {
       if (outgoingBranchPoints.length <= 1) return false;
       const hasAbove = outgoingBranchPoints.some(
-        (p) => p.y < end.y - FLAT_THRESHOLD,
+        (p) => p.y < endOffset - FLAT_THRESHOLD,
       );
       const hasBelow = outgoingBranchPoints.some(
-        (p) => p.y > end.y + FLAT_THRESHOLD,
+        (p) => p.y > endOffset + FLAT_THRESHOLD,
       );
       const hasInline = outgoingBranchPoints.some(
-        (p) => Math.abs(p.y - end.y) <= FLAT_THRESHOLD,
+        (p) => Math.abs(p.y - endOffset) <= FLAT_THRESHOLD,
       );
       // Junction needed if connections go in different directions
       const directions = [hasAbove, hasBelow, hasInline].filter(Boolean).length;
@@ -218,6 +222,7 @@ export function FlowParallelNode({
           y2: branchStart.y,
           isBottom: false,
           disabled: prevNode?.props.disabled || isDescendantDisabled,
+          running: props.status === "running",
           single: !hasIncomingJunction,
         });
       }
@@ -257,6 +262,7 @@ export function FlowParallelNode({
           y2: end.y,
           isBottom: true,
           disabled: isDescendantDisabled || nextNode?.props.disabled,
+          running: nextNode?.props.status === "running",
           single: !hasOutgoingJunction,
         });
       }
@@ -318,6 +324,7 @@ export function FlowParallelNode({
         )}
       </div>
       <ul
+        role={interactive ? "none" : undefined}
         className={cn(
           "gap-5 list-none flex",
           align === "start" ? "items-start" : "items-end",
@@ -345,6 +352,7 @@ function JunctionBox({ size = 6 }) {
       height={size}
       fill="currentColor"
       rx="1"
+      data-flow-junction=""
     />
   );
 }
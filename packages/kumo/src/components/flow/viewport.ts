@@ -0,0 +1,131 @@
+/**
+ * Viewport math for Flow: pan bounds, zooming around a point and fitting the
+ * diagram into view. Pan offsets are translations of the content; zoom
+ * scales it from its top-left corner. Pure functions, used by `FlowDiagram`
+ * and its minimap.
+ */
+
+/** Measured sizes of the viewport and of the content at zoom 1. */
+export interface FlowViewportSize {
+  /** Width of the viewport, inside its padding */
+  viewportWidth: number;
+  /** Height of the viewport, inside its padding */
+  viewportHeight: number;
+  /** Layout width of the content, before zoom */
+  contentWidth: number;
+  /** Layout height of the content, before zoom */
+  contentHeight: number;
+  /** Layout offset of the content from the viewport's left edge */
+  contentLeft: number;
+  /** Layout offset of the content from the viewport's top edge */
+  contentTop: number;
+}
+
+export interface FlowPanRange {
+  min: number;
+  max: number;
+}
+
+export interface FlowPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Range of pan offsets on each axis at a zoom level. Content larger than the
+ * viewport pans until its edges meet the viewport's; smaller content stays
+ * put, centered horizontally and at the top.
+ */
+export function getPanBounds(
+  size: FlowViewportSize,
+  zoom: number,
+): { x: FlowPanRange; y: FlowPanRange } {
+  const width = size.contentWidth * zoom;
+  const height = size.contentHeight * zoom;
+
+  const centerX = (size.viewportWidth - width) / 2 - size.contentLeft;
+  const x =
+    width <= size.viewportWidth
+      ? { min: centerX, max: centerX }
+      : {
+          min: size.viewportWidth - width - size.contentLeft,
+          max: -size.contentLeft,
+        };
+  const y =
+    height <= size.viewportHeight
+      ? { min: -size.contentTop, max: -size.contentTop }
+      : {
+          min: size.viewportHeight - height - size.contentTop,
+          max: -size.contentTop,
+        };
+  return { x, y };
+}
+
+export function clampPan(value: number, range: FlowPanRange): number {
+  return Math.min(Math.max(value, range.min), range.max);
+}
+
+export function clampZoom(zoom: number, minZoom: number, maxZoom: number) {
+  return Math.min(Math.max(zoom, minZoom), maxZoom);
+}
+
+/**
+ * Pan offsets that keep the content under `point` (in viewport coordinates)
+ * in place when zooming from `zoom` to `nextZoom`.
+ */
+export function zoomAtPoint(
+  { x, y, zoom }: FlowPoint & { zoom: number },
+  nextZoom: number,
+  point: FlowPoint,
+  size: FlowViewportSize,
+): FlowPoint {
+  const contentX = (point.x - size.contentLeft - x) / zoom;
+  const contentY = (point.y - size.contentTop - y) / zoom;
+  return {
+    x: point.x - size.contentLeft - contentX * nextZoom,
+    y: point.y - size.contentTop - contentY * nextZoom,
+  };
+}
+
+/** Pan offsets that center `point` (in content coordinates) in the viewport. */
+export function centerOn(
+  point: FlowPoint,
+  size: FlowViewportSize,
+  zoom: number,
+): FlowPoint {
+  return {
+    x: size.viewportWidth / 2 - size.contentLeft - point.x * zoom,
+    y: size.viewportHeight / 2 - size.contentTop - point.y * zoom,
+  };
+}
+
+/**
+ * Largest zoom, up to 1, at which the whole content fits in the viewport,
+ * within the zoom limits.
+ */
+export function getFitZoom(
+  size: FlowViewportSize,
+  minZoom: number,
+  maxZoom: number,
+): number {
+  if (size.contentWidth <= 0 || size.contentHeight <= 0) return 1;
+  const fit = Math.min(
+    size.viewportWidth / size.contentWidth,
+    size.viewportHeight / size.contentHeight,
+    1,
+  );
+  return clampZoom(fit, minZoom, maxZoom);
+}
+
+/** The part of the content in view, in content coordinates. */
+export function getVisibleRect(
+  size: FlowViewportSize,
+  { x, y, zoom }: FlowPoint & { zoom: number },
+) {
+  return {
+    x: (-x - size.contentLeft) / zoom,
+    y: (-y - size.contentTop) / zoom,
+    width: size.viewportWidth / zoom,
+    height: size.viewportHeight / zoom,
+  };
+}
@@ -0,0 +1 @@
+export { RangeSlider, type RangeSliderProps } from "./range-slider";
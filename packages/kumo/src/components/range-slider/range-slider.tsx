@@ -0,0 +1,71 @@
+import { forwardRef } from "react";
+import type { Slider as BaseSlider } from "@base-ui/react/slider";
+import {
+  KUMO_SLIDER_DEFAULT_VARIANTS,
+  KUMO_SLIDER_VARIANTS,
+  SliderBase,
+  type SliderSharedProps,
+} from "../slider/slider";
+
+/** RangeSlider shares the sizes and variants of `Slider`. */
+export const KUMO_RANGE_SLIDER_VARIANTS = KUMO_SLIDER_VARIANTS;
+
+export const KUMO_RANGE_SLIDER_DEFAULT_VARIANTS = KUMO_SLIDER_DEFAULT_VARIANTS;
+
+/**
+ * RangeSlider component props. Accepts every `Slider` prop except the
+ * single-value ones.
+ *
+ * @example
+ * // Built-in Field wrapper
+ * <RangeSlider label="Price" defaultValue={[20, 80]} />
+ *
+ * @example
+ * // Controlled, keeping the thumbs at least 10 apart
+ * <RangeSlider
+ *   label="Response time (ms)"
+ *   value={range}
+ *   onValueChange={setRange}
+ *   max={1000}
+ *   step={10}
+ *   minStepsBetweenValues={1}
+ * />
+ */
+export type RangeSliderProps = SliderSharedProps & {
+  /** The start and end values of a controlled slider */
+  value?: readonly [number, number];
+  /** The initial start and end values of an uncontrolled slider */
+  defaultValue?: readonly [number, number];
+  /** Called with the new start and end values while the slider changes */
+  onValueChange?: (
+    value: [number, number],
+    eventDetails: BaseSlider.Root.ChangeEventDetails,
+  ) => void;
+  /** Called with the final values when the user releases a thumb */
+  onValueCommitted?: (
+    value: [number, number],
+    eventDetails: BaseSlider.Root.CommitEventDetails,
+  ) => void;
+};
+
+/**
+ * Lets users pick a range of numbers by dragging a start and an end thumb
+ * along a track, e.g. a price or latency filter.
+ *
+ * @example
+ * ```tsx
+ * <RangeSlider label="Port range" defaultValue={[1000, 2000]} min={0} max={65535} />
+ * ```
+ */
+export const RangeSlider = forwardRef<HTMLDivElement, RangeSliderProps>(
+  (props, ref) => (
+    <SliderBase
+      ref={ref}
+      {...(props as SliderSharedProps)}
+      thumbs={2}
+      displayName="RangeSlider"
+    />
+  ),
+);
+
+RangeSlider.displayName = "RangeSlider";
@@ -1,8 +1,18 @@
 import { Select as SelectBase } from "@base-ui/react/select";
 import { CaretUpDownIcon, CheckIcon } from "@phosphor-icons/react";
-import { useId } from "react";
-import type { ReactNode } from "react";
+import {
+  Children,
+  isValidElement,
+  useCallback,
+  useId,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import type { KeyboardEvent, MutableRefObject, ReactNode } from "react";
 import { cn } from "../../utils/cn";
+import { useControllableState } from "../../utils/use-controllable-state";
+import { useVirtualList } from "../../utils/virtual-list";
 import { buttonVariants } from "../button";
 import { SkeletonLine } from "../loader";
 import { Field, type FieldErrorMatch } from "../field/field";
@@ -83,6 +93,8 @@ type SelectPropsGeneric<
     description?: ReactNode;
     /** Error message or validation error object */
     error?: string | { message: ReactNode; match: FieldErrorMatch };
+    /** Only render the options in view. Options come from `Select.Option` children or `items`. */
+    virtualized?: boolean;
   };
 
 /**
@@ -131,6 +143,12 @@ export interface SelectProps {
   description?: ReactNode;
   /** Error message string or validation error object with `match` key. */
   error?: string | { message: ReactNode; match: FieldErrorMatch };
+  /**
+   * Only render the options in view, for long lists. Options come from
+   * `Select.Option` children or `items`.
+   * @default false
+   */
+  virtualized?: boolean;
 }
 
 /**
@@ -157,9 +175,11 @@ export function Select<T, Multiple extends boolean | undefined = false>({
   description,
   error,
   required,
+  virtualized = false,
   ...props
 }: SelectPropsGeneric<T, Multiple> & { required?: boolean }) {
   const labelId = useId();
+  const listId = useId();
   const propLookup = props as Record<string, unknown>;
   const ariaLabel = propLookup["aria-label"] as string | undefined;
   const ariaLabelledby = propLookup["aria-labelledby"] as string | undefined;
@@ -174,9 +194,102 @@ export function Select<T, Multiple extends boolean | undefined = false>({
   const triggerAriaLabel =
     ariaLabel ?? (!triggerLabelledBy ? fallbackLabel : undefined);
 
+  // Virtualized options are rendered by Kumo, which then also owns the value,
+  // open state and keyboard navigation
+  const options = virtualized ? getOptions(children, props.items) : [];
+  const [value, setValue] = useControllableState<unknown>(
+    props.value,
+    props.defaultValue ?? (props.multiple ? [] : null),
+    props.onValueChange as ((value: unknown) => void) | undefined,
+  );
+  const [open, setOpen] = useControllableState<boolean>(
+    props.open,
+    props.defaultOpen ?? false,
+    props.onOpenChange as ((open: boolean) => void) | undefined,
+  );
+  const [highlighted, setHighlighted] = useState(-1);
+  const scrollToIndex = useRef<(index: number) => void>(() => {});
+
+  const isSelected = (option: SelectOptionItem) =>
+    props.multiple
+      ? ((value as unknown[] | null) ?? []).includes(option.value)
+      : Object.is(value, option.value);
+
+  const selectOption = (index: number) => {
+    const option = options[index];
+    if (!option) return;
+    if (!props.multiple) {
+      setValue(option.value);
+      setOpen(false);
+      return;
+    }
+    const current = (value as unknown[] | null) ?? [];
+    setValue(
+      current.includes(option.value)
+        ? current.filter((item) => !Object.is(item, option.value))
+        : [...current, option.value],
+    );
+  };
+
+  const highlightOption = (index: number) => {
+    setHighlighted(index);
+    scrollToIndex.current(index);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) highlightOption(Math.max(options.findIndex(isSelected), 0));
+    setOpen(next);
+  };
+
+  const handleKeyDownCapture = (event: KeyboardEvent<HTMLElement>) => {
+    if (!open) return;
+    const last = options.length - 1;
+    let next: number | undefined;
+    switch (event.key) {
+      case "ArrowDown":
+        next = Math.min(highlighted + 1, last);
+        break;
+      case "ArrowUp":
+        next = Math.max(highlighted - 1, 0);
+        break;
+      case "Home":
+        next = 0;
+        break;
+      case "End":
+        next = last;
+        break;
+      case "PageDown":
+        next = Math.min(highlighted + PAGE_SIZE, last);
+        break;
+      case "PageUp":
+        next = Math.max(highlighted - PAGE_SIZE, 0);
+        break;
+      case "Enter":
+      case " ":
+        selectOption(highlighted);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    if (next !== undefined) highlightOption(next);
+  };
+
+  const virtualProps = virtualized && {
+    value: value as SelectBase.Root.Props<T, Multiple>["value"],
+    onValueChange: setValue,
+    open,
+    onOpenChange: handleOpenChange,
+  };
+  const activeDescendant =
+    virtualized && open && highlighted >= 0
+      ? `${listId}-${highlighted}`
+      : undefined;
+
   // Placeholder must be provide via the items props
   // We need to fake the items or do some transformation
-  let items = props.items;
+  let items = props.items ?? (virtualized ? options : undefined);
   if (placeholder) {
     if (!items) {
       items = [
@@ -210,6 +323,7 @@ export function Select<T, Multiple extends boolean | undefined = false>({
   const selectControl = (
     <SelectBase.Root
       {...props}
+      {...virtualProps}
       items={items}
       disabled={loading || props.disabled}
     >
@@ -223,6 +337,7 @@ export function Select<T, Multiple extends boolean | undefined = false>({
         )}
         aria-label={triggerAriaLabel}
         aria-labelledby={triggerLabelledBy}
+        {...(virtualized && { onKeyDownCapture: handleKeyDownCapture })}
       >
         {loading ? (
           <SkeletonLine className="w-32" />
@@ -234,7 +349,9 @@ export function Select<T, Multiple extends boolean | undefined = false>({
         </SelectBase.Icon>
       </SelectBase.Trigger>
       <SelectBase.Portal>
-        <SelectBase.Positioner>
+        <SelectBase.Positioner
+          {...(virtualized && { alignItemWithTrigger: false })}
+        >
           <SelectBase.Popup
             className={cn(
               "overflow-hidden bg-kumo-control text-kumo-default", // background
@@ -242,8 +359,24 @@ export function Select<T, Multiple extends boolean | undefined = false>({
               // 3px adjustment to account for padding + border differences
               "min-w-[calc(var(--anchor-width)+3px)] p-1.5", // spacing
             )}
+            {...(virtualized && {
+              "aria-activedescendant": activeDescendant,
+              onKeyDownCapture: handleKeyDownCapture,
+            })}
           >
-            {children}
+            {virtualized ? (
+              <VirtualOptions
+                listId={listId}
+                options={options}
+                highlighted={highlighted}
+                isSelected={isSelected}
+                scrollToIndex={scrollToIndex}
+                onHighlight={setHighlighted}
+                onSelect={selectOption}
+              />
+            ) : (
+              children
+            )}
           </SelectBase.Popup>
         </SelectBase.Positioner>
       </SelectBase.Portal>
@@ -284,6 +417,109 @@ export function Select<T, Multiple extends boolean | undefined = false>({
   );
 }
 
+/** Options moved by PageUp and PageDown in virtualized selects. */
+const PAGE_SIZE = 10;
+
+/** Estimated option height, before options are measured. */
+const ESTIMATED_OPTION_HEIGHT = 36;
+
+const OPTION_CLASSES =
+  "group flex cursor-pointer items-center justify-between gap-2 rounded px-2 py-1.5 text-base data-highlighted:bg-kumo-overlay";
+
+type SelectOptionItem = { value: unknown; label: ReactNode };
+
+/** Options of a virtualized select, from `Select.Option` children or `items`. */
+function getOptions(children: ReactNode, items: unknown): SelectOptionItem[] {
+  const options = Children.toArray(children).flatMap((child) =>
+    isValidElement<OptionProps<unknown>>(child) && child.type === Option
+      ? [{ value: child.props.value, label: child.props.children }]
+      : [],
+  );
+  if (options.length > 0 || !items) return options;
+  if (Array.isArray(items)) return items as SelectOptionItem[];
+  return Object.entries(items as Record<string, ReactNode>).map(
+    ([value, label]) => ({ value, label }),
+  );
+}
+
+function VirtualOptions({
+  listId,
+  options,
+  highlighted,
+  isSelected,
+  scrollToIndex,
+  onHighlight,
+  onSelect,
+}: {
+  listId: string;
+  options: SelectOptionItem[];
+  highlighted: number;
+  isSelected: (option: SelectOptionItem) => boolean;
+  scrollToIndex: MutableRefObject<(index: number) => void>;
+  onHighlight: (index: number) => void;
+  onSelect: (index: number) => void;
+}) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const getScrollElement = useCallback(() => scrollRef.current, []);
+  const getItemKey = useCallback(
+    (index: number) => options[index]?.value,
+    [options],
+  );
+  const list = useVirtualList({
+    count: options.length,
+    getScrollElement,
+    estimateSize: ESTIMATED_OPTION_HEIGHT,
+    getItemKey,
+  });
+
+  useLayoutEffect(() => {
+    scrollToIndex.current = list.scrollToIndex;
+  }, [scrollToIndex, list.scrollToIndex]);
+
+  // Start with the highlighted (selected) option in view
+  useLayoutEffect(() => {
+    if (highlighted >= 0) list.scrollToIndex(highlighted, "center");
+  }, []);
+
+  return (
+    <div
+      ref={scrollRef}
+      role="presentation"
+      className="max-h-[min(var(--available-height),24rem)] overflow-y-auto overscroll-contain"
+    >
+      <div role="presentation" style={{ height: list.paddingStart }} />
+      {list.indexes.map((index) => {
+        const option = options[index]!;
+        const selected = isSelected(option);
+        return (
+          // oxlint-disable-next-line click-events-have-key-events -- keys are handled by the popup, which points at the option with aria-activedescendant
+          <div
+            key={index}
+            id={`${listId}-${index}`}
+            role="option"
+            tabIndex={-1}
+            aria-selected={selected}
+            // oxlint-disable-next-line role-supports-aria-props -- ARIA 1.2 allows aria-posinset on option
+            aria-posinset={index + 1}
+            aria-setsize={options.length}
+            data-virtual-index={index}
+            data-highlighted={index === highlighted ? "" : undefined}
+            className={OPTION_CLASSES}
+            onMouseMove={() => {
+              if (index !== highlighted) onHighlight(index);
+            }}
+            onClick={() => onSelect(index)}
+          >
+            <span>{option.label}</span>
+            {selected && <CheckIcon />}
+          </div>
+        );
+      })}
+      <div role="presentation" style={{ height: list.paddingEnd }} />
+    </div>
+  );
+}
+
 type OptionProps<T> = {
   children: ReactNode;
   value: T;
@@ -291,10 +527,7 @@ type OptionProps<T> = {
 
 function Option<T>({ children, value }: OptionProps<T>) {
   return (
-    <SelectBase.Item
-      value={value}
-      className="group flex cursor-pointer items-center justify-between gap-2 rounded px-2 py-1.5 text-base data-highlighted:bg-kumo-overlay"
-    >
+    <SelectBase.Item value={value} className={OPTION_CLASSES}>
       <SelectBase.ItemText>{children}</SelectBase.ItemText>
       <SelectBase.ItemIndicator>
         <CheckIcon />
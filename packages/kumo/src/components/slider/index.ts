@@ -0,0 +1,10 @@
+export {
+  Slider,
+  sliderVariants,
+  KUMO_SLIDER_VARIANTS,
+  KUMO_SLIDER_DEFAULT_VARIANTS,
+  type SliderProps,
+  type SliderMark,
+  type KumoSliderSize,
+  type KumoSliderVariant,
+} from "./slider";
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { Slider } from "./slider";
+import { RangeSlider } from "../range-slider";
+
+describe("Slider", () => {
+  it("labels its thumb with the Field label", () => {
+    render(<Slider label="Sampling rate" defaultValue={40} />);
+    const input = screen.getByRole("slider", { name: "Sampling rate" });
+    expect(input.getAttribute("aria-valuenow")).toBe("40");
+  });
+
+  it("steps the value with the keyboard", () => {
+    const onValueChange = vi.fn();
+    render(
+      <Slider
+        aria-label="Rate limit"
+        defaultValue={10}
+        step={5}
+        onValueChange={onValueChange}
+      />,
+    );
+    fireEvent.keyDown(screen.getByRole("slider"), { key: "ArrowRight" });
+    expect(onValueChange).toHaveBeenCalledWith(15, expect.anything());
+  });
+
+  it("renders marks and their labels", () => {
+    const { container } = render(
+      <Slider
+        aria-label="Percentage"
+        marks={[0, { value: 50, label: "Half" }, { value: 100, label: "All" }]}
+      />,
+    );
+    const marks = container.querySelectorAll<HTMLElement>("[data-slider-mark]");
+    expect(Array.from(marks, (mark) => mark.style.left)).toEqual([
+      "0%",
+      "50%",
+      "100%",
+    ]);
+    expect(screen.getByText("Half")).toBeTruthy();
+    expect(screen.getByText("All")).toBeTruthy();
+  });
+
+  it("shows the formatted value in the thumb tooltip", () => {
+    const { container, rerender } = render(
+      <Slider
+        aria-label="Ratio"
+        value={0.25}
+        max={1}
+        step={0.05}
+        format={{ style: "percent" }}
+      />,
+    );
+    const tooltip = container.querySelector("[data-slider-tooltip]");
+    expect(tooltip?.textContent).toBe("25%");
+
+    rerender(<Slider aria-label="Ratio" value={25} valueTooltip={false} />);
+    expect(container.querySelector("[data-slider-tooltip]")).toBeNull();
+  });
+
+  it("shows the error message from Field", () => {
+    render(<Slider label="Budget" variant="error" error="Budget is too low" />);
+    expect(screen.getByText("Budget is too low")).toBeTruthy();
+  });
+});
+
+describe("RangeSlider", () => {
+  it("renders a thumb for the start and end values", () => {
+    const onValueChange = vi.fn();
+    render(
+      <RangeSlider
+        label="Price"
+        defaultValue={[20, 80]}
+        onValueChange={onValueChange}
+      />,
+    );
+    const thumbs = screen.getAllByRole("slider");
+    expect(thumbs.map((thumb) => thumb.getAttribute("aria-valuenow"))).toEqual([
+      "20",
+      "80",
+    ]);
+
+    fireEvent.keyDown(thumbs[1]!, { key: "ArrowLeft" });
+    expect(onValueChange).toHaveBeenCalledWith([20, 79], expect.anything());
+  });
+});
@@ -0,0 +1,416 @@
+import { Slider as BaseSlider } from "@base-ui/react/slider";
+import {
+  forwardRef,
+  useMemo,
+  type ComponentPropsWithoutRef,
+  type ReactNode,
+} from "react";
+import { cn } from "../../utils/cn";
+import { Field, type FieldErrorMatch } from "../field/field";
+
+/** Slider size and variant definitions mapping names to their Tailwind classes. */
+export const KUMO_SLIDER_VARIANTS = {
+  size: {
+    xs: {
+      classes: "h-5",
+      description: "Extra small slider for compact UIs",
+    },
+    sm: {
+      classes: "h-6.5",
+      description: "Small slider for secondary fields",
+    },
+    base: {
+      classes: "h-9",
+      description: "Default slider size",
+    },
+    lg: {
+      classes: "h-10",
+      description: "Large slider for prominent fields",
+    },
+  },
+  variant: {
+    default: {
+      classes: "bg-kumo-brand",
+      description: "Default slider appearance",
+    },
+    error: {
+      classes: "bg-kumo-danger",
+      description: "Error state for validation failures",
+    },
+  },
+} as const;
+
+export const KUMO_SLIDER_DEFAULT_VARIANTS = {
+  size: "base",
+  variant: "default",
+} as const;
+
+export const KUMO_SLIDER_STYLING = {
+  dimensions: {
+    xs: { height: 20, trackHeight: 4, thumbSize: 12, width: 160 },
+    sm: { height: 26, trackHeight: 4, thumbSize: 14, width: 200 },
+    base: { height: 36, trackHeight: 6, thumbSize: 16, width: 280 },
+    lg: { height: 40, trackHeight: 8, thumbSize: 20, width: 320 },
+  },
+  baseTokens: {
+    track: "color-kumo-fill",
+    indicator: "color-kumo-brand",
+    thumbRing: "color-kumo-line",
+    markLabel: "text-color-kumo-subtle",
+  },
+  stateTokens: {
+    focus: { ring: "color-kumo-ring" },
+    error: { indicator: "color-kumo-danger" },
+    disabled: { opacity: 0.5 },
+  },
+} as const;
+
+/** Track thickness and thumb size for each slider size (h-1 = 4px, size-4 = 16px). */
+const SLIDER_PART_CLASSES = {
+  xs: { track: "h-1", thumb: "size-3" },
+  sm: { track: "h-1", thumb: "size-3.5" },
+  base: { track: "h-1.5", thumb: "size-4" },
+  lg: { track: "h-2", thumb: "size-5" },
+} as const;
+
+// Derived types from KUMO_SLIDER_VARIANTS
+export type KumoSliderSize = keyof typeof KUMO_SLIDER_VARIANTS.size;
+export type KumoSliderVariant = keyof typeof KUMO_SLIDER_VARIANTS.variant;
+
+export interface KumoSliderVariantsProps {
+  /**
+   * Slider size, matching the height of `Input` at the same size.
+   * - `"xs"` — Extra small for compact UIs
+   * - `"sm"` — Small for secondary fields
+   * - `"base"` — Default size
+   * - `"lg"` — Large for prominent fields
+   * @default "base"
+   */
+  size?: KumoSliderSize;
+  /**
+   * Visual variant.
+   * - `"default"` — Standard slider
+   * - `"error"` — Error state for validation failures
+   * @default "default"
+   */
+  variant?: KumoSliderVariant;
+}
+
+export function sliderVariants({
+  size = KUMO_SLIDER_DEFAULT_VARIANTS.size,
+}: KumoSliderVariantsProps = {}) {
+  return cn(
+    // Base styles
+    "relative flex w-full touch-none items-center select-none",
+    // Apply size styles from KUMO_SLIDER_VARIANTS
+    KUMO_SLIDER_VARIANTS.size[size].classes,
+  );
+}
+
+/** A labelled point on the slider track. */
+export interface SliderMark {
+  /** Position of the mark, between `min` and `max` */
+  value: number;
+  /** Text shown below the track */
+  label?: ReactNode;
+}
+
+type BaseRootProps = ComponentPropsWithoutRef<typeof BaseSlider.Root>;
+
+/** Props shared by `Slider` and `RangeSlider`. */
+export type SliderSharedProps = Pick<
+  KumoSliderVariantsProps,
+  "size" | "variant"
+> &
+  Omit<
+    BaseRootProps,
+    | "value"
+    | "defaultValue"
+    | "onValueChange"
+    | "onValueCommitted"
+    | "children"
+    | "className"
+    | "render"
+  > & {
+    /** Additional CSS classes for the slider root */
+    className?: string;
+    /**
+     * Points to mark on the track, as values or `{ value, label }` objects.
+     * Labels are shown below the track.
+     */
+    marks?: readonly (number | SliderMark)[];
+    /**
+     * Show the value above a thumb while it is dragged or focused with the
+     * keyboard.
+     * @default true
+     */
+    valueTooltip?: boolean;
+    /** Label content for the slider (enables Field wrapper) - can be a string or any React node */
+    label?: ReactNode;
+    /** Tooltip content to display next to the label via an info icon */
+    labelTooltip?: ReactNode;
+    /** Helper text displayed below the slider */
+    description?: ReactNode;
+    /** Error message or validation error object */
+    error?: string | { message: ReactNode; match: FieldErrorMatch };
+    /**
+     * Whether the slider is required.
+     * When explicitly false, shows "(optional)" text after the label.
+     */
+    required?: boolean;
+    /** Accessible name for the thumbs when there is no `label` */
+    "aria-label"?: string;
+  };
+
+interface SliderBaseProps extends SliderSharedProps {
+  value?: number | readonly number[];
+  defaultValue?: number | readonly number[];
+  onValueChange?: (
+    value: number | readonly number[],
+    eventDetails: BaseSlider.Root.ChangeEventDetails,
+  ) => void;
+  onValueCommitted?: (
+    value: number | readonly number[],
+    eventDetails: BaseSlider.Root.CommitEventDetails,
+  ) => void;
+  /** Number of thumbs to render */
+  thumbs: number;
+  /** Name used in development warnings */
+  displayName: string;
+}
+
+/**
+ * Styled Base UI slider with marks, value tooltips and a built-in Field.
+ * Shared by `Slider` and `RangeSlider`, which fix the number of thumbs.
+ */
+export const SliderBase = forwardRef<HTMLDivElement, SliderBaseProps>(
+  (
+    {
+      className,
+      size = KUMO_SLIDER_DEFAULT_VARIANTS.size,
+      variant = KUMO_SLIDER_DEFAULT_VARIANTS.variant,
+      marks,
+      valueTooltip = true,
+      label,
+      labelTooltip,
+      description,
+      error,
+      required,
+      "aria-label": ariaLabel,
+      thumbs,
+      displayName,
+      min = 0,
+      max = 100,
+      format,
+      locale,
+      ...rootProps
+    },
+    ref,
+  ) => {
+    // A11y enforcement: warn in dev if no accessible name provided
+    if (process.env.NODE_ENV !== "production") {
+      if (!label && !ariaLabel && !rootProps["aria-labelledby"]) {
+        console.warn(
+          `[Kumo ${displayName}]: ${displayName} must have an accessible name. Provide either:\n` +
+            `  - label prop: <${displayName} label='Volume' />\n` +
+            `  - aria-label: <${displayName} aria-label='Volume' />\n` +
+            "  - aria-labelledby for custom label association",
+        );
+      }
+    }
+
+    const formatter = useMemo(
+      () => new Intl.NumberFormat(locale, format),
+      [locale, format],
+    );
+    const normalizedMarks = (marks ?? []).map((mark) =>
+      typeof mark === "number" ? { value: mark } : mark,
+    );
+    const hasMarkLabels = normalizedMarks.some(
+      (mark) => mark.label !== undefined,
+    );
+    const toPercent = (value: number) =>
+      max === min ? 0 : ((value - min) / (max - min)) * 100;
+    const parts = SLIDER_PART_CLASSES[size];
+
+    const slider = (
+      <BaseSlider.Root
+        ref={ref}
+        min={min}
+        max={max}
+        format={format}
+        locale={locale}
+        {...rootProps}
+        className={cn(
+          "flex w-full flex-col data-[disabled]:cursor-not-allowed data-[disabled]:opacity-50",
+          className,
+        )}
+      >
+        <BaseSlider.Control className={sliderVariants({ size })}>
+          <BaseSlider.Track
+            className={cn(
+              "relative w-full rounded-full bg-kumo-fill",
+              parts.track,
+            )}
+          >
+            <BaseSlider.Indicator
+              className={cn(
+                "rounded-full",
+                KUMO_SLIDER_VARIANTS.variant[variant].classes,
+              )}
+            />
+            {normalizedMarks.map((mark) => (
+              <span
+                key={mark.value}
+                aria-hidden="true"
+                data-slider-mark=""
+                className="pointer-events-none absolute top-1/2 size-1 -translate-x-1/2 -translate-y-1/2 rounded-full bg-kumo-base"
+                style={{ left: `${toPercent(mark.value)}%` }}
+              />
+            ))}
+            {Array.from({ length: thumbs }, (_, index) => (
+              <BaseSlider.Thumb
+                key={index}
+                index={index}
+                aria-label={ariaLabel}
+                className={cn(
+                  "group/thumb rounded-full bg-white shadow-sm ring ring-kumo-line outline-none",
+                  "has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-kumo-ring",
+                  "data-[disabled]:cursor-not-allowed",
+                  parts.thumb,
+                )}
+                render={(thumbProps, state) => {
+                  const { children, ...props } =
+                    thumbProps as typeof thumbProps & {
+                      children?: ReactNode;
+                    };
+                  const value = state.values[index];
+                  const active =
+                    state.dragging && state.activeThumbIndex === index;
+                  return (
+                    <div {...props}>
+                      {children}
+                      {valueTooltip && value !== undefined && (
+                        <span
+                          aria-hidden="true"
+                          data-slider-tooltip=""
+                          data-active={active || undefined}
+                          className={cn(
+                            "pointer-events-none absolute bottom-full left-1/2 mb-2 -translate-x-1/2 rounded-md bg-kumo-base px-2 py-1 text-xs whitespace-nowrap text-kumo-default tabular-nums shadow-lg shadow-kumo-tip-shadow outline outline-kumo-fill",
+                            "opacity-0 transition-opacity duration-150",
+                            "group-has-[:focus-visible]/thumb:opacity-100 data-[active]:opacity-100",
+                          )}
+                        >
+                          {formatter.format(value)}
+                        </span>
+                      )}
+                    </div>
+                  );
+                }}
+              />
+            ))}
+          </BaseSlider.Track>
+        </BaseSlider.Control>
+        {hasMarkLabels && (
+          <div aria-hidden="true" className="relative h-4">
+            {normalizedMarks.map(
+              (mark) =>
+                mark.label !== undefined && (
+                  <span
+                    key={mark.value}
+                    className="absolute top-0 -translate-x-1/2 text-xs whitespace-nowrap text-kumo-subtle tabular-nums"
+                    style={{ left: `${toPercent(mark.value)}%` }}
+                  >
+                    {mark.label}
+                  </span>
+                ),
+            )}
+          </div>
+        )}
+      </BaseSlider.Root>
+    );
+
+    // Render with Field wrapper if label is provided
+    if (label) {
+      return (
+        <Field
+          label={label}
+          required={required}
+          labelTooltip={labelTooltip}
+          description={description}
+          error={
+            error
+              ? typeof error === "string"
+                ? { message: error, match: true }
+                : error
+              : undefined
+          }
+        >
+          {slider}
+        </Field>
+      );
+    }
+
+    // Render bare slider without Field wrapper
+    return slider;
+  },
+);
+
+SliderBase.displayName = "SliderBase";
+
+/**
+ * Slider component props.
+ *
+ * **Accessible Name Required:** Slider should have a `label` (recommended),
+ * an `aria-label`, or an `aria-labelledby`.
+ *
+ * @example
+ * // Built-in Field wrapper
+ * <Slider label="Volume" defaultValue={40} />
+ *
+ * @example
+ * // Controlled, with step and marks
+ * <Slider
+ *   label="Sampling rate"
+ *   value={rate}
+ *   onValueChange={setRate}
+ *   step={25}
+ *   marks={[{ value: 0, label: "0%" }, { value: 50, label: "50%" }, { value: 100, label: "100%" }]}
+ * />
+ */
+export type SliderProps = SliderSharedProps & {
+  /** The value of a controlled slider */
+  value?: number;
+  /** The initial value of an uncontrolled slider */
+  defaultValue?: number;
+  /** Called with the new value while the slider changes */
+  onValueChange?: (
+    value: number,
+    eventDetails: BaseSlider.Root.ChangeEventDetails,
+  ) => void;
+  /** Called with the final value when the user releases the thumb */
+  onValueCommitted?: (
+    value: number,
+    eventDetails: BaseSlider.Root.CommitEventDetails,
+  ) => void;
+};
+
+/**
+ * Lets users pick a number from a range by dragging a thumb along a track,
+ * e.g. a rate limit or a percentage.
+ *
+ * @example
+ * ```tsx
+ * <Slider label="Cache TTL" defaultValue={30} min={0} max={120} step={5} />
+ * ```
+ */
+export const Slider = forwardRef<HTMLDivElement, SliderProps>((props, ref) => (
+  <SliderBase
+    ref={ref}
+    {...(props as SliderSharedProps)}
+    thumbs={1}
+    displayName="Slider"
+  />
+));
+
+Slider.displayName = "Slider";
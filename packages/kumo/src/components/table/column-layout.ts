@@ -0,0 +1,177 @@
+/**
+ * Column layout model for Table: widths, order, visibility and pinning,
+ * plus helpers to persist it. Pure functions, used by `useTableColumnLayout`.
+ */
+
+import { parseStoredObject } from "../../utils/storage";
+
+/** Side a column is pinned to. */
+export type TableColumnPin = "left" | "right";
+
+/** Column sizing and placement defaults. */
+export interface TableColumnDef {
+  /** Unique column id */
+  id: string;
+  /** Initial width in pixels. @default 150 */
+  width?: number;
+  /** Minimum width in pixels when resizing. @default 48 */
+  minWidth?: number;
+  /** Maximum width in pixels when resizing */
+  maxWidth?: number;
+  /** Initially pinned side */
+  pinned?: TableColumnPin;
+  /** Initially hidden */
+  hidden?: boolean;
+}
+
+/** Serializable column layout. */
+export interface TableColumnLayout {
+  /** Column ids in display order (before pinning) */
+  order: string[];
+  /** Column widths in pixels, by id */
+  widths: Record<string, number>;
+  /** Hidden column ids */
+  hidden: string[];
+  /** Pinned columns, by id */
+  pinned: Record<string, TableColumnPin>;
+}
+
+/**
+ * Storage for a persisted layout. `localStorage` and `sessionStorage` fit,
+ * and adapters may return promises (e.g. to save layouts server-side).
+ */
+export interface TableLayoutStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+}
+
+export const DEFAULT_COLUMN_WIDTH = 150;
+export const DEFAULT_MIN_COLUMN_WIDTH = 48;
+
+/** Clamp a width to a column's min and max. */
+export function clampColumnWidth(column: TableColumnDef, width: number) {
+  const min = column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH;
+  const max = column.maxWidth ?? Infinity;
+  return Math.round(Math.min(Math.max(width, min), max));
+}
+
+/** Layout from the column definitions' defaults. */
+export function createColumnLayout(
+  columns: TableColumnDef[],
+): TableColumnLayout {
+  const layout: TableColumnLayout = {
+    order: columns.map((column) => column.id),
+    widths: {},
+    hidden: columns.filter((column) => column.hidden).map((c) => c.id),
+    pinned: {},
+  };
+  for (const column of columns) {
+    layout.widths[column.id] = clampColumnWidth(
+      column,
+      column.width ?? DEFAULT_COLUMN_WIDTH,
+    );
+    if (column.pinned) layout.pinned[column.id] = column.pinned;
+  }
+  return layout;
+}
+
+/**
+ * Reconcile a (possibly stale or partial) layout with the current columns:
+ * unknown ids are dropped, new columns are appended with their defaults,
+ * and widths are clamped.
+ */
+export function normalizeColumnLayout(
+  layout: Partial<TableColumnLayout>,
+  columns: TableColumnDef[],
+): TableColumnLayout {
+  const defaults = createColumnLayout(columns);
+  const byId = new Map(columns.map((column) => [column.id, column]));
+  const known = (id: string) => byId.has(id);
+
+  const order = (layout.order ?? []).filter(known);
+  for (const id of defaults.order) {
+    if (!order.includes(id)) order.push(id);
+  }
+
+  const widths: Record<string, number> = {};
+  for (const [id, column] of byId) {
+    const width = layout.widths?.[id];
+    widths[id] =
+      typeof width === "number"
+        ? clampColumnWidth(column, width)
+        : defaults.widths[id]!;
+  }
+
+  const pinned: Record<string, TableColumnPin> = {};
+  for (const [id, side] of Object.entries(layout.pinned ?? defaults.pinned)) {
+    if (known(id) && (side === "left" || side === "right")) pinned[id] = side;
+  }
+
+  return {
+    order: [...new Set(order)],
+    widths,
+    hidden: (layout.hidden ?? defaults.hidden).filter(known),
+    pinned,
+  };
+}
+
+/**
+ * Visible column ids in display order: left-pinned columns first and
+ * right-pinned columns last, each keeping their relative order.
+ */
+export function getVisibleColumnIds(layout: TableColumnLayout): string[] {
+  const visible = layout.order.filter((id) => !layout.hidden.includes(id));
+  return [
+    ...visible.filter((id) => layout.pinned[id] === "left"),
+    ...visible.filter((id) => !layout.pinned[id]),
+    ...visible.filter((id) => layout.pinned[id] === "right"),
+  ];
+}
+
+/**
+ * Sticky offsets of pinned columns in pixels: `left` for left-pinned
+ * columns, `right` for right-pinned ones.
+ */
+export function getPinnedOffsets(
+  layout: TableColumnLayout,
+): Record<string, { side: TableColumnPin; offset: number }> {
+  const ids = getVisibleColumnIds(layout);
+  const offsets: Record<string, { side: TableColumnPin; offset: number }> = {};
+
+  let left = 0;
+  for (const id of ids.filter((id) => layout.pinned[id] === "left")) {
+    offsets[id] = { side: "left", offset: left };
+    left += layout.widths[id] ?? 0;
+  }
+  let right = 0;
+  for (const id of ids
+    .filter((id) => layout.pinned[id] === "right")
+    .toReversed()) {
+    offsets[id] = { side: "right", offset: right };
+    right += layout.widths[id] ?? 0;
+  }
+
+  return offsets;
+}
+
+/** Move a column before `targetId`, or after it when moving rightwards. */
+export function moveColumn(
+  order: string[],
+  columnId: string,
+  targetId: string,
+): string[] {
+  const from = order.indexOf(columnId);
+  const to = order.indexOf(targetId);
+  if (from === -1 || to === -1 || from === to) return order;
+
+  const next = order.filter((id) => id !== columnId);
+  next.splice(to, 0, columnId);
+  return next;
+}
+
+/** Read a stored layout, ignoring missing or malformed values. */
+export function parseColumnLayout(
+  value: string | null,
+): Partial<TableColumnLayout> | undefined {
+  return parseStoredObject<Partial<TableColumnLayout>>(value);
+}
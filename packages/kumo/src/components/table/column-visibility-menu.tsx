@@ -0,0 +1,82 @@
+import type { ReactNode } from "react";
+import { ColumnsIcon } from "@phosphor-icons/react";
+import { Button } from "../button";
+import { DropdownMenu } from "../dropdown";
+
+/** A column listed in `Table.ColumnVisibilityMenu`. */
+export interface TableColumnVisibilityOption {
+  /** Column id */
+  id: string;
+  /** Menu item label */
+  label: ReactNode;
+  /** Prevent toggling the column (e.g. for a required column) */
+  disabled?: boolean;
+}
+
+export interface TableColumnVisibilityMenuProps {
+  /** Columns that can be shown or hidden, in menu order */
+  columns: TableColumnVisibilityOption[];
+  /** Ids of the hidden columns */
+  hidden: string[];
+  /** Callback with the new hidden column ids */
+  onHiddenChange: (hidden: string[]) => void;
+  /** Trigger button label. @default "Columns" */
+  label?: ReactNode;
+  /** Additional CSS classes for the trigger button */
+  className?: string;
+}
+
+/**
+ * Column visibility menu — a dropdown of checkbox items that show or hide
+ * table columns. Pairs with `useTableColumnLayout`'s `layout.hidden`.
+ *
+ * @example
+ * ```tsx
+ * <Table.ColumnVisibilityMenu
+ *   columns={[{ id: "name", label: "Name", disabled: true }, { id: "region", label: "Region" }]}
+ *   hidden={layout.hidden}
+ *   onHiddenChange={(hidden) => setLayout({ ...layout, hidden })}
+ * />
+ * ```
+ */
+export function TableColumnVisibilityMenu({
+  columns,
+  hidden,
+  onHiddenChange,
+  label = "Columns",
+  className,
+}: TableColumnVisibilityMenuProps) {
+  const hiddenIds = new Set(hidden);
+
+  const handleCheckedChange = (id: string, visible: boolean) => {
+    onHiddenChange(
+      visible ? hidden.filter((hiddenId) => hiddenId !== id) : [...hidden, id],
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenu.Trigger>
+        <Button size="sm" icon={ColumnsIcon} className={className}>
+          {label}
+        </Button>
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Content>
+        {columns.map((column) => (
+          <DropdownMenu.CheckboxItem
+            key={column.id}
+            checked={!hiddenIds.has(column.id)}
+            disabled={column.disabled}
+            onCheckedChange={(checked) =>
+              handleCheckedChange(column.id, checked)
+            }
+          >
+            {column.label}
+          </DropdownMenu.CheckboxItem>
+        ))}
+      </DropdownMenu.Content>
+    </DropdownMenu>
+  );
+}
+
+TableColumnVisibilityMenu.displayName = "Table.ColumnVisibilityMenu";
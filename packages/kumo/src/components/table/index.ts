@@ -5,3 +5,24 @@ export {
   type KumoTableLayout,
   type KumoTableRowVariant,
 } from "./table";
+export {
+  useTableColumnLayout,
+  type TableColumnLayoutState,
+  type UseTableColumnLayoutOptions,
+} from "./use-column-layout";
+export {
+  useTableRowTree,
+  type TableRowTreeState,
+  type UseTableRowTreeOptions,
+} from "./use-row-tree";
+export type { TableTreeRow } from "./row-tree";
+export type {
+  TableColumnDef,
+  TableColumnLayout,
+  TableColumnPin,
+  TableLayoutStorage,
+} from "./column-layout";
+export type {
+  TableColumnVisibilityMenuProps,
+  TableColumnVisibilityOption,
+} from "./column-visibility-menu";
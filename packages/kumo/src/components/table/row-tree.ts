@@ -0,0 +1,106 @@
+/**
+ * Row tree model for Table: flattening nested rows into the visible rows of
+ * a treegrid, with their level and position among their siblings. Pure
+ * functions, used by `useTableRowTree`.
+ */
+
+/** A visible row of a tree, in display order. */
+export interface TableTreeRow<TRow> {
+  /** Row id, unique across the tree */
+  id: string;
+  /** The row data */
+  row: TRow;
+  /** Nesting level, starting at 1 for top-level rows (`aria-level`) */
+  level: number;
+  /** Id of the parent row, or `null` for top-level rows */
+  parentId: string | null;
+  /** 1-based position among its siblings (`aria-posinset`) */
+  posinset: number;
+  /** Number of siblings, including the row itself (`aria-setsize`) */
+  setsize: number;
+  /** Whether the row can be expanded */
+  expandable: boolean;
+  /** Whether the row is expanded */
+  expanded: boolean;
+}
+
+export interface FlattenRowTreeOptions<TRow> {
+  /** Id of a row, given its index among its siblings and its parent's id */
+  getRowId: (row: TRow, index: number, parentId: string | null) => string;
+  /** Children of a row, or `undefined` when they are not known (yet) */
+  getSubRows: (row: TRow, id: string) => TRow[] | undefined;
+  /** Whether a row can be expanded, given its children */
+  isRowExpandable: (row: TRow, subRows: TRow[] | undefined) => boolean;
+  /** Ids of expanded rows */
+  expanded: ReadonlySet<string>;
+}
+
+/**
+ * Visible rows of a tree in display order: each row followed by the rows
+ * under it when it is expanded.
+ */
+export function flattenRowTree<TRow>(
+  rows: TRow[],
+  options: FlattenRowTreeOptions<TRow>,
+): TableTreeRow<TRow>[] {
+  const result: TableTreeRow<TRow>[] = [];
+
+  const visit = (siblings: TRow[], level: number, parentId: string | null) => {
+    siblings.forEach((row, index) => {
+      const id = options.getRowId(row, index, parentId);
+      const subRows = options.getSubRows(row, id);
+      const expandable = options.isRowExpandable(row, subRows);
+      const expanded = expandable && options.expanded.has(id);
+      result.push({
+        id,
+        row,
+        level,
+        parentId,
+        posinset: index + 1,
+        setsize: siblings.length,
+        expandable,
+        expanded,
+      });
+      if (expanded && subRows) visit(subRows, level + 1, id);
+    });
+  };
+
+  visit(rows, 1, null);
+  return result;
+}
+
+/**
+ * Id of the row to focus for a treegrid navigation key, following the ARIA
+ * treegrid pattern. Returns `undefined` when the key does not move focus
+ * (e.g. ArrowRight on a collapsed row expands it instead).
+ */
+export function getTreeNavigationTarget<TRow>(
+  rows: TableTreeRow<TRow>[],
+  id: string,
+  key: string,
+): string | undefined {
+  const index = rows.findIndex((row) => row.id === id);
+  const current = rows[index];
+  if (!current) return undefined;
+
+  switch (key) {
+    case "ArrowDown":
+      return rows[index + 1]?.id;
+    case "ArrowUp":
+      return rows[index - 1]?.id;
+    case "Home":
+      return rows[0]?.id;
+    case "End":
+      return rows[rows.length - 1]?.id;
+    case "ArrowRight": {
+      // An expanded row moves to its first child
+      const next = rows[index + 1];
+      return current.expanded && next?.parentId === id ? next.id : undefined;
+    }
+    case "ArrowLeft":
+      // A collapsed row moves to its parent
+      return current.expanded ? undefined : (current.parentId ?? undefined);
+    default:
+      return undefined;
+  }
+}
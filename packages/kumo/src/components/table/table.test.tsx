@@ -0,0 +1,459 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import { Table } from "./table";
+import {
+  getPinnedOffsets,
+  getVisibleColumnIds,
+  moveColumn,
+  normalizeColumnLayout,
+  parseColumnLayout,
+  type TableColumnDef,
+} from "./column-layout";
+import { useTableColumnLayout } from "./use-column-layout";
+import { flattenRowTree } from "./row-tree";
+import { useTableRowTree, type UseTableRowTreeOptions } from "./use-row-tree";
+
+const columns: TableColumnDef[] = [
+  { id: "name", width: 200, pinned: "left" },
+  { id: "status", width: 100, minWidth: 80, maxWidth: 160 },
+  { id: "region" },
+  { id: "actions", width: 60, pinned: "right" },
+];
+
+describe("column layout", () => {
+  it("reconciles stale layouts with the current columns", () => {
+    const layout = normalizeColumnLayout(
+      {
+        order: ["region", "removed", "name"],
+        widths: { status: 500 },
+        hidden: ["removed"],
+      },
+      columns,
+    );
+
+    expect(layout.order).toEqual(["region", "name", "status", "actions"]);
+    expect(layout.widths).toEqual({
+      name: 200,
+      status: 160,
+      region: 150,
+      actions: 60,
+    });
+    expect(layout.hidden).toEqual([]);
+    expect(layout.pinned).toEqual({ name: "left", actions: "right" });
+  });
+
+  it("orders pinned columns at the edges and computes sticky offsets", () => {
+    const layout = normalizeColumnLayout(
+      { pinned: { region: "left", name: "left", actions: "right" } },
+      columns,
+    );
+
+    expect(getVisibleColumnIds(layout)).toEqual([
+      "name",
+      "region",
+      "status",
+      "actions",
+    ]);
+    expect(getPinnedOffsets(layout)).toEqual({
+      name: { side: "left", offset: 0 },
+      region: { side: "left", offset: 200 },
+      actions: { side: "right", offset: 0 },
+    });
+  });
+
+  it("moves columns onto their target and ignores malformed storage", () => {
+    expect(moveColumn(["a", "b", "c"], "a", "c")).toEqual(["b", "c", "a"]);
+    expect(moveColumn(["a", "b", "c"], "c", "a")).toEqual(["c", "a", "b"]);
+    expect(parseColumnLayout("{not json")).toBeUndefined();
+    expect(parseColumnLayout("[1]")).toBeUndefined();
+  });
+});
+
+describe("Table.ResizeHandle", () => {
+  it("resizes with the keyboard within min and max widths", () => {
+    const onResize = vi.fn();
+    render(
+      <Table.ResizeHandle
+        width={100}
+        minWidth={80}
+        maxWidth={160}
+        onResize={onResize}
+      />,
+    );
+
+    const handle = screen.getByRole("separator", { name: "Resize column" });
+    expect(handle.getAttribute("aria-valuenow")).toBe("100");
+
+    fireEvent.keyDown(handle, { key: "ArrowRight" });
+    fireEvent.keyDown(handle, { key: "Home" });
+    fireEvent.keyDown(handle, { key: "End" });
+    expect(onResize.mock.calls).toEqual([[110], [80], [160]]);
+  });
+
+  it("resizes by dragging", () => {
+    const onResize = vi.fn();
+    render(<Table.ResizeHandle width={100} onResize={onResize} />);
+
+    const handle = screen.getByRole("separator");
+    fireEvent.pointerDown(handle, { button: 0, clientX: 10, pointerId: 1 });
+    fireEvent.pointerMove(handle, { clientX: 35, pointerId: 1 });
+    fireEvent.pointerUp(handle, { pointerId: 1 });
+    fireEvent.pointerMove(handle, { clientX: 90, pointerId: 1 });
+
+    expect(onResize.mock.calls).toEqual([[125]]);
+  });
+});
+
+function LayoutTable(props: Parameters<typeof useTableColumnLayout>[1]) {
+  const layout = useTableColumnLayout(columns, props);
+
+  return (
+    <Table {...layout.getTableProps()}>
+      <Table.Header>
+        <Table.Row>
+          {layout.visibleColumnIds.map((id) => (
+            <Table.Head
+              key={id}
+              {...layout.getHeadProps(id, { reorderable: true })}
+            >
+              {id}
+              <Table.ResizeHandle {...layout.getResizeHandleProps(id)} />
+            </Table.Head>
+          ))}
+        </Table.Row>
+      </Table.Header>
+    </Table>
+  );
+}
+
+describe("useTableColumnLayout", () => {
+  it("reorders with Alt+Arrow keys and persists the layout", () => {
+    const storage = { getItem: vi.fn(() => null), setItem: vi.fn() };
+    render(<LayoutTable storage={storage} storageKey="workers" />);
+
+    fireEvent.keyDown(screen.getByRole("columnheader", { name: /status/ }), {
+      key: "ArrowRight",
+      altKey: true,
+    });
+
+    expect(
+      screen.getAllByRole("columnheader").map((head) => head.textContent),
+    ).toEqual(["name", "region", "status", "actions"]);
+    expect(storage.getItem).toHaveBeenCalledWith("workers");
+    expect(JSON.parse(storage.setItem.mock.calls[0]![1] as string)).toEqual(
+      expect.objectContaining({
+        order: ["name", "region", "status", "actions"],
+      }),
+    );
+  });
+
+  it("loads a layout from an async storage adapter", async () => {
+    const stored = JSON.stringify({
+      hidden: ["region"],
+      widths: { status: 120 },
+    });
+    const storage = {
+      getItem: vi.fn(() => Promise.resolve(stored)),
+      setItem: vi.fn(),
+    };
+    render(<LayoutTable storage={storage} storageKey="workers" />);
+
+    await act(() => Promise.resolve());
+
+    expect(
+      screen.getAllByRole("columnheader").map((head) => head.textContent),
+    ).toEqual(["name", "status", "actions"]);
+    const [, status] = screen.getAllByRole("separator");
+    expect(status!.getAttribute("aria-valuenow")).toBe("120");
+  });
+
+  it("keeps changes made while the stored layout loads", async () => {
+    let resolve: ((value: string) => void) | undefined;
+    const storage = {
+      getItem: vi.fn(
+        () =>
+          new Promise<string>((next) => {
+            resolve = next;
+          }),
+      ),
+      setItem: vi.fn(),
+    };
+    render(<LayoutTable storage={storage} storageKey="workers" />);
+
+    fireEvent.keyDown(screen.getByRole("columnheader", { name: /status/ }), {
+      key: "ArrowRight",
+      altKey: true,
+    });
+    await act(async () => {
+      resolve?.(JSON.stringify({ hidden: ["region"] }));
+      await Promise.resolve();
+    });
+
+    expect(
+      screen.getAllByRole("columnheader").map((head) => head.textContent),
+    ).toEqual(["name", "region", "status", "actions"]);
+  });
+
+  it("makes pinned columns sticky at their offsets", () => {
+    render(<LayoutTable />);
+
+    const actions = screen.getByRole("columnheader", { name: /actions/ });
+    expect(actions.classList.contains("sticky")).toBe(true);
+    expect(actions.style.right).toBe("0px");
+    const status = screen.getByRole("columnheader", { name: /status/ });
+    expect(status.classList.contains("sticky")).toBe(false);
+  });
+});
+
+/** Virtualized table with a row per name */
+function renderVirtualRows(names: string[]) {
+  return (
+    <Table>
+      <Table.Body virtualized>
+        {names.map((name) => (
+          <Table.Row key={name}>
+            <Table.Cell>{name}</Table.Cell>
+          </Table.Row>
+        ))}
+      </Table.Body>
+    </Table>
+  );
+}
+
+describe("Table.Body virtualized", () => {
+  it("renders a window of rows with row positions", () => {
+    const rows = Array.from({ length: 1000 }, (_, index) => `Record ${index}`);
+    render(
+      <div style={{ height: 300, overflowY: "auto" }}>
+        <Table>
+          <Table.Header>
+            <Table.Row>
+              <Table.Head>Name</Table.Head>
+            </Table.Row>
+          </Table.Header>
+          <Table.Body virtualized>
+            {rows.map((name) => (
+              <Table.Row key={name}>
+                <Table.Cell>{name}</Table.Cell>
+              </Table.Row>
+            ))}
+          </Table.Body>
+        </Table>
+      </div>,
+    );
+
+    expect(screen.getByRole("table").getAttribute("aria-rowcount")).toBe(
+      "1001",
+    );
+    const rendered = screen.getAllByRole("row").slice(1);
+    expect(rendered.length).toBeLessThan(50);
+    expect(rendered[0]!.getAttribute("aria-rowindex")).toBe("2");
+    expect(screen.queryByText("Record 999")).toBeNull();
+  });
+
+  it("keeps measured row heights with their rows when rows are added", () => {
+    // Rows measure at the 45px estimate, except the tall one
+    const spy = vi
+      .spyOn(HTMLElement.prototype, "getBoundingClientRect")
+      .mockImplementation(function (this: HTMLElement) {
+        const height = !this.dataset.virtualIndex
+          ? 0
+          : this.textContent === "Tall"
+            ? 400
+            : 45;
+        return DOMRect.fromRect({ height });
+      });
+    const rows = ["Tall", ...Array.from({ length: 19 }, (_, i) => `Row ${i}`)];
+    const { container, rerender } = render(renderVirtualRows(rows));
+
+    // The tall row moves out of view, past 100 new rows
+    const added = Array.from({ length: 100 }, (_, i) => `New ${i}`);
+    rerender(renderVirtualRows([...added, ...rows]));
+    const spacers = container.querySelectorAll<HTMLElement>("tr[aria-hidden]");
+    // 120 rows, 17 rendered: the 103 after them include the tall row
+    expect(spacers[spacers.length - 1]!.style.height).toBe(
+      `${102 * 45 + 400}px`,
+    );
+    spy.mockRestore();
+  });
+
+  it("only watches the size of rendered rows", () => {
+    const watched = new Set<Element>();
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        observe(element: Element) {
+          watched.add(element);
+        }
+        unobserve(element: Element) {
+          watched.delete(element);
+        }
+        disconnect() {
+          watched.clear();
+        }
+      },
+    );
+    const rows = Array.from({ length: 1000 }, (_, index) => `Record ${index}`);
+    const { container } = render(
+      <div style={{ height: 300, overflowY: "auto" }}>
+        {renderVirtualRows(rows)}
+      </div>,
+    );
+    const scroller = container.firstElementChild as HTMLElement;
+
+    for (const scrollTop of [5000, 10000, 20000]) {
+      scroller.scrollTop = scrollTop;
+      fireEvent.scroll(scroller);
+    }
+    const rendered = container.querySelectorAll("[data-virtual-index]");
+    expect(screen.queryByText("Record 0")).toBeNull();
+    // The scroll container and the rows in the window
+    expect(watched.size).toBe(rendered.length + 1);
+    vi.unstubAllGlobals();
+  });
+});
+
+interface Resource {
+  id: string;
+  name: string;
+  children?: Resource[];
+}
+
+const zones: Resource[] = [
+  {
+    id: "example.com",
+    name: "example.com",
+    children: [
+      { id: "www", name: "www" },
+      { id: "api", name: "api" },
+    ],
+  },
+  { id: "example.org", name: "example.org", children: [] },
+];
+
+function TreeTable(options: UseTableRowTreeOptions<Resource>) {
+  const tree = useTableRowTree(zones, {
+    getRowId: (row) => row.id,
+    ...options,
+  });
+  return (
+    <Table {...tree.getTableProps()} aria-label="Zones">
+      <Table.Body>
+        {tree.rows.map((treeRow) => (
+          <Table.Row key={treeRow.id} {...tree.getRowProps(treeRow)}>
+            <Table.ExpandCell {...tree.getExpandCellProps(treeRow)}>
+              {treeRow.row.name}
+            </Table.ExpandCell>
+          </Table.Row>
+        ))}
+      </Table.Body>
+    </Table>
+  );
+}
+
+describe("row tree", () => {
+  it("flattens expanded rows with their level and position", () => {
+    const rows = flattenRowTree(zones, {
+      getRowId: (row) => row.id,
+      getSubRows: (row) => row.children,
+      isRowExpandable: (_row, subRows) => (subRows?.length ?? 0) > 0,
+      expanded: new Set(["example.com", "example.org"]),
+    });
+
+    expect(
+      rows.map(({ id, level, posinset, setsize, expandable }) => [
+        id,
+        level,
+        posinset,
+        setsize,
+        expandable,
+      ]),
+    ).toEqual([
+      ["example.com", 1, 1, 2, true],
+      ["www", 2, 1, 2, false],
+      ["api", 2, 2, 2, false],
+      ["example.org", 1, 2, 2, false],
+    ]);
+  });
+});
+
+describe("useTableRowTree", () => {
+  it("expands, collapses and moves focus following the treegrid pattern", () => {
+    render(<TreeTable getSubRows={(row) => row.children} />);
+
+    const zone = screen.getByRole("row", { name: /example\.com/ });
+    expect(screen.getByRole("treegrid")).toBeTruthy();
+    expect(zone.getAttribute("aria-expanded")).toBe("false");
+    expect(zone.getAttribute("tabindex")).toBe("0");
+
+    act(() => zone.focus());
+    fireEvent.keyDown(zone, { key: "ArrowRight" });
+    expect(zone.getAttribute("aria-expanded")).toBe("true");
+
+    // ArrowRight again moves to the first child, ArrowLeft back to the parent
+    fireEvent.keyDown(zone, { key: "ArrowRight" });
+    const www = screen.getByRole("row", { name: /www/ });
+    expect(document.activeElement).toBe(www);
+    expect(www.getAttribute("aria-level")).toBe("2");
+    expect(www.getAttribute("aria-posinset")).toBe("1");
+    expect(www.getAttribute("aria-setsize")).toBe("2");
+
+    fireEvent.keyDown(www, { key: "End" });
+    expect(document.activeElement?.textContent).toBe("example.org");
+    fireEvent.keyDown(document.activeElement!, { key: "Home" });
+    expect(document.activeElement).toBe(zone);
+
+    fireEvent.keyDown(zone, { key: "ArrowLeft" });
+    expect(zone.getAttribute("aria-expanded")).toBe("false");
+    expect(screen.queryByRole("row", { name: /www/ })).toBeNull();
+  });
+
+  it("toggles rows from the disclosure button", () => {
+    const onExpandedRowIdsChange = vi.fn();
+    render(
+      <TreeTable
+        getSubRows={(row) => row.children}
+        onExpandedRowIdsChange={onExpandedRowIdsChange}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Expand row" }));
+    expect(onExpandedRowIdsChange).toHaveBeenCalledWith(["example.com"]);
+    expect(screen.getByRole("row", { name: /api/ })).toBeTruthy();
+    // Rows without children keep an empty slot instead of a button
+    expect(screen.getAllByRole("button")).toHaveLength(1);
+  });
+
+  it("loads children lazily on first expand", async () => {
+    const loadSubRows = vi.fn(async (row: Resource) => [
+      { id: `${row.id}/records`, name: `${row.name} records` },
+    ]);
+    render(<TreeTable loadSubRows={loadSubRows} />);
+
+    const zone = screen.getByRole("row", { name: /example\.org/ });
+    fireEvent.click(screen.getAllByRole("button", { name: "Expand row" })[1]!);
+    expect(zone.getAttribute("aria-busy")).toBe("true");
+
+    await waitFor(() =>
+      expect(
+        screen.getByRole("row", { name: "example.org records" }),
+      ).toBeTruthy(),
+    );
+    expect(zone.hasAttribute("aria-busy")).toBe(false);
+    expect(loadSubRows).toHaveBeenCalledTimes(1);
+
+    // Loaded children are kept when the row is collapsed and expanded again
+    fireEvent.keyDown(zone, { key: "ArrowLeft" });
+    fireEvent.keyDown(zone, { key: "ArrowRight" });
+    expect(
+      screen.getByRole("row", { name: "example.org records" }),
+    ).toBeTruthy();
+    expect(loadSubRows).toHaveBeenCalledTimes(1);
+  });
+});
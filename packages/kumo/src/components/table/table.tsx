@@ -1,6 +1,24 @@
-import { forwardRef } from "react";
+import {
+  Children,
+  cloneElement,
+  forwardRef,
+  isValidElement,
+  useCallback,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import { CaretRightIcon } from "@phosphor-icons/react";
 import { cn } from "../../utils";
+import { getScrollParent, useVirtualList } from "../../utils/virtual-list";
+import { DEFAULT_MIN_COLUMN_WIDTH } from "./column-layout";
+import { TableColumnVisibilityMenu } from "./column-visibility-menu";
 import { Checkbox } from "../checkbox";
+import { Loader } from "../loader";
+
+/** Indentation per tree level in pixels. */
+const TREE_INDENT = 20;
 
 /** Table layout and row variant definitions mapping names to their Tailwind classes. */
 export const KUMO_TABLE_VARIANTS = {
@@ -111,11 +129,96 @@ const TableRow = forwardRef<
   return <tr ref={ref} {...props} className={className} />;
 });
 
-const TableBody = forwardRef<
+interface TableBodyProps extends React.HTMLAttributes<HTMLTableSectionElement> {
+  /**
+   * Only render the rows in view of the nearest scrolling ancestor (wrap the
+   * table in an element with a fixed height and `overflow-auto`). Children
+   * must be `Table.Row` elements; they are given `aria-rowindex` and the
+   * table `aria-rowcount`.
+   * @default false
+   */
+  virtualized?: boolean;
+  /**
+   * Estimated row height in pixels, used until rows are measured.
+   * @default 45
+   */
+  estimateRowHeight?: number;
+}
+
+const TableBody = forwardRef<HTMLTableSectionElement, TableBodyProps>(
+  ({ virtualized = false, estimateRowHeight = 45, ...props }, ref) => {
+    if (virtualized) {
+      return (
+        <VirtualTableBody
+          ref={ref}
+          estimateRowHeight={estimateRowHeight}
+          {...props}
+        />
+      );
+    }
+    return <tbody ref={ref} {...props} />;
+  },
+);
+
+const VirtualTableBody = forwardRef<
   HTMLTableSectionElement,
-  React.HTMLAttributes<HTMLTableSectionElement>
->((props, ref) => {
-  return <tbody ref={ref} {...props} />;
+  Omit<TableBodyProps, "virtualized"> & { estimateRowHeight: number }
+>(({ estimateRowHeight, children, ...props }, ref) => {
+  const rows = Children.toArray(children);
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
+  useImperativeHandle(ref, () => bodyRef.current!);
+
+  const getScrollElement = useCallback(
+    () => getScrollParent(bodyRef.current),
+    [],
+  );
+  const getListElement = useCallback(() => bodyRef.current, []);
+  const { indexes, paddingStart, paddingEnd } = useVirtualList({
+    count: rows.length,
+    getScrollElement,
+    getListElement,
+    estimateSize: estimateRowHeight,
+    getItemKey: (index) => {
+      const row = rows[index];
+      return isValidElement(row) ? row.key : index;
+    },
+  });
+
+  // Header rows come first in the table's row count
+  const [headerRowCount, setHeaderRowCount] = useState(0);
+  useLayoutEffect(() => {
+    const table = bodyRef.current?.closest("table");
+    if (!table) return;
+    const headerRows = Array.from(table.tHead?.querySelectorAll("tr") ?? []);
+    headerRows.forEach((row, index) =>
+      row.setAttribute("aria-rowindex", String(index + 1)),
+    );
+    table.setAttribute(
+      "aria-rowcount",
+      String(
+        headerRows.length +
+          rows.length +
+          (table.tFoot?.querySelectorAll("tr").length ?? 0),
+      ),
+    );
+    setHeaderRowCount(headerRows.length);
+  });
+
+  return (
+    <tbody ref={bodyRef} {...props}>
+      {paddingStart > 0 && <tr aria-hidden style={{ height: paddingStart }} />}
+      {indexes.map((index) => {
+        const row = rows[index];
+        return isValidElement<Record<string, unknown>>(row)
+          ? cloneElement(row, {
+              "data-virtual-index": index,
+              "aria-rowindex": headerRowCount + index + 1,
+            })
+          : row;
+      })}
+      {paddingEnd > 0 && <tr aria-hidden style={{ height: paddingEnd }} />}
+    </tbody>
+  );
 });
 
 const TableCell = forwardRef<
@@ -132,29 +235,120 @@ const TableFooter = forwardRef<
   return <tfoot ref={ref} {...props} />;
 });
 
+/**
+ * Column resize handle, placed inside a `Table.Head`.
+ *
+ * With `width` and `onResize` the handle resizes the column itself: drag it,
+ * or focus it and use the arrow keys (Home/End jump to the min/max width).
+ * Without them it only renders the grab handle, for libraries that bring
+ * their own sizing logic.
+ */
 const TableResizeHandle = forwardRef<
   HTMLButtonElement,
-  React.HTMLAttributes<HTMLButtonElement>
->((props, ref) => {
-  return (
-    <button
-      ref={ref}
-      {...props}
-      type="button"
-      aria-label="Resize column"
-      className={cn(
-        "invisible h-full group-hover:visible", // Make the handle invisible by default
-        "w-[10px]", // Hitting area
-        "flex items-center justify-center", // Center the handle
-        "cursor-col-resize touch-none select-none", // Prevent selection and touch events
-        "absolute top-0 right-0", // Position the handle
-        "m-0 bg-kumo-base p-0", // Override the stratus button styles
-      )}
-    >
-      <span className="h-5 w-[2px] rounded bg-kumo-ring" />
-    </button>
-  );
-});
+  React.HTMLAttributes<HTMLButtonElement> & {
+    /** Current column width in pixels */
+    width?: number;
+    /** Minimum column width in pixels. @default 48 */
+    minWidth?: number;
+    /** Maximum column width in pixels */
+    maxWidth?: number;
+    /** Pixels per arrow key press. @default 10 */
+    step?: number;
+    /** Callback with the new, clamped column width */
+    onResize?: (width: number) => void;
+  }
+>(
+  (
+    {
+      width,
+      minWidth = DEFAULT_MIN_COLUMN_WIDTH,
+      maxWidth,
+      step = 10,
+      onResize,
+      ...props
+    },
+    ref,
+  ) => {
+    const dragStart = useRef<{ x: number; width: number } | null>(null);
+    const clamp = (next: number) =>
+      Math.round(Math.min(Math.max(next, minWidth), maxWidth ?? Infinity));
+    const resizable = onResize !== undefined && width !== undefined;
+
+    const handlePointerDown = (
+      event: React.PointerEvent<HTMLButtonElement>,
+    ) => {
+      props.onPointerDown?.(event);
+      if (!resizable || event.button !== 0) return;
+      event.preventDefault();
+      event.currentTarget.setPointerCapture?.(event.pointerId);
+      dragStart.current = { x: event.clientX, width };
+    };
+
+    const handlePointerMove = (
+      event: React.PointerEvent<HTMLButtonElement>,
+    ) => {
+      props.onPointerMove?.(event);
+      if (!dragStart.current) return;
+      onResize?.(
+        clamp(dragStart.current.width + event.clientX - dragStart.current.x),
+      );
+    };
+
+    const handlePointerUp = (event: React.PointerEvent<HTMLButtonElement>) => {
+      props.onPointerUp?.(event);
+      dragStart.current = null;
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+      props.onKeyDown?.(event);
+      // Alt+Arrow is left to the header, for reordering
+      if (!resizable || event.defaultPrevented || event.altKey) return;
+      const next = {
+        ArrowLeft: width - step,
+        ArrowRight: width + step,
+        Home: minWidth,
+        End: maxWidth,
+      }[event.key];
+      if (next === undefined) return;
+      event.preventDefault();
+      onResize(clamp(next));
+    };
+
+    return (
+      <button
+        ref={ref}
+        aria-label="Resize column"
+        data-slot="table-resize-handle"
+        draggable={false}
+        {...(resizable && {
+          role: "separator",
+          "aria-orientation": "vertical" as const,
+          "aria-valuenow": width,
+          "aria-valuemin": minWidth,
+          "aria-valuemax": maxWidth,
+        })}
+        {...props}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        type="button"
+        className={cn(
+          "invisible h-full group-hover:visible focus-visible:visible", // Make the handle invisible by default
+          "w-[10px]", // Hitting area
+          "flex items-center justify-center", // Center the handle
+          "cursor-col-resize touch-none select-none", // Prevent selection and touch events
+          "absolute top-0 right-0", // Position the handle
+          "m-0 bg-kumo-base p-0", // Override the stratus button styles
+          "outline-none focus-visible:[&>span]:bg-kumo-brand",
+        )}
+      >
+        <span className="h-5 w-[2px] rounded bg-kumo-ring" />
+      </button>
+    );
+  },
+);
 
 /**
  * Special cell that makes the entire cell area a hit target for the checkbox.
@@ -230,6 +424,124 @@ const TableCheckHead = forwardRef<
   },
 );
 
+/**
+ * Cell with a disclosure button for an expandable row, placed first in the
+ * row. `level` indents the cell content for tree data; rows that cannot be
+ * expanded keep the indentation with an empty slot where the button goes.
+ */
+const TableExpandCell = forwardRef<
+  HTMLTableCellElement,
+  React.TdHTMLAttributes<HTMLTableCellElement> & {
+    /** Whether the row is expanded */
+    expanded?: boolean;
+    /** Callback when the disclosure button is clicked */
+    onExpandedChange?: (expanded: boolean) => void;
+    /**
+     * Whether the row can be expanded. Shows an empty slot when false.
+     * @default true
+     */
+    expandable?: boolean;
+    /** Show a spinner in place of the button, while children load */
+    loading?: boolean;
+    /**
+     * Nesting level, starting at 1. Each level indents the content by 20px.
+     * @default 1
+     */
+    level?: number;
+    /** Accessible label for the button. Defaults to "Expand row" or "Collapse row". */
+    label?: string;
+  }
+>(
+  (
+    {
+      expanded = false,
+      onExpandedChange,
+      expandable = true,
+      loading = false,
+      level = 1,
+      label,
+      children,
+      ...props
+    },
+    ref,
+  ) => {
+    return (
+      <TableCell ref={ref} {...props}>
+        <div
+          className="flex items-center gap-1"
+          style={{ paddingInlineStart: (level - 1) * TREE_INDENT }}
+        >
+          {loading ? (
+            <span className="flex size-5 shrink-0 items-center justify-center">
+              <Loader size={14} className="text-kumo-subtle" />
+            </span>
+          ) : expandable ? (
+            <button
+              type="button"
+              aria-expanded={expanded}
+              aria-label={label ?? (expanded ? "Collapse row" : "Expand row")}
+              data-slot="table-expand-button"
+              onClick={() => onExpandedChange?.(!expanded)}
+              className={cn(
+                "flex size-5 shrink-0 cursor-pointer items-center justify-center rounded-sm text-kumo-subtle",
+                "outline-none hover:bg-kumo-tint hover:text-kumo-default focus-visible:ring-2 focus-visible:ring-kumo-ring",
+              )}
+            >
+              <CaretRightIcon
+                size={14}
+                aria-hidden
+                className={cn("transition-transform", expanded && "rotate-90")}
+              />
+            </button>
+          ) : (
+            <span className="size-5 shrink-0" />
+          )}
+          {children}
+        </div>
+      </TableCell>
+    );
+  },
+);
+
+/**
+ * Row holding a detail panel under an expanded row: a single cell spanning
+ * `colSpan` columns.
+ */
+const TableDetailRow = forwardRef<
+  HTMLTableRowElement,
+  React.HTMLAttributes<HTMLTableRowElement> & {
+    /** Number of columns the detail cell spans */
+    colSpan: number;
+  }
+>(({ colSpan, children, ...props }, ref) => {
+  return (
+    <tr ref={ref} data-slot="table-detail-row" {...props}>
+      <td colSpan={colSpan} className="bg-kumo-tint">
+        {children}
+      </td>
+    </tr>
+  );
+});
+
+/**
+ * Group header row: the first cell is usually a `Table.ExpandCell` with the
+ * group value, and the rest hold aggregates of the group's rows.
+ */
+const TableGroupRow = forwardRef<
+  HTMLTableRowElement,
+  React.HTMLAttributes<HTMLTableRowElement>
+>((props, ref) => {
+  const className = cn("bg-kumo-tint font-semibold", props.className);
+  return (
+    <tr
+      ref={ref}
+      data-slot="table-group-row"
+      {...props}
+      className={className}
+    />
+  );
+});
+
 TableRoot.displayName = "Table";
 TableBody.displayName = "Table.Body";
 TableHead.displayName = "Table.Head";
@@ -240,12 +552,19 @@ TableHeader.displayName = "Table.Header";
 TableResizeHandle.displayName = "Table.ResizeHandle";
 TableCheckCell.displayName = "Table.CheckCell";
 TableCheckHead.displayName = "Table.CheckHead";
+TableExpandCell.displayName = "Table.ExpandCell";
+TableDetailRow.displayName = "Table.DetailRow";
+TableGroupRow.displayName = "Table.GroupRow";
 
 /**
  * Table — semantic HTML table with styled rows, cells, and selection support.
  *
  * Compound component: `Table` (Root), `.Header`, `.Head`, `.Body`, `.Row`,
- * `.Cell`, `.Footer`, `.CheckCell`, `.CheckHead`, `.ResizeHandle`.
+ * `.Cell`, `.Footer`, `.CheckCell`, `.CheckHead`, `.ExpandCell`,
+ * `.DetailRow`, `.GroupRow`, `.ResizeHandle`, `.ColumnVisibilityMenu`.
+ * Column sizing, order, pinning and visibility state comes from
+ * `useTableColumnLayout`; expandable rows and tree data from
+ * `useTableRowTree`.
  *
  * @example
  * ```tsx
@@ -275,6 +594,10 @@ export const Table = Object.assign(TableRoot, {
   Cell: TableCell,
   CheckCell: TableCheckCell,
   CheckHead: TableCheckHead,
+  ExpandCell: TableExpandCell,
+  DetailRow: TableDetailRow,
+  GroupRow: TableGroupRow,
   Footer: TableFooter,
   ResizeHandle: TableResizeHandle,
+  ColumnVisibilityMenu: TableColumnVisibilityMenu,
 });
@@ -0,0 +1,313 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type CSSProperties,
+  type DragEvent,
+  type KeyboardEvent,
+  type UIEvent,
+} from "react";
+import { cn } from "../../utils/cn";
+import { useControllableState } from "../../utils/use-controllable-state";
+import {
+  clampColumnWidth,
+  createColumnLayout,
+  getPinnedOffsets,
+  getVisibleColumnIds,
+  moveColumn,
+  normalizeColumnLayout,
+  parseColumnLayout,
+  type TableColumnDef,
+  type TableColumnLayout,
+  type TableColumnPin,
+  type TableLayoutStorage,
+} from "./column-layout";
+
+/** Classes for sticky pinned cells and the shadow on their inner edge. */
+const PINNED_STYLING = {
+  base: "sticky z-1 bg-kumo-base",
+  shadow: {
+    left: "shadow-[6px_0_8px_-6px_var(--color-kumo-line)]",
+    right: "shadow-[-6px_0_8px_-6px_var(--color-kumo-line)]",
+  },
+} as const;
+
+export interface UseTableColumnLayoutOptions {
+  /** Controlled layout */
+  layout?: TableColumnLayout;
+  /** Initial layout when uncontrolled. Defaults to the column definitions. */
+  defaultLayout?: Partial<TableColumnLayout>;
+  /** Callback when the layout changes */
+  onLayoutChange?: (layout: TableColumnLayout) => void;
+  /** Storage to load the layout from on mount and save it to on change */
+  storage?: TableLayoutStorage;
+  /** Storage key for the layout. Required with `storage`. */
+  storageKey?: string;
+  /**
+   * Width in pixels of leading columns outside the layout (e.g. a selection
+   * checkbox column), added to the offsets of left-pinned columns.
+   * @default 0
+   */
+  startOffset?: number;
+}
+
+/**
+ * Column sizing, ordering, visibility and pinning state for `Table`.
+ *
+ * Returns the layout, visible column ids in display order, and prop getters
+ * for `<col>`, `Table.Head`, `Table.Cell`, `Table.ResizeHandle` and the
+ * horizontal scroll container.
+ *
+ * @example
+ * ```tsx
+ * const columns = useTableColumnLayout(
+ *   [{ id: "name", width: 240, pinned: "left" }, { id: "status" }],
+ *   { storage: localStorage, storageKey: "workers-table" },
+ * );
+ *
+ * <div className="overflow-x-auto" {...columns.getScrollContainerProps()}>
+ *   <Table {...columns.getTableProps()}>
+ *     <colgroup>
+ *       {columns.visibleColumnIds.map((id) => <col key={id} {...columns.getColumnProps(id)} />)}
+ *     </colgroup>
+ *     <Table.Header>
+ *       <Table.Row>
+ *         {columns.visibleColumnIds.map((id) => (
+ *           <Table.Head key={id} {...columns.getHeadProps(id)}>
+ *             {id}
+ *             <Table.ResizeHandle {...columns.getResizeHandleProps(id)} />
+ *           </Table.Head>
+ *         ))}
+ *       </Table.Row>
+ *     </Table.Header>
+ *   </Table>
+ * </div>
+ * ```
+ */
+export function useTableColumnLayout(
+  columns: TableColumnDef[],
+  {
+    layout: layoutProp,
+    defaultLayout,
+    onLayoutChange,
+    storage,
+    storageKey,
+    startOffset = 0,
+  }: UseTableColumnLayoutOptions = {},
+) {
+  const [rawLayout, setRawLayout] = useControllableState<TableColumnLayout>(
+    layoutProp,
+    normalizeColumnLayout(defaultLayout ?? {}, columns),
+    onLayoutChange,
+  );
+
+  const layout = useMemo(
+    () => normalizeColumnLayout(rawLayout, columns),
+    [rawLayout, columns],
+  );
+
+  // Whether the layout changed since the stored one was requested
+  const changedLocally = useRef(false);
+  // Read when the stored layout arrives, without reloading when they change
+  const latest = useRef({ columns, setRawLayout });
+  latest.current = { columns, setRawLayout };
+
+  const setLayout = useCallback(
+    (next: TableColumnLayout) => {
+      changedLocally.current = true;
+      setRawLayout(next);
+      if (storage && storageKey) {
+        void storage.setItem(storageKey, JSON.stringify(next));
+      }
+    },
+    [setRawLayout, storage, storageKey],
+  );
+
+  // Load the persisted layout once per key; adapters may be async
+  useEffect(() => {
+    if (!storage || !storageKey) return;
+    let cancelled = false;
+    changedLocally.current = false;
+    void Promise.resolve(storage.getItem(storageKey)).then((value) => {
+      const stored = parseColumnLayout(value);
+      // Changes made while it loaded win over the stored layout
+      if (cancelled || !stored || changedLocally.current) return;
+      const { columns, setRawLayout } = latest.current;
+      setRawLayout(normalizeColumnLayout(stored, columns));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, storageKey]);
+
+  const visibleColumnIds = useMemo(() => getVisibleColumnIds(layout), [layout]);
+  const pinnedOffsets = useMemo(() => getPinnedOffsets(layout), [layout]);
+  const byId = useMemo(
+    () => new Map(columns.map((column) => [column.id, column])),
+    [columns],
+  );
+
+  const resizeColumn = (id: string, width: number) => {
+    const column = byId.get(id);
+    if (!column) return;
+    setLayout({
+      ...layout,
+      widths: { ...layout.widths, [id]: clampColumnWidth(column, width) },
+    });
+  };
+
+  const reorderColumn = (id: string, targetId: string) => {
+    const order = moveColumn(layout.order, id, targetId);
+    if (order !== layout.order) setLayout({ ...layout, order });
+  };
+
+  const setColumnHidden = (id: string, hidden: boolean) => {
+    const rest = layout.hidden.filter((hiddenId) => hiddenId !== id);
+    setLayout({ ...layout, hidden: hidden ? [...rest, id] : rest });
+  };
+
+  const setColumnPinned = (id: string, side: TableColumnPin | null) => {
+    const { [id]: _previous, ...pinned } = layout.pinned;
+    setLayout({ ...layout, pinned: side ? { ...pinned, [id]: side } : pinned });
+  };
+
+  const resetLayout = () => setLayout(createColumnLayout(columns));
+
+  // Scroll position, for the shadows on the edges of pinned columns
+  const [scrolled, setScrolled] = useState({ start: false, end: false });
+  const updateScrolled = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+    const start = element.scrollLeft > 0;
+    const end =
+      element.scrollLeft + element.clientWidth < element.scrollWidth - 1;
+    setScrolled((previous) =>
+      previous.start === start && previous.end === end
+        ? previous
+        : { start, end },
+    );
+  }, []);
+
+  const pinnedStyle = (
+    id: string,
+  ): { style?: CSSProperties; className?: string } | undefined => {
+    const pin = pinnedOffsets[id];
+    if (!pin) return undefined;
+
+    const sameSide = visibleColumnIds.filter(
+      (visibleId) => layout.pinned[visibleId] === pin.side,
+    );
+    // The shadow goes on the innermost pinned column, when content is under it
+    const isEdge =
+      pin.side === "left"
+        ? sameSide[sameSide.length - 1] === id && scrolled.start
+        : sameSide[0] === id && scrolled.end;
+
+    return {
+      style: {
+        [pin.side]: pin.offset + (pin.side === "left" ? startOffset : 0),
+      } as CSSProperties,
+      className: cn(
+        PINNED_STYLING.base,
+        isEdge && PINNED_STYLING.shadow[pin.side],
+      ),
+    };
+  };
+
+  const dragId = useRef<string | null>(null);
+
+  return {
+    layout,
+    visibleColumnIds,
+    setLayout,
+    resizeColumn,
+    reorderColumn,
+    setColumnHidden,
+    setColumnPinned,
+    resetLayout,
+    /** Props for `Table`: fixed layout sized to the column widths */
+    getTableProps: () => ({
+      layout: "fixed" as const,
+      style: {
+        width: visibleColumnIds.reduce(
+          (total, id) => total + (layout.widths[id] ?? 0),
+          startOffset,
+        ),
+        minWidth: "100%",
+      },
+    }),
+    /** Props for the column's `<col>` */
+    getColumnProps: (id: string) => ({
+      style: { width: layout.widths[id] },
+    }),
+    /**
+     * Props for the column's `Table.Head`. With `reorderable`, the header can
+     * be dragged onto another header, or moved with Alt+Arrow keys.
+     */
+    getHeadProps: (id: string, { reorderable = false } = {}) => {
+      const pinned = pinnedStyle(id);
+      if (!reorderable) return { ...pinned, "data-column-id": id };
+
+      return {
+        ...pinned,
+        "data-column-id": id,
+        draggable: true,
+        tabIndex: 0,
+        "aria-roledescription": "reorderable column header",
+        onDragStart: (event: DragEvent<HTMLElement>) => {
+          // Dragging the resize handle resizes instead
+          const target = event.target as HTMLElement;
+          if (target.closest('[data-slot="table-resize-handle"]')) {
+            event.preventDefault();
+            return;
+          }
+          dragId.current = id;
+          event.dataTransfer.effectAllowed = "move";
+          event.dataTransfer.setData("text/plain", id);
+        },
+        onDragOver: (event: DragEvent<HTMLElement>) => {
+          if (dragId.current && dragId.current !== id) event.preventDefault();
+        },
+        onDrop: (event: DragEvent<HTMLElement>) => {
+          event.preventDefault();
+          if (dragId.current) reorderColumn(dragId.current, id);
+          dragId.current = null;
+        },
+        onDragEnd: () => {
+          dragId.current = null;
+        },
+        onKeyDown: (event: KeyboardEvent<HTMLElement>) => {
+          if (!event.altKey) return;
+          if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") return;
+          event.preventDefault();
+          const index = visibleColumnIds.indexOf(id);
+          const target =
+            visibleColumnIds[event.key === "ArrowLeft" ? index - 1 : index + 1];
+          if (target) reorderColumn(id, target);
+        },
+      };
+    },
+    /** Props for the column's body `Table.Cell` */
+    getCellProps: (id: string) => pinnedStyle(id) ?? {},
+    /** Props for the column's `Table.ResizeHandle` */
+    getResizeHandleProps: (id: string) => {
+      const column = byId.get(id);
+      return {
+        width: layout.widths[id],
+        minWidth: column && clampColumnWidth(column, 0),
+        maxWidth: column?.maxWidth,
+        onResize: (width: number) => resizeColumn(id, width),
+      };
+    },
+    /** Props for the element that scrolls the table horizontally */
+    getScrollContainerProps: () => ({
+      ref: updateScrolled,
+      onScroll: (event: UIEvent<HTMLElement>) =>
+        updateScrolled(event.currentTarget),
+    }),
+  };
+}
+
+/** Column layout state and prop getters returned by `useTableColumnLayout`. */
+export type TableColumnLayoutState = ReturnType<typeof useTableColumnLayout>;
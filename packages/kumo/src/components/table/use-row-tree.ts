@@ -0,0 +1,239 @@
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent,
+} from "react";
+import { useControllableState } from "../../utils/use-controllable-state";
+import {
+  flattenRowTree,
+  getTreeNavigationTarget,
+  type TableTreeRow,
+} from "./row-tree";
+
+const NAVIGATION_KEYS = new Set([
+  "ArrowDown",
+  "ArrowUp",
+  "ArrowLeft",
+  "ArrowRight",
+  "Home",
+  "End",
+]);
+
+export interface UseTableRowTreeOptions<TRow> {
+  /**
+   * Stable id for a row, unique across the tree. Defaults to the row's
+   * index, prefixed with its parent's id for sub-rows (`"0"`, `"0.1"`).
+   */
+  getRowId?: (row: TRow, index: number, parentId: string | null) => string;
+  /** Children of a row */
+  getSubRows?: (row: TRow) => TRow[] | undefined;
+  /**
+   * Load the children of a row when it is first expanded, for rows where
+   * `getSubRows` returns `undefined`. A rejected load collapses the row.
+   */
+  loadSubRows?: (row: TRow) => Promise<TRow[]>;
+  /**
+   * Whether a row can be expanded. Defaults to whether it has children, or
+   * may load them.
+   */
+  isRowExpandable?: (row: TRow) => boolean;
+  /** Controlled expanded row ids */
+  expandedRowIds?: string[];
+  /** Initial expanded row ids when uncontrolled */
+  defaultExpandedRowIds?: string[];
+  /** Callback when rows are expanded or collapsed */
+  onExpandedRowIdsChange?: (ids: string[]) => void;
+}
+
+function defaultGetRowId(
+  _row: unknown,
+  index: number,
+  parentId: string | null,
+) {
+  return parentId === null ? String(index) : `${parentId}.${index}`;
+}
+
+/**
+ * Expandable rows and tree data for `Table`, with keyboard support following
+ * the ARIA treegrid pattern.
+ *
+ * Returns the visible rows in display order (with their level and position
+ * among siblings) and prop getters for `Table`, `Table.Row` and
+ * `Table.ExpandCell`. Focus moves between rows with the arrow keys;
+ * ArrowRight expands a row or moves to its first child, ArrowLeft collapses
+ * it or moves to its parent, and Home/End move to the first and last row.
+ *
+ * @example
+ * ```tsx
+ * const tree = useTableRowTree(zones, {
+ *   getRowId: (row) => row.id,
+ *   getSubRows: (row) => row.records,
+ * });
+ *
+ * <Table {...tree.getTableProps()} aria-label="Zones">
+ *   <Table.Body>
+ *     {tree.rows.map((treeRow) => (
+ *       <Table.Row key={treeRow.id} {...tree.getRowProps(treeRow)}>
+ *         <Table.ExpandCell {...tree.getExpandCellProps(treeRow)}>
+ *           {treeRow.row.name}
+ *         </Table.ExpandCell>
+ *       </Table.Row>
+ *     ))}
+ *   </Table.Body>
+ * </Table>
+ * ```
+ */
+export function useTableRowTree<TRow>(
+  data: TRow[],
+  {
+    getRowId = defaultGetRowId,
+    getSubRows,
+    loadSubRows,
+    isRowExpandable,
+    expandedRowIds: expandedProp,
+    defaultExpandedRowIds = [],
+    onExpandedRowIdsChange,
+  }: UseTableRowTreeOptions<TRow> = {},
+) {
+  const [expandedIds, setExpandedIds] = useControllableState<string[]>(
+    expandedProp,
+    defaultExpandedRowIds,
+    onExpandedRowIdsChange,
+  );
+  // Loads settle after renders, so they read the latest expanded ids
+  const expandedRef = useRef(expandedIds);
+  expandedRef.current = expandedIds;
+
+  const [loaded, setLoaded] = useState<ReadonlyMap<string, TRow[]>>(new Map());
+  const [loading, setLoading] = useState<ReadonlySet<string>>(new Set());
+
+  const rows = useMemo(
+    () =>
+      flattenRowTree(data, {
+        getRowId,
+        getSubRows: (row, id) => getSubRows?.(row) ?? loaded.get(id),
+        isRowExpandable: (row, subRows) =>
+          isRowExpandable?.(row) ??
+          (subRows ? subRows.length > 0 : loadSubRows !== undefined),
+        expanded: new Set(expandedIds),
+      }),
+    [
+      data,
+      getRowId,
+      getSubRows,
+      loadSubRows,
+      isRowExpandable,
+      expandedIds,
+      loaded,
+    ],
+  );
+
+  // Load the children of expanded rows that have none yet
+  const pending = useRef(new Set<string>());
+  useEffect(() => {
+    if (!loadSubRows) return;
+    for (const { id, row, expanded } of rows) {
+      if (!expanded || pending.current.has(id) || loaded.has(id)) continue;
+      if (getSubRows?.(row) !== undefined) continue;
+
+      pending.current.add(id);
+      setLoading((previous) => new Set(previous).add(id));
+      const settle = () => {
+        pending.current.delete(id);
+        setLoading((previous) => {
+          const next = new Set(previous);
+          next.delete(id);
+          return next;
+        });
+      };
+      loadSubRows(row).then(
+        (subRows) => {
+          settle();
+          setLoaded((previous) => new Map(previous).set(id, subRows));
+        },
+        () => {
+          settle();
+          setExpandedIds(
+            expandedRef.current.filter((expandedId) => expandedId !== id),
+          );
+        },
+      );
+    }
+  }, [rows]);
+
+  const setRowExpanded = (id: string, expanded: boolean) => {
+    const rest = expandedIds.filter((expandedId) => expandedId !== id);
+    setExpandedIds(expanded ? [...rest, id] : rest);
+  };
+
+  // Roving focus: one row is in the tab order, the last one focused
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const tabStopId = rows.some((row) => row.id === activeId)
+    ? activeId
+    : (rows[0]?.id ?? null);
+  const rowElements = useRef(new Map<string, HTMLTableRowElement>());
+
+  return {
+    /** Visible rows in display order */
+    rows,
+    expandedRowIds: expandedIds,
+    setRowExpanded,
+    toggleRow: (id: string) => setRowExpanded(id, !expandedIds.includes(id)),
+    /** Whether the children of a row are loading */
+    isRowLoading: (id: string) => loading.has(id),
+    /** Props for `Table` */
+    getTableProps: () => ({ role: "treegrid" as const }),
+    /** Props for the row's `Table.Row` */
+    getRowProps: (treeRow: TableTreeRow<TRow>) => ({
+      ref: (element: HTMLTableRowElement | null) => {
+        if (element) rowElements.current.set(treeRow.id, element);
+        else rowElements.current.delete(treeRow.id);
+      },
+      "data-row-id": treeRow.id,
+      "aria-level": treeRow.level,
+      "aria-posinset": treeRow.posinset,
+      "aria-setsize": treeRow.setsize,
+      "aria-expanded": treeRow.expandable ? treeRow.expanded : undefined,
+      "aria-busy": loading.has(treeRow.id) || undefined,
+      tabIndex: treeRow.id === tabStopId ? 0 : -1,
+      className:
+        "outline-none focus-visible:outline-2 focus-visible:-outline-offset-2 focus-visible:outline-kumo-ring",
+      onFocus: () => setActiveId(treeRow.id),
+      onKeyDown: (event: KeyboardEvent<HTMLTableRowElement>) => {
+        // Keys typed into controls inside the row are theirs
+        if (event.target !== event.currentTarget) return;
+        if (!NAVIGATION_KEYS.has(event.key)) return;
+        event.preventDefault();
+
+        if (
+          event.key === "ArrowRight" &&
+          treeRow.expandable &&
+          !treeRow.expanded
+        ) {
+          setRowExpanded(treeRow.id, true);
+          return;
+        }
+        if (event.key === "ArrowLeft" && treeRow.expanded) {
+          setRowExpanded(treeRow.id, false);
+          return;
+        }
+        const target = getTreeNavigationTarget(rows, treeRow.id, event.key);
+        if (target) rowElements.current.get(target)?.focus();
+      },
+    }),
+    /** Props for the row's `Table.ExpandCell` */
+    getExpandCellProps: (treeRow: TableTreeRow<TRow>) => ({
+      level: treeRow.level,
+      expandable: treeRow.expandable,
+      expanded: treeRow.expanded,
+      loading: loading.has(treeRow.id),
+      onExpandedChange: (expanded: boolean) =>
+        setRowExpanded(treeRow.id, expanded),
+    }),
+  };
+}
+
+/** Row tree state and prop getters returned by `useTableRowTree`. */
+export type TableRowTreeState<TRow> = ReturnType<typeof useTableRowTree<TRow>>;
@@ -1,4 +1,12 @@
 export { Toasty, ToastProvider } from "./toast";
 export { Toast } from "@base-ui/react/toast";
 export { useKumoToastManager, createKumoToastManager } from "./toast";
-export type { KumoToastOptions, KumoToastManagerAddOptions } from "./toast";
+export type {
+  KumoToastOptions,
+  KumoToastManagerAddOptions,
+  KumoToastManager,
+  KumoToastManagerOptions,
+  KumoToastPromiseOptions,
+  KumoToastPlacement,
+  ToastyProps,
+} from "./toast";
@@ -0,0 +1,327 @@
+import {
+  Toast,
+  type ToastManagerAddOptions,
+  type ToastObject,
+} from "@base-ui/react/toast";
+import type React from "react";
+import type { ButtonProps } from "../../components/button";
+import type { KumoToastVariant } from "./toast";
+
+/**
+ * Kumo toast manager: queues toasts beyond the visible limit, collapses
+ * toasts with the same `dedupeKey` into one with a count, and runs the
+ * dismiss timers itself so they can pause while the viewport is hovered or
+ * the page is hidden. Toasts are shown through a Base UI toast manager with
+ * their own timers disabled.
+ */
+
+type KumoToastOptionsBase = {
+  variant?: KumoToastVariant;
+  content?: React.ReactNode;
+  actions?: Array<ButtonProps>;
+  /**
+   * Toasts added with the key of a toast that is still shown or queued
+   * update that toast instead, counting the repeats, e.g. the same error
+   * raised several times.
+   */
+  dedupeKey?: string;
+  /**
+   * Number of times the toast was added with its `dedupeKey`, shown as a
+   * badge from 2. Set by the manager.
+   */
+  count?: number;
+  /**
+   * Keep the toast when `closeAll` runs, e.g. on route changes. Persistent
+   * toasts are not dismissed automatically unless given a `timeout`.
+   */
+  persistent?: boolean;
+  /**
+   * Progress from 0 to 1, shown as a bar. Update it with `manager.update`;
+   * the toast is dismissed automatically once it reaches 1.
+   */
+  progress?: number;
+};
+
+export type KumoToastOptions<Data extends object> = ToastObject<Data> &
+  KumoToastOptionsBase;
+
+export type KumoToastManagerAddOptions<Data extends object> =
+  ToastManagerAddOptions<Data> & KumoToastOptionsBase;
+
+export interface KumoToastPromiseOptions<T> {
+  loading: KumoToastManagerAddOptions<object>;
+  success:
+    | KumoToastManagerAddOptions<object>
+    | ((data: T) => KumoToastManagerAddOptions<object>);
+  error:
+    | KumoToastManagerAddOptions<object>
+    | ((error: Error) => KumoToastManagerAddOptions<object>);
+}
+
+export interface KumoToastManagerOptions {
+  /**
+   * Maximum number of toasts shown at once. Further toasts wait in a queue
+   * until a shown toast closes.
+   * @default 3
+   */
+  limit?: number;
+  /**
+   * Time in milliseconds before a toast is dismissed, unless it sets its
+   * own `timeout`. `0` keeps toasts until closed.
+   * @default 5000
+   */
+  timeout?: number;
+}
+
+export interface KumoToastManager {
+  /** Shows a toast, or queues it while `limit` toasts are shown. Returns its id. */
+  add: (options: KumoToastManagerAddOptions<object>) => string;
+  /** Updates a shown or queued toast and restarts its timer */
+  update: (
+    id: string,
+    options: Partial<KumoToastManagerAddOptions<object>>,
+  ) => void;
+  /** Closes a toast, or removes it from the queue */
+  close: (id: string) => void;
+  /**
+   * Closes every toast, shown or queued, except persistent ones unless
+   * `persistent` is set.
+   */
+  closeAll: (options?: { persistent?: boolean }) => void;
+  /** Shows a loading toast, then updates it when the promise settles */
+  promise: <T>(
+    promise: Promise<T>,
+    options: KumoToastPromiseOptions<T>,
+  ) => Promise<T>;
+}
+
+/** Why timers are paused */
+export type ToastPauseReason = "hover" | "hidden";
+
+/** Controls of a manager for `Toasty`, which renders its toasts */
+export interface ToastManagerControls {
+  /** Base UI manager to pass to `Toast.Provider` */
+  baseManager: ReturnType<typeof Toast.createToastManager>;
+  /** Limit and timeout in use */
+  getOptions: () => Required<KumoToastManagerOptions>;
+  /** Changes the limit or timeout; omitted options are kept */
+  configure: (options: KumoToastManagerOptions) => void;
+  pause: (reason: ToastPauseReason) => void;
+  resume: (reason: ToastPauseReason) => void;
+}
+
+interface ToastEntry {
+  id: string;
+  options: KumoToastManagerAddOptions<object>;
+  shown: boolean;
+  /** Remaining time of a running or paused timer */
+  timer: {
+    remaining: number;
+    startedAt?: number;
+    handle?: ReturnType<typeof setTimeout>;
+  } | null;
+}
+
+const controlsByManager = new WeakMap<KumoToastManager, ToastManagerControls>();
+
+/** Controls of a manager made by `createKumoToastManager` */
+export function getToastManagerControls(manager: KumoToastManager) {
+  const controls = controlsByManager.get(manager);
+  if (!controls) {
+    throw new Error(
+      "Toasty toastManager must be created with createKumoToastManager",
+    );
+  }
+  return controls;
+}
+
+function resolveOptions<T>(
+  options:
+    | KumoToastManagerAddOptions<object>
+    | ((value: T) => KumoToastManagerAddOptions<object>),
+  value: T,
+) {
+  return typeof options === "function" ? options(value) : options;
+}
+
+/** Stops a running timer, keeping its remaining time */
+function stopTimer(entry: ToastEntry) {
+  const timer = entry.timer;
+  if (!timer || timer.handle === undefined) return;
+  clearTimeout(timer.handle);
+  timer.remaining -= Date.now() - timer.startedAt!;
+  timer.handle = undefined;
+}
+
+let toastCount = 0;
+
+/**
+ * Creates a toast manager, e.g. to show toasts from outside React. Pass it
+ * to `<Toasty toastManager={manager}>`.
+ *
+ * @example
+ * ```tsx
+ * export const toasts = createKumoToastManager({ limit: 5 });
+ *
+ * <Toasty toastManager={toasts}>
+ *   <App />
+ * </Toasty>
+ *
+ * toasts.add({ title: "Deployed", dedupeKey: "deploy" });
+ * ```
+ */
+export function createKumoToastManager(
+  options: KumoToastManagerOptions = {},
+): KumoToastManager {
+  const baseManager = Toast.createToastManager();
+  let limit = options.limit ?? 3;
+  let timeout = options.timeout ?? 5000;
+
+  const entries = new Map<string, ToastEntry>();
+  const queue: string[] = [];
+  const idsByKey = new Map<string, string>();
+  const pausedBy = new Set<ToastPauseReason>();
+
+  const getDuration = ({ options }: ToastEntry) => {
+    if (options.type === "loading") return 0;
+    if (options.progress !== undefined && options.progress < 1) return 0;
+    return options.timeout ?? (options.persistent ? 0 : timeout);
+  };
+
+  const runTimer = (entry: ToastEntry) => {
+    const timer = entry.timer;
+    if (!timer || timer.handle !== undefined) return;
+    timer.startedAt = Date.now();
+    timer.handle = setTimeout(() => close(entry.id), timer.remaining);
+  };
+
+  const startTimer = (entry: ToastEntry) => {
+    stopTimer(entry);
+    const duration = getDuration(entry);
+    entry.timer = duration > 0 ? { remaining: duration } : null;
+    if (pausedBy.size === 0) runTimer(entry);
+  };
+
+  const show = (entry: ToastEntry) => {
+    entry.shown = true;
+    baseManager.add({
+      ...entry.options,
+      id: entry.id,
+      // Timers run here, so they can pause
+      timeout: 0,
+      onClose: () => {
+        remove(entry.id);
+        entry.options.onClose?.();
+      },
+    });
+    startTimer(entry);
+  };
+
+  const showQueued = () => {
+    let shown = 0;
+    for (const entry of entries.values()) if (entry.shown) shown++;
+    while (shown < limit && queue.length > 0) {
+      show(entries.get(queue.shift()!)!);
+      shown++;
+    }
+  };
+
+  /** Forgets a closed toast and shows the next queued one */
+  const remove = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    if (entry.timer) stopTimer(entry);
+    entries.delete(id);
+    const key = entry.options.dedupeKey;
+    if (key !== undefined && idsByKey.get(key) === id) idsByKey.delete(key);
+    const queued = queue.indexOf(id);
+    if (queued !== -1) queue.splice(queued, 1);
+    showQueued();
+  };
+
+  const close = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    // Close before showing the next toast, so it doesn't exceed the limit
+    if (entry.shown) baseManager.close(id);
+    remove(id);
+  };
+
+  const update: KumoToastManager["update"] = (id, updates) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    entry.options = { ...entry.options, ...updates };
+    if (!entry.shown) return;
+    const baseUpdates = { ...updates, timeout: 0 };
+    // The shown toast keeps the onClose that calls `remove`
+    delete baseUpdates.onClose;
+    baseManager.update(id, baseUpdates);
+    startTimer(entry);
+  };
+
+  const add: KumoToastManager["add"] = (addOptions) => {
+    const key = addOptions.dedupeKey;
+    const existing = key === undefined ? undefined : idsByKey.get(key);
+    if (existing !== undefined) {
+      const count = (entries.get(existing)!.options.count ?? 1) + 1;
+      update(existing, { ...addOptions, count });
+      return existing;
+    }
+
+    const id = addOptions.id ?? `kumo-toast-${++toastCount}`;
+    const entry: ToastEntry = {
+      id,
+      options: { ...addOptions, count: 1 },
+      shown: false,
+      timer: null,
+    };
+    entries.set(id, entry);
+    if (key !== undefined) idsByKey.set(key, id);
+    queue.push(id);
+    showQueued();
+    return id;
+  };
+
+  const manager: KumoToastManager = {
+    add,
+    update,
+    close,
+    closeAll: ({ persistent = false } = {}) => {
+      for (const entry of Array.from(entries.values())) {
+        if (persistent || !entry.options.persistent) close(entry.id);
+      }
+    },
+    promise: (promise, { loading, success, error }) => {
+      const id = add({ ...loading, type: "loading" });
+      promise.then(
+        (data) =>
+          update(id, { type: "success", ...resolveOptions(success, data) }),
+        (reason: Error) =>
+          update(id, { type: "error", ...resolveOptions(error, reason) }),
+      );
+      return promise;
+    },
+  };
+
+  controlsByManager.set(manager, {
+    baseManager,
+    getOptions: () => ({ limit, timeout }),
+    configure: (next) => {
+      limit = next.limit ?? limit;
+      timeout = next.timeout ?? timeout;
+      showQueued();
+    },
+    pause: (reason) => {
+      if (pausedBy.size === 0) {
+        for (const entry of entries.values()) stopTimer(entry);
+      }
+      pausedBy.add(reason);
+    },
+    resume: (reason) => {
+      if (!pausedBy.delete(reason) || pausedBy.size > 0) return;
+      for (const entry of entries.values()) runTimer(entry);
+    },
+  });
+
+  return manager;
+}
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, render, screen } from "@testing-library/react";
+import { createKumoToastManager, type KumoToastManager } from "./manager";
+import { Toasty, type ToastyProps } from "./toast";
+
+const getTitles = () =>
+  Array.from(document.querySelectorAll("[data-toast-title]")).map(
+    (title) => title.textContent,
+  );
+
+const renderToasty = (
+  manager: KumoToastManager,
+  props: Partial<ToastyProps> = {},
+) =>
+  render(
+    <Toasty toastManager={manager} {...props}>
+      <div />
+    </Toasty>,
+  );
+
+describe("Toasty", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("Queue", () => {
+    it("queues toasts beyond the limit until a shown toast closes", () => {
+      const manager = createKumoToastManager({ limit: 2 });
+      renderToasty(manager);
+
+      let first = "";
+      act(() => {
+        first = manager.add({ title: "One" });
+        manager.add({ title: "Two" });
+        manager.add({ title: "Three" });
+      });
+      expect(getTitles().toSorted()).toEqual(["One", "Two"]);
+
+      act(() => manager.close(first));
+      expect(getTitles()).toContain("Three");
+    });
+  });
+
+  describe("Deduplication", () => {
+    it("collapses toasts with the same key into one with a count", () => {
+      const manager = createKumoToastManager();
+      renderToasty(manager);
+
+      let ids: string[] = [];
+      act(() => {
+        ids = [
+          manager.add({ title: "Request failed", dedupeKey: "request" }),
+          manager.add({ title: "Request failed", dedupeKey: "request" }),
+          manager.add({ title: "Request failed", dedupeKey: "request" }),
+        ];
+      });
+
+      expect(new Set(ids).size).toBe(1);
+      expect(getTitles()).toEqual(["Request failed"]);
+      expect(document.querySelector("[data-toast-count]")?.textContent).toBe(
+        "3",
+      );
+    });
+  });
+
+  describe("Timers", () => {
+    it("dismisses toasts after the timeout", () => {
+      const manager = createKumoToastManager({ timeout: 1000 });
+      renderToasty(manager);
+
+      act(() => {
+        manager.add({ title: "Saved" });
+      });
+      act(() => {
+        vi.advanceTimersByTime(1500);
+      });
+
+      expect(screen.queryByText("Saved")).toBeNull();
+    });
+
+    it("pauses while the page is hidden", () => {
+      const manager = createKumoToastManager({ timeout: 1000 });
+      renderToasty(manager);
+      const visibility = vi
+        .spyOn(document, "visibilityState", "get")
+        .mockReturnValue("hidden");
+
+      act(() => {
+        manager.add({ title: "Saved" });
+        document.dispatchEvent(new Event("visibilitychange"));
+      });
+      act(() => {
+        vi.advanceTimersByTime(1500);
+      });
+      expect(screen.getByText("Saved")).toBeTruthy();
+
+      visibility.mockReturnValue("visible");
+      act(() => {
+        document.dispatchEvent(new Event("visibilitychange"));
+      });
+      act(() => {
+        vi.advanceTimersByTime(1500);
+      });
+      expect(screen.queryByText("Saved")).toBeNull();
+      visibility.mockRestore();
+    });
+
+    it("keeps progress toasts until they complete", () => {
+      const manager = createKumoToastManager({ timeout: 1000 });
+      renderToasty(manager);
+
+      let id = "";
+      act(() => {
+        id = manager.add({ title: "Uploading", progress: 0.2 });
+      });
+      expect(
+        screen.getByRole("progressbar").getAttribute("aria-valuenow"),
+      ).toBe("20");
+
+      act(() => manager.update(id, { progress: 0.6 }));
+      act(() => {
+        vi.advanceTimersByTime(1500);
+      });
+      expect(
+        screen.getByRole("progressbar").getAttribute("aria-valuenow"),
+      ).toBe("60");
+
+      act(() => manager.update(id, { progress: 1 }));
+      act(() => {
+        vi.advanceTimersByTime(1500);
+      });
+      expect(screen.queryByText("Uploading")).toBeNull();
+    });
+  });
+
+  describe("Persistent toasts", () => {
+    it("keeps persistent toasts when the route changes", () => {
+      const manager = createKumoToastManager();
+      const { rerender } = renderToasty(manager, { routeKey: "/zones" });
+
+      act(() => {
+        manager.add({ title: "Saved" });
+        manager.add({ title: "Maintenance scheduled", persistent: true });
+      });
+      rerender(
+        <Toasty toastManager={manager} routeKey="/workers">
+          <div />
+        </Toasty>,
+      );
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+
+      expect(getTitles()).toEqual(["Maintenance scheduled"]);
+
+      act(() => manager.closeAll({ persistent: true }));
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+      expect(getTitles()).toEqual([]);
+    });
+  });
+});
@@ -1,15 +1,29 @@
-import {
-  Toast,
-  ToastManagerAddOptions,
-  ToastObject,
-} from "@base-ui/react/toast";
+import { Toast } from "@base-ui/react/toast";
+import { Progress } from "@base-ui/react/progress";
+import { createContext, useContext, useEffect, useRef, useState } from "react";
 import type React from "react";
 import { cn } from "../../utils/cn";
-import { Button, ButtonProps } from "../../components/button";
+import { Button } from "../../components/button";
 import {
   WarningIcon,
   WarningOctagonIcon,
 } from "@phosphor-icons/react/dist/ssr";
+import {
+  createKumoToastManager,
+  getToastManagerControls,
+  type KumoToastManager,
+  type KumoToastManagerAddOptions,
+  type KumoToastOptions,
+} from "./manager";
+
+export {
+  createKumoToastManager,
+  type KumoToastManager,
+  type KumoToastManagerAddOptions,
+  type KumoToastManagerOptions,
+  type KumoToastOptions,
+  type KumoToastPromiseOptions,
+} from "./manager";
 
 /**
  * Toast styling configuration for Figma plugin consumption.
@@ -52,10 +66,37 @@ export const KUMO_TOAST_VARIANTS = {
       icon: WarningIcon,
     },
   },
+  placement: {
+    "top-left": {
+      classes: "top-4 left-4 sm:top-8 sm:left-8",
+      description: "Top-left corner of the screen",
+    },
+    "top-center": {
+      classes: "top-4 right-0 left-0 sm:top-8",
+      description: "Top edge of the screen, centered",
+    },
+    "top-right": {
+      classes: "top-4 right-4 sm:top-8 sm:right-8",
+      description: "Top-right corner of the screen",
+    },
+    "bottom-left": {
+      classes: "top-auto bottom-4 left-4 sm:bottom-8 sm:left-8",
+      description: "Bottom-left corner of the screen",
+    },
+    "bottom-center": {
+      classes: "top-auto right-0 bottom-4 left-0 sm:bottom-8",
+      description: "Bottom edge of the screen, centered",
+    },
+    "bottom-right": {
+      classes: "top-auto right-4 bottom-4 sm:right-8 sm:bottom-8",
+      description: "Bottom-right corner of the screen",
+    },
+  },
 } as const;
 
 export const KUMO_TOAST_DEFAULT_VARIANTS = {
   variant: "default",
+  placement: "bottom-right",
 } as const;
 
 /**
@@ -95,6 +136,7 @@ export const KUMO_TOAST_STYLING = {
 
 // Derived types from KUMO_TOAST_VARIANTS
 export type KumoToastVariant = keyof typeof KUMO_TOAST_VARIANTS.variant;
+export type KumoToastPlacement = keyof typeof KUMO_TOAST_VARIANTS.placement;
 
 export interface KumoToastVariantsProps {
   variant?: KumoToastVariant;
@@ -132,33 +174,51 @@ export function toastVariants({
 export interface ToastyProps extends KumoToastVariantsProps {
   /** Application content. Toasts render via a portal above this. */
   children: React.ReactNode;
+  /**
+   * Where toasts appear on the screen.
+   * @default "bottom-right"
+   */
+  placement?: KumoToastPlacement;
+  /**
+   * Maximum number of toasts shown at once. Further toasts wait in a queue
+   * until a shown toast closes. Overrides the `toastManager`'s limit when
+   * set.
+   * @default 3
+   */
+  limit?: number;
+  /**
+   * Time in milliseconds before a toast is dismissed, unless it sets its
+   * own `timeout`. Timers pause while toasts are hovered or the page is
+   * hidden. `0` keeps toasts until closed. Overrides the `toastManager`'s
+   * timeout when set.
+   * @default 5000
+   */
+  timeout?: number;
+  /** Manager from `createKumoToastManager`, to show toasts from outside React */
+  toastManager?: KumoToastManager;
+  /**
+   * Closes all toasts except persistent ones when it changes. Pass the
+   * current route, e.g. `location.pathname`.
+   */
+  routeKey?: unknown;
 }
 
-type KumoToastOptionsBase = {
-  variant?: KumoToastVariant;
-  content?: React.ReactNode;
-  actions?: Array<ButtonProps>;
-};
-
-export type KumoToastOptions<Data extends object> = ToastObject<Data> &
-  KumoToastOptionsBase;
-
-export type KumoToastManagerAddOptions<Data extends object> =
-  ToastManagerAddOptions<Data> & KumoToastOptionsBase;
-
 function wrapManagerMethods<
   T extends { add: Function; update: Function; promise: Function },
 >(manager: T) {
   return {
     ...manager,
 
-    add: (options: KumoToastManagerAddOptions<any>) => {
+    add: (options: KumoToastManagerAddOptions<object>) => {
       return manager.add({
         ...options,
       });
     },
 
-    update: (id: string, options: Partial<KumoToastManagerAddOptions<any>>) => {
+    update: (
+      id: string,
+      options: Partial<KumoToastManagerAddOptions<object>>,
+    ) => {
       return manager.update(id, {
         ...options,
       });
@@ -167,13 +227,13 @@ function wrapManagerMethods<
     promise: <T,>(
       promise: Promise<T>,
       options: {
-        loading: KumoToastManagerAddOptions<any>;
+        loading: KumoToastManagerAddOptions<object>;
         success:
-          | KumoToastManagerAddOptions<any>
-          | ((data: T) => KumoToastManagerAddOptions<any>);
+          | KumoToastManagerAddOptions<object>
+          | ((data: T) => KumoToastManagerAddOptions<object>);
         error:
-          | KumoToastManagerAddOptions<any>
-          | ((error: Error) => KumoToastManagerAddOptions<any>);
+          | KumoToastManagerAddOptions<object>
+          | ((error: Error) => KumoToastManagerAddOptions<object>);
       },
     ) => {
       return manager.promise(promise, {
@@ -184,7 +244,7 @@ function wrapManagerMethods<
                 ...(
                   options.success as (
                     data: T,
-                  ) => KumoToastManagerAddOptions<any>
+                  ) => KumoToastManagerAddOptions<object>
                 )(data),
               })
             : { ...options.success },
@@ -194,7 +254,7 @@ function wrapManagerMethods<
                 ...(
                   options.error as (
                     error: Error,
-                  ) => KumoToastManagerAddOptions<any>
+                  ) => KumoToastManagerAddOptions<object>
                 )(error),
               })
             : { ...options.error },
@@ -203,67 +263,172 @@ function wrapManagerMethods<
   };
 }
 
+const KumoToastManagerContext = createContext<KumoToastManager | null>(null);
+
+/**
+ * Returns the toasts and the manager of the nearest `Toasty`. Under a plain
+ * `Toast.Provider`, options are passed through to Base UI, without queueing,
+ * deduplication or paused timers.
+ */
 export const useKumoToastManager = () => {
   const manager = Toast.useToastManager();
+  const kumoManager = useContext(KumoToastManagerContext);
+  const toasts = manager.toasts as Array<KumoToastOptions<object>>;
   return {
-    ...wrapManagerMethods(manager),
-    toasts: manager.toasts as Array<KumoToastOptions<any>>,
+    ...(kumoManager ?? {
+      ...wrapManagerMethods(manager),
+      closeAll: ({ persistent = false }: { persistent?: boolean } = {}) => {
+        for (const toast of toasts) {
+          if (persistent || !toast.persistent) manager.close(toast.id);
+        }
+      },
+    }),
+    toasts,
   };
 };
 
-export const createKumoToastManager = () => {
-  return wrapManagerMethods(Toast.createToastManager());
+/**
+ * Stacking of toasts, by the screen edge the viewport is placed on: toasts
+ * stack away from the edge and slide in from it.
+ */
+const TOAST_STACK_CLASSES = {
+  bottom: cn(
+    "bottom-0 origin-bottom",
+    "[--offset-y:calc(var(--toast-offset-y)*-1+calc(var(--toast-index)*var(--gap)*-1)+var(--toast-swipe-movement-y))]",
+    "[transform:translateX(var(--toast-swipe-movement-x))_translateY(calc(var(--toast-swipe-movement-y)-(var(--toast-index)*var(--peek))-(var(--shrink)*var(--height))))_scale(var(--scale))]",
+    "after:top-full",
+    "data-[starting-style]:[transform:translateY(150%)] [&[data-ending-style]:not([data-limited]):not([data-swipe-direction])]:[transform:translateY(150%)]",
+  ),
+  top: cn(
+    "top-0 origin-top",
+    "[--offset-y:calc(var(--toast-offset-y)+calc(var(--toast-index)*var(--gap))+var(--toast-swipe-movement-y))]",
+    "[transform:translateX(var(--toast-swipe-movement-x))_translateY(calc(var(--toast-swipe-movement-y)+(var(--toast-index)*var(--peek))+(var(--shrink)*var(--height))))_scale(var(--scale))]",
+    "after:bottom-full",
+    "data-[starting-style]:[transform:translateY(-150%)] [&[data-ending-style]:not([data-limited]):not([data-swipe-direction])]:[transform:translateY(-150%)]",
+  ),
 };
 
+/** Swipe directions that dismiss a toast, towards the nearest screen edges */
+function getSwipeDirections(placement: KumoToastPlacement) {
+  const [edge, side] = placement.split("-") as ["top" | "bottom", string];
+  const directions: ("up" | "down" | "left" | "right")[] = [
+    edge === "top" ? "up" : "down",
+  ];
+  if (side === "left" || side === "right") directions.push(side);
+  return directions;
+}
+
 /**
  * Toasty — toast notification provider and viewport.
  *
- * Renders a `Toast.Provider` with a fixed-position viewport in the bottom-right corner.
- * Toasts stack with smooth enter/exit animations, swipe-to-dismiss, and expand-on-hover.
+ * Renders a `Toast.Provider` with a fixed-position viewport, in the
+ * bottom-right corner by default. Toasts stack with smooth enter/exit
+ * animations, swipe-to-dismiss, and expand-on-hover. Toasts beyond `limit`
+ * are queued, and dismiss timers pause while toasts are hovered or the page
+ * is hidden.
  *
  * Built on `@base-ui/react/toast`.
  *
  * @example
  * ```tsx
- * <Toasty>
+ * <Toasty placement="top-center" routeKey={location.pathname}>
  *   <App />
  * </Toasty>
  * ```
  */
-export function Toasty({ children }: ToastyProps) {
+export function Toasty({
+  children,
+  placement = KUMO_TOAST_DEFAULT_VARIANTS.placement,
+  limit,
+  timeout,
+  toastManager,
+  routeKey,
+}: ToastyProps) {
+  const [ownManager] = useState(() =>
+    toastManager ? undefined : createKumoToastManager({ limit, timeout }),
+  );
+  const manager = toastManager ?? ownManager!;
+  const controls = getToastManagerControls(manager);
+
+  // Props override the manager's options only when given
+  useEffect(() => {
+    if (limit !== undefined) controls.configure({ limit });
+  }, [controls, limit]);
+  useEffect(() => {
+    if (timeout !== undefined) controls.configure({ timeout });
+  }, [controls, timeout]);
+
+  // Pause timers while the page is hidden
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        controls.pause("hidden");
+      } else {
+        controls.resume("hidden");
+      }
+    };
+    handleVisibilityChange();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      controls.resume("hidden");
+    };
+  }, [controls]);
+
+  const previousRouteKey = useRef(routeKey);
+  useEffect(() => {
+    if (Object.is(previousRouteKey.current, routeKey)) return;
+    previousRouteKey.current = routeKey;
+    manager.closeAll();
+  }, [manager, routeKey]);
+
   return (
-    <Toast.Provider>
-      {children}
-      <Toast.Portal>
-        <Toast.Viewport className="fixed top-auto right-4 bottom-4 z-10 mx-auto flex w-[calc(100%-2rem)] sm:right-8 sm:bottom-8 sm:w-[340px]">
-          <ToastList />
-        </Toast.Viewport>
-      </Toast.Portal>
-    </Toast.Provider>
+    <KumoToastManagerContext.Provider value={manager}>
+      <Toast.Provider
+        toastManager={controls.baseManager}
+        limit={limit ?? controls.getOptions().limit}
+      >
+        {children}
+        <Toast.Portal>
+          <Toast.Viewport
+            className={cn(
+              "fixed z-10 mx-auto flex w-[calc(100%-2rem)] sm:w-[340px]",
+              KUMO_TOAST_VARIANTS.placement[placement].classes,
+            )}
+            onMouseEnter={() => controls.pause("hover")}
+            onMouseLeave={() => controls.resume("hover")}
+          >
+            <ToastList placement={placement} />
+          </Toast.Viewport>
+        </Toast.Portal>
+      </Toast.Provider>
+    </KumoToastManagerContext.Provider>
   );
 }
 
 /** Alias for Toasty — provided for discoverability when migrating from other libraries */
 export const ToastProvider = Toasty;
 
-function ToastList() {
+function ToastList({ placement }: { placement: KumoToastPlacement }) {
   const { toasts } = useKumoToastManager();
+  const edge = placement.startsWith("top") ? "top" : "bottom";
   return toasts.map((toast) => (
     <Toast.Root
       key={toast.id}
       toast={toast}
+      swipeDirection={getSwipeDirections(placement)}
       className={cn(
-        "absolute right-0 bottom-0 left-auto z-[calc(1000-var(--toast-index))] mr-0 h-[var(--height)] w-full origin-bottom select-none",
+        "absolute right-0 left-auto z-[calc(1000-var(--toast-index))] mr-0 h-[var(--height)] w-full select-none",
         toastVariants({ variant: toast.variant }),
-        "[--gap:0.75rem] [--height:var(--toast-frontmost-height,var(--toast-height))] [--offset-y:calc(var(--toast-offset-y)*-1+calc(var(--toast-index)*var(--gap)*-1)+var(--toast-swipe-movement-y))] [--peek:0.75rem] [--scale:calc(max(0,1-(var(--toast-index)*0.1)))] [--shrink:calc(1-var(--scale))]",
-        "[transform:translateX(var(--toast-swipe-movement-x))_translateY(calc(var(--toast-swipe-movement-y)-(var(--toast-index)*var(--peek))-(var(--shrink)*var(--height))))_scale(var(--scale))] [transition:transform_0.5s_cubic-bezier(0.22,1,0.36,1),opacity_0.5s,height_0.15s]",
-        "after:absolute after:top-full after:left-0 after:h-[calc(var(--gap)+1px)] after:w-full after:content-['']",
-        "data-[ending-style]:opacity-0 data-[expanded]:h-[var(--toast-height)] data-[expanded]:[transform:translateX(var(--toast-swipe-movement-x))_translateY(calc(var(--offset-y)))] data-[limited]:opacity-0 data-[starting-style]:[transform:translateY(150%)]",
+        "[--gap:0.75rem] [--height:var(--toast-frontmost-height,var(--toast-height))] [--peek:0.75rem] [--scale:calc(max(0,1-(var(--toast-index)*0.1)))] [--shrink:calc(1-var(--scale))]",
+        "[transition:transform_0.5s_cubic-bezier(0.22,1,0.36,1),opacity_0.5s,height_0.15s]",
+        "after:absolute after:left-0 after:h-[calc(var(--gap)+1px)] after:w-full after:content-['']",
+        "data-[ending-style]:opacity-0 data-[expanded]:h-[var(--toast-height)] data-[expanded]:[transform:translateX(var(--toast-swipe-movement-x))_translateY(calc(var(--offset-y)))] data-[limited]:opacity-0",
         "data-[ending-style]:data-[swipe-direction=down]:[transform:translateY(calc(var(--toast-swipe-movement-y)+150%))] data-[expanded]:data-[ending-style]:data-[swipe-direction=down]:[transform:translateY(calc(var(--toast-swipe-movement-y)+150%))]",
         "data-[ending-style]:data-[swipe-direction=left]:[transform:translateX(calc(var(--toast-swipe-movement-x)-150%))_translateY(var(--offset-y))] data-[expanded]:data-[ending-style]:data-[swipe-direction=left]:[transform:translateX(calc(var(--toast-swipe-movement-x)-150%))_translateY(var(--offset-y))]",
         "data-[ending-style]:data-[swipe-direction=right]:[transform:translateX(calc(var(--toast-swipe-movement-x)+150%))_translateY(var(--offset-y))] data-[expanded]:data-[ending-style]:data-[swipe-direction=right]:[transform:translateX(calc(var(--toast-swipe-movement-x)+150%))_translateY(var(--offset-y))]",
         "data-[ending-style]:data-[swipe-direction=up]:[transform:translateY(calc(var(--toast-swipe-movement-y)-150%))] data-[expanded]:data-[ending-style]:data-[swipe-direction=up]:[transform:translateY(calc(var(--toast-swipe-movement-y)-150%))]",
-        "[&[data-ending-style]:not([data-limited]):not([data-swipe-direction])]:[transform:translateY(150%)]",
+        TOAST_STACK_CLASSES[edge],
       )}
     >
       <div className="absolute inset-0 rounded-[11px] bg-kumo-control/90"></div>
@@ -272,13 +437,27 @@ function ToastList() {
           <>
             <div className="flex items-start gap-2">
               <ToastIcon variant={toast.variant} />
-              <div className="flex flex-col gap-1 overflow-hidden">
-                <Toast.Title
-                  data-toast-title
-                  className="text-[0.975rem] leading-5 font-medium text-kumo-default"
-                />
+              <div className="flex min-w-0 flex-1 flex-col gap-1 overflow-hidden">
+                <div className="flex items-center gap-2 pr-4">
+                  <Toast.Title
+                    data-toast-title
+                    className="text-[0.975rem] leading-5 font-medium text-kumo-default"
+                  />
+                  {toast.count !== undefined && toast.count > 1 && (
+                    <ToastCount count={toast.count} />
+                  )}
+                </div>
                 <Toast.Description className="text-[0.925rem] leading-5 text-kumo-subtle" />
 
+                {toast.progress !== undefined && (
+                  <ToastProgress
+                    progress={toast.progress}
+                    label={
+                      typeof toast.title === "string" ? toast.title : undefined
+                    }
+                  />
+                )}
+
                 {!!toast.actions && (
                   <div className="mt-2 flex min-w-0 flex-nowrap gap-2 overflow-x-auto p-px">
                     {toast.actions.map((actionProps, idx) => (
@@ -301,6 +480,39 @@ function ToastList() {
   ));
 }
 
+/** Badge with the number of times a deduplicated toast was added */
+function ToastCount({ count }: { count: number }) {
+  return (
+    <span
+      data-toast-count
+      className="shrink-0 rounded-full bg-kumo-fill px-1.5 text-xs leading-4 font-medium text-kumo-strong tabular-nums"
+    >
+      {count}
+    </span>
+  );
+}
+
+/** Progress bar of a toast with `progress` */
+function ToastProgress({
+  progress,
+  label,
+}: {
+  progress: number;
+  label?: string;
+}) {
+  return (
+    <Progress.Root
+      value={Math.min(Math.max(progress, 0), 1) * 100}
+      aria-label={label}
+      className="mt-1"
+    >
+      <Progress.Track className="relative h-1 w-full overflow-hidden rounded-full bg-kumo-fill">
+        <Progress.Indicator className="absolute inset-y-0 left-0 rounded-full bg-kumo-brand transition-[width] duration-300 ease-out" />
+      </Progress.Track>
+    </Progress.Root>
+  );
+}
+
 function ToastIcon({ variant }: { variant?: KumoToastVariant }) {
   if (!variant || variant === "default") return null;
   const variantConfig = KUMO_TOAST_VARIANTS.variant[variant];
@@ -11,9 +11,9 @@
  *
  * **Component categories:**
  * - **Action:** Button, ClipboardText
- * - **Display:** Badge, Breadcrumbs, Code, Empty, LayerCard, Meter, Text
+ * - **Display:** Badge, Breadcrumbs, Code, DataTable, Empty, LayerCard, Meter, Text
  * - **Feedback:** Banner, Loader, Toast
- * - **Input:** Checkbox, Combobox, DateRangePicker, Field, Input, Radio, Select, SensitiveInput, Switch
+ * - **Input:** Checkbox, Combobox, DateRangePicker, Field, Input, Radio, RangeSlider, Select, SensitiveInput, Slider, Switch
  * - **Layout:** Grid, Surface
  * - **Navigation:** CommandPalette, MenuBar, Pagination, Tabs
  * - **Overlay:** Dialog, DropdownMenu, Popover, Tooltip
@@ -45,8 +45,23 @@ export {
 export { DateRangePicker } from "./components/date-range-picker";
 export { Checkbox, type CheckboxProps } from "./components/checkbox";
 export { ClipboardText } from "./components/clipboard-text";
-export { Code, CodeBlock } from "./components/code";
+export {
+  Code,
+  CodeBlock,
+  tokenizeCode,
+  type CodeToken,
+  type CodeTokenType,
+} from "./components/code";
 export { Combobox } from "./components/combobox";
+export {
+  DataTable,
+  type DataTableAggregate,
+  type DataTableColumn,
+  type DataTableFilters,
+  type DataTableProps,
+  type DataTableSort,
+  type DataTableSortDirection,
+} from "./components/data-table";
 export {
   Dialog,
   DialogRoot,
@@ -99,17 +114,50 @@ export { Loader, SkeletonLine } from "./components/loader";
 export { MenuBar, useMenuNavigation } from "./components/menubar";
 export { Meter } from "./components/meter";
 export { Pagination } from "./components/pagination";
+export { RangeSlider, type RangeSliderProps } from "./components/range-slider";
 export { Select } from "./components/select";
+export {
+  Slider,
+  KUMO_SLIDER_VARIANTS,
+  KUMO_SLIDER_DEFAULT_VARIANTS,
+  type SliderProps,
+  type SliderMark,
+  type KumoSliderSize,
+  type KumoSliderVariant,
+} from "./components/slider";
 export { Surface } from "./components/surface";
 export { Switch } from "./components/switch";
 export { Tabs, type TabsProps, type TabsItem } from "./components/tabs";
-export { Table } from "./components/table";
+export {
+  Table,
+  useTableColumnLayout,
+  useTableRowTree,
+  type TableColumnDef,
+  type TableColumnLayout,
+  type TableColumnLayoutState,
+  type TableColumnPin,
+  type TableColumnVisibilityMenuProps,
+  type TableColumnVisibilityOption,
+  type TableLayoutStorage,
+  type TableRowTreeState,
+  type TableTreeRow,
+  type UseTableColumnLayoutOptions,
+  type UseTableRowTreeOptions,
+} from "./components/table";
 export { Text } from "./components/text";
 export {
   Toasty,
   ToastProvider,
   Toast,
   useKumoToastManager,
+  createKumoToastManager,
+  type KumoToastOptions,
+  type KumoToastManagerAddOptions,
+  type KumoToastManager,
+  type KumoToastManagerOptions,
+  type KumoToastPromiseOptions,
+  type KumoToastPlacement,
+  type ToastyProps,
 } from "./components/toast";
 export { Tooltip, TooltipProvider } from "./components/tooltip";
 export {
@@ -144,6 +192,15 @@ export {
   CommandPalette,
   KUMO_COMMAND_PALETTE_VARIANTS,
   KUMO_COMMAND_PALETTE_DEFAULT_VARIANTS,
+  CommandPaletteProvider,
+  CommandPaletteCommands,
+  useRegisterCommand,
+  fuzzyMatch,
+  fuzzySearch,
+  type FuzzyMatch,
+  type FuzzySearchOptions,
+  type FuzzySearchResult,
+  type FuzzySearchWeights,
   type CommandPaletteRootProps,
   type CommandPaletteItemProps,
   type CommandPaletteResultItemProps,
@@ -153,6 +210,16 @@ export {
   type CommandPaletteGroupLabelProps,
   type CommandPaletteEmptyProps,
   type CommandPaletteLoadingProps,
+  type CommandPaletteSource,
+  type CommandPaletteSourceGroup,
+  type CommandPaletteSourceStatusProps,
+  type CommandPaletteProviderProps,
+  type CommandPaletteCommandsProps,
+  type Command,
+  type CommandArgument,
+  type CommandPage,
+  type CommandRunContext,
+  type CommandStorage,
   type HighlightRange,
 } from "./components/command-palette";
 export {
@@ -198,12 +265,25 @@ export {
 // DatePicker
 export {
   DatePicker,
+  DateInput,
+  TZDate,
+  type DatePickerPreset,
   type DatePickerProps,
+  type DateInputProps,
   type DateRange,
   type DayPickerProps,
 } from "./components/date-picker";
 
-export { Flow } from "./components/flow";
+export {
+  Flow,
+  exportFlowDiagram,
+  type FlowExportOptions,
+  type FlowExportTheme,
+  type FlowGraphEdge,
+  type FlowGraphNode,
+  type FlowGraphProps,
+  type FlowNodeStatus,
+} from "./components/flow";
 // PLOP_INJECT_EXPORT
 
 // Utils
@@ -0,0 +1,19 @@
+/**
+ * Read a JSON object persisted to storage, ignoring missing or malformed
+ * values.
+ */
+export function parseStoredObject<T extends object>(
+  value: string | null,
+): T | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return typeof parsed === "object" &&
+      parsed !== null &&
+      !Array.isArray(parsed)
+      ? (parsed as T)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
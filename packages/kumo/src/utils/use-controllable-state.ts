@@ -0,0 +1,24 @@
+import { useCallback, useState } from "react";
+
+/**
+ * State that is controlled when `value` is defined and internal otherwise.
+ * `onChange` is called on every update either way.
+ */
+export function useControllableState<T>(
+  value: T | undefined,
+  defaultValue: T,
+  onChange?: (value: T) => void,
+): [T, (next: T) => void] {
+  const [internalValue, setInternalValue] = useState(defaultValue);
+  const isControlled = value !== undefined;
+
+  const setValue = useCallback(
+    (next: T) => {
+      if (!isControlled) setInternalValue(next);
+      onChange?.(next);
+    },
+    [isControlled, onChange],
+  );
+
+  return [isControlled ? value : internalValue, setValue];
+}
@@ -0,0 +1,293 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+
+/**
+ * Windowing for long lists: only the items in (and just around) the visible
+ * part of a scroll container are rendered, with spacers standing in for the
+ * rest. Row heights are measured after render, so they can vary.
+ *
+ * Rendered items carry `data-virtual-index` so they can be measured.
+ */
+
+/** Viewport height assumed before the scroll container is laid out (SSR, tests). */
+const FALLBACK_VIEWPORT_HEIGHT = 480;
+
+export interface UseVirtualListOptions {
+  /** Number of items */
+  count: number;
+  /** The scrolling element */
+  getScrollElement: () => HTMLElement | null;
+  /** The element containing the items, when it is not the scroll element */
+  getListElement?: () => HTMLElement | null;
+  /** Estimated item height in pixels, used until an item is measured */
+  estimateSize: number;
+  /** Items rendered beyond each edge of the viewport. @default 6 */
+  overscan?: number;
+  /** Window the items; when `false`, every item is rendered. @default true */
+  enabled?: boolean;
+  /** Space kept clear above items scrolled into view, e.g. under a sticky header. @default 0 */
+  scrollPaddingStart?: number;
+  /**
+   * Identity of the item at an index, which measured heights are cached by,
+   * so they follow items when the list is filtered or reordered. Keep it
+   * stable between renders of the same items. @default the index
+   */
+  getItemKey?: (index: number) => unknown;
+}
+
+export type VirtualListAlign = "auto" | "start" | "center" | "end";
+
+function isDocument(element: HTMLElement) {
+  return element === element.ownerDocument.scrollingElement;
+}
+
+const getIndexKey = (index: number) => index;
+
+/** Index of the item at `value`: the last offset not greater than it. */
+function findIndex(offsets: Float64Array, value: number) {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid]! <= value) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(low, 0);
+}
+
+/**
+ * Window a list of `count` items inside a scroll container.
+ *
+ * Render `indexes`, each with `data-virtual-index`, between spacers of
+ * `paddingStart` and `paddingEnd` pixels.
+ */
+export function useVirtualList({
+  count,
+  getScrollElement,
+  getListElement = getScrollElement,
+  estimateSize,
+  overscan = 6,
+  enabled = true,
+  scrollPaddingStart = 0,
+  getItemKey = getIndexKey,
+}: UseVirtualListOptions) {
+  // Measured heights, by item key
+  const sizes = useRef(new Map<unknown, number>());
+  const getItemKeyRef = useRef(getItemKey);
+  getItemKeyRef.current = getItemKey;
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  // Distance from the top of the scroll content to the first item
+  const scrollMargin = useRef(0);
+
+  // Item start offsets; measureVersion invalidates them when sizes change
+  const offsets = useMemo(() => {
+    const next = new Float64Array(count + 1);
+    for (let index = 0; index < count; index++) {
+      next[index + 1] =
+        next[index]! + (sizes.current.get(getItemKey(index)) ?? estimateSize);
+    }
+    return next;
+  }, [count, estimateSize, getItemKey, measureVersion]);
+  const totalSize = offsets[count]!;
+
+  let start = 0;
+  let end = count;
+  let visibleStart = 0;
+  if (enabled && count > 0) {
+    const height = viewport.height || FALLBACK_VIEWPORT_HEIGHT;
+    const top = Math.max(viewport.scrollTop - scrollMargin.current, 0);
+    visibleStart = findIndex(offsets, top);
+    start = Math.max(visibleStart - overscan, 0);
+    end = Math.min(findIndex(offsets, top + height) + 1 + overscan, count);
+  }
+
+  const updateViewport = useCallback(() => {
+    const element = getScrollElement();
+    if (!element) return;
+    const { scrollTop, clientHeight: height } = element;
+    setViewport((previous) =>
+      previous.scrollTop === scrollTop && previous.height === height
+        ? previous
+        : { scrollTop, height },
+    );
+  }, [getScrollElement]);
+
+  const resizeObserver = useRef<ResizeObserver | null>(null);
+  // Rendered items the resize observer is watching
+  const observed = useRef(new Set<HTMLElement>());
+  const measure = useCallback(() => {
+    const list = getListElement();
+    const scroll = getScrollElement();
+    if (!list || !scroll) return;
+
+    const scrollTop = isDocument(scroll)
+      ? 0
+      : scroll.getBoundingClientRect().top;
+    scrollMargin.current =
+      list === scroll
+        ? 0
+        : list.getBoundingClientRect().top - scrollTop + scroll.scrollTop;
+
+    let changed = false;
+    const rendered = new Set<HTMLElement>();
+    for (const element of list.querySelectorAll<HTMLElement>(
+      "[data-virtual-index]",
+    )) {
+      const key = getItemKeyRef.current(Number(element.dataset.virtualIndex));
+      const size = element.getBoundingClientRect().height;
+      rendered.add(element);
+      if (!observed.current.has(element)) {
+        resizeObserver.current?.observe(element);
+      }
+      // Unlaid-out elements (e.g. in jsdom) keep the estimate
+      if (size > 0 && Math.abs((sizes.current.get(key) ?? -1) - size) > 0.5) {
+        sizes.current.set(key, size);
+        changed = true;
+      }
+    }
+    // Stop watching items scrolled out of the window
+    for (const element of observed.current) {
+      if (!rendered.has(element)) resizeObserver.current?.unobserve(element);
+    }
+    observed.current = resizeObserver.current ? rendered : new Set();
+    if (changed) setMeasureVersion((version) => version + 1);
+  }, [getListElement, getScrollElement]);
+
+  useEffect(() => {
+    const element = getScrollElement();
+    if (!enabled || !element) return;
+
+    updateViewport();
+    // The document scrolls the window, which is what fires scroll events
+    const target = isDocument(element) ? window : element;
+    target.addEventListener("scroll", updateViewport, { passive: true });
+    if (typeof ResizeObserver !== "undefined") {
+      resizeObserver.current = new ResizeObserver(() => {
+        updateViewport();
+        measure();
+      });
+      resizeObserver.current.observe(element);
+    }
+    return () => {
+      target.removeEventListener("scroll", updateViewport);
+      resizeObserver.current?.disconnect();
+      resizeObserver.current = null;
+      observed.current.clear();
+    };
+  }, [enabled, getScrollElement, measure, updateViewport]);
+
+  // Measure what was rendered, every render
+  useLayoutEffect(() => {
+    if (enabled) measure();
+  });
+
+  const scrollToIndex = useCallback(
+    (index: number, align: VirtualListAlign = "auto") => {
+      const element = getScrollElement();
+      if (!element || index < 0 || index >= count) return;
+
+      const itemStart = offsets[index]! + scrollMargin.current;
+      const itemEnd = offsets[index + 1]! + scrollMargin.current;
+      const height = element.clientHeight || FALLBACK_VIEWPORT_HEIGHT;
+      const { scrollTop } = element;
+
+      let next = scrollTop;
+      if (align === "start") next = itemStart - scrollPaddingStart;
+      else if (align === "end") next = itemEnd - height;
+      else if (align === "center")
+        next = (itemStart + itemEnd) / 2 - height / 2;
+      else if (itemStart < scrollTop + scrollPaddingStart)
+        next = itemStart - scrollPaddingStart;
+      else if (itemEnd > scrollTop + height) next = itemEnd - height;
+
+      if (next !== scrollTop) {
+        element.scrollTop = Math.max(next, 0);
+        updateViewport();
+      }
+    },
+    [count, getScrollElement, offsets, scrollPaddingStart, updateViewport],
+  );
+
+  const indexes = useMemo(
+    () => Array.from({ length: end - start }, (_, offset) => start + offset),
+    [start, end],
+  );
+
+  return {
+    /** Indexes of the items to render, in order */
+    indexes,
+    /** Height of the spacer before the first rendered item */
+    paddingStart: enabled ? offsets[start]! : 0,
+    /** Height of the spacer after the last rendered item */
+    paddingEnd: enabled ? totalSize - offsets[end]! : 0,
+    /** Index of the first item in view */
+    visibleStart,
+    /** Estimated height of all items */
+    totalSize,
+    /** Scroll the container so an item is visible */
+    scrollToIndex,
+  };
+}
+
+/** Closest ancestor that scrolls vertically, or the document's scrolling element. */
+export function getScrollParent(
+  element: HTMLElement | null,
+): HTMLElement | null {
+  let current = element?.parentElement ?? null;
+  while (current) {
+    const { overflowY } = getComputedStyle(current);
+    if (overflowY === "auto" || overflowY === "scroll") return current;
+    current = current.parentElement;
+  }
+  return (document.scrollingElement as HTMLElement | null) ?? null;
+}
+
+interface VirtualListItemContextValue {
+  /** Index of the item in the whole list */
+  index: number;
+  /** Number of items in the whole list */
+  count: number;
+}
+
+const VirtualListItemContext =
+  createContext<VirtualListItemContextValue | null>(null);
+
+/** Position of the enclosing virtual list item, if any. */
+export function useVirtualListItem() {
+  return useContext(VirtualListItemContext);
+}
+
+/**
+ * Wrapper for a rendered item: marks it for measurement and tells the item
+ * component inside its position (for `index`, `aria-posinset` and
+ * `aria-setsize`).
+ */
+export function VirtualListItem({
+  index,
+  count,
+  rowIndex = index,
+  children,
+}: VirtualListItemContextValue & {
+  /** Position in the virtual list, when other rows (e.g. group labels) are interleaved. Defaults to `index`. */
+  rowIndex?: number;
+  children: ReactNode;
+}) {
+  const value = useMemo(() => ({ index, count }), [index, count]);
+  return (
+    <VirtualListItemContext.Provider value={value}>
+      <div role="presentation" data-virtual-index={rowIndex}>
+        {children}
+      </div>
+    </VirtualListItemContext.Provider>
+  );
+}
@@ -82,6 +82,10 @@ export default defineConfig(({ mode }) => {
             __dirname,
             "src/components/combobox/index.ts",
           ),
+          "components/data-table": resolve(
+            __dirname,
+            "src/components/data-table/index.ts",
+          ),
           "components/dialog": resolve(
             __dirname,
             "src/components/dialog/index.ts",
@@ -127,10 +131,18 @@ export default defineConfig(({ mode }) => {
             __dirname,
             "src/components/pagination/index.ts",
           ),
+          "components/range-slider": resolve(
+            __dirname,
+            "src/components/range-slider/index.ts",
+          ),
           "components/select": resolve(
             __dirname,
             "src/components/select/index.ts",
           ),
+          "components/slider": resolve(
+            __dirname,
+            "src/components/slider/index.ts",
+          ),
           "components/surface": resolve(
             __dirname,
             "src/components/surface/index.ts",